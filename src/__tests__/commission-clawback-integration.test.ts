@@ -68,6 +68,7 @@ describe('Commission Clawback Integration Tests', () => {
       email: 'admin@test.com',
       password: 'password123',
       role: 'admin',
+      adminRoles: ['super_admin'],
       status: 'active',
       emailVerified: true
     });
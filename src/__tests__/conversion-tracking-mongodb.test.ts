@@ -8,6 +8,7 @@ import { ReferralLink } from '../models/ReferralLink';
 import { ClickEvent } from '../models/ClickEvent';
 import { ConversionEvent } from '../models/ConversionEvent';
 import { TrackingService } from '../services/tracking';
+import { PostbackService } from '../services/postback';
 import jwt from 'jsonwebtoken';
 
 describe('MongoDB Conversion Event Recording System (Task 4.3)', () => {
@@ -106,19 +107,27 @@ describe('MongoDB Conversion Event Recording System (Task 4.3)', () => {
     });
 
     it('should handle server-to-server (s2s) conversion tracking', async () => {
-      const conversionData = {
+      const { credential, secret } = await PostbackService.createCredential('Test Advertiser', [productId], marketerId);
+      const body = JSON.stringify({
         trackingCode,
         customerId: 'customer456',
         productId,
-        initialSpendAmount: 2500,
-        attributionMethod: 's2s'
-      };
+        initialSpendAmount: 2500
+      });
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const nonce = 'nonce-s2s-1';
 
       const response = await request(app)
-        .post('/api/v1/tracking/conversions')
-        .send(conversionData);
-
-      expect(response.status).toBe(200);
+        .post('/api/v1/tracking/postbacks')
+        .set('Content-Type', 'application/json')
+        .set('X-Postback-Key', credential.keyId)
+        .set('X-Postback-Timestamp', timestamp)
+        .set('X-Postback-Nonce', nonce)
+        .set('X-Postback-Signature', PostbackService.computeSignature(secret, timestamp, nonce, body))
+        .set('Idempotency-Key', 'order-456')
+        .send(body);
+
+      expect(response.status).toBe(201);
       expect(response.body.data.attributionMethod).toBe('s2s');
 
       // Verify MongoDB storage
@@ -127,6 +136,22 @@ describe('MongoDB Conversion Event Recording System (Task 4.3)', () => {
       expect(conversionEvent?.initialSpendAmount).toBe(2500);
     });
 
+    it('should reject unsigned server-to-server conversions', async () => {
+      const response = await request(app)
+        .post('/api/v1/tracking/conversions')
+        .send({
+          trackingCode,
+          customerId: 'customer457',
+          productId,
+          initialSpendAmount: 2500,
+          attributionMethod: 's2s'
+        });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe('SIGNED_POSTBACK_REQUIRED');
+      expect(await ConversionEvent.countDocuments({ customerId: 'customer457' })).toBe(0);
+    });
+
     it('should store conversion metadata in MongoDB', async () => {
       const conversionData = {
         trackingCode,
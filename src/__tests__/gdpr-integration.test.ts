@@ -68,6 +68,7 @@ describe('GDPR Integration Tests', () => {
       firstName: 'Admin',
       lastName: 'User',
       role: 'admin',
+      adminRoles: ['super_admin'],
       status: 'active',
       emailVerified: true
     });
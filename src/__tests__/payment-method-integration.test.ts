@@ -48,6 +48,7 @@ describe('Payment Method Integration Tests', () => {
       firstName: 'Admin',
       lastName: 'User',
       role: 'admin',
+      adminRoles: ['super_admin'],
       status: 'active',
       emailVerified: true
     });
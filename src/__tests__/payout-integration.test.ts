@@ -6,6 +6,7 @@ import { User } from '../models/User';
 import { PaymentMethod } from '../models/PaymentMethod';
 import { PayoutRequest } from '../models/PayoutRequest';
 import { Commission } from '../models/Commission';
+import { LedgerService } from '../services/ledger';
 import jwt from 'jsonwebtoken';
 
 describe('Payout Integration Tests', () => {
@@ -49,6 +50,7 @@ describe('Payout Integration Tests', () => {
       email: 'admin@test.com',
       password: 'password123',
       role: 'admin',
+      adminRoles: ['super_admin'],
       status: 'active',
       emailVerified: true
     });
@@ -91,6 +93,7 @@ describe('Payout Integration Tests', () => {
       conversionDate: new Date(),
       clearancePeriodDays: 30
     }).save();
+    await LedgerService.syncMarketer(testUser._id.toString());
 
     // Generate auth tokens
     authToken = jwt.sign(
@@ -299,6 +302,7 @@ describe('Payout Integration Tests', () => {
         amount: 30,
         status: 'requested'
       }).save();
+      await LedgerService.syncMarketer(testUser._id.toString());
     });
 
     it('should return balance summary', async () => {
@@ -13,6 +13,12 @@ import jwt from 'jsonwebtoken';
 jest.mock('../services/payment');
 const MockedPaymentService = PaymentService as jest.Mocked<typeof PaymentService>;
 
+// These tests cover processing, not the step-up verification in front of it
+jest.mock('../middleware/adminAuth', () => ({
+  ...jest.requireActual('../middleware/adminAuth'),
+  requireStepUp: () => (_req: any, _res: any, next: any) => next()
+}));
+
 describe('Payout Processing Integration Tests', () => {
   let mongoServer: MongoMemoryServer;
   let testUser: any;
@@ -58,6 +64,7 @@ describe('Payout Processing Integration Tests', () => {
       email: 'admin@test.com',
       password: 'password123',
       role: 'admin',
+      adminRoles: ['super_admin'],
       status: 'active',
       emailVerified: true
     });
@@ -30,6 +30,7 @@ describe('Product API Integration Tests', () => {
       email: 'admin@test.com',
       password: 'Password123!',
       role: 'admin',
+      adminRoles: ['super_admin'],
       status: 'active',
       emailVerified: true
     });
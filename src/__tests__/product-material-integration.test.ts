@@ -25,6 +25,7 @@ describe('Product Materials API Integration Tests', () => {
       email: 'test@example.com',
       password: 'hashedpassword',
       role: 'admin',
+      adminRoles: ['super_admin'],
       status: 'active'
     });
     const savedUser = await testUser.save();
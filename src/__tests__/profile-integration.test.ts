@@ -43,6 +43,7 @@ describe('Profile Integration Tests', () => {
       email: 'admin@example.com',
       password: 'AdminPassword123!',
       role: 'admin',
+      adminRoles: ['super_admin'],
       emailVerified: true,
       status: 'active'
     });
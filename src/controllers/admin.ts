@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
-import { User, IUser } from '../models/User';
+import { User, IUser, ADMIN_ROLES } from '../models/User';
 import { UserProfile } from '../models/UserProfile';
-import { Commission } from '../models/Commission';
+import { Commission, ICommission } from '../models/Commission';
 import { PayoutRequest } from '../models/PayoutRequest';
 import { Product } from '../models/Product';
 import { ProductMaterial } from '../models/ProductMaterial';
@@ -9,6 +9,15 @@ import { AuditLog } from '../models/AuditLog';
 import { logger } from '../utils/logger';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { AuditService } from '../services/audit';
+import { NetworkService } from '../services/network';
+import { WebhookService } from '../services/webhook';
+import { CommissionService } from '../services/commission';
+import { inBaseCurrency } from '../services/currency';
+import { PayoutAllocationService } from '../services/payment/payoutAllocation';
+import { SessionService, SESSION_ERRORS } from '../services/auth/session';
+import { LoginProtectionService } from '../services/auth/loginProtection';
+import { RBACService, RBAC_ERRORS } from '../services/rbac';
+import { LedgerService } from '../services/ledger';
 import Joi from 'joi';
 
 // Validation schemas
@@ -17,6 +26,19 @@ const updateUserStatusSchema = Joi.object({
   reason: Joi.string().optional()
 });
 
+const revokeSessionsSchema = Joi.object({
+  reason: Joi.string().optional()
+});
+
+const unlockUserSchema = Joi.object({
+  reason: Joi.string().optional()
+});
+
+const updateUserRolesSchema = Joi.object({
+  roles: Joi.array().items(Joi.string().valid(...ADMIN_ROLES)).min(1).required(),
+  reason: Joi.string().optional()
+});
+
 const bulkUserActionSchema = Joi.object({
   userIds: Joi.array().items(Joi.string().required()).min(1).required(),
   action: Joi.string().valid('approve', 'suspend', 'revoke').required(),
@@ -114,15 +136,15 @@ export class AdminController {
           {
             $group: {
               _id: null,
-              totalCommissions: { $sum: '$commissionAmount' },
+              totalCommissions: { $sum: inBaseCurrency('$commissionAmount') },
               pendingCommissions: {
-                $sum: { $cond: [{ $eq: ['$status', 'pending'] }, '$commissionAmount', 0] }
+                $sum: { $cond: [{ $eq: ['$status', 'pending'] }, inBaseCurrency('$commissionAmount'), 0] }
               },
               approvedCommissions: {
-                $sum: { $cond: [{ $eq: ['$status', 'approved'] }, '$commissionAmount', 0] }
+                $sum: { $cond: [{ $eq: ['$status', 'approved'] }, inBaseCurrency('$commissionAmount'), 0] }
               },
               paidCommissions: {
-                $sum: { $cond: [{ $eq: ['$status', 'paid'] }, '$commissionAmount', 0] }
+                $sum: { $cond: [{ $eq: ['$status', 'paid'] }, inBaseCurrency('$commissionAmount'), 0] }
               },
               totalConversions: { $sum: 1 }
             }
@@ -205,6 +227,11 @@ export class AdminController {
       user.status = value.status;
       await user.save();
 
+      // Sign a user out everywhere once they can no longer use the platform
+      if (value.status !== 'active') {
+        await SessionService.revokeAllSessions(userId, 'account_deactivated', { revokedBy: req.user!._id.toString() });
+      }
+
       // Log admin activity using audit service
       await AuditService.logUserAction(
         req.user!._id,
@@ -267,6 +294,10 @@ export class AdminController {
         { status: newStatus }
       );
 
+      if (newStatus !== 'active') {
+        await SessionService.revokeAllSessions(userIds, 'account_deactivated', { revokedBy: req.user!._id.toString() });
+      }
+
       // Log admin activity using audit service
       await AuditService.logAction({
         adminId: req.user!._id,
@@ -298,6 +329,245 @@ export class AdminController {
     }
   }
 
+  static async getUserSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+      const sessions = await SessionService.getActiveSessions(userId);
+
+      res.json({
+        success: true,
+        data: { sessions }
+      });
+    } catch (error: any) {
+      logger.error('Get user sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get user sessions'
+      });
+    }
+  }
+
+  // Forced logout of one session, or of every session when no session ID is given
+  static async revokeUserSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId, sessionId } = req.params;
+      const { error, value } = revokeSessionsSchema.validate(req.body || {});
+
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        });
+      }
+
+      const user = await User.findById(userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+      }
+
+      const adminId = req.user!._id.toString();
+      let revokedCount = 1;
+      if (sessionId) {
+        await SessionService.revokeSession(userId, sessionId, 'admin_revoked', adminId);
+      } else {
+        revokedCount = await SessionService.revokeAllSessions(userId, 'admin_revoked', { revokedBy: adminId });
+      }
+
+      await AuditService.logAction({
+        adminId,
+        action: 'user_sessions_revoked',
+        resource: 'user',
+        resourceId: userId,
+        details: {
+          reason: value.reason,
+          metadata: { sessionId, revokedCount }
+        },
+        ...AuditService.extractRequestMetadata(req)
+      });
+
+      res.json({
+        success: true,
+        message: `Revoked ${revokedCount} session(s)`,
+        data: { revokedCount }
+      });
+    } catch (error: any) {
+      if (error.message === SESSION_ERRORS.notFound) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+      logger.error('Revoke user sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke user sessions'
+      });
+    }
+  }
+
+  static async unlockUser(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+      const { error, value } = unlockUserSchema.validate(req.body || {});
+
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        });
+      }
+
+      const user = await User.findById(userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+      }
+
+      const oldValue = {
+        lockedUntil: user.lockedUntil,
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockoutCount: user.lockoutCount
+      };
+      await LoginProtectionService.unlockAccount(userId);
+
+      await AuditService.logUserAction(
+        req.user!._id,
+        'account_unlocked',
+        userId,
+        oldValue,
+        { lockedUntil: null, failedLoginAttempts: 0, lockoutCount: 0 },
+        value.reason,
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'User account unlocked successfully',
+        data: {
+          user: {
+            id: user._id,
+            email: user.email,
+            status: user.status
+          }
+        }
+      });
+    } catch (error: any) {
+      logger.error('Unlock user error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to unlock user'
+      });
+    }
+  }
+
+  /**
+   * Get the admin roles and their permissions, along with the caller's own
+   */
+  static async getRoles(req: AuthenticatedRequest, res: Response) {
+    try {
+      res.json({
+        success: true,
+        data: {
+          roles: RBACService.listRoles(),
+          current: {
+            roles: RBACService.getRoles(req.user!),
+            permissions: RBACService.getPermissions(req.user!)
+          }
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get roles error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get roles'
+      });
+    }
+  }
+
+  /**
+   * Replace the roles of an admin account
+   */
+  static async updateUserRoles(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+      const { error, value } = updateUserRolesSchema.validate(req.body);
+
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        });
+      }
+
+      const { user, previousRoles } = await RBACService.assignRoles(userId, value.roles, req.user!._id.toString());
+
+      await AuditService.logUserAction(
+        req.user!._id,
+        'user_roles_updated',
+        userId,
+        { adminRoles: previousRoles },
+        { adminRoles: user.adminRoles },
+        value.reason,
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'User roles updated successfully',
+        data: {
+          user: {
+            id: user._id,
+            email: user.email,
+            adminRoles: user.adminRoles,
+            permissions: RBACService.getPermissions(user)
+          }
+        }
+      });
+    } catch (error: any) {
+      if (error.message === RBAC_ERRORS.userNotFound) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      if (
+        error.message === RBAC_ERRORS.notAdmin ||
+        error.message === RBAC_ERRORS.noRoles ||
+        error.message === RBAC_ERRORS.ownRoles ||
+        error.message.startsWith(RBAC_ERRORS.unknownRole)
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      logger.error('Update user roles error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update user roles'
+      });
+    }
+  }
+
   // Dashboard Analytics
   static async getDashboardStats(req: AuthenticatedRequest, res: Response) {
     try {
@@ -322,7 +592,7 @@ export class AdminController {
             $group: {
               _id: '$status',
               count: { $sum: 1 },
-              totalAmount: { $sum: '$commissionAmount' }
+              totalAmount: { $sum: inBaseCurrency('$commissionAmount') }
             }
           }
         ]),
@@ -1089,7 +1359,7 @@ export class AdminController {
         });
       }
 
-      const commission = await Commission.findById(commissionId);
+      let commission: ICommission | null = await Commission.findById(commissionId);
       if (!commission) {
         return res.status(404).json({
           success: false,
@@ -1098,13 +1368,39 @@ export class AdminController {
       }
 
       const oldStatus = commission.status;
-      commission.status = status;
-      
-      if (status === 'approved') {
-        commission.approvalDate = new Date();
-      }
 
-      await commission.save();
+      if (status === 'clawed_back') {
+        // Clawbacks record the adjustment and claw back the upline override commissions with it
+        if (oldStatus !== 'clawed_back') {
+          if (!['approved', 'paid'].includes(oldStatus)) {
+            return res.status(400).json({
+              success: false,
+              error: `Cannot process clawback for commission with status ${oldStatus}`
+            });
+          }
+          ({ commission } = await CommissionService.processClawback(
+            commissionId,
+            commission.commissionAmount,
+            reason || 'Status changed to clawed back by admin',
+            req.user!._id.toString()
+          ));
+        }
+      } else {
+        commission.status = status;
+
+        if (status === 'approved') {
+          commission.approvalDate = new Date();
+        }
+
+        await commission.save();
+        await LedgerService.recordCommissions([commission._id]);
+
+        // Approval releases override commissions to the marketer's recruiters
+        if (status === 'approved' && oldStatus !== 'approved') {
+          await NetworkService.createUplineCommissions(commission);
+          await WebhookService.publishCommissionEvent('commission.approved', commission);
+        }
+      }
 
       // Log commission status change
       await AuditService.logCommissionAction(
@@ -1154,10 +1450,42 @@ export class AdminController {
         updateData.approvalDate = new Date();
       }
 
-      const result = await Commission.updateMany(
-        { _id: { $in: commissionIds } },
-        updateData
-      );
+      // Only commissions that actually change status raise webhook events
+      const changedIds = (await Commission.find({ _id: { $in: commissionIds }, status: { $ne: status } }).select('_id'))
+        .map(commission => commission._id.toString());
+
+      let modifiedCount: number;
+      if (status === 'clawed_back') {
+        // Clawbacks record the adjustment and claw back the upline override commissions with it;
+        // commissions that were never approved cannot be clawed back and are left as they are
+        const clawable = await Commission.find({ _id: { $in: changedIds }, status: { $in: ['approved', 'paid'] } });
+        for (const commission of clawable) {
+          await CommissionService.processClawback(
+            commission._id.toString(),
+            commission.commissionAmount,
+            reason || 'Status changed to clawed back by admin',
+            req.user!._id.toString()
+          );
+        }
+        modifiedCount = clawable.length;
+      } else {
+        const result = await Commission.updateMany(
+          { _id: { $in: commissionIds } },
+          updateData
+        );
+        await LedgerService.recordCommissions(changedIds);
+        modifiedCount = result.modifiedCount;
+      }
+
+      if (status === 'approved') {
+        const approvedCommissions = await Commission.find({ _id: { $in: commissionIds }, status: 'approved' });
+        for (const commission of approvedCommissions) {
+          await NetworkService.createUplineCommissions(commission);
+          if (changedIds.includes(commission._id.toString())) {
+            await WebhookService.publishCommissionEvent('commission.approved', commission);
+          }
+        }
+      }
 
       // Log bulk commission update
       await AuditService.logAction({
@@ -1168,16 +1496,16 @@ export class AdminController {
           commissionIds,
           newStatus: status,
           reason,
-          modifiedCount: result.modifiedCount
+          modifiedCount
         },
         ...AuditService.extractRequestMetadata(req)
       });
 
       res.json({
         success: true,
-        message: `Successfully updated ${result.modifiedCount} commissions`,
+        message: `Successfully updated ${modifiedCount} commissions`,
         data: {
-          modifiedCount: result.modifiedCount
+          modifiedCount
         }
       });
     } catch (error: any) {
@@ -1265,6 +1593,19 @@ export class AdminController {
       }
 
       const oldStatus = payout.status;
+
+      // Reopening a failed or cancelled payout needs its released balance and commissions back
+      if (['failed', 'cancelled'].includes(oldStatus) && ['requested', 'approved', 'processing'].includes(status)) {
+        const availableBalance = await CommissionService.getAvailableBalance(payout.marketerId);
+        if (payout.amount > availableBalance) {
+          return res.status(400).json({
+            success: false,
+            error: `Insufficient balance. Available: $${availableBalance.toFixed(2)}`
+          });
+        }
+        await PayoutAllocationService.reserveCommissions(payout, { allowPartial: true });
+      }
+
       payout.status = status;
       payout.adminId = req.user!._id;
       
@@ -1281,18 +1622,17 @@ export class AdminController {
 
       await payout.save();
 
-      // Update commission status if payout is completed
+      // Settle or release the commissions allocated to this payout
       if (status === 'completed') {
-        await Commission.updateMany(
-          {
-            marketerId: payout.marketerId,
-            status: 'approved'
-          },
-          {
-            $set: { status: 'paid' }
-          }
-        );
+        await PayoutAllocationService.markPaid(payout);
+
+        if (oldStatus !== 'completed') {
+          await WebhookService.publishPayoutCompleted(payout);
+        }
+      } else if (status === 'failed' || status === 'cancelled') {
+        await PayoutAllocationService.release(payoutId, reason || `Payout ${status}`);
       }
+      await LedgerService.recordPayouts([payout._id]);
 
       // Log payout status change
       await AuditService.logPayoutAction(
@@ -1359,6 +1699,10 @@ export class AdminController {
 
       if (reason) updateData.notes = reason;
 
+      const alreadyCompletedIds = newStatus === 'completed'
+        ? (await PayoutRequest.find({ _id: { $in: payoutIds }, status: 'completed' }).select('_id')).map(payout => payout._id.toString())
+        : [];
+
       const result = await PayoutRequest.updateMany(
         { _id: { $in: payoutIds } },
         updateData
@@ -1368,17 +1712,21 @@ export class AdminController {
       if (newStatus === 'completed') {
         const completedPayouts = await PayoutRequest.find({ _id: { $in: payoutIds } });
         for (const payout of completedPayouts) {
-          await Commission.updateMany(
-            {
-              marketerId: payout.marketerId,
-              status: 'approved'
-            },
-            {
-              $set: { status: 'paid' }
-            }
-          );
+          await PayoutAllocationService.markPaid(payout);
+
+          if (!alreadyCompletedIds.includes(payout._id.toString())) {
+            await WebhookService.publishPayoutCompleted(payout);
+          }
+        }
+      }
+
+      // Rejected payouts give their commissions back to the available balance
+      if (newStatus === 'failed') {
+        for (const payoutId of payoutIds) {
+          await PayoutAllocationService.release(payoutId, reason || 'Payout rejected');
         }
       }
+      await LedgerService.recordPayouts(payoutIds);
 
       // Log bulk payout action
       await AuditService.logAction({
@@ -3,6 +3,8 @@ import { Customer } from '../models/Customer';
 import { User } from '../models/User';
 import { Product } from '../models/Product';
 import { Commission } from '../models/Commission';
+import { CurrencyService } from '../services/currency';
+import { LedgerService } from '../services/ledger';
 import mongoose from 'mongoose';
 
 // Get all customer applications with filtering and pagination
@@ -459,11 +461,14 @@ async function createCommissionForCustomer(customer: any) {
       commissionRate: product.commissionRate || 0, // Convert percentage to decimal
       commissionFlatAmount: product.commissionFlatAmount || 0,
       initialSpendAmount: customer.initialSpendAmount,
+      currency: product.currency,
+      exchangeRate: await CurrencyService.getBaseRate(product.currency),
       status: 'pending',
       conversionDate: customer.completedAt || new Date()
     });
 
     await commission.save();
+    await LedgerService.recordCommissions([commission._id]);
 
     // Update customer with commission info
     customer.commissionId = commission._id;
@@ -497,6 +502,7 @@ async function recalculateCommission(customer: any, oldAmount: number, newAmount
     commission.commissionAmount = newCommissionAmount;
     commission.initialSpendAmount = newAmount;
     await commission.save();
+    await LedgerService.recordCommissions([commission._id]);
 
     // Update customer commission info
     customer.commissionAmount = newCommissionAmount;
@@ -1,7 +1,76 @@
 import { Request, Response } from 'express';
+import Joi from 'joi';
 import { AdminReportingService } from '../services/analytics/adminReporting';
+import { ScheduledReportService } from '../services/analytics/scheduledReports';
+import { ReportExportService, TabularFormat } from '../services/analytics/reportExport';
+import { AuditService } from '../services/audit';
+import { ReportType, REPORT_TYPES, REPORT_FORMATS } from '../models/ScheduledReport';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { RBACService } from '../services/rbac';
 import { logger } from '../utils/logger';
 
+// Validation schemas
+const scheduledReportFields = {
+  name: Joi.string().trim().min(1).max(100),
+  reportType: Joi.string().valid(...REPORT_TYPES),
+  schedule: Joi.string().valid('daily', 'weekly', 'monthly'),
+  hourUtc: Joi.number().integer().min(0).max(23),
+  dayOfWeek: Joi.number().integer().min(0).max(6),
+  dayOfMonth: Joi.number().integer().min(1).max(28),
+  format: Joi.string().valid(...REPORT_FORMATS),
+  recipients: Joi.array().items(Joi.string().email()).min(1).max(50),
+  isActive: Joi.boolean()
+};
+
+const createScheduledReportSchema = Joi.object({
+  ...scheduledReportFields,
+  name: scheduledReportFields.name.required(),
+  reportType: scheduledReportFields.reportType.required(),
+  schedule: scheduledReportFields.schedule.required(),
+  recipients: scheduledReportFields.recipients.required()
+});
+
+const updateScheduledReportSchema = Joi.object(scheduledReportFields).min(1);
+
+const reportHistoryQuerySchema = Joi.object({
+  reportType: Joi.string().valid(...REPORT_TYPES).optional(),
+  scheduledReportId: Joi.string().optional(),
+  status: Joi.string().valid('completed', 'failed').optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const validationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    }
+  });
+
+const scheduledReportNotFound = (res: Response) =>
+  res.status(404).json({
+    error: {
+      code: 'NOT_FOUND',
+      message: 'Scheduled report not found'
+    }
+  });
+
+const reportTypeForbidden = (res: Response) =>
+  res.status(403).json({
+    error: {
+      code: 'FORBIDDEN',
+      message: 'Insufficient permissions for this report type'
+    }
+  });
+
+const canAccessReportType = (req: AuthenticatedRequest, reportType: string): boolean =>
+  RBACService.getReportTypes(req.user!).includes(reportType as ReportType);
+
 export class AdminReportingController {
   /**
    * Get platform-wide performance dashboard
@@ -147,7 +216,7 @@ export class AdminReportingController {
   /**
    * Get comprehensive admin dashboard with all reports
    */
-  static async getAdminDashboard(req: Request, res: Response): Promise<void> {
+  static async getAdminDashboard(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { startDate, endDate } = req.query;
 
@@ -174,11 +243,11 @@ export class AdminReportingController {
         return;
       }
 
-      // Get all reports in parallel
+      // Get all reports in parallel, leaving out the ones the admin's roles do not cover
       const [platformPerformance, financialReport, complianceReport] = await Promise.all([
         AdminReportingService.getPlatformPerformanceDashboard(start, end),
-        AdminReportingService.getFinancialReport(start, end),
-        AdminReportingService.getComplianceReport(start, end)
+        canAccessReportType(req, 'financial') ? AdminReportingService.getFinancialReport(start, end) : null,
+        canAccessReportType(req, 'compliance') ? AdminReportingService.getComplianceReport(start, end) : null
       ]);
 
       res.json({
@@ -207,7 +276,7 @@ export class AdminReportingController {
   /**
    * Export report data in various formats
    */
-  static async exportReport(req: Request, res: Response): Promise<void> {
+  static async exportReport(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { reportType, startDate, endDate, format = 'json' } = req.query;
 
@@ -231,6 +300,11 @@ export class AdminReportingController {
         return;
       }
 
+      if (!canAccessReportType(req, reportType as string)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
       if (!['json', 'csv', 'xlsx'].includes(format as string)) {
         res.status(400).json({
           error: {
@@ -254,53 +328,32 @@ export class AdminReportingController {
         return;
       }
 
-      // Get the appropriate report data
-      let reportData: any;
-      switch (reportType) {
-        case 'platform_performance':
-          reportData = await AdminReportingService.getPlatformPerformanceDashboard(start, end);
-          break;
-        case 'financial':
-          reportData = await AdminReportingService.getFinancialReport(start, end);
-          break;
-        case 'compliance':
-          reportData = await AdminReportingService.getComplianceReport(start, end);
-          break;
-      }
-
-      // Set appropriate headers
-      const timestamp = new Date().toISOString().split('T')[0];
-      const filename = `${reportType}_report_${timestamp}`;
-
-      switch (format) {
-        case 'json':
-          res.setHeader('Content-Type', 'application/json');
-          res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
-          res.send(JSON.stringify({
-            data: reportData,
-            exportedAt: new Date().toISOString()
-          }, null, 2));
-          break;
-
-        case 'csv':
-          res.setHeader('Content-Type', 'text/csv');
-          res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
-          // Convert to CSV (simplified implementation)
-          const csvData = this.convertToCSV(reportData);
-          res.send(csvData);
-          break;
-
-        case 'xlsx':
-          res.status(501).json({
-            error: {
-              code: 'NOT_IMPLEMENTED',
-              message: 'XLSX export not yet implemented'
-            }
-          });
-          break;
+      const reportData = await AdminReportingService.getReport(reportType as ReportType, start, end);
+
+      if (format === 'json') {
+        const file = await AdminReportingService.renderReport(reportType as ReportType, reportData, 'json');
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+        res.send(file.content);
+        return;
       }
+
+      // Tabular exports are streamed straight to the response
+      const tables = ReportExportService.flattenReport(reportData, reportType as string);
+      const file = ReportExportService.getFileInfo(format as TabularFormat, tables.length);
+      const fileName = `${AdminReportingService.getExportFileName(reportType as ReportType)}.${file.extension}`;
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      await ReportExportService.writeTables(tables, format as TabularFormat, res);
     } catch (error) {
       logger.error('Error exporting report:', error);
+      if (res.headersSent) {
+        // Part of the file has already been sent, so the download can only be aborted
+        res.destroy();
+        return;
+      }
+      res.removeHeader('Content-Disposition');
       res.status(500).json({
         error: {
           code: 'INTERNAL_ERROR',
@@ -311,42 +364,37 @@ export class AdminReportingController {
   }
 
   /**
-   * Get report generation status and history
+   * Get generated report history
    */
-  static async getReportHistory(req: any, res: any): Promise<void> {
+  static async getReportHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { page = 1, limit = 20, reportType } = req.query;
-
-      // This would typically query a report history table
-      // For now, return mock data
-      const mockHistory = [
-        {
-          id: '1',
-          reportType: 'platform_performance',
-          generatedAt: new Date(),
-          generatedBy: req.user?.id,
-          status: 'completed',
-          fileUrl: '/reports/platform_performance_2024-01-15.json'
-        },
-        {
-          id: '2',
-          reportType: 'financial',
-          generatedAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
-          generatedBy: req.user?.id,
-          status: 'completed',
-          fileUrl: '/reports/financial_2024-01-14.json'
-        }
-      ];
+      const { error, value } = reportHistoryQuerySchema.validate(req.query);
+      if (error) {
+        validationError(res, error);
+        return;
+      }
+
+      const { page, limit, ...filters } = value;
+      if (filters.reportType && !canAccessReportType(req, filters.reportType)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      const { reports, total } = await ScheduledReportService.getReportHistory(
+        { ...filters, reportTypes: RBACService.getReportTypes(req.user!) },
+        page,
+        limit
+      );
 
       res.json({
         success: true,
         data: {
-          reports: mockHistory,
+          reports,
           pagination: {
-            page: parseInt(page as string),
-            limit: parseInt(limit as string),
-            total: mockHistory.length,
-            pages: Math.ceil(mockHistory.length / parseInt(limit as string))
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
           }
         }
       });
@@ -362,12 +410,286 @@ export class AdminReportingController {
   }
 
   /**
-   * Helper method to convert report data to CSV
+   * Download a generated report file
+   */
+  static async downloadReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const report = await ScheduledReportService.getReportFile(req.params.reportId);
+
+      if (!report || !report.content) {
+        res.status(404).json({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Report file not found'
+          }
+        });
+        return;
+      }
+
+      if (!canAccessReportType(req, report.reportType)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      res.setHeader('Content-Type', report.contentType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`);
+      res.send(report.content);
+    } catch (error) {
+      logger.error('Error downloading report:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to download report'
+        }
+      });
+    }
+  }
+
+  /**
+   * List scheduled reports
+   */
+  static async getScheduledReports(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { reportType, isActive } = req.query;
+
+      if (reportType && !canAccessReportType(req, reportType as string)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      const reports = await ScheduledReportService.getScheduledReports({
+        reportType: reportType as string | undefined,
+        reportTypes: RBACService.getReportTypes(req.user!),
+        isActive: isActive === undefined ? undefined : isActive === 'true'
+      });
+
+      res.json({
+        success: true,
+        data: reports
+      });
+    } catch (error) {
+      logger.error('Error getting scheduled reports:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve scheduled reports'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get a scheduled report
+   */
+  static async getScheduledReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const report = await ScheduledReportService.getScheduledReport(req.params.reportId);
+      if (!report) {
+        scheduledReportNotFound(res);
+        return;
+      }
+      if (!canAccessReportType(req, report.reportType)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Error getting scheduled report:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve scheduled report'
+        }
+      });
+    }
+  }
+
+  /**
+   * Create a scheduled report
+   */
+  static async createScheduledReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = createScheduledReportSchema.validate(req.body);
+      if (error) {
+        validationError(res, error);
+        return;
+      }
+      if (!canAccessReportType(req, value.reportType)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      const report = await ScheduledReportService.createScheduledReport(value, req.user!._id);
+
+      await AuditService.logAction({
+        adminId: req.user!._id,
+        action: 'scheduled_report_created',
+        resource: 'report',
+        resourceId: report._id.toString(),
+        details: { newValue: report.toJSON() },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Error creating scheduled report:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create scheduled report'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update a scheduled report
    */
-  private static convertToCSV(data: any): string {
-    // This is a simplified CSV conversion
-    // In a real implementation, you would properly flatten the nested data structure
-    const jsonString = JSON.stringify(data, null, 2);
-    return `"Report Data"\n"${jsonString.replace(/"/g, '""')}"`;
+  static async updateScheduledReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = updateScheduledReportSchema.validate(req.body);
+      if (error) {
+        validationError(res, error);
+        return;
+      }
+
+      const existing = await ScheduledReportService.getScheduledReport(req.params.reportId);
+      if (!existing) {
+        scheduledReportNotFound(res);
+        return;
+      }
+      if (!canAccessReportType(req, existing.reportType) || (value.reportType && !canAccessReportType(req, value.reportType))) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      const oldValue = existing.toJSON();
+      const report = await ScheduledReportService.updateScheduledReport(req.params.reportId, value, req.user!._id);
+
+      await AuditService.logAction({
+        adminId: req.user!._id,
+        action: 'scheduled_report_updated',
+        resource: 'report',
+        resourceId: report._id.toString(),
+        details: { oldValue, newValue: report.toJSON() },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      if (error.message === 'Scheduled report not found') {
+        scheduledReportNotFound(res);
+        return;
+      }
+      logger.error('Error updating scheduled report:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update scheduled report'
+        }
+      });
+    }
+  }
+
+  /**
+   * Delete a scheduled report
+   */
+  static async deleteScheduledReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const existing = await ScheduledReportService.getScheduledReport(req.params.reportId);
+      if (existing && !canAccessReportType(req, existing.reportType)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      const report = await ScheduledReportService.deleteScheduledReport(req.params.reportId);
+
+      await AuditService.logAction({
+        adminId: req.user!._id,
+        action: 'scheduled_report_deleted',
+        resource: 'report',
+        resourceId: report._id.toString(),
+        details: { oldValue: report.toJSON() },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Scheduled report deleted'
+      });
+    } catch (error: any) {
+      if (error.message === 'Scheduled report not found') {
+        scheduledReportNotFound(res);
+        return;
+      }
+      logger.error('Error deleting scheduled report:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete scheduled report'
+        }
+      });
+    }
+  }
+
+  /**
+   * Generate and send a scheduled report immediately
+   */
+  static async runScheduledReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const existing = await ScheduledReportService.getScheduledReport(req.params.reportId);
+      if (existing && !canAccessReportType(req, existing.reportType)) {
+        reportTypeForbidden(res);
+        return;
+      }
+
+      const generated = await ScheduledReportService.runNow(req.params.reportId, req.user!._id);
+
+      await AuditService.logAction({
+        adminId: req.user!._id,
+        action: 'report_generated',
+        resource: 'report',
+        resourceId: generated._id.toString(),
+        details: {
+          metadata: {
+            scheduledReportId: req.params.reportId,
+            reportType: generated.reportType,
+            status: generated.status
+          }
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: generated.status === 'completed',
+        data: generated
+      });
+    } catch (error: any) {
+      if (error.message === 'Scheduled report not found') {
+        scheduledReportNotFound(res);
+        return;
+      }
+      logger.error('Error running scheduled report:', error);
+      res.status(500).json({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to run scheduled report'
+        }
+      });
+    }
   }
-}
\ No newline at end of file
+}
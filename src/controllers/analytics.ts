@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { AnalyticsService } from '../services/analytics';
+import { ReportExportService, TabularFormat } from '../services/analytics/reportExport';
 import { logger } from '../utils/logger';
 
 export class AnalyticsController {
@@ -211,42 +212,49 @@ export class AnalyticsController {
         }
       }
 
-      // Generate report data
-      const reportData = await AnalyticsService.generateCustomReport(
+      const timestamp = new Date().toISOString().split('T')[0];
+      const filename = `${reportType}_report_${timestamp}`;
+
+      if (format === 'json') {
+        // Generate report data
+        const reportData = await AnalyticsService.generateCustomReport(
+          reportType as 'clicks' | 'conversions' | 'commissions',
+          parsedFilters,
+          groupBy as string,
+          sortBy as string
+        );
+
+        const exportedData = await AnalyticsService.exportData(reportData, {
+          format: 'json',
+          includeHeaders: true
+        });
+
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+        res.send(exportedData);
+        return;
+      }
+
+      // Tabular exports stream rows from the database straight to the response
+      const rows = await AnalyticsService.streamCustomReport(
         reportType as 'clicks' | 'conversions' | 'commissions',
         parsedFilters,
         groupBy as string,
         sortBy as string
       );
+      const file = ReportExportService.getFileInfo(format as TabularFormat, 1);
 
-      // Export data
-      const exportedData = await AnalyticsService.exportData(reportData, {
-        format: format as 'json' | 'csv' | 'xlsx',
-        includeHeaders: true
-      });
-
-      // Set appropriate headers
-      const timestamp = new Date().toISOString().split('T')[0];
-      const filename = `${reportType}_report_${timestamp}`;
-
-      switch (format) {
-        case 'json':
-          res.setHeader('Content-Type', 'application/json');
-          res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
-          break;
-        case 'csv':
-          res.setHeader('Content-Type', 'text/csv');
-          res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
-          break;
-        case 'xlsx':
-          res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-          res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
-          break;
-      }
-
-      res.send(exportedData);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.${file.extension}"`);
+      await ReportExportService.writeTables([{ name: reportType as string, rows }], format as TabularFormat, res);
     } catch (error) {
       logger.error('Error exporting report data:', error);
+      if (res.headersSent) {
+        // Part of the file has already been sent, so the download can only be aborted
+        res.destroy();
+        return;
+      }
+      res.removeHeader('Content-Disposition');
       res.status(500).json({
         error: {
           code: 'INTERNAL_ERROR',
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/auth';
+import { SessionService, SessionContext, SESSION_ERRORS } from '../services/auth/session';
+import { LoginProtectionService, LOGIN_PROTECTION_ERRORS } from '../services/auth/loginProtection';
 import { MFAService } from '../services/mfa';
 import { User } from '../models/User';
 import { AuthenticatedRequest } from '../middleware/auth';
@@ -19,18 +21,25 @@ const registerSchema = Joi.object({
     'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
     'any.required': 'Password is required'
   }),
-  role: Joi.string().valid('marketer', 'admin').optional()
+  role: Joi.string().valid('marketer').optional(),
+  recruitmentCode: Joi.string().trim().max(64).optional()
 });
 
 const loginSchema = Joi.object({
   email: Joi.string().email().required(),
-  password: Joi.string().required()
+  password: Joi.string().required(),
+  captchaToken: Joi.string().max(4096).optional()
 });
 
 const refreshTokenSchema = Joi.object({
   refreshToken: Joi.string().required()
 });
 
+const getSessionContext = (req: Request): SessionContext => ({
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
 const emailSchema = Joi.object({
   email: Joi.string().email().required()
 });
@@ -56,7 +65,8 @@ export class AuthController {
       //   });
       // }
 
-      const { user, verificationToken } = await AuthService.registerUser(req.body);
+      // Admin accounts are never self-registered, whatever role the body asks for
+      const { user, verificationToken } = await AuthService.registerUser({ ...req.body, role: 'marketer' });
 
       // Check if we're in alpha stage
       const isAlphaStage = process.env.STAGE === 'alpha';
@@ -84,11 +94,10 @@ export class AuthController {
         }
       }
 
-      // Generate tokens for alpha stage users
+      // Sign alpha stage users straight in
       let tokens = null;
       if (isAlphaStage) {
-        const { generateTokenPair } = require('../utils/jwt');
-        tokens = generateTokenPair(user);
+        ({ tokens } = await SessionService.createSession(user, getSessionContext(req)));
       }
 
       res.status(201).json({
@@ -133,7 +142,7 @@ export class AuthController {
         });
       }
 
-      const { user, tokens } = await AuthService.loginUser(value);
+      const { user, tokens, sessionId } = await AuthService.loginUser(value, getSessionContext(req));
 
       // Get MFA status for the user
       const mfaStatus = await MFAService.getMFAStatus(user._id);
@@ -153,14 +162,36 @@ export class AuthController {
             mfaSetupCompleted: mfaStatus.mfaSetupCompleted,
             createdInAlphaStage: user.createdInAlphaStage
           },
-          tokens
+          tokens,
+          sessionId
         }
       });
     } catch (error: any) {
       logger.error('Login error:', error);
-      res.status(401).json({
+
+      // Tell the client when it may retry and whether the next attempt needs a CAPTCHA
+      let loginStatus;
+      try {
+        loginStatus = req.body?.email
+          ? await LoginProtectionService.getLoginStatus(String(req.body.email), req.ip)
+          : undefined;
+      } catch (statusError) {
+        logger.error('Login status lookup error:', statusError);
+      }
+
+      const statusCode = error.message === LOGIN_PROTECTION_ERRORS.accountLocked
+        ? 423
+        : error.message === LOGIN_PROTECTION_ERRORS.tooManyAttempts ? 429 : 401;
+
+      if (loginStatus?.retryAfterSeconds) {
+        res.setHeader('Retry-After', loginStatus.retryAfterSeconds.toString());
+      }
+
+      res.status(statusCode).json({
         success: false,
-        error: error.message || 'Login failed'
+        error: error.message || 'Login failed',
+        ...(loginStatus?.retryAfterSeconds && { retryAfter: loginStatus.retryAfterSeconds }),
+        ...(loginStatus?.captchaRequired && { captchaRequired: true })
       });
     }
   }
@@ -180,7 +211,7 @@ export class AuthController {
         });
       }
 
-      const tokens = await AuthService.refreshTokens(value.refreshToken);
+      const tokens = await AuthService.refreshTokens(value.refreshToken, getSessionContext(req));
 
       res.json({
         success: true,
@@ -601,4 +632,92 @@ export class AuthController {
       });
     }
   }
+  static async logout(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.sessionId) {
+        return res.status(400).json({
+          success: false,
+          error: 'No session to log out of'
+        });
+      }
+
+      await AuthService.logout(req.user!._id.toString(), req.sessionId);
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error: any) {
+      logger.error('Logout error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to log out'
+      });
+    }
+  }
+
+  static async getSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const sessions = await SessionService.getActiveSessions(req.user!._id.toString());
+
+      res.json({
+        success: true,
+        data: {
+          sessions: sessions.map(session => ({
+            ...session.toJSON(),
+            current: session._id.toString() === req.sessionId
+          }))
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get sessions'
+      });
+    }
+  }
+
+  static async revokeSession(req: AuthenticatedRequest, res: Response) {
+    try {
+      await SessionService.revokeSession(req.user!._id.toString(), req.params.sessionId, 'user_revoked');
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error: any) {
+      if (error.message === SESSION_ERRORS.notFound) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+      logger.error('Revoke session error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke session'
+      });
+    }
+  }
+
+  static async revokeOtherSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const revokedCount = await SessionService.revokeAllSessions(req.user!._id.toString(), 'user_revoked', {
+        exceptSessionId: req.sessionId
+      });
+
+      res.json({
+        success: true,
+        message: `Revoked ${revokedCount} other session(s)`,
+        data: { revokedCount }
+      });
+    } catch (error: any) {
+      logger.error('Revoke other sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke sessions'
+      });
+    }
+  }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import Joi from 'joi';
 import { CommissionService } from '../services/commission';
 import { Commission } from '../models/Commission';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
 
 // Validation schemas
 const calculateCommissionSchema = Joi.object({
@@ -25,6 +26,9 @@ const calculateCommissionSchema = Joi.object({
     'number.min': 'Initial spend amount cannot be negative',
     'any.required': 'Initial spend amount is required'
   }),
+  currency: Joi.string().uppercase().valid(...SUPPORTED_CURRENCIES).optional().messages({
+    'any.only': 'Currency is not supported'
+  }),
   conversionDate: Joi.date().iso().required().messages({
     'date.format': 'Conversion date must be a valid ISO date',
     'any.required': 'Conversion date is required'
@@ -41,7 +45,8 @@ const calculateCommissionSchema = Joi.object({
   customCommissionAmount: Joi.number().min(0).optional().messages({
     'number.min': 'Custom commission amount cannot be negative'
   }),
-  overrideProductRules: Joi.boolean().optional()
+  overrideProductRules: Joi.boolean().optional(),
+  conversionEventId: Joi.string().optional()
 });
 
 const getCommissionsSchema = Joi.object({
@@ -0,0 +1,173 @@
+import { Response } from 'express';
+import Joi from 'joi';
+import { CommissionOverrideService } from '../services/commission/overrideService';
+import { AuditService } from '../services/audit';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// Validation schemas
+const createOverrideSchema = Joi.object({
+  marketerId: Joi.string().required(),
+  productId: Joi.string().required(),
+  commissionType: Joi.string().valid('percentage', 'flat').required(),
+  commissionRate: Joi.number().min(0).max(1).when('commissionType', {
+    is: 'percentage',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  commissionFlatAmount: Joi.number().min(0).when('commissionType', {
+    is: 'flat',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  validFrom: Joi.date().required(),
+  validTo: Joi.date().greater(Joi.ref('validFrom')).allow(null).optional(),
+  reason: Joi.string().trim().min(1).max(1000).required()
+});
+
+const listOverridesQuerySchema = Joi.object({
+  marketerId: Joi.string().optional(),
+  productId: Joi.string().optional(),
+  status: Joi.string().valid('active', 'revoked').optional()
+});
+
+const revokeOverrideSchema = Joi.object({
+  reason: Joi.string().trim().max(1000).optional()
+});
+
+const validationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+
+export class CommissionOverrideController {
+  /**
+   * List negotiated commission overrides
+   */
+  static async getOverrides(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = listOverridesQuerySchema.validate(req.query);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const overrides = await CommissionOverrideService.getOverrides(value);
+
+      res.json({
+        success: true,
+        data: { overrides }
+      });
+    } catch (error: any) {
+      logger.error('Get commission overrides error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch commission overrides'
+      });
+    }
+  }
+
+  /**
+   * Get a single override
+   */
+  static async getOverride(req: AuthenticatedRequest, res: Response) {
+    try {
+      const override = await CommissionOverrideService.getOverrideById(req.params.overrideId);
+      if (!override) {
+        return res.status(404).json({
+          success: false,
+          error: 'Commission override not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { override }
+      });
+    } catch (error: any) {
+      logger.error('Get commission override error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch commission override'
+      });
+    }
+  }
+
+  /**
+   * Create a negotiated rate; the requesting admin is recorded as approver
+   */
+  static async createOverride(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = createOverrideSchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const override = await CommissionOverrideService.createOverride(value, req.user!._id);
+
+      await AuditService.logCommissionAction(
+        req.user!._id,
+        'commission_override_created',
+        override._id.toString(),
+        undefined,
+        override.toObject(),
+        value.reason,
+        req
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Commission override created successfully',
+        data: { override }
+      });
+    } catch (error: any) {
+      logger.error('Create commission override error:', error);
+      const status = error.message === 'Marketer not found' || error.message === 'Product not found' ? 404 : 400;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to create commission override'
+      });
+    }
+  }
+
+  /**
+   * Revoke an override so it stops applying to new conversions
+   */
+  static async revokeOverride(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = revokeOverrideSchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const override = await CommissionOverrideService.revokeOverride(req.params.overrideId, req.user!._id, value.reason);
+
+      await AuditService.logCommissionAction(
+        req.user!._id,
+        'commission_override_revoked',
+        override._id.toString(),
+        { status: 'active' },
+        { status: override.status, revokedAt: override.revokedAt },
+        value.reason,
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'Commission override revoked successfully',
+        data: { override }
+      });
+    } catch (error: any) {
+      logger.error('Revoke commission override error:', error);
+      const status = error.message === 'Commission override not found' ? 404 : 400;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to revoke commission override'
+      });
+    }
+  }
+}
@@ -0,0 +1,307 @@
+import { Response } from 'express';
+import Joi from 'joi';
+import { CommissionPlanService } from '../services/commission/planService';
+import { AuditService } from '../services/audit';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// Validation schemas
+const spendTierSchema = Joi.object({
+  minAmount: Joi.number().min(0).required(),
+  maxAmount: Joi.number().min(0).optional(),
+  rate: Joi.number().min(0).max(1).required()
+});
+
+const volumeTierSchema = Joi.object({
+  minConversions: Joi.number().integer().min(1).required(),
+  maxConversions: Joi.number().integer().min(1).optional(),
+  rate: Joi.number().min(0).max(1).required()
+});
+
+const bonusThresholdSchema = Joi.object({
+  metric: Joi.string().valid('monthly_conversions', 'monthly_spend').required(),
+  threshold: Joi.number().min(1).required(),
+  bonusAmount: Joi.number().min(0).required()
+});
+
+const createPlanSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255).required(),
+  effectiveFrom: Joi.date().required(),
+  effectiveTo: Joi.date().greater(Joi.ref('effectiveFrom')).allow(null).optional(),
+  spendTiers: Joi.array().items(spendTierSchema).optional(),
+  volumeTiers: Joi.array().items(volumeTierSchema).optional(),
+  bonusThresholds: Joi.array().items(bonusThresholdSchema).optional(),
+  notes: Joi.string().max(1000).optional()
+});
+
+const updatePlanSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255).optional(),
+  effectiveFrom: Joi.date().optional(),
+  effectiveTo: Joi.date().allow(null).optional(),
+  spendTiers: Joi.array().items(spendTierSchema).optional(),
+  volumeTiers: Joi.array().items(volumeTierSchema).optional(),
+  bonusThresholds: Joi.array().items(bonusThresholdSchema).optional(),
+  notes: Joi.string().max(1000).optional()
+});
+
+const listPlansQuerySchema = Joi.object({
+  status: Joi.string().valid('draft', 'active', 'archived').optional()
+});
+
+const validationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+
+export class CommissionPlanController {
+  /**
+   * List all plan versions for a product
+   */
+  static async getPlans(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { productId } = req.params;
+      const { error, value } = listPlansQuerySchema.validate(req.query);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const plans = await CommissionPlanService.getPlans(productId, value.status);
+
+      res.json({
+        success: true,
+        data: { plans }
+      });
+    } catch (error: any) {
+      logger.error('Get commission plans error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch commission plans'
+      });
+    }
+  }
+
+  /**
+   * Get a single plan version
+   */
+  static async getPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { productId, planId } = req.params;
+
+      const plan = await CommissionPlanService.getPlanById(productId, planId);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          error: 'Commission plan not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { plan }
+      });
+    } catch (error: any) {
+      logger.error('Get commission plan error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch commission plan'
+      });
+    }
+  }
+
+  /**
+   * Create a new draft plan version
+   */
+  static async createPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { productId } = req.params;
+      const { error, value } = createPlanSchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const plan = await CommissionPlanService.createPlan(productId, value, req.user!._id);
+
+      await AuditService.logProductAction(
+        req.user!._id,
+        'commission_plan_created',
+        productId,
+        undefined,
+        plan.toObject(),
+        `Commission plan v${plan.version} created`,
+        req
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Commission plan created successfully',
+        data: { plan }
+      });
+    } catch (error: any) {
+      logger.error('Create commission plan error:', error);
+      const status = error.message === 'Product not found' ? 404 : 400;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to create commission plan'
+      });
+    }
+  }
+
+  /**
+   * Update a draft plan version
+   */
+  static async updatePlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { productId, planId } = req.params;
+      const { error, value } = updatePlanSchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const existingPlan = await CommissionPlanService.getPlanById(productId, planId);
+      if (!existingPlan) {
+        return res.status(404).json({
+          success: false,
+          error: 'Commission plan not found'
+        });
+      }
+
+      const oldPlan = existingPlan.toObject();
+      const plan = await CommissionPlanService.updatePlan(productId, planId, value);
+
+      await AuditService.logProductAction(
+        req.user!._id,
+        'commission_plan_updated',
+        productId,
+        oldPlan,
+        plan.toObject(),
+        `Commission plan v${plan.version} updated`,
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'Commission plan updated successfully',
+        data: { plan }
+      });
+    } catch (error: any) {
+      logger.error('Update commission plan error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to update commission plan'
+      });
+    }
+  }
+
+  /**
+   * Activate a draft plan version
+   */
+  static async activatePlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { productId, planId } = req.params;
+
+      const plan = await CommissionPlanService.activatePlan(productId, planId, req.user!._id);
+
+      await AuditService.logProductAction(
+        req.user!._id,
+        'commission_plan_activated',
+        productId,
+        { planId, status: 'draft' },
+        { planId, status: plan.status, version: plan.version },
+        `Commission plan v${plan.version} activated`,
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'Commission plan activated successfully',
+        data: { plan }
+      });
+    } catch (error: any) {
+      logger.error('Activate commission plan error:', error);
+      const status = error.message === 'Commission plan not found' ? 404 : 400;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to activate commission plan'
+      });
+    }
+  }
+
+  /**
+   * Archive a plan version so it stops applying to new conversions
+   */
+  static async archivePlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { productId, planId } = req.params;
+
+      const plan = await CommissionPlanService.archivePlan(productId, planId);
+
+      await AuditService.logProductAction(
+        req.user!._id,
+        'commission_plan_archived',
+        productId,
+        { planId },
+        { planId, status: plan.status, version: plan.version },
+        req.body?.reason || `Commission plan v${plan.version} archived`,
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'Commission plan archived successfully',
+        data: { plan }
+      });
+    } catch (error: any) {
+      logger.error('Archive commission plan error:', error);
+      const status = error.message === 'Commission plan not found' ? 404 : 400;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to archive commission plan'
+      });
+    }
+  }
+
+  /**
+   * Delete a draft plan version
+   */
+  static async deletePlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { productId, planId } = req.params;
+
+      const plan = await CommissionPlanService.getPlanById(productId, planId);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          error: 'Commission plan not found'
+        });
+      }
+
+      await CommissionPlanService.deletePlan(productId, planId);
+
+      await AuditService.logProductAction(
+        req.user!._id,
+        'commission_plan_deleted',
+        productId,
+        plan.toObject(),
+        undefined,
+        `Commission plan v${plan.version} deleted`,
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'Commission plan deleted successfully'
+      });
+    } catch (error: any) {
+      logger.error('Delete commission plan error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to delete commission plan'
+      });
+    }
+  }
+}
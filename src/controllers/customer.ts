@@ -3,6 +3,7 @@ import { Customer } from '../models/Customer';
 import { ReferralLink } from '../models/ReferralLink';
 import { Product } from '../models/Product';
 import { OnboardingService } from '../services/onboarding';
+import { RecurringCommissionService } from '../services/commission/recurringService';
 import { cloudinaryService } from '../services/cloudinary';
 import multer from 'multer';
 import path from 'path';
@@ -621,6 +622,99 @@ export const recordConversion = async (req: Request, res: Response) => {
   }
 };
 
+// Record a follow-on customer transaction and generate recurring commissions
+export const recordCustomerTransaction = async (req: Request, res: Response) => {
+  try {
+    const { customerId } = req.params;
+    const {
+      amount,
+      transactionReference,
+      transactionType,
+      currency,
+      transactionDate
+    } = req.body;
+
+    if (!amount || amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Transaction amount is required and must be greater than 0'
+      });
+    }
+
+    if (!transactionReference || typeof transactionReference !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Transaction reference is required'
+      });
+    }
+
+    if (transactionType && !['deposit', 'subscription_payment', 'purchase'].includes(transactionType)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Transaction type must be one of deposit, subscription_payment or purchase'
+      });
+    }
+
+    const parsedDate = transactionDate ? new Date(transactionDate) : undefined;
+    if (parsedDate && isNaN(parsedDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Transaction date is invalid'
+      });
+    }
+
+    const { transaction, commissions, duplicate } = await RecurringCommissionService.recordTransaction(customerId, {
+      amount,
+      transactionReference,
+      transactionType,
+      currency,
+      transactionDate: parsedDate
+    });
+
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      data: {
+        transaction,
+        commissions,
+        duplicate
+      }
+    });
+  } catch (error: any) {
+    if (error.message === 'Customer not found') {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    console.error('Error recording customer transaction:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Get follow-on transactions for a customer
+export const getCustomerTransactions = async (req: Request, res: Response) => {
+  try {
+    const { customerId } = req.params;
+
+    const transactions = await RecurringCommissionService.getCustomerTransactions(customerId);
+
+    res.json({
+      success: true,
+      data: { transactions }
+    });
+  } catch (error) {
+    console.error('Error getting customer transactions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 // Get detailed customer status (for marketers)
 export const getDetailedCustomerStatus = async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,233 @@
+import { Response } from 'express';
+import Joi from 'joi';
+import { DataRetentionService } from '../services/dataRetention';
+import { DataRetentionJobs } from '../jobs/dataRetentionJobs';
+import { AuditService } from '../services/audit';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// Validation schemas
+const policySchema = Joi.object({
+  description: Joi.string().trim().min(1).max(500).required(),
+  retentionPeriodDays: Joi.number().integer().min(1).required(),
+  dataTypes: Joi.array()
+    .items(Joi.string().valid(...DataRetentionService.getSupportedDataTypes()))
+    .min(1)
+    .unique()
+    .required(),
+  anonymizeAfterDays: Joi.number().integer().min(1).optional(),
+  deleteAfterDays: Joi.number().integer().min(1).optional(),
+  preserveFields: Joi.array().items(Joi.string().trim()).unique().default([]),
+  isActive: Joi.boolean().default(true)
+}).or('anonymizeAfterDays', 'deleteAfterDays');
+
+const executeSchema = Joi.object({
+  dryRun: Joi.boolean().default(true)
+});
+
+const emergencyCleanupSchema = Joi.object({
+  dataType: Joi.string().trim().required(),
+  olderThanDays: Joi.number().integer().min(1).required(),
+  dryRun: Joi.boolean().default(true)
+});
+
+const validationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+
+export class DataRetentionController {
+  /**
+   * Retention policies, including built-in ones and admin overrides
+   */
+  static async getPolicies(req: AuthenticatedRequest, res: Response) {
+    try {
+      const policies = await DataRetentionService.getPolicies();
+
+      res.json({
+        success: true,
+        data: {
+          policies,
+          supportedDataTypes: DataRetentionService.getSupportedDataTypes()
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get retention policies error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch retention policies'
+      });
+    }
+  }
+
+  /**
+   * Create a retention policy or override an existing one by name
+   */
+  static async savePolicy(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = policySchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const policy = { name: req.params.policyName, ...value };
+
+      const validation = DataRetentionService.validateRetentionPolicy(policy);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validation.errors.map(message => ({ field: 'policy', message }))
+        });
+      }
+
+      // The service records the change in the audit log
+      const result = await DataRetentionService.createRetentionPolicy(policy, req.user!._id);
+      if (!result.success) {
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to save retention policy'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Retention policy saved',
+        data: { policy }
+      });
+    } catch (error: any) {
+      logger.error('Save retention policy error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to save retention policy'
+      });
+    }
+  }
+
+  /**
+   * Records currently eligible for processing and the last execution
+   */
+  static async getStatusReport(req: AuthenticatedRequest, res: Response) {
+    try {
+      const report = await DataRetentionJobs.generateRetentionStatusReport();
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      logger.error('Get retention status report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate retention status report'
+      });
+    }
+  }
+
+  /**
+   * Compliance check listing data held past its retention period
+   */
+  static async getComplianceReport(req: AuthenticatedRequest, res: Response) {
+    try {
+      const report = await DataRetentionService.performComplianceCheck();
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      logger.error('Get retention compliance report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to run compliance check'
+      });
+    }
+  }
+
+  /**
+   * Run all active policies now. Defaults to a dry run that only reports what would change.
+   */
+  static async executePolicies(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = executeSchema.validate(req.body || {});
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const reports = await DataRetentionService.executeRetentionPolicies({ dryRun: value.dryRun });
+
+      await AuditService.logAction({
+        adminId: req.user!._id,
+        action: 'retention_policies_executed',
+        resource: 'system',
+        details: {
+          metadata: {
+            dryRun: value.dryRun,
+            policies: reports.map(report => ({
+              policyName: report.policyName,
+              recordsAnonymized: report.recordsAnonymized,
+              recordsDeleted: report.recordsDeleted,
+              errors: report.errors.length
+            }))
+          }
+        },
+        ...AuditService.extractRequestMetadata(req)
+      });
+
+      res.json({
+        success: true,
+        message: value.dryRun ? 'Retention dry run completed' : 'Retention policies executed',
+        data: { dryRun: value.dryRun, reports }
+      });
+    } catch (error: any) {
+      logger.error('Execute retention policies error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to execute retention policies'
+      });
+    }
+  }
+
+  /**
+   * Anonymize one data type older than a given age, outside the regular policies
+   */
+  static async emergencyCleanup(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = emergencyCleanupSchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const { dataType, olderThanDays, dryRun } = value;
+      const result = await DataRetentionJobs.emergencyCleanup(dataType, olderThanDays, dryRun);
+
+      await AuditService.logAction({
+        adminId: req.user!._id,
+        action: 'retention_emergency_cleanup',
+        resource: 'system',
+        resourceId: dataType,
+        details: {
+          metadata: { olderThanDays, dryRun, recordsProcessed: result.recordsProcessed }
+        },
+        ...AuditService.extractRequestMetadata(req)
+      });
+
+      res.json({
+        success: true,
+        message: dryRun ? 'Emergency cleanup simulated' : 'Emergency cleanup completed',
+        data: { dataType, olderThanDays, dryRun, recordsProcessed: result.recordsProcessed }
+      });
+    } catch (error: any) {
+      logger.error('Emergency cleanup error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Emergency cleanup failed'
+      });
+    }
+  }
+}
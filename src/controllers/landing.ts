@@ -51,30 +51,32 @@ export const handleReferralClick = async (req: Request, res: Response) => {
     
     await TrackingService.trackClick(clickData);
     
-    // Set tracking cookies
+    // Get the product to include in onboarding parameters
+    const product = await Product.findById(referralLink.productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+    
+    // Set tracking cookies for the product's configured cookie lifetime
+    const cookieMaxAge = TrackingService.getTrackingCookieMaxAge(product.cookieDurationDays);
+    
     res.cookie('affiliate_tracking', trackingCode, {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxAge: cookieMaxAge,
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax'
     });
     
     res.cookie('affiliate_session', sessionId, {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxAge: cookieMaxAge,
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax'
     });
     
-    // Get the product to include in onboarding parameters
-    const product = await Product.findById(referralLink.productId);
-    if (!product) {
-      return res.status(404).json({
-        success: false,
-        message: 'Product not found'
-      });
-    }
-    
     // Redirect to the onboarding page with tracking parameters
     const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3002';
     const onboardingUrl = `${frontendUrl}/onboarding?trackingCode=${trackingCode}&productId=${product._id}&session=${sessionId}`;
@@ -5,6 +5,7 @@ import { ReferralLink } from '../models/ReferralLink';
 import { Product } from '../models/Product';
 import { CommissionService } from '../services/commission';
 import { TrackingService } from '../services/tracking';
+import { NetworkService } from '../services/network';
 
 // Get marketer dashboard data
 export const getDashboardData = async (req: Request, res: Response) => {
@@ -101,6 +102,32 @@ export const getCommissionDetails = async (req: Request, res: Response) => {
   }
 };
 
+// Get recruitment link, downline tree and override earnings
+export const getNetwork = async (req: Request, res: Response) => {
+  try {
+    const marketerId = req.user?.id;
+    if (!marketerId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized'
+      });
+    }
+
+    const network = await NetworkService.getNetwork(marketerId);
+
+    res.json({
+      success: true,
+      data: network
+    });
+  } catch (error) {
+    console.error('Error getting marketer network:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 // Get customer referrals for a marketer
 export const getCustomerReferrals = async (req: Request, res: Response) => {
   try {
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { MFAService } from '../services/mfa';
+import { WebAuthnService } from '../services/mfa/webauthn';
+import { SessionService, getSessionAssurance } from '../services/auth/session';
+import { AuditService } from '../services/audit';
 import { logger } from '../utils/logger';
 import Joi from 'joi';
 
@@ -38,6 +41,50 @@ const mfaTokenOrBackupSchema = Joi.object({
   })
 });
 
+const webauthnAssertionSchema = Joi.object({
+  id: Joi.string().required(),
+  rawId: Joi.string().required(),
+  type: Joi.string().valid('public-key').required(),
+  response: Joi.object({
+    clientDataJSON: Joi.string().required(),
+    authenticatorData: Joi.string().required(),
+    signature: Joi.string().required(),
+    userHandle: Joi.string().allow(null, '').optional()
+  }).unknown(true).required()
+}).unknown(true);
+
+// Either a TOTP or backup code, or a WebAuthn assertion for options from /webauthn/authenticate/options
+const mfaFactorSchema = Joi.object({
+  token: mfaTokenOrBackupSchema.extract('token').optional(),
+  webauthn: webauthnAssertionSchema
+}).xor('token', 'webauthn').messages({
+  'object.missing': 'Either an MFA token or a WebAuthn assertion is required',
+  'object.xor': 'Provide either an MFA token or a WebAuthn assertion, not both'
+});
+
+const webauthnRegistrationSchema = Joi.object({
+  name: Joi.string().trim().max(100).required().messages({
+    'any.required': 'Authenticator name is required'
+  }),
+  credential: Joi.object({
+    id: Joi.string().required(),
+    rawId: Joi.string().required(),
+    type: Joi.string().valid('public-key').required(),
+    response: Joi.object({
+      clientDataJSON: Joi.string().required(),
+      authenticatorData: Joi.string().required(),
+      publicKey: Joi.string().required(),
+      publicKeyAlgorithm: Joi.number().integer().required(),
+      transports: Joi.array().items(Joi.string()).optional(),
+      attestationObject: Joi.string().required()
+    }).unknown(true).required()
+  }).unknown(true).required()
+});
+
+const webauthnRenameSchema = Joi.object({
+  name: Joi.string().trim().max(100).required()
+});
+
 export class MFAController {
   /**
    * Setup MFA for a user - generates secret and QR code
@@ -138,8 +185,8 @@ export class MFAController {
         });
       }
 
-      // Validate request body - accept both TOTP tokens and backup codes
-      const { error, value } = mfaTokenOrBackupSchema.validate(req.body);
+      // Validate request body - accept TOTP tokens, backup codes and WebAuthn assertions
+      const { error, value } = mfaFactorSchema.validate(req.body);
       if (error) {
         return res.status(400).json({
           success: false,
@@ -151,17 +198,18 @@ export class MFAController {
         });
       }
 
-      const verification = await MFAService.verifyMFAToken(userId, value.token);
+      const verification = await MFAService.verifyMFAFactor(userId, value);
 
       if (verification.isValid) {
         res.json({
           success: true,
-          message: 'MFA token verified successfully'
+          message: 'MFA token verified successfully',
+          data: { factor: verification.factor }
         });
       } else {
         res.status(401).json({
           success: false,
-          error: 'Invalid MFA token or backup code'
+          error: value.webauthn ? 'Invalid WebAuthn assertion' : 'Invalid MFA token or backup code'
         });
       }
     } catch (error: any) {
@@ -294,4 +342,302 @@ export class MFAController {
       });
     }
   }
+
+  /**
+   * Start registering a WebAuthn authenticator - returns options for navigator.credentials.create()
+   */
+  static async getWebAuthnRegistrationOptions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      const options = await WebAuthnService.generateRegistrationOptions(userId);
+
+      res.json({
+        success: true,
+        data: { options }
+      });
+    } catch (error: any) {
+      logger.error('WebAuthn registration options error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to start authenticator registration'
+      });
+    }
+  }
+
+  /**
+   * Verify the authenticator's registration response and save it under the given name
+   */
+  static async verifyWebAuthnRegistration(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      const { error, value } = webauthnRegistrationSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        });
+      }
+
+      const credential = await WebAuthnService.verifyRegistration(userId, value.name, value.credential);
+
+      res.status(201).json({
+        success: true,
+        message: 'Authenticator registered successfully',
+        data: { credential }
+      });
+    } catch (error: any) {
+      logger.error('WebAuthn registration error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Authenticator registration failed'
+      });
+    }
+  }
+
+  /**
+   * Start a WebAuthn assertion - returns options for navigator.credentials.get()
+   */
+  static async getWebAuthnAuthenticationOptions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      const options = await WebAuthnService.generateAuthenticationOptions(userId);
+
+      res.json({
+        success: true,
+        data: { options }
+      });
+    } catch (error: any) {
+      logger.error('WebAuthn authentication options error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to start authenticator verification'
+      });
+    }
+  }
+
+  /**
+   * List the user's registered WebAuthn authenticators
+   */
+  static async getWebAuthnCredentials(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      const credentials = await WebAuthnService.listCredentials(userId);
+
+      res.json({
+        success: true,
+        data: { credentials }
+      });
+    } catch (error: any) {
+      logger.error('Get WebAuthn credentials error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to get authenticators'
+      });
+    }
+  }
+
+  /**
+   * Rename a WebAuthn authenticator
+   */
+  static async renameWebAuthnCredential(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      const { error, value } = webauthnRenameSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        });
+      }
+
+      const credential = await WebAuthnService.renameCredential(userId, req.params.credentialId, value.name);
+
+      res.json({
+        success: true,
+        message: 'Authenticator renamed successfully',
+        data: { credential }
+      });
+    } catch (error: any) {
+      logger.error('Rename WebAuthn credential error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to rename authenticator'
+      });
+    }
+  }
+
+  /**
+   * Remove a WebAuthn authenticator (requires a current second factor)
+   */
+  static async deleteWebAuthnCredential(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      await WebAuthnService.deleteCredential(userId, req.params.credentialId);
+
+      res.json({
+        success: true,
+        message: 'Authenticator removed successfully'
+      });
+    } catch (error: any) {
+      logger.error('Delete WebAuthn credential error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to remove authenticator'
+      });
+    }
+  }
+
+  /**
+   * Step up the current session: a fresh second factor elevates its assurance for STEP_UP_TTL_MINUTES
+   */
+  static async stepUp(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      if (!req.sessionId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Step-up requires a session. Please log in again.'
+        });
+      }
+
+      const { error, value } = mfaFactorSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        });
+      }
+
+      const verification = await MFAService.verifyMFAFactor(userId, value);
+      if (!verification.isValid) {
+        return res.status(401).json({
+          success: false,
+          error: value.webauthn ? 'Invalid WebAuthn assertion' : 'Invalid MFA token or backup code'
+        });
+      }
+
+      const session = await SessionService.elevateSession(
+        req.sessionId,
+        userId,
+        MFAService.getFactorAssurance(verification.factor!),
+        verification.factor!
+      );
+      // A higher level the session already held stays in effect
+      const assuranceLevel = getSessionAssurance(session);
+      req.assuranceLevel = assuranceLevel;
+
+      await AuditService.logSystemAction(
+        userId,
+        'session_step_up',
+        { sessionId: req.sessionId, factor: verification.factor, elevatedUntil: session.elevatedUntil },
+        req
+      );
+
+      res.json({
+        success: true,
+        message: 'Session elevated successfully',
+        data: {
+          assuranceLevel,
+          elevatedUntil: session.elevatedUntil
+        }
+      });
+    } catch (error: any) {
+      logger.error('MFA step-up error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Step-up verification failed'
+      });
+    }
+  }
+
+  /**
+   * End the current session's step-up window early
+   */
+  static async endStepUp(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
+
+      if (req.sessionId) {
+        await SessionService.dropElevation(req.sessionId, userId);
+      }
+
+      res.json({
+        success: true,
+        message: 'Session step-up ended'
+      });
+    } catch (error: any) {
+      logger.error('End MFA step-up error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to end step-up'
+      });
+    }
+  }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { PaymentMethod } from '../models/PaymentMethod';
+import { CryptoPayoutService, isCryptoMethod } from '../services/payment/cryptoPayout';
+import { isSepaIban, isValidBic, isValidRoutingNumber } from '../services/payment/bankFiles';
 import Joi from 'joi';
 
 // Base validation schema
@@ -11,6 +13,9 @@ const basePaymentMethodSchema = Joi.object({
     routingNumber: Joi.string().optional(),
     bankName: Joi.string().optional(),
     accountHolderName: Joi.string().optional(),
+    accountType: Joi.string().valid('checking', 'savings').optional(),
+    iban: Joi.string().optional(),
+    bic: Joi.string().optional(),
     // PayPal fields
     paypalEmail: Joi.string().email().optional(),
     // Stripe fields
@@ -32,6 +37,9 @@ const updatePaymentMethodSchema = Joi.object({
     routingNumber: Joi.string(),
     bankName: Joi.string(),
     accountHolderName: Joi.string(),
+    accountType: Joi.string().valid('checking', 'savings'),
+    iban: Joi.string(),
+    bic: Joi.string(),
     paypalEmail: Joi.string().email(),
     stripeAccountId: Joi.string(),
     walletAddress: Joi.string(),
@@ -65,8 +73,15 @@ export const createPaymentMethod = async (req: Request, res: Response) => {
     const { methodType, accountDetails } = value;
 
     if (methodType === 'bank_transfer') {
-      if (!accountDetails.accountNumber) validationErrors.push({ field: 'accountDetails.accountNumber', message: 'Account number is required for bank transfer' });
-      if (!accountDetails.routingNumber) validationErrors.push({ field: 'accountDetails.routingNumber', message: 'Routing number is required for bank transfer' });
+      if (accountDetails.iban) {
+        // SEPA accounts are identified by IBAN (and optionally BIC)
+        if (!isSepaIban(accountDetails.iban)) validationErrors.push({ field: 'accountDetails.iban', message: 'IBAN is invalid or outside the SEPA zone' });
+        if (accountDetails.bic && !isValidBic(accountDetails.bic)) validationErrors.push({ field: 'accountDetails.bic', message: 'Invalid BIC' });
+      } else {
+        if (!accountDetails.accountNumber) validationErrors.push({ field: 'accountDetails.accountNumber', message: 'Account number is required for bank transfer' });
+        if (!accountDetails.routingNumber) validationErrors.push({ field: 'accountDetails.routingNumber', message: 'Routing number is required for bank transfer' });
+        else if (!isValidRoutingNumber(accountDetails.routingNumber)) validationErrors.push({ field: 'accountDetails.routingNumber', message: 'Invalid routing number' });
+      }
       //if (!accountDetails.bankName) validationErrors.push({ field: 'accountDetails.bankName', message: 'Bank name is required for bank transfer' });
       if (!accountDetails.accountHolderName) validationErrors.push({ field: 'accountDetails.accountHolderName', message: 'Account holder name is required for bank transfer' });
       //if (!accountDetails.country) validationErrors.push({ field: 'accountDetails.country', message: 'Country is required for bank transfer' });
@@ -77,16 +92,14 @@ export const createPaymentMethod = async (req: Request, res: Response) => {
       if (!accountDetails.stripeAccountId) validationErrors.push({ field: 'accountDetails.stripeAccountId', message: 'Stripe account ID is required for Stripe payments' });
       if (!accountDetails.country) validationErrors.push({ field: 'accountDetails.country', message: 'Country is required for Stripe payments' });
     } else if (['bitcoin', 'ethereum', 'usdc', 'usdt'].includes(methodType)) {
-      if (!accountDetails.walletAddress) validationErrors.push({ field: 'accountDetails.walletAddress', message: 'Wallet address is required for cryptocurrency payments' });
-      
-      // Basic wallet address validation
-      const walletAddress = accountDetails.walletAddress;
-      if (methodType === 'bitcoin' && !walletAddress.match(/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$|^bc1[a-z0-9]{39,59}$/)) {
-        validationErrors.push({ field: 'accountDetails.walletAddress', message: 'Invalid Bitcoin wallet address format' });
-      } else if (methodType === 'ethereum' && !walletAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-        validationErrors.push({ field: 'accountDetails.walletAddress', message: 'Invalid Ethereum wallet address format' });
-      } else if ((methodType === 'usdc' || methodType === 'usdt') && !walletAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-        validationErrors.push({ field: 'accountDetails.walletAddress', message: 'Invalid wallet address format (must be Ethereum-compatible)' });
+      if (!accountDetails.walletAddress) {
+        validationErrors.push({ field: 'accountDetails.walletAddress', message: 'Wallet address is required for cryptocurrency payments' });
+      } else {
+        // Address format and checksum are validated for the wallet's network
+        const addressError = CryptoPayoutService.validateAddress(methodType, accountDetails.walletAddress, accountDetails.network);
+        if (addressError) {
+          validationErrors.push({ field: 'accountDetails.walletAddress', message: addressError });
+        }
       }
     }
 
@@ -212,7 +225,7 @@ export const updatePaymentMethod = async (req: Request, res: Response) => {
     const { id } = req.params;
     const userId = (req as any).user._id;
 
-    const paymentMethod = await PaymentMethod.findOne({ _id: id, userId });
+    const paymentMethod = await PaymentMethod.findOne({ _id: id, userId }).select('+encryptedAccountDetails');
     
     if (!paymentMethod) {
       return res.status(404).json({
@@ -223,9 +236,31 @@ export const updatePaymentMethod = async (req: Request, res: Response) => {
       });
     }
 
+    // Raw account details are never selected, so merge the update into the decrypted ones
+    const accountDetails = value.accountDetails
+      ? { ...paymentMethod.decryptAccountDetails(), ...value.accountDetails }
+      : undefined;
+
+    if (accountDetails && isCryptoMethod(paymentMethod.methodType) && accountDetails.walletAddress) {
+      const addressError = CryptoPayoutService.validateAddress(
+        paymentMethod.methodType,
+        accountDetails.walletAddress,
+        accountDetails.network
+      );
+      if (addressError) {
+        return res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: [{ field: 'accountDetails.walletAddress', message: addressError }]
+          }
+        });
+      }
+    }
+
     // Update fields
-    if (value.accountDetails) {
-      paymentMethod.accountDetails = { ...paymentMethod.accountDetails, ...value.accountDetails };
+    if (accountDetails) {
+      paymentMethod.accountDetails = accountDetails;
     }
     if (typeof value.isDefault === 'boolean') {
       paymentMethod.isDefault = value.isDefault;
@@ -1,8 +1,12 @@
 import { Request, Response } from 'express';
 import { PayoutRequest } from '../models/PayoutRequest';
 import { PaymentMethod } from '../models/PaymentMethod';
-import { Commission } from '../models/Commission';
-import { PaymentService } from '../services/payment';
+import { PaymentService, BANK_TRANSFER_BATCH_REQUIRED } from '../services/payment';
+import { PayoutAllocationService, INSUFFICIENT_COMMISSIONS } from '../services/payment/payoutAllocation';
+import { CommissionService } from '../services/commission';
+import { LedgerService, MARKETER_ACCOUNTS } from '../services/ledger';
+import { WebhookService } from '../services/webhook';
+import { getBaseCurrency } from '../utils/currency';
 import Joi from 'joi';
 
 // Validation schemas
@@ -33,65 +37,24 @@ const bulkProcessPayoutsSchema = Joi.object({
   notes: Joi.string().max(1000)
 });
 
+const statementQuerySchema = Joi.object({
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().min(Joi.ref('startDate')).required(),
+  account: Joi.string().valid(...MARKETER_ACCOUNTS).default('marketer_available')
+});
+
+const trialBalanceQuerySchema = Joi.object({
+  asOf: Joi.date().iso()
+});
+
 // Configuration
 const MIN_WITHDRAWAL_AMOUNT = parseFloat(process.env.MIN_WITHDRAWAL_AMOUNT || '50');
 const MAX_WITHDRAWAL_AMOUNT = parseFloat(process.env.MAX_WITHDRAWAL_AMOUNT || '10000');
 
 // Helper function to calculate available balance
 const calculateAvailableBalance = async (marketerId: string): Promise<number> => {
-  // Get total approved commissions
-  const approvedCommissions = await Commission.aggregate([
-    {
-      $match: {
-        marketerId,
-        status: 'approved'
-      }
-    },
-    {
-      $group: {
-        _id: null,
-        total: { $sum: '$commissionAmount' }
-      }
-    }
-  ]);
-
-  // Get total completed payouts
-  const completedPayouts = await PayoutRequest.aggregate([
-    {
-      $match: {
-        marketerId,
-        status: 'completed'
-      }
-    },
-    {
-      $group: {
-        _id: null,
-        total: { $sum: '$amount' }
-      }
-    }
-  ]);
-
-  // Get total pending/processing payouts
-  const pendingPayouts = await PayoutRequest.aggregate([
-    {
-      $match: {
-        marketerId,
-        status: { $in: ['requested', 'approved', 'processing'] }
-      }
-    },
-    {
-      $group: {
-        _id: null,
-        total: { $sum: '$amount' }
-      }
-    }
-  ]);
-
-  const totalEarned = approvedCommissions[0]?.total || 0;
-  const totalPaidOut = completedPayouts[0]?.total || 0;
-  const totalPending = pendingPayouts[0]?.total || 0;
-
-  return Math.max(0, totalEarned - totalPaidOut - totalPending);
+  const availableBalance = await CommissionService.getAvailableBalance(marketerId);
+  return Math.max(0, availableBalance);
 };
 
 // Create payout request
@@ -192,7 +155,29 @@ export const createPayoutRequest = async (req: Request, res: Response) => {
       amount
     });
 
-    await payoutRequest.save();
+    // Reserve the commissions this payout will pay before saving it. Reservations are checked against
+    // each other, so concurrent requests cannot both be covered by the same commissions.
+    try {
+      await PayoutAllocationService.reserveCommissions(payoutRequest);
+    } catch (allocationError: any) {
+      if (allocationError.message === INSUFFICIENT_COMMISSIONS) {
+        return res.status(400).json({
+          error: {
+            code: 'INSUFFICIENT_COMMISSIONS',
+            message: INSUFFICIENT_COMMISSIONS
+          }
+        });
+      }
+      throw allocationError;
+    }
+
+    try {
+      await payoutRequest.save();
+    } catch (saveError) {
+      await PayoutAllocationService.release(payoutRequest._id.toString(), 'Payout request could not be saved');
+      throw saveError;
+    }
+    await LedgerService.recordPayouts([payoutRequest._id]);
 
     // Populate payment method info for response
     await payoutRequest.populate('paymentMethodId', 'methodType isDefault');
@@ -288,70 +273,58 @@ export const getPayoutRequest = async (req: Request, res: Response) => {
   }
 };
 
-// Get marketer's balance summary
-export const getBalanceSummary = async (req: Request, res: Response) => {
+// Get the commissions a payout request pays
+export const getPayoutAllocations = async (req: Request, res: Response) => {
   try {
+    const { id } = req.params;
     const marketerId = (req as any).user.id;
 
-    const availableBalance = await calculateAvailableBalance(marketerId);
+    const payoutRequest = await PayoutRequest.findOne({ _id: id, marketerId });
 
-    // Get pending commissions (still in clearance period)
-    const pendingCommissions = await Commission.aggregate([
-      {
-        $match: {
-          marketerId,
-          status: 'pending'
-        }
-      },
-      {
-        $group: {
-          _id: null,
-          total: { $sum: '$commissionAmount' }
+    if (!payoutRequest) {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Payout request not found'
         }
-      }
-    ]);
+      });
+    }
 
-    // Get total lifetime earnings
-    const lifetimeEarnings = await Commission.aggregate([
-      {
-        $match: {
-          marketerId,
-          status: { $in: ['approved', 'paid'] }
-        }
-      },
-      {
-        $group: {
-          _id: null,
-          total: { $sum: '$commissionAmount' }
-        }
-      }
-    ]);
+    const breakdown = await PayoutAllocationService.getBreakdown(payoutRequest);
 
-    // Get total paid out
-    const totalPaidOut = await PayoutRequest.aggregate([
-      {
-        $match: {
-          marketerId,
-          status: 'completed'
-        }
-      },
-      {
-        $group: {
-          _id: null,
-          total: { $sum: '$amount' }
-        }
+    res.json({
+      success: true,
+      data: breakdown
+    });
+  } catch (error) {
+    console.error('Error fetching payout allocations:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch payout allocations'
       }
-    ]);
+    });
+  }
+};
+
+// Get marketer's balance summary
+export const getBalanceSummary = async (req: Request, res: Response) => {
+  try {
+    const marketerId = (req as any).user.id;
+
+    const balances = await LedgerService.getBalances(marketerId);
 
     res.json({
       success: true,
       data: {
-        availableBalance: availableBalance,
-        pendingBalance: pendingCommissions[0]?.total || 0,
-        lifetimeEarnings: lifetimeEarnings[0]?.total || 0,
-        totalPaidOut: totalPaidOut[0]?.total || 0,
+        availableBalance: Math.max(0, balances.available),
+        pendingBalance: balances.pending, // Commissions still in their clearance period
+        pendingPayouts: balances.payoutPending,
+        lifetimeEarnings: balances.lifetimeEarnings,
+        totalPaidOut: balances.totalPaidOut,
         minWithdrawalAmount: MIN_WITHDRAWAL_AMOUNT,
-        maxWithdrawalAmount: MAX_WITHDRAWAL_AMOUNT
+        maxWithdrawalAmount: MAX_WITHDRAWAL_AMOUNT,
+        currency: getBaseCurrency()
       }
     });
   } catch (error) {
@@ -365,6 +338,75 @@ export const getBalanceSummary = async (req: Request, res: Response) => {
   }
 };
 
+// Get marketer's ledger statement for a period
+export const getStatement = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = statementQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        }
+      });
+    }
+
+    const marketerId = (req as any).user.id;
+    const statement = await LedgerService.getStatement(marketerId, value);
+
+    res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    console.error('Error fetching ledger statement:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch ledger statement'
+      }
+    });
+  }
+};
+
+// Get debit and credit totals across the ledger (admin only)
+export const getLedgerTrialBalance = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = trialBalanceQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.details.map(detail => ({
+            field: detail.path.join('.'),
+            message: detail.message
+          }))
+        }
+      });
+    }
+
+    const trialBalance = await LedgerService.getTrialBalance(value.asOf);
+
+    res.json({
+      success: true,
+      data: trialBalance
+    });
+  } catch (error) {
+    console.error('Error fetching ledger trial balance:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch ledger trial balance'
+      }
+    });
+  }
+};
+
 // Cancel payout request (marketer only, before approval)
 export const cancelPayoutRequest = async (req: Request, res: Response) => {
   try {
@@ -393,6 +435,8 @@ export const cancelPayoutRequest = async (req: Request, res: Response) => {
 
     payoutRequest.status = 'cancelled';
     await payoutRequest.save();
+    await PayoutAllocationService.release(payoutRequest._id.toString(), 'Cancelled by marketer');
+    await LedgerService.recordPayouts([payoutRequest._id]);
 
     res.json({
       success: true,
@@ -505,6 +549,20 @@ export const updatePayoutStatus = async (req: Request, res: Response) => {
       });
     }
 
+    // A retry needs the balance and commissions released by the failure back
+    if (payoutRequest.status === 'failed' && status === 'processing') {
+      const availableBalance = await calculateAvailableBalance(payoutRequest.marketerId);
+      if (payoutRequest.amount > availableBalance) {
+        return res.status(400).json({
+          error: {
+            code: 'INSUFFICIENT_BALANCE',
+            message: `Insufficient balance. Available: $${availableBalance.toFixed(2)}`
+          }
+        });
+      }
+      await PayoutAllocationService.reserveCommissions(payoutRequest, { allowPartial: true });
+    }
+
     // Update payout request
     payoutRequest.status = status;
     payoutRequest.adminId = adminId;
@@ -515,18 +573,14 @@ export const updatePayoutStatus = async (req: Request, res: Response) => {
 
     await payoutRequest.save();
 
-    // Update commission status if payout is completed
+    // Settle or release the commissions allocated to this payout
     if (status === 'completed') {
-      await Commission.updateMany(
-        {
-          marketerId: payoutRequest.marketerId,
-          status: 'approved'
-        },
-        {
-          $set: { status: 'paid' }
-        }
-      );
+      await PayoutAllocationService.markPaid(payoutRequest);
+      await WebhookService.publishPayoutCompleted(payoutRequest);
+    } else if (status === 'failed' || status === 'cancelled') {
+      await PayoutAllocationService.release(payoutRequest._id.toString(), failureReason || `Payout ${status}`);
     }
+    await LedgerService.recordPayouts([payoutRequest._id]);
 
     await payoutRequest.populate([
       { path: 'marketerId', select: 'email' },
@@ -575,6 +629,16 @@ export const processPayout = async (req: Request, res: Response) => {
       });
     }
 
+    const paymentMethod = await PaymentMethod.findById(payoutRequest.paymentMethodId);
+    if (paymentMethod?.methodType === 'bank_transfer') {
+      return res.status(400).json({
+        error: {
+          code: 'BATCH_REQUIRED',
+          message: BANK_TRANSFER_BATCH_REQUIRED
+        }
+      });
+    }
+
     // Update status to processing
     payoutRequest.status = 'processing';
     payoutRequest.adminId = adminId;
@@ -585,21 +649,18 @@ export const processPayout = async (req: Request, res: Response) => {
       const result = await PaymentService.processPayout(payoutRequest);
 
       if (result.success) {
-        // Update to completed
+        // Update to completed; the gateway confirms settlement later through reconciliation
         payoutRequest.status = 'completed';
         payoutRequest.transactionId = result.transactionId;
+        payoutRequest.gateway = result.gateway;
+        payoutRequest.settlementStatus = 'pending';
         await payoutRequest.save();
 
         // Update commission status
-        await Commission.updateMany(
-          {
-            marketerId: payoutRequest.marketerId,
-            status: 'approved'
-          },
-          {
-            $set: { status: 'paid' }
-          }
-        );
+        await PayoutAllocationService.markPaid(payoutRequest);
+        await LedgerService.recordPayouts([payoutRequest._id]);
+
+        await WebhookService.publishPayoutCompleted(payoutRequest);
 
         res.json({
           success: true,
@@ -611,6 +672,8 @@ export const processPayout = async (req: Request, res: Response) => {
         payoutRequest.status = 'failed';
         payoutRequest.failureReason = result.error;
         await payoutRequest.save();
+        await PayoutAllocationService.release(payoutRequest._id.toString(), result.error || 'Payment processing failed');
+        await LedgerService.recordPayouts([payoutRequest._id]);
 
         res.status(400).json({
           error: {
@@ -624,6 +687,8 @@ export const processPayout = async (req: Request, res: Response) => {
       payoutRequest.status = 'failed';
       payoutRequest.failureReason = 'Payment gateway service error';
       await payoutRequest.save();
+      await PayoutAllocationService.release(payoutRequest._id.toString(), payoutRequest.failureReason);
+      await LedgerService.recordPayouts([payoutRequest._id]);
 
       console.error('Payment gateway error:', gatewayError);
       res.status(500).json({
@@ -665,16 +730,28 @@ export const bulkProcessPayouts = async (req: Request, res: Response) => {
     const { payoutIds, processingFee, notes } = value;
 
     // Find all requested payouts
-    const payoutRequests = await PayoutRequest.find({
+    const approvedPayouts = await PayoutRequest.find({
       _id: { $in: payoutIds },
       status: 'approved'
     });
 
+    // Bank transfers are left approved for the next NACHA/SEPA batch
+    const bankTransferMethodIds = (await PaymentMethod.find({
+      _id: { $in: approvedPayouts.map(p => p.paymentMethodId) },
+      methodType: 'bank_transfer'
+    }).select('_id')).map(method => method._id.toString());
+    const batchRequiredIds = approvedPayouts
+      .filter(p => bankTransferMethodIds.includes(p.paymentMethodId.toString()))
+      .map(p => p._id.toString());
+    const payoutRequests = approvedPayouts.filter(p => !batchRequiredIds.includes(p._id.toString()));
+
     if (payoutRequests.length === 0) {
       return res.status(400).json({
         error: {
           code: 'NO_VALID_PAYOUTS',
-          message: 'No approved payout requests found for processing'
+          message: batchRequiredIds.length > 0
+            ? BANK_TRANSFER_BATCH_REQUIRED
+            : 'No approved payout requests found for processing'
         }
       });
     }
@@ -696,33 +773,37 @@ export const bulkProcessPayouts = async (req: Request, res: Response) => {
       // Process through payment gateways
       const result = await PaymentService.processBulkPayouts(payoutRequests);
 
-      // Update successful payouts
+      // Update successful payouts; the gateway confirms settlement later through reconciliation
       if (result.successful.length > 0) {
         await PayoutRequest.updateMany(
           { _id: { $in: result.successful } },
           {
             $set: {
               status: 'completed',
-              completedAt: new Date()
+              completedAt: new Date(),
+              settlementStatus: 'pending'
             }
           }
         );
 
+        for (const payoutId of result.successful) {
+          const reference: any = {};
+          if (result.transactionIds?.[payoutId]) reference.transactionId = result.transactionIds[payoutId];
+          if (result.gateways?.[payoutId]) reference.gateway = result.gateways[payoutId];
+          if (Object.keys(reference).length > 0) {
+            await PayoutRequest.updateOne({ _id: payoutId }, { $set: reference });
+          }
+        }
+
         // Update commissions for successful payouts
         const successfulPayouts = await PayoutRequest.find({
           _id: { $in: result.successful }
         });
 
         for (const payout of successfulPayouts) {
-          await Commission.updateMany(
-            {
-              marketerId: payout.marketerId,
-              status: 'approved'
-            },
-            {
-              $set: { status: 'paid' }
-            }
-          );
+          await PayoutAllocationService.markPaid(payout);
+
+          await WebhookService.publishPayoutCompleted(payout);
         }
       }
 
@@ -735,9 +816,12 @@ export const bulkProcessPayouts = async (req: Request, res: Response) => {
               failureReason: failure.error
             }
           });
+          await PayoutAllocationService.release(failure.payoutId, failure.error);
         }
       }
 
+      await LedgerService.recordPayouts([...result.successful, ...result.failed.map(failure => failure.payoutId)]);
+
       res.json({
         success: true,
         data: {
@@ -745,7 +829,8 @@ export const bulkProcessPayouts = async (req: Request, res: Response) => {
           successful: result.successful.length,
           failed: result.failed.length,
           successfulIds: result.successful,
-          failures: result.failed
+          failures: result.failed,
+          batchRequiredIds
         }
       });
     } catch (gatewayError) {
@@ -759,6 +844,10 @@ export const bulkProcessPayouts = async (req: Request, res: Response) => {
           }
         }
       );
+      for (const payout of payoutRequests) {
+        await PayoutAllocationService.release(payout._id.toString(), 'Bulk processing service error');
+      }
+      await LedgerService.recordPayouts(payoutRequests.map(payout => payout._id));
 
       console.error('Bulk processing error:', gatewayError);
       res.status(500).json({
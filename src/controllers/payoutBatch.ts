@@ -0,0 +1,249 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { PayoutBatchService } from '../services/payment/payoutBatch';
+import { IPayoutBatch } from '../models/PayoutBatch';
+import { AuditService } from '../services/audit';
+
+// Validation schemas
+const generateBatchSchema = Joi.object({
+  format: Joi.string().valid('nacha', 'sepa').required(),
+  payoutIds: Joi.array().items(Joi.string()).min(1).max(999),
+  effectiveDate: Joi.date().iso().min('now'),
+  exchangeRate: Joi.number().positive()
+});
+
+const listBatchesSchema = Joi.object({
+  status: Joi.string().valid('generated', 'submitted', 'settled', 'rejected', 'cancelled'),
+  format: Joi.string().valid('nacha', 'sepa'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const rejectBatchSchema = Joi.object({
+  reason: Joi.string().trim().max(400).required()
+});
+
+const sendValidationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    }
+  });
+
+const sendBatchError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message === 'Payout batch not found') {
+    return res.status(404).json({
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message
+      }
+    });
+  }
+  if (error.message?.startsWith('Cannot mark')) {
+    return res.status(400).json({
+      error: {
+        code: 'INVALID_STATUS',
+        message: error.message
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+};
+
+const logBatchAction = (req: Request, action: string, batch: IPayoutBatch, details: any = {}) =>
+  AuditService.logAction({
+    adminId: (req as any).user.id,
+    action,
+    resource: 'payout',
+    resourceId: batch._id.toString(),
+    details: {
+      ...details,
+      metadata: {
+        batchNumber: batch.batchNumber,
+        format: batch.format,
+        entryCount: batch.entryCount,
+        totalAmount: batch.totalAmount,
+        ...details.metadata
+      }
+    },
+    ...AuditService.extractRequestMetadata(req)
+  });
+
+// Generate a NACHA or SEPA batch from approved bank transfer payouts (admin only)
+export const generateBatch = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = generateBatchSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    let result;
+    try {
+      result = await PayoutBatchService.generateBatch({ ...value, adminId: (req as any).user.id });
+    } catch (generationError: any) {
+      // Configuration, eligibility and file validation problems are reported to the admin
+      if (!/^(No eligible|An EUR|NACHA batches|SEPA batches|Invalid|Generated NACHA|Payout .* exceeds)/.test(generationError.message)) {
+        throw generationError;
+      }
+      return res.status(400).json({
+        error: {
+          code: 'BATCH_GENERATION_FAILED',
+          message: generationError.message
+        }
+      });
+    }
+
+    await logBatchAction(req, 'payout_batch_generated', result.batch, {
+      metadata: { checksum: result.batch.checksum, skipped: result.skipped.length }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result.batch,
+      skipped: result.skipped
+    });
+  } catch (error) {
+    sendBatchError(res, error, 'Failed to generate payout batch');
+  }
+};
+
+// Get payout batches (admin only)
+export const getBatches = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listBatchesSchema.validate(req.query);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const { batches, total } = await PayoutBatchService.listBatches(value);
+
+    res.json({
+      success: true,
+      data: batches,
+      pagination: {
+        page: value.page,
+        limit: value.limit,
+        total,
+        pages: Math.ceil(total / value.limit)
+      }
+    });
+  } catch (error) {
+    sendBatchError(res, error, 'Failed to fetch payout batches');
+  }
+};
+
+// Get a payout batch (admin only)
+export const getBatch = async (req: Request, res: Response) => {
+  try {
+    const batch = await PayoutBatchService.getBatch(req.params.id);
+
+    res.json({
+      success: true,
+      data: batch
+    });
+  } catch (error) {
+    sendBatchError(res, error, 'Failed to fetch payout batch');
+  }
+};
+
+// Download a batch file for upload to the bank (admin only)
+export const downloadBatch = async (req: Request, res: Response) => {
+  try {
+    const batch = await PayoutBatchService.getBatch(req.params.id);
+    const file = await PayoutBatchService.getBatchFile(req.params.id);
+
+    await logBatchAction(req, 'payout_batch_downloaded', batch);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.setHeader('X-Checksum-SHA256', batch.checksum);
+    res.send(file.content);
+  } catch (error: any) {
+    if (error.message === 'Batch file failed its integrity check') {
+      return res.status(409).json({
+        error: {
+          code: 'CHECKSUM_MISMATCH',
+          message: error.message
+        }
+      });
+    }
+    sendBatchError(res, error, 'Failed to download payout batch');
+  }
+};
+
+// Mark a batch as submitted to the bank (admin only)
+export const submitBatch = async (req: Request, res: Response) => {
+  try {
+    const batch = await PayoutBatchService.submitBatch(req.params.id, (req as any).user.id);
+    await logBatchAction(req, 'payout_batch_submitted', batch);
+
+    res.json({
+      success: true,
+      data: batch
+    });
+  } catch (error) {
+    sendBatchError(res, error, 'Failed to submit payout batch');
+  }
+};
+
+// Mark a batch as settled by the bank (admin only)
+export const settleBatch = async (req: Request, res: Response) => {
+  try {
+    const batch = await PayoutBatchService.settleBatch(req.params.id, (req as any).user.id);
+    await logBatchAction(req, 'payout_batch_settled', batch);
+
+    res.json({
+      success: true,
+      data: batch
+    });
+  } catch (error) {
+    sendBatchError(res, error, 'Failed to settle payout batch');
+  }
+};
+
+// Record a bank rejection of a submitted batch (admin only)
+export const rejectBatch = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = rejectBatchSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const batch = await PayoutBatchService.rejectBatch(req.params.id, (req as any).user.id, value.reason);
+    await logBatchAction(req, 'payout_batch_rejected', batch, { reason: value.reason });
+
+    res.json({
+      success: true,
+      data: batch
+    });
+  } catch (error) {
+    sendBatchError(res, error, 'Failed to reject payout batch');
+  }
+};
+
+// Cancel a batch that has not been submitted (admin only)
+export const cancelBatch = async (req: Request, res: Response) => {
+  try {
+    const batch = await PayoutBatchService.cancelBatch(req.params.id, (req as any).user.id);
+    await logBatchAction(req, 'payout_batch_cancelled', batch);
+
+    res.json({
+      success: true,
+      data: batch
+    });
+  } catch (error) {
+    sendBatchError(res, error, 'Failed to cancel payout batch');
+  }
+};
@@ -0,0 +1,281 @@
+import { Request, Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import Joi from 'joi';
+import { PayoutReconciliationService, ReconciliationSummary } from '../services/payment/reconciliation';
+import { AuditService } from '../services/audit';
+
+// Bank statements are parsed in memory and never stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.csv') {
+      return cb(null, true);
+    }
+    cb(new Error('Bank statements must be CSV files'));
+  }
+});
+
+export const statementUploadMiddleware = upload.single('statement');
+
+// Validation schemas
+const reconcilePayPalSchema = Joi.object({
+  batchIds: Joi.array().items(Joi.string().trim()).min(1).max(50).required()
+});
+
+const reconcileStripeSchema = Joi.object({
+  transferIds: Joi.array().items(Joi.string().trim()).min(1).max(100),
+  balanceTransactions: Joi.array().items(Joi.object({
+    id: Joi.string().required(),
+    type: Joi.string().required(),
+    status: Joi.string().required(),
+    amount: Joi.number().integer().required(),
+    currency: Joi.string().required(),
+    source: Joi.alternatives().try(Joi.string(), Joi.object()).required(),
+    created: Joi.number().integer()
+  }).unknown(true)).min(1).max(1000)
+}).xor('transferIds', 'balanceTransactions');
+
+const discrepancyReportSchema = Joi.object({
+  startDate: Joi.date().iso(),
+  endDate: Joi.date().iso().min(Joi.ref('startDate')),
+  includeResolved: Joi.boolean().default(false)
+});
+
+const resolveDiscrepancySchema = Joi.object({
+  note: Joi.string().trim().max(1000).required()
+});
+
+const sendValidationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    }
+  });
+
+const logReconciliation = (req: Request, source: string, reference: string, summary: ReconciliationSummary) =>
+  AuditService.logAction({
+    adminId: (req as any).user.id,
+    action: 'payout_reconciliation_imported',
+    resource: 'payout',
+    resourceId: reference,
+    details: {
+      metadata: { source, summary: { ...summary, errors: summary.errors.length } }
+    },
+    ...AuditService.extractRequestMetadata(req)
+  });
+
+// Reconcile PayPal payout batches (admin only)
+export const reconcilePayPal = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = reconcilePayPalSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const summary = await PayoutReconciliationService.reconcilePayPalBatches(value.batchIds, (req as any).user.id);
+    await logReconciliation(req, 'paypal', value.batchIds.join(','), summary);
+
+    res.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error reconciling PayPal payouts:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to reconcile PayPal payouts'
+      }
+    });
+  }
+};
+
+// Reconcile Stripe transfers or exported balance transactions (admin only)
+export const reconcileStripe = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = reconcileStripeSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const summary = value.transferIds
+      ? await PayoutReconciliationService.reconcileStripeTransfers(value.transferIds, adminId)
+      : await PayoutReconciliationService.reconcileStripeBalanceTransactions(value.balanceTransactions, adminId);
+    await logReconciliation(
+      req,
+      'stripe',
+      value.transferIds ? value.transferIds.join(',') : 'stripe_balance_transactions',
+      summary
+    );
+
+    res.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error reconciling Stripe payouts:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to reconcile Stripe payouts'
+      }
+    });
+  }
+};
+
+// Import a CSV bank statement to confirm bank transfer payouts (admin only)
+export const importBankStatement = async (req: Request, res: Response) => {
+  try {
+    const file = (req as any).file as Express.Multer.File | undefined;
+    if (!file) {
+      return res.status(400).json({
+        error: {
+          code: 'NO_FILE',
+          message: 'A CSV bank statement must be uploaded as "statement"'
+        }
+      });
+    }
+
+    let summary: ReconciliationSummary;
+    try {
+      summary = await PayoutReconciliationService.reconcileBankStatement(
+        file.buffer.toString('utf8'),
+        file.originalname,
+        (req as any).user.id
+      );
+    } catch (parseError: any) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_STATEMENT',
+          message: parseError.message
+        }
+      });
+    }
+
+    await logReconciliation(req, 'bank_statement', file.originalname, summary);
+
+    res.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error importing bank statement:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to import bank statement'
+      }
+    });
+  }
+};
+
+// Poll gateways for every payout awaiting settlement (admin only)
+export const runReconciliation = async (req: Request, res: Response) => {
+  try {
+    const summary = await PayoutReconciliationService.reconcilePendingPayouts();
+    await logReconciliation(req, 'gateways', 'pending_settlements', summary);
+
+    res.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error running payout reconciliation:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to run payout reconciliation'
+      }
+    });
+  }
+};
+
+// Get settlement discrepancy report (admin only)
+export const getDiscrepancyReport = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = discrepancyReportSchema.validate(req.query);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const report = await PayoutReconciliationService.getDiscrepancyReport(value);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error fetching discrepancy report:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch discrepancy report'
+      }
+    });
+  }
+};
+
+// Mark a settlement discrepancy as resolved (admin only)
+export const resolveDiscrepancy = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = resolveDiscrepancySchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const record = await PayoutReconciliationService.resolveDiscrepancy(req.params.id, adminId, value.note);
+
+    await AuditService.logAction({
+      adminId,
+      action: 'payout_discrepancy_resolved',
+      resource: 'payout',
+      resourceId: record.payoutId || record._id.toString(),
+      details: {
+        reason: value.note,
+        metadata: { settlementRecordId: record._id.toString(), discrepancies: record.discrepancies }
+      },
+      ...AuditService.extractRequestMetadata(req)
+    });
+
+    res.json({
+      success: true,
+      data: record
+    });
+  } catch (error: any) {
+    if (error.message === 'Discrepancy not found') {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message
+        }
+      });
+    }
+    if (error.message === 'Discrepancy already resolved') {
+      return res.status(400).json({
+        error: {
+          code: 'ALREADY_RESOLVED',
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Error resolving discrepancy:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to resolve discrepancy'
+      }
+    });
+  }
+};
@@ -0,0 +1,206 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { PayoutScheduleService } from '../services/payment/payoutSchedule';
+import { AuditService } from '../services/audit';
+
+// Validation schemas
+const payoutScheduleSchema = Joi.object({
+  paymentMethodId: Joi.string().required(),
+  cadence: Joi.string().valid('weekly', 'monthly').required(),
+  dayOfWeek: Joi.number().integer().min(0).max(6).when('cadence', {
+    is: 'weekly',
+    then: Joi.optional(),
+    otherwise: Joi.forbidden()
+  }),
+  dayOfMonth: Joi.number().integer().min(1).max(28).when('cadence', {
+    is: 'monthly',
+    then: Joi.optional(),
+    otherwise: Joi.forbidden()
+  }),
+  threshold: Joi.number().min(0.01).required(),
+  enabled: Joi.boolean()
+});
+
+const listSchedulesSchema = Joi.object({
+  enabled: Joi.boolean(),
+  onHold: Joi.boolean(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const placeHoldSchema = Joi.object({
+  reason: Joi.string().trim().max(500).required(),
+  until: Joi.date().iso().min('now')
+});
+
+const sendValidationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    }
+  });
+
+const sendScheduleError = (res: Response, error: any, fallbackMessage: string) => {
+  if (['Payout schedule not found', 'Payment method not found', 'No payout hold found for this marketer'].includes(error.message)) {
+    return res.status(404).json({
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message
+      }
+    });
+  }
+  if (error.message?.startsWith('Threshold must be')) {
+    return res.status(400).json({
+      error: {
+        code: 'INVALID_THRESHOLD',
+        message: error.message
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+};
+
+// Get the marketer's automatic payout schedule
+export const getSchedule = async (req: Request, res: Response) => {
+  try {
+    const schedule = await PayoutScheduleService.getSchedule((req as any).user.id);
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    sendScheduleError(res, error, 'Failed to fetch payout schedule');
+  }
+};
+
+// Opt into or change automatic payouts
+export const updateSchedule = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = payoutScheduleSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const schedule = await PayoutScheduleService.upsertSchedule((req as any).user.id, value);
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    sendScheduleError(res, error, 'Failed to update payout schedule');
+  }
+};
+
+// Opt out of automatic payouts
+export const disableSchedule = async (req: Request, res: Response) => {
+  try {
+    const schedule = await PayoutScheduleService.disableSchedule((req as any).user.id);
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    sendScheduleError(res, error, 'Failed to disable payout schedule');
+  }
+};
+
+// Admin functions
+
+// Get automatic payout schedules (admin only)
+export const getAllSchedules = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listSchedulesSchema.validate(req.query);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const { schedules, total } = await PayoutScheduleService.listSchedules(value);
+
+    res.json({
+      success: true,
+      data: schedules,
+      pagination: {
+        page: value.page,
+        limit: value.limit,
+        total,
+        pages: Math.ceil(total / value.limit)
+      }
+    });
+  } catch (error) {
+    sendScheduleError(res, error, 'Failed to fetch payout schedules');
+  }
+};
+
+// Pause a marketer's automatic payouts (admin only)
+export const placeHold = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = placeHoldSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const schedule = await PayoutScheduleService.placeHold(req.params.marketerId, adminId, value.reason, value.until);
+
+    await AuditService.logAction({
+      adminId,
+      action: 'payout_hold_placed',
+      resource: 'payout',
+      resourceId: schedule._id.toString(),
+      details: {
+        reason: value.reason,
+        metadata: { marketerId: req.params.marketerId, until: value.until }
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    sendScheduleError(res, error, 'Failed to place payout hold');
+  }
+};
+
+// Resume a marketer's automatic payouts (admin only)
+export const releaseHold = async (req: Request, res: Response) => {
+  try {
+    const schedule = await PayoutScheduleService.releaseHold(req.params.marketerId);
+
+    await AuditService.logAction({
+      adminId: (req as any).user.id,
+      action: 'payout_hold_released',
+      resource: 'payout',
+      resourceId: schedule._id.toString(),
+      details: {
+        metadata: { marketerId: req.params.marketerId }
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    sendScheduleError(res, error, 'Failed to release payout hold');
+  }
+};
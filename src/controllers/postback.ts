@@ -0,0 +1,213 @@
+import { Response } from 'express';
+import Joi from 'joi';
+import { PostbackService } from '../services/postback';
+import { AuditService } from '../services/audit';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// Validation schemas
+const createCredentialSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255).required(),
+  productIds: Joi.array().items(Joi.string()).min(1).required()
+});
+
+const listCredentialsQuerySchema = Joi.object({
+  productId: Joi.string().optional(),
+  status: Joi.string().valid('active', 'revoked').optional()
+});
+
+const listRejectionsQuerySchema = Joi.object({
+  keyId: Joi.string().optional(),
+  reviewed: Joi.boolean().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
+
+const validationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+
+const logCredentialAction = (req: AuthenticatedRequest, action: string, credential: any) =>
+  AuditService.logAction({
+    adminId: req.user!._id,
+    action,
+    resource: 'system',
+    resourceId: credential._id.toString(),
+    details: {
+      metadata: {
+        keyId: credential.keyId,
+        name: credential.name,
+        productIds: credential.productIds
+      }
+    },
+    ...AuditService.extractRequestMetadata(req)
+  });
+
+export class PostbackController {
+  /**
+   * List postback API credentials
+   */
+  static async getCredentials(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = listCredentialsQuerySchema.validate(req.query);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const credentials = await PostbackService.getCredentials(value);
+
+      res.json({
+        success: true,
+        data: { credentials }
+      });
+    } catch (error: any) {
+      logger.error('Get postback credentials error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch postback credentials'
+      });
+    }
+  }
+
+  /**
+   * Issue credentials; the signing secret is only shown in this response
+   */
+  static async createCredential(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = createCredentialSchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const { credential, secret } = await PostbackService.createCredential(value.name, value.productIds, req.user!._id);
+
+      await logCredentialAction(req, 'postback_credential_created', credential);
+
+      res.status(201).json({
+        success: true,
+        message: 'Postback credential created successfully. Store the secret now; it will not be shown again.',
+        data: { credential, secret }
+      });
+    } catch (error: any) {
+      logger.error('Create postback credential error:', error);
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to create postback credential'
+      });
+    }
+  }
+
+  /**
+   * Issue a new signing secret for a credential
+   */
+  static async rotateCredential(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { credential, secret } = await PostbackService.rotateSecret(req.params.credentialId);
+
+      await logCredentialAction(req, 'postback_credential_rotated', credential);
+
+      res.json({
+        success: true,
+        message: 'Postback secret rotated successfully. Store the secret now; it will not be shown again.',
+        data: { credential, secret }
+      });
+    } catch (error: any) {
+      logger.error('Rotate postback credential error:', error);
+      const status = error.message === 'Postback credential not found' ? 404 : 400;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to rotate postback credential'
+      });
+    }
+  }
+
+  /**
+   * Revoke a credential so its postbacks are rejected
+   */
+  static async revokeCredential(req: AuthenticatedRequest, res: Response) {
+    try {
+      const credential = await PostbackService.revokeCredential(req.params.credentialId, req.user!._id);
+
+      await logCredentialAction(req, 'postback_credential_revoked', credential);
+
+      res.json({
+        success: true,
+        message: 'Postback credential revoked successfully',
+        data: { credential }
+      });
+    } catch (error: any) {
+      logger.error('Revoke postback credential error:', error);
+      const status = error.message === 'Postback credential not found' ? 404 : 400;
+      res.status(status).json({
+        success: false,
+        error: error.message || 'Failed to revoke postback credential'
+      });
+    }
+  }
+
+  /**
+   * List rejected postbacks for review
+   */
+  static async getRejectedPostbacks(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = listRejectionsQuerySchema.validate(req.query);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const { page, limit, ...filters } = value;
+      const { rejections, total } = await PostbackService.getRejectedPostbacks(filters, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          rejections,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get rejected postbacks error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch rejected postbacks'
+      });
+    }
+  }
+
+  /**
+   * Mark a rejected postback as reviewed
+   */
+  static async reviewRejectedPostback(req: AuthenticatedRequest, res: Response) {
+    try {
+      const rejection = await PostbackService.markRejectionReviewed(req.params.rejectionId, req.user!._id);
+      if (!rejection) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rejected postback not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { rejection }
+      });
+    } catch (error: any) {
+      logger.error('Review rejected postback error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to review rejected postback'
+      });
+    }
+  }
+}
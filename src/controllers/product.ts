@@ -1,9 +1,18 @@
 import { Request, Response } from 'express';
 import { ProductService, CreateProductData, UpdateProductData, ProductSearchOptions } from '../services/product';
+import { ATTRIBUTION_MODELS } from '../services/tracking/attributionModels';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
 import { logger } from '../utils/logger';
 import Joi from 'joi';
 
 // Validation schemas
+const recurringCommissionSchema = Joi.object({
+  enabled: Joi.boolean().required(),
+  rate: Joi.number().min(0).max(1).when('enabled', { is: true, then: Joi.required() }),
+  durationMonths: Joi.number().integer().min(1).allow(null).optional(),
+  lifetimeCap: Joi.number().min(0).allow(null).optional()
+});
+
 const createProductSchema = Joi.object({
   name: Joi.string().trim().max(255).required().messages({
     'string.max': 'Product name cannot exceed 255 characters',
@@ -17,6 +26,9 @@ const createProductSchema = Joi.object({
     'string.max': 'Category cannot exceed 100 characters',
     'any.required': 'Product category is required'
   }),
+  currency: Joi.string().uppercase().valid(...SUPPORTED_CURRENCIES).optional().messages({
+    'any.only': 'Currency is not supported'
+  }),
   commissionType: Joi.string().valid('percentage', 'flat').required(),
   commissionRate: Joi.number().min(0).max(1).when('commissionType', {
     is: 'percentage',
@@ -44,6 +56,11 @@ const createProductSchema = Joi.object({
     'string.uri': 'Please provide a valid URL',
     'any.required': 'Landing page URL is required'
   }),
+  attributionModel: Joi.string().valid(...ATTRIBUTION_MODELS).optional(),
+  attributionWindowDays: Joi.number().integer().min(1).max(90).optional(),
+  cookieDurationDays: Joi.number().integer().min(1).max(90).optional(),
+  attributionPriority: Joi.array().items(Joi.string().valid('portal', 'cookie', 's2s')).min(1).unique().optional(),
+  recurringCommission: recurringCommissionSchema.optional(),
   tags: Joi.array().items(Joi.string().trim()).max(20).optional().messages({
     'array.max': 'Cannot have more than 20 tags'
   })
@@ -53,12 +70,20 @@ const updateProductSchema = Joi.object({
   name: Joi.string().trim().max(255).optional(),
   description: Joi.string().trim().max(2000).optional(),
   category: Joi.string().trim().max(100).optional(),
+  currency: Joi.string().uppercase().valid(...SUPPORTED_CURRENCIES).optional().messages({
+    'any.only': 'Currency is not supported'
+  }),
   commissionType: Joi.string().valid('percentage', 'flat').optional(),
   commissionRate: Joi.number().min(0).max(1).optional(),
   commissionFlatAmount: Joi.number().min(0).optional(),
   minInitialSpend: Joi.number().min(0).optional(),
   status: Joi.string().valid('active', 'inactive').optional(),
   landingPageUrl: Joi.string().uri().optional(),
+  attributionModel: Joi.string().valid(...ATTRIBUTION_MODELS).optional(),
+  attributionWindowDays: Joi.number().integer().min(1).max(90).optional(),
+  cookieDurationDays: Joi.number().integer().min(1).max(90).optional(),
+  attributionPriority: Joi.array().items(Joi.string().valid('portal', 'cookie', 's2s')).min(1).unique().optional(),
+  recurringCommission: recurringCommissionSchema.optional(),
   tags: Joi.array().items(Joi.string().trim()).max(20).optional()
 });
 
@@ -75,6 +100,7 @@ const querySchema = Joi.object({
   ).optional(),
   search: Joi.string().optional(),
   commissionType: Joi.string().valid('percentage', 'flat').optional(),
+  currency: Joi.string().uppercase().valid(...SUPPORTED_CURRENCIES).optional(),
   minCommissionRate: Joi.number().min(0).max(1).optional(),
   maxCommissionRate: Joi.number().min(0).max(1).optional(),
   minInitialSpend: Joi.number().min(0).optional(),
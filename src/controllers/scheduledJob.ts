@@ -0,0 +1,236 @@
+import { Response } from 'express';
+import Joi from 'joi';
+import { SchedulerService } from '../services/scheduler';
+import { CronSchedule } from '../services/scheduler/cron';
+import { AuditService } from '../services/audit';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// Validation schemas
+const updateScheduleSchema = Joi.object({
+  cronExpression: Joi.string().trim().required().custom((value, helpers) => {
+    if (!CronSchedule.isValid(value)) {
+      return helpers.message({ custom: 'cronExpression must be a valid five-field cron expression' });
+    }
+    return value;
+  })
+});
+
+const listRunsQuerySchema = Joi.object({
+  status: Joi.string().valid('running', 'succeeded', 'failed').optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const validationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))
+  });
+
+const logJobAction = (req: AuthenticatedRequest, action: string, jobName: string, details: any = {}) =>
+  AuditService.logAction({
+    adminId: req.user!._id,
+    action,
+    resource: 'system',
+    resourceId: jobName,
+    details,
+    ...AuditService.extractRequestMetadata(req)
+  });
+
+const jobErrorStatus = (message: string) => {
+  if (message === 'Scheduled job not found') return 404;
+  if (message === 'Job is already running') return 409;
+  return 400;
+};
+
+export class ScheduledJobController {
+  /**
+   * List scheduled jobs with their next and last runs
+   */
+  static async getJobs(req: AuthenticatedRequest, res: Response) {
+    try {
+      const jobs = await SchedulerService.getJobs();
+
+      res.json({
+        success: true,
+        data: {
+          jobs: jobs.map(({ job, registered }) => ({ ...job.toJSON(), registered }))
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get scheduled jobs error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch scheduled jobs'
+      });
+    }
+  }
+
+  /**
+   * Get a scheduled job
+   */
+  static async getJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      const job = await SchedulerService.getJob(req.params.jobName);
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Scheduled job not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { job }
+      });
+    } catch (error: any) {
+      logger.error('Get scheduled job error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch scheduled job'
+      });
+    }
+  }
+
+  /**
+   * Run history for a job
+   */
+  static async getJobRuns(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = listRunsQuerySchema.validate(req.query);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const { page, limit, ...filters } = value;
+      const { runs, total } = await SchedulerService.getJobRuns(req.params.jobName, filters, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          runs,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get job runs error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch job runs'
+      });
+    }
+  }
+
+  /**
+   * Pause a job
+   */
+  static async pauseJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      const job = await SchedulerService.pauseJob(req.params.jobName, req.user!._id);
+
+      await logJobAction(req, 'scheduled_job_paused', job.name);
+
+      res.json({
+        success: true,
+        message: 'Scheduled job paused',
+        data: { job }
+      });
+    } catch (error: any) {
+      logger.error('Pause scheduled job error:', error);
+      res.status(jobErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || 'Failed to pause scheduled job'
+      });
+    }
+  }
+
+  /**
+   * Resume a paused job
+   */
+  static async resumeJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      const job = await SchedulerService.resumeJob(req.params.jobName, req.user!._id);
+
+      await logJobAction(req, 'scheduled_job_resumed', job.name);
+
+      res.json({
+        success: true,
+        message: 'Scheduled job resumed',
+        data: { job }
+      });
+    } catch (error: any) {
+      logger.error('Resume scheduled job error:', error);
+      res.status(jobErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || 'Failed to resume scheduled job'
+      });
+    }
+  }
+
+  /**
+   * Change a job's cron expression
+   */
+  static async updateSchedule(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { error, value } = updateScheduleSchema.validate(req.body);
+      if (error) {
+        return validationError(res, error);
+      }
+
+      const previous = await SchedulerService.getJob(req.params.jobName);
+      const job = await SchedulerService.updateSchedule(req.params.jobName, value.cronExpression, req.user!._id);
+
+      await logJobAction(req, 'scheduled_job_rescheduled', job.name, {
+        oldValue: { cronExpression: previous?.cronExpression },
+        newValue: { cronExpression: job.cronExpression }
+      });
+
+      res.json({
+        success: true,
+        message: 'Job schedule updated',
+        data: { job }
+      });
+    } catch (error: any) {
+      logger.error('Update job schedule error:', error);
+      res.status(jobErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || 'Failed to update job schedule'
+      });
+    }
+  }
+
+  /**
+   * Run a job immediately and return the run record
+   */
+  static async triggerJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      const run = await SchedulerService.triggerJob(req.params.jobName, req.user!._id);
+
+      await logJobAction(req, 'scheduled_job_triggered', req.params.jobName, {
+        metadata: { runId: run._id.toString(), status: run.status }
+      });
+
+      res.json({
+        success: true,
+        message: `Job ${run.status}`,
+        data: { run }
+      });
+    } catch (error: any) {
+      logger.error('Trigger scheduled job error:', error);
+      res.status(jobErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || 'Failed to trigger scheduled job'
+      });
+    }
+  }
+}
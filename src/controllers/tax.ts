@@ -0,0 +1,455 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import {
+  TaxService,
+  TAX_REPORTING_THRESHOLD,
+  TAX_PROFILE_NOT_FOUND,
+  WITHHOLDING_RULE_NOT_FOUND,
+  TAX_SUMMARY_NOT_FOUND,
+  TAX_PROFILE_ERRORS
+} from '../services/tax';
+import { DOMESTIC_TAX_CLASSIFICATIONS, FOREIGN_TAX_CLASSIFICATIONS } from '../models/TaxProfile';
+import { AuditService } from '../services/audit';
+
+// Validation schemas
+const countryCode = Joi.string().uppercase().pattern(/^[A-Z]{2}$/);
+
+const taxProfileSchema = Joi.object({
+  formType: Joi.string().valid('W-9', 'W-8BEN', 'W-8BEN-E').required(),
+  legalName: Joi.string().trim().max(200).required(),
+  businessName: Joi.string().trim().max(200),
+  taxClassification: Joi.string().valid(...DOMESTIC_TAX_CLASSIFICATIONS, ...FOREIGN_TAX_CLASSIFICATIONS).required(),
+  country: countryCode.required(),
+  address: Joi.object({
+    line1: Joi.string().trim().max(200).required(),
+    line2: Joi.string().trim().max(200),
+    city: Joi.string().trim().max(100).required(),
+    state: Joi.string().trim().max(100),
+    postalCode: Joi.string().trim().max(20).required(),
+    country: countryCode.required()
+  }).required(),
+  taxId: Joi.string().trim().min(4).max(30).required(),
+  treatyCountry: countryCode,
+  treatyRate: Joi.number().min(0).max(1),
+  certifiedName: Joi.string().trim().max(200).required()
+});
+
+const reviewTaxProfileSchema = Joi.object({
+  status: Joi.string().valid('verified', 'rejected'),
+  rejectionReason: Joi.string().trim().max(500).when('status', {
+    is: 'rejected',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  backupWithholding: Joi.boolean()
+}).or('status', 'backupWithholding');
+
+const listTaxProfilesSchema = Joi.object({
+  status: Joi.string().valid('submitted', 'verified', 'rejected'),
+  formType: Joi.string().valid('W-9', 'W-8BEN', 'W-8BEN-E'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const withholdingRuleFields = {
+  name: Joi.string().trim().max(100),
+  description: Joi.string().trim().max(500).allow(''),
+  rate: Joi.number().min(0).max(1),
+  priority: Joi.number().integer(),
+  enabled: Joi.boolean(),
+  formTypes: Joi.array().items(Joi.string().valid('W-9', 'W-8BEN', 'W-8BEN-E', 'none')).unique(),
+  countries: Joi.array().items(countryCode).unique(),
+  taxClassifications: Joi.array().items(Joi.string().valid(...DOMESTIC_TAX_CLASSIFICATIONS, ...FOREIGN_TAX_CLASSIFICATIONS)).unique(),
+  backupWithholdingOnly: Joi.boolean(),
+  applyTreatyRate: Joi.boolean()
+};
+
+const createWithholdingRuleSchema = Joi.object({
+  ...withholdingRuleFields,
+  name: withholdingRuleFields.name.required(),
+  rate: withholdingRuleFields.rate.required()
+});
+
+const updateWithholdingRuleSchema = Joi.object(withholdingRuleFields).min(1);
+
+const taxYearSchema = Joi.number().integer().min(2000).max(new Date().getUTCFullYear());
+
+const generateSummariesSchema = Joi.object({
+  taxYear: taxYearSchema.required(),
+  threshold: Joi.number().min(0).default(TAX_REPORTING_THRESHOLD)
+});
+
+const reportableExportSchema = Joi.object({
+  taxYear: taxYearSchema.required(),
+  threshold: Joi.number().min(0).default(TAX_REPORTING_THRESHOLD),
+  format: Joi.string().valid('csv', 'json').default('csv')
+});
+
+const sendValidationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    }
+  });
+
+const sendTaxError = (res: Response, error: any, fallbackMessage: string) => {
+  if ([TAX_PROFILE_NOT_FOUND, WITHHOLDING_RULE_NOT_FOUND, TAX_SUMMARY_NOT_FOUND].includes(error.message)) {
+    return res.status(404).json({
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message
+      }
+    });
+  }
+  if (Object.values(TAX_PROFILE_ERRORS).includes(error.message)) {
+    return res.status(400).json({
+      error: {
+        code: 'INVALID_TAX_PROFILE',
+        message: error.message
+      }
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage
+    }
+  });
+};
+
+const csvField = (value: string | number | boolean) => `"${String(value).replace(/"/g, '""')}"`;
+
+// Get the marketer's tax profile
+export const getTaxProfile = async (req: Request, res: Response) => {
+  try {
+    const profile = await TaxService.getTaxProfile((req as any).user.id);
+
+    res.json({
+      success: true,
+      data: profile
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to fetch tax profile');
+  }
+};
+
+// Submit or replace the marketer's W-9/W-8 details
+export const submitTaxProfile = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = taxProfileSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const profile = await TaxService.submitTaxProfile((req as any).user.id, value);
+
+    res.json({
+      success: true,
+      data: profile
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to submit tax profile');
+  }
+};
+
+// Get the marketer's year-end earnings summaries
+export const getTaxSummaries = async (req: Request, res: Response) => {
+  try {
+    const summaries = await TaxService.getSummaries((req as any).user.id);
+
+    res.json({
+      success: true,
+      data: summaries
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to fetch tax summaries');
+  }
+};
+
+// Get the marketer's earnings summary for one tax year
+export const getTaxSummary = async (req: Request, res: Response) => {
+  try {
+    const { error, value: taxYear } = taxYearSchema.required().validate(req.params.taxYear);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const summary = await TaxService.getSummary((req as any).user.id, taxYear);
+
+    res.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to fetch tax summary');
+  }
+};
+
+// Admin functions
+
+// Get submitted tax profiles (admin only)
+export const getAllTaxProfiles = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listTaxProfilesSchema.validate(req.query);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const { profiles, total } = await TaxService.listTaxProfiles(value);
+
+    res.json({
+      success: true,
+      data: profiles,
+      pagination: {
+        page: value.page,
+        limit: value.limit,
+        total,
+        pages: Math.ceil(total / value.limit)
+      }
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to fetch tax profiles');
+  }
+};
+
+// Verify or reject a tax profile, or flag it for backup withholding (admin only)
+export const reviewTaxProfile = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = reviewTaxProfileSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const profile = await TaxService.reviewTaxProfile(req.params.userId, value, adminId);
+
+    await AuditService.logAction({
+      adminId,
+      action: 'tax_profile_reviewed',
+      resource: 'user',
+      resourceId: req.params.userId,
+      details: {
+        newValue: value,
+        reason: value.rejectionReason
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      data: profile
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to review tax profile');
+  }
+};
+
+// Get withholding rules (admin only)
+export const getWithholdingRules = async (req: Request, res: Response) => {
+  try {
+    const rules = await TaxService.listWithholdingRules();
+
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to fetch withholding rules');
+  }
+};
+
+// Create a withholding rule (admin only)
+export const createWithholdingRule = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createWithholdingRuleSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const rule = await TaxService.createWithholdingRule(value, adminId);
+
+    await AuditService.logAction({
+      adminId,
+      action: 'withholding_rule_created',
+      resource: 'system',
+      resourceId: rule._id.toString(),
+      details: { newValue: value },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(201).json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to create withholding rule');
+  }
+};
+
+// Update a withholding rule (admin only)
+export const updateWithholdingRule = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = updateWithholdingRuleSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const rule = await TaxService.updateWithholdingRule(req.params.id, value, adminId);
+
+    await AuditService.logAction({
+      adminId,
+      action: 'withholding_rule_updated',
+      resource: 'system',
+      resourceId: rule._id.toString(),
+      details: { newValue: value },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to update withholding rule');
+  }
+};
+
+// Delete a withholding rule (admin only)
+export const deleteWithholdingRule = async (req: Request, res: Response) => {
+  try {
+    const adminId = (req as any).user.id;
+    const rule = await TaxService.deleteWithholdingRule(req.params.id);
+
+    await AuditService.logAction({
+      adminId,
+      action: 'withholding_rule_deleted',
+      resource: 'system',
+      resourceId: rule._id.toString(),
+      details: { oldValue: rule.toJSON() },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      message: 'Withholding rule deleted'
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to delete withholding rule');
+  }
+};
+
+// Generate year-end earnings summaries for every marketer paid in a tax year (admin only)
+export const generateTaxSummaries = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = generateSummariesSchema.validate(req.body);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const result = await TaxService.generateYearEndSummaries(value.taxYear, value.threshold);
+
+    await AuditService.logAction({
+      adminId,
+      action: 'tax_summaries_generated',
+      resource: 'report',
+      details: { metadata: { ...result, threshold: value.threshold } },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to generate tax summaries');
+  }
+};
+
+// Export marketers paid at least the reporting threshold in a tax year (admin only)
+export const exportReportableMarketers = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = reportableExportSchema.validate(req.query);
+    if (error) {
+      return sendValidationError(res, error);
+    }
+
+    const adminId = (req as any).user.id;
+    const marketers = await TaxService.getReportableMarketers(value.taxYear, value.threshold);
+
+    // The export contains full taxpayer IDs
+    await AuditService.logAction({
+      adminId,
+      action: 'tax_report_exported',
+      resource: 'report',
+      details: {
+        metadata: { taxYear: value.taxYear, threshold: value.threshold, format: value.format, count: marketers.length }
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    if (value.format === 'json') {
+      return res.json({
+        success: true,
+        data: marketers
+      });
+    }
+
+    const csvHeaders = [
+      'Marketer ID',
+      'Email',
+      'Form',
+      'Legal Name',
+      'Business Name',
+      'Tax Classification',
+      'Tax ID',
+      'Country',
+      'Address',
+      'Gross Paid',
+      'Tax Withheld',
+      'Payouts',
+      'Tax Profile On File'
+    ];
+    const csvRows = marketers.map(marketer => [
+      marketer.marketerId,
+      marketer.email,
+      marketer.formType,
+      marketer.legalName,
+      marketer.businessName,
+      marketer.taxClassification,
+      marketer.taxId,
+      marketer.country,
+      marketer.address,
+      marketer.grossPaid.toFixed(2),
+      marketer.taxWithheld.toFixed(2),
+      marketer.payoutCount,
+      marketer.hasTaxProfile ? 'yes' : 'no'
+    ]);
+
+    const csvContent = [
+      csvHeaders.join(','),
+      ...csvRows.map(row => row.map(csvField).join(','))
+    ].join('\n');
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="reportable-marketers-${value.taxYear}.csv"`);
+    res.send(csvContent);
+  } catch (error) {
+    sendTaxError(res, error, 'Failed to export reportable marketers');
+  }
+};
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { TrackingService } from '../services/tracking';
 import { ReferralLink } from '../models/ReferralLink';
+import { ConversionEvent } from '../models/ConversionEvent';
+import { PostbackService } from '../services/postback';
+import { PostbackRequest } from '../middleware/postbackAuth';
 import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -111,9 +114,13 @@ export const trackClick = async (req: Request, res: Response): Promise<void> =>
 
     const clickEvent = await TrackingService.trackClick(clickData);
 
+    // Cookie lifetime is configured per product
+    const referralLink = await TrackingService.getReferralLinkByTrackingCode(trackingCode);
+    const cookieMaxAge = TrackingService.getTrackingCookieMaxAge((referralLink?.productId as any)?.cookieDurationDays);
+
     // Set tracking cookie for attribution
     res.cookie('affiliate_tracking', trackingCode, {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxAge: cookieMaxAge,
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax'
@@ -121,7 +128,7 @@ export const trackClick = async (req: Request, res: Response): Promise<void> =>
 
     // Set session cookie
     res.cookie('affiliate_session', sessionId, {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxAge: cookieMaxAge,
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax'
@@ -153,7 +160,7 @@ export const trackClick = async (req: Request, res: Response): Promise<void> =>
  */
 export const recordConversion = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { customerId, productId, initialSpendAmount, trackingCode, attributionMethod } = req.body;
+    const { customerId, productId, initialSpendAmount, currency, trackingCode, attributionMethod } = req.body;
 
     if (!customerId || !productId || !initialSpendAmount) {
       res.status(400).json({
@@ -165,6 +172,24 @@ export const recordConversion = async (req: Request, res: Response): Promise<voi
       return;
     }
 
+    // Server-to-server conversions must arrive as signed postbacks
+    if (attributionMethod === 's2s') {
+      await PostbackService.logRejection({
+        reason: 'Unsigned server-to-server conversion',
+        endpoint: req.originalUrl,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        payload: req.body
+      });
+      res.status(401).json({
+        error: {
+          code: 'SIGNED_POSTBACK_REQUIRED',
+          message: 'Server-to-server conversions must be sent to the signed postback endpoint'
+        }
+      });
+      return;
+    }
+
     // Extract request information for attribution
     const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
     const userAgent = req.get('User-Agent') || 'unknown';
@@ -180,6 +205,7 @@ export const recordConversion = async (req: Request, res: Response): Promise<voi
       customerId,
       productId,
       initialSpendAmount: parseFloat(initialSpendAmount),
+      currency,
       sessionId,
       ipAddress,
       userAgent,
@@ -194,6 +220,8 @@ export const recordConversion = async (req: Request, res: Response): Promise<voi
         conversionId: conversionEvent._id,
         trackingCode: conversionEvent.trackingCode,
         attributionMethod: conversionEvent.attributionMethod,
+        attributionModel: conversionEvent.attributionModel,
+        attributionCredits: conversionEvent.attributionCredits,
         commissionEligible: conversionEvent.commissionEligible,
         timestamp: conversionEvent.conversionTimestamp
       }
@@ -215,7 +243,7 @@ export const recordConversion = async (req: Request, res: Response): Promise<voi
  */
 export const recordConversionWithDeduplication = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { customerId, productId, initialSpendAmount, trackingCode, attributionMethod } = req.body;
+    const { customerId, productId, initialSpendAmount, currency, trackingCode, attributionMethod } = req.body;
 
     if (!customerId || !productId || !initialSpendAmount) {
       res.status(400).json({
@@ -227,6 +255,24 @@ export const recordConversionWithDeduplication = async (req: Request, res: Respo
       return;
     }
 
+    // Server-to-server conversions must arrive as signed postbacks
+    if (attributionMethod === 's2s') {
+      await PostbackService.logRejection({
+        reason: 'Unsigned server-to-server conversion',
+        endpoint: req.originalUrl,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        payload: req.body
+      });
+      res.status(401).json({
+        error: {
+          code: 'SIGNED_POSTBACK_REQUIRED',
+          message: 'Server-to-server conversions must be sent to the signed postback endpoint'
+        }
+      });
+      return;
+    }
+
     // Extract request information for attribution
     const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
     const userAgent = req.get('User-Agent') || 'unknown';
@@ -242,6 +288,7 @@ export const recordConversionWithDeduplication = async (req: Request, res: Respo
       customerId,
       productId,
       initialSpendAmount: parseFloat(initialSpendAmount),
+      currency,
       sessionId,
       ipAddress,
       userAgent,
@@ -256,6 +303,8 @@ export const recordConversionWithDeduplication = async (req: Request, res: Respo
         conversionId: result.conversionEvent._id,
         trackingCode: result.conversionEvent.trackingCode,
         attributionMethod: result.conversionEvent.attributionMethod,
+        attributionModel: result.conversionEvent.attributionModel,
+        attributionCredits: result.conversionEvent.attributionCredits,
         commissionEligible: result.conversionEvent.commissionEligible,
         timestamp: result.conversionEvent.conversionTimestamp,
         deduplication: {
@@ -277,6 +326,85 @@ export const recordConversionWithDeduplication = async (req: Request, res: Respo
   }
 };
 
+/**
+ * Record a conversion from a signed server-to-server postback
+ */
+export const recordPostback = async (req: PostbackRequest, res: Response): Promise<void> => {
+  try {
+    const credential = req.postbackCredential!;
+    const { customerId, productId, initialSpendAmount, currency, trackingCode } = req.body;
+    const idempotencyKey = req.idempotencyKey;
+
+    if (!customerId || !productId || !initialSpendAmount || !trackingCode || !idempotencyKey) {
+      res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Customer ID, Product ID, Initial Spend Amount, Tracking Code and Idempotency Key are required'
+        }
+      });
+      return;
+    }
+
+    if (!credential.productIds.map(id => id.toString()).includes(productId.toString())) {
+      await PostbackService.logRejection({
+        keyId: credential.keyId,
+        reason: `Credential is not authorized for product ${productId}`,
+        endpoint: req.originalUrl,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        idempotencyKey,
+        payload: req.body
+      });
+      res.status(403).json({
+        error: {
+          code: 'PRODUCT_NOT_AUTHORIZED',
+          message: 'Credential is not authorized to report conversions for this product'
+        }
+      });
+      return;
+    }
+
+    // Retried postbacks return the conversion recorded the first time
+    const deduplicationKey = PostbackService.getDeduplicationKey(credential.keyId, idempotencyKey);
+    const existingConversion = await ConversionEvent.findOne({ deduplicationKey });
+
+    const conversionEvent = existingConversion || await TrackingService.recordConversion({
+      trackingCode,
+      customerId,
+      productId,
+      initialSpendAmount: parseFloat(initialSpendAmount),
+      currency,
+      ipAddress: req.ip || 'unknown',
+      userAgent: req.get('User-Agent') || 'unknown',
+      attributionMethod: 's2s',
+      deduplicationKey
+    });
+
+    res.status(existingConversion ? 200 : 201).json({
+      success: true,
+      data: {
+        conversionId: conversionEvent._id,
+        trackingCode: conversionEvent.trackingCode,
+        attributionMethod: conversionEvent.attributionMethod,
+        attributionModel: conversionEvent.attributionModel,
+        attributionCredits: conversionEvent.attributionCredits,
+        commissionEligible: conversionEvent.commissionEligible,
+        timestamp: conversionEvent.conversionTimestamp,
+        isDuplicate: !!existingConversion
+      }
+    });
+
+  } catch (error: any) {
+    logger.error('Error recording postback:', error);
+    res.status(400).json({
+      error: {
+        code: 'RECORD_POSTBACK_ERROR',
+        message: error.message || 'Failed to record postback'
+      }
+    });
+  }
+};
+
 /**
  * Get conversion analytics using MongoDB aggregation
  */
@@ -683,16 +811,18 @@ export const handleReferralRedirect = async (req: Request, res: Response): Promi
 
     await TrackingService.trackClick(clickData);
 
-    // Set tracking cookies
+    // Set tracking cookies for the product's configured cookie lifetime
+    const cookieMaxAge = TrackingService.getTrackingCookieMaxAge((referralLink.productId as any).cookieDurationDays);
+
     res.cookie('affiliate_tracking', trackingCode, {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxAge: cookieMaxAge,
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax'
     });
 
     res.cookie('affiliate_session', sessionId, {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxAge: cookieMaxAge,
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax'
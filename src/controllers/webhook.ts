@@ -0,0 +1,276 @@
+import { Response } from 'express';
+import Joi from 'joi';
+import { WebhookService, WebhookOwner } from '../services/webhook';
+import { WEBHOOK_DESTINATION_ERRORS } from '../services/webhook/destination';
+import { WEBHOOK_EVENTS } from '../models/WebhookEndpoint';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { RBACService } from '../services/rbac';
+import { logger } from '../utils/logger';
+
+// Validation schemas
+const urlSchema = Joi.string().uri({ scheme: ['https'] }).max(2048);
+const eventsSchema = Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1);
+
+const createEndpointSchema = Joi.object({
+  url: urlSchema.required(),
+  description: Joi.string().trim().max(500).optional(),
+  events: eventsSchema.required()
+});
+
+const updateEndpointSchema = Joi.object({
+  url: urlSchema,
+  description: Joi.string().trim().max(500).allow(''),
+  events: eventsSchema,
+  status: Joi.string().valid('active', 'disabled')
+}).min(1);
+
+const listDeliveriesQuerySchema = Joi.object({
+  endpointId: Joi.string().optional(),
+  event: Joi.string().valid(...WEBHOOK_EVENTS).optional(),
+  status: Joi.string().valid('pending', 'succeeded', 'failed').optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
+
+const isDestinationError = (error: any) =>
+  Object.values(WEBHOOK_DESTINATION_ERRORS).includes(error?.message);
+
+const destinationError = (res: Response, error: Error) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: error.message
+    }
+  });
+
+const validationError = (res: Response, error: Joi.ValidationError) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    }
+  });
+
+const getOwner = (req: AuthenticatedRequest): WebhookOwner => ({
+  id: req.user!._id.toString(),
+  role: req.user!.role,
+  permissions: RBACService.getPermissions(req.user!)
+});
+
+// List subscribable events
+export const getWebhookEvents = async (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: WEBHOOK_EVENTS
+  });
+};
+
+// List webhook endpoints
+export const getWebhookEndpoints = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const endpoints = await WebhookService.getEndpoints(getOwner(req));
+
+    res.json({
+      success: true,
+      data: endpoints
+    });
+  } catch (error) {
+    logger.error('Error fetching webhook endpoints:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch webhook endpoints'
+      }
+    });
+  }
+};
+
+// Get a webhook endpoint
+export const getWebhookEndpoint = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const endpoint = await WebhookService.getEndpoint(req.params.id, getOwner(req));
+    if (!endpoint) {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Webhook endpoint not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: endpoint
+    });
+  } catch (error) {
+    logger.error('Error fetching webhook endpoint:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch webhook endpoint'
+      }
+    });
+  }
+};
+
+// Register a webhook endpoint; the signing secret is only returned here
+export const createWebhookEndpoint = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { error, value } = createEndpointSchema.validate(req.body);
+    if (error) {
+      return validationError(res, error);
+    }
+
+    const { endpoint, secret } = await WebhookService.createEndpoint(getOwner(req), value);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        endpoint,
+        secret
+      }
+    });
+  } catch (error: any) {
+    if (isDestinationError(error)) {
+      return destinationError(res, error);
+    }
+    logger.error('Error creating webhook endpoint:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to create webhook endpoint'
+      }
+    });
+  }
+};
+
+// Update a webhook endpoint
+export const updateWebhookEndpoint = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { error, value } = updateEndpointSchema.validate(req.body);
+    if (error) {
+      return validationError(res, error);
+    }
+
+    const endpoint = await WebhookService.updateEndpoint(req.params.id, getOwner(req), value);
+
+    res.json({
+      success: true,
+      data: endpoint
+    });
+  } catch (error: any) {
+    if (isDestinationError(error)) {
+      return destinationError(res, error);
+    }
+    logger.error('Error updating webhook endpoint:', error);
+    const notFound = error.message === 'Webhook endpoint not found';
+    res.status(notFound ? 404 : 500).json({
+      error: {
+        code: notFound ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+        message: notFound ? error.message : 'Failed to update webhook endpoint'
+      }
+    });
+  }
+};
+
+// Rotate a webhook endpoint's signing secret
+export const rotateWebhookSecret = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { endpoint, secret } = await WebhookService.rotateSecret(req.params.id, getOwner(req));
+
+    res.json({
+      success: true,
+      data: {
+        endpoint,
+        secret
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error rotating webhook secret:', error);
+    const notFound = error.message === 'Webhook endpoint not found';
+    res.status(notFound ? 404 : 500).json({
+      error: {
+        code: notFound ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+        message: notFound ? error.message : 'Failed to rotate webhook secret'
+      }
+    });
+  }
+};
+
+// Delete a webhook endpoint
+export const deleteWebhookEndpoint = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await WebhookService.deleteEndpoint(req.params.id, getOwner(req));
+
+    res.json({
+      success: true,
+      message: 'Webhook endpoint deleted successfully'
+    });
+  } catch (error: any) {
+    logger.error('Error deleting webhook endpoint:', error);
+    const notFound = error.message === 'Webhook endpoint not found';
+    res.status(notFound ? 404 : 500).json({
+      error: {
+        code: notFound ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+        message: notFound ? error.message : 'Failed to delete webhook endpoint'
+      }
+    });
+  }
+};
+
+// Webhook delivery log
+export const getWebhookDeliveries = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { error, value } = listDeliveriesQuerySchema.validate(req.query);
+    if (error) {
+      return validationError(res, error);
+    }
+
+    const { page, limit, ...filters } = value;
+    const { deliveries, total } = await WebhookService.getDeliveries(getOwner(req), filters, page, limit);
+
+    res.json({
+      success: true,
+      data: deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch webhook deliveries'
+      }
+    });
+  }
+};
+
+// Manually redeliver a webhook event
+export const redeliverWebhook = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const delivery = await WebhookService.redeliver(req.params.deliveryId, getOwner(req));
+
+    res.json({
+      success: true,
+      data: delivery
+    });
+  } catch (error: any) {
+    logger.error('Error redelivering webhook:', error);
+    const notFound = error.message === 'Webhook delivery not found';
+    res.status(notFound ? 404 : 500).json({
+      error: {
+        code: notFound ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+        message: notFound ? error.message : 'Failed to redeliver webhook'
+      }
+    });
+  }
+};
@@ -19,7 +19,12 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3002',
   credentials: true
 }));
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so signed postbacks can be verified byte-for-byte
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf.toString('utf8');
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
 app.use(session({
@@ -47,6 +52,9 @@ app.use('/api/v1', apiRoutes);
 // Initialize tracking services
 import { TrackingService } from './services/tracking';
 import { NotificationService } from './services/notification';
+import { WebhookService } from './services/webhook';
+import { SchedulerService } from './services/scheduler';
+import { registerScheduledJobs } from './jobs';
 
 // Start server
 const startServer = async () => {
@@ -58,6 +66,17 @@ const startServer = async () => {
     
     // Initialize notification service
     NotificationService.initialize();
+
+    // Initialize outbound webhooks
+    await WebhookService.initialize();
+
+    // Register scheduled jobs so admins can trigger them from any instance
+    registerScheduledJobs();
+
+    // Start the job scheduler; every instance polls, locks ensure each run happens once
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      await SchedulerService.start();
+    }
     
     app.listen(PORT, () => {
       logger.info(`Backend server running on port ${PORT}`);
@@ -72,12 +91,14 @@ const startServer = async () => {
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
   await TrackingService.closeConversionChangeStream();
+  SchedulerService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
   await TrackingService.closeConversionChangeStream();
+  SchedulerService.stop();
   process.exit(0);
 });
 
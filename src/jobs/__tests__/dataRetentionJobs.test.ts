@@ -1019,6 +1019,9 @@ describe('DataRetentionJobs', () => {
         dataGrowthMetrics: {
           clickEvents: {
             totalRecords: 1000,
+            recordsOlderThan30Days: 950,
+            recordsOlderThan90Days: 900,
+            recordsOlderThan365Days: 850,
             anonymizedRecords: 900 // High efficiency
           }
         },
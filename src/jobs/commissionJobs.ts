@@ -10,7 +10,7 @@ export class CommissionJobs {
    * This job should be run periodically (e.g., daily) to check for commissions
    * that have passed their clearance period and automatically approve them
    */
-  static async processEligibleCommissions(): Promise<void> {
+  static async processEligibleCommissions(): Promise<{ approved: number; errors: string[] }> {
     try {
       logger.info('Starting commission approval job');
       
@@ -27,6 +27,8 @@ export class CommissionJobs {
           errors: result.errors
         });
       }
+
+      return result;
     } catch (error) {
       logger.error('Commission approval job failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -40,7 +42,7 @@ export class CommissionJobs {
    * Run comprehensive automated commission processing
    * This is the main job that should be scheduled to run daily
    */
-  static async runAutomatedProcessing(): Promise<void> {
+  static async runAutomatedProcessing(): Promise<{ autoApproved: number; errors: string[]; summary: string }> {
     try {
       logger.info('Starting automated commission processing job');
       
@@ -57,6 +59,8 @@ export class CommissionJobs {
           errors: result.errors
         });
       }
+
+      return result;
     } catch (error) {
       logger.error('Automated commission processing job failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -1,4 +1,4 @@
-// import { DataRetentionService } from '../services/dataRetention';
+import { DataRetentionService, DataAnonymizationResult } from '../services/dataRetention';
 import { logger } from '../utils/logger';
 
 /**
@@ -11,7 +11,14 @@ export class DataRetentionJobs {
    * Execute all active data retention policies
    * This job should be scheduled to run daily
    */
-  static async executeRetentionPolicies(): Promise<void> {
+  static async executeRetentionPolicies(): Promise<{
+    totalPolicies: number;
+    totalRecordsProcessed: number;
+    totalRecordsAnonymized: number;
+    totalRecordsDeleted: number;
+    totalErrors: number;
+    totalDuration: number;
+  }> {
     try {
       logger.info('Starting scheduled data retention policy execution');
       
@@ -47,7 +54,8 @@ export class DataRetentionJobs {
           errors: allErrors
         });
       }
-      
+
+      return summary;
     } catch (error) {
       logger.error('Data retention policy execution failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -103,7 +111,7 @@ export class DataRetentionJobs {
     dataType: string,
     olderThanDays: number,
     dryRun: boolean = true
-  ): Promise<void> {
+  ): Promise<DataAnonymizationResult> {
     try {
       logger.info(`Starting emergency cleanup for ${dataType}`, {
         dataType,
@@ -130,7 +138,8 @@ export class DataRetentionJobs {
         });
         throw new Error(`Emergency cleanup failed: ${result.errors.join(', ')}`);
       }
-      
+
+      return result;
     } catch (error) {
       logger.error('Emergency cleanup job failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -540,12 +549,7 @@ export class DataRetentionJobs {
         recordsRequiringAttention: number;
       };
     };
-    overallCompliance: {
-      compliant: boolean;
-      totalIssues: number;
-      highSeverityIssues: number;
-      recordsRequiringAttention: number;
-    };
+    overallCompliance: Awaited<ReturnType<typeof DataRetentionService.performComplianceCheck>>;
     recommendations: string[];
   }> {
     try {
@@ -0,0 +1,119 @@
+import { SchedulerService } from '../services/scheduler';
+import { TrackingService } from '../services/tracking';
+import { WebhookService } from '../services/webhook';
+import { ScheduledReportService } from '../services/analytics/scheduledReports';
+import { PayoutReconciliationService } from '../services/payment/reconciliation';
+import { CryptoPayoutService } from '../services/payment/cryptoPayout';
+import { PayoutScheduleService } from '../services/payment/payoutSchedule';
+import { LedgerService } from '../services/ledger';
+import { TaxService } from '../services/tax';
+import { CommissionJobs } from './commissionJobs';
+import { DataRetentionJobs } from './dataRetentionJobs';
+
+/**
+ * Register every recurring job with the scheduler.
+ * Cron expressions below are defaults for new installs; admins can change them at runtime.
+ */
+export const registerScheduledJobs = (): void => {
+  SchedulerService.registerJob({
+    name: 'commission.automated_processing',
+    description: 'Approve commissions past their clearance period and report lifecycle status',
+    cronExpression: '0 2 * * *',
+    handler: () => CommissionJobs.runAutomatedProcessing()
+  });
+
+  SchedulerService.registerJob({
+    name: 'commission.approve_eligible',
+    description: 'Approve commissions that have cleared during the day',
+    cronExpression: '0 * * * *',
+    handler: () => CommissionJobs.processEligibleCommissions()
+  });
+
+  SchedulerService.registerJob({
+    name: 'commission.approaching_clearance',
+    description: 'Count pending commissions clearing within the next three days',
+    cronExpression: '0 8 * * *',
+    handler: async () => {
+      const commissions = await CommissionJobs.checkApproachingClearance(3);
+      return { approaching: commissions.length };
+    }
+  });
+
+  SchedulerService.registerJob({
+    name: 'tracking.cleanup_expired_links',
+    description: 'Deactivate referral links past their expiry date',
+    cronExpression: '15 * * * *',
+    handler: async () => ({ deactivated: await TrackingService.cleanupExpiredLinks() })
+  });
+
+  SchedulerService.registerJob({
+    name: 'webhooks.retry_deliveries',
+    description: 'Retry webhook deliveries whose backoff has elapsed',
+    cronExpression: '* * * * *',
+    lockTimeoutSeconds: 10 * 60,
+    handler: () => WebhookService.processDueDeliveries()
+  });
+
+  SchedulerService.registerJob({
+    name: 'retention.execute_policies',
+    description: 'Anonymize and delete personal data according to the retention policies',
+    cronExpression: '0 3 * * *',
+    lockTimeoutSeconds: 2 * 60 * 60,
+    handler: () => DataRetentionJobs.executeRetentionPolicies()
+  });
+
+  SchedulerService.registerJob({
+    name: 'retention.compliance_check',
+    description: 'Report personal data held past its retention period',
+    cronExpression: '0 6 * * 1',
+    handler: () => DataRetentionJobs.runComplianceCheck()
+  });
+
+  SchedulerService.registerJob({
+    name: 'reports.deliver_scheduled',
+    description: 'Generate scheduled admin reports that are due and email them to recipients',
+    cronExpression: '*/5 * * * *',
+    lockTimeoutSeconds: 30 * 60,
+    handler: () => ScheduledReportService.processDueReports()
+  });
+
+  SchedulerService.registerJob({
+    name: 'payouts.reconcile_settlements',
+    description: 'Confirm settlement of PayPal and Stripe payouts and flag discrepancies',
+    cronExpression: '30 * * * *',
+    lockTimeoutSeconds: 30 * 60,
+    handler: () => PayoutReconciliationService.reconcilePendingPayouts()
+  });
+
+  SchedulerService.registerJob({
+    name: 'payouts.track_crypto_confirmations',
+    description: 'Settle crypto payouts that have reached their required on-chain confirmations',
+    cronExpression: '*/5 * * * *',
+    lockTimeoutSeconds: 15 * 60,
+    handler: () => CryptoPayoutService.trackConfirmations()
+  });
+
+  SchedulerService.registerJob({
+    name: 'payouts.automatic_requests',
+    description: 'Create payout requests for marketers whose automatic payout schedule is due',
+    cronExpression: '0 * * * *',
+    lockTimeoutSeconds: 30 * 60,
+    handler: () => PayoutScheduleService.processDueSchedules()
+  });
+
+  SchedulerService.registerJob({
+    name: 'ledger.sync_all',
+    description: 'Post any ledger transactions that event-time posting missed, for every marketer',
+    cronExpression: '45 4 * * *',
+    lockTimeoutSeconds: 2 * 60 * 60,
+    handler: () => LedgerService.syncAll()
+  });
+
+  SchedulerService.registerJob({
+    name: 'tax.year_end_summaries',
+    description: 'Generate 1099-NEC/1042-S style earnings summaries for the previous tax year',
+    cronExpression: '0 5 15 1 *',
+    lockTimeoutSeconds: 2 * 60 * 60,
+    handler: () => TaxService.generateYearEndSummaries(new Date().getUTCFullYear() - 1)
+  });
+};
@@ -3,6 +3,9 @@ import { AuthenticatedRequest } from './auth';
 import { AuditService } from '../services/audit';
 import { logger } from '../utils/logger';
 import { User } from '../models/User';
+import { decodeAssertionHeader } from '../services/mfa/webauthn';
+import { SessionService, meetsAssurance } from '../services/auth/session';
+import { AssuranceLevel } from '../models/Session';
 
 export interface AdminAuthenticatedRequest extends AuthenticatedRequest {
   adminSession?: {
@@ -104,74 +107,109 @@ export const adminAuthenticate = async (req: AdminAuthenticatedRequest, res: Res
 };
 
 /**
- * Middleware to require additional MFA verification for critical admin operations
+ * Require a step-up to the given assurance level for sensitive admin operations. A session elevated by
+ * POST /mfa/step-up passes until its window closes; otherwise the admin sends a second factor with the
+ * request (x-admin-mfa-token, or a base64url-encoded WebAuthn assertion in x-admin-mfa-webauthn), which
+ * also opens the window for later requests.
  */
-export const requireAdminMFA = async (req: AdminAuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-    }
+export const requireStepUp = (requiredLevel: AssuranceLevel = 'mfa') => {
+  return async (req: AdminAuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+      }
 
-    // Check if MFA is enabled for this admin
-    if (!req.user.mfaEnabled) {
-      return res.status(403).json({
-        success: false,
-        error: 'MFA must be enabled for admin operations',
-        requireMFASetup: true
-      });
-    }
+      if (meetsAssurance(req.assuranceLevel || 'password', requiredLevel)) {
+        return next();
+      }
 
-    // Check for MFA token in headers
-    const mfaToken = req.headers['x-admin-mfa-token'] as string;
-    
-    if (!mfaToken) {
-      return res.status(403).json({
-        success: false,
-        error: 'MFA verification required for this operation',
-        requireMFA: true
-      });
-    }
+      // Check if MFA is enabled for this admin
+      if (!req.user.mfaEnabled) {
+        return res.status(403).json({
+          success: false,
+          error: 'MFA must be enabled for admin operations',
+          requireMFASetup: true
+        });
+      }
+
+      const mfaToken = req.headers['x-admin-mfa-token'] as string;
+      const webauthnAssertion = decodeAssertionHeader(req.headers['x-admin-mfa-webauthn'] as string);
+
+      if (!mfaToken && !webauthnAssertion) {
+        return res.status(403).json({
+          success: false,
+          error: 'MFA verification required for this operation',
+          requireMFA: true,
+          requiredAssurance: requiredLevel,
+          currentAssurance: req.assuranceLevel || 'password'
+        });
+      }
 
-    // Verify MFA token using the MFA service
-    const { MFAService } = await import('../services/mfa');
-    const mfaResult = await MFAService.verifyMFAToken(req.user._id, mfaToken);
-    
-    if (!mfaResult.isValid) {
+      // Verify MFA factor using the MFA service
+      const { MFAService } = await import('../services/mfa');
+      const mfaResult = await MFAService.verifyMFAFactor(req.user._id, { token: mfaToken, webauthn: webauthnAssertion });
+
+      if (!mfaResult.isValid) {
+        await AuditService.logSystemAction(
+          req.user._id,
+          'admin_mfa_verification_failed',
+          { operation: req.path, requiredAssurance: requiredLevel },
+          req
+        );
+
+        return res.status(403).json({
+          success: false,
+          error: 'Invalid MFA token',
+          requireMFA: true
+        });
+      }
+
+      const assuranceLevel = MFAService.getFactorAssurance(mfaResult.factor!);
+      if (!meetsAssurance(assuranceLevel, requiredLevel)) {
+        return res.status(403).json({
+          success: false,
+          error: 'This operation requires a security key or passkey',
+          requireMFA: true,
+          requiredAssurance: requiredLevel,
+          currentAssurance: assuranceLevel
+        });
+      }
+
+      // Open the step-up window on the session; tokens without a session must step up on every request
+      let elevatedUntil: Date | undefined;
+      if (req.sessionId) {
+        const session = await SessionService.elevateSession(req.sessionId, req.user._id.toString(), assuranceLevel, mfaResult.factor!);
+        elevatedUntil = session.elevatedUntil;
+      }
+      req.assuranceLevel = assuranceLevel;
+
+      // Log successful MFA verification
       await AuditService.logSystemAction(
         req.user._id,
-        'admin_mfa_verification_failed',
-        { operation: req.path },
+        'admin_mfa_verified',
+        { operation: req.path, factor: mfaResult.factor, requiredAssurance: requiredLevel, elevatedUntil },
         req
       );
 
-      return res.status(403).json({
+      next();
+    } catch (error) {
+      logger.error('Admin MFA verification error:', error);
+      return res.status(500).json({
         success: false,
-        error: 'Invalid MFA token',
-        requireMFA: true
+        error: 'MFA verification failed'
       });
     }
-
-    // Log successful MFA verification
-    await AuditService.logSystemAction(
-      req.user._id,
-      'admin_mfa_verified',
-      { operation: req.path },
-      req
-    );
-
-    next();
-  } catch (error) {
-    logger.error('Admin MFA verification error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'MFA verification failed'
-    });
-  }
+  };
 };
 
+/**
+ * Middleware to require additional MFA verification for critical admin operations
+ */
+export const requireAdminMFA = requireStepUp('mfa');
+
 /**
  * Rate limiting middleware for admin operations
  */
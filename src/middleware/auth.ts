@@ -2,11 +2,17 @@ import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, extractTokenFromHeader, JWTPayload } from '../utils/jwt';
 import { User, IUser } from '../models/User';
 import { MFAService } from '../services/mfa';
+import { SessionService, getSessionAssurance } from '../services/auth/session';
+import { AssuranceLevel } from '../models/Session';
+import { decodeAssertionHeader } from '../services/mfa/webauthn';
+import { RBACService, Permission } from '../services/rbac';
 import { logger } from '../utils/logger';
 
 export interface AuthenticatedRequest extends Request {
   user?: IUser;
   userId?: string;
+  sessionId?: string;
+  assuranceLevel?: AssuranceLevel; // Raised by a step-up verification on the session or by requireStepUp
 }
 
 export const authenticate = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -39,8 +45,27 @@ export const authenticate = async (req: AuthenticatedRequest, res: Response, nex
       });
     }
 
+    // Tokens bound to a session stop working as soon as the session is revoked
+    let assuranceLevel: AssuranceLevel = 'password';
+    if (decoded.sessionId) {
+      const session = await SessionService.validateSession(decoded.sessionId, user._id.toString(), {
+        ipAddress: req.ip
+      });
+
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          error: 'Session has been revoked'
+        });
+      }
+
+      assuranceLevel = getSessionAssurance(session);
+    }
+
     req.user = user;
     req.userId = user._id;
+    req.sessionId = decoded.sessionId;
+    req.assuranceLevel = assuranceLevel;
     next();
   } catch (error) {
     logger.error('Authentication error:', error);
@@ -73,6 +98,30 @@ export const requireRole = (roles: string | string[]) => {
   };
 };
 
+/**
+ * Require every listed permission, granted through the user's admin roles
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    if (!RBACService.hasPermission(req.user, ...permissions)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        requiredPermissions: permissions
+      });
+    }
+
+    next();
+  };
+};
+
 export const requireEmailVerification = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   if (!req.user) {
     return res.status(401).json({
@@ -109,10 +158,11 @@ export const requireMFA = async (req: AuthenticatedRequest, res: Response, next:
     });
   }
 
-  // Check if MFA token is provided in headers
+  // Either a TOTP or backup code, or a base64url-encoded WebAuthn assertion
   const mfaToken = req.headers['x-mfa-token'] as string;
+  const webauthnAssertion = decodeAssertionHeader(req.headers['x-mfa-webauthn'] as string);
   
-  if (!mfaToken) {
+  if (!mfaToken && !webauthnAssertion) {
     return res.status(403).json({
       success: false,
       error: 'MFA token required for this operation',
@@ -122,8 +172,8 @@ export const requireMFA = async (req: AuthenticatedRequest, res: Response, next:
   }
 
   try {
-    // Verify MFA token
-    const verification = await MFAService.verifyMFAToken(req.user._id, mfaToken);
+    // Verify MFA factor
+    const verification = await MFAService.verifyMFAFactor(req.user._id, { token: mfaToken, webauthn: webauthnAssertion });
     
     if (!verification.isValid) {
       return res.status(403).json({
@@ -147,6 +197,15 @@ export const requireMFA = async (req: AuthenticatedRequest, res: Response, next:
   }
 };
 
+// Middleware that requires the existing second factor once MFA is enabled, so enrolling
+// another factor cannot be used to get around it. Users without MFA enroll their first factor freely.
+export const requireMFAIfEnabled = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (req.user?.mfaEnabled) {
+    return requireMFA(req, res, next);
+  }
+  next();
+};
+
 // Middleware that suggests MFA but doesn't enforce it
 export const suggestMFA = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   if (!req.user) {
@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { IPostbackCredential } from '../models/PostbackCredential';
+import { PostbackService } from '../services/postback';
+import { logger } from '../utils/logger';
+
+export interface PostbackRequest extends Request {
+  rawBody?: string;
+  postbackCredential?: IPostbackCredential;
+  idempotencyKey?: string;
+}
+
+/**
+ * Verify an HMAC-signed server-to-server postback.
+ *
+ * Clients send X-Postback-Key, X-Postback-Timestamp (unix seconds), X-Postback-Nonce and
+ * X-Postback-Signature, a hex HMAC-SHA256 of `${timestamp}.${nonce}.${rawBody}`.
+ */
+export const verifyPostbackSignature = async (req: PostbackRequest, res: Response, next: NextFunction) => {
+  const keyId = req.get('X-Postback-Key');
+  const timestamp = req.get('X-Postback-Timestamp');
+  const nonce = req.get('X-Postback-Nonce');
+  const idempotencyKey = req.get('Idempotency-Key') || req.body?.idempotencyKey;
+
+  try {
+    req.postbackCredential = await PostbackService.verifySignature({
+      keyId,
+      timestamp,
+      nonce,
+      signature: req.get('X-Postback-Signature'),
+      rawBody: req.rawBody || ''
+    });
+    req.idempotencyKey = idempotencyKey;
+    next();
+  } catch (error: any) {
+    logger.warn('Postback verification failed:', error.message);
+
+    await PostbackService.logRejection({
+      keyId,
+      reason: error.message,
+      endpoint: req.originalUrl,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      timestamp,
+      nonce,
+      idempotencyKey,
+      payload: req.body
+    });
+
+    return res.status(401).json({
+      error: {
+        code: 'INVALID_SIGNATURE',
+        message: error.message || 'Postback signature verification failed'
+      }
+    });
+  }
+};
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ASSURANCE_LEVELS, AssuranceLevel } from './Session';
 
 export interface IAuditLog extends Document {
   _id: string;
@@ -14,6 +15,7 @@ export interface IAuditLog extends Document {
   };
   ipAddress?: string;
   userAgent?: string;
+  assuranceLevel?: AssuranceLevel; // Authentication assurance the request carried
   timestamp: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -33,6 +35,9 @@ const auditLogSchema = new Schema<IAuditLog>({
       'user_status_changed',
       'user_bulk_action',
       'user_profile_updated',
+      'user_sessions_revoked',
+      'account_unlocked',
+      'user_roles_updated',
       'kyc_status_changed',
       
       // Product management actions
@@ -42,6 +47,11 @@ const auditLogSchema = new Schema<IAuditLog>({
       'product_status_changed',
       'product_material_uploaded',
       'product_material_deleted',
+      'commission_plan_created',
+      'commission_plan_updated',
+      'commission_plan_activated',
+      'commission_plan_archived',
+      'commission_plan_deleted',
       
       // Commission management actions
       'commission_approved',
@@ -49,6 +59,9 @@ const auditLogSchema = new Schema<IAuditLog>({
       'commission_clawback',
       'commission_adjustment',
       'commission_status_changed',
+      'commission_override_created',
+      'commission_override_revoked',
+      'commission_override_applied',
       
       // Payout management actions
       'payout_approved',
@@ -57,25 +70,59 @@ const auditLogSchema = new Schema<IAuditLog>({
       "payout_status_changed",
       "payout_bulk_action",
       'bulk_payout_processed',
+      'payout_reconciliation_imported',
+      'payout_discrepancy_resolved',
+      'payout_batch_generated',
+      'payout_batch_downloaded',
+      'payout_batch_submitted',
+      'payout_batch_settled',
+      'payout_batch_rejected',
+      'payout_batch_cancelled',
+      'payout_hold_placed',
+      'payout_hold_released',
+      'tax_profile_reviewed',
+      'withholding_rule_created',
+      'withholding_rule_updated',
+      'withholding_rule_deleted',
+      'tax_summaries_generated',
+      'tax_report_exported',
       
       // System actions
       'admin_login',
       'admin_logout',
       'settings_changed',
       'report_generated',
+      'scheduled_report_created',
+      'scheduled_report_updated',
+      'scheduled_report_deleted',
       'data_export',
+      'postback_credential_created',
+      'postback_credential_rotated',
+      'postback_credential_revoked',
+      'scheduled_job_paused',
+      'scheduled_job_resumed',
+      'scheduled_job_rescheduled',
+      'scheduled_job_triggered',
+      
+      // Account security events
+      'login_failed',
+      'account_locked',
       
       // Admin security and access actions
       'admin_sensitive_operation_access',
       'unauthorized_admin_access_attempt',
       'admin_mfa_verification_failed',
       'admin_mfa_verified',
+      'session_step_up',
       'admin_rate_limit_exceeded',
       'admin_activity',
       
       // Data retention and GDPR actions
       'retention_policy_started',
       'retention_policy_completed',
+      'retention_policy_created',
+      'retention_policies_executed',
+      'retention_emergency_cleanup',
       'data_anonymization',
       'data_deletion',
       'manual_anonymization',
@@ -107,6 +154,11 @@ const auditLogSchema = new Schema<IAuditLog>({
     type: String,
     required: false
   },
+  assuranceLevel: {
+    type: String,
+    enum: ASSURANCE_LEVELS,
+    required: false
+  },
   timestamp: {
     type: Date,
     default: Date.now,
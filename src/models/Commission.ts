@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from '../utils/currency';
 
 export interface ICommission extends Document {
   _id: string;
@@ -10,11 +11,24 @@ export interface ICommission extends Document {
   commissionRate?: number;
   commissionFlatAmount?: number;
   commissionAmount: number;
+  currency: string; // Product currency the spend and commission amounts are in
+  exchangeRate: number; // Base currency per unit of currency, snapshotted when the commission was created
   status: 'pending' | 'approved' | 'paid' | 'clawed_back' | 'rejected';
   conversionDate: Date;
   approvalDate?: Date;
   clearancePeriodDays: number;
   eligibleForPayoutDate: Date;
+  conversionEventId?: string;
+  attributionWeight: number;
+  commissionPlanId?: string;
+  commissionPlanVersion?: number;
+  commissionOverrideId?: string;
+  bonusAmount: number; // Plan bonus included in commissionAmount
+  isRecurring: boolean; // Earned on a follow-on customer transaction rather than the initial conversion
+  parentCommissionId?: string; // Original conversion commission a recurring commission derives from
+  customerTransactionId?: string;
+  sourceCommissionId?: string; // Sub-affiliate commission an upline override was earned from
+  networkLevel: number; // 0 for direct commissions, n for an override earned from a level-n sub-affiliate
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,6 +75,16 @@ const commissionSchema = new Schema<ICommission>({
     required: [true, 'Commission amount is required'],
     min: [0, 'Commission amount cannot be negative']
   },
+  currency: {
+    type: String,
+    enum: SUPPORTED_CURRENCIES,
+    default: DEFAULT_CURRENCY
+  },
+  exchangeRate: {
+    type: Number,
+    default: 1,
+    min: [0, 'Exchange rate cannot be negative']
+  },
   status: {
     type: String,
     enum: ['pending', 'approved', 'paid', 'clawed_back', 'rejected'],
@@ -81,6 +105,60 @@ const commissionSchema = new Schema<ICommission>({
   },
   eligibleForPayoutDate: {
     type: Date
+  },
+  conversionEventId: {
+    type: String,
+    ref: 'ConversionEvent',
+    default: null
+  },
+  attributionWeight: {
+    type: Number,
+    default: 1,
+    min: [0, 'Attribution weight cannot be negative'],
+    max: [1, 'Attribution weight cannot exceed 1']
+  },
+  commissionPlanId: {
+    type: String,
+    ref: 'CommissionPlan',
+    default: null
+  },
+  commissionPlanVersion: {
+    type: Number,
+    default: null
+  },
+  commissionOverrideId: {
+    type: String,
+    ref: 'CommissionOverride',
+    default: null
+  },
+  bonusAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Bonus amount cannot be negative']
+  },
+  isRecurring: {
+    type: Boolean,
+    default: false
+  },
+  parentCommissionId: {
+    type: String,
+    ref: 'Commission',
+    default: null
+  },
+  customerTransactionId: {
+    type: String,
+    ref: 'CustomerTransaction',
+    default: null
+  },
+  sourceCommissionId: {
+    type: String,
+    ref: 'Commission',
+    default: null
+  },
+  networkLevel: {
+    type: Number,
+    default: 0,
+    min: [0, 'Network level cannot be negative']
   }
 }, {
   timestamps: true,
@@ -102,6 +180,9 @@ commissionSchema.index({ trackingCode: 1 });
 commissionSchema.index({ status: 1 });
 commissionSchema.index({ conversionDate: -1 });
 commissionSchema.index({ eligibleForPayoutDate: 1 });
+commissionSchema.index({ conversionEventId: 1 });
+commissionSchema.index({ parentCommissionId: 1 });
+commissionSchema.index({ sourceCommissionId: 1 });
 
 // Compound indexes for common queries
 commissionSchema.index({ marketerId: 1, status: 1 });
@@ -0,0 +1,132 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICommissionOverride extends Document {
+  _id: string;
+  marketerId: string;
+  productId: string;
+  commissionType: 'percentage' | 'flat';
+  commissionRate?: number; // For percentage-based overrides (0-1)
+  commissionFlatAmount?: number; // For flat overrides
+  validFrom: Date;
+  validTo?: Date;
+  status: 'active' | 'revoked';
+  approvedBy: string;
+  approvedAt: Date;
+  reason: string;
+  revokedBy?: string;
+  revokedAt?: Date;
+  revocationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isValidAt(date: Date): boolean;
+}
+
+const commissionOverrideSchema = new Schema<ICommissionOverride>({
+  marketerId: {
+    type: String,
+    required: [true, 'Marketer ID is required'],
+    ref: 'User'
+  },
+  productId: {
+    type: String,
+    required: [true, 'Product ID is required'],
+    ref: 'Product'
+  },
+  commissionType: {
+    type: String,
+    enum: ['percentage', 'flat'],
+    required: [true, 'Commission type is required']
+  },
+  commissionRate: {
+    type: Number,
+    min: [0, 'Commission rate cannot be negative'],
+    max: [1, 'Commission rate cannot exceed 100%']
+  },
+  commissionFlatAmount: {
+    type: Number,
+    min: [0, 'Commission flat amount cannot be negative']
+  },
+  validFrom: {
+    type: Date,
+    required: [true, 'Valid from date is required']
+  },
+  validTo: {
+    type: Date,
+    default: null
+  },
+  status: {
+    type: String,
+    enum: ['active', 'revoked'],
+    default: 'active',
+    required: true
+  },
+  approvedBy: {
+    type: String,
+    required: [true, 'Approver is required'],
+    ref: 'User'
+  },
+  approvedAt: {
+    type: Date,
+    default: Date.now
+  },
+  reason: {
+    type: String,
+    required: [true, 'Reason is required'],
+    trim: true,
+    maxlength: [1000, 'Reason cannot exceed 1000 characters']
+  },
+  revokedBy: {
+    type: String,
+    ref: 'User'
+  },
+  revokedAt: {
+    type: Date
+  },
+  revocationReason: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Revocation reason cannot exceed 1000 characters']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Check whether the override applies to a conversion on the given date
+commissionOverrideSchema.methods.isValidAt = function(date: Date): boolean {
+  if (this.status !== 'active') return false;
+  if (date < this.validFrom) return false;
+  return !this.validTo || date < this.validTo;
+};
+
+// Indexes for performance
+commissionOverrideSchema.index({ marketerId: 1, productId: 1, status: 1, validFrom: -1 });
+commissionOverrideSchema.index({ productId: 1, status: 1 });
+
+// Pre-save middleware to validate the negotiated rate
+commissionOverrideSchema.pre('save', function(next) {
+  if (this.commissionType === 'percentage' && (this.commissionRate === undefined || this.commissionRate === null)) {
+    return next(new Error('Commission rate is required for percentage-based overrides'));
+  }
+
+  if (this.commissionType === 'flat' && (this.commissionFlatAmount === undefined || this.commissionFlatAmount === null)) {
+    return next(new Error('Commission flat amount is required for flat overrides'));
+  }
+
+  if (this.validTo && this.validTo <= this.validFrom) {
+    return next(new Error('Valid to date must be after valid from date'));
+  }
+
+  next();
+});
+
+export const CommissionOverride = mongoose.model<ICommissionOverride>('CommissionOverride', commissionOverrideSchema);
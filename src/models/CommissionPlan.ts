@@ -0,0 +1,199 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISpendTier {
+  minAmount: number;
+  maxAmount?: number;
+  rate: number;
+}
+
+export interface IVolumeTier {
+  minConversions: number;
+  maxConversions?: number;
+  rate: number;
+}
+
+export interface IBonusThreshold {
+  metric: 'monthly_conversions' | 'monthly_spend';
+  threshold: number;
+  bonusAmount: number;
+}
+
+export interface ICommissionPlan extends Document {
+  _id: string;
+  productId: string;
+  name: string;
+  version: number;
+  status: 'draft' | 'active' | 'archived';
+  effectiveFrom: Date;
+  effectiveTo?: Date;
+  spendTiers: ISpendTier[]; // Rate by the customer's initial spend
+  volumeTiers: IVolumeTier[]; // Rate by the marketer's conversion count in the calendar month
+  bonusThresholds: IBonusThreshold[]; // One-off bonus when a monthly threshold is crossed
+  notes?: string;
+  createdBy: string;
+  activatedBy?: string;
+  activatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isEffectiveAt(date: Date): boolean;
+}
+
+const spendTierSchema = new Schema<ISpendTier>({
+  minAmount: {
+    type: Number,
+    required: [true, 'Tier minimum amount is required'],
+    min: [0, 'Tier minimum amount cannot be negative']
+  },
+  maxAmount: {
+    type: Number,
+    min: [0, 'Tier maximum amount cannot be negative']
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Tier rate is required'],
+    min: [0, 'Tier rate cannot be negative'],
+    max: [1, 'Tier rate cannot exceed 100%']
+  }
+}, { _id: false });
+
+const volumeTierSchema = new Schema<IVolumeTier>({
+  minConversions: {
+    type: Number,
+    required: [true, 'Tier minimum conversions is required'],
+    min: [1, 'Tier minimum conversions must be at least 1']
+  },
+  maxConversions: {
+    type: Number,
+    min: [1, 'Tier maximum conversions must be at least 1']
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Tier rate is required'],
+    min: [0, 'Tier rate cannot be negative'],
+    max: [1, 'Tier rate cannot exceed 100%']
+  }
+}, { _id: false });
+
+const bonusThresholdSchema = new Schema<IBonusThreshold>({
+  metric: {
+    type: String,
+    enum: ['monthly_conversions', 'monthly_spend'],
+    required: [true, 'Bonus metric is required']
+  },
+  threshold: {
+    type: Number,
+    required: [true, 'Bonus threshold is required'],
+    min: [1, 'Bonus threshold must be at least 1']
+  },
+  bonusAmount: {
+    type: Number,
+    required: [true, 'Bonus amount is required'],
+    min: [0, 'Bonus amount cannot be negative']
+  }
+}, { _id: false });
+
+const commissionPlanSchema = new Schema<ICommissionPlan>({
+  productId: {
+    type: String,
+    required: [true, 'Product ID is required'],
+    ref: 'Product'
+  },
+  name: {
+    type: String,
+    required: [true, 'Plan name is required'],
+    trim: true,
+    maxlength: [255, 'Plan name cannot exceed 255 characters']
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'active', 'archived'],
+    default: 'draft',
+    required: true
+  },
+  effectiveFrom: {
+    type: Date,
+    required: [true, 'Effective from date is required']
+  },
+  effectiveTo: {
+    type: Date,
+    default: null
+  },
+  spendTiers: {
+    type: [spendTierSchema],
+    default: []
+  },
+  volumeTiers: {
+    type: [volumeTierSchema],
+    default: []
+  },
+  bonusThresholds: {
+    type: [bonusThresholdSchema],
+    default: []
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  createdBy: {
+    type: String,
+    required: [true, 'Creator is required'],
+    ref: 'User'
+  },
+  activatedBy: {
+    type: String,
+    ref: 'User'
+  },
+  activatedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Check whether the plan applies to a conversion on the given date
+commissionPlanSchema.methods.isEffectiveAt = function(date: Date): boolean {
+  if (this.status !== 'active') return false;
+  if (date < this.effectiveFrom) return false;
+  return !this.effectiveTo || date < this.effectiveTo;
+};
+
+// Indexes for performance
+commissionPlanSchema.index({ productId: 1, version: -1 }, { unique: true });
+commissionPlanSchema.index({ productId: 1, status: 1, effectiveFrom: -1 });
+
+// Pre-save middleware to validate plan structure
+commissionPlanSchema.pre('save', function(next) {
+  if (this.spendTiers.length === 0 && this.volumeTiers.length === 0 && this.bonusThresholds.length === 0) {
+    return next(new Error('Commission plan must define at least one spend tier, volume tier or bonus threshold'));
+  }
+
+  if (this.effectiveTo && this.effectiveTo <= this.effectiveFrom) {
+    return next(new Error('Effective to date must be after effective from date'));
+  }
+
+  const invalidSpendTier = this.spendTiers.some(tier => tier.maxAmount !== undefined && tier.maxAmount !== null && tier.maxAmount < tier.minAmount);
+  const invalidVolumeTier = this.volumeTiers.some(tier => tier.maxConversions !== undefined && tier.maxConversions !== null && tier.maxConversions < tier.minConversions);
+  if (invalidSpendTier || invalidVolumeTier) {
+    return next(new Error('Tier maximum cannot be lower than tier minimum'));
+  }
+
+  next();
+});
+
+export const CommissionPlan = mongoose.model<ICommissionPlan>('CommissionPlan', commissionPlanSchema);
@@ -1,4 +1,14 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from '../utils/currency';
+
+export interface IAttributionCredit {
+  trackingCode: string;
+  marketerId: string;
+  weight: number;
+  clickEventId?: string;
+  commissionId?: string;
+  commissionAmount?: number;
+}
 
 export interface IConversionEvent extends Document {
   _id: string;
@@ -6,6 +16,8 @@ export interface IConversionEvent extends Document {
   customerId: string;
   productId: string;
   initialSpendAmount: number;
+  currency: string; // Currency the initial spend was reported in
+  exchangeRate: number; // Base currency per unit of currency at conversion time
   conversionTimestamp: Date;
   attributionMethod: 'cookie' | 'portal' | 's2s' | 'none'; // server-to-server
   commissionEligible: boolean;
@@ -15,6 +27,8 @@ export interface IConversionEvent extends Document {
   userAgent?: string;
   clickEventId?: string; // Reference to the original click event
   attributionWindowDays: number;
+  attributionModel: 'last_click' | 'first_click' | 'linear' | 'time_decay' | 'position_based';
+  attributionCredits: IAttributionCredit[];
   deduplicationKey: string;
   
   // Methods
@@ -22,6 +36,38 @@ export interface IConversionEvent extends Document {
   isWithinAttributionWindow(clickTimestamp: Date): boolean;
 }
 
+const attributionCreditSchema = new Schema<IAttributionCredit>({
+  trackingCode: {
+    type: String,
+    required: true
+  },
+  marketerId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  weight: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1
+  },
+  clickEventId: {
+    type: String,
+    default: null,
+    ref: 'ClickEvent'
+  },
+  commissionId: {
+    type: String,
+    default: null,
+    ref: 'Commission'
+  },
+  commissionAmount: {
+    type: Number,
+    default: null
+  }
+}, { _id: false });
+
 const conversionEventSchema = new Schema<IConversionEvent>({
   trackingCode: {
     type: String,
@@ -44,6 +90,16 @@ const conversionEventSchema = new Schema<IConversionEvent>({
     required: [true, 'Initial spend amount is required'],
     min: [0, 'Initial spend amount must be positive']
   },
+  currency: {
+    type: String,
+    enum: SUPPORTED_CURRENCIES,
+    default: DEFAULT_CURRENCY
+  },
+  exchangeRate: {
+    type: Number,
+    default: 1,
+    min: [0, 'Exchange rate cannot be negative']
+  },
   conversionTimestamp: {
     type: Date,
     default: Date.now,
@@ -91,6 +147,15 @@ const conversionEventSchema = new Schema<IConversionEvent>({
     min: 1,
     max: 90
   },
+  attributionModel: {
+    type: String,
+    enum: ['last_click', 'first_click', 'linear', 'time_decay', 'position_based'],
+    default: 'last_click'
+  },
+  attributionCredits: {
+    type: [attributionCreditSchema],
+    default: []
+  },
   deduplicationKey: {
     type: String,
     required: true,
@@ -131,6 +196,7 @@ conversionEventSchema.index({ productId: 1, conversionTimestamp: -1 });
 conversionEventSchema.index({ conversionTimestamp: -1 }); // For analytics and reporting
 conversionEventSchema.index({ commissionEligible: 1, conversionTimestamp: -1 });
 conversionEventSchema.index({ attributionMethod: 1, conversionTimestamp: -1 });
+conversionEventSchema.index({ 'attributionCredits.marketerId': 1, conversionTimestamp: -1 });
 
 // Compound indexes for common queries
 conversionEventSchema.index({ trackingCode: 1, customerId: 1, productId: 1 });
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICustomerTransaction extends Document {
+  _id: string;
+  customerId: string;
+  productId: string;
+  transactionReference: string; // Reference from the reporting system, unique per customer
+  transactionType: 'deposit' | 'subscription_payment' | 'purchase';
+  amount: number;
+  currency: string;
+  transactionDate: Date;
+  status: 'commissioned' | 'not_eligible';
+  ineligibleReason?: string;
+  commissionIds: string[]; // Recurring commissions generated from this transaction
+  conversionEventId?: string; // Conversion that originally attributed the customer
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const customerTransactionSchema = new Schema<ICustomerTransaction>({
+  customerId: {
+    type: String,
+    required: [true, 'Customer ID is required'],
+    ref: 'Customer'
+  },
+  productId: {
+    type: String,
+    required: [true, 'Product ID is required'],
+    ref: 'Product'
+  },
+  transactionReference: {
+    type: String,
+    required: [true, 'Transaction reference is required'],
+    trim: true,
+    maxlength: [255, 'Transaction reference cannot exceed 255 characters']
+  },
+  transactionType: {
+    type: String,
+    enum: ['deposit', 'subscription_payment', 'purchase'],
+    default: 'deposit',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Transaction amount is required'],
+    min: [0, 'Transaction amount cannot be negative']
+  },
+  currency: {
+    type: String,
+    default: 'USD',
+    uppercase: true,
+    trim: true
+  },
+  transactionDate: {
+    type: Date,
+    required: [true, 'Transaction date is required']
+  },
+  status: {
+    type: String,
+    enum: ['commissioned', 'not_eligible'],
+    required: true
+  },
+  ineligibleReason: {
+    type: String
+  },
+  commissionIds: [{
+    type: String,
+    ref: 'Commission'
+  }],
+  conversionEventId: {
+    type: String,
+    ref: 'ConversionEvent',
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+customerTransactionSchema.index({ customerId: 1, transactionReference: 1 }, { unique: true });
+customerTransactionSchema.index({ customerId: 1, transactionDate: -1 });
+customerTransactionSchema.index({ productId: 1, transactionDate: -1 });
+
+export const CustomerTransaction = mongoose.model<ICustomerTransaction>('CustomerTransaction', customerTransactionSchema);
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { REPORT_TYPES, REPORT_FORMATS, ReportType, ReportFormat } from './ScheduledReport';
+
+export interface IGeneratedReport extends Document {
+  _id: string;
+  reportType: ReportType;
+  scheduledReportId?: string; // Set for reports produced by a schedule
+  trigger: 'schedule' | 'manual';
+  generatedBy?: string; // Admin who requested a manual run
+  periodStart: Date;
+  periodEnd: Date;
+  format: ReportFormat;
+  status: 'completed' | 'failed';
+  fileName?: string;
+  contentType?: string;
+  size?: number;
+  content?: Buffer; // Rendered file; excluded from queries unless selected
+  recipients: string[];
+  emailedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const generatedReportSchema = new Schema<IGeneratedReport>({
+  reportType: {
+    type: String,
+    enum: REPORT_TYPES,
+    required: true,
+    index: true
+  },
+  scheduledReportId: {
+    type: String,
+    ref: 'ScheduledReport',
+    index: true
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true
+  },
+  generatedBy: {
+    type: String,
+    ref: 'User'
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  periodEnd: {
+    type: Date,
+    required: true
+  },
+  format: {
+    type: String,
+    enum: REPORT_FORMATS,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['completed', 'failed'],
+    required: true
+  },
+  fileName: {
+    type: String
+  },
+  contentType: {
+    type: String
+  },
+  size: {
+    type: Number
+  },
+  content: {
+    type: Buffer,
+    select: false
+  },
+  recipients: {
+    type: [String],
+    default: []
+  },
+  emailedAt: {
+    type: Date
+  },
+  error: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'generated_reports',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      delete (ret as any).content;
+      return ret;
+    }
+  }
+});
+
+generatedReportSchema.index({ createdAt: -1 });
+
+export const GeneratedReport = mongoose.model<IGeneratedReport>('GeneratedReport', generatedReportSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IJobRun extends Document {
+  _id: string;
+  jobName: string;
+  trigger: 'schedule' | 'manual';
+  triggeredBy?: string; // Admin who triggered a manual run
+  instanceId: string; // API instance that ran the job
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: any;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobRunSchema = new Schema<IJobRun>({
+  jobName: {
+    type: String,
+    required: true
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true
+  },
+  triggeredBy: {
+    type: String,
+    ref: 'User'
+  },
+  instanceId: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'failed'],
+    default: 'running',
+    required: true
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  finishedAt: {
+    type: Date
+  },
+  durationMs: {
+    type: Number
+  },
+  result: {
+    type: Schema.Types.Mixed
+  },
+  error: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'job_runs',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Index for run history queries
+jobRunSchema.index({ jobName: 1, startedAt: -1 });
+jobRunSchema.index({ status: 1, startedAt: -1 });
+
+// TTL index for automatic cleanup (90 days)
+jobRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const JobRun = mongoose.model<IJobRun>('JobRun', jobRunSchema);
@@ -0,0 +1,169 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Marketer accounts are liabilities held per marketer; the others are platform accounts
+export type LedgerAccount =
+  | 'marketer_pending' // Commissions still in their clearance period
+  | 'marketer_available' // Cleared earnings the marketer can withdraw
+  | 'marketer_payout_pending' // Requested payouts that have not been sent
+  | 'commission_expense'
+  | 'cash'
+  | 'fee_revenue'
+  | 'tax_withholding'; // Tax withheld from payouts and owed to the tax authority
+
+export type LedgerTransactionType =
+  | 'commission_accrued'
+  | 'commission_approved'
+  | 'commission_adjustment'
+  | 'commission_clawback'
+  | 'commission_rejected'
+  | 'payout_requested'
+  | 'payout_sent'
+  | 'payout_cancelled'
+  | 'payout_failed'
+  | 'payout_reversed'
+  | 'payout_adjustment';
+
+export interface ILedgerEntry {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface ILedgerTransaction extends Document {
+  _id: string;
+  marketerId: string;
+  type: LedgerTransactionType;
+  referenceType: 'commission' | 'payout';
+  referenceId: string;
+  sequence: number; // Position among the postings for this reference
+  entries: ILedgerEntry[];
+  description: string;
+  occurredAt: Date; // Business time of the event, used for point-in-time balances
+  createdAt: Date; // When the transaction was posted
+}
+
+export const LEDGER_ACCOUNTS: LedgerAccount[] = [
+  'marketer_pending',
+  'marketer_available',
+  'marketer_payout_pending',
+  'commission_expense',
+  'cash',
+  'fee_revenue',
+  'tax_withholding'
+];
+
+export const LEDGER_APPEND_ONLY = 'Ledger transactions are append-only; post a reversing transaction instead';
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>({
+  account: {
+    type: String,
+    enum: LEDGER_ACCOUNTS,
+    required: true
+  },
+  debit: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  credit: {
+    type: Number,
+    min: 0,
+    default: 0
+  }
+}, { _id: false });
+
+const ledgerTransactionSchema = new Schema<ILedgerTransaction>({
+  marketerId: {
+    type: String,
+    required: [true, 'Marketer ID is required'],
+    ref: 'User'
+  },
+  type: {
+    type: String,
+    enum: [
+      'commission_accrued',
+      'commission_approved',
+      'commission_adjustment',
+      'commission_clawback',
+      'commission_rejected',
+      'payout_requested',
+      'payout_sent',
+      'payout_cancelled',
+      'payout_failed',
+      'payout_reversed',
+      'payout_adjustment'
+    ],
+    required: true
+  },
+  referenceType: {
+    type: String,
+    enum: ['commission', 'payout'],
+    required: true
+  },
+  referenceId: {
+    type: String,
+    required: true
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  entries: {
+    type: [ledgerEntrySchema],
+    required: true
+  },
+  description: {
+    type: String,
+    required: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  occurredAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'ledger_transactions',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Two syncs racing on the same reference cannot both post the same step
+ledgerTransactionSchema.index({ referenceType: 1, referenceId: 1, sequence: 1 }, { unique: true });
+ledgerTransactionSchema.index({ marketerId: 1, occurredAt: 1 });
+ledgerTransactionSchema.index({ occurredAt: 1 });
+
+// Every transaction must balance
+ledgerTransactionSchema.pre('validate', function(next) {
+  const toCents = (value: number) => Math.round((value || 0) * 100);
+  const debits = this.entries.reduce((total, entry) => total + toCents(entry.debit), 0);
+  const credits = this.entries.reduce((total, entry) => total + toCents(entry.credit), 0);
+
+  if (this.entries.length < 2 || debits === 0 || debits !== credits) {
+    return next(new Error('Ledger transaction debits and credits must balance'));
+  }
+  next();
+});
+
+ledgerTransactionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error(LEDGER_APPEND_ONLY));
+  }
+  next();
+});
+
+const rejectChange = function(next: (error?: Error) => void) {
+  next(new Error(LEDGER_APPEND_ONLY));
+};
+
+ledgerTransactionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectChange);
+ledgerTransactionSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+
+export const LedgerTransaction = mongoose.model<ILedgerTransaction>('LedgerTransaction', ledgerTransactionSchema);
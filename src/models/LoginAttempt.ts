@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const LOGIN_ATTEMPT_OUTCOMES = ['success', 'failed', 'blocked'] as const;
+
+export const LOGIN_FAILURE_REASONS = [
+  'invalid_credentials',
+  'account_locked',
+  'too_many_attempts',
+  'captcha_required',
+  'captcha_invalid'
+] as const;
+
+export type LoginAttemptOutcome = typeof LOGIN_ATTEMPT_OUTCOMES[number];
+export type LoginFailureReason = typeof LOGIN_FAILURE_REASONS[number];
+
+export interface ILoginAttempt extends Document {
+  _id: string;
+  email: string;
+  userId?: string; // Unset when no account has the email
+  ipAddress?: string;
+  userAgent?: string;
+  outcome: LoginAttemptOutcome; // Blocked attempts were refused before the password was checked
+  reason?: LoginFailureReason;
+  createdAt: Date;
+}
+
+const loginAttemptSchema = new Schema<ILoginAttempt>({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  userId: {
+    type: String,
+    ref: 'User'
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: 512
+  },
+  outcome: {
+    type: String,
+    enum: LOGIN_ATTEMPT_OUTCOMES,
+    required: true
+  },
+  reason: {
+    type: String,
+    enum: LOGIN_FAILURE_REASONS
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'login_attempts',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for per-IP throttling and per-account history
+loginAttemptSchema.index({ ipAddress: 1, outcome: 1, createdAt: -1 });
+loginAttemptSchema.index({ email: 1, createdAt: -1 });
+loginAttemptSchema.index({ outcome: 1, createdAt: -1 });
+
+// Keep login history for 90 days
+loginAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
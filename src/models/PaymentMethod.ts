@@ -11,6 +11,9 @@ export interface IPaymentMethod extends Document {
     routingNumber?: string;
     bankName?: string;
     accountHolderName?: string;
+    accountType?: 'checking' | 'savings';
+    iban?: string; // SEPA accounts use an IBAN instead of account and routing numbers
+    bic?: string;
     // For PayPal
     paypalEmail?: string;
     // For Stripe
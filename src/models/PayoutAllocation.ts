@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type PayoutAllocationStatus = 'reserved' | 'paid' | 'released';
+
+export interface IPayoutAllocation extends Document {
+  _id: string;
+  payoutId: string;
+  commissionId: string;
+  marketerId: string;
+  amount: number; // Portion of the commission settled by this payout
+  status: PayoutAllocationStatus;
+  reservedAt: Date;
+  paidAt?: Date;
+  releasedAt?: Date;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const payoutAllocationSchema = new Schema<IPayoutAllocation>({
+  payoutId: {
+    type: String,
+    required: [true, 'Payout ID is required'],
+    ref: 'PayoutRequest'
+  },
+  commissionId: {
+    type: String,
+    required: [true, 'Commission ID is required'],
+    ref: 'Commission'
+  },
+  marketerId: {
+    type: String,
+    required: [true, 'Marketer ID is required'],
+    ref: 'User'
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0.01, 'Amount must be greater than 0']
+  },
+  status: {
+    type: String,
+    enum: ['reserved', 'paid', 'released'],
+    default: 'reserved',
+    required: true
+  },
+  reservedAt: {
+    type: Date,
+    default: Date.now,
+    required: true
+  },
+  paidAt: {
+    type: Date
+  },
+  releasedAt: {
+    type: Date
+  },
+  releaseReason: {
+    type: String,
+    maxlength: [500, 'Release reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true,
+  collection: 'payout_allocations',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+payoutAllocationSchema.index({ payoutId: 1, status: 1 });
+payoutAllocationSchema.index({ commissionId: 1, status: 1 });
+payoutAllocationSchema.index({ marketerId: 1, status: 1 });
+
+export const PayoutAllocation = mongoose.model<IPayoutAllocation>('PayoutAllocation', payoutAllocationSchema);
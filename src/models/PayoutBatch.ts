@@ -0,0 +1,185 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type PayoutBatchFormat = 'nacha' | 'sepa';
+export type PayoutBatchStatus = 'generated' | 'submitted' | 'settled' | 'rejected' | 'cancelled';
+
+export interface IPayoutBatchEntry {
+  payoutId: string;
+  reference: string; // NACHA trace number or SEPA end-to-end ID, stored as the payout's transactionId
+  amount: number; // In the file currency
+  accountHolderName: string;
+}
+
+export interface IPayoutBatch extends Document {
+  _id: string;
+  batchNumber: string;
+  sequence: number;
+  format: PayoutBatchFormat;
+  status: PayoutBatchStatus;
+  entries: IPayoutBatchEntry[];
+  entryCount: number;
+  totalAmount: number; // Payout total in the base currency
+  fileAmount: number; // Total in the file currency
+  currency: 'USD' | 'EUR';
+  exchangeRate?: number; // File currency per unit of the base currency, when the payouts were converted
+  effectiveDate: Date; // Requested settlement or execution date
+  fileName: string;
+  fileContent: string;
+  checksum: string; // SHA-256 of fileContent
+  controlTotal: string; // NACHA entry hash or SEPA control sum
+  createdBy: string;
+  submittedAt?: Date;
+  submittedBy?: string;
+  settledAt?: Date;
+  settledBy?: string;
+  rejectedAt?: Date;
+  rejectedBy?: string;
+  rejectionReason?: string;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const payoutBatchEntrySchema = new Schema<IPayoutBatchEntry>({
+  payoutId: {
+    type: String,
+    ref: 'PayoutRequest',
+    required: true
+  },
+  reference: {
+    type: String,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  accountHolderName: {
+    type: String,
+    required: true
+  }
+}, { _id: false });
+
+const payoutBatchSchema = new Schema<IPayoutBatch>({
+  batchNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  format: {
+    type: String,
+    enum: ['nacha', 'sepa'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['generated', 'submitted', 'settled', 'rejected', 'cancelled'],
+    default: 'generated',
+    required: true
+  },
+  entries: {
+    type: [payoutBatchEntrySchema],
+    default: []
+  },
+  entryCount: {
+    type: Number,
+    required: true
+  },
+  totalAmount: {
+    type: Number,
+    required: true
+  },
+  fileAmount: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    enum: ['USD', 'EUR'],
+    required: true
+  },
+  exchangeRate: {
+    type: Number
+  },
+  effectiveDate: {
+    type: Date,
+    required: true
+  },
+  fileName: {
+    type: String,
+    required: true
+  },
+  fileContent: {
+    type: String,
+    required: true,
+    select: false // Contains account numbers; only loaded for download
+  },
+  checksum: {
+    type: String,
+    required: true
+  },
+  controlTotal: {
+    type: String,
+    required: true
+  },
+  createdBy: {
+    type: String,
+    ref: 'User',
+    required: true
+  },
+  submittedAt: {
+    type: Date
+  },
+  submittedBy: {
+    type: String,
+    ref: 'User'
+  },
+  settledAt: {
+    type: Date
+  },
+  settledBy: {
+    type: String,
+    ref: 'User'
+  },
+  rejectedAt: {
+    type: Date
+  },
+  rejectedBy: {
+    type: String,
+    ref: 'User'
+  },
+  rejectionReason: {
+    type: String,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+  },
+  cancelledAt: {
+    type: Date
+  },
+  cancelledBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'payout_batches',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      delete (ret as any).fileContent;
+      return ret;
+    }
+  }
+});
+
+payoutBatchSchema.index({ status: 1, createdAt: -1 });
+payoutBatchSchema.index({ 'entries.payoutId': 1 });
+
+export const PayoutBatch = mongoose.model<IPayoutBatch>('PayoutBatch', payoutBatchSchema);
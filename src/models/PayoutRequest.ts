@@ -1,25 +1,143 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES, getBaseCurrency } from '../utils/currency';
+
+export interface ICryptoPayoutDetails {
+  asset: 'bitcoin' | 'ethereum' | 'usdc' | 'usdt';
+  network: string;
+  walletAddress: string;
+  tokenAmount: string; // Decimal string in whole tokens, e.g. "0.00152300"
+  exchangeRate: number; // USD per token at the time of sending
+  rateSource: string;
+  provider: string;
+  txHash?: string;
+  confirmations: number;
+  requiredConfirmations: number;
+  confirmedAt?: Date;
+  lastCheckedAt?: Date;
+}
+
+export interface IFxConversion {
+  fromCurrency: string;
+  toCurrency: string; // Currency the payout was sent in
+  rate: number; // Units of toCurrency per unit of fromCurrency
+  rateSource: string;
+  amount: number; // Net amount sent, in toCurrency
+  quotedAt: Date;
+}
 
 export interface IPayoutRequest extends Document {
   _id: string;
   marketerId: string;
   paymentMethodId: string;
   amount: number;
+  currency: string; // Base currency the amount, fees and withholding are kept in
+  allocatedAmount?: number; // Commission total reserved for this payout; unset on payouts that predate allocations
   status: 'requested' | 'approved' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  source: 'manual' | 'automatic'; // Automatic payouts are created by the marketer's payout schedule
   requestedAt: Date;
   approvedAt?: Date;
   processedAt?: Date;
   completedAt?: Date;
   failureReason?: string;
   transactionId?: string; // From payment gateway
+  gateway?: 'paypal' | 'stripe' | 'bank_transfer' | 'crypto'; // Gateway the payout was sent through
+  settlementStatus?: 'pending' | 'settled' | 'returned' | 'failed'; // Confirmed by reconciliation
+  settledAt?: Date;
+  returnedAt?: Date;
+  cryptoDetails?: ICryptoPayoutDetails; // Set for wallet payouts
+  fxConversion?: IFxConversion; // Rate snapshot from the latest send
+  batchId?: string; // NACHA/SEPA batch for bank transfer payouts
   adminId?: string; // Who approved/processed
   notes?: string; // Admin notes
   processingFee?: number;
-  netAmount?: number; // Amount after fees
+  withholdingAmount?: number; // Tax withheld before sending; unset until withholding has been assessed
+  withholdingRate?: number;
+  withholdingRuleId?: string;
+  netAmount?: number; // Amount after fees and withholding
   createdAt: Date;
   updatedAt: Date;
 }
 
+const cryptoPayoutDetailsSchema = new Schema<ICryptoPayoutDetails>({
+  asset: {
+    type: String,
+    enum: ['bitcoin', 'ethereum', 'usdc', 'usdt'],
+    required: true
+  },
+  network: {
+    type: String,
+    required: true
+  },
+  walletAddress: {
+    type: String,
+    required: true
+  },
+  tokenAmount: {
+    type: String,
+    required: true
+  },
+  exchangeRate: {
+    type: Number,
+    required: true
+  },
+  rateSource: {
+    type: String,
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  txHash: {
+    type: String
+  },
+  confirmations: {
+    type: Number,
+    default: 0
+  },
+  requiredConfirmations: {
+    type: Number,
+    required: true
+  },
+  confirmedAt: {
+    type: Date
+  },
+  lastCheckedAt: {
+    type: Date
+  }
+}, { _id: false });
+
+const fxConversionSchema = new Schema<IFxConversion>({
+  fromCurrency: {
+    type: String,
+    enum: SUPPORTED_CURRENCIES,
+    required: true
+  },
+  toCurrency: {
+    type: String,
+    enum: SUPPORTED_CURRENCIES,
+    required: true
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: [0, 'Exchange rate cannot be negative']
+  },
+  rateSource: {
+    type: String,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, 'Converted amount cannot be negative']
+  },
+  quotedAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
 const payoutRequestSchema = new Schema<IPayoutRequest>({
   marketerId: {
     type: String,
@@ -37,12 +155,26 @@ const payoutRequestSchema = new Schema<IPayoutRequest>({
     required: [true, 'Amount is required'],
     min: [0.01, 'Amount must be greater than 0']
   },
+  currency: {
+    type: String,
+    enum: SUPPORTED_CURRENCIES,
+    default: getBaseCurrency
+  },
+  allocatedAmount: {
+    type: Number,
+    min: [0, 'Allocated amount cannot be negative']
+  },
   status: {
     type: String,
     enum: ['requested', 'approved', 'processing', 'completed', 'failed', 'cancelled'],
     default: 'requested',
     required: true
   },
+  source: {
+    type: String,
+    enum: ['manual', 'automatic'],
+    default: 'manual'
+  },
   requestedAt: {
     type: Date,
     default: Date.now,
@@ -65,6 +197,31 @@ const payoutRequestSchema = new Schema<IPayoutRequest>({
     type: String,
     index: true
   },
+  gateway: {
+    type: String,
+    enum: ['paypal', 'stripe', 'bank_transfer', 'crypto']
+  },
+  settlementStatus: {
+    type: String,
+    enum: ['pending', 'settled', 'returned', 'failed']
+  },
+  settledAt: {
+    type: Date
+  },
+  returnedAt: {
+    type: Date
+  },
+  cryptoDetails: {
+    type: cryptoPayoutDetailsSchema
+  },
+  fxConversion: {
+    type: fxConversionSchema
+  },
+  batchId: {
+    type: String,
+    ref: 'PayoutBatch',
+    index: true
+  },
   adminId: {
     type: String,
     ref: 'User'
@@ -78,6 +235,19 @@ const payoutRequestSchema = new Schema<IPayoutRequest>({
     min: [0, 'Processing fee cannot be negative'],
     default: 0
   },
+  withholdingAmount: {
+    type: Number,
+    min: [0, 'Withholding amount cannot be negative']
+  },
+  withholdingRate: {
+    type: Number,
+    min: [0, 'Withholding rate cannot be negative'],
+    max: [1, 'Withholding rate cannot exceed 100%']
+  },
+  withholdingRuleId: {
+    type: String,
+    ref: 'WithholdingRule'
+  },
   netAmount: {
     type: Number,
     min: [0, 'Net amount cannot be negative']
@@ -105,11 +275,12 @@ payoutRequestSchema.index({ adminId: 1 });
 payoutRequestSchema.index({ marketerId: 1, status: 1 });
 payoutRequestSchema.index({ status: 1, requestedAt: -1 });
 payoutRequestSchema.index({ marketerId: 1, requestedAt: -1 });
+payoutRequestSchema.index({ settlementStatus: 1, completedAt: 1 });
 
 // Pre-save middleware to calculate net amount
 payoutRequestSchema.pre('save', function(next) {
-  if (this.isModified('amount') || this.isModified('processingFee')) {
-    this.netAmount = this.amount - (this.processingFee || 0);
+  if (this.isModified('amount') || this.isModified('processingFee') || this.isModified('withholdingAmount')) {
+    this.netAmount = this.amount - (this.processingFee || 0) - (this.withholdingAmount || 0);
   }
   next();
 });
@@ -0,0 +1,139 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type PayoutCadence = 'weekly' | 'monthly';
+export type PayoutScheduleOutcome = 'created' | 'skipped' | 'failed';
+
+export interface IPayoutHold {
+  reason: string;
+  placedBy: string;
+  placedAt: Date;
+  until?: Date; // Open-ended when not set
+}
+
+export interface IPayoutScheduleRun {
+  runAt: Date;
+  outcome: PayoutScheduleOutcome;
+  reason?: string;
+  amount?: number;
+  payoutRequestId?: string;
+}
+
+export interface IPayoutSchedule extends Document {
+  _id: string;
+  marketerId: string;
+  paymentMethodId: string;
+  enabled: boolean;
+  cadence: PayoutCadence;
+  dayOfWeek?: number; // 0 (Sunday) to 6, for weekly schedules
+  dayOfMonth?: number; // 1 to 28, for monthly schedules
+  threshold: number; // Minimum available balance before a payout is created
+  nextRunAt?: Date; // Midnight UTC of the next scheduled day; unset while disabled
+  lastRun?: IPayoutScheduleRun;
+  hold?: IPayoutHold; // Admin hold that pauses automatic payouts
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const payoutHoldSchema = new Schema<IPayoutHold>({
+  reason: {
+    type: String,
+    required: true,
+    maxlength: [500, 'Hold reason cannot exceed 500 characters']
+  },
+  placedBy: {
+    type: String,
+    ref: 'User',
+    required: true
+  },
+  placedAt: {
+    type: Date,
+    required: true
+  },
+  until: {
+    type: Date
+  }
+}, { _id: false });
+
+const payoutScheduleRunSchema = new Schema<IPayoutScheduleRun>({
+  runAt: {
+    type: Date,
+    required: true
+  },
+  outcome: {
+    type: String,
+    enum: ['created', 'skipped', 'failed'],
+    required: true
+  },
+  reason: {
+    type: String
+  },
+  amount: {
+    type: Number
+  },
+  payoutRequestId: {
+    type: String,
+    ref: 'PayoutRequest'
+  }
+}, { _id: false });
+
+const payoutScheduleSchema = new Schema<IPayoutSchedule>({
+  marketerId: {
+    type: String,
+    required: [true, 'Marketer ID is required'],
+    ref: 'User',
+    unique: true
+  },
+  paymentMethodId: {
+    type: String,
+    required: [true, 'Payment method ID is required'],
+    ref: 'PaymentMethod'
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  cadence: {
+    type: String,
+    enum: ['weekly', 'monthly'],
+    required: true
+  },
+  dayOfWeek: {
+    type: Number,
+    min: 0,
+    max: 6
+  },
+  dayOfMonth: {
+    type: Number,
+    min: 1,
+    max: 28
+  },
+  threshold: {
+    type: Number,
+    required: [true, 'Threshold is required'],
+    min: [0.01, 'Threshold must be greater than 0']
+  },
+  nextRunAt: {
+    type: Date
+  },
+  lastRun: {
+    type: payoutScheduleRunSchema
+  },
+  hold: {
+    type: payoutHoldSchema
+  }
+}, {
+  timestamps: true,
+  collection: 'payout_schedules',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+payoutScheduleSchema.index({ enabled: 1, nextRunAt: 1 });
+
+export const PayoutSchedule = mongoose.model<IPayoutSchedule>('PayoutSchedule', payoutScheduleSchema);
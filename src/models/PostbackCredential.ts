@@ -0,0 +1,123 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+export interface IPostbackCredential extends Document {
+  _id: string;
+  name: string; // Advertiser or integration name
+  keyId: string; // Public identifier sent with every postback
+  encryptedSecret: string; // HMAC signing secret, encrypted at rest
+  productIds: string[]; // Products this credential may report conversions for
+  status: 'active' | 'revoked';
+  lastUsedAt?: Date;
+  createdBy: string;
+  revokedBy?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  setSecret(secret: string): void;
+  getSecret(): string;
+}
+
+const postbackCredentialSchema = new Schema<IPostbackCredential>({
+  name: {
+    type: String,
+    required: [true, 'Credential name is required'],
+    trim: true,
+    maxlength: [255, 'Credential name cannot exceed 255 characters']
+  },
+  keyId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  encryptedSecret: {
+    type: String,
+    required: true,
+    select: false
+  },
+  productIds: {
+    type: [{ type: String, ref: 'Product' }],
+    validate: {
+      validator: (productIds: string[]) => productIds.length > 0,
+      message: 'At least one product is required'
+    }
+  },
+  status: {
+    type: String,
+    enum: ['active', 'revoked'],
+    default: 'active',
+    required: true
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  createdBy: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  revokedBy: {
+    type: String,
+    ref: 'User'
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      delete (ret as any).encryptedSecret;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+postbackCredentialSchema.index({ status: 1 });
+postbackCredentialSchema.index({ productIds: 1 });
+
+// Encryption key from environment variable
+const ENCRYPTION_KEY = process.env.POSTBACK_ENCRYPTION_KEY || process.env.PAYMENT_ENCRYPTION_KEY || 'default-key-change-in-production-32-chars';
+
+const getKeyBuffer = (): Buffer => {
+  // Ensure key is exactly 32 bytes for AES-256
+  const keyBuffer = Buffer.alloc(32);
+  const sourceKey = Buffer.from(ENCRYPTION_KEY, 'utf8');
+  sourceKey.copy(keyBuffer, 0, 0, Math.min(sourceKey.length, 32));
+  return keyBuffer;
+};
+
+// Method to encrypt and store the signing secret
+postbackCredentialSchema.methods.setSecret = function(secret: string): void {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', getKeyBuffer(), iv);
+
+  let encrypted = cipher.update(secret, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  // Store IV + encrypted data
+  this.encryptedSecret = iv.toString('hex') + ':' + encrypted;
+};
+
+// Method to decrypt the signing secret (requires encryptedSecret to be selected)
+postbackCredentialSchema.methods.getSecret = function(): string {
+  const parts = (this.encryptedSecret || '').split(':');
+  if (parts.length !== 2) {
+    throw new Error('Invalid encrypted secret format');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-cbc', getKeyBuffer(), Buffer.from(parts[0], 'hex'));
+
+  let decrypted = decipher.update(parts[1], 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+};
+
+export const PostbackCredential = mongoose.model<IPostbackCredential>('PostbackCredential', postbackCredentialSchema);
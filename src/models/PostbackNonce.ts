@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// How long a used nonce is remembered; bounds the accepted postback timestamp tolerance
+export const POSTBACK_NONCE_TTL_SECONDS = 24 * 60 * 60;
+
+export interface IPostbackNonce extends Document {
+  _id: string;
+  keyId: string;
+  nonce: string;
+  createdAt: Date;
+}
+
+const postbackNonceSchema = new Schema<IPostbackNonce>({
+  keyId: {
+    type: String,
+    required: true
+  },
+  nonce: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'postback_nonces'
+});
+
+// A nonce may only be used once per credential
+postbackNonceSchema.index({ keyId: 1, nonce: 1 }, { unique: true });
+
+// Nonces only need to outlive the accepted timestamp skew; keep them for a day
+postbackNonceSchema.index({ createdAt: 1 }, { expireAfterSeconds: POSTBACK_NONCE_TTL_SECONDS });
+
+export const PostbackNonce = mongoose.model<IPostbackNonce>('PostbackNonce', postbackNonceSchema);
@@ -1,10 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from '../utils/currency';
+
+export interface IRecurringCommissionSettings {
+  enabled: boolean;
+  rate?: number; // Share of each follow-on customer transaction paid as commission (0-1)
+  durationMonths?: number; // Months after the original conversion that transactions earn commission; unset = no limit
+  lifetimeCap?: number; // Maximum total recurring commission per customer; unset = no cap
+}
 
 export interface IProduct extends Document {
   _id: string;
   name: string;
   description: string;
   category: string;
+  currency: string; // Customer spend and commissions for the product are in this currency
   commissionType: 'percentage' | 'flat';
   commissionRate?: number; // For percentage-based commissions (e.g., 0.05 for 5%)
   commissionFlatAmount?: number; // For flat-rate commissions
@@ -13,6 +22,11 @@ export interface IProduct extends Document {
   landingPageUrl: string;
   tags: string[];
   onboardingType: 'simple' | 'complex'; // Simple: basic info only, Complex: full KYC
+  attributionModel: 'last_click' | 'first_click' | 'linear' | 'time_decay' | 'position_based';
+  attributionWindowDays: number; // How far back clicks are considered for attribution
+  cookieDurationDays: number; // Lifetime of the affiliate tracking cookies set on click
+  attributionPriority: Array<'portal' | 'cookie' | 's2s'>; // Attribution methods in the order they are tried
+  recurringCommission: IRecurringCommissionSettings;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,6 +50,16 @@ const productSchema = new Schema<IProduct>({
     trim: true,
     maxlength: [100, 'Category cannot exceed 100 characters']
   },
+  currency: {
+    type: String,
+    enum: {
+      values: SUPPORTED_CURRENCIES,
+      message: 'Currency {VALUE} is not supported'
+    },
+    default: DEFAULT_CURRENCY,
+    uppercase: true,
+    trim: true
+  },
   commissionType: {
     type: String,
     enum: ['percentage', 'flat'],
@@ -94,6 +118,54 @@ const productSchema = new Schema<IProduct>({
     enum: ['simple', 'complex'],
     default: 'simple',
     required: true
+  },
+  attributionModel: {
+    type: String,
+    enum: ['last_click', 'first_click', 'linear', 'time_decay', 'position_based'],
+    default: 'last_click',
+    required: true
+  },
+  attributionWindowDays: {
+    type: Number,
+    default: 30,
+    min: [1, 'Attribution window must be at least 1 day'],
+    max: [90, 'Attribution window cannot exceed 90 days']
+  },
+  cookieDurationDays: {
+    type: Number,
+    default: 30,
+    min: [1, 'Cookie duration must be at least 1 day'],
+    max: [90, 'Cookie duration cannot exceed 90 days']
+  },
+  attributionPriority: {
+    type: [String],
+    enum: ['portal', 'cookie', 's2s'],
+    default: ['portal', 's2s', 'cookie'],
+    validate: {
+      validator: function(methods: string[]) {
+        return methods.length > 0 && new Set(methods).size === methods.length;
+      },
+      message: 'Attribution priority must list each method at most once'
+    }
+  },
+  recurringCommission: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    rate: {
+      type: Number,
+      min: [0, 'Recurring commission rate cannot be negative'],
+      max: [1, 'Recurring commission rate cannot exceed 100%']
+    },
+    durationMonths: {
+      type: Number,
+      min: [1, 'Recurring commission duration must be at least 1 month']
+    },
+    lifetimeCap: {
+      type: Number,
+      min: [0, 'Recurring commission cap cannot be negative']
+    }
   }
 }, {
   timestamps: true,
@@ -126,6 +198,10 @@ productSchema.pre('save', function(next) {
   if (this.commissionType === 'flat' && (this.commissionFlatAmount === undefined || this.commissionFlatAmount === null)) {
     return next(new Error('Commission flat amount is required for flat-rate commissions'));
   }
+
+  if (this.recurringCommission?.enabled && (this.recurringCommission.rate === undefined || this.recurringCommission.rate === null)) {
+    return next(new Error('Recurring commission rate is required when recurring commissions are enabled'));
+  }
   
   next();
 });
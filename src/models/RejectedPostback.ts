@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRejectedPostback extends Document {
+  _id: string;
+  keyId?: string;
+  reason: string;
+  endpoint: string;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp?: string; // Timestamp header as received
+  nonce?: string;
+  idempotencyKey?: string;
+  payload?: any;
+  reviewed: boolean;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const rejectedPostbackSchema = new Schema<IRejectedPostback>({
+  keyId: {
+    type: String
+  },
+  reason: {
+    type: String,
+    required: true
+  },
+  endpoint: {
+    type: String,
+    required: true
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String
+  },
+  timestamp: {
+    type: String
+  },
+  nonce: {
+    type: String
+  },
+  idempotencyKey: {
+    type: String
+  },
+  payload: {
+    type: Schema.Types.Mixed
+  },
+  reviewed: {
+    type: Boolean,
+    default: false
+  },
+  reviewedBy: {
+    type: String,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'rejected_postbacks',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for review queries
+rejectedPostbackSchema.index({ createdAt: -1 });
+rejectedPostbackSchema.index({ keyId: 1, createdAt: -1 });
+rejectedPostbackSchema.index({ reviewed: 1, createdAt: -1 });
+
+// TTL index for automatic cleanup (90 days)
+rejectedPostbackSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const RejectedPostback = mongoose.model<IRejectedPostback>('RejectedPostback', rejectedPostbackSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRetentionPolicy extends Document {
+  _id: string;
+  name: string; // Overrides the built-in policy with the same name, if any
+  description: string;
+  retentionPeriodDays: number;
+  dataTypes: string[];
+  anonymizeAfterDays?: number;
+  deleteAfterDays?: number;
+  preserveFields: string[]; // Fields left untouched when records are anonymized
+  isActive: boolean;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const retentionPolicySchema = new Schema<IRetentionPolicy>({
+  name: {
+    type: String,
+    required: [true, 'Policy name is required'],
+    unique: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    required: [true, 'Policy description is required'],
+    trim: true
+  },
+  retentionPeriodDays: {
+    type: Number,
+    required: true,
+    min: [1, 'Retention period must be a positive number']
+  },
+  dataTypes: {
+    type: [String],
+    required: true
+  },
+  anonymizeAfterDays: {
+    type: Number,
+    min: [1, 'Anonymization period must be a positive number']
+  },
+  deleteAfterDays: {
+    type: Number,
+    min: [1, 'Deletion period must be a positive number']
+  },
+  preserveFields: {
+    type: [String],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  updatedBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'retention_policies',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+export const RetentionPolicy = mongoose.model<IRetentionPolicy>('RetentionPolicy', retentionPolicySchema);
@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IScheduledJob extends Document {
+  _id: string;
+  name: string; // Matches the handler registered with the scheduler
+  description?: string;
+  cronExpression: string; // Five-field cron expression, evaluated in UTC
+  status: 'active' | 'paused';
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastRunStatus?: 'succeeded' | 'failed';
+  lastRunDurationMs?: number;
+  lastError?: string;
+  lockTimeoutSeconds: number; // A lock older than this is assumed to belong to a crashed instance
+  lockedBy?: string; // Instance currently running the job
+  lockedUntil?: Date;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledJobSchema = new Schema<IScheduledJob>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  cronExpression: {
+    type: String,
+    required: [true, 'Cron expression is required'],
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'paused'],
+    default: 'active',
+    required: true
+  },
+  nextRunAt: {
+    type: Date
+  },
+  lastRunAt: {
+    type: Date
+  },
+  lastRunStatus: {
+    type: String,
+    enum: ['succeeded', 'failed']
+  },
+  lastRunDurationMs: {
+    type: Number
+  },
+  lastError: {
+    type: String
+  },
+  lockTimeoutSeconds: {
+    type: Number,
+    default: 30 * 60,
+    min: [1, 'Lock timeout must be positive']
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  updatedBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'scheduled_jobs',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Index for finding due jobs
+scheduledJobSchema.index({ status: 1, nextRunAt: 1 });
+
+export const ScheduledJob = mongoose.model<IScheduledJob>('ScheduledJob', scheduledJobSchema);
@@ -0,0 +1,125 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ReportType = 'platform_performance' | 'financial' | 'compliance';
+export type ReportSchedule = 'daily' | 'weekly' | 'monthly';
+export type ReportFormat = 'json' | 'csv' | 'xlsx';
+
+export const REPORT_TYPES: ReportType[] = ['platform_performance', 'financial', 'compliance'];
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'xlsx'];
+
+export interface IScheduledReport extends Document {
+  _id: string;
+  name: string;
+  reportType: ReportType;
+  schedule: ReportSchedule;
+  hourUtc: number; // Hour of day the report is generated
+  dayOfWeek: number; // Weekly reports only, 0 = Sunday
+  dayOfMonth: number; // Monthly reports only; capped at 28 so every month has a run
+  format: ReportFormat;
+  recipients: string[];
+  isActive: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastRunStatus?: 'completed' | 'failed';
+  lastError?: string;
+  createdBy: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledReportSchema = new Schema<IScheduledReport>({
+  name: {
+    type: String,
+    required: [true, 'Report name is required'],
+    trim: true,
+    maxlength: [100, 'Report name cannot exceed 100 characters']
+  },
+  reportType: {
+    type: String,
+    enum: REPORT_TYPES,
+    required: true
+  },
+  schedule: {
+    type: String,
+    enum: ['daily', 'weekly', 'monthly'],
+    required: true
+  },
+  hourUtc: {
+    type: Number,
+    min: 0,
+    max: 23,
+    default: 6
+  },
+  dayOfWeek: {
+    type: Number,
+    min: 0,
+    max: 6,
+    default: 1
+  },
+  dayOfMonth: {
+    type: Number,
+    min: 1,
+    max: 28,
+    default: 1
+  },
+  format: {
+    type: String,
+    enum: REPORT_FORMATS,
+    default: 'csv'
+  },
+  recipients: {
+    type: [{
+      type: String,
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email']
+    }],
+    validate: {
+      validator: (recipients: string[]) => recipients.length > 0,
+      message: 'At least one recipient is required'
+    }
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  nextRunAt: {
+    type: Date
+  },
+  lastRunAt: {
+    type: Date
+  },
+  lastRunStatus: {
+    type: String,
+    enum: ['completed', 'failed']
+  },
+  lastError: {
+    type: String
+  },
+  createdBy: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'scheduled_reports',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Index for finding due reports
+scheduledReportSchema.index({ isActive: 1, nextRunAt: 1 });
+
+export const ScheduledReport = mongoose.model<IScheduledReport>('ScheduledReport', scheduledReportSchema);
@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const SESSION_REVOCATION_REASONS = [
+  'logout',
+  'user_revoked',
+  'admin_revoked',
+  'password_reset',
+  'account_deactivated',
+  'token_reuse'
+] as const;
+
+export type SessionRevocationReason = typeof SESSION_REVOCATION_REASONS[number];
+
+// Authentication assurance, lowest first: the login itself, then a fresh TOTP or backup code, then a fresh WebAuthn assertion
+export const ASSURANCE_LEVELS = ['password', 'mfa', 'phishing_resistant'] as const;
+
+export type AssuranceLevel = typeof ASSURANCE_LEVELS[number];
+
+/**
+ * One signed-in device. Every refresh token issued to the device belongs to the session, so the
+ * session is the refresh token family: revoking it invalidates the current refresh token and the
+ * access tokens issued with it.
+ */
+export interface ISession extends Document {
+  _id: string;
+  userId: string;
+  tokenId: string; // ID (jti) of the only refresh token that may still be exchanged
+  rotatedTokenIds: string[]; // Refresh tokens already exchanged; presenting one again is reuse
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: Date;
+  expiresAt: Date; // Expiry of the current refresh token
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  revokedBy?: string; // Admin who forced the logout
+  elevatedAssurance?: AssuranceLevel; // Granted by the last step-up verification, until elevatedUntil
+  elevatedFactor?: string;
+  elevatedAt?: Date;
+  elevatedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  tokenId: {
+    type: String,
+    required: true,
+    select: false
+  },
+  rotatedTokenIds: {
+    type: [String],
+    default: [],
+    select: false
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: 512
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedReason: {
+    type: String,
+    enum: SESSION_REVOCATION_REASONS
+  },
+  revokedBy: {
+    type: String,
+    ref: 'User'
+  },
+  elevatedAssurance: {
+    type: String,
+    enum: ASSURANCE_LEVELS
+  },
+  elevatedFactor: {
+    type: String
+  },
+  elevatedAt: {
+    type: Date
+  },
+  elevatedUntil: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'sessions',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      delete (ret as any).tokenId;
+      delete (ret as any).rotatedTokenIds;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+sessionSchema.index({ userId: 1, revokedAt: 1, lastSeenAt: -1 });
+
+// Sessions are useless once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,135 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SettlementSource = 'paypal' | 'stripe' | 'bank_statement';
+export type SettlementStatus = 'pending' | 'settled' | 'returned' | 'failed';
+export type DiscrepancyType = 'amount_mismatch' | 'status_mismatch' | 'unmatched_transaction';
+
+export interface ISettlementDiscrepancy {
+  type: DiscrepancyType;
+  message: string;
+  expected?: any;
+  actual?: any;
+}
+
+export interface ISettlementRecord extends Document {
+  _id: string;
+  source: SettlementSource;
+  externalId: string; // Gateway item/transfer ID, or a fingerprint of the statement line
+  transactionId?: string; // Matched against PayoutRequest.transactionId
+  payoutId?: string;
+  gatewayStatus: string; // Status as reported by the gateway or bank
+  settlementStatus: SettlementStatus;
+  amount: number;
+  currency: string;
+  occurredAt?: Date;
+  matchStatus: 'matched' | 'unmatched' | 'discrepancy';
+  discrepancies: ISettlementDiscrepancy[];
+  importReference?: string; // Batch ID or statement file name
+  importedBy?: string;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  resolutionNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const settlementDiscrepancySchema = new Schema<ISettlementDiscrepancy>({
+  type: {
+    type: String,
+    enum: ['amount_mismatch', 'status_mismatch', 'unmatched_transaction'],
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  expected: Schema.Types.Mixed,
+  actual: Schema.Types.Mixed
+}, { _id: false });
+
+const settlementRecordSchema = new Schema<ISettlementRecord>({
+  source: {
+    type: String,
+    enum: ['paypal', 'stripe', 'bank_statement'],
+    required: true
+  },
+  externalId: {
+    type: String,
+    required: true
+  },
+  transactionId: {
+    type: String,
+    index: true
+  },
+  payoutId: {
+    type: String,
+    ref: 'PayoutRequest',
+    index: true
+  },
+  gatewayStatus: {
+    type: String,
+    required: true
+  },
+  settlementStatus: {
+    type: String,
+    enum: ['pending', 'settled', 'returned', 'failed'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    uppercase: true,
+    default: 'USD'
+  },
+  occurredAt: {
+    type: Date
+  },
+  matchStatus: {
+    type: String,
+    enum: ['matched', 'unmatched', 'discrepancy'],
+    required: true
+  },
+  discrepancies: {
+    type: [settlementDiscrepancySchema],
+    default: []
+  },
+  importReference: {
+    type: String
+  },
+  importedBy: {
+    type: String,
+    ref: 'User'
+  },
+  resolvedAt: {
+    type: Date
+  },
+  resolvedBy: {
+    type: String,
+    ref: 'User'
+  },
+  resolutionNote: {
+    type: String,
+    maxlength: [1000, 'Resolution note cannot exceed 1000 characters']
+  }
+}, {
+  timestamps: true,
+  collection: 'settlement_records',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Re-importing the same report updates records instead of duplicating them
+settlementRecordSchema.index({ source: 1, externalId: 1 }, { unique: true });
+// Index for the discrepancy report
+settlementRecordSchema.index({ matchStatus: 1, resolvedAt: 1, createdAt: -1 });
+
+export const SettlementRecord = mongoose.model<ISettlementRecord>('SettlementRecord', settlementRecordSchema);
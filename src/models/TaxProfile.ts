@@ -0,0 +1,206 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+export type TaxFormType = 'W-9' | 'W-8BEN' | 'W-8BEN-E';
+
+export const DOMESTIC_TAX_CLASSIFICATIONS = [
+  'individual',
+  'sole_proprietor',
+  'single_member_llc',
+  'c_corporation',
+  's_corporation',
+  'partnership',
+  'trust_estate',
+  'llc'
+] as const;
+
+export const FOREIGN_TAX_CLASSIFICATIONS = ['foreign_individual', 'foreign_entity'] as const;
+
+export type TaxClassification =
+  | typeof DOMESTIC_TAX_CLASSIFICATIONS[number]
+  | typeof FOREIGN_TAX_CLASSIFICATIONS[number];
+
+export interface ITaxProfile extends Document {
+  _id: string;
+  userId: string;
+  formType: TaxFormType; // W-9 for US persons, W-8BEN/W-8BEN-E for foreign individuals/entities
+  legalName: string;
+  businessName?: string;
+  taxClassification: TaxClassification;
+  country: string; // ISO 3166-1 alpha-2 country of tax residence
+  address: {
+    line1: string;
+    line2?: string;
+    city: string;
+    state?: string;
+    postalCode: string;
+    country: string;
+  };
+  encryptedTaxId: string; // SSN/EIN or foreign TIN, encrypted at rest
+  taxIdLast4: string;
+  treatyCountry?: string; // W-8 forms claiming treaty benefits
+  treatyRate?: number; // Reduced withholding rate claimed under the treaty (0-1)
+  backupWithholding: boolean; // Set by an admin when the IRS requires backup withholding
+  certifiedName: string; // Name typed as the signature under penalties of perjury
+  certifiedAt: Date;
+  status: 'submitted' | 'verified' | 'rejected';
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  setTaxId(taxId: string): void;
+  getTaxId(): string;
+}
+
+const taxProfileSchema = new Schema<ITaxProfile>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    ref: 'User',
+    unique: true
+  },
+  formType: {
+    type: String,
+    enum: ['W-9', 'W-8BEN', 'W-8BEN-E'],
+    required: [true, 'Tax form type is required']
+  },
+  legalName: {
+    type: String,
+    required: [true, 'Legal name is required'],
+    trim: true,
+    maxlength: [200, 'Legal name cannot exceed 200 characters']
+  },
+  businessName: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Business name cannot exceed 200 characters']
+  },
+  taxClassification: {
+    type: String,
+    enum: [...DOMESTIC_TAX_CLASSIFICATIONS, ...FOREIGN_TAX_CLASSIFICATIONS],
+    required: [true, 'Tax classification is required']
+  },
+  country: {
+    type: String,
+    required: [true, 'Country is required'],
+    uppercase: true,
+    match: [/^[A-Z]{2}$/, 'Country must be an ISO 3166-1 alpha-2 code']
+  },
+  address: {
+    line1: { type: String, required: true, trim: true },
+    line2: { type: String, trim: true },
+    city: { type: String, required: true, trim: true },
+    state: { type: String, trim: true },
+    postalCode: { type: String, required: true, trim: true },
+    country: { type: String, required: true, uppercase: true }
+  },
+  encryptedTaxId: {
+    type: String,
+    required: true,
+    select: false
+  },
+  taxIdLast4: {
+    type: String,
+    required: true
+  },
+  treatyCountry: {
+    type: String,
+    uppercase: true,
+    match: [/^[A-Z]{2}$/, 'Treaty country must be an ISO 3166-1 alpha-2 code']
+  },
+  treatyRate: {
+    type: Number,
+    min: [0, 'Treaty rate cannot be negative'],
+    max: [1, 'Treaty rate cannot exceed 100%']
+  },
+  backupWithholding: {
+    type: Boolean,
+    default: false
+  },
+  certifiedName: {
+    type: String,
+    required: [true, 'Certification signature is required'],
+    trim: true
+  },
+  certifiedAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['submitted', 'verified', 'rejected'],
+    default: 'submitted',
+    required: true
+  },
+  reviewedBy: {
+    type: String,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  rejectionReason: {
+    type: String,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true,
+  collection: 'tax_profiles',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      delete (ret as any).encryptedTaxId;
+      return ret;
+    }
+  }
+});
+
+taxProfileSchema.index({ status: 1, updatedAt: -1 });
+taxProfileSchema.index({ formType: 1, country: 1 });
+
+// Encryption key from environment variable
+const ENCRYPTION_KEY = process.env.TAX_ENCRYPTION_KEY || process.env.PAYMENT_ENCRYPTION_KEY || 'default-key-change-in-production-32-chars';
+
+const getKeyBuffer = (): Buffer => {
+  // Ensure key is exactly 32 bytes for AES-256
+  const keyBuffer = Buffer.alloc(32);
+  const sourceKey = Buffer.from(ENCRYPTION_KEY, 'utf8');
+  sourceKey.copy(keyBuffer, 0, 0, Math.min(sourceKey.length, 32));
+  return keyBuffer;
+};
+
+// Method to encrypt and store the taxpayer identification number
+taxProfileSchema.methods.setTaxId = function(taxId: string): void {
+  const normalized = taxId.replace(/[\s-]/g, '');
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', getKeyBuffer(), iv);
+
+  let encrypted = cipher.update(normalized, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  // Store IV + encrypted data
+  this.encryptedTaxId = iv.toString('hex') + ':' + encrypted;
+  this.taxIdLast4 = normalized.slice(-4);
+};
+
+// Method to decrypt the taxpayer identification number (requires encryptedTaxId to be selected)
+taxProfileSchema.methods.getTaxId = function(): string {
+  const parts = (this.encryptedTaxId || '').split(':');
+  if (parts.length !== 2) {
+    throw new Error('Invalid encrypted tax ID format');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-cbc', getKeyBuffer(), Buffer.from(parts[0], 'hex'));
+
+  let decrypted = decipher.update(parts[1], 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+};
+
+export const TaxProfile = mongoose.model<ITaxProfile>('TaxProfile', taxProfileSchema);
@@ -0,0 +1,109 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITaxYearSummary extends Document {
+  _id: string;
+  marketerId: string;
+  taxYear: number;
+  formType: '1099-NEC' | '1042-S'; // 1042-S for marketers who certified foreign status on a W-8
+  grossPaid: number; // Commissions paid out during the calendar year, before fees and withholding
+  taxWithheld: number;
+  payoutCount: number;
+  reportable: boolean; // Gross paid meets the reporting threshold in force when generated
+  recipient: {
+    legalName?: string;
+    businessName?: string;
+    taxClassification?: string;
+    taxIdLast4?: string;
+    country?: string;
+    address?: {
+      line1: string;
+      line2?: string;
+      city: string;
+      state?: string;
+      postalCode: string;
+      country: string;
+    };
+  };
+  hasTaxProfile: boolean;
+  generatedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const taxYearSummarySchema = new Schema<ITaxYearSummary>({
+  marketerId: {
+    type: String,
+    required: [true, 'Marketer ID is required'],
+    ref: 'User'
+  },
+  taxYear: {
+    type: Number,
+    required: [true, 'Tax year is required'],
+    min: 2000
+  },
+  formType: {
+    type: String,
+    enum: ['1099-NEC', '1042-S'],
+    required: true
+  },
+  grossPaid: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  taxWithheld: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  payoutCount: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  reportable: {
+    type: Boolean,
+    required: true,
+    default: false
+  },
+  recipient: {
+    legalName: String,
+    businessName: String,
+    taxClassification: String,
+    taxIdLast4: String,
+    country: String,
+    address: {
+      line1: String,
+      line2: String,
+      city: String,
+      state: String,
+      postalCode: String,
+      country: String
+    }
+  },
+  hasTaxProfile: {
+    type: Boolean,
+    required: true,
+    default: false
+  },
+  generatedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'tax_year_summaries',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+taxYearSummarySchema.index({ marketerId: 1, taxYear: 1 }, { unique: true });
+taxYearSummarySchema.index({ taxYear: 1, reportable: 1, grossPaid: -1 });
+
+export const TaxYearSummary = mongoose.model<ITaxYearSummary>('TaxYearSummary', taxYearSummarySchema);
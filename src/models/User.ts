@@ -1,6 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+// Back-office roles an admin account can hold; see services/rbac for the permissions each grants
+export const ADMIN_ROLES = ['super_admin', 'finance', 'compliance', 'support', 'product_manager'] as const;
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+
 export interface IUser extends Document {
   _id: string;
   email: string;
@@ -8,6 +13,7 @@ export interface IUser extends Document {
   firstName: string;
   lastName: string;
   role: 'marketer' | 'admin';
+  adminRoles: AdminRole[]; // Admins with none assigned have no admin permissions
   status: 'pending' | 'active' | 'suspended' | 'revoked';
   emailVerified: boolean;
   emailVerificationToken?: string;
@@ -15,17 +21,25 @@ export interface IUser extends Document {
   passwordResetToken?: string;
   passwordResetExpires?: Date;
   lastLogin?: Date;
+  // Login protection
+  failedLoginAttempts: number; // Consecutive failed passwords since the last success or lockout
+  lastFailedLoginAt?: Date;
+  lockedUntil?: Date;
+  lockoutCount: number; // Lockouts since the last successful login; each one lasts longer
   // MFA fields
-  mfaEnabled: boolean;
+  mfaEnabled: boolean; // TOTP or at least one WebAuthn authenticator is active
   mfaSecret?: string;
   mfaBackupCodes?: string[];
-  mfaSetupCompleted: boolean;
+  mfaSetupCompleted: boolean; // TOTP setup was verified
   // KYC fields
   kycRequired: boolean;
   kycCompleted: boolean;
   kycSkipped: boolean;
   // Alpha stage tracking
   createdInAlphaStage: boolean;
+  // Sub-affiliate network
+  recruitedBy?: string; // Marketer whose recruitment link this user signed up through
+  recruitmentCode?: string; // Code embedded in this marketer's own recruitment link
   createdAt: Date;
   updatedAt: Date;
   
@@ -64,6 +78,11 @@ const userSchema = new Schema<IUser>({
     default: 'marketer',
     required: true
   },
+  adminRoles: {
+    type: [String],
+    enum: ADMIN_ROLES,
+    default: []
+  },
   status: {
     type: String,
     enum: ['pending', 'active', 'suspended', 'revoked'],
@@ -93,6 +112,21 @@ const userSchema = new Schema<IUser>({
   lastLogin: {
     type: Date
   },
+  // Login protection
+  failedLoginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lastFailedLoginAt: {
+    type: Date
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lockoutCount: {
+    type: Number,
+    default: 0
+  },
   // MFA fields
   mfaEnabled: {
     type: Boolean,
@@ -127,6 +161,17 @@ const userSchema = new Schema<IUser>({
   createdInAlphaStage: {
     type: Boolean,
     default: false
+  },
+  // Sub-affiliate network
+  recruitedBy: {
+    type: String,
+    ref: 'User',
+    default: null
+  },
+  recruitmentCode: {
+    type: String,
+    unique: true,
+    sparse: true
   }
 }, {
   timestamps: true,
@@ -190,5 +235,6 @@ userSchema.methods.generatePasswordResetToken = function(): string {
 // Index for performance (email already has unique index)
 userSchema.index({ emailVerificationToken: 1 });
 userSchema.index({ passwordResetToken: 1 });
+userSchema.index({ recruitedBy: 1 });
 
 export const User = mongoose.model<IUser>('User', userSchema);
\ No newline at end of file
@@ -41,7 +41,7 @@ export interface IUserProfile extends Document {
   complianceQuizScore?: number;
   complianceQuizCompletedAt?: Date;
   complianceQuizPassed: boolean;
-  taxId?: string; // Encrypted
+  taxId?: string; // Encrypted; tax reporting and withholding use TaxProfile
   bankAccountInfo?: {
     accountNumber: string; // Encrypted
     routingNumber: string; // Encrypted
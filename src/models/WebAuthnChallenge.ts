@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWebAuthnChallenge extends Document {
+  _id: string;
+  userId: string;
+  challenge: string; // base64url random bytes the authenticator must sign
+  type: 'registration' | 'authentication';
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const webAuthnChallengeSchema = new Schema<IWebAuthnChallenge>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  challenge: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  type: {
+    type: String,
+    enum: ['registration', 'authentication'],
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'webauthn_challenges'
+});
+
+// Challenges are single use and only valid until the ceremony times out
+webAuthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const WebAuthnChallenge = mongoose.model<IWebAuthnChallenge>('WebAuthnChallenge', webAuthnChallengeSchema);
@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// COSE algorithm identifiers accepted for credential public keys
+export const WEBAUTHN_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257
+} as const;
+
+export interface IWebAuthnCredential extends Document {
+  _id: string;
+  userId: string;
+  name: string; // User-chosen label, e.g. "YubiKey 5C" or "MacBook Touch ID"
+  credentialId: string; // base64url credential ID chosen by the authenticator
+  publicKey: string; // base64url DER SubjectPublicKeyInfo
+  algorithm: number; // COSE algorithm identifier
+  signCount: number; // Last signature counter seen; 0 for authenticators that do not keep one
+  transports: string[];
+  aaguid?: string; // Authenticator model identifier
+  backedUp: boolean; // Synced passkey rather than a device-bound key
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webAuthnCredentialSchema = new Schema<IWebAuthnCredential>({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  name: {
+    type: String,
+    required: [true, 'Authenticator name is required'],
+    trim: true,
+    maxlength: [100, 'Authenticator name cannot exceed 100 characters']
+  },
+  credentialId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  publicKey: {
+    type: String,
+    required: true
+  },
+  algorithm: {
+    type: Number,
+    enum: Object.values(WEBAUTHN_ALGORITHMS),
+    required: true
+  },
+  signCount: {
+    type: Number,
+    default: 0
+  },
+  transports: {
+    type: [String],
+    default: []
+  },
+  aaguid: {
+    type: String
+  },
+  backedUp: {
+    type: Boolean,
+    default: false
+  },
+  lastUsedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'webauthn_credentials',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      delete (ret as any).publicKey;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+webAuthnCredentialSchema.index({ userId: 1 });
+
+export const WebAuthnCredential = mongoose.model<IWebAuthnCredential>('WebAuthnCredential', webAuthnCredentialSchema);
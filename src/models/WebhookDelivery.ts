@@ -0,0 +1,120 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { WEBHOOK_EVENTS, WebhookEvent } from './WebhookEndpoint';
+
+export interface IWebhookDeliveryAttempt {
+  attemptedAt: Date;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface IWebhookDelivery extends Document {
+  _id: string;
+  endpointId: string;
+  ownerId: string; // Copied from the endpoint so owners can list their deliveries
+  eventId: string; // Shared by every delivery of the same event
+  event: WebhookEvent;
+  payload: any;
+  status: 'pending' | 'succeeded' | 'failed';
+  attemptCount: number;
+  nextAttemptAt?: Date;
+  lastResponseStatus?: number;
+  lastError?: string;
+  attempts: IWebhookDeliveryAttempt[];
+  redeliveryOf?: string; // Delivery this one manually redelivers
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliveryAttemptSchema = new Schema<IWebhookDeliveryAttempt>({
+  attemptedAt: {
+    type: Date,
+    required: true
+  },
+  responseStatus: {
+    type: Number
+  },
+  error: {
+    type: String
+  },
+  durationMs: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+  endpointId: {
+    type: String,
+    required: true,
+    ref: 'WebhookEndpoint'
+  },
+  ownerId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  eventId: {
+    type: String,
+    required: true
+  },
+  event: {
+    type: String,
+    enum: WEBHOOK_EVENTS,
+    required: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'succeeded', 'failed'],
+    default: 'pending',
+    required: true
+  },
+  attemptCount: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date
+  },
+  lastResponseStatus: {
+    type: Number
+  },
+  lastError: {
+    type: String
+  },
+  attempts: {
+    type: [webhookDeliveryAttemptSchema],
+    default: []
+  },
+  redeliveryOf: {
+    type: String,
+    ref: 'WebhookDelivery'
+  },
+  deliveredAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'webhook_deliveries',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for the retry worker and delivery log
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ ownerId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ eventId: 1 });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+export const WEBHOOK_EVENTS = [
+  'conversion.created',
+  'commission.approved',
+  'commission.clawed_back',
+  'payout.completed',
+  'payout.returned',
+  'customer.status_changed'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface IWebhookEndpoint extends Document {
+  _id: string;
+  ownerId: string; // Marketer or admin who registered the endpoint
+  ownerRole: 'marketer' | 'admin'; // Admin endpoints receive every event; marketer endpoints only their own
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  encryptedSecret: string; // HMAC signing secret, encrypted at rest
+  status: 'active' | 'disabled';
+  lastDeliveryAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  setSecret(secret: string): void;
+  getSecret(): string;
+}
+
+const webhookEndpointSchema = new Schema<IWebhookEndpoint>({
+  ownerId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  ownerRole: {
+    type: String,
+    enum: ['marketer', 'admin'],
+    required: true
+  },
+  url: {
+    type: String,
+    required: [true, 'Webhook URL is required'],
+    trim: true,
+    match: [/^https?:\/\/.+/, 'Webhook URL must be an HTTP(S) URL']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  events: {
+    type: [{ type: String, enum: WEBHOOK_EVENTS }],
+    validate: {
+      validator: (events: string[]) => events.length > 0,
+      message: 'At least one event is required'
+    }
+  },
+  encryptedSecret: {
+    type: String,
+    required: true,
+    select: false
+  },
+  status: {
+    type: String,
+    enum: ['active', 'disabled'],
+    default: 'active',
+    required: true
+  },
+  lastDeliveryAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      delete (ret as any).encryptedSecret;
+      return ret;
+    }
+  }
+});
+
+// Indexes for event fan-out and owner listings
+webhookEndpointSchema.index({ status: 1, events: 1 });
+webhookEndpointSchema.index({ ownerId: 1, createdAt: -1 });
+
+// Encryption key from environment variable
+const ENCRYPTION_KEY = process.env.WEBHOOK_ENCRYPTION_KEY || process.env.PAYMENT_ENCRYPTION_KEY || 'default-key-change-in-production-32-chars';
+
+const getKeyBuffer = (): Buffer => {
+  // Ensure key is exactly 32 bytes for AES-256
+  const keyBuffer = Buffer.alloc(32);
+  const sourceKey = Buffer.from(ENCRYPTION_KEY, 'utf8');
+  sourceKey.copy(keyBuffer, 0, 0, Math.min(sourceKey.length, 32));
+  return keyBuffer;
+};
+
+// Method to encrypt and store the signing secret
+webhookEndpointSchema.methods.setSecret = function(secret: string): void {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', getKeyBuffer(), iv);
+
+  let encrypted = cipher.update(secret, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  // Store IV + encrypted data
+  this.encryptedSecret = iv.toString('hex') + ':' + encrypted;
+};
+
+// Method to decrypt the signing secret (requires encryptedSecret to be selected)
+webhookEndpointSchema.methods.getSecret = function(): string {
+  const parts = (this.encryptedSecret || '').split(':');
+  if (parts.length !== 2) {
+    throw new Error('Invalid encrypted secret format');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-cbc', getKeyBuffer(), Buffer.from(parts[0], 'hex'));
+
+  let decrypted = decipher.update(parts[1], 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+};
+
+export const WebhookEndpoint = mongoose.model<IWebhookEndpoint>('WebhookEndpoint', webhookEndpointSchema);
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// 'none' matches marketers without an accepted tax profile
+export type WithholdingFormMatch = 'W-9' | 'W-8BEN' | 'W-8BEN-E' | 'none';
+
+export interface IWithholdingRule extends Document {
+  _id: string;
+  name: string;
+  description?: string;
+  rate: number; // Fraction of the payout withheld, e.g. 0.24
+  priority: number; // Highest priority matching rule wins
+  enabled: boolean;
+  // Empty lists match anything
+  formTypes: WithholdingFormMatch[];
+  countries: string[];
+  taxClassifications: string[];
+  backupWithholdingOnly: boolean; // Only applies to profiles flagged for backup withholding
+  applyTreatyRate: boolean; // Use a lower treaty rate claimed on a W-8 form
+  createdBy: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const withholdingRuleSchema = new Schema<IWithholdingRule>({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Rule name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Withholding rate is required'],
+    min: [0, 'Withholding rate cannot be negative'],
+    max: [1, 'Withholding rate cannot exceed 100%']
+  },
+  priority: {
+    type: Number,
+    default: 0
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  formTypes: {
+    type: [{ type: String, enum: ['W-9', 'W-8BEN', 'W-8BEN-E', 'none'] }],
+    default: []
+  },
+  countries: {
+    type: [{ type: String, uppercase: true, match: /^[A-Z]{2}$/ }],
+    default: []
+  },
+  taxClassifications: {
+    type: [String],
+    default: []
+  },
+  backupWithholdingOnly: {
+    type: Boolean,
+    default: false
+  },
+  applyTreatyRate: {
+    type: Boolean,
+    default: false
+  },
+  createdBy: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'withholding_rules',
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete (ret as any)._id;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+withholdingRuleSchema.index({ enabled: 1, priority: -1 });
+
+export const WithholdingRule = mongoose.model<IWithholdingRule>('WithholdingRule', withholdingRuleSchema);
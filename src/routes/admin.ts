@@ -1,51 +1,104 @@
 import { Router } from 'express';
 import { AdminController } from '../controllers/admin';
-import { authenticate } from '../middleware/auth';
-import { adminAuthenticate, adminRateLimit, logAdminActivity, requireAdminMFA } from '../middleware/adminAuth';
+import { CommissionPlanController } from '../controllers/commissionPlan';
+import { CommissionOverrideController } from '../controllers/commissionOverride';
+import { PostbackController } from '../controllers/postback';
+import { ScheduledJobController } from '../controllers/scheduledJob';
+import { DataRetentionController } from '../controllers/dataRetention';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { adminAuthenticate, adminRateLimit, logAdminActivity, requireStepUp } from '../middleware/adminAuth';
 
 const router = Router();
 
-// All admin routes require authentication and admin role
+// All admin routes require authentication and admin role; each route also names the permission it needs
 router.use(authenticate);
 router.use(adminAuthenticate);
 router.use(adminRateLimit(200, 15 * 60 * 1000)); // 200 requests per 15 minutes
 router.use(logAdminActivity);
 
 // Dashboard and Analytics
-router.get('/dashboard/stats', AdminController.getDashboardStats);
-router.get('/activity-logs', AdminController.getActivityLogs);
-router.get('/activity-logs/export', AdminController.exportActivityLogs);
-router.get('/audit/stats', AdminController.getAuditStats);
+router.get('/dashboard/stats', requirePermission('reports:read'), AdminController.getDashboardStats);
+router.get('/activity-logs', requirePermission('audit:read'), AdminController.getActivityLogs);
+router.get('/activity-logs/export', requirePermission('audit:read'), AdminController.exportActivityLogs);
+router.get('/audit/stats', requirePermission('audit:read'), AdminController.getAuditStats);
+
+// Roles and permissions
+router.get('/roles', requirePermission('roles:manage'), AdminController.getRoles);
+router.put('/users/:userId/roles', requirePermission('roles:manage'), requireStepUp('mfa'), AdminController.updateUserRoles);
 
 // User Management
-router.get('/users', AdminController.getAllUsers);
-router.get('/users/:userId', AdminController.getUserDetails);
-router.put('/users/:userId/status', /*requireAdminMFA,*/ AdminController.updateUserStatus);
-router.post('/users/bulk-action', /*requireAdminMFA,*/ AdminController.bulkUserAction);
+router.get('/users', requirePermission('users:read'), AdminController.getAllUsers);
+router.get('/users/:userId', requirePermission('users:read'), AdminController.getUserDetails);
+router.put('/users/:userId/status', requirePermission('users:manage'), requireStepUp('mfa'), AdminController.updateUserStatus);
+router.post('/users/bulk-action', requirePermission('users:manage'), requireStepUp('mfa'), AdminController.bulkUserAction);
+router.post('/users/:userId/unlock', requirePermission('users:manage'), AdminController.unlockUser);
+router.get('/users/:userId/sessions', requirePermission('users:read'), AdminController.getUserSessions);
+router.post('/users/:userId/sessions/revoke', requirePermission('users:manage'), AdminController.revokeUserSessions);
+router.post('/users/:userId/sessions/:sessionId/revoke', requirePermission('users:manage'), AdminController.revokeUserSessions);
 
 // KYC Management
-router.get('/users/:userId/kyc', AdminController.getKYCDocuments);
-router.put('/users/:userId/kyc/status', /*requireAdminMFA,*/ AdminController.updateKYCStatus);
-router.put('/users/:userId/kyc/documents/:documentId', AdminController.reviewKYCDocument);
-router.get('/users/:userId/kyc/documents/:documentId/download', AdminController.downloadKYCDocument);
+router.get('/users/:userId/kyc', requirePermission('kyc:read'), AdminController.getKYCDocuments);
+router.put('/users/:userId/kyc/status', requirePermission('kyc:review'), requireStepUp('mfa'), AdminController.updateKYCStatus);
+router.put('/users/:userId/kyc/documents/:documentId', requirePermission('kyc:review'), AdminController.reviewKYCDocument);
+router.get('/users/:userId/kyc/documents/:documentId/download', requirePermission('kyc:read'), AdminController.downloadKYCDocument);
 
 // Product Management
-router.get('/products', AdminController.getAllProductsAdmin);
-router.post('/products', AdminController.createProductAdmin); // Temporarily removed requireAdminMFA for development
-router.put('/products/:productId', AdminController.updateProductAdmin); // Temporarily removed requireAdminMFA for development
-router.delete('/products/:productId', AdminController.deleteProductAdmin); // Temporarily removed requireAdminMFA for development
-router.get('/products/:productId/performance', AdminController.getProductPerformance);
+router.get('/products', requirePermission('products:read'), AdminController.getAllProductsAdmin);
+router.post('/products', requirePermission('products:manage'), requireStepUp('mfa'), AdminController.createProductAdmin);
+router.put('/products/:productId', requirePermission('products:manage'), requireStepUp('mfa'), AdminController.updateProductAdmin);
+router.delete('/products/:productId', requirePermission('products:manage'), requireStepUp('mfa'), AdminController.deleteProductAdmin);
+router.get('/products/:productId/performance', requirePermission('products:read'), AdminController.getProductPerformance);
+
+// Commission plans
+router.get('/products/:productId/commission-plans', requirePermission('commissions:read'), CommissionPlanController.getPlans);
+router.post('/products/:productId/commission-plans', requirePermission('commissions:manage'), CommissionPlanController.createPlan);
+router.get('/products/:productId/commission-plans/:planId', requirePermission('commissions:read'), CommissionPlanController.getPlan);
+router.put('/products/:productId/commission-plans/:planId', requirePermission('commissions:manage'), CommissionPlanController.updatePlan);
+router.post('/products/:productId/commission-plans/:planId/activate', requirePermission('commissions:manage'), requireStepUp('mfa'), CommissionPlanController.activatePlan);
+router.post('/products/:productId/commission-plans/:planId/archive', requirePermission('commissions:manage'), CommissionPlanController.archivePlan);
+router.delete('/products/:productId/commission-plans/:planId', requirePermission('commissions:manage'), CommissionPlanController.deletePlan);
 
 // Commission Management
-router.get('/commissions', AdminController.getAllCommissionsAdmin);
-router.put('/commissions/:commissionId/status', AdminController.updateCommissionStatus); // Temporarily removed requireAdminMFA for development
-router.post('/commissions/bulk-update', AdminController.bulkUpdateCommissions); // Temporarily removed requireAdminMFA for development
+router.get('/commissions', requirePermission('commissions:read'), AdminController.getAllCommissionsAdmin);
+router.put('/commissions/:commissionId/status', requirePermission('commissions:manage'), requireStepUp('mfa'), AdminController.updateCommissionStatus);
+router.post('/commissions/bulk-update', requirePermission('commissions:manage'), requireStepUp('mfa'), AdminController.bulkUpdateCommissions);
+
+// Negotiated commission overrides
+router.get('/commission-overrides', requirePermission('commissions:read'), CommissionOverrideController.getOverrides);
+router.post('/commission-overrides', requirePermission('commissions:manage'), requireStepUp('mfa'), CommissionOverrideController.createOverride);
+router.get('/commission-overrides/:overrideId', requirePermission('commissions:read'), CommissionOverrideController.getOverride);
+router.post('/commission-overrides/:overrideId/revoke', requirePermission('commissions:manage'), CommissionOverrideController.revokeOverride);
+
+// Server-to-server postback credentials
+router.get('/postback-credentials', requirePermission('system:manage'), PostbackController.getCredentials);
+router.post('/postback-credentials', requirePermission('system:manage'), requireStepUp('mfa'), PostbackController.createCredential);
+router.post('/postback-credentials/:credentialId/rotate', requirePermission('system:manage'), requireStepUp('mfa'), PostbackController.rotateCredential);
+router.post('/postback-credentials/:credentialId/revoke', requirePermission('system:manage'), PostbackController.revokeCredential);
+router.get('/postbacks/rejected', requirePermission('system:manage'), PostbackController.getRejectedPostbacks);
+router.post('/postbacks/rejected/:rejectionId/review', requirePermission('system:manage'), PostbackController.reviewRejectedPostback);
+
+// Scheduled jobs
+router.get('/jobs', requirePermission('system:manage'), ScheduledJobController.getJobs);
+router.get('/jobs/:jobName', requirePermission('system:manage'), ScheduledJobController.getJob);
+router.get('/jobs/:jobName/runs', requirePermission('system:manage'), ScheduledJobController.getJobRuns);
+router.post('/jobs/:jobName/pause', requirePermission('system:manage'), ScheduledJobController.pauseJob);
+router.post('/jobs/:jobName/resume', requirePermission('system:manage'), ScheduledJobController.resumeJob);
+router.put('/jobs/:jobName/schedule', requirePermission('system:manage'), ScheduledJobController.updateSchedule);
+router.post('/jobs/:jobName/trigger', requirePermission('system:manage'), requireStepUp('mfa'), ScheduledJobController.triggerJob);
+
+// Data retention
+router.get('/data-retention/policies', requirePermission('gdpr:manage'), DataRetentionController.getPolicies);
+router.put('/data-retention/policies/:policyName', requirePermission('gdpr:manage'), requireStepUp('mfa'), DataRetentionController.savePolicy);
+router.get('/data-retention/reports/status', requirePermission('gdpr:manage'), DataRetentionController.getStatusReport);
+router.get('/data-retention/reports/compliance', requirePermission('gdpr:manage'), DataRetentionController.getComplianceReport);
+router.post('/data-retention/execute', requirePermission('gdpr:manage'), requireStepUp('mfa'), DataRetentionController.executePolicies);
+router.post('/data-retention/emergency-cleanup', requirePermission('gdpr:manage'), requireStepUp('mfa'), DataRetentionController.emergencyCleanup);
 
 // Payout Management
-router.get('/payouts', AdminController.getAllPayoutsAdmin);
-router.put('/payouts/:payoutId/status', /*requireAdminMFA,*/ AdminController.updatePayoutStatusAdmin);
-router.post('/payouts/bulk-process', /*requireAdminMFA,*/ AdminController.bulkProcessPayoutsAdmin);
-router.get('/payouts/stats', AdminController.getPayoutStats);
-router.get('/payouts/export', AdminController.exportPayoutReport);
+router.get('/payouts', requirePermission('payouts:read'), AdminController.getAllPayoutsAdmin);
+router.put('/payouts/:payoutId/status', requirePermission('payouts:manage'), requireStepUp('phishing_resistant'), AdminController.updatePayoutStatusAdmin);
+router.post('/payouts/bulk-process', requirePermission('payouts:manage'), requireStepUp('phishing_resistant'), AdminController.bulkProcessPayoutsAdmin);
+router.get('/payouts/stats', requirePermission('payouts:read'), AdminController.getPayoutStats);
+router.get('/payouts/export', requirePermission('payouts:read'), AdminController.exportPayoutReport);
 
 export default router;
\ No newline at end of file
@@ -1,5 +1,5 @@
 import express from 'express';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requireRole, requirePermission } from '../middleware/auth';
 import { adminAuthenticate } from '../middleware/adminAuth';
 import {
   getCustomerApplications,
@@ -18,21 +18,21 @@ router.use(requireRole('admin'));
 router.use(adminAuthenticate);
 
 // Get all customer applications with filtering and pagination
-router.get('/applications', getCustomerApplications);
+router.get('/applications', requirePermission('customers:read'), getCustomerApplications);
 
 // Get customer application statistics
-router.get('/applications/stats', getCustomerApplicationStats);
+router.get('/applications/stats', requirePermission('customers:read'), getCustomerApplicationStats);
 
 // Get detailed customer application
-router.get('/applications/:customerId', getCustomerApplication);
+router.get('/applications/:customerId', requirePermission('customers:read'), getCustomerApplication);
 
 // Update customer application status
-router.put('/applications/:customerId/status', updateCustomerStatus);
+router.put('/applications/:customerId/status', requirePermission('customers:manage'), updateCustomerStatus);
 
 // Update customer payment information
-router.put('/applications/:customerId/payment', updateCustomerPayment);
+router.put('/applications/:customerId/payment', requirePermission('customers:manage'), updateCustomerPayment);
 
 // Bulk update customer statuses
-router.post('/applications/bulk-status', bulkUpdateCustomerStatus);
+router.post('/applications/bulk-status', requirePermission('customers:manage'), bulkUpdateCustomerStatus);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AdminReportingController } from '../controllers/adminReporting';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { adminAuthenticate } from '../middleware/adminAuth';
 
 const router = Router();
@@ -8,6 +8,7 @@ const router = Router();
 // Apply authentication and admin authorization to all routes
 router.use(authenticate);
 router.use(adminAuthenticate);
+router.use(requirePermission('reports:read'));
 
 /**
  * @route GET /api/v1/admin-reporting/platform-performance
@@ -20,18 +21,18 @@ router.get('/platform-performance', AdminReportingController.getPlatformPerforma
 /**
  * @route GET /api/v1/admin-reporting/financial
  * @desc Get financial report for commission and payouts
- * @access Private (Admin only)
+ * @access Private (Admin with reports:financial)
  * @query startDate, endDate
  */
-router.get('/financial', AdminReportingController.getFinancialReport);
+router.get('/financial', requirePermission('reports:financial'), AdminReportingController.getFinancialReport);
 
 /**
  * @route GET /api/v1/admin-reporting/compliance
  * @desc Get compliance report for audit purposes
- * @access Private (Admin only)
+ * @access Private (Admin with reports:compliance)
  * @query startDate, endDate
  */
-router.get('/compliance', AdminReportingController.getComplianceReport);
+router.get('/compliance', requirePermission('reports:compliance'), AdminReportingController.getComplianceReport);
 
 /**
  * @route GET /api/v1/admin-reporting/dashboard
@@ -44,17 +45,67 @@ router.get('/dashboard', AdminReportingController.getAdminDashboard);
 /**
  * @route GET /api/v1/admin-reporting/export
  * @desc Export report data in various formats
- * @access Private (Admin only)
+ * @access Private (Admin with reports:manage)
  * @query reportType, startDate, endDate, format?
  */
-router.get('/export', AdminReportingController.exportReport);
+router.get('/export', requirePermission('reports:manage'), AdminReportingController.exportReport);
 
 /**
  * @route GET /api/v1/admin-reporting/history
- * @desc Get report generation status and history
+ * @desc Get generated report history
  * @access Private (Admin only)
- * @query page?, limit?, reportType?
+ * @query page?, limit?, reportType?, scheduledReportId?, status?
  */
 router.get('/history', AdminReportingController.getReportHistory);
 
+/**
+ * @route GET /api/v1/admin-reporting/history/:reportId/download
+ * @desc Download a generated report file
+ * @access Private (Admin only)
+ */
+router.get('/history/:reportId/download', AdminReportingController.downloadReport);
+
+/**
+ * @route GET /api/v1/admin-reporting/scheduled-reports
+ * @desc List scheduled reports
+ * @access Private (Admin only)
+ * @query reportType?, isActive?
+ */
+router.get('/scheduled-reports', AdminReportingController.getScheduledReports);
+
+/**
+ * @route POST /api/v1/admin-reporting/scheduled-reports
+ * @desc Create a scheduled report
+ * @access Private (Admin with reports:manage)
+ */
+router.post('/scheduled-reports', requirePermission('reports:manage'), AdminReportingController.createScheduledReport);
+
+/**
+ * @route GET /api/v1/admin-reporting/scheduled-reports/:reportId
+ * @desc Get a scheduled report
+ * @access Private (Admin only)
+ */
+router.get('/scheduled-reports/:reportId', AdminReportingController.getScheduledReport);
+
+/**
+ * @route PUT /api/v1/admin-reporting/scheduled-reports/:reportId
+ * @desc Update a scheduled report
+ * @access Private (Admin with reports:manage)
+ */
+router.put('/scheduled-reports/:reportId', requirePermission('reports:manage'), AdminReportingController.updateScheduledReport);
+
+/**
+ * @route DELETE /api/v1/admin-reporting/scheduled-reports/:reportId
+ * @desc Delete a scheduled report
+ * @access Private (Admin with reports:manage)
+ */
+router.delete('/scheduled-reports/:reportId', requirePermission('reports:manage'), AdminReportingController.deleteScheduledReport);
+
+/**
+ * @route POST /api/v1/admin-reporting/scheduled-reports/:reportId/run
+ * @desc Generate and send a scheduled report now
+ * @access Private (Admin with reports:manage)
+ */
+router.post('/scheduled-reports/:reportId/run', requirePermission('reports:manage'), AdminReportingController.runScheduledReport);
+
 export default router;
\ No newline at end of file
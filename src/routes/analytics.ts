@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { AnalyticsController } from '../controllers/analytics';
-import { authenticate } from '../middleware/auth';
-import { requireAdminMFA } from '../middleware/adminAuth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { requireStepUp } from '../middleware/adminAuth';
 
 const router = Router();
 
@@ -60,7 +60,7 @@ router.get('/dashboard/summary', AnalyticsController.getDashboardSummary);
  * @desc Initialize real-time analytics
  * @access Private (Admin only)
  */
-router.post('/realtime/initialize', /*requireAdminMFA,*/ AnalyticsController.initializeRealtimeAnalytics);
+router.post('/realtime/initialize', requirePermission('system:manage'), requireStepUp('mfa'), AnalyticsController.initializeRealtimeAnalytics);
 
 /**
  * @route GET /api/v1/analytics/admin/overview
@@ -68,6 +68,6 @@ router.post('/realtime/initialize', /*requireAdminMFA,*/ AnalyticsController.ini
  * @access Private (Admin only)
  * @query period? (days)
  */
-router.get('/admin/overview', /*requireAdminMFA,*/ AnalyticsController.getAdminAnalyticsOverview);
+router.get('/admin/overview', requirePermission('reports:read'), requireStepUp('mfa'), AnalyticsController.getAdminAnalyticsOverview);
 
 export default router;
\ No newline at end of file
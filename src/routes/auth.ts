@@ -42,6 +42,12 @@ router.post('/reset-password', /*authLimiter,*/ AuthController.resetPassword);
 // User info route
 router.get('/me', /*generalLimiter,*/ authenticate, AuthController.getCurrentUser);
 
+// Session management routes
+router.post('/logout', authenticate, AuthController.logout);
+router.get('/sessions', authenticate, AuthController.getSessions);
+router.delete('/sessions', authenticate, AuthController.revokeOtherSessions);
+router.delete('/sessions/:sessionId', authenticate, AuthController.revokeSession);
+
 // KYC skip route
 router.post('/skip-kyc', /*generalLimiter,*/ authenticate, AuthController.skipKYC);
 
@@ -25,7 +25,7 @@ import {
   getCommissionWithAdjustments,
   getClawbackStatistics
 } from '../controllers/commission';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -42,32 +42,32 @@ router.get('/balance/:marketerId', getAvailableBalance);
 router.get('/', getCommissions);
 router.get('/:id', getCommissionById);
 
-// Commission status management
-router.put('/:id/status', updateCommissionStatus);
-router.put('/:id/approve', approveCommission);
-router.put('/:id/reject', rejectCommission);
-router.put('/:id/mark-paid', markCommissionAsPaid);
-router.put('/:id/recalculate', recalculateCommission);
+// Commission status management (admin only)
+router.put('/:id/status', requirePermission('commissions:manage'), updateCommissionStatus);
+router.put('/:id/approve', requirePermission('commissions:manage'), approveCommission);
+router.put('/:id/reject', requirePermission('commissions:manage'), rejectCommission);
+router.put('/:id/mark-paid', requirePermission('commissions:manage'), markCommissionAsPaid);
+router.put('/:id/recalculate', requirePermission('commissions:manage'), recalculateCommission);
 
 // Clawback and adjustment management (admin only)
-router.post('/:id/clawback', processClawback);
-router.post('/:id/partial-clawback', processPartialClawback);
-router.post('/:id/adjustment', applyManualAdjustment);
-router.get('/:id/adjustments', getCommissionAdjustments);
-router.get('/:id/with-adjustments', getCommissionWithAdjustments);
+router.post('/:id/clawback', requirePermission('commissions:manage'), processClawback);
+router.post('/:id/partial-clawback', requirePermission('commissions:manage'), processPartialClawback);
+router.post('/:id/adjustment', requirePermission('commissions:manage'), applyManualAdjustment);
+router.get('/:id/adjustments', requirePermission('commissions:read'), getCommissionAdjustments);
+router.get('/:id/with-adjustments', requirePermission('commissions:read'), getCommissionWithAdjustments);
 
-// Commission history and audit
-router.get('/:id/history', getCommissionStatusHistory);
+// Commission history and audit (admin only)
+router.get('/:id/history', requirePermission('commissions:read'), getCommissionStatusHistory);
 
 // Bulk operations (admin only)
-router.get('/eligible/approval', getEligibleCommissions);
-router.post('/bulk/approve', bulkApproveCommissions);
-router.post('/automated/process', processAutomatedCommissionUpdates);
+router.get('/eligible/approval', requirePermission('commissions:read'), getEligibleCommissions);
+router.post('/bulk/approve', requirePermission('commissions:manage'), bulkApproveCommissions);
+router.post('/automated/process', requirePermission('commissions:manage'), processAutomatedCommissionUpdates);
 
 // Analytics and reporting
 router.get('/analytics/data', getCommissionAnalytics);
-router.get('/analytics/lifecycle', getCommissionLifecycleStats);
-router.get('/analytics/clawback', getClawbackStatistics);
+router.get('/analytics/lifecycle', requirePermission('commissions:read'), getCommissionLifecycleStats);
+router.get('/analytics/clawback', requirePermission('commissions:read'), getClawbackStatistics);
 router.get('/analytics/product/:productId', getProductCommissionPerformance);
 
 export default router;
\ No newline at end of file
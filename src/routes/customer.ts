@@ -9,6 +9,8 @@ import {
   validateStepData,
   uploadMiddleware,
   recordConversion,
+  recordCustomerTransaction,
+  getCustomerTransactions,
   getDetailedCustomerStatus,
   getMarketerCustomers,
   getOnboardingAnalytics,
@@ -44,6 +46,10 @@ router.post('/onboarding/validate/:step', validateStepData);
 // Record conversion when customer makes initial spend
 router.post('/:customerId/conversion', recordConversion);
 
+// Report follow-on customer transactions for recurring commissions
+router.post('/:customerId/transactions', recordCustomerTransaction);
+router.get('/:customerId/transactions', getCustomerTransactions);
+
 // Get detailed customer status (for marketers)
 router.get('/:customerId/detailed-status', getDetailedCustomerStatus);
 
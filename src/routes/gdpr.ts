@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { body, param } from 'express-validator';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requireRole, requirePermission } from '../middleware/auth';
 import * as GDPRController from '../controllers/gdpr';
 import rateLimit from 'express-rate-limit';
 
@@ -102,6 +102,7 @@ router.delete('/delete',
 // Admin GDPR routes
 const adminRouter = Router();
 adminRouter.use(requireRole('admin'));
+adminRouter.use(requirePermission('gdpr:manage'));
 
 /**
  * @route DELETE /api/v1/admin/gdpr/users/:userId/delete
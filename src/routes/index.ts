@@ -17,6 +17,8 @@ import analyticsRoutes from './analytics';
 import marketerAnalyticsRoutes from './marketerAnalytics';
 import marketerRoutes from './marketer';
 import adminReportingRoutes from './adminReporting';
+import webhookRoutes from './webhook';
+import taxRoutes, { adminRouter as taxAdminRoutes } from './tax';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
@@ -38,6 +40,8 @@ router.use('/analytics', analyticsRoutes);
 router.use('/marketer-analytics', marketerAnalyticsRoutes);
 router.use('/marketer', marketerRoutes);
 router.use('/admin-reporting', adminReportingRoutes);
+router.use('/webhooks', webhookRoutes);
+router.use('/tax', taxRoutes);
 
 // Admin routes (require authentication)
 router.use('/admin', adminRoutes);
@@ -45,6 +49,7 @@ router.use('/admin/customers', authenticate, adminCustomersRoutes);
 router.use('/admin/payment-methods', authenticate, paymentMethodAdminRoutes);
 router.use('/admin/payouts', authenticate, payoutAdminRoutes);
 router.use('/admin/gdpr', authenticate, gdprAdminRoutes);
+router.use('/admin/tax', authenticate, taxAdminRoutes);
 
 // Health check for API
 router.get('/health', (req, res) => {
@@ -1,5 +1,5 @@
 import express from 'express';
-import { getDashboardData, getCommissionDetails, getCustomerReferrals } from '../controllers/marketer';
+import { getDashboardData, getCommissionDetails, getCustomerReferrals, getNetwork } from '../controllers/marketer';
 import { authenticate } from '../middleware/auth';
 
 const router = express.Router();
@@ -13,6 +13,9 @@ router.get('/dashboard', getDashboardData);
 // GET /api/v1/marketer/commission-details - Get detailed commission information
 router.get('/commission-details', getCommissionDetails);
 
+// GET /api/v1/marketer/network - Get recruitment link, sub-affiliate downline and override earnings
+router.get('/network', getNetwork);
+
 // GET /api/v1/marketer/:marketerId/customers - Get customer referrals for a marketer
 router.get('/:marketerId/customers', getCustomerReferrals);
 
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { MFAController } from '../controllers/mfa';
-import { authenticate, requireEmailVerification } from '../middleware/auth';
+import { authenticate, requireEmailVerification, requireMFA, requireMFAIfEnabled } from '../middleware/auth';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
@@ -33,11 +33,23 @@ router.use(authenticate);
 router.use(requireEmailVerification);
 
 // MFA management routes
-router.post('/setup', mfaSetupLimiter, MFAController.setupMFA);
+router.post('/setup', mfaSetupLimiter, requireMFAIfEnabled, MFAController.setupMFA);
 router.post('/verify-setup', mfaLimiter, MFAController.verifyAndEnableMFA);
 router.post('/verify', mfaLimiter, MFAController.verifyMFA);
 router.post('/disable', mfaLimiter, MFAController.disableMFA);
 router.post('/regenerate-backup-codes', mfaLimiter, MFAController.regenerateBackupCodes);
 router.get('/status', MFAController.getMFAStatus);
 
+// Step-up: elevate the current session for sensitive operations
+router.post('/step-up', mfaLimiter, MFAController.stepUp);
+router.delete('/step-up', MFAController.endStepUp);
+
+// WebAuthn authenticator routes
+router.post('/webauthn/register/options', mfaSetupLimiter, requireMFAIfEnabled, MFAController.getWebAuthnRegistrationOptions);
+router.post('/webauthn/register/verify', mfaLimiter, requireMFAIfEnabled, MFAController.verifyWebAuthnRegistration);
+router.post('/webauthn/authenticate/options', mfaLimiter, MFAController.getWebAuthnAuthenticationOptions);
+router.get('/webauthn/credentials', MFAController.getWebAuthnCredentials);
+router.patch('/webauthn/credentials/:credentialId', MFAController.renameWebAuthnCredential);
+router.delete('/webauthn/credentials/:credentialId', mfaLimiter, requireMFA, MFAController.deleteWebAuthnCredential);
+
 export default router;
\ No newline at end of file
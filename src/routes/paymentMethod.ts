@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as paymentMethodController from '../controllers/paymentMethod';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requireRole, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -30,6 +30,6 @@ export const adminRouter = Router();
 adminRouter.use(requireRole('admin'));
 
 // PUT /api/v1/admin/payment-methods/:id/verify - Verify payment method (admin only)
-adminRouter.put('/:id/verify', paymentMethodController.verifyPaymentMethod);
+adminRouter.put('/:id/verify', requirePermission('payouts:manage'), paymentMethodController.verifyPaymentMethod);
 
 export default router;
\ No newline at end of file
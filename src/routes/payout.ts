@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import * as payoutController from '../controllers/payout';
-import { authenticate, requireRole } from '../middleware/auth';
+import * as reconciliationController from '../controllers/payoutReconciliation';
+import * as batchController from '../controllers/payoutBatch';
+import * as scheduleController from '../controllers/payoutSchedule';
+import { authenticate, requireRole, requirePermission } from '../middleware/auth';
+import { requireStepUp } from '../middleware/adminAuth';
 
 const router = Router();
 
@@ -17,9 +21,24 @@ router.get('/', payoutController.getPayoutRequests);
 // GET /api/v1/payouts/balance - Get balance summary
 router.get('/balance', payoutController.getBalanceSummary);
 
+// GET /api/v1/payouts/statement - Get ledger statement for a period
+router.get('/statement', payoutController.getStatement);
+
+// GET /api/v1/payouts/schedule - Get automatic payout schedule
+router.get('/schedule', scheduleController.getSchedule);
+
+// PUT /api/v1/payouts/schedule - Opt into or change automatic payouts
+router.put('/schedule', scheduleController.updateSchedule);
+
+// DELETE /api/v1/payouts/schedule - Opt out of automatic payouts
+router.delete('/schedule', scheduleController.disableSchedule);
+
 // GET /api/v1/payouts/:id - Get specific payout request
 router.get('/:id', payoutController.getPayoutRequest);
 
+// GET /api/v1/payouts/:id/allocations - Get the commissions a payout request pays
+router.get('/:id/allocations', payoutController.getPayoutAllocations);
+
 // PUT /api/v1/payouts/:id/cancel - Cancel payout request
 router.put('/:id/cancel', payoutController.cancelPayoutRequest);
 
@@ -28,18 +47,81 @@ export const adminRouter = Router();
 adminRouter.use(requireRole('admin'));
 
 // GET /api/v1/admin/payouts - Get all payout requests (admin only)
-adminRouter.get('/', payoutController.getAllPayoutRequests);
+adminRouter.get('/', requirePermission('payouts:read'), payoutController.getAllPayoutRequests);
 
 // PUT /api/v1/admin/payouts/:id/status - Update payout status (admin only)
-adminRouter.put('/:id/status', payoutController.updatePayoutStatus);
+adminRouter.put('/:id/status', requirePermission('payouts:manage'), requireStepUp('phishing_resistant'), payoutController.updatePayoutStatus);
 
 // POST /api/v1/admin/payouts/:id/process - Process single payout through gateway (admin only)
-adminRouter.post('/:id/process', payoutController.processPayout);
+adminRouter.post('/:id/process', requirePermission('payouts:manage'), requireStepUp('phishing_resistant'), payoutController.processPayout);
 
 // POST /api/v1/admin/payouts/bulk-process - Bulk process payouts (admin only)
-adminRouter.post('/bulk-process', payoutController.bulkProcessPayouts);
+adminRouter.post('/bulk-process', requirePermission('payouts:manage'), requireStepUp('phishing_resistant'), payoutController.bulkProcessPayouts);
 
 // GET /api/v1/admin/payouts/stats - Get bulk processing statistics (admin only)
-adminRouter.get('/stats', payoutController.getBulkProcessingStats);
+adminRouter.get('/stats', requirePermission('payouts:read'), payoutController.getBulkProcessingStats);
+
+// GET /api/v1/admin/payouts/ledger/trial-balance - Get ledger debit and credit totals (admin only)
+adminRouter.get('/ledger/trial-balance', requirePermission('payouts:read'), payoutController.getLedgerTrialBalance);
+
+// Automatic payout schedules
+// GET /api/v1/admin/payouts/schedules - Get automatic payout schedules (admin only)
+adminRouter.get('/schedules', requirePermission('payouts:read'), scheduleController.getAllSchedules);
+
+// PUT /api/v1/admin/payouts/schedules/:marketerId/hold - Pause a marketer's automatic payouts (admin only)
+adminRouter.put('/schedules/:marketerId/hold', requirePermission('payouts:manage'), scheduleController.placeHold);
+
+// DELETE /api/v1/admin/payouts/schedules/:marketerId/hold - Release a payout hold (admin only)
+adminRouter.delete('/schedules/:marketerId/hold', requirePermission('payouts:manage'), scheduleController.releaseHold);
+
+// Bank transfer batches
+// POST /api/v1/admin/payouts/batches - Generate a NACHA or SEPA batch from approved bank transfers (admin only)
+adminRouter.post('/batches', requirePermission('payouts:manage'), requireStepUp('phishing_resistant'), batchController.generateBatch);
+
+// GET /api/v1/admin/payouts/batches - Get payout batches (admin only)
+adminRouter.get('/batches', requirePermission('payouts:read'), batchController.getBatches);
+
+// GET /api/v1/admin/payouts/batches/:id - Get a payout batch (admin only)
+adminRouter.get('/batches/:id', requirePermission('payouts:read'), batchController.getBatch);
+
+// GET /api/v1/admin/payouts/batches/:id/download - Download the batch file (admin only)
+adminRouter.get('/batches/:id/download', requirePermission('payouts:read'), batchController.downloadBatch);
+
+// PUT /api/v1/admin/payouts/batches/:id/submit - Mark a batch as submitted to the bank (admin only)
+adminRouter.put('/batches/:id/submit', requirePermission('payouts:manage'), requireStepUp('phishing_resistant'), batchController.submitBatch);
+
+// PUT /api/v1/admin/payouts/batches/:id/settle - Mark a batch as settled (admin only)
+adminRouter.put('/batches/:id/settle', requirePermission('payouts:manage'), requireStepUp('mfa'), batchController.settleBatch);
+
+// PUT /api/v1/admin/payouts/batches/:id/reject - Record a bank rejection (admin only)
+adminRouter.put('/batches/:id/reject', requirePermission('payouts:manage'), requireStepUp('mfa'), batchController.rejectBatch);
+
+// PUT /api/v1/admin/payouts/batches/:id/cancel - Cancel a batch that has not been submitted (admin only)
+adminRouter.put('/batches/:id/cancel', requirePermission('payouts:manage'), requireStepUp('mfa'), batchController.cancelBatch);
+
+// Settlement reconciliation
+// POST /api/v1/admin/payouts/reconciliation/paypal - Reconcile PayPal payout batches (admin only)
+adminRouter.post('/reconciliation/paypal', requirePermission('payouts:manage'), requireStepUp('mfa'), reconciliationController.reconcilePayPal);
+
+// POST /api/v1/admin/payouts/reconciliation/stripe - Reconcile Stripe transfers or balance transactions (admin only)
+adminRouter.post('/reconciliation/stripe', requirePermission('payouts:manage'), requireStepUp('mfa'), reconciliationController.reconcileStripe);
+
+// POST /api/v1/admin/payouts/reconciliation/bank-statement - Import a CSV bank statement (admin only)
+adminRouter.post(
+  '/reconciliation/bank-statement',
+  requirePermission('payouts:manage'),
+  requireStepUp('mfa'),
+  reconciliationController.statementUploadMiddleware,
+  reconciliationController.importBankStatement
+);
+
+// POST /api/v1/admin/payouts/reconciliation/run - Poll gateways for pending settlements (admin only)
+adminRouter.post('/reconciliation/run', requirePermission('payouts:manage'), requireStepUp('mfa'), reconciliationController.runReconciliation);
+
+// GET /api/v1/admin/payouts/reconciliation/discrepancies - Get settlement discrepancy report (admin only)
+adminRouter.get('/reconciliation/discrepancies', requirePermission('payouts:read'), reconciliationController.getDiscrepancyReport);
+
+// PUT /api/v1/admin/payouts/reconciliation/discrepancies/:id/resolve - Resolve a discrepancy (admin only)
+adminRouter.put('/reconciliation/discrepancies/:id/resolve', requirePermission('payouts:manage'), requireStepUp('mfa'), reconciliationController.resolveDiscrepancy);
 
 export default router;
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { ProductController } from '../controllers/product';
 import { ProductMaterialController, upload } from '../controllers/productMaterial';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
@@ -43,9 +43,9 @@ router.get('/materials/:id', ProductMaterialController.getMaterialById);
 router.get('/materials', ProductMaterialController.getMaterials);
 
 // Admin-only routes for materials
-router.post('/materials/upload', upload.single('file'), ProductMaterialController.uploadMaterial);
-router.put('/materials/:id', ProductMaterialController.updateMaterial);
-router.delete('/materials/:id', ProductMaterialController.deleteMaterial);
+router.post('/materials/upload', requirePermission('materials:manage'), upload.single('file'), ProductMaterialController.uploadMaterial);
+router.put('/materials/:id', requirePermission('materials:manage'), ProductMaterialController.updateMaterial);
+router.delete('/materials/:id', requirePermission('materials:manage'), ProductMaterialController.deleteMaterial);
 
 // Routes accessible by both marketers and admins
 router.get('/', ProductController.getProducts);
@@ -53,9 +53,9 @@ router.get('/:productId/materials/stats', ProductMaterialController.getMaterialS
 router.get('/:productId/materials', ProductMaterialController.getMaterialsByProduct);
 router.get('/:id', ProductController.getProductById);
 
-// Admin-only routes (will need role-based middleware in the future)
-router.post('/', ProductController.createProduct);
-router.put('/:id', ProductController.updateProduct);
-router.delete('/:id', ProductController.deleteProduct);
+// Admin-only routes
+router.post('/', requirePermission('products:manage'), ProductController.createProduct);
+router.put('/:id', requirePermission('products:manage'), ProductController.updateProduct);
+router.delete('/:id', requirePermission('products:manage'), ProductController.deleteProduct);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import * as taxController from '../controllers/tax';
+import { authenticate, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// All tax routes require authentication
+router.use(authenticate);
+
+// Marketer routes
+// GET /api/v1/tax/profile - Get tax profile
+router.get('/profile', taxController.getTaxProfile);
+
+// PUT /api/v1/tax/profile - Submit W-9/W-8 details
+router.put('/profile', taxController.submitTaxProfile);
+
+// GET /api/v1/tax/summaries - Get year-end earnings summaries
+router.get('/summaries', taxController.getTaxSummaries);
+
+// GET /api/v1/tax/summaries/:taxYear - Get the earnings summary for a tax year
+router.get('/summaries/:taxYear', taxController.getTaxSummary);
+
+// Admin routes (these will be mounted at /api/v1/admin/tax in main routes)
+export const adminRouter = Router();
+adminRouter.use(requireRole('admin'));
+
+// GET /api/v1/admin/tax/profiles - Get submitted tax profiles (admin only)
+adminRouter.get('/profiles', requirePermission('tax:read'), taxController.getAllTaxProfiles);
+
+// PUT /api/v1/admin/tax/profiles/:userId/review - Verify, reject or flag a tax profile (admin only)
+adminRouter.put('/profiles/:userId/review', requirePermission('tax:manage'), taxController.reviewTaxProfile);
+
+// GET /api/v1/admin/tax/withholding-rules - Get withholding rules (admin only)
+adminRouter.get('/withholding-rules', requirePermission('tax:read'), taxController.getWithholdingRules);
+
+// POST /api/v1/admin/tax/withholding-rules - Create a withholding rule (admin only)
+adminRouter.post('/withholding-rules', requirePermission('tax:manage'), taxController.createWithholdingRule);
+
+// PUT /api/v1/admin/tax/withholding-rules/:id - Update a withholding rule (admin only)
+adminRouter.put('/withholding-rules/:id', requirePermission('tax:manage'), taxController.updateWithholdingRule);
+
+// DELETE /api/v1/admin/tax/withholding-rules/:id - Delete a withholding rule (admin only)
+adminRouter.delete('/withholding-rules/:id', requirePermission('tax:manage'), taxController.deleteWithholdingRule);
+
+// POST /api/v1/admin/tax/summaries/generate - Generate year-end summaries for a tax year (admin only)
+adminRouter.post('/summaries/generate', requirePermission('tax:manage'), taxController.generateTaxSummaries);
+
+// GET /api/v1/admin/tax/reportable - Export marketers above the reporting threshold (admin only)
+adminRouter.get('/reportable', requirePermission('tax:read'), taxController.exportReportableMarketers);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import * as TrackingController from '../controllers/tracking';
 import { authenticate } from '../middleware/auth';
+import { verifyPostbackSignature } from '../middleware/postbackAuth';
 
 const router = Router();
 
@@ -11,6 +12,9 @@ router.post('/track/:trackingCode/click', TrackingController.trackClick);
 router.post('/conversions', TrackingController.recordConversion);
 router.post('/conversions/deduplication', TrackingController.recordConversionWithDeduplication);
 
+// Signed server-to-server postbacks
+router.post('/postbacks', verifyPostbackSignature, TrackingController.recordPostback);
+
 // Temporary test endpoint for creating referral links without authentication
 router.post('/test/links', TrackingController.createReferralLink);
 
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import * as webhookController from '../controllers/webhook';
+import { authenticate, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Webhook routes are available to marketers (their own events) and admins; only admins with system:manage see all events
+router.use(authenticate);
+router.use(requireRole(['marketer', 'admin']));
+
+// GET /api/v1/webhooks/events - List subscribable events
+router.get('/events', webhookController.getWebhookEvents);
+
+// GET /api/v1/webhooks/deliveries - Delivery log
+router.get('/deliveries', webhookController.getWebhookDeliveries);
+
+// POST /api/v1/webhooks/deliveries/:deliveryId/redeliver - Manually redeliver an event
+router.post('/deliveries/:deliveryId/redeliver', webhookController.redeliverWebhook);
+
+// GET /api/v1/webhooks - List webhook endpoints
+router.get('/', webhookController.getWebhookEndpoints);
+
+// POST /api/v1/webhooks - Register a webhook endpoint
+router.post('/', webhookController.createWebhookEndpoint);
+
+// GET /api/v1/webhooks/:id - Get a webhook endpoint
+router.get('/:id', webhookController.getWebhookEndpoint);
+
+// PUT /api/v1/webhooks/:id - Update a webhook endpoint
+router.put('/:id', webhookController.updateWebhookEndpoint);
+
+// DELETE /api/v1/webhooks/:id - Delete a webhook endpoint
+router.delete('/:id', webhookController.deleteWebhookEndpoint);
+
+// POST /api/v1/webhooks/:id/rotate-secret - Rotate the signing secret
+router.post('/:id/rotate-secret', webhookController.rotateWebhookSecret);
+
+export default router;
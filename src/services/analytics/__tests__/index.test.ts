@@ -472,10 +472,25 @@ describe('AnalyticsService', () => {
       expect(csvString).toContain('1,Test 1,100');
     });
 
-    it('should throw error for XLSX format (not implemented)', async () => {
-      await expect(
-        AnalyticsService.exportData(sampleData, { format: 'xlsx' })
-      ).rejects.toThrow('Failed to export data');
+    it('should export data as an XLSX workbook', async () => {
+      const exported = await AnalyticsService.exportData(sampleData, {
+        format: 'xlsx'
+      });
+
+      expect(Buffer.isBuffer(exported)).toBe(true);
+      // XLSX files are zip archives
+      expect((exported as Buffer).subarray(0, 2).toString()).toBe('PK');
+    });
+
+    it('should quote CSV values containing separators', async () => {
+      const exported = await AnalyticsService.exportData({
+        data: [{ id: 1, name: 'Smith, "Jr"', value: 100 }],
+        totalCount: 1
+      }, {
+        format: 'csv'
+      });
+
+      expect(exported as string).toContain('1,"Smith, ""Jr""",100');
     });
 
     it('should throw error for unsupported format', async () => {
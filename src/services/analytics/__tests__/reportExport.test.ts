@@ -0,0 +1,154 @@
+import ExcelJS from 'exceljs';
+import mongoose from 'mongoose';
+import { ReportExportService } from '../reportExport';
+
+describe('ReportExportService', () => {
+  const financialReport = {
+    summary: {
+      totalRevenue: 1250.5,
+      totalCommissions: 125
+    },
+    commissionBreakdown: {
+      byStatus: [],
+      byMarketer: [
+        { marketerId: new mongoose.Types.ObjectId('64b7f0c2a1b2c3d4e5f60718'), marketerName: 'Smith, Jane', commissions: 2, amount: 75.25 },
+        { marketerId: new mongoose.Types.ObjectId('64b7f0c2a1b2c3d4e5f60719'), marketerName: 'Lee', commissions: 1, amount: 50 }
+      ]
+    },
+    cashFlow: [
+      { date: '2024-01-01', revenue: 1000, commissions: 100, payouts: 0, netCashFlow: 900 },
+      { date: '2024-01-02', revenue: 250.5, commissions: 25, payouts: 50, netCashFlow: 175.5 }
+    ],
+    period: {
+      start: new Date('2024-01-01T00:00:00Z'),
+      end: new Date('2024-01-31T00:00:00Z')
+    }
+  };
+
+  describe('flattenReport', () => {
+    it('should split nested sections into tables named by path', () => {
+      const tables = ReportExportService.flattenReport(financialReport, 'financial');
+
+      expect(tables.map(table => table.name)).toEqual([
+        'summary',
+        'commissionBreakdown.byStatus',
+        'commissionBreakdown.byMarketer',
+        'cashFlow',
+        'period'
+      ]);
+    });
+
+    it('should type columns from their values', () => {
+      const tables = ReportExportService.flattenReport(financialReport);
+      const columnTypes = (name: string) =>
+        Object.fromEntries(tables.find(table => table.name === name)!.columns!.map(column => [column.key, column.type]));
+
+      expect(columnTypes('commissionBreakdown.byMarketer')).toEqual({
+        marketerId: 'string',
+        marketerName: 'string',
+        commissions: 'integer',
+        amount: 'number'
+      });
+      expect(columnTypes('cashFlow').date).toBe('date');
+      expect(columnTypes('cashFlow').revenue).toBe('number');
+      expect(columnTypes('period')).toEqual({ start: 'datetime', end: 'datetime' });
+    });
+
+    it('should flatten nested row fields into dotted columns', () => {
+      const table = ReportExportService.createTable('rows', [
+        { id: 1, customer: { country: 'DE', tier: 'gold' }, tags: ['a', 'b'] }
+      ]);
+
+      expect(table.columns!.map(column => column.key)).toEqual(['id', 'customer.country', 'customer.tier', 'tags']);
+      expect(Array.from(table.rows as Iterable<any>)[0]).toEqual({
+        id: 1,
+        'customer.country': 'DE',
+        'customer.tier': 'gold',
+        tags: '["a","b"]'
+      });
+    });
+  });
+
+  describe('CSV export', () => {
+    it('should write a single table as plain CSV', async () => {
+      const tables = ReportExportService.flattenReport({ byMarketer: financialReport.commissionBreakdown.byMarketer });
+
+      const csv = (await ReportExportService.toBuffer(tables, 'csv')).toString();
+
+      expect(ReportExportService.getFileInfo('csv', tables.length).extension).toBe('csv');
+      expect(csv.split('\n')).toEqual([
+        'marketerId,marketerName,commissions,amount',
+        '64b7f0c2a1b2c3d4e5f60718,"Smith, Jane",2,75.25',
+        '64b7f0c2a1b2c3d4e5f60719,Lee,1,50',
+        ''
+      ]);
+    });
+
+    it('should zip one CSV file per table for multi-section reports', async () => {
+      const tables = ReportExportService.flattenReport(financialReport);
+
+      const archive = await ReportExportService.toBuffer(tables, 'csv');
+
+      expect(ReportExportService.getFileInfo('csv', tables.length)).toEqual({
+        extension: 'zip',
+        contentType: 'application/zip'
+      });
+      expect(archive.subarray(0, 2).toString()).toBe('PK');
+      expect(archive.toString('latin1')).toContain('commissionBreakdown.byMarketer.csv');
+    });
+  });
+
+  describe('XLSX export', () => {
+    const loadWorkbook = async (content: Buffer) => {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(content as any);
+      return workbook;
+    };
+
+    it('should write one worksheet per section with typed cells', async () => {
+      const content = await ReportExportService.toBuffer(ReportExportService.flattenReport(financialReport), 'xlsx');
+      const workbook = await loadWorkbook(content);
+
+      expect(workbook.worksheets.map(sheet => sheet.name)).toEqual([
+        'summary',
+        'commissionBreakdown.byStatus',
+        'commissionBreakdown.byMarketer',
+        'cashFlow',
+        'period'
+      ]);
+
+      const cashFlow = workbook.getWorksheet('cashFlow')!;
+      expect(cashFlow.getRow(1).values).toEqual([undefined, 'date', 'revenue', 'commissions', 'payouts', 'netCashFlow']);
+      expect(cashFlow.getCell('A2').value).toEqual(new Date('2024-01-01T00:00:00Z'));
+      expect(cashFlow.getCell('B3').value).toBe(250.5);
+      expect(cashFlow.getColumn(2).numFmt).toBe('#,##0.00');
+    });
+
+    it('should stream rows from async iterables', async () => {
+      async function* rows() {
+        for (let i = 0; i < 2500; i++) {
+          yield { index: i, clickedAt: new Date(Date.UTC(2024, 0, 1, 0, i % 60)) };
+        }
+      }
+
+      const content = await ReportExportService.toBuffer([{ name: 'clicks', rows: rows() }], 'xlsx');
+      const sheet = (await loadWorkbook(content)).getWorksheet('clicks')!;
+
+      expect(sheet.rowCount).toBe(2501);
+      expect(sheet.getCell('A2501').value).toBe(2499);
+    });
+
+    it('should keep sheet names within Excel limits', async () => {
+      const name = 'a-very-long-section-name-that-exceeds-the-limit';
+      const content = await ReportExportService.toBuffer([
+        ReportExportService.createTable(name, [{ value: 1 }]),
+        ReportExportService.createTable(name, [{ value: 2 }])
+      ], 'xlsx');
+
+      const names = (await loadWorkbook(content)).worksheets.map(sheet => sheet.name);
+      expect(names).toHaveLength(2);
+      expect(new Set(names).size).toBe(2);
+      expect(names.every(sheetName => sheetName.length <= 31)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { ScheduledReportService } from '../scheduledReports';
+import { AdminReportingService } from '../adminReporting';
+import { ScheduledReport } from '../../../models/ScheduledReport';
+import { GeneratedReport } from '../../../models/GeneratedReport';
+import { sendScheduledReportEmail } from '../../email';
+
+jest.mock('../../email', () => ({
+  sendScheduledReportEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const mockSendEmail = sendScheduledReportEmail as jest.MockedFunction<typeof sendScheduledReportEmail>;
+
+describe('ScheduledReportService', () => {
+  let mongoServer: MongoMemoryServer;
+  const adminId = new mongoose.Types.ObjectId().toString();
+
+  const reportInput = {
+    name: 'Weekly financials',
+    reportType: 'financial' as const,
+    schedule: 'weekly' as const,
+    hourUtc: 7,
+    dayOfWeek: 1,
+    format: 'csv' as const,
+    recipients: ['finance@example.com']
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([
+      ScheduledReport.deleteMany({}),
+      GeneratedReport.deleteMany({})
+    ]);
+    mockSendEmail.mockReset();
+    mockSendEmail.mockResolvedValue(undefined);
+    jest.restoreAllMocks();
+  });
+
+  describe('scheduling', () => {
+    it('should build cron expressions for each schedule', () => {
+      const base = { hourUtc: 6, dayOfWeek: 1, dayOfMonth: 15 };
+
+      expect(ScheduledReportService.getCronExpression({ ...base, schedule: 'daily' })).toBe('0 6 * * *');
+      expect(ScheduledReportService.getCronExpression({ ...base, schedule: 'weekly' })).toBe('0 6 * * 1');
+      expect(ScheduledReportService.getCronExpression({ ...base, schedule: 'monthly' })).toBe('0 6 15 * *');
+    });
+
+    it('should calculate the next run in UTC', () => {
+      const after = new Date('2024-03-06T12:00:00Z'); // Wednesday
+
+      const next = ScheduledReportService.getNextRunAt(
+        { schedule: 'weekly', hourUtc: 7, dayOfWeek: 1, dayOfMonth: 1 },
+        after
+      );
+
+      expect(next.toISOString()).toBe('2024-03-11T07:00:00.000Z');
+    });
+
+    it('should cover the full period before a run', () => {
+      const runAt = new Date('2024-03-01T06:00:00Z');
+
+      expect(ScheduledReportService.getReportPeriod('daily', runAt).start.toISOString()).toBe('2024-02-29T06:00:00.000Z');
+      expect(ScheduledReportService.getReportPeriod('weekly', runAt).start.toISOString()).toBe('2024-02-23T06:00:00.000Z');
+      expect(ScheduledReportService.getReportPeriod('monthly', runAt).start.toISOString()).toBe('2024-02-01T06:00:00.000Z');
+      expect(ScheduledReportService.getReportPeriod('monthly', runAt).end).toBe(runAt);
+    });
+  });
+
+  describe('createScheduledReport / updateScheduledReport', () => {
+    it('should set the next run for active reports', async () => {
+      const report = await ScheduledReportService.createScheduledReport(reportInput, adminId);
+
+      expect(report.createdBy).toBe(adminId);
+      expect(report.nextRunAt).toBeDefined();
+      expect(report.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+      expect(report.nextRunAt!.getUTCDay()).toBe(1);
+      expect(report.nextRunAt!.getUTCHours()).toBe(7);
+    });
+
+    it('should recalculate the next run when the schedule changes', async () => {
+      const report = await ScheduledReportService.createScheduledReport(reportInput, adminId);
+
+      const updated = await ScheduledReportService.updateScheduledReport(
+        report._id.toString(),
+        { schedule: 'monthly', dayOfMonth: 10 },
+        adminId
+      );
+
+      expect(updated.updatedBy).toBe(adminId);
+      expect(updated.nextRunAt!.getUTCDate()).toBe(10);
+    });
+
+    it('should clear the next run when deactivated', async () => {
+      const report = await ScheduledReportService.createScheduledReport(reportInput, adminId);
+
+      const updated = await ScheduledReportService.updateScheduledReport(
+        report._id.toString(),
+        { isActive: false },
+        adminId
+      );
+
+      expect(updated.nextRunAt).toBeUndefined();
+    });
+
+    it('should reject reports without recipients', async () => {
+      await expect(
+        ScheduledReportService.createScheduledReport({ ...reportInput, recipients: [] }, adminId)
+      ).rejects.toThrow('At least one recipient is required');
+    });
+
+    it('should throw for unknown reports', async () => {
+      await expect(
+        ScheduledReportService.updateScheduledReport(new mongoose.Types.ObjectId().toString(), { isActive: false }, adminId)
+      ).rejects.toThrow('Scheduled report not found');
+    });
+  });
+
+  describe('generateReport', () => {
+    const periodStart = new Date('2024-03-01T00:00:00Z');
+    const periodEnd = new Date('2024-03-08T00:00:00Z');
+
+    it('should store the rendered file and email recipients', async () => {
+      const generated = await ScheduledReportService.generateReport({
+        name: 'Weekly financials',
+        reportType: 'financial',
+        format: 'csv',
+        periodStart,
+        periodEnd,
+        trigger: 'manual',
+        generatedBy: adminId,
+        recipients: ['finance@example.com']
+      });
+
+      expect(generated.status).toBe('completed');
+      expect(generated.contentType).toBe('text/csv');
+      expect(generated.emailedAt).toBeDefined();
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        ['finance@example.com'],
+        expect.objectContaining({ name: 'Weekly financials', fileName: generated.fileName })
+      );
+
+      const stored = await ScheduledReportService.getReportFile(generated._id.toString());
+      expect(stored!.content!.length).toBe(generated.size);
+      expect(stored!.toJSON()).not.toHaveProperty('content');
+    });
+
+    it('should record failures in the history', async () => {
+      jest.spyOn(AdminReportingService, 'getReport').mockRejectedValueOnce(new Error('Aggregation failed'));
+
+      const generated = await ScheduledReportService.generateReport({
+        name: 'Weekly financials',
+        reportType: 'financial',
+        format: 'json',
+        periodStart,
+        periodEnd,
+        trigger: 'manual'
+      });
+
+      expect(generated.status).toBe('failed');
+      expect(generated.error).toBe('Aggregation failed');
+      expect(mockSendEmail).not.toHaveBeenCalled();
+      expect(await ScheduledReportService.getReportFile(generated._id.toString())).toBeNull();
+    });
+
+    it('should mark the report failed when email delivery fails', async () => {
+      mockSendEmail.mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      const generated = await ScheduledReportService.generateReport({
+        name: 'Weekly financials',
+        reportType: 'financial',
+        format: 'csv',
+        periodStart,
+        periodEnd,
+        trigger: 'schedule',
+        recipients: ['finance@example.com']
+      });
+
+      expect(generated.status).toBe('failed');
+      expect(generated.error).toBe('SMTP unavailable');
+      expect(generated.emailedAt).toBeUndefined();
+    });
+  });
+
+  describe('processDueReports', () => {
+    it('should generate due reports for the period ending at the scheduled slot', async () => {
+      const report = await ScheduledReportService.createScheduledReport(reportInput, adminId);
+      const slot = new Date(Date.now() - 60 * 1000);
+      await ScheduledReport.updateOne({ _id: report._id }, { nextRunAt: slot });
+
+      const result = await ScheduledReportService.processDueReports();
+
+      expect(result).toEqual({ generated: 1, failed: 0 });
+
+      const history = await GeneratedReport.find({ scheduledReportId: report._id.toString() });
+      expect(history).toHaveLength(1);
+      expect(history[0].trigger).toBe('schedule');
+      expect(history[0].periodEnd.getTime()).toBe(slot.getTime());
+
+      const updated = await ScheduledReport.findById(report._id);
+      expect(updated!.lastRunStatus).toBe('completed');
+      expect(updated!.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should skip inactive and future reports', async () => {
+      await ScheduledReportService.createScheduledReport(reportInput, adminId);
+      const inactive = await ScheduledReportService.createScheduledReport(reportInput, adminId);
+      await ScheduledReport.updateOne({ _id: inactive._id }, { isActive: false, nextRunAt: new Date(Date.now() - 60 * 1000) });
+
+      const result = await ScheduledReportService.processDueReports();
+
+      expect(result).toEqual({ generated: 0, failed: 0 });
+      expect(await GeneratedReport.countDocuments()).toBe(0);
+    });
+
+    it('should record failed runs on the schedule', async () => {
+      jest.spyOn(AdminReportingService, 'getReport').mockRejectedValueOnce(new Error('Aggregation failed'));
+      const report = await ScheduledReportService.createScheduledReport(reportInput, adminId);
+      await ScheduledReport.updateOne({ _id: report._id }, { nextRunAt: new Date(Date.now() - 60 * 1000) });
+
+      const result = await ScheduledReportService.processDueReports();
+
+      expect(result).toEqual({ generated: 0, failed: 1 });
+      const updated = await ScheduledReport.findById(report._id);
+      expect(updated!.lastRunStatus).toBe('failed');
+      expect(updated!.lastError).toBe('Aggregation failed');
+    });
+  });
+
+  describe('getReportHistory', () => {
+    it('should filter and paginate generated reports', async () => {
+      const report = await ScheduledReportService.createScheduledReport(reportInput, adminId);
+      await ScheduledReportService.runNow(report._id.toString(), adminId);
+      await ScheduledReportService.runNow(report._id.toString(), adminId);
+      await ScheduledReportService.generateReport({
+        name: 'Ad hoc compliance',
+        reportType: 'compliance',
+        format: 'json',
+        periodStart: new Date('2024-01-01T00:00:00Z'),
+        periodEnd: new Date('2024-02-01T00:00:00Z'),
+        trigger: 'manual'
+      });
+
+      const all = await ScheduledReportService.getReportHistory({}, 1, 2);
+      expect(all.total).toBe(3);
+      expect(all.reports).toHaveLength(2);
+
+      const scheduled = await ScheduledReportService.getReportHistory({ scheduledReportId: report._id.toString() });
+      expect(scheduled.total).toBe(2);
+      expect(scheduled.reports.every(entry => entry.trigger === 'manual' && entry.generatedBy === adminId)).toBe(true);
+    });
+  });
+});
@@ -7,7 +7,12 @@ import { PayoutRequest } from '../../models/PayoutRequest';
 import { User } from '../../models/User';
 import { Product } from '../../models/Product';
 import { AuditLog } from '../../models/AuditLog';
+import { LoginAttempt } from '../../models/LoginAttempt';
+import { ReportType, ReportFormat } from '../../models/ScheduledReport';
+import { ReportExportService } from './reportExport';
 import { logger } from '../../utils/logger';
+import { inBaseCurrency } from '../currency';
+import { DEFAULT_CURRENCY, getBaseCurrency } from '../../utils/currency';
 
 export interface PlatformPerformanceDashboard {
   overview: {
@@ -60,6 +65,7 @@ export interface PlatformPerformanceDashboard {
 }
 
 export interface FinancialReport {
+  baseCurrency: string; // Currency every amount is reported in, except the per-currency breakdowns
   summary: {
     totalRevenue: number;
     totalCommissions: number;
@@ -86,7 +92,19 @@ export interface FinancialReport {
       commissions: number;
       amount: number;
     }>;
+    byCurrency: Array<{
+      currency: string;
+      commissions: number;
+      amount: number; // In the commission currency
+      baseAmount: number;
+    }>;
   };
+  revenueByCurrency: Array<{
+    currency: string;
+    conversions: number;
+    revenue: number; // In the conversion currency
+    baseRevenue: number;
+  }>;
   payoutBreakdown: {
     byStatus: Array<{
       status: string;
@@ -159,16 +177,10 @@ export interface ComplianceReport {
   };
 }
 
-export interface ScheduledReport {
-  id: string;
-  name: string;
-  type: 'platform_performance' | 'financial' | 'compliance';
-  schedule: 'daily' | 'weekly' | 'monthly';
-  recipients: string[];
-  lastRun?: Date;
-  nextRun: Date;
-  isActive: boolean;
-  parameters: any;
+export interface RenderedReport {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
 }
 
 export class AdminReportingService {
@@ -257,7 +269,7 @@ export class AdminReportingService {
           $group: {
             _id: null,
             totalCommissions: { $sum: 1 },
-            totalCommissionAmount: { $sum: '$commissionAmount' }
+            totalCommissionAmount: { $sum: inBaseCurrency('$commissionAmount') }
           }
         }
       ];
@@ -316,7 +328,7 @@ export class AdminReportingService {
                     }
                   },
                   conversions: { $sum: 1 },
-                  revenue: { $sum: '$initialSpendAmount' }
+                  revenue: { $sum: inBaseCurrency('$initialSpendAmount') }
                 }
               }
             ],
@@ -364,7 +376,7 @@ export class AdminReportingService {
           $group: {
             _id: '$referralLink.marketerId',
             conversions: { $sum: 1 },
-            revenue: { $sum: '$initialSpendAmount' }
+            revenue: { $sum: inBaseCurrency('$initialSpendAmount') }
           }
         },
         {
@@ -387,7 +399,7 @@ export class AdminReportingService {
               {
                 $group: {
                   _id: null,
-                  commissions: { $sum: '$commissionAmount' }
+                  commissions: { $sum: inBaseCurrency('$commissionAmount') }
                 }
               }
             ],
@@ -433,7 +445,7 @@ export class AdminReportingService {
           $group: {
             _id: '$productId',
             conversions: { $sum: 1 },
-            revenue: { $sum: '$initialSpendAmount' }
+            revenue: { $sum: inBaseCurrency('$initialSpendAmount') }
           }
         },
         {
@@ -456,7 +468,7 @@ export class AdminReportingService {
               {
                 $group: {
                   _id: null,
-                  commissions: { $sum: '$commissionAmount' }
+                  commissions: { $sum: inBaseCurrency('$commissionAmount') }
                 }
               }
             ],
@@ -581,7 +593,7 @@ export class AdminReportingService {
               {
                 $group: {
                   _id: null,
-                  totalRevenue: { $sum: '$initialSpendAmount' }
+                  totalRevenue: { $sum: inBaseCurrency('$initialSpendAmount') }
                 }
               }
             ],
@@ -595,7 +607,7 @@ export class AdminReportingService {
                 $group: {
                   _id: '$status',
                   count: { $sum: 1 },
-                  amount: { $sum: '$commissionAmount' }
+                  amount: { $sum: inBaseCurrency('$commissionAmount') }
                 }
               }
             ],
@@ -629,7 +641,7 @@ export class AdminReportingService {
           $group: {
             _id: '$productId',
             commissions: { $sum: 1 },
-            amount: { $sum: '$commissionAmount' }
+            amount: { $sum: inBaseCurrency('$commissionAmount') }
           }
         },
         {
@@ -665,7 +677,7 @@ export class AdminReportingService {
           $group: {
             _id: '$marketerId',
             commissions: { $sum: 1 },
-            amount: { $sum: '$commissionAmount' }
+            amount: { $sum: inBaseCurrency('$commissionAmount') }
           }
         },
         {
@@ -691,6 +703,61 @@ export class AdminReportingService {
         { $sort: { amount: -1 } }
       ];
 
+      // Commission and revenue totals in their original currencies
+      const commissionByCurrencyPipeline: any[] = [
+        {
+          $match: {
+            conversionDate: { $gte: startDate, $lte: endDate },
+            status: { $in: ['approved', 'paid'] }
+          }
+        },
+        {
+          $group: {
+            _id: { $ifNull: ['$currency', DEFAULT_CURRENCY] },
+            commissions: { $sum: 1 },
+            amount: { $sum: '$commissionAmount' },
+            baseAmount: { $sum: inBaseCurrency('$commissionAmount') }
+          }
+        },
+        {
+          $project: {
+            currency: '$_id',
+            commissions: 1,
+            amount: 1,
+            baseAmount: 1,
+            _id: 0
+          }
+        },
+        { $sort: { baseAmount: -1 } }
+      ];
+
+      const revenueByCurrencyPipeline: any[] = [
+        {
+          $match: {
+            conversionTimestamp: { $gte: startDate, $lte: endDate },
+            commissionEligible: true
+          }
+        },
+        {
+          $group: {
+            _id: { $ifNull: ['$currency', DEFAULT_CURRENCY] },
+            conversions: { $sum: 1 },
+            revenue: { $sum: '$initialSpendAmount' },
+            baseRevenue: { $sum: inBaseCurrency('$initialSpendAmount') }
+          }
+        },
+        {
+          $project: {
+            currency: '$_id',
+            conversions: 1,
+            revenue: 1,
+            baseRevenue: 1,
+            _id: 0
+          }
+        },
+        { $sort: { baseRevenue: -1 } }
+      ];
+
       // Payout breakdown by method
       const payoutByMethodPipeline: any[] = [
         {
@@ -783,7 +850,7 @@ export class AdminReportingService {
                       date: '$conversionTimestamp'
                     }
                   },
-                  revenue: { $sum: '$initialSpendAmount' }
+                  revenue: { $sum: inBaseCurrency('$initialSpendAmount') }
                 }
               }
             ],
@@ -802,7 +869,7 @@ export class AdminReportingService {
                       date: '$conversionDate'
                     }
                   },
-                  commissions: { $sum: '$commissionAmount' }
+                  commissions: { $sum: inBaseCurrency('$commissionAmount') }
                 }
               }
             ],
@@ -834,6 +901,8 @@ export class AdminReportingService {
         summaryResult,
         commissionByProductResult,
         commissionByMarketerResult,
+        commissionByCurrencyResult,
+        revenueByCurrencyResult,
         payoutByMethodResult,
         payoutByMarketerResult,
         cashFlowResult
@@ -841,6 +910,8 @@ export class AdminReportingService {
         ConversionEvent.aggregate(summaryPipeline),
         Commission.aggregate(commissionByProductPipeline),
         Commission.aggregate(commissionByMarketerPipeline),
+        Commission.aggregate(commissionByCurrencyPipeline),
+        ConversionEvent.aggregate(revenueByCurrencyPipeline),
         PayoutRequest.aggregate(payoutByMethodPipeline),
         PayoutRequest.aggregate(payoutByMarketerPipeline),
         ConversionEvent.aggregate(cashFlowPipeline)
@@ -869,6 +940,7 @@ export class AdminReportingService {
       const cashFlow = this.processCashFlowData(cashFlowResult[0] || { revenue: [], commissions: [], payouts: [] });
 
       return {
+        baseCurrency: getBaseCurrency(),
         summary: {
           totalRevenue,
           totalCommissions,
@@ -884,8 +956,10 @@ export class AdminReportingService {
             amount: item.amount
           })),
           byProduct: commissionByProductResult,
-          byMarketer: commissionByMarketerResult
+          byMarketer: commissionByMarketerResult,
+          byCurrency: commissionByCurrencyResult
         },
+        revenueByCurrency: revenueByCurrencyResult,
         payoutBreakdown: {
           byStatus: Object.values(payoutsByStatus).map((item: any) => ({
             status: item._id,
@@ -1012,11 +1086,16 @@ export class AdminReportingService {
       ];
 
       // Execute aggregations
-      const [gdprResult, auditResult, userActivityResult] = await Promise.all([
+      const [gdprResult, auditResult, userActivityResult, failedLogins] = await Promise.all([
         // Note: These would need actual GDPR request models
         Promise.resolve([]), // DataAccessRequest.aggregate(gdprPipeline),
         AuditLog.aggregate(auditPipeline),
-        User.aggregate(userActivityPipeline)
+        User.aggregate(userActivityPipeline),
+        // Wrong passwords and attempts refused by lockout, throttling or CAPTCHA
+        LoginAttempt.countDocuments({
+          outcome: { $in: ['failed', 'blocked'] },
+          createdAt: { $gte: startDate, $lte: endDate }
+        })
       ]);
 
       // Process results
@@ -1054,7 +1133,7 @@ export class AdminReportingService {
           suspendedUsers: userStats.suspended || 0,
           revokedUsers: userStats.revoked || 0,
           newRegistrations: userActivity.newRegistrations[0]?.count || 0,
-          failedLogins: 0 // Would be calculated from audit logs
+          failedLogins
         },
         dataRetention: {
           recordsScheduledForDeletion: 0, // Would be calculated from retention policies
@@ -1154,4 +1233,64 @@ export class AdminReportingService {
     
     return Array.from(dateMap.values()).sort((a, b) => a.date.localeCompare(b.date));
   }
+
+  /**
+   * Generate a report by type
+   */
+  static async getReport(reportType: ReportType, startDate: Date, endDate: Date): Promise<any> {
+    switch (reportType) {
+      case 'platform_performance':
+        return this.getPlatformPerformanceDashboard(startDate, endDate);
+      case 'financial':
+        return this.getFinancialReport(startDate, endDate);
+      case 'compliance':
+        return this.getComplianceReport(startDate, endDate);
+      default:
+        throw new Error(`Unsupported report type: ${reportType}`);
+    }
+  }
+
+  /**
+   * Base file name for an exported report
+   */
+  static getExportFileName(reportType: ReportType, generatedAt: Date = new Date()): string {
+    return `${reportType}_report_${generatedAt.toISOString().split('T')[0]}`;
+  }
+
+  /**
+   * Render report data as a downloadable file. Tabular formats get one sheet
+   * (or CSV file) per report section.
+   */
+  static async renderReport(
+    reportType: ReportType,
+    data: any,
+    format: ReportFormat,
+    generatedAt: Date = new Date()
+  ): Promise<RenderedReport> {
+    const fileName = this.getExportFileName(reportType, generatedAt);
+
+    switch (format) {
+      case 'json':
+        return {
+          fileName: `${fileName}.json`,
+          contentType: 'application/json',
+          content: Buffer.from(JSON.stringify({
+            data,
+            exportedAt: generatedAt.toISOString()
+          }, null, 2))
+        };
+      case 'csv':
+      case 'xlsx': {
+        const tables = ReportExportService.flattenReport(data, reportType);
+        const file = ReportExportService.getFileInfo(format, tables.length);
+        return {
+          fileName: `${fileName}.${file.extension}`,
+          contentType: file.contentType,
+          content: await ReportExportService.toBuffer(tables, format)
+        };
+      }
+      default:
+        throw new Error(`Unsupported report format: ${format}`);
+    }
+  }
 }
\ No newline at end of file
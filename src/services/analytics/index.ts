@@ -3,7 +3,9 @@ import { ClickEvent } from '../../models/ClickEvent';
 import { ConversionEvent } from '../../models/ConversionEvent';
 import { ReferralLink } from '../../models/ReferralLink';
 import { Commission } from '../../models/Commission';
+import { ReportExportService } from './reportExport';
 import { logger } from '../../utils/logger';
+import { inBaseCurrency } from '../currency';
 
 export interface PerformanceMetrics {
   totalClicks: number;
@@ -126,7 +128,7 @@ export class AnalyticsService {
           $group: {
             _id: null,
             totalConversions: { $sum: 1 },
-            totalRevenue: { $sum: '$initialSpendAmount' },
+            totalRevenue: { $sum: inBaseCurrency('$initialSpendAmount') },
             uniqueCustomers: { $addToSet: '$customerId' }
           }
         }
@@ -151,8 +153,8 @@ export class AnalyticsService {
         {
           $group: {
             _id: null,
-            totalCommissionAmount: { $sum: '$commissionAmount' },
-            averageCommissionAmount: { $avg: '$commissionAmount' },
+            totalCommissionAmount: { $sum: inBaseCurrency('$commissionAmount') },
+            averageCommissionAmount: { $avg: inBaseCurrency('$commissionAmount') },
             commissionCount: { $sum: 1 }
           }
         }
@@ -221,7 +223,7 @@ export class AnalyticsService {
               }
             },
             conversions: { $sum: 1 },
-            revenue: { $sum: '$initialSpendAmount' }
+            revenue: { $sum: inBaseCurrency('$initialSpendAmount') }
           }
         },
         { $sort: { _id: 1 } },
@@ -242,7 +244,7 @@ export class AnalyticsService {
           $group: {
             _id: '$productId',
             conversions: { $sum: 1 },
-            revenue: { $sum: '$initialSpendAmount' }
+            revenue: { $sum: inBaseCurrency('$initialSpendAmount') }
           }
         },
         { $sort: { conversions: -1 } },
@@ -274,7 +276,7 @@ export class AnalyticsService {
             $group: {
               _id: '$referralLink.marketerId',
               conversions: { $sum: 1 },
-              revenue: { $sum: '$initialSpendAmount' }
+              revenue: { $sum: inBaseCurrency('$initialSpendAmount') }
             }
           },
           { $sort: { conversions: -1 } },
@@ -396,124 +398,145 @@ export class AnalyticsService {
   }
 
   /**
-   * Generate custom reports using MongoDB aggregation framework
+   * Build the aggregation pipeline for a custom report
    */
-  static async generateCustomReport(
+  private static async buildCustomReportPipeline(
     reportType: 'clicks' | 'conversions' | 'commissions',
     filters: any = {},
     groupBy?: string,
     sortBy?: string,
     limit?: number
-  ): Promise<CustomReportData> {
-    try {
-      let collection: any;
-      let pipeline: any[] = [];
-
-      // Determine collection and base match stage
-      switch (reportType) {
-        case 'clicks':
-          collection = ClickEvent;
-          break;
-        case 'conversions':
-          collection = ConversionEvent;
-          break;
-        case 'commissions':
-          collection = Commission;
-          break;
-        default:
-          throw new Error('Invalid report type');
-      }
-
-      // Build match stage from filters
-      const matchStage: any = {};
-      
-      if (filters.startDate && filters.endDate) {
-        const dateField = reportType === 'clicks' ? 'timestamp' : 
-                         reportType === 'conversions' ? 'conversionTimestamp' : 'conversionDate';
-        matchStage[dateField] = {
-          $gte: new Date(filters.startDate),
-          $lte: new Date(filters.endDate)
-        };
-      }
+  ): Promise<{ collection: any; pipeline: any[]; matchStage: any }> {
+    let collection: any;
+    let pipeline: any[] = [];
+
+    // Determine collection and base match stage
+    switch (reportType) {
+      case 'clicks':
+        collection = ClickEvent;
+        break;
+      case 'conversions':
+        collection = ConversionEvent;
+        break;
+      case 'commissions':
+        collection = Commission;
+        break;
+      default:
+        throw new Error('Invalid report type');
+    }
 
-      if (filters.marketerId) {
-        if (reportType === 'commissions') {
-          matchStage.marketerId = filters.marketerId;
-        } else {
-          // For clicks and conversions, need to get tracking codes
-          const referralLinks = await ReferralLink.find({ marketerId: filters.marketerId }).select('trackingCode');
-          const trackingCodes = referralLinks.map(link => link.trackingCode);
-          matchStage.trackingCode = { $in: trackingCodes };
-        }
-      }
+    // Build match stage from filters
+    const matchStage: any = {};
+    
+    if (filters.startDate && filters.endDate) {
+      const dateField = reportType === 'clicks' ? 'timestamp' : 
+                       reportType === 'conversions' ? 'conversionTimestamp' : 'conversionDate';
+      matchStage[dateField] = {
+        $gte: new Date(filters.startDate),
+        $lte: new Date(filters.endDate)
+      };
+    }
 
-      if (filters.productId) {
-        if (reportType === 'clicks') {
-          const referralLinks = await ReferralLink.find({ productId: filters.productId }).select('trackingCode');
-          const trackingCodes = referralLinks.map(link => link.trackingCode);
-          matchStage.trackingCode = { $in: trackingCodes };
-        } else {
-          matchStage.productId = filters.productId;
-        }
+    if (filters.marketerId) {
+      if (reportType === 'commissions') {
+        matchStage.marketerId = filters.marketerId;
+      } else {
+        // For clicks and conversions, need to get tracking codes
+        const referralLinks = await ReferralLink.find({ marketerId: filters.marketerId }).select('trackingCode');
+        const trackingCodes = referralLinks.map(link => link.trackingCode);
+        matchStage.trackingCode = { $in: trackingCodes };
       }
+    }
 
-      if (filters.status && reportType === 'commissions') {
-        matchStage.status = filters.status;
+    if (filters.productId) {
+      if (reportType === 'clicks') {
+        const referralLinks = await ReferralLink.find({ productId: filters.productId }).select('trackingCode');
+        const trackingCodes = referralLinks.map(link => link.trackingCode);
+        matchStage.trackingCode = { $in: trackingCodes };
+      } else {
+        matchStage.productId = filters.productId;
       }
+    }
 
-      if (filters.commissionEligible !== undefined && reportType === 'conversions') {
-        matchStage.commissionEligible = filters.commissionEligible;
-      }
+    if (filters.status && reportType === 'commissions') {
+      matchStage.status = filters.status;
+    }
 
-      pipeline.push({ $match: matchStage });
+    if (filters.commissionEligible !== undefined && reportType === 'conversions') {
+      matchStage.commissionEligible = filters.commissionEligible;
+    }
 
-      // Add grouping if specified
-      if (groupBy) {
-        const groupStage: any = {
-          _id: `$${groupBy}`,
-          count: { $sum: 1 }
-        };
+    pipeline.push({ $match: matchStage });
 
-        // Add relevant sum fields based on report type
-        if (reportType === 'conversions') {
-          groupStage.totalRevenue = { $sum: '$initialSpendAmount' };
-          groupStage.avgRevenue = { $avg: '$initialSpendAmount' };
-        } else if (reportType === 'commissions') {
-          groupStage.totalCommission = { $sum: '$commissionAmount' };
-          groupStage.avgCommission = { $avg: '$commissionAmount' };
-        }
+    // Add grouping if specified
+    if (groupBy) {
+      const groupStage: any = {
+        _id: `$${groupBy}`,
+        count: { $sum: 1 }
+      };
 
-        pipeline.push({ $group: groupStage });
+      // Add relevant sum fields based on report type
+      if (reportType === 'conversions') {
+        groupStage.totalRevenue = { $sum: inBaseCurrency('$initialSpendAmount') };
+        groupStage.avgRevenue = { $avg: inBaseCurrency('$initialSpendAmount') };
+      } else if (reportType === 'commissions') {
+        groupStage.totalCommission = { $sum: inBaseCurrency('$commissionAmount') };
+        groupStage.avgCommission = { $avg: inBaseCurrency('$commissionAmount') };
+      }
 
-        // Project to clean up the output
-        const projectStage: any = {
-          [groupBy]: '$_id',
-          count: 1,
-          _id: 0
-        };
+      pipeline.push({ $group: groupStage });
 
-        if (reportType === 'conversions') {
-          projectStage.totalRevenue = 1;
-          projectStage.avgRevenue = 1;
-        } else if (reportType === 'commissions') {
-          projectStage.totalCommission = 1;
-          projectStage.avgCommission = 1;
-        }
+      // Project to clean up the output
+      const projectStage: any = {
+        [groupBy]: '$_id',
+        count: 1,
+        _id: 0
+      };
 
-        pipeline.push({ $project: projectStage });
+      if (reportType === 'conversions') {
+        projectStage.totalRevenue = 1;
+        projectStage.avgRevenue = 1;
+      } else if (reportType === 'commissions') {
+        projectStage.totalCommission = 1;
+        projectStage.avgCommission = 1;
       }
 
-      // Add sorting
-      if (sortBy) {
-        const sortStage: any = {};
-        sortStage[sortBy] = -1; // Default to descending
-        pipeline.push({ $sort: sortStage });
-      }
+      pipeline.push({ $project: projectStage });
+    }
 
-      // Add limit
-      if (limit) {
-        pipeline.push({ $limit: limit });
-      }
+    // Add sorting
+    if (sortBy) {
+      const sortStage: any = {};
+      sortStage[sortBy] = -1; // Default to descending
+      pipeline.push({ $sort: sortStage });
+    }
+
+    // Add limit
+    if (limit) {
+      pipeline.push({ $limit: limit });
+    }
+
+    return { collection, pipeline, matchStage };
+  }
+
+  /**
+   * Generate custom reports using MongoDB aggregation framework
+   */
+  static async generateCustomReport(
+    reportType: 'clicks' | 'conversions' | 'commissions',
+    filters: any = {},
+    groupBy?: string,
+    sortBy?: string,
+    limit?: number
+  ): Promise<CustomReportData> {
+    try {
+      const { collection, pipeline, matchStage } = await this.buildCustomReportPipeline(
+        reportType,
+        filters,
+        groupBy,
+        sortBy,
+        limit
+      );
 
       // Execute the aggregation
       const data = await collection.aggregate(pipeline);
@@ -552,6 +575,32 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Stream custom report rows from an aggregation cursor, for exports too large to hold in memory
+   */
+  static async streamCustomReport(
+    reportType: 'clicks' | 'conversions' | 'commissions',
+    filters: any = {},
+    groupBy?: string,
+    sortBy?: string,
+    limit?: number
+  ): Promise<AsyncIterable<any>> {
+    try {
+      const { collection, pipeline } = await this.buildCustomReportPipeline(
+        reportType,
+        filters,
+        groupBy,
+        sortBy,
+        limit
+      );
+
+      return collection.aggregate(pipeline).allowDiskUse(true).cursor({ batchSize: 500 });
+    } catch (error) {
+      logger.error('Error streaming custom report:', error);
+      throw new Error('Failed to generate custom report');
+    }
+  }
+
   /**
    * Export data in multiple formats using MongoDB queries
    */
@@ -572,10 +621,14 @@ export class AnalyticsService {
           }, null, 2);
 
         case 'csv':
-          return this.convertToCSV(reportData.data, includeHeaders);
+          return (await ReportExportService.toBuffer(
+            [ReportExportService.createTable('data', reportData.data)],
+            'csv',
+            { includeHeaders }
+          )).toString();
 
         case 'xlsx':
-          return this.convertToXLSX(reportData.data, includeHeaders);
+          return ReportExportService.toBuffer([ReportExportService.createTable('data', reportData.data)], 'xlsx');
 
         default:
           throw new Error('Unsupported export format');
@@ -661,41 +714,4 @@ export class AnalyticsService {
       logger.error('Error closing real-time analytics:', error);
     }
   }
-
-  /**
-   * Convert data to CSV format
-   */
-  private static convertToCSV(data: any[], includeHeaders: boolean): string {
-    if (data.length === 0) return '';
-
-    const headers = Object.keys(data[0]);
-    let csv = '';
-
-    if (includeHeaders) {
-      csv += headers.join(',') + '\n';
-    }
-
-    data.forEach(row => {
-      const values = headers.map(header => {
-        const value = row[header];
-        if (value === null || value === undefined) return '';
-        if (typeof value === 'string' && value.includes(',')) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value.toString();
-      });
-      csv += values.join(',') + '\n';
-    });
-
-    return csv;
-  }
-
-  /**
-   * Convert data to XLSX format (placeholder - would need xlsx library)
-   */
-  private static convertToXLSX(data: any[], includeHeaders: boolean): Buffer {
-    // This is a placeholder implementation
-    // In a real implementation, you would use a library like 'xlsx' or 'exceljs'
-    throw new Error('XLSX export not implemented - requires xlsx library');
-  }
 }
\ No newline at end of file
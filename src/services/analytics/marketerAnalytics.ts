@@ -4,6 +4,7 @@ import { ConversionEvent } from '../../models/ConversionEvent';
 import { ReferralLink } from '../../models/ReferralLink';
 import { Commission } from '../../models/Commission';
 import { logger } from '../../utils/logger';
+import { inBaseCurrency } from '../currency';
 
 export interface ConversionRateMetrics {
   marketerId: string;
@@ -422,7 +423,7 @@ export class MarketerAnalyticsService {
               }
             },
             commissions: { $sum: 1 },
-            amount: { $sum: '$commissionAmount' }
+            amount: { $sum: inBaseCurrency('$commissionAmount') }
           }
         },
         { $sort: { _id: 1 } },
@@ -478,8 +479,8 @@ export class MarketerAnalyticsService {
           $group: {
             _id: '$productId',
             commissions: { $sum: 1 },
-            amount: { $sum: '$commissionAmount' },
-            averageCommission: { $avg: '$commissionAmount' }
+            amount: { $sum: inBaseCurrency('$commissionAmount') },
+            averageCommission: { $avg: inBaseCurrency('$commissionAmount') }
           }
         },
         {
@@ -506,7 +507,7 @@ export class MarketerAnalyticsService {
           $group: {
             _id: '$status',
             count: { $sum: 1 },
-            amount: { $sum: '$commissionAmount' }
+            amount: { $sum: inBaseCurrency('$commissionAmount') }
           }
         },
         {
@@ -533,8 +534,8 @@ export class MarketerAnalyticsService {
           $group: {
             _id: null,
             totalCommissions: { $sum: 1 },
-            totalAmount: { $sum: '$commissionAmount' },
-            averageCommission: { $avg: '$commissionAmount' }
+            totalAmount: { $sum: inBaseCurrency('$commissionAmount') },
+            averageCommission: { $avg: inBaseCurrency('$commissionAmount') }
           }
         }
       ];
@@ -606,8 +607,8 @@ export class MarketerAnalyticsService {
           $group: {
             _id: null,
             totalCustomers: { $addToSet: '$customerId' },
-            totalSpend: { $sum: '$initialSpendAmount' },
-            averageCustomerValue: { $avg: '$initialSpendAmount' }
+            totalSpend: { $sum: inBaseCurrency('$initialSpendAmount') },
+            averageCustomerValue: { $avg: inBaseCurrency('$initialSpendAmount') }
           }
         },
         {
@@ -633,8 +634,8 @@ export class MarketerAnalyticsService {
           $group: {
             _id: '$productId',
             customers: { $addToSet: '$customerId' },
-            totalSpend: { $sum: '$initialSpendAmount' },
-            averageCustomerValue: { $avg: '$initialSpendAmount' }
+            totalSpend: { $sum: inBaseCurrency('$initialSpendAmount') },
+            averageCustomerValue: { $avg: inBaseCurrency('$initialSpendAmount') }
           }
         },
         {
@@ -676,8 +677,8 @@ export class MarketerAnalyticsService {
               }
             },
             customers: { $addToSet: '$customerId' },
-            totalSpend: { $sum: '$initialSpendAmount' },
-            averageCustomerValue: { $avg: '$initialSpendAmount' }
+            totalSpend: { $sum: inBaseCurrency('$initialSpendAmount') },
+            averageCustomerValue: { $avg: inBaseCurrency('$initialSpendAmount') }
           }
         },
         {
@@ -822,7 +823,7 @@ export class MarketerAnalyticsService {
               {
                 $group: {
                   _id: '$marketerId',
-                  averageCommission: { $avg: '$commissionAmount' }
+                  averageCommission: { $avg: inBaseCurrency('$commissionAmount') }
                 }
               }
             ],
@@ -0,0 +1,377 @@
+import { PassThrough, Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import archiver from 'archiver';
+
+export type TabularFormat = 'csv' | 'xlsx';
+export type ExportColumnType = 'string' | 'integer' | 'number' | 'date' | 'datetime' | 'boolean';
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  type: ExportColumnType;
+}
+
+export interface ExportTable {
+  name: string;
+  columns?: ExportColumn[]; // Inferred from the first rows when omitted
+  rows: Iterable<Record<string, any>> | AsyncIterable<Record<string, any>>;
+}
+
+export interface ExportFileInfo {
+  extension: string;
+  contentType: string;
+}
+
+export interface TabularExportOptions {
+  includeHeaders?: boolean; // CSV only; worksheets always have a header row
+}
+
+// Rows read before column types are fixed; keys first seen after this are not exported
+const COLUMN_SAMPLE_SIZE = 100;
+// Rows written between yields so large exports do not block the event loop
+const ROWS_PER_FLUSH = 1000;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+const NUMBER_FORMATS: Partial<Record<ExportColumnType, string>> = {
+  integer: '#,##0',
+  number: '#,##0.00',
+  date: 'yyyy-mm-dd',
+  datetime: 'yyyy-mm-dd hh:mm:ss'
+};
+
+const isBsonValue = (value: any): boolean =>
+  value !== null && typeof value === 'object' && typeof value._bsontype === 'string';
+
+const isPlainObject = (value: any): boolean =>
+  value !== null &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  !Buffer.isBuffer(value) &&
+  !isBsonValue(value);
+
+const normalizeScalar = (value: any): any => (isBsonValue(value) ? value.toString() : value);
+
+const valueType = (value: any): ExportColumnType => {
+  if (value instanceof Date) return 'datetime';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') {
+    if (DATE_PATTERN.test(value)) return 'date';
+    if (DATETIME_PATTERN.test(value)) return 'datetime';
+  }
+  return 'string';
+};
+
+const mergeTypes = (a: ExportColumnType, b: ExportColumnType): ExportColumnType => {
+  if (a === b) return a;
+  const pair = [a, b].sort().join('|');
+  if (pair === 'integer|number') return 'number';
+  if (pair === 'date|datetime') return 'datetime';
+  return 'string';
+};
+
+const formatCSVValue = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCellValue = (value: any, type: ExportColumnType): ExcelJS.CellValue => {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return Number(value);
+    case 'date':
+    case 'datetime':
+      return value instanceof Date ? value : new Date(value);
+    case 'boolean':
+      return Boolean(value);
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+};
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+export class ReportExportService {
+  /**
+   * Split a nested report into tables. Each array becomes its own table named by its path
+   * (e.g. `commissionBreakdown.byMarketer`), and the scalar fields of each object become a
+   * single-row table (e.g. `summary`, `period`).
+   */
+  static flattenReport(data: any, rootName: string = 'report'): ExportTable[] {
+    const tables: ExportTable[] = [];
+    this.collectTables(data, '', rootName, tables);
+    return tables;
+  }
+
+  /**
+   * Build a table from in-memory rows
+   */
+  static createTable(name: string, rows: Record<string, any>[]): ExportTable {
+    const flattened = rows.map(row => this.flattenRow(row));
+    return {
+      name,
+      columns: this.inferColumns(flattened),
+      rows: flattened
+    };
+  }
+
+  /**
+   * File extension and content type for an export. CSV exports with several tables are
+   * delivered as a zip archive with one CSV file per table.
+   */
+  static getFileInfo(format: TabularFormat, tableCount: number): ExportFileInfo {
+    if (format === 'xlsx') {
+      return {
+        extension: 'xlsx',
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      };
+    }
+
+    return tableCount > 1
+      ? { extension: 'zip', contentType: 'application/zip' }
+      : { extension: 'csv', contentType: 'text/csv' };
+  }
+
+  /**
+   * Stream tables to a writable (e.g. an HTTP response) as CSV or XLSX.
+   * Rows are written as they are read, so async iterables such as database cursors are never fully buffered.
+   */
+  static async writeTables(
+    tables: ExportTable[],
+    format: TabularFormat,
+    output: Writable,
+    options: TabularExportOptions = {}
+  ): Promise<void> {
+    switch (format) {
+      case 'xlsx':
+        return this.writeWorkbook(tables, output);
+      case 'csv':
+        if (tables.length === 1) {
+          return pipeline(Readable.from(this.csvLines(tables[0], options)), output);
+        }
+        return this.writeCSVArchive(tables, output, options);
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  /**
+   * Render tables into a buffer, for attachments and stored reports
+   */
+  static async toBuffer(
+    tables: ExportTable[],
+    format: TabularFormat,
+    options: TabularExportOptions = {}
+  ): Promise<Buffer> {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('end', resolve);
+      output.on('error', reject);
+    });
+
+    await this.writeTables(tables, format, output, options);
+    await finished;
+
+    return Buffer.concat(chunks);
+  }
+
+  private static collectTables(value: any, path: string, rootName: string, tables: ExportTable[]): void {
+    if (Array.isArray(value)) {
+      const rows = value.map(item => (isPlainObject(item) ? item : { value: item }));
+      tables.push(this.createTable(path || rootName, rows));
+      return;
+    }
+
+    if (!isPlainObject(value)) {
+      tables.push(this.createTable(path || rootName, [{ value }]));
+      return;
+    }
+
+    // Scalars come first so a section's totals precede its breakdowns
+    const index = tables.length;
+    const scalars: Record<string, any> = {};
+
+    for (const [key, child] of Object.entries(value)) {
+      if (Array.isArray(child) || isPlainObject(child)) {
+        this.collectTables(child, path ? `${path}.${key}` : key, rootName, tables);
+      } else {
+        scalars[key] = child;
+      }
+    }
+
+    if (Object.keys(scalars).length > 0) {
+      tables.splice(index, 0, this.createTable(path || rootName, [scalars]));
+    }
+  }
+
+  private static flattenRow(row: Record<string, any>, prefix: string = '', result: Record<string, any> = {}): Record<string, any> {
+    for (const [key, value] of Object.entries(row)) {
+      const column = prefix ? `${prefix}.${key}` : key;
+
+      if (isPlainObject(value)) {
+        this.flattenRow(value, column, result);
+      } else if (Array.isArray(value)) {
+        result[column] = JSON.stringify(value.map(normalizeScalar));
+      } else {
+        result[column] = normalizeScalar(value);
+      }
+    }
+    return result;
+  }
+
+  private static inferColumns(rows: Record<string, any>[]): ExportColumn[] {
+    const types = new Map<string, ExportColumnType | null>();
+
+    for (const row of rows) {
+      for (const [key, value] of Object.entries(row)) {
+        const current = types.get(key) ?? null;
+        if (value === null || value === undefined) {
+          types.set(key, current);
+          continue;
+        }
+        const type = valueType(value);
+        types.set(key, current === null ? type : mergeTypes(current, type));
+      }
+    }
+
+    return Array.from(types.entries()).map(([key, type]) => ({
+      key,
+      header: key,
+      type: type ?? 'string'
+    }));
+  }
+
+  /**
+   * Resolve a table's columns, sampling the first rows when they are not given
+   */
+  private static async resolveTable(table: ExportTable): Promise<{
+    columns: ExportColumn[];
+    rows: AsyncIterable<Record<string, any>>;
+  }> {
+    const flattenRow = (row: Record<string, any>) => this.flattenRow(row);
+    const iterator = (async function* () {
+      yield* table.rows;
+    })();
+
+    if (table.columns) {
+      return {
+        columns: table.columns,
+        rows: (async function* () {
+          for await (const row of iterator) {
+            yield flattenRow(row);
+          }
+        })()
+      };
+    }
+
+    const sample: Record<string, any>[] = [];
+    while (sample.length < COLUMN_SAMPLE_SIZE) {
+      const next = await iterator.next();
+      if (next.done) break;
+      sample.push(flattenRow(next.value));
+    }
+
+    return {
+      columns: this.inferColumns(sample),
+      rows: (async function* () {
+        yield* sample;
+        for await (const row of iterator) {
+          yield flattenRow(row);
+        }
+      })()
+    };
+  }
+
+  private static async *csvLines(table: ExportTable, options: TabularExportOptions): AsyncGenerator<string> {
+    const { includeHeaders = true } = options;
+    const { columns, rows } = await this.resolveTable(table);
+
+    if (columns.length === 0) return;
+
+    if (includeHeaders) {
+      yield columns.map(column => formatCSVValue(column.header)).join(',') + '\n';
+    }
+
+    for await (const row of rows) {
+      yield columns.map(column => formatCSVValue(row[column.key])).join(',') + '\n';
+    }
+  }
+
+  private static async writeCSVArchive(
+    tables: ExportTable[],
+    output: Writable,
+    options: TabularExportOptions
+  ): Promise<void> {
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const written = pipeline(archive, output);
+
+    const usedNames = new Set<string>();
+    for (const table of tables) {
+      const name = this.uniqueName(table.name.replace(/[^\w.-]+/g, '_'), usedNames, Infinity);
+      archive.append(Readable.from(this.csvLines(table, options)), { name: `${name}.csv` });
+    }
+
+    await Promise.all([archive.finalize(), written]);
+  }
+
+  private static async writeWorkbook(tables: ExportTable[], output: Writable): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    const usedNames = new Set<string>();
+
+    for (const table of tables) {
+      const { columns, rows } = await this.resolveTable(table);
+      // Excel rejects these characters in sheet names
+      const sheetName = this.uniqueName(table.name.replace(/[[\]:*?/\\]/g, ' '), usedNames, MAX_SHEET_NAME_LENGTH);
+      const sheet = workbook.addWorksheet(sheetName);
+
+      sheet.columns = columns.map(column => ({
+        header: column.header,
+        key: column.key,
+        width: Math.min(Math.max(column.header.length + 2, 12), 50),
+        style: NUMBER_FORMATS[column.type] ? { numFmt: NUMBER_FORMATS[column.type] } : {}
+      }));
+
+      let written = 0;
+      for await (const row of rows) {
+        const values: Record<string, ExcelJS.CellValue> = {};
+        for (const column of columns) {
+          values[column.key] = toCellValue(row[column.key], column.type);
+        }
+        sheet.addRow(values).commit();
+
+        if (++written % ROWS_PER_FLUSH === 0) {
+          await yieldToEventLoop();
+        }
+      }
+
+      sheet.commit();
+    }
+
+    await workbook.commit();
+  }
+
+  private static uniqueName(name: string, usedNames: Set<string>, maxLength: number): string {
+    const base = (name.trim() || 'Sheet').slice(0, maxLength);
+    let candidate = base;
+
+    for (let suffix = 2; usedNames.has(candidate.toLowerCase()); suffix++) {
+      const tag = ` (${suffix})`;
+      candidate = base.slice(0, maxLength - tag.length) + tag;
+    }
+
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+  }
+}
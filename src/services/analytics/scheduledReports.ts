@@ -0,0 +1,336 @@
+import { ScheduledReport, IScheduledReport, ReportType, ReportSchedule, ReportFormat } from '../../models/ScheduledReport';
+import { GeneratedReport, IGeneratedReport } from '../../models/GeneratedReport';
+import { AdminReportingService } from './adminReporting';
+import { CronSchedule } from '../scheduler/cron';
+import { sendScheduledReportEmail } from '../email';
+import { logger } from '../../utils/logger';
+
+export interface ScheduledReportInput {
+  name: string;
+  reportType: ReportType;
+  schedule: ReportSchedule;
+  hourUtc?: number;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  format?: ReportFormat;
+  recipients: string[];
+  isActive?: boolean;
+}
+
+export interface GenerateReportOptions {
+  name: string;
+  reportType: ReportType;
+  format: ReportFormat;
+  periodStart: Date;
+  periodEnd: Date;
+  trigger: 'schedule' | 'manual';
+  generatedBy?: string;
+  scheduledReportId?: string;
+  recipients?: string[];
+}
+
+// Keep stored error messages readable in report history
+const MAX_ERROR_LENGTH = 2000;
+
+export class ScheduledReportService {
+  /**
+   * Cron expression (UTC) for a report's schedule
+   */
+  static getCronExpression(report: Pick<IScheduledReport, 'schedule' | 'hourUtc' | 'dayOfWeek' | 'dayOfMonth'>): string {
+    switch (report.schedule) {
+      case 'daily':
+        return `0 ${report.hourUtc} * * *`;
+      case 'weekly':
+        return `0 ${report.hourUtc} * * ${report.dayOfWeek}`;
+      case 'monthly':
+        return `0 ${report.hourUtc} ${report.dayOfMonth} * *`;
+      default:
+        throw new Error(`Unsupported report schedule: ${report.schedule}`);
+    }
+  }
+
+  /**
+   * Next time a report is due after the given date
+   */
+  static getNextRunAt(
+    report: Pick<IScheduledReport, 'schedule' | 'hourUtc' | 'dayOfWeek' | 'dayOfMonth'>,
+    after: Date = new Date()
+  ): Date {
+    return new CronSchedule(this.getCronExpression(report)).next(after);
+  }
+
+  /**
+   * Period covered by a run: the full day, week or month before it
+   */
+  static getReportPeriod(schedule: ReportSchedule, runAt: Date): { start: Date; end: Date } {
+    const start = new Date(runAt.getTime());
+
+    switch (schedule) {
+      case 'daily':
+        start.setUTCDate(start.getUTCDate() - 1);
+        break;
+      case 'weekly':
+        start.setUTCDate(start.getUTCDate() - 7);
+        break;
+      case 'monthly':
+        start.setUTCMonth(start.getUTCMonth() - 1);
+        break;
+    }
+
+    return { start, end: runAt };
+  }
+
+  /**
+   * Create a scheduled report
+   */
+  static async createScheduledReport(input: ScheduledReportInput, adminId: string): Promise<IScheduledReport> {
+    try {
+      const report = new ScheduledReport({ ...input, createdBy: adminId });
+      if (report.isActive) {
+        report.nextRunAt = this.getNextRunAt(report);
+      }
+      return await report.save();
+    } catch (error) {
+      logger.error('Error creating scheduled report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List scheduled reports
+   */
+  static async getScheduledReports(
+    filters: { reportType?: string; reportTypes?: ReportType[]; isActive?: boolean } = {}
+  ): Promise<IScheduledReport[]> {
+    try {
+      const query: any = {};
+      if (filters.reportTypes) query.reportType = { $in: filters.reportTypes };
+      if (filters.reportType) query.reportType = filters.reportType;
+      if (filters.isActive !== undefined) query.isActive = filters.isActive;
+
+      return await ScheduledReport.find(query).sort({ createdAt: -1 });
+    } catch (error) {
+      logger.error('Error getting scheduled reports:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a scheduled report
+   */
+  static async getScheduledReport(reportId: string): Promise<IScheduledReport | null> {
+    try {
+      return await ScheduledReport.findById(reportId);
+    } catch (error) {
+      logger.error('Error getting scheduled report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a scheduled report. The next run is recalculated from the new schedule.
+   */
+  static async updateScheduledReport(
+    reportId: string,
+    updates: Partial<ScheduledReportInput>,
+    adminId: string
+  ): Promise<IScheduledReport> {
+    try {
+      const report = await ScheduledReport.findById(reportId);
+      if (!report) {
+        throw new Error('Scheduled report not found');
+      }
+
+      Object.assign(report, updates, { updatedBy: adminId });
+      report.nextRunAt = report.isActive ? this.getNextRunAt(report) : undefined;
+
+      return await report.save();
+    } catch (error) {
+      logger.error('Error updating scheduled report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a scheduled report. Reports it already generated stay in the history.
+   */
+  static async deleteScheduledReport(reportId: string): Promise<IScheduledReport> {
+    try {
+      const report = await ScheduledReport.findByIdAndDelete(reportId);
+      if (!report) {
+        throw new Error('Scheduled report not found');
+      }
+      return report;
+    } catch (error) {
+      logger.error('Error deleting scheduled report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a report, store the rendered file and email it to any recipients.
+   * Failures are recorded in the history rather than thrown.
+   */
+  static async generateReport(options: GenerateReportOptions): Promise<IGeneratedReport> {
+    const recipients = options.recipients || [];
+    const history = new GeneratedReport({
+      reportType: options.reportType,
+      scheduledReportId: options.scheduledReportId,
+      trigger: options.trigger,
+      generatedBy: options.generatedBy,
+      periodStart: options.periodStart,
+      periodEnd: options.periodEnd,
+      format: options.format,
+      status: 'completed',
+      recipients
+    });
+
+    try {
+      const data = await AdminReportingService.getReport(options.reportType, options.periodStart, options.periodEnd);
+      const file = await AdminReportingService.renderReport(options.reportType, data, options.format);
+
+      history.fileName = file.fileName;
+      history.contentType = file.contentType;
+      history.size = file.content.length;
+      history.content = file.content;
+
+      if (recipients.length > 0) {
+        await sendScheduledReportEmail(recipients, {
+          name: options.name,
+          periodStart: options.periodStart,
+          periodEnd: options.periodEnd,
+          ...file
+        });
+        history.emailedAt = new Date();
+      }
+    } catch (error: any) {
+      history.status = 'failed';
+      history.error = (error?.message || String(error)).slice(0, MAX_ERROR_LENGTH);
+      logger.error(`Report generation failed for ${options.name}:`, error);
+    }
+
+    return history.save();
+  }
+
+  /**
+   * Generate a scheduled report for the period ending at `runAt` and record the outcome on the schedule
+   */
+  private static async runReport(
+    report: IScheduledReport,
+    runAt: Date,
+    trigger: 'schedule' | 'manual',
+    adminId?: string
+  ): Promise<IGeneratedReport> {
+    const period = this.getReportPeriod(report.schedule, runAt);
+
+    const generated = await this.generateReport({
+      name: report.name,
+      reportType: report.reportType,
+      format: report.format,
+      periodStart: period.start,
+      periodEnd: period.end,
+      trigger,
+      generatedBy: adminId,
+      scheduledReportId: report._id.toString(),
+      recipients: report.recipients
+    });
+
+    await ScheduledReport.updateOne(
+      { _id: report._id },
+      generated.status === 'completed'
+        ? { $set: { lastRunAt: new Date(), lastRunStatus: 'completed' }, $unset: { lastError: 1 } }
+        : { $set: { lastRunAt: new Date(), lastRunStatus: 'failed', lastError: generated.error } }
+    );
+
+    return generated;
+  }
+
+  /**
+   * Generate and send every active report that is due. Missed runs are not replayed.
+   */
+  static async processDueReports(limit: number = 50): Promise<{ generated: number; failed: number }> {
+    const result = { generated: 0, failed: 0 };
+    const now = new Date();
+
+    const dueReports = await ScheduledReport.find({
+      isActive: true,
+      nextRunAt: { $lte: now }
+    })
+      .sort({ nextRunAt: 1 })
+      .limit(limit);
+
+    for (const report of dueReports) {
+      // Advance the schedule first so a report is only sent once per slot
+      const claimed = await ScheduledReport.findOneAndUpdate(
+        { _id: report._id, isActive: true, nextRunAt: report.nextRunAt },
+        { $set: { nextRunAt: this.getNextRunAt(report, now) } }
+      );
+      if (!claimed) continue;
+
+      const generated = await this.runReport(report, report.nextRunAt!, 'schedule');
+      if (generated.status === 'completed') {
+        result.generated++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Generate a scheduled report now for the period ending now
+   */
+  static async runNow(reportId: string, adminId: string): Promise<IGeneratedReport> {
+    try {
+      const report = await ScheduledReport.findById(reportId);
+      if (!report) {
+        throw new Error('Scheduled report not found');
+      }
+
+      return await this.runReport(report, new Date(), 'manual', adminId);
+    } catch (error) {
+      logger.error('Error running scheduled report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generated report history, most recent first
+   */
+  static async getReportHistory(
+    filters: { reportType?: string; reportTypes?: ReportType[]; scheduledReportId?: string; status?: string } = {},
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ reports: IGeneratedReport[]; total: number }> {
+    try {
+      const query: any = {};
+      if (filters.reportTypes) query.reportType = { $in: filters.reportTypes };
+      if (filters.reportType) query.reportType = filters.reportType;
+      if (filters.scheduledReportId) query.scheduledReportId = filters.scheduledReportId;
+      if (filters.status) query.status = filters.status;
+
+      const [reports, total] = await Promise.all([
+        GeneratedReport.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        GeneratedReport.countDocuments(query)
+      ]);
+
+      return { reports, total };
+    } catch (error) {
+      logger.error('Error getting report history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a generated report including its rendered file
+   */
+  static async getReportFile(generatedReportId: string): Promise<IGeneratedReport | null> {
+    try {
+      return await GeneratedReport.findOne({ _id: generatedReportId, status: 'completed' }).select('+content');
+    } catch (error) {
+      logger.error('Error getting generated report file:', error);
+      throw error;
+    }
+  }
+}
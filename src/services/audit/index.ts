@@ -1,4 +1,5 @@
 import { AuditLog, IAuditLog } from '../../models/AuditLog';
+import { AssuranceLevel } from '../../models/Session';
 import { logger } from '../../utils/logger';
 import { Request } from 'express';
 import { AuthenticatedRequest } from '../../middleware/auth';
@@ -19,6 +20,7 @@ export interface AuditLogData {
   };
   ipAddress?: string;
   userAgent?: string;
+  assuranceLevel?: AssuranceLevel;
 }
 
 export class AuditService {
@@ -35,6 +37,7 @@ export class AuditService {
         details: data.details || {},
         ipAddress: data.ipAddress,
         userAgent: data.userAgent,
+        assuranceLevel: data.assuranceLevel,
         timestamp: new Date()
       });
 
@@ -61,7 +64,8 @@ export class AuditService {
   static extractRequestMetadata(req: Request | AuthenticatedRequest) {
     return {
       ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-      userAgent: req.get('User-Agent') || 'unknown'
+      userAgent: req.get('User-Agent') || 'unknown',
+      assuranceLevel: (req as AuthenticatedRequest).assuranceLevel
     };
   }
 
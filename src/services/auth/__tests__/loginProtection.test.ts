@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { AuthService } from '../index';
+import {
+  LoginProtectionService,
+  LOGIN_PROTECTION_ERRORS,
+  getLoginProtectionPolicy,
+  getRetryDelaySeconds,
+  getLockoutMinutes
+} from '../loginProtection';
+import { LoginAttempt } from '../../../models/LoginAttempt';
+import { AuditLog } from '../../../models/AuditLog';
+import { Session } from '../../../models/Session';
+import { User } from '../../../models/User';
+
+describe('LoginProtectionService', () => {
+  describe('policy', () => {
+    const policy = getLoginProtectionPolicy();
+
+    it('should double the delay between attempts after the first few failures', () => {
+      expect([0, 2, 3, 4, 5].map(failures => getRetryDelaySeconds(failures, policy))).toEqual([0, 0, 1, 2, 4]);
+      expect(getRetryDelaySeconds(50, policy)).toBe(policy.maxDelaySeconds);
+    });
+
+    it('should lengthen each repeated lockout up to the maximum', () => {
+      expect([0, 1, 2].map(lockouts => getLockoutMinutes(lockouts, policy))).toEqual([15, 30, 60]);
+      expect(getLockoutMinutes(20, policy)).toBe(24 * 60);
+    });
+  });
+
+  describe('with a database', () => {
+    let mongoServer: MongoMemoryServer;
+    let userId: string;
+    const email = 'test@example.com';
+    const context = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+    const failLogin = (attemptEmail = email, captchaToken?: string) =>
+      AuthService.loginUser({ email: attemptEmail, password: 'WrongPassword123!', captchaToken }, context);
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      // Attempts in these tests follow each other immediately; only lockouts are under test
+      process.env.LOGIN_DELAY_AFTER_ATTEMPTS = '100';
+      LoginProtectionService.setCaptchaVerifier(null);
+
+      await Promise.all([
+        User.deleteMany({}),
+        LoginAttempt.deleteMany({}),
+        AuditLog.deleteMany({}),
+        Session.deleteMany({})
+      ]);
+
+      const user = await User.create({
+        email,
+        password: 'Password123!',
+        firstName: 'Test',
+        lastName: 'User',
+        role: 'marketer',
+        status: 'active',
+        emailVerified: true
+      });
+      userId = user._id.toString();
+    });
+
+    afterEach(() => {
+      delete process.env.LOGIN_DELAY_AFTER_ATTEMPTS;
+      delete process.env.LOGIN_IP_MAX_FAILED_ATTEMPTS;
+      LoginProtectionService.setCaptchaVerifier(undefined);
+    });
+
+    it('should lock the account after repeated failures until an admin unlocks it', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(failLogin()).rejects.toThrow('Invalid email or password');
+      }
+
+      await expect(AuthService.loginUser({ email, password: 'Password123!' }, context))
+        .rejects.toThrow(LOGIN_PROTECTION_ERRORS.accountLocked);
+
+      const status = await LoginProtectionService.getLoginStatus(email, context.ipAddress);
+      expect(status).toMatchObject({ blockedReason: 'account_locked' });
+      expect(status.retryAfterSeconds).toBeGreaterThan(14 * 60);
+
+      expect(await AuditLog.countDocuments({ action: 'login_failed', resourceId: userId })).toBe(6);
+      expect(await AuditLog.countDocuments({ action: 'account_locked', resourceId: userId })).toBe(1);
+
+      await LoginProtectionService.unlockAccount(userId);
+      const result = await AuthService.loginUser({ email, password: 'Password123!' }, context);
+      expect(result.user.email).toBe(email);
+      expect(await User.findById(userId)).toMatchObject({ failedLoginAttempts: 0, lockoutCount: 0 });
+    });
+
+    it('should block an IP that fails across many accounts', async () => {
+      process.env.LOGIN_IP_MAX_FAILED_ATTEMPTS = '3';
+
+      for (const target of ['a@example.com', 'b@example.com', 'c@example.com']) {
+        await expect(failLogin(target)).rejects.toThrow('Invalid email or password');
+      }
+
+      await expect(AuthService.loginUser({ email, password: 'Password123!' }, context))
+        .rejects.toThrow(LOGIN_PROTECTION_ERRORS.tooManyAttempts);
+      expect(await LoginAttempt.countDocuments({ ipAddress: context.ipAddress, outcome: 'blocked' })).toBe(1);
+    });
+
+    it('should require a valid CAPTCHA once a verifier is configured and failures pile up', async () => {
+      const verify = jest.fn(async (token: string) => token === 'valid-token');
+      LoginProtectionService.setCaptchaVerifier({ name: 'test', verify });
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await expect(failLogin()).rejects.toThrow('Invalid email or password');
+      }
+
+      expect(await LoginProtectionService.getLoginStatus(email, context.ipAddress)).toMatchObject({ captchaRequired: true });
+      await expect(AuthService.loginUser({ email, password: 'Password123!' }, context))
+        .rejects.toThrow(LOGIN_PROTECTION_ERRORS.captchaRequired);
+      await expect(AuthService.loginUser({ email, password: 'Password123!', captchaToken: 'forged' }, context))
+        .rejects.toThrow(LOGIN_PROTECTION_ERRORS.captchaInvalid);
+
+      const result = await AuthService.loginUser({ email, password: 'Password123!', captchaToken: 'valid-token' }, context);
+      expect(result.user.email).toBe(email);
+      expect(verify).toHaveBeenCalledWith('valid-token', context.ipAddress);
+    });
+  });
+});
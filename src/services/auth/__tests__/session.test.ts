@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { AuthService } from '../index';
+import { SessionService, SESSION_ERRORS, getSessionAssurance, meetsAssurance } from '../session';
+import { Session } from '../../../models/Session';
+import { User } from '../../../models/User';
+
+describe('SessionService', () => {
+  let mongoServer: MongoMemoryServer;
+  let userId: string;
+  const credentials = { email: 'test@example.com', password: 'Password123!' };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([User.deleteMany({}), Session.deleteMany({})]);
+
+    const user = await User.create({
+      ...credentials,
+      firstName: 'Test',
+      lastName: 'User',
+      role: 'marketer',
+      status: 'active',
+      emailVerified: true
+    });
+    userId = user._id.toString();
+  });
+
+  it('should record one session per device login', async () => {
+    const laptop = await AuthService.loginUser(credentials, { ipAddress: '10.0.0.1', userAgent: 'Laptop' });
+    await AuthService.loginUser(credentials, { ipAddress: '10.0.0.2', userAgent: 'Phone' });
+
+    const sessions = await SessionService.getActiveSessions(userId);
+    expect(sessions).toHaveLength(2);
+    expect(sessions.find(session => session._id.toString() === laptop.sessionId))
+      .toMatchObject({ ipAddress: '10.0.0.1', userAgent: 'Laptop' });
+    expect(sessions[0].toJSON()).not.toHaveProperty('tokenId');
+  });
+
+  it('should rotate refresh tokens and revoke the session when a rotated token is reused', async () => {
+    const { tokens, sessionId } = await AuthService.loginUser(credentials);
+
+    const rotated = await AuthService.refreshTokens(tokens.refreshToken);
+    expect(rotated.refreshToken).not.toBe(tokens.refreshToken);
+
+    await expect(AuthService.refreshTokens(tokens.refreshToken)).rejects.toThrow(SESSION_ERRORS.reuseDetected);
+    await expect(AuthService.refreshTokens(rotated.refreshToken)).rejects.toThrow(SESSION_ERRORS.reuseDetected);
+
+    expect(await Session.findById(sessionId)).toMatchObject({ revokedReason: 'token_reuse' });
+    expect(await SessionService.validateSession(sessionId, userId)).toBeNull();
+  });
+
+  it('should revoke other sessions but keep the current one', async () => {
+    const current = await AuthService.loginUser(credentials);
+    const other = await AuthService.loginUser(credentials);
+
+    expect(await SessionService.revokeAllSessions(userId, 'user_revoked', { exceptSessionId: current.sessionId })).toBe(1);
+
+    await expect(AuthService.refreshTokens(other.tokens.refreshToken)).rejects.toThrow(SESSION_ERRORS.revoked);
+    expect(await SessionService.validateSession(current.sessionId, userId)).not.toBeNull();
+    await expect(SessionService.revokeSession(userId, other.sessionId, 'user_revoked')).rejects.toThrow(SESSION_ERRORS.notFound);
+  });
+
+  it('should hold a step-up elevation for the configured window', async () => {
+    process.env.STEP_UP_TTL_MINUTES = '5';
+    const { sessionId } = await AuthService.loginUser(credentials);
+
+    const elevated = await SessionService.elevateSession(sessionId, userId, 'phishing_resistant', 'webauthn');
+    expect(getSessionAssurance(elevated)).toBe('phishing_resistant');
+    expect(elevated.elevatedUntil!.getTime() - elevated.elevatedAt!.getTime()).toBe(5 * 60 * 1000);
+    expect(getSessionAssurance(elevated, new Date(Date.now() + 6 * 60 * 1000))).toBe('password');
+
+    const afterTotp = await SessionService.elevateSession(sessionId, userId, 'mfa', 'totp');
+    expect(getSessionAssurance(afterTotp)).toBe('phishing_resistant');
+    expect(afterTotp.elevatedFactor).toBe('webauthn');
+
+    await SessionService.dropElevation(sessionId, userId);
+    expect(getSessionAssurance((await Session.findById(sessionId))!)).toBe('password');
+    expect(getSessionAssurance(await SessionService.elevateSession(sessionId, userId, 'mfa', 'totp'))).toBe('mfa');
+    await expect(SessionService.elevateSession(sessionId, 'someone-else', 'mfa', 'totp')).rejects.toThrow(SESSION_ERRORS.notFound);
+    delete process.env.STEP_UP_TTL_MINUTES;
+  });
+
+  it('should rank assurance levels', () => {
+    expect(meetsAssurance('phishing_resistant', 'mfa')).toBe(true);
+    expect(meetsAssurance('mfa', 'mfa')).toBe(true);
+    expect(meetsAssurance('mfa', 'phishing_resistant')).toBe(false);
+    expect(meetsAssurance('password', 'mfa')).toBe(false);
+  });
+
+  it('should end every session when the password is reset', async () => {
+    const { tokens } = await AuthService.loginUser(credentials);
+    const resetToken = await AuthService.requestPasswordReset(credentials.email);
+
+    await AuthService.resetPassword(resetToken, 'NewPassword123!');
+
+    expect(await SessionService.getActiveSessions(userId)).toHaveLength(0);
+    await expect(AuthService.refreshTokens(tokens.refreshToken)).rejects.toThrow(SESSION_ERRORS.revoked);
+  });
+});
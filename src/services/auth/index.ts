@@ -1,7 +1,10 @@
 import { User, IUser } from '../../models/User';
-import { generateTokenPair, verifyRefreshToken, TokenPair } from '../../utils/jwt';
+import { verifyRefreshToken, TokenPair } from '../../utils/jwt';
 import { logger } from '../../utils/logger';
 import { MFAService } from '../mfa';
+import { NetworkService } from '../network';
+import { SessionService, SessionContext } from './session';
+import { LoginProtectionService } from './loginProtection';
 import crypto from 'crypto';
 
 export interface RegisterUserData {
@@ -10,16 +13,19 @@ export interface RegisterUserData {
   firstName: string;
   lastName: string;
   role?: 'marketer' | 'admin';
+  recruitmentCode?: string; // Recruiting marketer's code from their recruitment link
 }
 
 export interface LoginCredentials {
   email: string;
   password: string;
+  captchaToken?: string; // Required once LoginProtectionService asks for a CAPTCHA
 }
 
 export interface AuthResult {
   user: IUser;
   tokens: TokenPair;
+  sessionId: string;
 }
 
 export class AuthService {
@@ -31,6 +37,16 @@ export class AuthService {
         throw new Error('User with this email already exists');
       }
 
+      // Resolve the recruiting marketer for sub-affiliate sign-ups
+      let recruitedBy: string | undefined;
+      if (userData.recruitmentCode && (userData.role || 'marketer') === 'marketer') {
+        const recruiter = await NetworkService.resolveRecruiter(userData.recruitmentCode);
+        if (!recruiter) {
+          throw new Error('Invalid recruitment code');
+        }
+        recruitedBy = recruiter._id.toString();
+      }
+
       // Check if we're in alpha stage for auto-verification
       const isAlphaStage = process.env.STAGE === 'alpha';
       logger.info(`Registration stage check: STAGE=${process.env.STAGE}, isAlphaStage=${isAlphaStage}`);
@@ -44,7 +60,8 @@ export class AuthService {
         role: userData.role || 'marketer',
         status: isAlphaStage ? 'active' : 'pending', // Auto-activate in alpha stage
         emailVerified: isAlphaStage, // Auto-verify email in alpha stage
-        createdInAlphaStage: isAlphaStage // Track if created during alpha stage
+        createdInAlphaStage: isAlphaStage, // Track if created during alpha stage
+        recruitedBy
       });
 
       // Generate email verification token (still needed for non-alpha stages)
@@ -65,18 +82,23 @@ export class AuthService {
     }
   }
 
-  static async loginUser(credentials: LoginCredentials): Promise<AuthResult> {
+  static async loginUser(credentials: LoginCredentials, context: SessionContext = {}): Promise<AuthResult> {
     try {
+      // Refuse locked accounts, throttled accounts or IPs and missing CAPTCHAs before checking the password
+      await LoginProtectionService.assertLoginAllowed(credentials.email, context, credentials.captchaToken);
+
       // Find user and include password for comparison
       const user = await User.findOne({ email: credentials.email }).select('+password');
       
       if (!user) {
+        await LoginProtectionService.recordFailure(credentials.email, null, context);
         throw new Error('Invalid email or password');
       }
 
       // Check password
       const isPasswordValid = await user.comparePassword(credentials.password);
       if (!isPasswordValid) {
+        await LoginProtectionService.recordFailure(credentials.email, user, context);
         throw new Error('Invalid email or password');
       }
 
@@ -92,23 +114,25 @@ export class AuthService {
         throw new Error('Please verify your email before logging in');
       }
 
+      await LoginProtectionService.recordSuccess(user, context);
+
       // Update last login
       user.lastLogin = new Date();
       await user.save();
 
-      // Generate tokens
-      const tokens = generateTokenPair(user);
+      // Start a session for this device
+      const { session, tokens } = await SessionService.createSession(user, context);
       
       logger.info(`User logged in: ${user.email}`);
       
-      return { user, tokens };
+      return { user, tokens, sessionId: session._id.toString() };
     } catch (error) {
       logger.error('User login failed:', error);
       throw error;
     }
   }
 
-  static async refreshTokens(refreshToken: string): Promise<TokenPair> {
+  static async refreshTokens(refreshToken: string, context: SessionContext = {}): Promise<TokenPair> {
     try {
       const decoded = verifyRefreshToken(refreshToken);
       
@@ -120,11 +144,12 @@ export class AuthService {
       }
 
       if (user.status !== 'active') {
+        await SessionService.revokeAllSessions(user._id.toString(), 'account_deactivated');
         throw new Error('Account is not active');
       }
 
-      // Generate new token pair (this will create new tokens with different timestamps)
-      const tokens = generateTokenPair(user);
+      // Rotate the refresh token; the presented one can no longer be used
+      const tokens = await SessionService.rotateSession(user, decoded, context);
       
       logger.info(`Tokens refreshed for user: ${user.email}`);
       
@@ -135,6 +160,16 @@ export class AuthService {
     }
   }
 
+  static async logout(userId: string, sessionId: string): Promise<void> {
+    try {
+      await SessionService.revokeSession(userId, sessionId, 'logout');
+      logger.info(`User logged out: ${userId}`);
+    } catch (error) {
+      logger.error('Logout failed:', error);
+      throw error;
+    }
+  }
+
   static async verifyEmail(token: string): Promise<IUser> {
     try {
       // Hash the token to match stored hash
@@ -233,6 +268,9 @@ export class AuthService {
       user.passwordResetExpires = undefined;
       
       await user.save();
+
+      // Whoever knew the old password may still hold a session
+      await SessionService.revokeAllSessions(user._id.toString(), 'password_reset');
       
       logger.info(`Password reset completed for user: ${user.email}`);
       
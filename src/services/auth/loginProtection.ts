@@ -0,0 +1,305 @@
+import { User, IUser } from '../../models/User';
+import { LoginAttempt, LoginFailureReason } from '../../models/LoginAttempt';
+import { AuditService } from '../audit';
+import { logger } from '../../utils/logger';
+import { SessionContext } from './session';
+
+export const LOGIN_PROTECTION_ERRORS = {
+  accountLocked: 'Account is temporarily locked after too many failed login attempts',
+  tooManyAttempts: 'Too many failed login attempts. Please try again later.',
+  captchaRequired: 'CAPTCHA verification is required',
+  captchaInvalid: 'CAPTCHA verification failed'
+};
+
+export interface LoginProtectionPolicy {
+  maxFailedAttempts: number; // Consecutive failures that lock the account
+  delayAfterAttempts: number; // Failures after which each further attempt must wait, doubling each time
+  maxDelaySeconds: number;
+  lockoutMinutes: number; // First lockout; every further lockout before a successful login doubles it
+  maxLockoutMinutes: number;
+  ipMaxFailedAttempts: number; // Failures from one IP, across all accounts, that block the IP for the window
+  ipWindowMinutes: number;
+  captchaAfterAttempts: number; // Failures on the account or IP after which a CAPTCHA is required; 0 disables
+}
+
+export interface LoginStatus {
+  blockedReason?: 'account_locked' | 'too_many_attempts';
+  lockedUntil?: Date;
+  retryAfterSeconds: number;
+  captchaRequired: boolean;
+}
+
+/**
+ * Verifies CAPTCHA response tokens. Register a custom verifier with LoginProtectionService.setCaptchaVerifier,
+ * or configure the built-in one with CAPTCHA_SECRET.
+ */
+export interface CaptchaVerifier {
+  readonly name: string;
+  verify(token: string, ipAddress?: string): Promise<boolean>;
+}
+
+/**
+ * reCAPTCHA, hCaptcha and Turnstile compatible verifier (POST {url} with secret, response and remoteip)
+ */
+export class SiteVerifyCaptchaVerifier implements CaptchaVerifier {
+  readonly name = 'siteverify';
+  private verifyUrl: string;
+  private secret: string;
+
+  constructor(secret: string) {
+    this.secret = secret;
+    this.verifyUrl = process.env.CAPTCHA_VERIFY_URL || 'https://www.google.com/recaptcha/api/siteverify';
+  }
+
+  async verify(token: string, ipAddress?: string): Promise<boolean> {
+    const body = new URLSearchParams({ secret: this.secret, response: token });
+    if (ipAddress) {
+      body.set('remoteip', ipAddress);
+    }
+
+    const response = await fetch(this.verifyUrl, { method: 'POST', body });
+    const result = await response.json() as any;
+    return response.ok && result?.success === true;
+  }
+}
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+};
+
+export const getLoginProtectionPolicy = (): LoginProtectionPolicy => ({
+  maxFailedAttempts: envNumber('LOGIN_MAX_FAILED_ATTEMPTS', 5),
+  delayAfterAttempts: envNumber('LOGIN_DELAY_AFTER_ATTEMPTS', 3),
+  maxDelaySeconds: envNumber('LOGIN_MAX_DELAY_SECONDS', 60),
+  lockoutMinutes: envNumber('LOGIN_LOCKOUT_MINUTES', 15),
+  maxLockoutMinutes: envNumber('LOGIN_MAX_LOCKOUT_MINUTES', 24 * 60),
+  ipMaxFailedAttempts: envNumber('LOGIN_IP_MAX_FAILED_ATTEMPTS', 20),
+  ipWindowMinutes: envNumber('LOGIN_IP_WINDOW_MINUTES', 15),
+  captchaAfterAttempts: envNumber('LOGIN_CAPTCHA_AFTER_ATTEMPTS', 3)
+});
+
+/**
+ * Seconds the next attempt must wait after the latest of a run of consecutive failures
+ */
+export const getRetryDelaySeconds = (failedAttempts: number, policy: LoginProtectionPolicy): number => {
+  if (failedAttempts < policy.delayAfterAttempts) {
+    return 0;
+  }
+  return Math.min(2 ** (failedAttempts - policy.delayAfterAttempts), policy.maxDelaySeconds);
+};
+
+/**
+ * Length of the next lockout given how many lockouts preceded it
+ */
+export const getLockoutMinutes = (previousLockouts: number, policy: LoginProtectionPolicy): number =>
+  Math.min(policy.lockoutMinutes * 2 ** previousLockouts, policy.maxLockoutMinutes);
+
+let captchaVerifier: CaptchaVerifier | null | undefined;
+
+// Failed-login tracking, throttling and lockout
+export class LoginProtectionService {
+  /**
+   * Override the verifier configured by CAPTCHA_SECRET; null disables CAPTCHA challenges
+   */
+  static setCaptchaVerifier(verifier: CaptchaVerifier | null | undefined): void {
+    captchaVerifier = verifier;
+  }
+
+  static getCaptchaVerifier(): CaptchaVerifier | null {
+    if (captchaVerifier === undefined) {
+      captchaVerifier = process.env.CAPTCHA_SECRET ? new SiteVerifyCaptchaVerifier(process.env.CAPTCHA_SECRET) : null;
+    }
+    return captchaVerifier;
+  }
+
+  /**
+   * Whether a login for the email from the IP would currently be refused or need a CAPTCHA
+   */
+  static async getLoginStatus(email: string, ipAddress?: string): Promise<LoginStatus> {
+    const policy = getLoginProtectionPolicy();
+    const now = Date.now();
+
+    const [user, ipFailures] = await Promise.all([
+      User.findOne({ email: email.toLowerCase() }),
+      this.getRecentIpFailures(ipAddress, policy)
+    ]);
+
+    const status: LoginStatus = { retryAfterSeconds: 0, captchaRequired: false };
+
+    if (user?.lockedUntil && user.lockedUntil.getTime() > now) {
+      status.blockedReason = 'account_locked';
+      status.lockedUntil = user.lockedUntil;
+      status.retryAfterSeconds = Math.ceil((user.lockedUntil.getTime() - now) / 1000);
+    } else if (policy.ipMaxFailedAttempts > 0 && ipFailures.length >= policy.ipMaxFailedAttempts) {
+      // Blocked until the oldest failure that keeps the IP at the limit leaves the window
+      const limitingFailure = ipFailures[policy.ipMaxFailedAttempts - 1];
+      status.blockedReason = 'too_many_attempts';
+      status.retryAfterSeconds = Math.ceil(
+        (limitingFailure.createdAt.getTime() + policy.ipWindowMinutes * 60 * 1000 - now) / 1000
+      );
+    } else if (user?.lastFailedLoginAt) {
+      const waitUntil = user.lastFailedLoginAt.getTime() + getRetryDelaySeconds(user.failedLoginAttempts, policy) * 1000;
+      if (waitUntil > now) {
+        status.blockedReason = 'too_many_attempts';
+        status.retryAfterSeconds = Math.ceil((waitUntil - now) / 1000);
+      }
+    }
+
+    status.captchaRequired = policy.captchaAfterAttempts > 0 && this.getCaptchaVerifier() !== null && (
+      (user?.failedLoginAttempts || 0) >= policy.captchaAfterAttempts ||
+      ipFailures.length >= policy.captchaAfterAttempts
+    );
+
+    return status;
+  }
+
+  /**
+   * Refuse the attempt before the password is checked when the account is locked, the account or IP
+   * is being throttled, or a required CAPTCHA is missing or wrong. Refusals are recorded as blocked attempts.
+   */
+  static async assertLoginAllowed(email: string, context: SessionContext = {}, captchaToken?: string): Promise<void> {
+    const status = await this.getLoginStatus(email, context.ipAddress);
+
+    if (status.blockedReason) {
+      await this.recordAttempt(email, null, context, 'blocked', status.blockedReason);
+      throw new Error(status.blockedReason === 'account_locked'
+        ? LOGIN_PROTECTION_ERRORS.accountLocked
+        : LOGIN_PROTECTION_ERRORS.tooManyAttempts);
+    }
+
+    if (status.captchaRequired) {
+      if (!captchaToken) {
+        await this.recordAttempt(email, null, context, 'blocked', 'captcha_required');
+        throw new Error(LOGIN_PROTECTION_ERRORS.captchaRequired);
+      }
+
+      const verified = await this.getCaptchaVerifier()!.verify(captchaToken, context.ipAddress);
+      if (!verified) {
+        await this.recordAttempt(email, null, context, 'blocked', 'captcha_invalid');
+        throw new Error(LOGIN_PROTECTION_ERRORS.captchaInvalid);
+      }
+    }
+  }
+
+  /**
+   * Record a wrong password, locking the account once it reaches the failure limit
+   */
+  static async recordFailure(email: string, user: IUser | null, context: SessionContext = {}): Promise<void> {
+    if (user) {
+      const policy = getLoginProtectionPolicy();
+      const updated = await User.findByIdAndUpdate(
+        user._id,
+        { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: new Date() } },
+        { new: true }
+      );
+
+      if (updated && updated.failedLoginAttempts >= policy.maxFailedAttempts) {
+        const lockoutMinutes = getLockoutMinutes(updated.lockoutCount, policy);
+        const lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+
+        await User.updateOne(
+          { _id: user._id },
+          { $set: { lockedUntil, failedLoginAttempts: 0 }, $inc: { lockoutCount: 1 } }
+        );
+
+        await AuditService.logAction({
+          adminId: user._id.toString(),
+          action: 'account_locked',
+          resource: 'user',
+          resourceId: user._id.toString(),
+          details: {
+            reason: `${updated.failedLoginAttempts} consecutive failed login attempts`,
+            metadata: { lockedUntil, lockoutMinutes, lockoutCount: updated.lockoutCount + 1 }
+          },
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        });
+
+        logger.warn(`Account ${user.email} locked for ${lockoutMinutes} minutes after repeated failed logins`);
+      }
+    }
+
+    await this.recordAttempt(email, user, context, 'failed', 'invalid_credentials');
+  }
+
+  /**
+   * Record a successful login and clear the account's failure history
+   */
+  static async recordSuccess(user: IUser, context: SessionContext = {}): Promise<void> {
+    if (user.failedLoginAttempts || user.lockoutCount || user.lockedUntil) {
+      await User.updateOne(
+        { _id: user._id },
+        { $set: { failedLoginAttempts: 0, lockoutCount: 0 }, $unset: { lockedUntil: 1, lastFailedLoginAt: 1 } }
+      );
+    }
+
+    await LoginAttempt.create({
+      email: user.email,
+      userId: user._id.toString(),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent?.substring(0, 512),
+      outcome: 'success'
+    });
+  }
+
+  /**
+   * Lift a lockout and reset the failure count
+   */
+  static async unlockAccount(userId: string): Promise<IUser | null> {
+    return User.findByIdAndUpdate(
+      userId,
+      { $set: { failedLoginAttempts: 0, lockoutCount: 0 }, $unset: { lockedUntil: 1, lastFailedLoginAt: 1 } },
+      { new: true }
+    );
+  }
+
+  private static async getRecentIpFailures(ipAddress: string | undefined, policy: LoginProtectionPolicy) {
+    if (!ipAddress) {
+      return [];
+    }
+
+    return LoginAttempt.find({
+      ipAddress,
+      outcome: 'failed',
+      createdAt: { $gte: new Date(Date.now() - policy.ipWindowMinutes * 60 * 1000) }
+    })
+      .sort({ createdAt: -1 })
+      .limit(Math.max(policy.ipMaxFailedAttempts, policy.captchaAfterAttempts))
+      .select('createdAt');
+  }
+
+  // Every refused or failed attempt is both a login attempt and an audited security event
+  private static async recordAttempt(
+    email: string,
+    user: IUser | null,
+    context: SessionContext,
+    outcome: 'failed' | 'blocked',
+    reason: LoginFailureReason
+  ): Promise<void> {
+    const account = user || await User.findOne({ email: email.toLowerCase() }).select('_id');
+    const userId = account?._id.toString();
+
+    await LoginAttempt.create({
+      email,
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent?.substring(0, 512),
+      outcome,
+      reason
+    });
+
+    await AuditService.logAction({
+      adminId: userId || 'anonymous',
+      action: 'login_failed',
+      resource: 'user',
+      resourceId: userId,
+      details: {
+        reason,
+        metadata: { email, outcome }
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    });
+  }
+}
@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Session, ISession, SessionRevocationReason, AssuranceLevel, ASSURANCE_LEVELS } from '../../models/Session';
+import { IUser } from '../../models/User';
+import { generateTokenPair, verifyRefreshToken, JWTPayload, TokenPair } from '../../utils/jwt';
+import { logger } from '../../utils/logger';
+
+export const SESSION_ERRORS = {
+  notFound: 'Session not found',
+  revoked: 'Session has been revoked',
+  reuseDetected: 'Refresh token reuse detected. Please log in again.'
+};
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Avoid a write on every authenticated request; last seen is accurate to this many seconds
+const LAST_SEEN_RESOLUTION_SECONDS = 60;
+
+const activeFilter = () => ({ revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } });
+
+/**
+ * How long a step-up verification keeps a session elevated
+ */
+export const getStepUpTtlMinutes = (): number => {
+  const minutes = parseInt(process.env.STEP_UP_TTL_MINUTES || '');
+  return isNaN(minutes) || minutes <= 0 ? 15 : minutes;
+};
+
+export const meetsAssurance = (current: AssuranceLevel, required: AssuranceLevel): boolean =>
+  ASSURANCE_LEVELS.indexOf(current) >= ASSURANCE_LEVELS.indexOf(required);
+
+/**
+ * The assurance a session currently holds: its step-up level while the window is open, otherwise just the login
+ */
+export const getSessionAssurance = (session: ISession, now: Date = new Date()): AssuranceLevel =>
+  session.elevatedAssurance && session.elevatedUntil && session.elevatedUntil > now
+    ? session.elevatedAssurance
+    : 'password';
+
+export class SessionService {
+  /**
+   * Start a session for a newly authenticated device and issue its first token pair
+   */
+  static async createSession(user: IUser, context: SessionContext = {}): Promise<{ session: ISession; tokens: TokenPair }> {
+    const sessionId = new mongoose.Types.ObjectId().toString();
+    const tokenId = crypto.randomUUID();
+    const tokens = generateTokenPair(user, { sessionId, tokenId });
+
+    const session = await Session.create({
+      _id: sessionId,
+      userId: user._id.toString(),
+      tokenId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent?.substring(0, 512),
+      lastSeenAt: new Date(),
+      expiresAt: this.getTokenExpiry(tokens.refreshToken)
+    });
+
+    logger.info(`Session ${session._id} started for user ${user._id}`);
+    return { session, tokens };
+  }
+
+  /**
+   * Exchange the session's current refresh token for a new pair. The presented token is retired, and
+   * presenting a retired token again means it was copied, so the whole session is revoked.
+   */
+  static async rotateSession(user: IUser, decoded: JWTPayload, context: SessionContext = {}): Promise<TokenPair> {
+    if (!decoded.sessionId || !decoded.jti) {
+      throw new Error(SESSION_ERRORS.notFound);
+    }
+
+    const tokenId = crypto.randomUUID();
+    const tokens = generateTokenPair(user, { sessionId: decoded.sessionId, tokenId });
+
+    // Conditional on the presented token still being current, so two concurrent refreshes cannot both win
+    const session = await Session.findOneAndUpdate(
+      { _id: decoded.sessionId, userId: user._id.toString(), tokenId: decoded.jti, ...activeFilter() },
+      {
+        $set: {
+          tokenId,
+          lastSeenAt: new Date(),
+          expiresAt: this.getTokenExpiry(tokens.refreshToken),
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+          ...(context.userAgent && { userAgent: context.userAgent.substring(0, 512) })
+        },
+        $push: { rotatedTokenIds: decoded.jti }
+      },
+      { new: true }
+    );
+
+    if (session) {
+      return tokens;
+    }
+
+    const existing = await Session.findOne({ _id: decoded.sessionId, userId: user._id.toString() })
+      .select('+rotatedTokenIds');
+
+    if (!existing) {
+      throw new Error(SESSION_ERRORS.notFound);
+    }
+
+    if (existing.rotatedTokenIds.includes(decoded.jti)) {
+      if (!existing.revokedAt) {
+        await this.revoke({ _id: existing._id }, 'token_reuse');
+        logger.warn(`Refresh token reuse detected for user ${user._id}; session ${existing._id} revoked`);
+      }
+      throw new Error(SESSION_ERRORS.reuseDetected);
+    }
+
+    throw new Error(SESSION_ERRORS.revoked);
+  }
+
+  /**
+   * Check that an access token's session is still active and record the activity
+   */
+  static async validateSession(sessionId: string, userId: string, context: SessionContext = {}): Promise<ISession | null> {
+    const session = await Session.findOne({ _id: sessionId, userId, ...activeFilter() });
+    if (!session) {
+      return null;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_SECONDS * 1000) {
+      await Session.updateOne(
+        { _id: session._id },
+        {
+          $set: {
+            lastSeenAt: new Date(),
+            ...(context.ipAddress && { ipAddress: context.ipAddress })
+          }
+        }
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * Open a step-up window on the session after a fresh second-factor verification. A higher level
+   * whose window is still open is kept, so a TOTP step-up does not undo a recent WebAuthn one.
+   */
+  static async elevateSession(
+    sessionId: string,
+    userId: string,
+    assurance: AssuranceLevel,
+    factor: string
+  ): Promise<ISession> {
+    const now = new Date();
+    const higherLevels = ASSURANCE_LEVELS.filter(level => !meetsAssurance(assurance, level));
+    const session = await Session.findOneAndUpdate(
+      {
+        _id: sessionId,
+        userId,
+        ...activeFilter(),
+        $nor: [{ elevatedAssurance: { $in: higherLevels }, elevatedUntil: { $gt: now } }]
+      },
+      {
+        $set: {
+          elevatedAssurance: assurance,
+          elevatedFactor: factor,
+          elevatedAt: now,
+          elevatedUntil: new Date(now.getTime() + getStepUpTtlMinutes() * 60 * 1000)
+        }
+      },
+      { new: true }
+    );
+
+    if (!session) {
+      const current = await Session.findOne({ _id: sessionId, userId, ...activeFilter() });
+      if (!current) {
+        throw new Error(SESSION_ERRORS.notFound);
+      }
+      return current;
+    }
+
+    logger.info(`Session ${sessionId} of user ${userId} elevated to ${assurance} until ${session.elevatedUntil!.toISOString()}`);
+    return session;
+  }
+
+  /**
+   * Close the session's step-up window early
+   */
+  static async dropElevation(sessionId: string, userId: string): Promise<void> {
+    await Session.updateOne(
+      { _id: sessionId, userId },
+      { $unset: { elevatedAssurance: 1, elevatedFactor: 1, elevatedAt: 1, elevatedUntil: 1 } }
+    );
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  static async getActiveSessions(userId: string): Promise<ISession[]> {
+    return Session.find({ userId, ...activeFilter() }).sort({ lastSeenAt: -1 });
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  static async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevocationReason,
+    revokedBy?: string
+  ): Promise<void> {
+    if (!mongoose.isValidObjectId(sessionId)) {
+      throw new Error(SESSION_ERRORS.notFound);
+    }
+
+    const revoked = await this.revoke({ _id: sessionId, userId }, reason, revokedBy);
+    if (revoked === 0) {
+      throw new Error(SESSION_ERRORS.notFound);
+    }
+    logger.info(`Session ${sessionId} of user ${userId} revoked (${reason})`);
+  }
+
+  /**
+   * Revoke every active session of one or more users, optionally keeping the caller's own session.
+   * Returns the number of sessions revoked.
+   */
+  static async revokeAllSessions(
+    userIds: string | string[],
+    reason: SessionRevocationReason,
+    options: { exceptSessionId?: string; revokedBy?: string } = {}
+  ): Promise<number> {
+    const filter: any = { userId: { $in: Array.isArray(userIds) ? userIds : [userIds] } };
+    if (options.exceptSessionId) {
+      filter._id = { $ne: options.exceptSessionId };
+    }
+
+    const revoked = await this.revoke(filter, reason, options.revokedBy);
+    if (revoked > 0) {
+      logger.info(`Revoked ${revoked} session(s) (${reason})`);
+    }
+    return revoked;
+  }
+
+  private static async revoke(filter: any, reason: SessionRevocationReason, revokedBy?: string): Promise<number> {
+    const result = await Session.updateMany(
+      { ...filter, ...activeFilter() },
+      { $set: { revokedAt: new Date(), revokedReason: reason, ...(revokedBy && { revokedBy }) } }
+    );
+    return result.modifiedCount;
+  }
+
+  private static getTokenExpiry(refreshToken: string): Date {
+    return new Date(verifyRefreshToken(refreshToken).exp! * 1000);
+  }
+}
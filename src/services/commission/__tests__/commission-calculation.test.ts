@@ -2,6 +2,9 @@ import { CommissionService, CommissionRules } from '../index';
 import { Commission } from '../../../models/Commission';
 import { CommissionAdjustment } from '../../../models/CommissionAdjustment';
 import { Product } from '../../../models/Product';
+import { CommissionPlan } from '../../../models/CommissionPlan';
+import { CommissionOverride } from '../../../models/CommissionOverride';
+import { AuditLog } from '../../../models/AuditLog';
 import { User } from '../../../models/User';
 import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
@@ -28,6 +31,9 @@ describe('Commission Calculation Engine Tests', () => {
     await Commission.deleteMany({});
     await CommissionAdjustment.deleteMany({});
     await Product.deleteMany({});
+    await CommissionPlan.deleteMany({});
+    await CommissionOverride.deleteMany({});
+    await AuditLog.deleteMany({});
     await User.deleteMany({});
 
     // Create test marketer
@@ -201,6 +207,147 @@ describe('Commission Calculation Engine Tests', () => {
     });
   });
 
+  describe('applyCommissionPlan', () => {
+    const plan = {
+      volumeTiers: [
+        { minConversions: 5, maxConversions: 9, rate: 0.06 },
+        { minConversions: 10, rate: 0.08 }
+      ],
+      bonusThresholds: [
+        { metric: 'monthly_conversions' as const, threshold: 10, bonusAmount: 250 },
+        { metric: 'monthly_spend' as const, threshold: 50000, bonusAmount: 500 }
+      ]
+    };
+    const base = { commissionAmount: 100, commissionRate: 0.05 };
+
+    it('should keep the spend-based rate below the first volume tier', () => {
+      const result = CommissionService.applyCommissionPlan(plan, 2000, base, { conversions: 2, spend: 4000 });
+
+      expect(result).toEqual({ commissionAmount: 100, commissionRate: 0.05, bonusAmount: 0 });
+    });
+
+    it('should apply the volume tier matching the monthly conversion count', () => {
+      const result = CommissionService.applyCommissionPlan(plan, 2000, base, { conversions: 4, spend: 8000 });
+
+      expect(result.commissionRate).toBe(0.06);
+      expect(result.commissionAmount).toBe(120); // 2000 * 0.06
+    });
+
+    it('should pay a bonus only on the conversion that crosses the threshold', () => {
+      const crossing = CommissionService.applyCommissionPlan(plan, 2000, base, { conversions: 9, spend: 18000 });
+      expect(crossing.bonusAmount).toBe(250);
+      expect(crossing.commissionAmount).toBe(410); // 2000 * 0.08 + 250
+
+      const afterCrossing = CommissionService.applyCommissionPlan(plan, 2000, base, { conversions: 10, spend: 20000 });
+      expect(afterCrossing.bonusAmount).toBe(0);
+    });
+
+    it('should pay a spend bonus when monthly spend crosses the threshold', () => {
+      const result = CommissionService.applyCommissionPlan(plan, 5000, { commissionAmount: 250, commissionRate: 0.05 }, { conversions: 1, spend: 46000 });
+
+      expect(result.bonusAmount).toBe(500);
+      expect(result.commissionAmount).toBe(750);
+    });
+  });
+
+  describe('calculateCommission with commission plans', () => {
+    const createPlan = (overrides: any = {}) => CommissionPlan.create({
+      productId: testProduct._id.toString(),
+      name: 'Spend tiers',
+      version: 1,
+      status: 'active',
+      effectiveFrom: new Date('2024-01-01'),
+      spendTiers: [
+        { minAmount: 1000, maxAmount: 4999, rate: 0.06 },
+        { minAmount: 5000, rate: 0.08 }
+      ],
+      createdBy: testMarketer._id.toString(),
+      ...overrides
+    });
+
+    it('should apply the active plan spend tiers and record the plan version', async () => {
+      const plan = await createPlan();
+
+      const commission = await CommissionService.calculateCommission({
+        marketerId: testMarketer._id.toString(),
+        customerId: 'customer123',
+        productId: testProduct._id.toString(),
+        trackingCode: 'track123',
+        initialSpendAmount: 6000,
+        conversionDate: new Date('2024-06-15')
+      });
+
+      expect(commission.commissionRate).toBe(0.08);
+      expect(commission.commissionAmount).toBe(480); // 6000 * 0.08
+      expect(commission.commissionPlanId).toBe(plan._id.toString());
+      expect(commission.commissionPlanVersion).toBe(1);
+    });
+
+    it('should ignore plans that are not effective at the conversion date', async () => {
+      await createPlan({ effectiveTo: new Date('2024-03-01') });
+      await createPlan({ version: 2, status: 'draft' });
+
+      const commission = await CommissionService.calculateCommission({
+        marketerId: testMarketer._id.toString(),
+        customerId: 'customer123',
+        productId: testProduct._id.toString(),
+        trackingCode: 'track123',
+        initialSpendAmount: 6000,
+        conversionDate: new Date('2024-06-15')
+      });
+
+      expect(commission.commissionRate).toBe(0.05); // Product rate
+      expect(commission.commissionPlanId).toBeNull();
+    });
+  });
+
+  describe('calculateCommission with negotiated overrides', () => {
+    const approverId = new mongoose.Types.ObjectId().toString();
+    const createOverride = (overrides: any = {}) => CommissionOverride.create({
+      marketerId: testMarketer._id.toString(),
+      productId: testProduct._id.toString(),
+      commissionType: 'percentage',
+      commissionRate: 0.09,
+      validFrom: new Date('2024-01-01'),
+      approvedBy: approverId,
+      reason: 'Negotiated partner rate',
+      ...overrides
+    });
+    const conversion = () => ({
+      marketerId: testMarketer._id.toString(),
+      customerId: 'customer123',
+      productId: testProduct._id.toString(),
+      trackingCode: 'track123',
+      initialSpendAmount: 2000,
+      conversionDate: new Date('2024-06-15')
+    });
+
+    it('should apply the override automatically and audit it', async () => {
+      const override = await createOverride();
+
+      const commission = await CommissionService.calculateCommission(conversion());
+
+      expect(commission.commissionRate).toBe(0.09);
+      expect(commission.commissionAmount).toBe(180); // 2000 * 0.09
+      expect(commission.commissionOverrideId).toBe(override._id.toString());
+
+      const auditLog = await AuditLog.findOne({ action: 'commission_override_applied', resourceId: commission._id.toString() });
+      expect(auditLog).toBeTruthy();
+      expect(auditLog!.adminId).toBe(approverId);
+      expect(auditLog!.details.newValue.overrideId).toBe(override._id.toString());
+    });
+
+    it('should ignore revoked and expired overrides', async () => {
+      await createOverride({ status: 'revoked' });
+      await createOverride({ validFrom: new Date('2023-01-01'), validTo: new Date('2023-12-31') });
+
+      const commission = await CommissionService.calculateCommission(conversion());
+
+      expect(commission.commissionRate).toBe(0.05); // Product rate
+      expect(commission.commissionOverrideId).toBeNull();
+    });
+  });
+
   describe('calculateCommission', () => {
     it('should calculate commission with custom rate', async () => {
       const commissionData = {
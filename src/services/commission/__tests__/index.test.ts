@@ -3,6 +3,7 @@ import { Commission } from '../../../models/Commission';
 import { CommissionAdjustment } from '../../../models/CommissionAdjustment';
 import { Product } from '../../../models/Product';
 import { User } from '../../../models/User';
+import { LedgerService } from '../../ledger';
 import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 
@@ -782,6 +783,8 @@ describe('CommissionService', () => {
           eligibleForPayoutDate: new Date()
         }
       ]);
+      // Created directly rather than through the service, so post them the way the nightly sync would
+      await LedgerService.syncMarketer(testMarketer._id.toString());
     });
 
     it('should return correct available balance', async () => {
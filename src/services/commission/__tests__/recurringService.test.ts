@@ -0,0 +1,132 @@
+import { RecurringCommissionService } from '../recurringService';
+import { Commission } from '../../../models/Commission';
+import { CustomerTransaction } from '../../../models/CustomerTransaction';
+import { Customer } from '../../../models/Customer';
+import { Product } from '../../../models/Product';
+import { User } from '../../../models/User';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('RecurringCommissionService', () => {
+  let mongoServer: MongoMemoryServer;
+  let testMarketer: any;
+  let testProduct: any;
+  let testCustomer: any;
+  let originalCommission: any;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Commission.deleteMany({});
+    await CustomerTransaction.deleteMany({});
+    await Customer.deleteMany({});
+    await Product.deleteMany({});
+    await User.deleteMany({});
+
+    testMarketer = await User.create({
+      email: 'marketer@test.com',
+      password: 'password123',
+      role: 'marketer',
+      status: 'active',
+      emailVerified: true
+    });
+
+    testProduct = await Product.create({
+      name: 'Subscription Product',
+      description: 'A product with recurring deposits',
+      category: 'investment',
+      commissionType: 'percentage',
+      commissionRate: 0.05,
+      minInitialSpend: 100,
+      status: 'active',
+      landingPageUrl: 'https://example.com/product',
+      recurringCommission: {
+        enabled: true,
+        rate: 0.02,
+        durationMonths: 12,
+        lifetimeCap: 30
+      }
+    });
+
+    testCustomer = await Customer.create({
+      trackingCode: 'track123',
+      productId: testProduct._id.toString(),
+      marketerId: testMarketer._id.toString(),
+      consents: {
+        termsAndConditions: true,
+        privacyPolicy: true,
+        dataProcessing: true
+      }
+    });
+
+    originalCommission = await Commission.create({
+      marketerId: testMarketer._id.toString(),
+      customerId: testCustomer._id.toString(),
+      productId: testProduct._id.toString(),
+      trackingCode: 'track123',
+      initialSpendAmount: 1000,
+      commissionRate: 0.05,
+      commissionAmount: 50,
+      conversionDate: new Date('2024-01-15')
+    });
+  });
+
+  it('should create a recurring commission linked to the original commission', async () => {
+    const result = await RecurringCommissionService.recordTransaction(testCustomer._id.toString(), {
+      transactionReference: 'txn-1',
+      amount: 500,
+      transactionDate: new Date('2024-03-01')
+    });
+
+    expect(result.duplicate).toBe(false);
+    expect(result.transaction.status).toBe('commissioned');
+    expect(result.commissions).toHaveLength(1);
+    expect(result.commissions[0]).toMatchObject({
+      marketerId: testMarketer._id.toString(),
+      commissionAmount: 10, // 500 * 0.02
+      isRecurring: true,
+      parentCommissionId: originalCommission._id.toString(),
+      customerTransactionId: result.transaction._id.toString()
+    });
+  });
+
+  it('should return the existing result for a repeated transaction reference', async () => {
+    const data = { transactionReference: 'txn-1', amount: 500, transactionDate: new Date('2024-03-01') };
+    await RecurringCommissionService.recordTransaction(testCustomer._id.toString(), data);
+
+    const result = await RecurringCommissionService.recordTransaction(testCustomer._id.toString(), data);
+
+    expect(result.duplicate).toBe(true);
+    expect(await Commission.countDocuments({ isRecurring: true })).toBe(1);
+  });
+
+  it('should stop paying once the lifetime cap is reached', async () => {
+    const customerId = testCustomer._id.toString();
+    await RecurringCommissionService.recordTransaction(customerId, { transactionReference: 'txn-1', amount: 1000, transactionDate: new Date('2024-02-01') });
+    const capped = await RecurringCommissionService.recordTransaction(customerId, { transactionReference: 'txn-2', amount: 1000, transactionDate: new Date('2024-03-01') });
+    const exhausted = await RecurringCommissionService.recordTransaction(customerId, { transactionReference: 'txn-3', amount: 1000, transactionDate: new Date('2024-04-01') });
+
+    expect(capped.commissions[0].commissionAmount).toBe(10); // 30 cap - 20 already earned
+    expect(exhausted.transaction.status).toBe('not_eligible');
+    expect(exhausted.commissions).toHaveLength(0);
+  });
+
+  it('should not pay commissions after the recurring period has ended', async () => {
+    const result = await RecurringCommissionService.recordTransaction(testCustomer._id.toString(), {
+      transactionReference: 'txn-1',
+      amount: 500,
+      transactionDate: new Date('2025-02-01')
+    });
+
+    expect(result.transaction.status).toBe('not_eligible');
+    expect(result.transaction.ineligibleReason).toContain('12 months');
+  });
+});
@@ -1,7 +1,20 @@
 import { Commission, ICommission } from '../../models/Commission';
 import { CommissionAdjustment, ICommissionAdjustment } from '../../models/CommissionAdjustment';
+import { PayoutAllocation } from '../../models/PayoutAllocation';
 import { Product, IProduct } from '../../models/Product';
 import { User } from '../../models/User';
+import { ConversionEvent } from '../../models/ConversionEvent';
+import { ICommissionPlan } from '../../models/CommissionPlan';
+import { ICommissionOverride } from '../../models/CommissionOverride';
+import { AttributionCredit } from '../tracking/attributionModels';
+import { CommissionPlanService, MarketerMonthlyStats } from './planService';
+import { CommissionOverrideService } from './overrideService';
+import { AuditService } from '../audit';
+import { NetworkService } from '../network';
+import { WebhookService } from '../webhook';
+import { LedgerService } from '../ledger';
+import { CurrencyService, inBaseCurrency } from '../currency';
+import { logger } from '../../utils/logger';
 import mongoose from 'mongoose';
 
 export interface CommissionCalculationData {
@@ -10,12 +23,22 @@ export interface CommissionCalculationData {
   productId: string;
   trackingCode: string;
   initialSpendAmount: number;
+  currency?: string; // Currency of the initial spend; defaults to the conversion's, then the product's
   conversionDate: Date;
   clearancePeriodDays?: number;
   // Additional fields for enhanced calculation
   customCommissionRate?: number;
   customCommissionAmount?: number;
   overrideProductRules?: boolean;
+  // Multi-touch attribution: split the commission across marketers by credit weight
+  conversionEventId?: string;
+  attributionCredits?: AttributionCredit[];
+}
+
+export interface CommissionShare {
+  marketerId: string;
+  trackingCode: string;
+  weight: number;
 }
 
 export interface CommissionSummary {
@@ -51,6 +74,12 @@ export interface TieredCommissionRate {
   rate: number;
 }
 
+export interface PlanCommissionResult {
+  commissionAmount: number;
+  commissionRate: number;
+  bonusAmount: number;
+}
+
 export class CommissionService {
   /**
    * Calculate commission amount based on rules and spend amount
@@ -119,7 +148,9 @@ export class CommissionService {
   }
 
   /**
-   * Calculate and create a new commission based on conversion data
+   * Calculate and create a new commission based on conversion data.
+   * When the conversion carries multi-touch attribution credits, one commission is created per
+   * credited marketer and the commission belonging to `data.marketerId` (or the largest share) is returned.
    */
   static async calculateCommission(data: CommissionCalculationData): Promise<ICommission> {
     // Use transactions only if not in test environment
@@ -132,30 +163,49 @@ export class CommissionService {
     }
 
     try {
-      // Validate marketer exists and is active
-      const marketerQuery = User.findById(data.marketerId);
-      const marketer = session ? await marketerQuery.session(session) : await marketerQuery;
-      if (!marketer || marketer.status !== 'active') {
-        throw new Error('Invalid or inactive marketer');
-      }
-
       // Validate product exists and is active
       const productQuery = Product.findById(data.productId);
       const product = session ? await productQuery.session(session) : await productQuery;
+
+      // Resolve how the commission is split between marketers
+      const conversionEventQuery = data.conversionEventId ? ConversionEvent.findById(data.conversionEventId) : null;
+      const conversionEvent = conversionEventQuery
+        ? (session ? await conversionEventQuery.session(session) : await conversionEventQuery)
+        : null;
+      let shares = this.resolveCommissionShares(data, conversionEvent?.attributionCredits);
+
+      // Validate credited marketers exist and are active
+      const marketerQuery = User.find({ _id: { $in: shares.map(share => share.marketerId) }, status: 'active' });
+      const activeMarketers = session ? await marketerQuery.session(session) : await marketerQuery;
+      const activeMarketerIds = new Set(activeMarketers.map(marketer => marketer._id.toString()));
+      shares = this.normalizeShares(shares.filter(share => activeMarketerIds.has(share.marketerId)));
+      if (shares.length === 0) {
+        throw new Error('Invalid or inactive marketer');
+      }
+
       if (!product || product.status !== 'active') {
         throw new Error('Invalid or inactive product');
       }
 
+      // Commissions are calculated in the product currency, so convert spend reported in another currency
+      const spendCurrency = (data.currency || conversionEvent?.currency || product.currency).toUpperCase();
+      const initialSpendAmount = spendCurrency === product.currency
+        ? data.initialSpendAmount
+        : (await CurrencyService.convert(data.initialSpendAmount, spendCurrency, product.currency)).amount;
+      const exchangeRate = await CurrencyService.getBaseRate(product.currency);
+
       // Check if initial spend meets minimum requirement (unless overriding product rules)
-      if (!data.overrideProductRules && data.initialSpendAmount < product.minInitialSpend) {
-        throw new Error(`Initial spend amount ${data.initialSpendAmount} is below minimum required ${product.minInitialSpend}`);
+      if (!data.overrideProductRules && initialSpendAmount < product.minInitialSpend) {
+        throw new Error(`Initial spend amount ${initialSpendAmount} ${product.currency} is below minimum required ${product.minInitialSpend}`);
       }
 
       // Check for duplicate commission (same customer, product, tracking code)
       const existingCommissionQuery = Commission.findOne({
         customerId: data.customerId,
         productId: data.productId,
-        trackingCode: data.trackingCode
+        trackingCode: { $in: shares.map(share => share.trackingCode) },
+        isRecurring: { $ne: true },
+        sourceCommissionId: null
       });
       const existingCommission = session ? await existingCommissionQuery.session(session) : await existingCommissionQuery;
 
@@ -168,39 +218,111 @@ export class CommissionService {
         commissionType: product.commissionType,
         commissionRate: product.commissionRate,
         commissionFlatAmount: product.commissionFlatAmount,
-        minInitialSpend: product.minInitialSpend,
-        // Tiered rates would be added here if implemented in the Product model
+        minInitialSpend: product.minInitialSpend
       };
 
-      // Calculate commission amount based on product commission structure
-      const { commissionAmount, commissionRate } = this.calculateCommissionAmount(
-        data.initialSpendAmount,
+      // Resolve the commission plan in effect at conversion time (custom overrides bypass plans)
+      const plan = data.overrideProductRules
+        ? null
+        : await CommissionPlanService.resolvePlan(data.productId, data.conversionDate);
+      if (plan) {
+        productRules.tieredRates = plan.spendTiers;
+      }
+
+      // Calculate commission amount based on product commission structure and plan spend tiers
+      const baseCalculation = this.calculateCommissionAmount(
+        initialSpendAmount,
         productRules,
         data.customCommissionRate,
         data.customCommissionAmount,
         data.overrideProductRules
       );
 
-      // Create commission record
-      const commission = new Commission({
-        marketerId: data.marketerId,
-        customerId: data.customerId,
-        productId: data.productId,
-        trackingCode: data.trackingCode,
-        initialSpendAmount: data.initialSpendAmount,
-        commissionRate,
-        commissionAmount,
-        status: 'pending',
-        conversionDate: data.conversionDate,
-        clearancePeriodDays: data.clearancePeriodDays || 30
-      });
+      // Negotiated overrides, volume tiers and bonuses depend on each credited marketer
+      const calculations: PlanCommissionResult[] = [];
+      const overrides: (ICommissionOverride | null)[] = [];
+      for (const share of shares) {
+        const override = data.overrideProductRules
+          ? null
+          : await CommissionOverrideService.resolveOverride(share.marketerId, data.productId, data.conversionDate);
+        overrides.push(override);
+
+        if (override) {
+          // A negotiated rate replaces both product rules and the commission plan
+          calculations.push({
+            ...this.calculateCommissionAmount(
+              initialSpendAmount,
+              productRules,
+              override.commissionType === 'percentage' ? override.commissionRate : undefined,
+              override.commissionType === 'flat' ? override.commissionFlatAmount : undefined,
+              true
+            ),
+            bonusAmount: 0
+          });
+        } else if (plan) {
+          const stats = await CommissionPlanService.getMarketerMonthlyStats(share.marketerId, data.productId, data.conversionDate);
+          calculations.push(this.applyCommissionPlan(plan, initialSpendAmount, baseCalculation, stats));
+        } else {
+          calculations.push({ ...baseCalculation, bonusAmount: 0 });
+        }
+      }
 
-      const savedCommission = session ? await commission.save({ session }) : await commission.save();
+      const shareAmounts = this.splitCommissionAmounts(
+        calculations.map(calculation => calculation.commissionAmount),
+        shares.map(share => share.weight)
+      );
+
+      // Create one commission record per credited marketer
+      const savedCommissions: ICommission[] = [];
+      for (let i = 0; i < shares.length; i++) {
+        const commission = new Commission({
+          marketerId: shares[i].marketerId,
+          customerId: data.customerId,
+          productId: data.productId,
+          trackingCode: shares[i].trackingCode,
+          initialSpendAmount,
+          commissionRate: calculations[i].commissionRate,
+          commissionAmount: shareAmounts[i],
+          currency: product.currency,
+          exchangeRate,
+          status: 'pending',
+          conversionDate: data.conversionDate,
+          clearancePeriodDays: data.clearancePeriodDays || 30,
+          conversionEventId: conversionEvent?._id,
+          attributionWeight: shares[i].weight,
+          commissionPlanId: overrides[i] ? null : plan?._id,
+          commissionPlanVersion: overrides[i] ? null : plan?.version,
+          commissionOverrideId: overrides[i]?._id,
+          bonusAmount: Math.round(calculations[i].bonusAmount * shares[i].weight * 100) / 100
+        });
+
+        savedCommissions.push(session ? await commission.save({ session }) : await commission.save());
+      }
+
+      // Store the resulting split on the conversion event
+      if (conversionEvent) {
+        conversionEvent.attributionCredits = savedCommissions.map((commission, index) => {
+          const credit = conversionEvent.attributionCredits.find(c => c.trackingCode === shares[index].trackingCode);
+          return {
+            trackingCode: shares[index].trackingCode,
+            marketerId: shares[index].marketerId,
+            weight: shares[index].weight,
+            clickEventId: credit?.clickEventId,
+            commissionId: commission._id.toString(),
+            commissionAmount: commission.commissionAmount
+          };
+        });
+        await (session ? conversionEvent.save({ session }) : conversionEvent.save());
+      }
 
       if (useTransactions && session) {
         await session.commitTransaction();
       }
-      return savedCommission;
+
+      await LedgerService.recordCommissions(savedCommissions.map(commission => commission._id));
+      await this.logAppliedOverrides(savedCommissions, overrides);
+
+      return savedCommissions.find(commission => commission.marketerId === data.marketerId) || savedCommissions[0];
     } catch (error) {
       if (useTransactions && session) {
         await session.abortTransaction();
@@ -213,6 +335,144 @@ export class CommissionService {
     }
   }
 
+  /**
+   * Private method: Record in the audit log which negotiated override produced each commission
+   */
+  private static async logAppliedOverrides(
+    commissions: ICommission[],
+    overrides: (ICommissionOverride | null)[]
+  ): Promise<void> {
+    for (let i = 0; i < commissions.length; i++) {
+      const override = overrides[i];
+      if (!override) continue;
+
+      try {
+        await AuditService.logCommissionAction(
+          override.approvedBy,
+          'commission_override_applied',
+          commissions[i]._id.toString(),
+          undefined,
+          {
+            overrideId: override._id.toString(),
+            marketerId: override.marketerId,
+            commissionType: override.commissionType,
+            commissionRate: override.commissionRate,
+            commissionFlatAmount: override.commissionFlatAmount,
+            commissionAmount: commissions[i].commissionAmount
+          },
+          `Negotiated commission override ${override._id} applied`
+        );
+      } catch (error) {
+        // The commission is already committed; a missing audit entry must not fail the conversion
+        logger.error(`Failed to audit commission override ${override._id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get all commissions generated from a single conversion event (one per credited marketer)
+   */
+  static async getConversionCommissions(conversionEventId: string): Promise<ICommission[]> {
+    return Commission.find({ conversionEventId })
+      .populate('marketerId', 'email')
+      .sort({ attributionWeight: -1 });
+  }
+
+  /**
+   * Private method: Determine commission shares from attribution credits, falling back to the single marketer
+   */
+  private static resolveCommissionShares(
+    data: CommissionCalculationData,
+    storedCredits?: AttributionCredit[]
+  ): CommissionShare[] {
+    const credits = data.attributionCredits && data.attributionCredits.length > 0
+      ? data.attributionCredits
+      : storedCredits;
+
+    if (!credits || credits.length === 0) {
+      return [{ marketerId: data.marketerId, trackingCode: data.trackingCode, weight: 1 }];
+    }
+
+    return this.normalizeShares(credits.map(credit => ({
+      marketerId: credit.marketerId.toString(),
+      trackingCode: credit.trackingCode,
+      weight: credit.weight
+    })));
+  }
+
+  /**
+   * Private method: Rescale share weights so they sum to 1
+   */
+  private static normalizeShares(shares: CommissionShare[]): CommissionShare[] {
+    const totalWeight = shares.reduce((sum, share) => sum + share.weight, 0);
+    if (totalWeight <= 0) {
+      return [];
+    }
+    return shares.map(share => ({ ...share, weight: share.weight / totalWeight }));
+  }
+
+  /**
+   * Apply a commission plan's volume tiers and bonus thresholds on top of the spend-based calculation.
+   * A matching volume tier replaces the spend-based rate; bonuses are paid once, on the conversion
+   * that crosses the threshold within the month.
+   */
+  static applyCommissionPlan(
+    plan: Pick<ICommissionPlan, 'volumeTiers' | 'bonusThresholds'>,
+    initialSpendAmount: number,
+    baseCalculation: { commissionAmount: number; commissionRate: number },
+    monthlyStats: MarketerMonthlyStats
+  ): PlanCommissionResult {
+    let { commissionAmount, commissionRate } = baseCalculation;
+
+    // Monthly totals including this conversion
+    const conversions = monthlyStats.conversions + 1;
+    const spend = monthlyStats.spend + initialSpendAmount;
+
+    const volumeTier = [...plan.volumeTiers]
+      .sort((a, b) => b.minConversions - a.minConversions)
+      .find(tier => conversions >= tier.minConversions && (!tier.maxConversions || conversions <= tier.maxConversions));
+
+    if (volumeTier) {
+      commissionRate = volumeTier.rate;
+      commissionAmount = initialSpendAmount * volumeTier.rate;
+    }
+
+    const bonusAmount = plan.bonusThresholds
+      .filter(bonus => {
+        const [before, after] = bonus.metric === 'monthly_conversions'
+          ? [monthlyStats.conversions, conversions]
+          : [monthlyStats.spend, spend];
+        return before < bonus.threshold && after >= bonus.threshold;
+      })
+      .reduce((sum, bonus) => sum + bonus.bonusAmount, 0);
+
+    return {
+      commissionRate,
+      commissionAmount: commissionAmount + bonusAmount,
+      bonusAmount
+    };
+  }
+
+  /**
+   * Weight each share's commission amount, rounding to cents. When all shares earn the same
+   * amount, the rounding remainder is assigned to the largest share so the split adds up exactly.
+   */
+  static splitCommissionAmounts(amounts: number[], weights: number[]): number[] {
+    if (weights.length <= 1) {
+      return amounts;
+    }
+
+    const weightedAmounts = amounts.map((amount, index) => Math.round(amount * weights[index] * 100) / 100);
+
+    if (amounts.every(amount => amount === amounts[0])) {
+      const remainder = Math.round((amounts[0] - weightedAmounts.reduce((sum, amount) => sum + amount, 0)) * 100) / 100;
+      const largestIndex = weights.indexOf(Math.max(...weights));
+      weightedAmounts[largestIndex] = Math.round((weightedAmounts[largestIndex] + remainder) * 100) / 100;
+    }
+
+    return weightedAmounts;
+  }
+
   /**
    * Get commission summary for a marketer
    */
@@ -222,7 +482,7 @@ export class CommissionService {
       {
         $group: {
           _id: '$status',
-          totalAmount: { $sum: '$commissionAmount' },
+          totalAmount: { $sum: inBaseCurrency('$commissionAmount') },
           count: { $sum: 1 }
         }
       }
@@ -374,7 +634,19 @@ export class CommissionService {
       await adjustment.save();
     }
 
-    return commission.save();
+    const savedCommission = await commission.save();
+    await LedgerService.recordCommissions([savedCommission._id]);
+
+    // Approval releases override commissions to the marketer's recruiters
+    if (status === 'approved') {
+      await NetworkService.createUplineCommissions(savedCommission);
+    }
+
+    if (status === 'approved' && oldStatus !== 'approved') {
+      await WebhookService.publishCommissionEvent('commission.approved', savedCommission);
+    }
+
+    return savedCommission;
   }
 
   /**
@@ -439,6 +711,11 @@ export class CommissionService {
       throw new Error(`Cannot mark commission as paid with status ${commission.status}`);
     }
 
+    // Reserved commissions are marked paid when their payout completes
+    if (await PayoutAllocation.exists({ commissionId: commission._id.toString(), status: 'reserved' })) {
+      throw new Error('Cannot mark commission as paid while it is reserved by a pending payout');
+    }
+
     const updatedCommission = await this.updateCommissionStatus(commissionId, 'paid', adminId);
 
     // Create payment record in adjustments for audit trail
@@ -712,15 +989,11 @@ export class CommissionService {
   }
 
   /**
-   * Calculate total available balance for a marketer (approved commissions)
+   * Calculate total available balance for a marketer from the ledger
    */
   static async getAvailableBalance(marketerId: string): Promise<number> {
-    const result = await Commission.aggregate([
-      { $match: { marketerId, status: 'approved' } },
-      { $group: { _id: null, total: { $sum: '$commissionAmount' } } }
-    ]);
-
-    return result.length > 0 ? result[0].total : 0;
+    const balances = await LedgerService.getBalances(marketerId);
+    return balances.available;
   }
 
   /**
@@ -749,12 +1022,12 @@ export class CommissionService {
             day: { $dayOfMonth: '$conversionDate' }
           },
           totalCommissions: { $sum: 1 },
-          totalAmount: { $sum: '$commissionAmount' },
-          avgAmount: { $avg: '$commissionAmount' },
+          totalAmount: { $sum: inBaseCurrency('$commissionAmount') },
+          avgAmount: { $avg: inBaseCurrency('$commissionAmount') },
           statusBreakdown: {
             $push: {
               status: '$status',
-              amount: '$commissionAmount'
+              amount: inBaseCurrency('$commissionAmount')
             }
           }
         }
@@ -878,7 +1151,9 @@ export class CommissionService {
       await adjustment.save();
     }
 
-    return commission.save();
+    const savedCommission = await commission.save();
+    await LedgerService.recordCommissions([savedCommission._id]);
+    return savedCommission;
   }
 
   /**
@@ -938,6 +1213,16 @@ export class CommissionService {
       if (useTransactions && session) {
         await session.commitTransaction();
       }
+      await LedgerService.recordCommissions([commission._id]);
+
+      await this.cascadeClawback(commission, clawbackAmount, reason, adminId, clawbackType);
+
+      await WebhookService.publishCommissionEvent('commission.clawed_back', savedCommission, {
+        clawbackAmount,
+        clawbackType,
+        partial: false,
+        reason
+      });
 
       return {
         commission: savedCommission,
@@ -955,6 +1240,38 @@ export class CommissionService {
     }
   }
 
+  /**
+   * Private method: Claw back upline override commissions in proportion to a clawback on their source commission.
+   * A full clawback of the source fully claws back each override; partial clawbacks stay partial.
+   */
+  private static async cascadeClawback(
+    source: ICommission,
+    clawbackAmount: number,
+    reason: string,
+    adminId: string,
+    clawbackType: 'refund' | 'chargeback' | 'manual'
+  ): Promise<void> {
+    const overrides = await Commission.find({
+      sourceCommissionId: source._id.toString(),
+      status: { $in: ['approved', 'paid'] }
+    });
+
+    const ratio = Math.min(1, clawbackAmount / source.commissionAmount);
+    const cascadeReason = `Cascaded from commission ${source._id}: ${reason}`;
+
+    for (const override of overrides) {
+      if (source.status === 'clawed_back') {
+        const amount = Math.min(override.commissionAmount, Math.max(0.01, Math.round(override.commissionAmount * ratio * 100) / 100));
+        await this.processClawback(override._id.toString(), amount, cascadeReason, adminId, clawbackType);
+      } else {
+        const amount = Math.round(override.commissionAmount * ratio * 100) / 100;
+        if (amount > 0 && amount < override.commissionAmount) {
+          await this.processPartialClawback(override._id.toString(), amount, cascadeReason, adminId, clawbackType);
+        }
+      }
+    }
+  }
+
   /**
    * Process partial clawback (when only part of commission needs to be clawed back)
    */
@@ -1011,6 +1328,16 @@ export class CommissionService {
       if (useTransactions && session) {
         await session.commitTransaction();
       }
+      await LedgerService.recordCommissions([commission._id]);
+
+      await this.cascadeClawback(commission, clawbackAmount, reason, adminId, clawbackType);
+
+      await WebhookService.publishCommissionEvent('commission.clawed_back', commission, {
+        clawbackAmount,
+        clawbackType,
+        partial: true,
+        reason
+      });
 
       return {
         commission,
@@ -1088,6 +1415,7 @@ export class CommissionService {
       if (useTransactions && session) {
         await session.commitTransaction();
       }
+      await LedgerService.recordCommissions([commission._id]);
 
       return {
         commission,
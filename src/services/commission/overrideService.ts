@@ -0,0 +1,159 @@
+import { CommissionOverride, ICommissionOverride } from '../../models/CommissionOverride';
+import { Product } from '../../models/Product';
+import { User } from '../../models/User';
+import { logger } from '../../utils/logger';
+
+export interface CommissionOverrideData {
+  marketerId: string;
+  productId: string;
+  commissionType: 'percentage' | 'flat';
+  commissionRate?: number;
+  commissionFlatAmount?: number;
+  validFrom: Date;
+  validTo?: Date | null;
+  reason: string;
+}
+
+export interface CommissionOverrideFilters {
+  marketerId?: string;
+  productId?: string;
+  status?: 'active' | 'revoked';
+}
+
+export class CommissionOverrideService {
+  /**
+   * Create a negotiated rate for a marketer and product, approved by the given admin
+   */
+  static async createOverride(data: CommissionOverrideData, approvedBy: string): Promise<ICommissionOverride> {
+    try {
+      const [marketer, product] = await Promise.all([
+        User.findById(data.marketerId),
+        Product.findById(data.productId)
+      ]);
+
+      if (!marketer || marketer.role !== 'marketer') {
+        throw new Error('Marketer not found');
+      }
+
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      // Only one negotiated rate may apply to a conversion
+      const overlapping = await this.findOverlappingOverride(data.marketerId, data.productId, data.validFrom, data.validTo);
+      if (overlapping) {
+        throw new Error(`Override ${overlapping._id} already applies to this marketer and product in the requested period`);
+      }
+
+      const override = new CommissionOverride({
+        ...data,
+        status: 'active',
+        approvedBy,
+        approvedAt: new Date()
+      });
+      await override.save();
+
+      logger.info(`Commission override created for marketer ${data.marketerId} on product ${data.productId}`);
+      return override;
+    } catch (error: any) {
+      logger.error('Error creating commission override:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get overrides with optional filtering, most recent first
+   */
+  static async getOverrides(filters: CommissionOverrideFilters = {}): Promise<ICommissionOverride[]> {
+    try {
+      const query: any = {};
+      if (filters.marketerId) query.marketerId = filters.marketerId;
+      if (filters.productId) query.productId = filters.productId;
+      if (filters.status) query.status = filters.status;
+
+      return await CommissionOverride.find(query)
+        .populate('marketerId', 'email')
+        .populate('productId', 'name')
+        .sort({ validFrom: -1 });
+    } catch (error: any) {
+      logger.error('Error getting commission overrides:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get override by ID
+   */
+  static async getOverrideById(overrideId: string): Promise<ICommissionOverride | null> {
+    try {
+      return await CommissionOverride.findById(overrideId);
+    } catch (error: any) {
+      logger.error('Error getting commission override:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an override so it no longer applies to new conversions
+   */
+  static async revokeOverride(overrideId: string, revokedBy: string, reason?: string): Promise<ICommissionOverride> {
+    try {
+      const override = await CommissionOverride.findById(overrideId);
+      if (!override) {
+        throw new Error('Commission override not found');
+      }
+
+      if (override.status === 'revoked') {
+        throw new Error('Commission override is already revoked');
+      }
+
+      override.status = 'revoked';
+      override.revokedBy = revokedBy;
+      override.revokedAt = new Date();
+      override.revocationReason = reason;
+      await override.save();
+
+      logger.info(`Commission override ${overrideId} revoked`);
+      return override;
+    } catch (error: any) {
+      logger.error('Error revoking commission override:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the override that applies to a marketer's conversion on the given date
+   */
+  static async resolveOverride(marketerId: string, productId: string, conversionDate: Date): Promise<ICommissionOverride | null> {
+    return CommissionOverride.findOne({
+      marketerId,
+      productId,
+      status: 'active',
+      validFrom: { $lte: conversionDate },
+      $or: [{ validTo: null }, { validTo: { $gt: conversionDate } }]
+    }).sort({ validFrom: -1 });
+  }
+
+  /**
+   * Private method: Find an active override whose validity window intersects the given one
+   */
+  private static async findOverlappingOverride(
+    marketerId: string,
+    productId: string,
+    validFrom: Date,
+    validTo?: Date | null
+  ): Promise<ICommissionOverride | null> {
+    const query: any = {
+      marketerId,
+      productId,
+      status: 'active',
+      $or: [{ validTo: null }, { validTo: { $gt: validFrom } }]
+    };
+
+    if (validTo) {
+      query.validFrom = { $lt: validTo };
+    }
+
+    return CommissionOverride.findOne(query);
+  }
+}
@@ -0,0 +1,228 @@
+import { CommissionPlan, ICommissionPlan, ISpendTier, IVolumeTier, IBonusThreshold } from '../../models/CommissionPlan';
+import { Commission } from '../../models/Commission';
+import { Product } from '../../models/Product';
+import { logger } from '../../utils/logger';
+
+export interface CommissionPlanData {
+  name: string;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  spendTiers?: ISpendTier[];
+  volumeTiers?: IVolumeTier[];
+  bonusThresholds?: IBonusThreshold[];
+  notes?: string;
+}
+
+export interface MarketerMonthlyStats {
+  // Totals for the calendar month of the conversion, excluding the conversion being calculated
+  conversions: number;
+  spend: number;
+}
+
+export class CommissionPlanService {
+  /**
+   * Create a new draft plan version for a product
+   */
+  static async createPlan(productId: string, data: CommissionPlanData, createdBy: string): Promise<ICommissionPlan> {
+    try {
+      const product = await Product.findById(productId);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      const latestPlan = await CommissionPlan.findOne({ productId }).sort({ version: -1 });
+
+      const plan = new CommissionPlan({
+        ...data,
+        productId,
+        version: latestPlan ? latestPlan.version + 1 : 1,
+        status: 'draft',
+        createdBy
+      });
+      await plan.save();
+
+      logger.info(`Commission plan v${plan.version} created for product ${productId}`);
+      return plan;
+    } catch (error: any) {
+      logger.error('Error creating commission plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all plan versions for a product, newest first
+   */
+  static async getPlans(productId: string, status?: string): Promise<ICommissionPlan[]> {
+    try {
+      const query: any = { productId };
+      if (status) {
+        query.status = status;
+      }
+
+      return await CommissionPlan.find(query).sort({ version: -1 });
+    } catch (error: any) {
+      logger.error('Error getting commission plans:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single plan belonging to a product
+   */
+  static async getPlanById(productId: string, planId: string): Promise<ICommissionPlan | null> {
+    try {
+      return await CommissionPlan.findOne({ _id: planId, productId });
+    } catch (error: any) {
+      logger.error('Error getting commission plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a draft plan. Active and archived versions are immutable so that
+   * existing commissions can always be traced back to the rules that produced them.
+   */
+  static async updatePlan(productId: string, planId: string, data: Partial<CommissionPlanData>): Promise<ICommissionPlan> {
+    try {
+      const plan = await CommissionPlan.findOne({ _id: planId, productId });
+      if (!plan) {
+        throw new Error('Commission plan not found');
+      }
+
+      if (plan.status !== 'draft') {
+        throw new Error('Only draft commission plans can be modified; create a new version instead');
+      }
+
+      Object.assign(plan, data);
+      await plan.save();
+
+      logger.info(`Commission plan v${plan.version} updated for product ${productId}`);
+      return plan;
+    } catch (error: any) {
+      logger.error('Error updating commission plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Activate a draft plan so it is picked up by commission calculation
+   */
+  static async activatePlan(productId: string, planId: string, activatedBy: string): Promise<ICommissionPlan> {
+    try {
+      const plan = await CommissionPlan.findOne({ _id: planId, productId });
+      if (!plan) {
+        throw new Error('Commission plan not found');
+      }
+
+      if (plan.status !== 'draft') {
+        throw new Error('Only draft commission plans can be activated');
+      }
+
+      plan.status = 'active';
+      plan.activatedBy = activatedBy;
+      plan.activatedAt = new Date();
+      await plan.save();
+
+      logger.info(`Commission plan v${plan.version} activated for product ${productId}`);
+      return plan;
+    } catch (error: any) {
+      logger.error('Error activating commission plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a plan so it no longer applies to new conversions
+   */
+  static async archivePlan(productId: string, planId: string): Promise<ICommissionPlan> {
+    try {
+      const plan = await CommissionPlan.findOne({ _id: planId, productId });
+      if (!plan) {
+        throw new Error('Commission plan not found');
+      }
+
+      if (plan.status === 'archived') {
+        throw new Error('Commission plan is already archived');
+      }
+
+      plan.status = 'archived';
+      await plan.save();
+
+      logger.info(`Commission plan v${plan.version} archived for product ${productId}`);
+      return plan;
+    } catch (error: any) {
+      logger.error('Error archiving commission plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a draft plan. Plans that have been active are archived instead.
+   */
+  static async deletePlan(productId: string, planId: string): Promise<boolean> {
+    try {
+      const plan = await CommissionPlan.findOne({ _id: planId, productId });
+      if (!plan) {
+        return false;
+      }
+
+      if (plan.status !== 'draft') {
+        throw new Error('Only draft commission plans can be deleted; archive the plan instead');
+      }
+
+      await CommissionPlan.findByIdAndDelete(planId);
+
+      logger.info(`Commission plan v${plan.version} deleted for product ${productId}`);
+      return true;
+    } catch (error: any) {
+      logger.error('Error deleting commission plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the plan that applies to a conversion: the highest active version whose
+   * effective window contains the conversion date
+   */
+  static async resolvePlan(productId: string, conversionDate: Date): Promise<ICommissionPlan | null> {
+    return CommissionPlan.findOne({
+      productId,
+      status: 'active',
+      effectiveFrom: { $lte: conversionDate },
+      $or: [{ effectiveTo: null }, { effectiveTo: { $gt: conversionDate } }]
+    }).sort({ version: -1 });
+  }
+
+  /**
+   * Get a marketer's conversion count and spend for a product in the calendar month (UTC) of the given date
+   */
+  static async getMarketerMonthlyStats(marketerId: string, productId: string, date: Date): Promise<MarketerMonthlyStats> {
+    const monthStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    const monthEnd = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+    const results = await Commission.aggregate([
+      {
+        $match: {
+          marketerId,
+          productId,
+          conversionDate: { $gte: monthStart, $lt: monthEnd },
+          isRecurring: { $ne: true },
+          sourceCommissionId: null,
+          status: { $nin: ['rejected', 'clawed_back'] }
+        }
+      },
+      {
+        $group: {
+          _id: null,
+          conversions: { $sum: 1 },
+          spend: { $sum: '$initialSpendAmount' }
+        }
+      }
+    ]);
+
+    return {
+      conversions: results[0]?.conversions || 0,
+      spend: results[0]?.spend || 0
+    };
+  }
+}
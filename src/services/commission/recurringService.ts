@@ -0,0 +1,211 @@
+import { Commission, ICommission } from '../../models/Commission';
+import { CustomerTransaction, ICustomerTransaction } from '../../models/CustomerTransaction';
+import { Customer } from '../../models/Customer';
+import { Product, IProduct } from '../../models/Product';
+import { User } from '../../models/User';
+import { logger } from '../../utils/logger';
+import { CurrencyService } from '../currency';
+import { LedgerService } from '../ledger';
+
+export interface CustomerTransactionData {
+  transactionReference: string;
+  transactionType?: 'deposit' | 'subscription_payment' | 'purchase';
+  amount: number;
+  currency?: string;
+  transactionDate?: Date;
+}
+
+export interface CustomerTransactionResult {
+  transaction: ICustomerTransaction;
+  commissions: ICommission[];
+  duplicate: boolean;
+}
+
+export class RecurringCommissionService {
+  /**
+   * Record a follow-on customer transaction and generate recurring commissions for the
+   * marketer(s) credited with the customer's original conversion.
+   * Reporting the same transaction reference twice returns the first result.
+   */
+  static async recordTransaction(customerId: string, data: CustomerTransactionData): Promise<CustomerTransactionResult> {
+    try {
+      const customer = await Customer.findById(customerId);
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+
+      const existingTransaction = await CustomerTransaction.findOne({
+        customerId,
+        transactionReference: data.transactionReference
+      });
+      if (existingTransaction) {
+        const commissions = await Commission.find({ _id: { $in: existingTransaction.commissionIds } });
+        return { transaction: existingTransaction, commissions, duplicate: true };
+      }
+
+      const transactionDate = data.transactionDate || new Date();
+      const product = await Product.findById(customer.productId);
+
+      // Commissions from the original conversion, one per credited marketer
+      const originalCommissions = await Commission.find({
+        customerId,
+        productId: customer.productId,
+        isRecurring: { $ne: true },
+        sourceCommissionId: null,
+        status: { $nin: ['rejected', 'clawed_back'] }
+      });
+
+      const transaction = new CustomerTransaction({
+        customerId,
+        productId: customer.productId,
+        transactionReference: data.transactionReference,
+        transactionType: data.transactionType || 'deposit',
+        amount: data.amount,
+        currency: data.currency,
+        transactionDate,
+        conversionEventId: originalCommissions[0]?.conversionEventId || null
+      });
+
+      const ineligibleReason = this.getIneligibleReason(product, originalCommissions, transactionDate);
+      const commissions = ineligibleReason
+        ? []
+        : await this.createRecurringCommissions(product!, originalCommissions, transaction);
+
+      transaction.commissionIds = commissions.map(commission => commission._id.toString());
+      transaction.status = commissions.length > 0 ? 'commissioned' : 'not_eligible';
+      if (commissions.length === 0) {
+        transaction.ineligibleReason = ineligibleReason || 'Recurring commission cap reached or marketer inactive';
+      }
+      await transaction.save();
+
+      logger.info(`Recorded transaction ${data.transactionReference} for customer ${customerId}: ${commissions.length} recurring commission(s)`);
+      return { transaction, commissions, duplicate: false };
+    } catch (error) {
+      logger.error('Error recording customer transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get follow-on transactions reported for a customer, most recent first
+   */
+  static async getCustomerTransactions(customerId: string): Promise<ICustomerTransaction[]> {
+    try {
+      return await CustomerTransaction.find({ customerId }).sort({ transactionDate: -1 });
+    } catch (error) {
+      logger.error('Error getting customer transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Private method: Explain why a transaction earns no recurring commission, or return null if it is eligible
+   */
+  private static getIneligibleReason(
+    product: IProduct | null,
+    originalCommissions: ICommission[],
+    transactionDate: Date
+  ): string | null {
+    if (!product || !product.recurringCommission?.enabled) {
+      return 'Recurring commissions are not enabled for this product';
+    }
+
+    if (originalCommissions.length === 0) {
+      return 'Customer has no commissionable conversion';
+    }
+
+    const conversionDate = originalCommissions[0].conversionDate;
+    if (transactionDate < conversionDate) {
+      return 'Transaction predates the original conversion';
+    }
+
+    const { durationMonths } = product.recurringCommission;
+    if (durationMonths) {
+      const periodEnd = new Date(conversionDate);
+      periodEnd.setUTCMonth(periodEnd.getUTCMonth() + durationMonths);
+      if (transactionDate >= periodEnd) {
+        return `Recurring commission period of ${durationMonths} months has ended`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Private method: Create one recurring commission per original commission, weighted by its
+   * attribution share and limited by the product's lifetime cap
+   */
+  private static async createRecurringCommissions(
+    product: IProduct,
+    originalCommissions: ICommission[],
+    transaction: ICustomerTransaction
+  ): Promise<ICommission[]> {
+    const { rate, lifetimeCap } = product.recurringCommission;
+
+    const activeMarketers = await User.find({
+      _id: { $in: originalCommissions.map(commission => commission.marketerId) },
+      status: 'active'
+    });
+    const activeMarketerIds = new Set(activeMarketers.map(marketer => marketer._id.toString()));
+
+    // Recurring commissions are earned in the product currency, like the conversion commission
+    const spendAmount = transaction.currency === product.currency
+      ? transaction.amount
+      : (await CurrencyService.convert(transaction.amount, transaction.currency, product.currency)).amount;
+    const exchangeRate = await CurrencyService.getBaseRate(product.currency);
+
+    const commissions: ICommission[] = [];
+    for (const original of originalCommissions) {
+      if (!activeMarketerIds.has(original.marketerId.toString())) {
+        continue;
+      }
+
+      const weight = original.attributionWeight ?? 1;
+      let commissionAmount = spendAmount * (rate || 0) * weight;
+
+      if (lifetimeCap !== undefined && lifetimeCap !== null) {
+        const earned = await Commission.aggregate([
+          {
+            $match: {
+              parentCommissionId: original._id.toString(),
+              status: { $nin: ['rejected', 'clawed_back'] }
+            }
+          },
+          { $group: { _id: null, total: { $sum: '$commissionAmount' } } }
+        ]);
+        const remaining = lifetimeCap * weight - (earned[0]?.total || 0);
+        commissionAmount = Math.min(commissionAmount, remaining);
+      }
+
+      commissionAmount = Math.round(commissionAmount * 100) / 100;
+      if (commissionAmount <= 0) {
+        continue;
+      }
+
+      const commission = new Commission({
+        marketerId: original.marketerId,
+        customerId: transaction.customerId,
+        productId: transaction.productId,
+        trackingCode: original.trackingCode,
+        initialSpendAmount: spendAmount, // Spend the recurring commission is calculated on
+        commissionRate: rate,
+        commissionAmount,
+        currency: product.currency,
+        exchangeRate,
+        status: 'pending',
+        conversionDate: transaction.transactionDate,
+        clearancePeriodDays: original.clearancePeriodDays,
+        conversionEventId: original.conversionEventId,
+        attributionWeight: weight,
+        isRecurring: true,
+        parentCommissionId: original._id.toString(),
+        customerTransactionId: transaction._id.toString()
+      });
+
+      commissions.push(await commission.save());
+    }
+
+    await LedgerService.recordCommissions(commissions.map(commission => commission._id));
+    return commissions;
+  }
+}
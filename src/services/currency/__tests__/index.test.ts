@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { CurrencyService, FixedExchangeRateSource, ExchangeRateSource } from '../index';
+import { CommissionService } from '../../commission';
+import { LedgerService } from '../../ledger';
+import { Commission } from '../../../models/Commission';
+import { Product } from '../../../models/Product';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+import { LedgerTransaction } from '../../../models/LedgerTransaction';
+import { User } from '../../../models/User';
+
+describe('CurrencyService', () => {
+  beforeEach(() => {
+    CurrencyService.setRateSource(new FixedExchangeRateSource({ EUR: 0.8, GBP: 0.5, JPY: 150 }));
+  });
+
+  afterAll(() => {
+    CurrencyService.setRateSource(undefined);
+  });
+
+  describe('conversion', () => {
+    it('should derive cross rates and round to the target currency', async () => {
+      expect((await CurrencyService.getRate('EUR', 'GBP')).rate).toBeCloseTo(0.625);
+      expect(await CurrencyService.convert(10.01, 'EUR', 'JPY')).toMatchObject({ amount: 1877, quote: { rateSource: 'fixed' } });
+      expect((await CurrencyService.convert(33.33, 'USD', 'EUR')).amount).toBe(26.66);
+    });
+
+    it('should not consult the rate source for same-currency quotes', async () => {
+      const source: ExchangeRateSource = { name: 'failing', getRate: jest.fn().mockRejectedValue(new Error('offline')) };
+      CurrencyService.setRateSource(source);
+
+      expect(await CurrencyService.getRate('usd', 'USD')).toMatchObject({ rate: 1, rateSource: 'identity' });
+      expect(source.getRate).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported currencies', async () => {
+      await expect(CurrencyService.getRate('USD', 'XYZ')).rejects.toThrow('Unsupported currency: XYZ');
+    });
+  });
+
+  describe('with a database', () => {
+    let mongoServer: MongoMemoryServer;
+    let marketerId: string;
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await Promise.all([
+        Commission.deleteMany({}),
+        Product.deleteMany({}),
+        PayoutRequest.deleteMany({}),
+        User.deleteMany({}),
+        LedgerTransaction.collection.deleteMany({})
+      ]);
+
+      const marketer = await User.create({
+        email: 'marketer@example.com',
+        password: 'password123',
+        firstName: 'Test',
+        lastName: 'Marketer',
+        role: 'marketer',
+        status: 'active'
+      });
+      marketerId = marketer._id.toString();
+    });
+
+    it('should calculate commissions in the product currency and book them in the base currency', async () => {
+      const product = await Product.create({
+        name: 'Euro Savings',
+        description: 'Savings account paid out in euros',
+        category: 'savings',
+        currency: 'EUR',
+        commissionType: 'percentage',
+        commissionRate: 0.1,
+        minInitialSpend: 500,
+        landingPageUrl: 'https://example.com/euro-savings'
+      });
+
+      const commission = await CommissionService.calculateCommission({
+        marketerId,
+        customerId: 'customer-1',
+        productId: product._id.toString(),
+        trackingCode: 'TRACK123',
+        initialSpendAmount: 1000,
+        currency: 'USD',
+        conversionDate: new Date('2024-01-01T00:00:00Z')
+      });
+
+      expect(commission).toMatchObject({ currency: 'EUR', initialSpendAmount: 800, exchangeRate: 1.25 });
+      expect(commission.commissionAmount).toBeCloseTo(80);
+
+      await Commission.updateOne({ _id: commission._id }, { $set: { status: 'approved' } });
+      await LedgerService.syncMarketer(marketerId);
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ available: 100 });
+    });
+
+    it('should snapshot the rate a payout is converted at', async () => {
+      const payout = await PayoutRequest.create({
+        marketerId,
+        paymentMethodId: new mongoose.Types.ObjectId().toString(),
+        amount: 100,
+        processingFee: 2
+      });
+
+      await CurrencyService.convertPayout(payout, 'GBP');
+
+      const saved = await PayoutRequest.findById(payout._id);
+      expect(saved!.currency).toBe('USD');
+      expect(saved!.fxConversion).toMatchObject({ fromCurrency: 'USD', toCurrency: 'GBP', rate: 0.5, rateSource: 'fixed', amount: 49 });
+      expect(CurrencyService.getPayoutAmount(saved!)).toEqual({ amount: 49, currency: 'GBP' });
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { IPayoutRequest, IFxConversion } from '../../models/PayoutRequest';
+import { getBaseCurrency, isSupportedCurrency, roundCurrency } from '../../utils/currency';
+import { logger } from '../../utils/logger';
+
+export interface ExchangeRateQuote {
+  from: string;
+  to: string;
+  rate: number; // Units of `to` per unit of `from`
+  rateSource: string;
+  quotedAt: Date;
+}
+
+/**
+ * Supplies fiat exchange rates. Register a custom source with CurrencyService.setRateSource,
+ * or select a built-in one with FX_RATE_SOURCE.
+ */
+export interface ExchangeRateSource {
+  readonly name: string;
+  getRate(from: string, to: string): Promise<number>;
+}
+
+const RATE_CACHE_SECONDS = parseInt(process.env.FX_RATE_CACHE_SECONDS || '3600');
+
+/**
+ * Rates from the FX_FIXED_RATES environment variable, quoted per US dollar, e.g. {"EUR": 0.92, "GBP": 0.79}.
+ * Intended for development and offline tests.
+ */
+export class FixedExchangeRateSource implements ExchangeRateSource {
+  readonly name = 'fixed';
+  private rates: { [currency: string]: number };
+
+  constructor(rates?: { [currency: string]: number }) {
+    this.rates = { USD: 1, ...(rates || JSON.parse(process.env.FX_FIXED_RATES || '{}')) };
+  }
+
+  async getRate(from: string, to: string): Promise<number> {
+    const fromRate = this.rates[from];
+    const toRate = this.rates[to];
+    if (!fromRate || !toRate) {
+      throw new Error(`No fixed exchange rate configured for ${fromRate ? to : from}`);
+    }
+    return toRate / fromRate;
+  }
+}
+
+/**
+ * Daily reference rates from an ExchangeRate-API compatible endpoint (GET {url}/latest/{base})
+ */
+export class ExchangeRateApiSource implements ExchangeRateSource {
+  readonly name = 'exchangerate-api';
+  private apiUrl: string;
+  private cache = new Map<string, { rates: { [currency: string]: number }; fetchedAt: number }>();
+
+  constructor() {
+    this.apiUrl = process.env.FX_RATE_API_URL || 'https://open.er-api.com/v6';
+  }
+
+  async getRate(from: string, to: string): Promise<number> {
+    const rates = await this.getRates(from);
+    const rate = rates[to];
+    if (typeof rate !== 'number' || rate <= 0) {
+      throw new Error(`No exchange rate available from ${from} to ${to}`);
+    }
+    return rate;
+  }
+
+  private async getRates(base: string): Promise<{ [currency: string]: number }> {
+    const cached = this.cache.get(base);
+    if (cached && Date.now() - cached.fetchedAt < RATE_CACHE_SECONDS * 1000) {
+      return cached.rates;
+    }
+
+    const response = await fetch(`${this.apiUrl}/latest/${encodeURIComponent(base)}`);
+    const result = await response.json() as any;
+
+    if (!response.ok || result?.result !== 'success' || !result.rates) {
+      throw new Error(`Failed to fetch ${base} exchange rates`);
+    }
+
+    this.cache.set(base, { rates: result.rates, fetchedAt: Date.now() });
+    return result.rates;
+  }
+}
+
+let rateSource: ExchangeRateSource | undefined;
+
+/**
+ * Aggregation expression converting a commission or conversion amount field into the base currency
+ * using the exchange rate snapshotted on the document
+ */
+export const inBaseCurrency = (field: string) => ({ $multiply: [field, { $ifNull: ['$exchangeRate', 1] }] });
+
+// Currency conversion service
+export class CurrencyService {
+  /**
+   * Override the rate source selected by FX_RATE_SOURCE
+   */
+  static setRateSource(source: ExchangeRateSource | undefined): void {
+    rateSource = source;
+  }
+
+  static getRateSource(): ExchangeRateSource {
+    if (!rateSource) {
+      rateSource = process.env.FX_RATE_SOURCE === 'fixed' ? new FixedExchangeRateSource() : new ExchangeRateApiSource();
+    }
+    return rateSource;
+  }
+
+  /**
+   * Quote the rate between two currencies. Same-currency quotes never reach the rate source.
+   */
+  static async getRate(from: string, to: string): Promise<ExchangeRateQuote> {
+    const fromCurrency = (from || '').toUpperCase();
+    const toCurrency = (to || '').toUpperCase();
+
+    for (const currency of [fromCurrency, toCurrency]) {
+      if (!isSupportedCurrency(currency)) {
+        throw new Error(`Unsupported currency: ${currency || 'none'}`);
+      }
+    }
+
+    if (fromCurrency === toCurrency) {
+      return { from: fromCurrency, to: toCurrency, rate: 1, rateSource: 'identity', quotedAt: new Date() };
+    }
+
+    const source = this.getRateSource();
+    const rate = await source.getRate(fromCurrency, toCurrency);
+    if (!(rate > 0) || !isFinite(rate)) {
+      throw new Error(`Invalid exchange rate from ${fromCurrency} to ${toCurrency}`);
+    }
+
+    return { from: fromCurrency, to: toCurrency, rate, rateSource: source.name, quotedAt: new Date() };
+  }
+
+  /**
+   * Units of the base currency per unit of the given currency, as snapshotted on commissions and conversions
+   */
+  static async getBaseRate(currency: string): Promise<number> {
+    return (await this.getRate(currency, getBaseCurrency())).rate;
+  }
+
+  /**
+   * Convert an amount, rounding to the target currency's minor unit
+   */
+  static async convert(amount: number, from: string, to: string): Promise<{ amount: number; quote: ExchangeRateQuote }> {
+    const quote = await this.getRate(from, to);
+    return { amount: roundCurrency(amount * quote.rate, quote.to), quote };
+  }
+
+  /**
+   * Convert a payout's net amount into the currency it is paid in and store the rate snapshot on the payout.
+   * Each send attempt quotes again, so the snapshot always describes the transfer that was actually made.
+   * A manual rate, e.g. one agreed with the bank, replaces the rate source.
+   */
+  static async convertPayout(
+    payout: IPayoutRequest,
+    toCurrency: string,
+    manualRate?: number
+  ): Promise<IFxConversion> {
+    const fromCurrency = payout.currency || getBaseCurrency();
+    const quote = manualRate
+      ? { from: fromCurrency, to: toCurrency.toUpperCase(), rate: manualRate, rateSource: 'manual', quotedAt: new Date() }
+      : await this.getRate(fromCurrency, toCurrency);
+
+    if (!isSupportedCurrency(quote.to)) {
+      throw new Error(`Unsupported currency: ${quote.to}`);
+    }
+
+    const fxConversion: IFxConversion = {
+      fromCurrency: quote.from,
+      toCurrency: quote.to,
+      rate: quote.rate,
+      rateSource: quote.rateSource,
+      amount: roundCurrency((payout.netAmount ?? payout.amount) * quote.rate, quote.to),
+      quotedAt: quote.quotedAt
+    };
+
+    payout.currency = fromCurrency;
+    payout.fxConversion = fxConversion;
+    await payout.save();
+
+    if (quote.from !== quote.to) {
+      logger.info(`Payout ${payout._id} converted from ${quote.from} to ${quote.to} at ${quote.rate} (${quote.rateSource})`);
+    }
+    return fxConversion;
+  }
+
+  /**
+   * Amount and currency a payout is sent in: its converted amount when one was quoted, otherwise the net amount
+   */
+  static getPayoutAmount(payout: Pick<IPayoutRequest, 'amount' | 'netAmount' | 'currency' | 'fxConversion'>): {
+    amount: number;
+    currency: string;
+  } {
+    if (payout.fxConversion) {
+      return { amount: payout.fxConversion.amount, currency: payout.fxConversion.toCurrency };
+    }
+    return { amount: payout.netAmount ?? payout.amount, currency: payout.currency || getBaseCurrency() };
+  }
+}
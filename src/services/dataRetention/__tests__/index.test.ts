@@ -9,6 +9,7 @@ import { Commission } from '../../../models/Commission';
 import { PayoutRequest } from '../../../models/PayoutRequest';
 import { PaymentMethod } from '../../../models/PaymentMethod';
 import { Consent } from '../../../models/Consent';
+import { Customer } from '../../../models/Customer';
 
 // Mock logger to avoid console output during tests
 jest.mock('../../../utils/logger', () => ({
@@ -585,6 +586,111 @@ describe('DataRetentionService', () => {
       expect(result.success).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
     });
+
+    it('should override a built-in policy with the stored configuration', async () => {
+      const result = await DataRetentionService.createRetentionPolicy({
+        name: 'user_tracking_data',
+        description: 'Keep user agents for fraud analysis',
+        retentionPeriodDays: 30,
+        dataTypes: ['click_events'],
+        anonymizeAfterDays: 30,
+        preserveFields: ['userAgent'],
+        isActive: true
+      });
+      expect(result.success).toBe(true);
+
+      await ClickEvent.create({
+        trackingCode: 'override_test',
+        ipAddress: '192.168.1.1',
+        userAgent: 'Test Browser',
+        timestamp: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000),
+        sessionId: 'session_override',
+        fingerprint: 'fp_override'
+      });
+
+      const policies = await DataRetentionService.getPolicies();
+      expect(policies.filter(p => p.name === 'user_tracking_data')).toHaveLength(1);
+
+      await DataRetentionService.executeRetentionPolicies();
+
+      const event = await ClickEvent.findOne({ trackingCode: 'override_test' });
+      expect(event!.ipAddress).toBe('0.0.0.0');
+      expect(event!.userAgent).toBe('Test Browser');
+    });
+
+    it('should reject preserved fields the data types never anonymize', () => {
+      const result = DataRetentionService.validateRetentionPolicy({
+        name: 'bad_preserve',
+        description: 'Preserves an unknown field',
+        retentionPeriodDays: 30,
+        dataTypes: ['consent_records'],
+        anonymizeAfterDays: 30,
+        preserveFields: ['fingerprint'],
+        isActive: true
+      });
+
+      expect(result.errors).toContain('Field fingerprint cannot be preserved for the selected data types');
+    });
+  });
+
+  describe('dry run', () => {
+    it('should report records without modifying them', async () => {
+      await ClickEvent.create({
+        trackingCode: 'dry_run_test',
+        ipAddress: '192.168.1.1',
+        userAgent: 'Test Browser',
+        timestamp: new Date(Date.now() - 100 * 24 * 60 * 60 * 1000),
+        sessionId: 'session_dry',
+        fingerprint: 'fp_dry'
+      });
+
+      const reports = await DataRetentionService.executeRetentionPolicies({ dryRun: true });
+
+      const trackingReport = reports.find(r => r.policyName === 'user_tracking_data');
+      expect(trackingReport!.dryRun).toBe(true);
+      expect(trackingReport!.recordsAnonymized).toBe(1);
+
+      const event = await ClickEvent.findOne({ trackingCode: 'dry_run_test' });
+      expect(event!.ipAddress).toBe('192.168.1.1');
+      expect(await AuditLog.countDocuments({ action: 'retention_policy_completed' })).toBe(0);
+    });
+  });
+
+  describe('Customer Processing', () => {
+    const createCustomer = async (trackingCode: string, onboardingStatus: string, daysOld: number) => {
+      const customer = await Customer.create({
+        trackingCode,
+        productId: 'product_1',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        email: `${trackingCode}@example.com`,
+        phone: '+15550000000',
+        onboardingStatus,
+        consents: { termsAndConditions: true, privacyPolicy: true, dataProcessing: true }
+      });
+      await Customer.updateOne(
+        { _id: customer._id },
+        { $set: { updatedAt: new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000) } },
+        { timestamps: false }
+      );
+      return customer;
+    };
+
+    it('should anonymize stale customers and delete abandoned applications', async () => {
+      const completed = await createCustomer('completed_customer', 'completed', 1200);
+      const abandoned = await createCustomer('abandoned_customer', 'personal_info', 2600);
+      const recent = await createCustomer('recent_customer', 'completed', 10);
+
+      await DataRetentionService.executeRetentionPolicies();
+
+      const anonymized = await Customer.findById(completed._id);
+      expect(anonymized!.firstName).toBe('Anonymized Customer');
+      expect(anonymized!.email).toBeUndefined();
+      expect(anonymized!.phone).toBeUndefined();
+
+      expect(await Customer.findById(abandoned._id)).toBeNull();
+      expect((await Customer.findById(recent._id))!.firstName).toBe('Jane');
+    });
   });
 
   describe('anonymizeDataFields', () => {
@@ -1990,4 +2096,3 @@ describe('DataRetentionService', () => {
       });
     });
   });
-});
\ No newline at end of file
@@ -0,0 +1,1811 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { User } from '../../models/User';
+import { UserProfile } from '../../models/UserProfile';
+import { Commission } from '../../models/Commission';
+import { PayoutRequest } from '../../models/PayoutRequest';
+import { PaymentMethod } from '../../models/PaymentMethod';
+import { ClickEvent } from '../../models/ClickEvent';
+import { ConversionEvent } from '../../models/ConversionEvent';
+import { AuditLog } from '../../models/AuditLog';
+import { Consent } from '../../models/Consent';
+import { Customer } from '../../models/Customer';
+import { RetentionPolicy, IRetentionPolicy } from '../../models/RetentionPolicy';
+import { logger } from '../../utils/logger';
+
+export interface DataRetentionPolicy {
+  name: string;
+  description: string;
+  retentionPeriodDays: number;
+  dataTypes: string[];
+  anonymizeAfterDays?: number;
+  deleteAfterDays?: number;
+  preserveFields?: string[]; // Fields left untouched when records are anonymized
+  isActive: boolean;
+}
+
+export interface DataRetentionReport {
+  policyName: string;
+  executedAt: Date;
+  dryRun: boolean;
+  recordsProcessed: number;
+  recordsAnonymized: number;
+  recordsDeleted: number;
+  errors: string[];
+  duration: number;
+}
+
+export interface DataAnonymizationResult {
+  success: boolean;
+  recordsProcessed: number;
+  errors: string[];
+}
+
+interface RetentionCounts {
+  recordsProcessed: number;
+  recordsAnonymized: number;
+  recordsDeleted: number;
+}
+
+/**
+ * How a collection is anonymized and deleted by the bulk retention rules
+ */
+interface CollectionRetentionRule {
+  model: mongoose.Model<any>;
+  label: string;
+  dateField: string; // Record age is measured from this field
+  anonymize: { set?: Record<string, any>; unset?: string[] };
+  notAnonymized: Record<string, any>; // Matches records that still hold personal data
+  deletable?: Record<string, any>; // Further limits which expired records may be deleted
+}
+
+// Audit entries documenting data processing itself are never deleted
+const CRITICAL_AUDIT_ACTIONS = [
+  'data_deletion',
+  'data_anonymization',
+  'manual_anonymization',
+  'retention_policy_started',
+  'retention_policy_completed',
+  'retention_policy_created',
+  'gdpr_request'
+];
+
+const ANONYMIZED_CUSTOMER_NAME = 'Anonymized Customer';
+
+const COLLECTION_RULES: Record<string, CollectionRetentionRule> = {
+  click_events: {
+    model: ClickEvent,
+    label: 'click events',
+    dateField: 'timestamp',
+    anonymize: { set: { ipAddress: '0.0.0.0', userAgent: 'Anonymized', fingerprint: 'anonymized' } },
+    notAnonymized: { ipAddress: { $ne: '0.0.0.0' } }
+  },
+  conversion_events: {
+    model: ConversionEvent,
+    label: 'conversion events',
+    dateField: 'conversionTimestamp',
+    anonymize: { set: { ipAddress: '0.0.0.0', userAgent: 'Anonymized', fingerprint: 'anonymized' } },
+    notAnonymized: { ipAddress: { $ne: '0.0.0.0' } }
+  },
+  audit_logs: {
+    model: AuditLog,
+    label: 'audit logs',
+    dateField: 'timestamp',
+    anonymize: { set: { ipAddress: '0.0.0.0', userAgent: 'Anonymized' } },
+    notAnonymized: { ipAddress: { $ne: '0.0.0.0' } },
+    deletable: { action: { $nin: CRITICAL_AUDIT_ACTIONS } }
+  },
+  consent_records: {
+    model: Consent,
+    label: 'consent records',
+    dateField: 'createdAt',
+    anonymize: { set: { ipAddress: '0.0.0.0', userAgent: 'Anonymized' } },
+    notAnonymized: { ipAddress: { $ne: '0.0.0.0' } }
+  },
+  customers: {
+    model: Customer,
+    label: 'customers',
+    dateField: 'updatedAt',
+    anonymize: {
+      set: { firstName: ANONYMIZED_CUSTOMER_NAME, lastName: '', 'kyc.documents': [] },
+      unset: ['email', 'phone', 'dateOfBirth', 'address', 'signature.signatureData', 'signature.ipAddress', 'signature.userAgent']
+    },
+    notAnonymized: { firstName: { $ne: ANONYMIZED_CUSTOMER_NAME } },
+    // Completed customers back commissions and payouts, so only abandoned applications are deleted
+    deletable: { onboardingStatus: { $ne: 'completed' } }
+  }
+};
+
+const SUPPORTED_DATA_TYPES = [
+  ...Object.keys(COLLECTION_RULES),
+  'user_profiles',
+  'commissions',
+  'payouts',
+  'payment_methods',
+  'users'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Data Retention Service
+ * Implements automated data retention policies and anonymization
+ * in compliance with GDPR requirements
+ */
+export class DataRetentionService {
+
+  // Default retention policies based on GDPR and business requirements; admins can override them by name
+  private static readonly DEFAULT_POLICIES: DataRetentionPolicy[] = [
+    {
+      name: 'user_tracking_data',
+      description: 'Click and conversion tracking data retention',
+      retentionPeriodDays: 90, // 3 months for tracking data
+      dataTypes: ['click_events', 'conversion_events'],
+      anonymizeAfterDays: 90,
+      deleteAfterDays: 365, // Keep anonymized for 1 year
+      isActive: true
+    },
+    {
+      name: 'user_profile_data',
+      description: 'User profile and KYC data retention',
+      retentionPeriodDays: 2555, // 7 years for financial compliance
+      dataTypes: ['user_profiles'], // KYC documents are removed with the profile
+      anonymizeAfterDays: 1095, // 3 years
+      deleteAfterDays: 2555, // 7 years
+      isActive: true
+    },
+    {
+      name: 'customer_records',
+      description: 'Customer onboarding and KYC data retention',
+      retentionPeriodDays: 2555, // 7 years for financial compliance
+      dataTypes: ['customers'],
+      anonymizeAfterDays: 1095, // 3 years after the last update
+      deleteAfterDays: 2555, // Abandoned applications only
+      isActive: true
+    },
+    {
+      name: 'financial_records',
+      description: 'Commission and payout records retention',
+      retentionPeriodDays: 2555, // 7 years for financial records
+      dataTypes: ['commissions', 'payouts', 'payment_methods'],
+      anonymizeAfterDays: 1825, // 5 years
+      deleteAfterDays: 2555, // 7 years
+      isActive: true
+    },
+    {
+      name: 'audit_logs',
+      description: 'System audit logs retention',
+      retentionPeriodDays: 1095, // 3 years for audit logs
+      dataTypes: ['audit_logs'],
+      anonymizeAfterDays: 730, // 2 years
+      deleteAfterDays: 1095, // 3 years
+      isActive: true
+    },
+    {
+      name: 'consent_records',
+      description: 'GDPR consent records retention',
+      retentionPeriodDays: 1095, // 3 years for consent records
+      dataTypes: ['consent_records'],
+      anonymizeAfterDays: 1095,
+      deleteAfterDays: 1095,
+      isActive: true
+    },
+    {
+      name: 'inactive_users',
+      description: 'Inactive user accounts cleanup',
+      retentionPeriodDays: 1095, // 3 years of inactivity
+      dataTypes: ['users'],
+      anonymizeAfterDays: 1095,
+      deleteAfterDays: 1460, // 4 years
+      isActive: true
+    }
+  ];
+
+  /**
+   * Data types that retention policies can target
+   */
+  static getSupportedDataTypes(): string[] {
+    return [...SUPPORTED_DATA_TYPES];
+  }
+
+  /**
+   * Built-in policies with any stored overrides applied, followed by custom policies
+   */
+  static async getPolicies(): Promise<DataRetentionPolicy[]> {
+    try {
+      const stored = await RetentionPolicy.find().sort({ name: 1 });
+      const overrides = new Map(stored.map(policy => [policy.name, this.toPolicy(policy)]));
+
+      const policies = this.DEFAULT_POLICIES.map(policy => overrides.get(policy.name) || policy);
+      for (const [name, policy] of overrides) {
+        if (!this.DEFAULT_POLICIES.some(defaultPolicy => defaultPolicy.name === name)) {
+          policies.push(policy);
+        }
+      }
+
+      return policies;
+    } catch (error) {
+      logger.error('Error getting retention policies:', error);
+      throw error;
+    }
+  }
+
+  private static toPolicy(policy: IRetentionPolicy): DataRetentionPolicy {
+    return {
+      name: policy.name,
+      description: policy.description,
+      retentionPeriodDays: policy.retentionPeriodDays,
+      dataTypes: policy.dataTypes,
+      anonymizeAfterDays: policy.anonymizeAfterDays,
+      deleteAfterDays: policy.deleteAfterDays,
+      preserveFields: policy.preserveFields,
+      isActive: policy.isActive
+    };
+  }
+
+  /**
+   * Execute all active data retention policies.
+   * A dry run only counts the records each policy would anonymize or delete.
+   */
+  static async executeRetentionPolicies(options: { dryRun?: boolean } = {}): Promise<DataRetentionReport[]> {
+    const dryRun = options.dryRun === true;
+    const reports: DataRetentionReport[] = [];
+
+    logger.info(`Starting data retention policy execution${dryRun ? ' (dry run)' : ''}`);
+
+    for (const policy of await this.getPolicies()) {
+      if (!policy.isActive) {
+        logger.info(`Skipping inactive policy: ${policy.name}`);
+        continue;
+      }
+
+      const report = await this.executeSinglePolicy(policy, dryRun);
+      reports.push(report);
+    }
+
+    logger.info(`Data retention execution completed. Processed ${reports.length} policies`);
+    return reports;
+  }
+
+  /**
+   * Execute a single retention policy
+   */
+  private static async executeSinglePolicy(policy: DataRetentionPolicy, dryRun: boolean = false): Promise<DataRetentionReport> {
+    const startTime = Date.now();
+    const report: DataRetentionReport = {
+      policyName: policy.name,
+      executedAt: new Date(),
+      dryRun,
+      recordsProcessed: 0,
+      recordsAnonymized: 0,
+      recordsDeleted: 0,
+      errors: [],
+      duration: 0
+    };
+
+    try {
+      logger.info(`Executing retention policy: ${policy.name}`, { dryRun });
+
+      // Dry runs leave no audit trail so they don't count as the last execution
+      if (!dryRun) {
+        await this.logDataProcessingActivity(
+          'system',
+          'retention_policy_started',
+          `Started execution of retention policy: ${policy.name}`,
+          { policy }
+        );
+      }
+
+      for (const dataType of policy.dataTypes) {
+        try {
+          const result = await this.processDataType(dataType, policy, dryRun);
+          report.recordsProcessed += result.recordsProcessed;
+          report.recordsAnonymized += result.recordsAnonymized;
+          report.recordsDeleted += result.recordsDeleted;
+        } catch (error) {
+          const errorMsg = `Error processing data type ${dataType}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          report.errors.push(errorMsg);
+          logger.error(errorMsg, { error, policy: policy.name, dataType });
+        }
+      }
+
+      if (!dryRun) {
+        await this.logDataProcessingActivity(
+          'system',
+          'retention_policy_completed',
+          `Completed execution of retention policy: ${policy.name}`,
+          {
+            policy,
+            recordsProcessed: report.recordsProcessed,
+            recordsAnonymized: report.recordsAnonymized,
+            recordsDeleted: report.recordsDeleted,
+            errors: report.errors.length
+          }
+        );
+      }
+
+    } catch (error) {
+      const errorMsg = `Failed to execute retention policy ${policy.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      report.errors.push(errorMsg);
+      logger.error(errorMsg, { error, policy: policy.name });
+    }
+
+    report.duration = Date.now() - startTime;
+    return report;
+  }
+
+  /**
+   * Process a specific data type according to retention policy
+   */
+  private static async processDataType(
+    dataType: string,
+    policy: DataRetentionPolicy,
+    dryRun: boolean = false
+  ): Promise<RetentionCounts> {
+
+    if (COLLECTION_RULES[dataType]) {
+      return await this.applyCollectionRule(dataType, policy, dryRun);
+    }
+
+    switch (dataType) {
+      case 'user_profiles':
+        return await this.processUserProfiles(policy, dryRun);
+
+      case 'commissions':
+        return await this.processCommissions(policy, dryRun);
+
+      case 'payouts':
+        return await this.processPayouts(policy, dryRun);
+
+      case 'payment_methods':
+        return await this.processPaymentMethods(policy, dryRun);
+
+      case 'users':
+        return await this.processInactiveUsers(policy, dryRun);
+
+      default:
+        logger.warn(`Unknown data type for retention processing: ${dataType}`);
+        return { recordsProcessed: 0, recordsAnonymized: 0, recordsDeleted: 0 };
+    }
+  }
+
+  private static cutoffDate(days: number): Date {
+    return new Date(Date.now() - days * DAY_MS);
+  }
+
+  /**
+   * Build the anonymization update for a collection, leaving preserved fields untouched.
+   * Returns null when every anonymized field is preserved.
+   */
+  private static buildAnonymizationUpdate(rule: CollectionRetentionRule, preserveFields: string[] = []): any | null {
+    const $set: Record<string, any> = {};
+    const $unset: Record<string, 1> = {};
+
+    for (const [field, value] of Object.entries(rule.anonymize.set || {})) {
+      if (!preserveFields.includes(field)) $set[field] = value;
+    }
+    for (const field of rule.anonymize.unset || []) {
+      if (!preserveFields.includes(field)) $unset[field] = 1;
+    }
+
+    const update: any = {};
+    if (Object.keys($set).length > 0) update.$set = $set;
+    if (Object.keys($unset).length > 0) update.$unset = $unset;
+
+    return Object.keys(update).length > 0 ? update : null;
+  }
+
+  /**
+   * Anonymize and delete expired records of a collection covered by COLLECTION_RULES
+   */
+  private static async applyCollectionRule(
+    dataType: string,
+    policy: DataRetentionPolicy,
+    dryRun: boolean
+  ): Promise<RetentionCounts> {
+    const rule = COLLECTION_RULES[dataType];
+    const result = { recordsProcessed: 0, recordsAnonymized: 0, recordsDeleted: 0 };
+
+    if (policy.anonymizeAfterDays) {
+      const update = this.buildAnonymizationUpdate(rule, policy.preserveFields);
+
+      if (update) {
+        const query = {
+          [rule.dateField]: { $lt: this.cutoffDate(policy.anonymizeAfterDays) },
+          ...rule.notAnonymized
+        };
+
+        if (dryRun) {
+          result.recordsAnonymized = await rule.model.countDocuments(query);
+        } else {
+          const anonymizeResult = await rule.model.updateMany(query, update);
+          result.recordsAnonymized = anonymizeResult.modifiedCount;
+        }
+        result.recordsProcessed += result.recordsAnonymized;
+
+        if (!dryRun && result.recordsAnonymized > 0) {
+          await this.logDataProcessingActivity(
+            'system',
+            'data_anonymization',
+            `Anonymized ${result.recordsAnonymized} ${rule.label}`,
+            { dataType, policy: policy.name, preservedFields: policy.preserveFields || [] }
+          );
+        }
+      }
+    }
+
+    if (policy.deleteAfterDays) {
+      const query = {
+        [rule.dateField]: { $lt: this.cutoffDate(policy.deleteAfterDays) },
+        ...(rule.deletable || {})
+      };
+
+      if (dryRun) {
+        result.recordsDeleted = await rule.model.countDocuments(query);
+      } else {
+        const deleteResult = await rule.model.deleteMany(query);
+        result.recordsDeleted = deleteResult.deletedCount || 0;
+      }
+      result.recordsProcessed += result.recordsDeleted;
+
+      if (!dryRun && result.recordsDeleted > 0) {
+        await this.logDataProcessingActivity(
+          'system',
+          'data_deletion',
+          `Deleted ${result.recordsDeleted} ${rule.label}`,
+          { dataType, policy: policy.name }
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Process user profiles according to retention policy
+   */
+  private static async processUserProfiles(policy: DataRetentionPolicy, dryRun: boolean = false): Promise<RetentionCounts> {
+    const result = { recordsProcessed: 0, recordsAnonymized: 0, recordsDeleted: 0 };
+
+    if (policy.anonymizeAfterDays) {
+      const anonymizeDate = this.cutoffDate(policy.anonymizeAfterDays);
+
+      // Find profiles to anonymize (where user hasn't been active)
+      const profilesToAnonymize = await UserProfile.find({
+        updatedAt: { $lt: anonymizeDate },
+        firstName: { $ne: 'Anonymized User' } // Not already anonymized
+      });
+
+      for (const profile of profilesToAnonymize) {
+        try {
+          // Check if user is still active or has recent activity
+          const user = await User.findById(profile.userId);
+          if (!user || user.status === 'revoked' ||
+              (user.lastLogin && user.lastLogin < anonymizeDate)) {
+
+            if (!dryRun) {
+              await UserProfile.findByIdAndUpdate(profile._id, {
+                firstName: 'Anonymized User',
+                lastName: '',
+                phone: '',
+                dateOfBirth: null,
+                address: null,
+                $unset: {
+                  kycDocuments: 1,
+                  taxId: 1,
+                  bankAccountInfo: 1
+                }
+              });
+            }
+
+            result.recordsAnonymized++;
+          }
+        } catch (error) {
+          logger.error(`Error anonymizing user profile ${profile._id}:`, error);
+        }
+      }
+
+      result.recordsProcessed += profilesToAnonymize.length;
+
+      if (!dryRun && result.recordsAnonymized > 0) {
+        await this.logDataProcessingActivity(
+          'system',
+          'data_anonymization',
+          `Anonymized ${result.recordsAnonymized} user profiles`,
+          { dataType: 'user_profiles', policy: policy.name }
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Process commissions according to retention policy
+   */
+  private static async processCommissions(policy: DataRetentionPolicy, dryRun: boolean = false): Promise<RetentionCounts> {
+    const result = { recordsProcessed: 0, recordsAnonymized: 0, recordsDeleted: 0 };
+
+    // For financial records, we typically don't delete but may anonymize customer data
+    if (policy.anonymizeAfterDays) {
+      const anonymizeDate = this.cutoffDate(policy.anonymizeAfterDays);
+
+      const commissionsToProcess = await Commission.find({
+        createdAt: { $lt: anonymizeDate },
+        status: { $in: ['paid', 'clawed_back'] } // Only process completed commissions
+      });
+
+      for (const commission of commissionsToProcess) {
+        try {
+          // Anonymize customer ID but keep commission structure for financial records
+          const anonymizedCustomerId = `anon_${commission._id.toString().slice(-8)}`;
+
+          if (!dryRun) {
+            await Commission.findByIdAndUpdate(commission._id, {
+              customerId: anonymizedCustomerId
+            });
+          }
+
+          result.recordsAnonymized++;
+        } catch (error) {
+          logger.error(`Error anonymizing commission ${commission._id}:`, error);
+        }
+      }
+
+      result.recordsProcessed = commissionsToProcess.length;
+
+      if (!dryRun && result.recordsAnonymized > 0) {
+        await this.logDataProcessingActivity(
+          'system',
+          'data_anonymization',
+          `Anonymized ${result.recordsAnonymized} commission records`,
+          { dataType: 'commissions', policy: policy.name }
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Process payout requests according to retention policy
+   */
+  private static async processPayouts(policy: DataRetentionPolicy, dryRun: boolean = false): Promise<RetentionCounts> {
+    const result = { recordsProcessed: 0, recordsAnonymized: 0, recordsDeleted: 0 };
+
+    // Financial records are typically kept for compliance but can be anonymized
+    if (policy.anonymizeAfterDays) {
+      const anonymizeDate = this.cutoffDate(policy.anonymizeAfterDays);
+
+      result.recordsProcessed = await PayoutRequest.countDocuments({
+        createdAt: { $lt: anonymizeDate },
+        status: { $in: ['completed', 'failed'] } // Only process completed payouts
+      });
+
+      // For payouts, we keep the financial data but may anonymize transaction details
+      // This is typically handled at the payment method level
+
+      if (!dryRun && result.recordsProcessed > 0) {
+        await this.logDataProcessingActivity(
+          'system',
+          'data_retention_check',
+          `Processed ${result.recordsProcessed} payout records for retention`,
+          { dataType: 'payouts', policy: policy.name }
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Process payment methods according to retention policy
+   */
+  private static async processPaymentMethods(policy: DataRetentionPolicy, dryRun: boolean = false): Promise<RetentionCounts> {
+    const result = { recordsProcessed: 0, recordsAnonymized: 0, recordsDeleted: 0 };
+
+    if (policy.anonymizeAfterDays) {
+      const anonymizeDate = this.cutoffDate(policy.anonymizeAfterDays);
+
+      // Find payment methods that haven't been used recently
+      const paymentMethodsToProcess = await PaymentMethod.find({
+        updatedAt: { $lt: anonymizeDate }
+      });
+
+      for (const paymentMethod of paymentMethodsToProcess) {
+        try {
+          // Check if there are recent payouts using this payment method
+          const recentPayouts = await PayoutRequest.countDocuments({
+            paymentMethodId: paymentMethod._id,
+            createdAt: { $gte: anonymizeDate }
+          });
+
+          if (recentPayouts === 0) {
+            if (!dryRun) {
+              // Remove sensitive account details
+              await PaymentMethod.findByIdAndUpdate(paymentMethod._id, {
+                $unset: {
+                  accountDetails: 1
+                }
+              });
+            }
+
+            result.recordsAnonymized++;
+          }
+        } catch (error) {
+          logger.error(`Error processing payment method ${paymentMethod._id}:`, error);
+        }
+      }
+
+      result.recordsProcessed = paymentMethodsToProcess.length;
+
+      if (!dryRun && result.recordsAnonymized > 0) {
+        await this.logDataProcessingActivity(
+          'system',
+          'data_anonymization',
+          `Anonymized ${result.recordsAnonymized} payment methods`,
+          { dataType: 'payment_methods', policy: policy.name }
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Process inactive users according to retention policy
+   */
+  private static async processInactiveUsers(policy: DataRetentionPolicy, dryRun: boolean = false): Promise<RetentionCounts> {
+    const result = { recordsProcessed: 0, recordsAnonymized: 0, recordsDeleted: 0 };
+
+    if (policy.anonymizeAfterDays) {
+      const inactiveDate = this.cutoffDate(policy.anonymizeAfterDays);
+
+      // Find users who haven't logged in for the specified period
+      const inactiveUsers = await User.find(this.inactiveUserQuery(inactiveDate));
+
+      for (const user of inactiveUsers) {
+        try {
+          // Check if user has recent financial activity
+          const recentActivity = await Promise.all([
+            Commission.countDocuments({
+              marketerId: user._id,
+              createdAt: { $gte: inactiveDate }
+            }),
+            PayoutRequest.countDocuments({
+              marketerId: user._id,
+              createdAt: { $gte: inactiveDate }
+            })
+          ]);
+
+          const hasRecentActivity = recentActivity.some(count => count > 0);
+
+          if (!hasRecentActivity) {
+            if (!dryRun) {
+              // Anonymize the user account
+              const anonymizedEmail = `anonymized_${Date.now()}_${user._id.toString().slice(-4)}@deleted.local`;
+
+              await User.findByIdAndUpdate(user._id, {
+                email: anonymizedEmail,
+                firstName: 'Anonymized User',
+                lastName: '',
+                status: 'revoked',
+                $unset: {
+                  emailVerificationToken: 1,
+                  emailVerificationExpires: 1,
+                  passwordResetToken: 1,
+                  passwordResetExpires: 1,
+                  mfaSecret: 1,
+                  mfaBackupCodes: 1
+                }
+              });
+            }
+
+            result.recordsAnonymized++;
+          }
+        } catch (error) {
+          logger.error(`Error processing inactive user ${user._id}:`, error);
+        }
+      }
+
+      result.recordsProcessed = inactiveUsers.length;
+
+      if (!dryRun && result.recordsAnonymized > 0) {
+        await this.logDataProcessingActivity(
+          'system',
+          'data_anonymization',
+          `Anonymized ${result.recordsAnonymized} inactive user accounts`,
+          { dataType: 'users', policy: policy.name }
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private static inactiveUserQuery(inactiveDate: Date): any {
+    return {
+      $or: [
+        { lastLogin: { $lt: inactiveDate } },
+        { lastLogin: { $exists: false }, createdAt: { $lt: inactiveDate } }
+      ],
+      status: { $ne: 'revoked' },
+      firstName: { $ne: 'Anonymized User' } // Not already anonymized
+    };
+  }
+
+  /**
+   * Whether manual anonymization supports a data type
+   */
+  private static isManuallyAnonymizable(dataType: string): boolean {
+    return Boolean(COLLECTION_RULES[dataType]) || dataType === 'user_profiles' || dataType === 'users';
+  }
+
+  /**
+   * Count records of a data type that are older than the cutoff and not yet anonymized
+   */
+  private static async countPendingAnonymization(dataType: string, cutoffDate: Date): Promise<number> {
+    const rule = COLLECTION_RULES[dataType];
+    if (rule) {
+      return rule.model.countDocuments({
+        [rule.dateField]: { $lt: cutoffDate },
+        ...rule.notAnonymized
+      });
+    }
+
+    switch (dataType) {
+      case 'user_profiles':
+        return UserProfile.countDocuments({
+          updatedAt: { $lt: cutoffDate },
+          firstName: { $ne: 'Anonymized User' }
+        });
+      case 'users':
+        return User.countDocuments(this.inactiveUserQuery(cutoffDate));
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Get retention policy status and next execution times
+   */
+  static async getRetentionStatus(): Promise<{
+    policies: DataRetentionPolicy[];
+    lastExecution?: Date;
+    nextExecution?: Date;
+    recordsEligibleForProcessing: { [key: string]: number };
+  }> {
+    try {
+      // Get last execution from audit logs
+      const lastExecution = await AuditLog.findOne({
+        action: 'retention_policy_completed'
+      }).sort({ timestamp: -1 });
+
+      const policies = await this.getPolicies();
+
+      // Calculate records eligible for processing
+      const recordsEligible: { [key: string]: number } = {};
+
+      for (const policy of policies) {
+        if (!policy.isActive) continue;
+
+        let count = 0;
+
+        if (policy.anonymizeAfterDays) {
+          const anonymizeDate = this.cutoffDate(policy.anonymizeAfterDays);
+
+          for (const dataType of policy.dataTypes) {
+            count += await this.countPendingAnonymization(dataType, anonymizeDate);
+          }
+        }
+
+        recordsEligible[policy.name] = count;
+      }
+
+      return {
+        policies,
+        lastExecution: lastExecution?.timestamp,
+        nextExecution: undefined, // This would be set by the job scheduler
+        recordsEligibleForProcessing: recordsEligible
+      };
+    } catch (error) {
+      logger.error('Error getting retention status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enhanced automated retention policy enforcement
+   * Ensures all policies are properly configured and executed on schedule
+   */
+  static async enforceAutomatedRetention(): Promise<{
+    success: boolean;
+    policiesExecuted: number;
+    totalRecordsProcessed: number;
+    errors: string[];
+    nextScheduledExecution?: Date;
+  }> {
+    try {
+      logger.info('Starting enhanced automated data retention enforcement');
+
+      const result = {
+        success: true,
+        policiesExecuted: 0,
+        totalRecordsProcessed: 0,
+        errors: [] as string[]
+      };
+
+      // First validate all policies
+      const validationResults = (await this.getPolicies()).map(policy => ({
+        policy,
+        validation: this.validateRetentionPolicy(policy)
+      }));
+
+      const invalidPolicies = validationResults.filter(r => !r.validation.isValid);
+      if (invalidPolicies.length > 0) {
+        const errorMsg = `Found ${invalidPolicies.length} invalid retention policies`;
+        result.errors.push(errorMsg);
+        logger.error(errorMsg, {
+          invalidPolicies: invalidPolicies.map(p => ({
+            name: p.policy.name,
+            errors: p.validation.errors
+          }))
+        });
+      }
+
+      // Execute valid policies
+      const validPolicies = validationResults
+        .filter(r => r.validation.isValid && r.policy.isActive)
+        .map(r => r.policy);
+
+      for (const policy of validPolicies) {
+        try {
+          const policyReport = await this.executeSinglePolicy(policy);
+          result.policiesExecuted++;
+          result.totalRecordsProcessed += policyReport.recordsProcessed;
+
+          if (policyReport.errors.length > 0) {
+            result.errors.push(...policyReport.errors);
+          }
+        } catch (error) {
+          const errorMsg = `Failed to execute policy ${policy.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMsg);
+          logger.error(errorMsg, { error, policyName: policy.name });
+        }
+      }
+
+      // Calculate next scheduled execution (24 hours from now)
+      const nextScheduledExecution = new Date(Date.now() + DAY_MS);
+
+      // Log enforcement completion
+      await this.logDataProcessingActivity(
+        'system',
+        'retention_policy_started',
+        'Enhanced automated retention enforcement completed',
+        {
+          policiesExecuted: result.policiesExecuted,
+          totalRecordsProcessed: result.totalRecordsProcessed,
+          errorCount: result.errors.length,
+          nextScheduledExecution
+        }
+      );
+
+      if (result.errors.length > 0) {
+        result.success = false;
+      }
+
+      return {
+        ...result,
+        nextScheduledExecution
+      };
+    } catch (error) {
+      logger.error('Enhanced automated retention enforcement failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Advanced anonymization with configurable strategies
+   */
+  static async advancedAnonymization(
+    dataType: string,
+    anonymizationStrategy: 'full' | 'partial' | 'pseudonymization',
+    criteria: any,
+    options: {
+      batchSize?: number;
+      preserveAnalytics?: boolean;
+      auditTrail?: boolean;
+    } = {}
+  ): Promise<{
+    success: boolean;
+    recordsProcessed: number;
+    anonymizationMethod: string;
+    preservedFields: string[];
+    errors: string[];
+  }> {
+    const {
+      batchSize = 100,
+      preserveAnalytics = false,
+      auditTrail = true
+    } = options;
+
+    const result = {
+      success: true,
+      recordsProcessed: 0,
+      anonymizationMethod: anonymizationStrategy,
+      preservedFields: [] as string[],
+      errors: [] as string[]
+    };
+
+    try {
+      logger.info(`Starting advanced anonymization for ${dataType}`, {
+        strategy: anonymizationStrategy,
+        criteria,
+        options
+      });
+
+      let strategyResult: { recordsProcessed: number; preservedFields: string[]; errors: string[] };
+
+      switch (dataType) {
+        case 'click_events':
+          strategyResult = await this.advancedClickEventAnonymization(
+            anonymizationStrategy,
+            criteria,
+            batchSize,
+            preserveAnalytics
+          );
+          break;
+
+        case 'conversion_events':
+          strategyResult = await this.advancedConversionEventAnonymization(
+            anonymizationStrategy,
+            criteria,
+            batchSize,
+            preserveAnalytics
+          );
+          break;
+
+        case 'user_profiles':
+          strategyResult = await this.advancedUserProfileAnonymization(
+            anonymizationStrategy,
+            criteria,
+            batchSize
+          );
+          break;
+
+        default:
+          result.success = false;
+          result.errors.push(`Unsupported data type for advanced anonymization: ${dataType}`);
+          return result;
+      }
+
+      Object.assign(result, strategyResult);
+      result.success = result.errors.length === 0;
+
+      if (auditTrail && result.recordsProcessed > 0) {
+        await this.logDataProcessingActivity(
+          'system',
+          'data_anonymization',
+          `Advanced anonymization completed for ${dataType}`,
+          {
+            dataType,
+            strategy: anonymizationStrategy,
+            recordsProcessed: result.recordsProcessed,
+            preservedFields: result.preservedFields,
+            criteria
+          }
+        );
+      }
+
+      return result;
+    } catch (error) {
+      logger.error(`Advanced anonymization failed for ${dataType}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        strategy: anonymizationStrategy
+      });
+      result.success = false;
+      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      return result;
+    }
+  }
+
+  /**
+   * Advanced click event anonymization with different strategies
+   */
+  private static async advancedClickEventAnonymization(
+    strategy: 'full' | 'partial' | 'pseudonymization',
+    criteria: any,
+    batchSize: number,
+    preserveAnalytics: boolean
+  ): Promise<{
+    recordsProcessed: number;
+    preservedFields: string[];
+    errors: string[];
+  }> {
+    const result = {
+      recordsProcessed: 0,
+      preservedFields: new Set<string>(),
+      errors: [] as string[]
+    };
+
+    const events = await ClickEvent.find(criteria);
+
+    for (let i = 0; i < events.length; i += batchSize) {
+      const batch = events.slice(i, i + batchSize);
+
+      for (const event of batch) {
+        try {
+          const updateData: any = {};
+
+          switch (strategy) {
+            case 'full':
+              updateData.ipAddress = '0.0.0.0';
+              updateData.userAgent = 'Anonymized';
+              updateData.fingerprint = 'anonymized';
+              updateData.sessionId = 'anonymized';
+              break;
+
+            case 'partial':
+              updateData.ipAddress = '0.0.0.0';
+              updateData.userAgent = 'Anonymized';
+              if (preserveAnalytics) {
+                result.preservedFields.add('fingerprint').add('sessionId');
+              } else {
+                updateData.fingerprint = 'anonymized';
+              }
+              break;
+
+            case 'pseudonymization':
+              updateData.ipAddress = this.generatePseudonym(event.ipAddress);
+              updateData.userAgent = 'Pseudonymized';
+              updateData.fingerprint = this.generatePseudonym(event.fingerprint);
+              result.preservedFields.add('sessionId');
+              break;
+          }
+
+          await ClickEvent.findByIdAndUpdate(event._id, { $set: updateData });
+          result.recordsProcessed++;
+        } catch (error) {
+          result.errors.push(`Failed to anonymize click event ${event._id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    return { ...result, preservedFields: Array.from(result.preservedFields) };
+  }
+
+  /**
+   * Advanced conversion event anonymization
+   */
+  private static async advancedConversionEventAnonymization(
+    strategy: 'full' | 'partial' | 'pseudonymization',
+    criteria: any,
+    batchSize: number,
+    preserveAnalytics: boolean
+  ): Promise<{
+    recordsProcessed: number;
+    preservedFields: string[];
+    errors: string[];
+  }> {
+    const result = {
+      recordsProcessed: 0,
+      preservedFields: new Set<string>(),
+      errors: [] as string[]
+    };
+
+    const events = await ConversionEvent.find(criteria);
+
+    for (let i = 0; i < events.length; i += batchSize) {
+      const batch = events.slice(i, i + batchSize);
+
+      for (const event of batch) {
+        try {
+          const updateData: any = {};
+
+          switch (strategy) {
+            case 'full':
+              updateData.ipAddress = '0.0.0.0';
+              updateData.userAgent = 'Anonymized';
+              updateData.fingerprint = 'anonymized';
+              updateData.customerId = `anon_${event._id.toString().slice(-8)}`;
+              break;
+
+            case 'partial':
+              updateData.ipAddress = '0.0.0.0';
+              updateData.userAgent = 'Anonymized';
+              if (preserveAnalytics) {
+                result.preservedFields.add('customerId').add('initialSpendAmount');
+              } else {
+                updateData.customerId = `anon_${event._id.toString().slice(-8)}`;
+              }
+              break;
+
+            case 'pseudonymization':
+              updateData.ipAddress = this.generatePseudonym(event.ipAddress || '');
+              updateData.userAgent = 'Pseudonymized';
+              updateData.customerId = `pseudo_${this.generatePseudonym(event.customerId)}`;
+              result.preservedFields.add('initialSpendAmount').add('productId');
+              break;
+          }
+
+          await ConversionEvent.findByIdAndUpdate(event._id, { $set: updateData });
+          result.recordsProcessed++;
+        } catch (error) {
+          result.errors.push(`Failed to anonymize conversion event ${event._id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    return { ...result, preservedFields: Array.from(result.preservedFields) };
+  }
+
+  /**
+   * Advanced user profile anonymization
+   */
+  private static async advancedUserProfileAnonymization(
+    strategy: 'full' | 'partial' | 'pseudonymization',
+    criteria: any,
+    batchSize: number
+  ): Promise<{
+    recordsProcessed: number;
+    preservedFields: string[];
+    errors: string[];
+  }> {
+    const result = {
+      recordsProcessed: 0,
+      preservedFields: new Set<string>(),
+      errors: [] as string[]
+    };
+
+    const profiles = await UserProfile.find(criteria);
+
+    for (let i = 0; i < profiles.length; i += batchSize) {
+      const batch = profiles.slice(i, i + batchSize);
+
+      for (const profile of batch) {
+        try {
+          const updateData: any = {};
+          const unsetData: any = {};
+
+          switch (strategy) {
+            case 'full':
+              updateData.firstName = 'Anonymized User';
+              updateData.lastName = '';
+              updateData.phone = '';
+              updateData.dateOfBirth = null;
+              updateData.address = null;
+              unsetData.kycDocuments = 1;
+              unsetData.taxId = 1;
+              unsetData.bankAccountInfo = 1;
+              break;
+
+            case 'partial':
+              updateData.firstName = 'Anonymized User';
+              updateData.lastName = '';
+              updateData.phone = '';
+              result.preservedFields.add('kycStatus').add('complianceQuizPassed');
+              unsetData.kycDocuments = 1;
+              unsetData.taxId = 1;
+              break;
+
+            case 'pseudonymization':
+              updateData.firstName = `User_${this.generatePseudonym(profile.firstName || '').substring(0, 6)}`;
+              updateData.lastName = this.generatePseudonym(profile.lastName || '').substring(0, 6);
+              updateData.phone = '';
+              result.preservedFields.add('kycStatus').add('complianceQuizPassed').add('dateOfBirth');
+              unsetData.kycDocuments = 1;
+              break;
+          }
+
+          const updateQuery: any = { $set: updateData };
+          if (Object.keys(unsetData).length > 0) {
+            updateQuery.$unset = unsetData;
+          }
+
+          await UserProfile.findByIdAndUpdate(profile._id, updateQuery);
+          result.recordsProcessed++;
+        } catch (error) {
+          result.errors.push(`Failed to anonymize user profile ${profile._id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    return { ...result, preservedFields: Array.from(result.preservedFields) };
+  }
+
+  /**
+   * Generate pseudonym for data pseudonymization
+   */
+  private static generatePseudonym(originalValue: string): string {
+    return crypto.createHash('sha256').update(originalValue + 'salt_key').digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Bulk anonymization with progress tracking
+   */
+  static async bulkAnonymization(
+    dataType: string,
+    criteria: any,
+    batchSize: number = 100
+  ): Promise<{
+    success: boolean;
+    totalProcessed: number;
+    totalAnonymized: number;
+    errors: string[];
+    progress: Array<{ batch: number; processed: number; anonymized: number }>;
+  }> {
+    const result = {
+      success: true,
+      totalProcessed: 0,
+      totalAnonymized: 0,
+      errors: [] as string[],
+      progress: [] as Array<{ batch: number; processed: number; anonymized: number }>
+    };
+
+    try {
+      logger.info(`Starting bulk anonymization for ${dataType}`, {
+        criteria,
+        batchSize
+      });
+
+      let Model: any;
+      let anonymizationFields: any;
+
+      switch (dataType) {
+        case 'click_events':
+          Model = ClickEvent;
+          anonymizationFields = {
+            ipAddress: '0.0.0.0',
+            userAgent: 'Anonymized',
+            fingerprint: 'anonymized'
+          };
+          break;
+        case 'conversion_events':
+          Model = ConversionEvent;
+          anonymizationFields = {
+            ipAddress: '0.0.0.0',
+            userAgent: 'Anonymized'
+          };
+          break;
+        default:
+          result.success = false;
+          result.errors.push(`Unsupported data type for bulk anonymization: ${dataType}`);
+          return result;
+      }
+
+      const totalRecords = await Model.countDocuments(criteria);
+      const totalBatches = Math.ceil(totalRecords / batchSize);
+
+      for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
+        try {
+          const skip = batchNum * batchSize;
+          const batchRecords = await Model.find(criteria).sort({ _id: 1 }).skip(skip).limit(batchSize);
+
+          let batchAnonymized = 0;
+
+          for (const record of batchRecords) {
+            try {
+              // Skip records that are already anonymized
+              if (record.ipAddress !== '0.0.0.0') {
+                await Model.findByIdAndUpdate(record._id, anonymizationFields);
+                batchAnonymized++;
+              }
+            } catch (error) {
+              result.errors.push(`Failed to anonymize record ${record._id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+          }
+
+          result.progress.push({
+            batch: batchNum + 1,
+            processed: batchRecords.length,
+            anonymized: batchAnonymized
+          });
+
+          result.totalProcessed += batchRecords.length;
+          result.totalAnonymized += batchAnonymized;
+
+          // Log progress every 10 batches
+          if ((batchNum + 1) % 10 === 0) {
+            logger.info(`Bulk anonymization progress: ${batchNum + 1}/${totalBatches} batches completed`);
+          }
+        } catch (error) {
+          result.errors.push(`Failed to process batch ${batchNum + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      // Log completion
+      await this.logDataProcessingActivity(
+        'system',
+        'data_anonymization',
+        `Bulk anonymization completed for ${dataType}`,
+        {
+          dataType,
+          totalProcessed: result.totalProcessed,
+          totalAnonymized: result.totalAnonymized,
+          batchCount: result.progress.length,
+          errorCount: result.errors.length
+        }
+      );
+
+      if (result.errors.length > 0) {
+        result.success = false;
+      }
+
+      return result;
+    } catch (error) {
+      logger.error(`Bulk anonymization failed for ${dataType}`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      result.success = false;
+      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      return result;
+    }
+  }
+
+  /**
+   * Manually trigger anonymization for specific data types
+   */
+  static async manualAnonymization(
+    dataType: string,
+    olderThanDays: number,
+    dryRun: boolean = true
+  ): Promise<DataAnonymizationResult> {
+    try {
+      logger.info(`Manual anonymization requested for ${dataType}, older than ${olderThanDays} days, dryRun: ${dryRun}`);
+
+      const result: DataAnonymizationResult = {
+        success: true,
+        recordsProcessed: 0,
+        errors: []
+      };
+
+      if (!this.isManuallyAnonymizable(dataType)) {
+        result.errors.push(`Unsupported data type for manual anonymization: ${dataType}`);
+        result.success = false;
+        return result;
+      }
+
+      if (!dryRun) {
+        // Create a temporary policy for this operation
+        const tempPolicy: DataRetentionPolicy = {
+          name: 'manual_anonymization',
+          description: `Manual anonymization of ${dataType}`,
+          retentionPeriodDays: olderThanDays,
+          dataTypes: [dataType],
+          anonymizeAfterDays: olderThanDays,
+          isActive: true
+        };
+
+        const processResult = await this.processDataType(dataType, tempPolicy);
+        result.recordsProcessed = processResult.recordsAnonymized;
+
+        await this.logDataProcessingActivity(
+          'system',
+          'manual_anonymization',
+          `Manual anonymization completed for ${dataType}`,
+          {
+            dataType,
+            olderThanDays,
+            recordsProcessed: result.recordsProcessed
+          }
+        );
+      } else {
+        // Dry run - just count records that would be processed
+        result.recordsProcessed = await this.countPendingAnonymization(dataType, this.cutoffDate(olderThanDays));
+      }
+
+      logger.info(`Manual anonymization ${dryRun ? 'dry run' : 'execution'} completed`, result);
+      return result;
+    } catch (error) {
+      logger.error('Manual anonymization failed:', error);
+      return {
+        success: false,
+        recordsProcessed: 0,
+        errors: [error instanceof Error ? error.message : 'Unknown error']
+      };
+    }
+  }
+
+  /**
+   * Log data processing activities for audit trail
+   */
+  private static async logDataProcessingActivity(
+    userId: string,
+    action: string,
+    details: string,
+    metadata?: any
+  ): Promise<void> {
+    try {
+      const auditLog = new AuditLog({
+        adminId: userId,
+        action,
+        resource: 'system',
+        details: {
+          reason: details,
+          metadata
+        },
+        ipAddress: '127.0.0.1', // System action
+        userAgent: 'Data Retention Service',
+        timestamp: new Date()
+      });
+
+      await auditLog.save();
+    } catch (error) {
+      logger.error('Error logging data processing activity:', error);
+      // Don't throw error here to avoid breaking the main operation
+    }
+  }
+
+  /**
+   * Validate retention policy configuration
+   */
+  static validateRetentionPolicy(policy: DataRetentionPolicy): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!policy.name || policy.name.trim().length === 0) {
+      errors.push('Policy name is required');
+    }
+
+    if (!policy.description || policy.description.trim().length === 0) {
+      errors.push('Policy description is required');
+    }
+
+    if (!policy.retentionPeriodDays || policy.retentionPeriodDays <= 0) {
+      errors.push('Retention period must be a positive number');
+    }
+
+    if (!policy.dataTypes || policy.dataTypes.length === 0) {
+      errors.push('At least one data type must be specified');
+    } else {
+      for (const dataType of policy.dataTypes) {
+        if (!SUPPORTED_DATA_TYPES.includes(dataType)) {
+          errors.push(`Unsupported data type: ${dataType}`);
+        }
+      }
+    }
+
+    if (policy.anonymizeAfterDays !== undefined && policy.anonymizeAfterDays <= 0) {
+      errors.push('Anonymization period must be a positive number');
+    }
+
+    if (policy.deleteAfterDays !== undefined && policy.deleteAfterDays <= 0) {
+      errors.push('Deletion period must be a positive number');
+    }
+
+    if (policy.anonymizeAfterDays && policy.deleteAfterDays &&
+        policy.anonymizeAfterDays > policy.deleteAfterDays) {
+      errors.push('Anonymization period must be less than deletion period');
+    }
+
+    // Only the bulk collection rules support preserving individual fields
+    for (const field of policy.preserveFields || []) {
+      const preservable = (policy.dataTypes || []).some(dataType => {
+        const rule = COLLECTION_RULES[dataType];
+        return rule && (field in (rule.anonymize.set || {}) || (rule.anonymize.unset || []).includes(field));
+      });
+      if (!preservable) {
+        errors.push(`Field ${field} cannot be preserved for the selected data types`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Create or update a retention policy. A policy named after a built-in one overrides it.
+   */
+  static async createRetentionPolicy(
+    policy: DataRetentionPolicy,
+    updatedBy: string = 'system'
+  ): Promise<{ success: boolean; errors: string[] }> {
+    try {
+      const validation = this.validateRetentionPolicy(policy);
+      if (!validation.isValid) {
+        return { success: false, errors: validation.errors };
+      }
+
+      const update: any = {
+        $set: {
+          description: policy.description,
+          retentionPeriodDays: policy.retentionPeriodDays,
+          dataTypes: policy.dataTypes,
+          preserveFields: policy.preserveFields || [],
+          isActive: policy.isActive,
+          updatedBy
+        }
+      };
+
+      // Thresholds left out of an update stop applying
+      const unset: Record<string, 1> = {};
+      for (const field of ['anonymizeAfterDays', 'deleteAfterDays'] as const) {
+        if (policy[field]) {
+          update.$set[field] = policy[field];
+        } else {
+          unset[field] = 1;
+        }
+      }
+      if (Object.keys(unset).length > 0) {
+        update.$unset = unset;
+      }
+
+      await RetentionPolicy.findOneAndUpdate({ name: policy.name.trim() }, update, {
+        upsert: true,
+        runValidators: true
+      });
+
+      await this.logDataProcessingActivity(
+        updatedBy,
+        'retention_policy_created',
+        `Saved retention policy: ${policy.name}`,
+        { policy }
+      );
+
+      logger.info(`Saved retention policy: ${policy.name}`, { policy });
+      return { success: true, errors: [] };
+    } catch (error) {
+      const errorMsg = `Failed to create retention policy: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      logger.error(errorMsg, { error, policy });
+      return { success: false, errors: [errorMsg] };
+    }
+  }
+
+  /**
+   * Enhanced data anonymization with field-level control
+   */
+  static async anonymizeDataFields(
+    collection: string,
+    documentId: string,
+    fieldsToAnonymize: string[],
+    reason: string
+  ): Promise<{ success: boolean; errors: string[] }> {
+    try {
+      logger.info(`Starting field-level anonymization for ${collection}:${documentId}`, {
+        collection,
+        documentId,
+        fields: fieldsToAnonymize,
+        reason
+      });
+
+      let updateResult;
+      const anonymizationMap: any = {};
+
+      // Build anonymization update object
+      fieldsToAnonymize.forEach(field => {
+        switch (field) {
+          case 'ipAddress':
+            anonymizationMap[field] = '0.0.0.0';
+            break;
+          case 'userAgent':
+            anonymizationMap[field] = 'Anonymized';
+            break;
+          case 'email':
+            anonymizationMap[field] = `anonymized_${Date.now()}_${documentId.slice(-4)}@deleted.local`;
+            break;
+          case 'firstName':
+            anonymizationMap[field] = 'Anonymized User';
+            break;
+          case 'lastName':
+          case 'phone':
+          case 'address':
+            anonymizationMap[field] = '';
+            break;
+          case 'fingerprint':
+            anonymizationMap[field] = 'anonymized';
+            break;
+          default:
+            anonymizationMap[field] = 'anonymized';
+        }
+      });
+
+      // Apply anonymization based on collection type
+      switch (collection) {
+        case 'users':
+          updateResult = await User.findByIdAndUpdate(documentId, { $set: anonymizationMap });
+          break;
+        case 'clickevents':
+          updateResult = await ClickEvent.findByIdAndUpdate(documentId, { $set: anonymizationMap });
+          break;
+        case 'conversionevents':
+          updateResult = await ConversionEvent.findByIdAndUpdate(documentId, { $set: anonymizationMap });
+          break;
+        case 'auditlogs':
+          updateResult = await AuditLog.findByIdAndUpdate(documentId, { $set: anonymizationMap });
+          break;
+        case 'consents':
+          updateResult = await Consent.findByIdAndUpdate(documentId, { $set: anonymizationMap });
+          break;
+        case 'customers':
+          updateResult = await Customer.findByIdAndUpdate(documentId, { $set: anonymizationMap });
+          break;
+        default:
+          throw new Error(`Unsupported collection for field-level anonymization: ${collection}`);
+      }
+
+      if (!updateResult) {
+        throw new Error(`Document not found: ${collection}:${documentId}`);
+      }
+
+      // Log the anonymization activity
+      await this.logDataProcessingActivity(
+        'system',
+        'field_rectification',
+        `Field-level anonymization completed for ${collection}:${documentId}`,
+        {
+          collection,
+          documentId,
+          fieldsAnonymized: fieldsToAnonymize,
+          reason,
+          anonymizationMap
+        }
+      );
+
+      logger.info(`Field-level anonymization completed for ${collection}:${documentId}`, {
+        fieldsAnonymized: fieldsToAnonymize.length
+      });
+
+      return { success: true, errors: [] };
+    } catch (error) {
+      const errorMsg = `Field-level anonymization failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      logger.error(errorMsg, { error, collection, documentId, fieldsToAnonymize });
+      return { success: false, errors: [errorMsg] };
+    }
+  }
+
+  /**
+   * Data retention compliance check
+   */
+  static async performComplianceCheck(): Promise<{
+    compliant: boolean;
+    issues: Array<{
+      severity: 'high' | 'medium' | 'low';
+      category: string;
+      description: string;
+      affectedRecords: number;
+      recommendation: string;
+    }>;
+    summary: {
+      totalIssues: number;
+      highSeverityIssues: number;
+      recordsRequiringAttention: number;
+    };
+  }> {
+    const issues: Array<{
+      severity: 'high' | 'medium' | 'low';
+      category: string;
+      description: string;
+      affectedRecords: number;
+      recommendation: string;
+    }> = [];
+
+    try {
+      logger.info('Starting data retention compliance check');
+
+      const ninetyDaysAgo = this.cutoffDate(90);
+      const oneYearAgo = this.cutoffDate(365);
+      const threeYearsAgo = this.cutoffDate(3 * 365);
+
+      // Check for overdue anonymization - Click Events
+      const overdueClickEvents = await this.countPendingAnonymization('click_events', ninetyDaysAgo);
+
+      if (overdueClickEvents > 0) {
+        issues.push({
+          severity: 'high',
+          category: 'Data Anonymization',
+          description: 'Click events older than 90 days not anonymized',
+          affectedRecords: overdueClickEvents,
+          recommendation: 'Run anonymization process for click events older than 90 days'
+        });
+      }
+
+      // Check for overdue anonymization - Conversion Events
+      const overdueConversionEvents = await this.countPendingAnonymization('conversion_events', ninetyDaysAgo);
+
+      if (overdueConversionEvents > 0) {
+        issues.push({
+          severity: 'high',
+          category: 'Data Anonymization',
+          description: 'Conversion events older than 90 days not anonymized',
+          affectedRecords: overdueConversionEvents,
+          recommendation: 'Run anonymization process for conversion events older than 90 days'
+        });
+      }
+
+      // Check for inactive users not anonymized
+      const inactiveUsers = await this.countPendingAnonymization('users', threeYearsAgo);
+
+      if (inactiveUsers > 0) {
+        issues.push({
+          severity: 'medium',
+          category: 'User Data Retention',
+          description: 'Inactive users older than 3 years not anonymized',
+          affectedRecords: inactiveUsers,
+          recommendation: 'Review and anonymize inactive user accounts older than 3 years'
+        });
+      }
+
+      // Check for stale customer records
+      const staleCustomers = await this.countPendingAnonymization('customers', threeYearsAgo);
+
+      if (staleCustomers > 0) {
+        issues.push({
+          severity: 'medium',
+          category: 'Customer Data Retention',
+          description: 'Customer records untouched for 3 years not anonymized',
+          affectedRecords: staleCustomers,
+          recommendation: 'Run the customer_records retention policy'
+        });
+      }
+
+      // Check for old audit logs
+      const oldAuditLogs = await this.countPendingAnonymization('audit_logs', oneYearAgo);
+
+      if (oldAuditLogs > 1000) {
+        issues.push({
+          severity: 'low',
+          category: 'Audit Log Retention',
+          description: 'Large number of old audit logs not anonymized',
+          affectedRecords: oldAuditLogs,
+          recommendation: 'Consider anonymizing audit logs older than 1 year'
+        });
+      }
+
+      // Check for very old data that should be deleted
+      const veryOldClickEvents = await ClickEvent.countDocuments({
+        timestamp: { $lt: oneYearAgo }
+      });
+
+      if (veryOldClickEvents > 10000) {
+        issues.push({
+          severity: 'medium',
+          category: 'Data Deletion',
+          description: 'Large volume of click events older than 1 year',
+          affectedRecords: veryOldClickEvents,
+          recommendation: 'Consider implementing deletion policy for very old click events'
+        });
+      }
+
+      const summary = {
+        totalIssues: issues.length,
+        highSeverityIssues: issues.filter(i => i.severity === 'high').length,
+        recordsRequiringAttention: issues.reduce((sum, issue) => sum + issue.affectedRecords, 0)
+      };
+
+      const compliant = summary.highSeverityIssues === 0;
+
+      // Log compliance check results
+      await this.logDataProcessingActivity(
+        'system',
+        'data_retention_check',
+        'Data retention compliance check completed',
+        {
+          compliant,
+          totalIssues: summary.totalIssues,
+          highSeverityIssues: summary.highSeverityIssues,
+          recordsRequiringAttention: summary.recordsRequiringAttention,
+          issues: issues.map(i => ({
+            severity: i.severity,
+            category: i.category,
+            affectedRecords: i.affectedRecords
+          }))
+        }
+      );
+
+      logger.info('Data retention compliance check completed', {
+        compliant,
+        summary,
+        issueCount: issues.length
+      });
+
+      return { compliant, issues, summary };
+
+    } catch (error) {
+      logger.error('Data retention compliance check failed', { error });
+      throw error;
+    }
+  }
+}
@@ -104,4 +104,53 @@ export const sendOTPEmail = async (email: string, otp: string) => {
     logger.error('Failed to send OTP email:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const sendScheduledReportEmail = async (
+  recipients: string[],
+  report: {
+    name: string;
+    periodStart: Date;
+    periodEnd: Date;
+    fileName: string;
+    contentType: string;
+    content: Buffer;
+  }
+) => {
+  try {
+    // Report names are admin-provided, so keep them from injecting markup
+    const name = report.name.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const period = `${report.periodStart.toISOString().split('T')[0]} to ${report.periodEnd.toISOString().split('T')[0]}`;
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'noreply@partneriq.online',
+      to: recipients.join(', '),
+      subject: `${report.name} (${period})`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${name}</h2>
+          <p>Your scheduled report for ${period} is attached.</p>
+          <p style="color: #6c757d; font-size: 14px;">You are receiving this email because you are listed as a recipient of this report.</p>
+        </div>
+      `,
+      attachments: [{
+        filename: report.fileName,
+        content: report.content,
+        contentType: report.contentType
+      }]
+    };
+
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      // Log to console if no email credentials
+      logger.info(`Report email would be sent to ${mailOptions.to}:`);
+      logger.info(`Subject: ${mailOptions.subject}`);
+      logger.info(`Attachment: ${report.fileName} (${report.content.length} bytes)`);
+    } else {
+      await transporter.sendMail(mailOptions);
+      logger.info(`Report email sent to ${mailOptions.to}`);
+    }
+  } catch (error) {
+    logger.error('Failed to send scheduled report email:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { LedgerService, commissionTarget, payoutTarget, diffEntries } from '../index';
+import { LedgerTransaction } from '../../../models/LedgerTransaction';
+import { Commission } from '../../../models/Commission';
+import { CommissionAdjustment } from '../../../models/CommissionAdjustment';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+
+describe('LedgerService', () => {
+  describe('posting rules', () => {
+    it('should hold pending and cleared commissions in separate accounts', () => {
+      expect(commissionTarget({ status: 'pending', commissionAmount: 50 }, 0, false))
+        .toEqual({ marketer_pending: 5000, commission_expense: -5000 });
+      expect(commissionTarget({ status: 'approved', commissionAmount: 50 }, 1000, false))
+        .toEqual({ marketer_available: 6000, commission_expense: -6000 });
+      expect(commissionTarget({ status: 'clawed_back', commissionAmount: 50 }, -5000, true)).toEqual({});
+      expect(commissionTarget({ status: 'rejected', commissionAmount: 50 }, 0, false)).toEqual({});
+      expect(commissionTarget({ status: 'approved', commissionAmount: 80, exchangeRate: 1.25 }, 800, false))
+        .toEqual({ marketer_available: 11000, commission_expense: -11000 });
+    });
+
+    it('should pay sent payouts out net of the processing fee and withholding', () => {
+      expect(payoutTarget({ status: 'approved', amount: 100 }))
+        .toEqual({ marketer_available: -10000, marketer_payout_pending: 10000 });
+      expect(payoutTarget({ status: 'completed', amount: 100, processingFee: 2.5 }))
+        .toEqual({ marketer_available: -10000, cash: 9750, fee_revenue: 250 });
+      expect(payoutTarget({ status: 'completed', amount: 100, processingFee: 2.5, withholdingAmount: 24 }))
+        .toEqual({ marketer_available: -10000, cash: 7350, fee_revenue: 250, tax_withholding: 2400 });
+      expect(payoutTarget({ status: 'completed', amount: 100, settlementStatus: 'returned' })).toEqual({});
+    });
+
+    it('should produce balanced entries for the difference', () => {
+      const entries = diffEntries(
+        { marketer_pending: 5000, commission_expense: -5000 },
+        { marketer_available: 5000, commission_expense: -5000 }
+      );
+
+      expect(entries).toEqual([
+        { account: 'marketer_pending', debit: 50, credit: 0 },
+        { account: 'marketer_available', debit: 0, credit: 50 }
+      ]);
+    });
+  });
+
+  describe('syncMarketer', () => {
+    let mongoServer: MongoMemoryServer;
+    const marketerId = new mongoose.Types.ObjectId().toString();
+    const paymentMethodId = new mongoose.Types.ObjectId().toString();
+    const adminId = new mongoose.Types.ObjectId().toString();
+
+    const createCommission = (commissionAmount: number, status: string, conversionDate = '2024-01-01') =>
+      Commission.create({
+        marketerId,
+        customerId: new mongoose.Types.ObjectId().toString(),
+        productId: new mongoose.Types.ObjectId().toString(),
+        trackingCode: 'TRACK123',
+        initialSpendAmount: commissionAmount * 10,
+        commissionRate: 0.1,
+        commissionAmount,
+        status,
+        conversionDate: new Date(conversionDate),
+        clearancePeriodDays: 30
+      });
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await Promise.all([
+        Commission.deleteMany({}),
+        CommissionAdjustment.deleteMany({}),
+        PayoutRequest.deleteMany({}),
+        LedgerTransaction.collection.deleteMany({})
+      ]);
+    });
+
+    it('should follow a commission from accrual through approval and bonus', async () => {
+      const commission = await createCommission(80, 'pending');
+      await LedgerService.syncMarketer(marketerId);
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ pending: 80, available: 0 });
+
+      await Commission.updateOne({ _id: commission._id }, { $set: { status: 'approved', approvalDate: new Date() } });
+      await CommissionAdjustment.create({
+        commissionId: commission._id.toString(),
+        adjustmentType: 'bonus',
+        amount: 20,
+        reason: 'Launch bonus',
+        adminId
+      });
+      await LedgerService.syncMarketer(marketerId);
+
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ pending: 0, available: 100, lifetimeEarnings: 100 });
+      const types = (await LedgerTransaction.find({ referenceId: commission._id.toString() }).sort({ sequence: 1 }))
+        .map(transaction => transaction.type);
+      expect(types).toEqual(['commission_accrued', 'commission_approved']);
+    });
+
+    it('should post each commission and payout event as it is recorded', async () => {
+      const commission = await createCommission(100, 'pending');
+      await LedgerService.recordCommissions([commission._id]);
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ pending: 100, available: 0 });
+
+      await Commission.updateOne({ _id: commission._id }, { $set: { status: 'approved', approvalDate: new Date() } });
+      await LedgerService.recordCommissions([commission._id]);
+
+      const payout = await PayoutRequest.create({ marketerId, paymentMethodId, amount: 40, processingFee: 1 });
+      await LedgerService.recordPayouts([payout._id]);
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ available: 60, payoutPending: 40 });
+
+      await PayoutRequest.updateOne({ _id: payout._id }, { $set: { status: 'completed', completedAt: new Date() } });
+      expect(await LedgerService.recordPayouts([payout._id, payout._id])).toBe(1);
+
+      // Reading balances never posts; everything is already on the ledger
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ available: 60, payoutPending: 0, totalPaidOut: 40 });
+      expect(await LedgerService.syncMarketer(marketerId)).toBe(0);
+      expect((await LedgerTransaction.find({ marketerId }).sort({ occurredAt: 1, sequence: 1 })).map(transaction => transaction.type))
+        .toEqual(['commission_accrued', 'commission_approved', 'payout_requested', 'payout_sent']);
+    });
+
+    it('should post nothing when run again without changes', async () => {
+      await createCommission(60, 'approved');
+      await PayoutRequest.create({ marketerId, paymentMethodId, amount: 50, status: 'completed', completedAt: new Date() });
+
+      const first = await LedgerService.syncMarketer(marketerId);
+      const second = await LedgerService.syncMarketer(marketerId);
+
+      expect(first).toBe(4);
+      expect(second).toBe(0);
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ available: 10, totalPaidOut: 50 });
+    });
+
+    it('should reverse a returned payout and a clawed back commission', async () => {
+      const commission = await createCommission(100, 'approved');
+      const payout = await PayoutRequest.create({ marketerId, paymentMethodId, amount: 40, processingFee: 1 });
+      await LedgerService.syncMarketer(marketerId);
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ available: 60, payoutPending: 40 });
+
+      await PayoutRequest.updateOne({ _id: payout._id }, { $set: { status: 'completed', completedAt: new Date() } });
+      await LedgerService.syncMarketer(marketerId);
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ available: 60, payoutPending: 0, totalPaidOut: 40 });
+
+      await PayoutRequest.updateOne({ _id: payout._id }, { $set: { settlementStatus: 'returned', returnedAt: new Date() } });
+      await CommissionAdjustment.create({
+        commissionId: commission._id.toString(),
+        adjustmentType: 'clawback',
+        amount: -30,
+        reason: 'Partial refund',
+        adminId
+      });
+      await LedgerService.syncMarketer(marketerId);
+
+      expect(await LedgerService.getBalances(marketerId)).toMatchObject({ available: 70, totalPaidOut: 0 });
+      const trialBalance = await LedgerService.getTrialBalance();
+      expect(trialBalance.balanced).toBe(true);
+      expect(trialBalance.accounts.find(account => account.account === 'fee_revenue')).toMatchObject({ debit: 1, credit: 1 });
+    });
+
+    it('should report balances as of a point in time and a statement with running balances', async () => {
+      await createCommission(50, 'approved', '2024-01-10');
+      await createCommission(30, 'approved', '2024-02-10');
+      await LedgerService.syncMarketer(marketerId);
+
+      const january = await LedgerService.getBalances(marketerId, new Date('2024-01-31T00:00:00Z'));
+      expect(january.pending + january.available).toBe(50);
+
+      const statement = await LedgerService.getStatement(marketerId, {
+        startDate: new Date('2024-02-01T00:00:00Z'),
+        endDate: new Date(),
+        account: 'marketer_pending'
+      });
+      expect(statement.openingBalance).toBe(january.pending);
+      expect(statement.closingBalance).toBe(0);
+      expect(statement.entries[statement.entries.length - 1].balance).toBe(0);
+    });
+
+    it('should refuse to change or delete posted transactions', async () => {
+      await createCommission(25, 'pending');
+      await LedgerService.syncMarketer(marketerId);
+      const transaction = await LedgerTransaction.findOne({ marketerId });
+
+      await expect(LedgerTransaction.updateOne({ _id: transaction!._id }, { $set: { description: 'Edited' } }))
+        .rejects.toThrow('append-only');
+      await expect(LedgerTransaction.deleteMany({ marketerId })).rejects.toThrow('append-only');
+      await expect(LedgerTransaction.create({
+        marketerId,
+        type: 'commission_adjustment',
+        referenceType: 'commission',
+        referenceId: 'manual',
+        sequence: 1,
+        entries: [{ account: 'marketer_available', debit: 0, credit: 10 }, { account: 'commission_expense', debit: 5, credit: 0 }],
+        description: 'Unbalanced',
+        occurredAt: new Date()
+      })).rejects.toThrow('must balance');
+    });
+  });
+});
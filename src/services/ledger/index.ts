@@ -0,0 +1,636 @@
+import { FilterQuery } from 'mongoose';
+import {
+  LedgerTransaction,
+  ILedgerTransaction,
+  ILedgerEntry,
+  LedgerAccount,
+  LedgerTransactionType,
+  LEDGER_ACCOUNTS
+} from '../../models/LedgerTransaction';
+import { Commission, ICommission } from '../../models/Commission';
+import { CommissionAdjustment } from '../../models/CommissionAdjustment';
+import { PayoutRequest, IPayoutRequest } from '../../models/PayoutRequest';
+import { logger } from '../../utils/logger';
+
+// Signed amounts per account in cents; credits are positive, debits negative
+export type AccountAmounts = Partial<Record<LedgerAccount, number>>;
+
+export interface MarketerBalances {
+  asOf: Date;
+  available: number;
+  pending: number;
+  payoutPending: number;
+  lifetimeEarnings: number;
+  totalPaidOut: number;
+}
+
+export interface StatementEntry {
+  transactionId: string;
+  type: LedgerTransactionType;
+  referenceType: 'commission' | 'payout';
+  referenceId: string;
+  description: string;
+  occurredAt: Date;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface LedgerStatement {
+  account: LedgerAccount;
+  startDate: Date;
+  endDate: Date;
+  openingBalance: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+}
+
+export interface TrialBalance {
+  asOf: Date;
+  accounts: Array<{ account: LedgerAccount; debit: number; credit: number }>;
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+}
+
+export interface LedgerSyncSummary {
+  marketers: number;
+  posted: number;
+  errors: Array<{ marketerId: string; error: string }>;
+}
+
+export const MARKETER_ACCOUNTS: LedgerAccount[] = ['marketer_pending', 'marketer_available', 'marketer_payout_pending'];
+
+const OPEN_PAYOUT_STATUSES = ['requested', 'approved', 'processing'];
+
+const COMMISSION_FIELDS = 'marketerId status commissionAmount exchangeRate conversionDate approvalDate updatedAt';
+const PAYOUT_FIELDS = 'marketerId status amount processingFee withholdingAmount settlementStatus requestedAt completedAt returnedAt updatedAt';
+
+// Times a posting is retried when a concurrent posting for the same reference takes its sequence number
+const MAX_POSTING_ATTEMPTS = 3;
+
+const toCents = (value: number) => Math.round((value || 0) * 100);
+const fromCents = (cents: number) => cents / 100;
+
+type ReferenceType = 'commission' | 'payout';
+
+interface PostedReference {
+  amounts: AccountAmounts;
+  count: number;
+}
+
+interface AdjustmentTotals {
+  cents: number;
+  hasClawback: boolean;
+  latestAt?: Date;
+}
+
+/**
+ * A commission's value in the base currency: its amount plus bonuses and clawbacks, converted at the
+ * commission's snapshotted exchange rate
+ */
+export const commissionValueCents = (
+  commission: Pick<ICommission, 'commissionAmount'> & { exchangeRate?: number },
+  adjustmentCents: number
+): number => Math.max(0, Math.round((toCents(commission.commissionAmount) + adjustmentCents) * (commission.exchangeRate ?? 1)));
+
+/**
+ * What a commission should currently hold in the ledger. Bonuses and clawbacks live in
+ * CommissionAdjustment; corrections are already reflected in commissionAmount. The ledger is kept
+ * in the base currency, so amounts are converted at the commission's snapshotted exchange rate.
+ */
+export const commissionTarget = (
+  commission: Pick<ICommission, 'status' | 'commissionAmount'> & { exchangeRate?: number },
+  adjustmentCents: number,
+  hasClawback: boolean
+): AccountAmounts => {
+  const value = commissionValueCents(commission, adjustmentCents);
+
+  switch (commission.status) {
+    case 'pending':
+      return value > 0 ? { marketer_pending: value, commission_expense: -value } : {};
+    case 'approved':
+    case 'paid':
+      return value > 0 ? { marketer_available: value, commission_expense: -value } : {};
+    case 'clawed_back':
+      // Commissions clawed back before adjustments were recorded have nothing left to show
+      return hasClawback && value > 0 ? { marketer_available: value, commission_expense: -value } : {};
+    default:
+      return {};
+  }
+};
+
+/**
+ * What a payout should currently hold in the ledger. Open payouts move funds out of the available
+ * balance; sent payouts pay them out net of the processing fee and any tax withheld.
+ */
+export const payoutTarget = (
+  payout: Pick<IPayoutRequest, 'status' | 'amount' | 'processingFee' | 'withholdingAmount' | 'settlementStatus'>
+): AccountAmounts => {
+  const amount = toCents(payout.amount);
+  const fee = Math.min(toCents(payout.processingFee || 0), amount);
+  const withheld = Math.min(toCents(payout.withholdingAmount || 0), amount - fee);
+
+  if (OPEN_PAYOUT_STATUSES.includes(payout.status)) {
+    return { marketer_available: -amount, marketer_payout_pending: amount };
+  }
+
+  const returned = payout.settlementStatus === 'returned' || payout.settlementStatus === 'failed';
+  if (payout.status === 'completed' && !returned) {
+    const sent: AccountAmounts = { marketer_available: -amount, cash: amount - fee - withheld };
+    if (fee > 0) {
+      sent.fee_revenue = fee;
+    }
+    if (withheld > 0) {
+      sent.tax_withholding = withheld;
+    }
+    return sent;
+  }
+
+  return {};
+};
+
+/**
+ * Balanced entries that move the posted amounts to the target amounts
+ */
+export const diffEntries = (posted: AccountAmounts, target: AccountAmounts): ILedgerEntry[] => {
+  const entries: ILedgerEntry[] = [];
+  for (const account of LEDGER_ACCOUNTS) {
+    const delta = (target[account] || 0) - (posted[account] || 0);
+    if (delta !== 0) {
+      entries.push({
+        account,
+        debit: delta < 0 ? fromCents(-delta) : 0,
+        credit: delta > 0 ? fromCents(delta) : 0
+      });
+    }
+  }
+  return entries;
+};
+
+type CommissionStage = 'none' | 'pending' | 'available';
+type PayoutStage = 'none' | 'open' | 'sent';
+
+const commissionStage = (amounts: AccountAmounts): CommissionStage => {
+  if (amounts.marketer_pending) return 'pending';
+  if (amounts.marketer_available) return 'available';
+  return 'none';
+};
+
+const payoutStage = (amounts: AccountAmounts): PayoutStage => {
+  if (amounts.cash || amounts.fee_revenue || amounts.tax_withholding) return 'sent';
+  if (amounts.marketer_payout_pending) return 'open';
+  return 'none';
+};
+
+const uniqueIds = (ids: Array<string | { toString(): string }>) =>
+  [...new Set(ids.filter(Boolean).map(id => id.toString()))];
+
+const marketerTotal = (amounts: AccountAmounts) =>
+  MARKETER_ACCOUNTS.reduce((total, account) => total + (amounts[account] || 0), 0);
+
+const TRANSACTION_DESCRIPTIONS: Record<LedgerTransactionType, string> = {
+  commission_accrued: 'Commission earned',
+  commission_approved: 'Commission cleared for payout',
+  commission_adjustment: 'Commission adjusted',
+  commission_clawback: 'Commission clawed back',
+  commission_rejected: 'Commission rejected',
+  payout_requested: 'Payout requested',
+  payout_sent: 'Payout sent',
+  payout_cancelled: 'Payout cancelled',
+  payout_failed: 'Payout failed',
+  payout_reversed: 'Payout returned',
+  payout_adjustment: 'Payout adjusted'
+};
+
+export class LedgerService {
+  /**
+   * Post the ledger transactions for changes to commissions or their adjustments: accrual,
+   * approval, bonuses, corrections, clawbacks and rejection. Every write path calls this once
+   * the change is saved; a posting that fails is logged and picked up by the nightly sync.
+   */
+  static async recordCommissions(commissionIds: Array<string | { toString(): string }>): Promise<number> {
+    let count = 0;
+    for (const commissionId of uniqueIds(commissionIds)) {
+      try {
+        count += await this.withRetry(async () => {
+          const commission = await Commission.findById(commissionId).select(COMMISSION_FIELDS).lean<ICommission>();
+          if (!commission) {
+            return 0;
+          }
+          const [adjustments, posted] = await Promise.all([
+            this.getAdjustmentTotals([commissionId]),
+            this.getPostedReferences({ referenceType: 'commission', referenceId: commissionId })
+          ]);
+          return this.syncCommission(
+            commission,
+            posted.get(`commission:${commissionId}`) || { amounts: {}, count: 0 },
+            adjustments.get(commissionId)
+          );
+        });
+      } catch (error) {
+        logger.error(`Ledger posting failed for commission ${commissionId}:`, error);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Post the ledger transactions for changes to payouts: requests, sending with fees and
+   * withholding, cancellation, failure and returns. Called the same way as recordCommissions.
+   */
+  static async recordPayouts(payoutIds: Array<string | { toString(): string }>): Promise<number> {
+    let count = 0;
+    for (const payoutId of uniqueIds(payoutIds)) {
+      try {
+        count += await this.withRetry(async () => {
+          const payout = await PayoutRequest.findById(payoutId).select(PAYOUT_FIELDS).lean<IPayoutRequest>();
+          if (!payout) {
+            return 0;
+          }
+          const posted = await this.getPostedReferences({ referenceType: 'payout', referenceId: payoutId });
+          return this.syncPayout(payout, posted.get(`payout:${payoutId}`) || { amounts: {}, count: 0 });
+        });
+      } catch (error) {
+        logger.error(`Ledger posting failed for payout ${payoutId}:`, error);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Post anything missing for a marketer's commissions and payouts, such as records written before
+   * event-time posting or postings that failed. Safe to run repeatedly and concurrently; nothing
+   * already posted is modified.
+   */
+  static async syncMarketer(marketerId: string): Promise<number> {
+    const [commissions, payouts, posted] = await Promise.all([
+      Commission.find({ marketerId }).select(COMMISSION_FIELDS).lean<ICommission[]>(),
+      PayoutRequest.find({ marketerId }).select(PAYOUT_FIELDS).lean<IPayoutRequest[]>(),
+      this.getPostedReferences({ marketerId })
+    ]);
+    const adjustments = await this.getAdjustmentTotals(commissions.map(commission => commission._id.toString()));
+
+    let count = 0;
+    for (const commission of commissions) {
+      const commissionId = commission._id.toString();
+      count += await this.syncCommission(
+        commission,
+        posted.get(`commission:${commissionId}`) || { amounts: {}, count: 0 },
+        adjustments.get(commissionId)
+      ) ?? 0;
+    }
+
+    for (const payout of payouts) {
+      count += await this.syncPayout(
+        payout,
+        posted.get(`payout:${payout._id.toString()}`) || { amounts: {}, count: 0 }
+      ) ?? 0;
+    }
+
+    return count;
+  }
+
+  /**
+   * Sync every marketer with commissions or payouts
+   */
+  static async syncAll(): Promise<LedgerSyncSummary> {
+    const [commissionMarketers, payoutMarketers] = await Promise.all([
+      Commission.distinct('marketerId'),
+      PayoutRequest.distinct('marketerId')
+    ]);
+
+    return this.syncMarketers([...commissionMarketers, ...payoutMarketers]);
+  }
+
+  /**
+   * Balances of a marketer's accounts, optionally as they stood at a point in time
+   */
+  static async getBalances(marketerId: string, asOf: Date = new Date()): Promise<MarketerBalances> {
+    const totals = await LedgerTransaction.aggregate([
+      { $match: { marketerId, occurredAt: { $lte: asOf } } },
+      { $unwind: '$entries' },
+      {
+        $group: {
+          _id: { referenceType: '$referenceType', account: '$entries.account' },
+          credit: { $sum: '$entries.credit' },
+          debit: { $sum: '$entries.debit' }
+        }
+      }
+    ]);
+
+    const balance = (account: LedgerAccount, referenceType?: ReferenceType) => totals
+      .filter(total => total._id.account === account && (!referenceType || total._id.referenceType === referenceType))
+      .reduce((sum, total) => sum + toCents(total.credit) - toCents(total.debit), 0);
+
+    return {
+      asOf,
+      available: fromCents(balance('marketer_available')),
+      pending: fromCents(balance('marketer_pending')),
+      payoutPending: fromCents(balance('marketer_payout_pending')),
+      lifetimeEarnings: fromCents(balance('marketer_available', 'commission')),
+      totalPaidOut: fromCents(balance('cash') + balance('fee_revenue') + balance('tax_withholding'))
+    };
+  }
+
+  /**
+   * Entries posted to one of a marketer's accounts within a period, with running balances
+   */
+  static async getStatement(
+    marketerId: string,
+    options: { startDate: Date; endDate: Date; account?: LedgerAccount }
+  ): Promise<LedgerStatement> {
+    const account = options.account || 'marketer_available';
+    const { startDate, endDate } = options;
+
+    const opening = await LedgerTransaction.aggregate([
+      { $match: { marketerId, occurredAt: { $lt: startDate } } },
+      { $unwind: '$entries' },
+      { $match: { 'entries.account': account } },
+      { $group: { _id: null, credit: { $sum: '$entries.credit' }, debit: { $sum: '$entries.debit' } } }
+    ]);
+    const openingCents = opening.length > 0 ? toCents(opening[0].credit) - toCents(opening[0].debit) : 0;
+
+    const transactions = await LedgerTransaction.find({
+      marketerId,
+      occurredAt: { $gte: startDate, $lte: endDate },
+      'entries.account': account
+    }).sort({ occurredAt: 1, createdAt: 1, _id: 1 });
+
+    let runningCents = openingCents;
+    const entries: StatementEntry[] = [];
+    for (const transaction of transactions) {
+      for (const entry of transaction.entries.filter(line => line.account === account)) {
+        runningCents += toCents(entry.credit) - toCents(entry.debit);
+        entries.push({
+          transactionId: transaction._id.toString(),
+          type: transaction.type,
+          referenceType: transaction.referenceType,
+          referenceId: transaction.referenceId,
+          description: transaction.description,
+          occurredAt: transaction.occurredAt,
+          debit: entry.debit,
+          credit: entry.credit,
+          balance: fromCents(runningCents)
+        });
+      }
+    }
+
+    return {
+      account,
+      startDate,
+      endDate,
+      openingBalance: fromCents(openingCents),
+      closingBalance: fromCents(runningCents),
+      entries
+    };
+  }
+
+  /**
+   * Debit and credit totals per account across all marketers
+   */
+  static async getTrialBalance(asOf: Date = new Date()): Promise<TrialBalance> {
+    const totals = await LedgerTransaction.aggregate([
+      { $match: { occurredAt: { $lte: asOf } } },
+      { $unwind: '$entries' },
+      { $group: { _id: '$entries.account', credit: { $sum: '$entries.credit' }, debit: { $sum: '$entries.debit' } } }
+    ]);
+    const byAccount = new Map(totals.map(total => [total._id, total]));
+
+    const accounts = LEDGER_ACCOUNTS.map(account => ({
+      account,
+      debit: fromCents(toCents(byAccount.get(account)?.debit || 0)),
+      credit: fromCents(toCents(byAccount.get(account)?.credit || 0))
+    }));
+    const totalDebitCents = accounts.reduce((sum, account) => sum + toCents(account.debit), 0);
+    const totalCreditCents = accounts.reduce((sum, account) => sum + toCents(account.credit), 0);
+
+    return {
+      asOf,
+      accounts,
+      totalDebits: fromCents(totalDebitCents),
+      totalCredits: fromCents(totalCreditCents),
+      balanced: totalDebitCents === totalCreditCents
+    };
+  }
+
+  private static async syncMarketers(marketerIds: string[]): Promise<LedgerSyncSummary> {
+    const unique = uniqueIds(marketerIds);
+    const summary: LedgerSyncSummary = { marketers: unique.length, posted: 0, errors: [] };
+
+    for (const marketerId of unique) {
+      try {
+        summary.posted += await this.syncMarketer(marketerId);
+      } catch (error: any) {
+        logger.error(`Ledger sync failed for marketer ${marketerId}:`, error);
+        summary.errors.push({ marketerId, error: error.message });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Run a posting again when a concurrent posting for the same reference got there first
+   */
+  private static async withRetry(posting: () => Promise<number | null>): Promise<number> {
+    for (let attempt = 0; attempt < MAX_POSTING_ATTEMPTS; attempt++) {
+      const result = await posting();
+      if (result !== null) {
+        return result;
+      }
+    }
+    throw new Error('Concurrent ledger postings did not settle');
+  }
+
+  /**
+   * Returns the number of transactions posted, or null when a concurrent posting got there first
+   */
+  private static async syncCommission(
+    commission: ICommission,
+    posted: PostedReference,
+    adjustments?: AdjustmentTotals
+  ): Promise<number | null> {
+    const target = commissionTarget(commission, adjustments?.cents || 0, Boolean(adjustments?.hasClawback));
+    let count = 0;
+
+    // Commissions first recorded after they cleared still record when they were earned
+    if (posted.count === 0 && commission.status !== 'pending') {
+      const accrued = commissionTarget({ status: 'pending', commissionAmount: commission.commissionAmount }, 0, false);
+      const result = await this.post(commission, 'commission', posted, accrued, 'commission_accrued', commission.conversionDate);
+      if (result === null) return null;
+      count += result;
+    }
+
+    const from = commissionStage(posted.amounts);
+    const to = commissionStage(target);
+    let type: LedgerTransactionType;
+    let occurredAt = commission.updatedAt;
+    if (adjustments?.latestAt && adjustments.latestAt > occurredAt) {
+      occurredAt = adjustments.latestAt;
+    }
+
+    if (from === 'none' && to !== 'none') {
+      type = 'commission_accrued';
+      occurredAt = commission.conversionDate;
+    } else if (to === 'none') {
+      type = commission.status === 'rejected' ? 'commission_rejected' : 'commission_clawback';
+    } else if (from === 'pending' && to === 'available') {
+      type = 'commission_approved';
+      occurredAt = commission.approvalDate || commission.updatedAt;
+    } else {
+      type = marketerTotal(target) < marketerTotal(posted.amounts) ? 'commission_clawback' : 'commission_adjustment';
+    }
+
+    const result = await this.post(commission, 'commission', posted, target, type, occurredAt);
+    return result === null ? null : count + result;
+  }
+
+  private static async syncPayout(payout: IPayoutRequest, posted: PostedReference): Promise<number | null> {
+    const target = payoutTarget(payout);
+    let count = 0;
+
+    // Payouts first recorded after they were sent or closed still record their request and sending
+    if (posted.count === 0 && payoutStage(target) !== 'open') {
+      const requested = payoutTarget({ status: 'requested', amount: payout.amount });
+      const result = await this.post(payout, 'payout', posted, requested, 'payout_requested', payout.requestedAt);
+      if (result === null) return null;
+      count += result;
+
+      if (payout.completedAt && payoutStage(target) === 'none') {
+        const sent = payoutTarget({
+          status: 'completed',
+          amount: payout.amount,
+          processingFee: payout.processingFee,
+          withholdingAmount: payout.withholdingAmount
+        });
+        const sentResult = await this.post(payout, 'payout', posted, sent, 'payout_sent', payout.completedAt);
+        if (sentResult === null) return null;
+        count += sentResult;
+      }
+    }
+
+    const from = payoutStage(posted.amounts);
+    const to = payoutStage(target);
+    let type: LedgerTransactionType;
+    let occurredAt = payout.updatedAt;
+
+    if (from === 'none' && to === 'open') {
+      type = 'payout_requested';
+      occurredAt = posted.count === 0 ? payout.requestedAt : payout.updatedAt;
+    } else if (to === 'sent' && from !== 'sent') {
+      type = 'payout_sent';
+      occurredAt = payout.completedAt || payout.updatedAt;
+    } else if (from === 'sent' && to !== 'sent') {
+      type = 'payout_reversed';
+      occurredAt = payout.returnedAt || payout.updatedAt;
+    } else if (from === 'open' && to === 'none') {
+      type = payout.status === 'cancelled' ? 'payout_cancelled' : 'payout_failed';
+    } else {
+      type = 'payout_adjustment';
+    }
+
+    const result = await this.post(payout, 'payout', posted, target, type, occurredAt);
+    return result === null ? null : count + result;
+  }
+
+  /**
+   * Post the difference between what a reference holds and its target. Returns the number of
+   * transactions posted, or null when a concurrent posting got there first.
+   */
+  private static async post(
+    reference: ICommission | IPayoutRequest,
+    referenceType: ReferenceType,
+    posted: PostedReference,
+    target: AccountAmounts,
+    type: LedgerTransactionType,
+    occurredAt: Date
+  ): Promise<number | null> {
+    const entries = diffEntries(posted.amounts, target);
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const referenceId = reference._id.toString();
+    try {
+      await LedgerTransaction.create({
+        marketerId: reference.marketerId.toString(),
+        type,
+        referenceType,
+        referenceId,
+        sequence: posted.count + 1,
+        entries,
+        description: `${TRANSACTION_DESCRIPTIONS[type]} (${referenceType} ${referenceId})`,
+        occurredAt: occurredAt || new Date()
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+
+    posted.amounts = { ...target };
+    posted.count += 1;
+    return 1;
+  }
+
+  /**
+   * Bonus and clawback totals per commission
+   */
+  static async getAdjustmentTotals(commissionIds: string[]): Promise<Map<string, AdjustmentTotals>> {
+    if (commissionIds.length === 0) {
+      return new Map();
+    }
+
+    const adjustments = await CommissionAdjustment.aggregate([
+      { $match: { commissionId: { $in: commissionIds }, adjustmentType: { $in: ['bonus', 'clawback'] } } },
+      {
+        $group: {
+          _id: '$commissionId',
+          total: { $sum: '$amount' },
+          clawbacks: { $sum: { $cond: [{ $eq: ['$adjustmentType', 'clawback'] }, 1, 0] } },
+          latestAt: { $max: '$createdAt' }
+        }
+      }
+    ]);
+
+    return new Map(adjustments.map(adjustment => [
+      adjustment._id.toString(),
+      { cents: toCents(adjustment.total), hasClawback: adjustment.clawbacks > 0, latestAt: adjustment.latestAt }
+    ]));
+  }
+
+  private static async getPostedReferences(match: FilterQuery<ILedgerTransaction>): Promise<Map<string, PostedReference>> {
+    const [amounts, counts] = await Promise.all([
+      LedgerTransaction.aggregate([
+        { $match: match },
+        { $unwind: '$entries' },
+        {
+          $group: {
+            _id: { referenceType: '$referenceType', referenceId: '$referenceId', account: '$entries.account' },
+            credit: { $sum: '$entries.credit' },
+            debit: { $sum: '$entries.debit' }
+          }
+        }
+      ]),
+      LedgerTransaction.aggregate([
+        { $match: match },
+        { $group: { _id: { referenceType: '$referenceType', referenceId: '$referenceId' }, count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const references = new Map<string, PostedReference>();
+    for (const total of counts) {
+      references.set(`${total._id.referenceType}:${total._id.referenceId}`, { amounts: {}, count: total.count });
+    }
+    for (const total of amounts) {
+      const reference = references.get(`${total._id.referenceType}:${total._id.referenceId}`);
+      const cents = toCents(total.credit) - toCents(total.debit);
+      if (reference && cents !== 0) {
+        reference.amounts[total._id.account as LedgerAccount] = cents;
+      }
+    }
+    return references;
+  }
+}
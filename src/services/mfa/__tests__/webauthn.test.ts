@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import {
+  WebAuthnService,
+  WEBAUTHN_ERRORS,
+  parseAuthenticatorData,
+  parseAttestationObject,
+  verifyAssertionSignature
+} from '../webauthn';
+import { MFAService } from '../index';
+import { User } from '../../../models/User';
+import { WebAuthnCredential, WEBAUTHN_ALGORITHMS } from '../../../models/WebAuthnCredential';
+import { WebAuthnChallenge } from '../../../models/WebAuthnChallenge';
+import { requireMFAIfEnabled } from '../../../middleware/auth';
+
+const ORIGIN = 'http://localhost:3000';
+
+// Just enough CBOR encoding for attestation objects and COSE keys
+type CborInput = number | string | Buffer | Map<number | string, CborInput>;
+const cbor = (value: CborInput): Buffer => {
+  const head = (majorType: number, length: number) => length < 24
+    ? Buffer.from([(majorType << 5) | length])
+    : length < 256
+      ? Buffer.from([(majorType << 5) | 24, length])
+      : Buffer.from([(majorType << 5) | 25, length >> 8, length & 0xff]);
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    return Buffer.concat([head(3, Buffer.byteLength(value)), Buffer.from(value)]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  return Buffer.concat([head(5, value.size), ...[...value].flatMap(([key, item]) => [cbor(key), cbor(item)])]);
+};
+
+// Minimal software authenticator producing 'none' attestation registrations and ES256 assertions
+const createAuthenticator = () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const coseKey = cbor(new Map<number, CborInput>([
+    [1, 2], // kty: EC2
+    [3, WEBAUTHN_ALGORITHMS.ES256],
+    [-1, 1], // crv: P-256
+    [-2, Buffer.from(jwk.x!, 'base64url')],
+    [-3, Buffer.from(jwk.y!, 'base64url')]
+  ]));
+  const credentialId = crypto.randomBytes(16);
+  const rpIdHash = crypto.createHash('sha256').update('localhost').digest();
+  let signCount = 0;
+
+  const counter = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value);
+    return buffer;
+  };
+  const clientData = (type: string, challenge: string) =>
+    Buffer.from(JSON.stringify({ type, challenge, origin: ORIGIN }));
+
+  return {
+    credentialId: credentialId.toString('base64url'),
+
+    register(challenge: string, options: { reportedKey?: crypto.KeyObject } = {}) {
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(credentialId.length);
+      const authenticatorData = Buffer.concat([
+        rpIdHash, Buffer.from([0x41]), counter(signCount), Buffer.alloc(16), idLength, credentialId, coseKey
+      ]);
+      const attestationObject = cbor(new Map<string, CborInput>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authenticatorData]
+      ]));
+
+      return {
+        id: credentialId.toString('base64url'),
+        rawId: credentialId.toString('base64url'),
+        type: 'public-key' as const,
+        response: {
+          clientDataJSON: clientData('webauthn.create', challenge).toString('base64url'),
+          authenticatorData: authenticatorData.toString('base64url'),
+          publicKey: (options.reportedKey || publicKey).export({ format: 'der', type: 'spki' }).toString('base64url'),
+          publicKeyAlgorithm: WEBAUTHN_ALGORITHMS.ES256,
+          transports: ['usb'],
+          attestationObject: attestationObject.toString('base64url')
+        }
+      };
+    },
+
+    sign(challenge: string, options: { signCount?: number } = {}) {
+      signCount = options.signCount ?? signCount + 1;
+      const authenticatorData = Buffer.concat([rpIdHash, Buffer.from([0x05]), counter(signCount)]);
+      const clientDataJSON = clientData('webauthn.get', challenge);
+      const signature = crypto.sign(
+        'sha256',
+        Buffer.concat([authenticatorData, crypto.createHash('sha256').update(clientDataJSON).digest()]),
+        privateKey
+      );
+
+      return {
+        id: credentialId.toString('base64url'),
+        rawId: credentialId.toString('base64url'),
+        type: 'public-key' as const,
+        response: {
+          clientDataJSON: clientDataJSON.toString('base64url'),
+          authenticatorData: authenticatorData.toString('base64url'),
+          signature: signature.toString('base64url')
+        }
+      };
+    }
+  };
+};
+
+describe('WebAuthnService', () => {
+  describe('authenticator data and signatures', () => {
+    it('should parse flags, counter and the attested credential ID', () => {
+      const authenticator = createAuthenticator();
+      const registration = authenticator.register('challenge');
+
+      const parsed = parseAuthenticatorData(Buffer.from(registration.response.authenticatorData, 'base64url'));
+
+      expect(parsed).toMatchObject({ userPresent: true, userVerified: false, backedUp: false, signCount: 0 });
+      expect(parsed.credentialId!.toString('base64url')).toBe(authenticator.credentialId);
+      expect(parsed.aaguid).toBe('00000000-0000-0000-0000-000000000000');
+      expect(() => parseAuthenticatorData(Buffer.alloc(10))).toThrow(WEBAUTHN_ERRORS.invalidAuthenticatorData);
+    });
+
+    it('should take the credential public key from the attestation object', () => {
+      const registration = createAuthenticator().register('challenge');
+
+      const attestation = parseAttestationObject(Buffer.from(registration.response.attestationObject, 'base64url'));
+
+      expect(attestation.algorithm).toBe(WEBAUTHN_ALGORITHMS.ES256);
+      expect(attestation.authenticatorData.toString('base64url')).toBe(registration.response.authenticatorData);
+      expect(attestation.publicKey.export({ format: 'der', type: 'spki' }).toString('base64url'))
+        .toBe(registration.response.publicKey);
+      expect(() => parseAttestationObject(Buffer.from([0xa0]))).toThrow(WEBAUTHN_ERRORS.invalidAttestation);
+    });
+
+    it('should only accept signatures over the exact authenticator and client data', () => {
+      const authenticator = createAuthenticator();
+      const registration = authenticator.register('challenge');
+      const assertion = authenticator.sign('challenge');
+      const verify = (clientDataJSON: string) => verifyAssertionSignature(
+        registration.response.publicKey,
+        WEBAUTHN_ALGORITHMS.ES256,
+        Buffer.from(assertion.response.authenticatorData, 'base64url'),
+        Buffer.from(clientDataJSON, 'base64url'),
+        Buffer.from(assertion.response.signature, 'base64url')
+      );
+
+      expect(verify(assertion.response.clientDataJSON)).toBe(true);
+      expect(verify(authenticator.sign('other-challenge').response.clientDataJSON)).toBe(false);
+    });
+  });
+
+  describe('with a database', () => {
+    let mongoServer: MongoMemoryServer;
+    let userId: string;
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await Promise.all([User.deleteMany({}), WebAuthnCredential.deleteMany({}), WebAuthnChallenge.deleteMany({})]);
+
+      const user = await User.create({
+        email: 'admin@example.com',
+        password: 'Password123!',
+        firstName: 'Test',
+        lastName: 'Admin',
+        role: 'admin',
+        status: 'active',
+        emailVerified: true
+      });
+      userId = user._id.toString();
+    });
+
+    const registerAuthenticator = async (name = 'YubiKey') => {
+      const authenticator = createAuthenticator();
+      const options = await WebAuthnService.generateRegistrationOptions(userId);
+      const credential = await WebAuthnService.verifyRegistration(userId, name, authenticator.register(options.challenge));
+      return { authenticator, credential };
+    };
+
+    it('should register an authenticator and accept it as the second factor', async () => {
+      const { authenticator, credential } = await registerAuthenticator();
+
+      expect(credential.toJSON()).not.toHaveProperty('publicKey');
+      expect((await User.findById(userId))!.mfaEnabled).toBe(true);
+
+      const options = await WebAuthnService.generateAuthenticationOptions(userId);
+      expect(options.allowCredentials.map(allowed => allowed.id)).toEqual([authenticator.credentialId]);
+
+      const result = await MFAService.verifyMFAFactor(userId, { webauthn: authenticator.sign(options.challenge) });
+      expect(result).toMatchObject({ isValid: true, factor: 'webauthn' });
+      expect((await WebAuthnCredential.findById(credential._id))!.signCount).toBe(1);
+    });
+
+    it('should refuse a reported public key that the attestation object does not contain', async () => {
+      const otherKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey;
+      const options = await WebAuthnService.generateRegistrationOptions(userId);
+
+      await expect(WebAuthnService.verifyRegistration(
+        userId, 'YubiKey', createAuthenticator().register(options.challenge, { reportedKey: otherKey })
+      )).rejects.toThrow(WEBAUTHN_ERRORS.publicKeyMismatch);
+      expect(await WebAuthnCredential.countDocuments()).toBe(0);
+    });
+
+    it('should require the registered authenticator before another factor is enrolled', async () => {
+      const enroll = async () => {
+        const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as any;
+        const next = jest.fn();
+        await requireMFAIfEnabled({ user: await User.findById(userId), headers: {} } as any, res, next);
+        return { res, next };
+      };
+
+      expect((await enroll()).next).toHaveBeenCalled();
+
+      await registerAuthenticator();
+      const { res, next } = await enroll();
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should reject replayed challenges and counters that go backwards', async () => {
+      const { authenticator } = await registerAuthenticator();
+
+      const first = await WebAuthnService.generateAuthenticationOptions(userId);
+      const assertion = authenticator.sign(first.challenge, { signCount: 5 });
+      await WebAuthnService.verifyAuthentication(userId, assertion);
+      await expect(WebAuthnService.verifyAuthentication(userId, assertion)).rejects.toThrow(WEBAUTHN_ERRORS.challengeExpired);
+
+      const second = await WebAuthnService.generateAuthenticationOptions(userId);
+      await expect(WebAuthnService.verifyAuthentication(userId, authenticator.sign(second.challenge, { signCount: 3 })))
+        .rejects.toThrow(WEBAUTHN_ERRORS.counterRegression);
+    });
+
+    it('should turn MFA off once the last authenticator is removed', async () => {
+      const first = await registerAuthenticator('Laptop');
+      const second = await registerAuthenticator('Phone');
+
+      await WebAuthnService.renameCredential(userId, second.credential._id.toString(), 'Work phone');
+      expect((await WebAuthnService.listCredentials(userId)).map(credential => credential.name)).toEqual(['Laptop', 'Work phone']);
+
+      await WebAuthnService.deleteCredential(userId, first.credential._id.toString());
+      expect((await User.findById(userId))!.mfaEnabled).toBe(true);
+
+      await WebAuthnService.deleteCredential(userId, second.credential._id.toString());
+      expect((await User.findById(userId))!.mfaEnabled).toBe(false);
+      await expect(WebAuthnService.deleteCredential(userId, second.credential._id.toString()))
+        .rejects.toThrow(WEBAUTHN_ERRORS.credentialNotFound);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+export const CBOR_ERRORS = {
+  truncated: 'CBOR data is truncated',
+  unsupported: 'Unsupported CBOR data item'
+};
+
+export type CborValue = number | string | boolean | null | undefined | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+// Nesting limit so malformed input cannot exhaust the stack
+const MAX_DEPTH = 16;
+
+/**
+ * Decode one CBOR data item (RFC 8949) starting at the offset. Covers the definite-length subset
+ * WebAuthn attestation objects and COSE keys use; maps are returned as Map so integer keys survive.
+ */
+export const decodeCbor = (data: Buffer, offset = 0, depth = 0): { value: CborValue; offset: number } => {
+  if (depth > MAX_DEPTH) {
+    throw new Error(CBOR_ERRORS.unsupported);
+  }
+
+  const need = (length: number) => {
+    if (offset + length > data.length) {
+      throw new Error(CBOR_ERRORS.truncated);
+    }
+  };
+
+  need(1);
+  const initial = data[offset++];
+  const majorType = initial >> 5;
+  const info = initial & 0x1f;
+
+  let argument: number;
+  if (info < 24) {
+    argument = info;
+  } else if (info === 24) {
+    need(1);
+    argument = data[offset];
+    offset += 1;
+  } else if (info === 25) {
+    need(2);
+    argument = data.readUInt16BE(offset);
+    offset += 2;
+  } else if (info === 26) {
+    need(4);
+    argument = data.readUInt32BE(offset);
+    offset += 4;
+  } else if (info === 27) {
+    need(8);
+    const big = data.readBigUInt64BE(offset);
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(CBOR_ERRORS.unsupported);
+    }
+    argument = Number(big);
+    offset += 8;
+  } else {
+    // Indefinite lengths and reserved values are not used by authenticators
+    throw new Error(CBOR_ERRORS.unsupported);
+  }
+
+  switch (majorType) {
+    case 0:
+      return { value: argument, offset };
+    case 1:
+      return { value: -1 - argument, offset };
+    case 2:
+      need(argument);
+      return { value: Buffer.from(data.subarray(offset, offset + argument)), offset: offset + argument };
+    case 3:
+      need(argument);
+      return { value: data.subarray(offset, offset + argument).toString('utf8'), offset: offset + argument };
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < argument; i++) {
+        const item = decodeCbor(data, offset, depth + 1);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < argument; i++) {
+        const key = decodeCbor(data, offset, depth + 1);
+        const entry = decodeCbor(data, key.offset, depth + 1);
+        map.set(key.value, entry.value);
+        offset = entry.offset;
+      }
+      return { value: map, offset };
+    }
+    case 6:
+      // Tags carry no meaning here; return the tagged item
+      return decodeCbor(data, offset, depth + 1);
+    case 7:
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22) return { value: null, offset };
+      if (info === 23) return { value: undefined, offset };
+      throw new Error(CBOR_ERRORS.unsupported);
+    default:
+      throw new Error(CBOR_ERRORS.unsupported);
+  }
+};
@@ -2,7 +2,9 @@ import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
 import crypto from 'crypto';
 import { User, IUser } from '../../models/User';
+import { AssuranceLevel } from '../../models/Session';
 import { logger } from '../../utils/logger';
+import { WebAuthnService, AuthenticationCredentialJSON } from './webauthn';
 
 export interface MFASetupResult {
   secret: string;
@@ -10,9 +12,18 @@ export interface MFASetupResult {
   backupCodes: string[];
 }
 
+export type MFAFactor = 'totp' | 'backup_code' | 'webauthn';
+
 export interface MFAVerificationResult {
   isValid: boolean;
   user?: IUser;
+  factor?: MFAFactor;
+}
+
+// A second factor presented with a request: a TOTP or backup code, or a WebAuthn assertion
+export interface MFAFactorInput {
+  token?: string;
+  webauthn?: AuthenticationCredentialJSON | null;
 }
 
 export class MFAService {
@@ -121,10 +132,15 @@ export class MFAService {
         return { isValid: false };
       }
 
-      if (!user.mfaEnabled || !user.mfaSecret) {
+      if (!user.mfaEnabled) {
         throw new Error('MFA is not enabled for this user');
       }
 
+      // Users who only registered WebAuthn authenticators have no TOTP codes to check
+      if (!user.mfaSecret || !user.mfaSetupCompleted) {
+        return { isValid: false };
+      }
+
       // First try TOTP verification
       const isTotpValid = speakeasy.totp.verify({
         secret: user.mfaSecret,
@@ -135,7 +151,7 @@ export class MFAService {
 
       if (isTotpValid) {
         logger.info(`MFA token verified for user: ${user.email}`);
-        return { isValid: true, user };
+        return { isValid: true, user, factor: 'totp' };
       }
 
       // If TOTP fails, try backup codes
@@ -149,7 +165,7 @@ export class MFAService {
           await user.save();
           
           logger.info(`MFA backup code used for user: ${user.email}. Remaining codes: ${user.mfaBackupCodes.length}`);
-          return { isValid: true, user };
+          return { isValid: true, user, factor: 'backup_code' };
         }
       }
 
@@ -161,6 +177,36 @@ export class MFAService {
     }
   }
 
+  /**
+   * Verify whichever second factor was presented. A WebAuthn assertion takes precedence over a code.
+   */
+  static async verifyMFAFactor(userId: string, input: MFAFactorInput): Promise<MFAVerificationResult> {
+    if (input.webauthn) {
+      try {
+        await WebAuthnService.verifyAuthentication(userId, input.webauthn);
+        const user = await User.findById(userId);
+        logger.info(`WebAuthn assertion verified for user: ${userId}`);
+        return { isValid: !!user, user: user || undefined, factor: 'webauthn' };
+      } catch (error: any) {
+        logger.warn(`Invalid WebAuthn assertion for user ${userId}: ${error.message}`);
+        return { isValid: false };
+      }
+    }
+
+    if (input.token) {
+      return this.verifyMFAToken(userId, input.token);
+    }
+
+    return { isValid: false };
+  }
+
+  /**
+   * Assurance a verified factor grants; only WebAuthn is bound to the site's origin and resists phishing
+   */
+  static getFactorAssurance(factor: MFAFactor): AssuranceLevel {
+    return factor === 'webauthn' ? 'phishing_resistant' : 'mfa';
+  }
+
   /**
    * Disable MFA for a user
    */
@@ -181,8 +227,8 @@ export class MFAService {
         throw new Error('Invalid MFA token. Cannot disable MFA without valid token.');
       }
 
-      // Disable MFA and clear secrets
-      user.mfaEnabled = false;
+      // Disable TOTP and clear secrets; registered WebAuthn authenticators keep MFA on
+      user.mfaEnabled = (await WebAuthnService.countCredentials(userId)) > 0;
       user.mfaSetupCompleted = false;
       user.mfaSecret = undefined;
       user.mfaBackupCodes = [];
@@ -240,6 +286,7 @@ export class MFAService {
     mfaEnabled: boolean;
     mfaSetupCompleted: boolean;
     backupCodesCount: number;
+    webauthnCredentialsCount: number;
   }> {
     try {
       const user = await User.findById(userId).select('+mfaBackupCodes');
@@ -250,7 +297,8 @@ export class MFAService {
       return {
         mfaEnabled: user.mfaEnabled,
         mfaSetupCompleted: user.mfaSetupCompleted,
-        backupCodesCount: user.mfaBackupCodes?.length || 0
+        backupCodesCount: user.mfaBackupCodes?.length || 0,
+        webauthnCredentialsCount: await WebAuthnService.countCredentials(userId)
       };
     } catch (error) {
       logger.error('Get MFA status failed:', error);
@@ -262,7 +310,7 @@ export class MFAService {
    * Check if MFA is required for sensitive operations
    */
   static isMFARequired(user: IUser): boolean {
-    return user.mfaEnabled && user.mfaSetupCompleted;
+    return user.mfaEnabled;
   }
 
   /**
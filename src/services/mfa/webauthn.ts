@@ -0,0 +1,529 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { User } from '../../models/User';
+import { WebAuthnCredential, IWebAuthnCredential, WEBAUTHN_ALGORITHMS } from '../../models/WebAuthnCredential';
+import { WebAuthnChallenge } from '../../models/WebAuthnChallenge';
+import { logger } from '../../utils/logger';
+import { decodeCbor, CborValue } from './cbor';
+
+export const WEBAUTHN_ERRORS = {
+  challengeExpired: 'WebAuthn challenge is invalid or has expired',
+  invalidClientData: 'Invalid WebAuthn client data',
+  originNotAllowed: 'WebAuthn origin is not allowed',
+  invalidAuthenticatorData: 'Invalid authenticator data',
+  rpIdMismatch: 'Authenticator data is for a different relying party',
+  userNotPresent: 'Authenticator did not confirm user presence',
+  credentialMismatch: 'Credential ID does not match the authenticator data',
+  unsupportedAlgorithm: 'Unsupported credential public key algorithm',
+  invalidPublicKey: 'Invalid credential public key',
+  invalidAttestation: 'Invalid attestation object',
+  publicKeyMismatch: 'Credential public key does not match the attestation object',
+  credentialExists: 'This authenticator is already registered',
+  credentialLimit: 'Too many authenticators registered',
+  credentialNotFound: 'Authenticator not found',
+  invalidSignature: 'Invalid WebAuthn signature',
+  counterRegression: 'Authenticator signature counter went backwards; the authenticator may have been cloned'
+};
+
+/**
+ * Registration response as serialized by PublicKeyCredential.toJSON(). Attestation is 'none'; the stored
+ * public key is the COSE key inside the attestation object, and the SubjectPublicKeyInfo the browser
+ * extracts (getPublicKey()) has to match it.
+ */
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    publicKey: string;
+    publicKeyAlgorithm: number;
+    transports?: string[];
+    attestationObject: string;
+  };
+}
+
+/**
+ * Assertion response as serialized by PublicKeyCredential.toJSON()
+ */
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface ParsedAttestation {
+  authenticatorData: Buffer;
+  publicKey: crypto.KeyObject;
+  algorithm: number;
+}
+
+export interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  backedUp: boolean;
+  signCount: number;
+  aaguid?: string;
+  credentialId?: Buffer;
+}
+
+const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_CREDENTIALS_PER_USER = 10;
+
+// Authenticator data flag bits
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+export const getRelyingParty = () => ({
+  id: process.env.WEBAUTHN_RP_ID || 'localhost',
+  name: process.env.WEBAUTHN_RP_NAME || 'Partner IQ',
+  origins: (process.env.WEBAUTHN_ORIGINS || process.env.FRONTEND_URL || 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean)
+});
+
+/**
+ * Parse the fixed-layout authenticator data: RP ID hash, flags, signature counter and, on registration,
+ * the attested credential's AAGUID and ID
+ */
+export const parseAuthenticatorData = (data: Buffer): ParsedAuthenticatorData => {
+  if (data.length < 37) {
+    throw new Error(WEBAUTHN_ERRORS.invalidAuthenticatorData);
+  }
+
+  const flags = data[32];
+  const parsed: ParsedAuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    signCount: data.readUInt32BE(33)
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    if (data.length < 55) {
+      throw new Error(WEBAUTHN_ERRORS.invalidAuthenticatorData);
+    }
+    const credentialIdLength = data.readUInt16BE(53);
+    if (data.length < 55 + credentialIdLength) {
+      throw new Error(WEBAUTHN_ERRORS.invalidAuthenticatorData);
+    }
+    const aaguid = data.subarray(37, 53).toString('hex');
+    parsed.aaguid = aaguid.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5');
+    parsed.credentialId = data.subarray(55, 55 + credentialIdLength);
+  }
+
+  return parsed;
+};
+
+// COSE key parameters (RFC 9053)
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_KTY_OKP = 1;
+const COSE_KTY_EC2 = 2;
+const COSE_KTY_RSA = 3;
+const COSE_CRV_P256 = 1;
+const COSE_CRV_ED25519 = 6;
+
+/**
+ * Convert a COSE_Key to a public key object. Only the key types behind the supported algorithms are accepted.
+ */
+const coseKeyToPublicKey = (coseKey: Map<CborValue, CborValue>): crypto.KeyObject => {
+  const bytes = (label: number) => {
+    const value = coseKey.get(label);
+    if (!Buffer.isBuffer(value)) {
+      throw new Error(WEBAUTHN_ERRORS.invalidPublicKey);
+    }
+    return value.toString('base64url');
+  };
+
+  const kty = coseKey.get(COSE_KTY);
+  const crv = coseKey.get(-1);
+  let jwk: crypto.JsonWebKey;
+  if (kty === COSE_KTY_EC2 && crv === COSE_CRV_P256) {
+    jwk = { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) };
+  } else if (kty === COSE_KTY_OKP && crv === COSE_CRV_ED25519) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) };
+  } else if (kty === COSE_KTY_RSA) {
+    jwk = { kty: 'RSA', n: bytes(-1), e: bytes(-2) };
+  } else {
+    throw new Error(WEBAUTHN_ERRORS.unsupportedAlgorithm);
+  }
+
+  try {
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  } catch {
+    throw new Error(WEBAUTHN_ERRORS.invalidPublicKey);
+  }
+};
+
+/**
+ * Decode a CBOR attestation object and take the credential public key from its authenticator data,
+ * where it follows the credential ID as a COSE key
+ */
+export const parseAttestationObject = (attestationObject: Buffer): ParsedAttestation => {
+  let authenticatorData: CborValue;
+  try {
+    const decoded = decodeCbor(attestationObject).value;
+    authenticatorData = decoded instanceof Map ? decoded.get('authData') : undefined;
+  } catch {
+    throw new Error(WEBAUTHN_ERRORS.invalidAttestation);
+  }
+  if (!Buffer.isBuffer(authenticatorData)) {
+    throw new Error(WEBAUTHN_ERRORS.invalidAttestation);
+  }
+
+  const parsed = parseAuthenticatorData(authenticatorData);
+  if (!parsed.credentialId) {
+    throw new Error(WEBAUTHN_ERRORS.invalidAttestation);
+  }
+
+  let coseKey: CborValue;
+  try {
+    coseKey = decodeCbor(authenticatorData, 55 + parsed.credentialId.length).value;
+  } catch {
+    throw new Error(WEBAUTHN_ERRORS.invalidPublicKey);
+  }
+  if (!(coseKey instanceof Map) || typeof coseKey.get(COSE_ALG) !== 'number') {
+    throw new Error(WEBAUTHN_ERRORS.invalidPublicKey);
+  }
+
+  return {
+    authenticatorData,
+    publicKey: coseKeyToPublicKey(coseKey),
+    algorithm: coseKey.get(COSE_ALG) as number
+  };
+};
+
+/**
+ * Verify an assertion signature, made over the authenticator data followed by the SHA-256 of the client data
+ */
+export const verifyAssertionSignature = (
+  publicKey: string,
+  algorithm: number,
+  authenticatorData: Buffer,
+  clientDataJSON: Buffer,
+  signature: Buffer
+): boolean => {
+  const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64url'), format: 'der', type: 'spki' });
+  const signedData = Buffer.concat([authenticatorData, crypto.createHash('sha256').update(clientDataJSON).digest()]);
+
+  switch (algorithm) {
+    case WEBAUTHN_ALGORITHMS.ES256:
+      return crypto.verify('sha256', signedData, { key, dsaEncoding: 'der' }, signature);
+    case WEBAUTHN_ALGORITHMS.RS256:
+      return crypto.verify('sha256', signedData, key, signature);
+    case WEBAUTHN_ALGORITHMS.EdDSA:
+      return crypto.verify(null, signedData, key, signature);
+    default:
+      throw new Error(WEBAUTHN_ERRORS.unsupportedAlgorithm);
+  }
+};
+
+/**
+ * Decode an assertion sent in a header as base64url-encoded JSON; null when it is malformed
+ */
+export const decodeAssertionHeader = (value: string | undefined): AuthenticationCredentialJSON | null => {
+  if (!value) {
+    return null;
+  }
+  try {
+    const assertion = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return assertion?.response ? assertion : null;
+  } catch {
+    return null;
+  }
+};
+
+// WebAuthn (passkey and security key) second factor
+export class WebAuthnService {
+  /**
+   * Options for navigator.credentials.create(), excluding authenticators the user already registered
+   */
+  static async generateRegistrationOptions(userId: string) {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const existing = await WebAuthnCredential.find({ userId });
+    if (existing.length >= MAX_CREDENTIALS_PER_USER) {
+      throw new Error(WEBAUTHN_ERRORS.credentialLimit);
+    }
+
+    const relyingParty = getRelyingParty();
+    const challenge = await this.createChallenge(userId, 'registration');
+
+    return {
+      challenge,
+      rp: { id: relyingParty.id, name: relyingParty.name },
+      user: {
+        id: Buffer.from(userId.toString()).toString('base64url'),
+        name: user.email,
+        displayName: `${user.firstName} ${user.lastName}`.trim()
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: WEBAUTHN_ALGORITHMS.ES256 },
+        { type: 'public-key', alg: WEBAUTHN_ALGORITHMS.EdDSA },
+        { type: 'public-key', alg: WEBAUTHN_ALGORITHMS.RS256 }
+      ],
+      timeout: CEREMONY_TIMEOUT_MS,
+      attestation: 'none',
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred'
+      },
+      excludeCredentials: existing.map(credential => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports
+      }))
+    };
+  }
+
+  /**
+   * Verify a registration response against the issued challenge and store the authenticator.
+   * Registering the first authenticator turns MFA on for the user.
+   */
+  static async verifyRegistration(
+    userId: string,
+    name: string,
+    credential: RegistrationCredentialJSON
+  ): Promise<IWebAuthnCredential> {
+    try {
+      await this.consumeChallenge(userId, 'registration', 'webauthn.create', credential.response.clientDataJSON);
+
+      // The authenticator data and key the client reports must be the ones inside the attestation object
+      const attestation = parseAttestationObject(Buffer.from(credential.response.attestationObject, 'base64url'));
+      if (!attestation.authenticatorData.equals(Buffer.from(credential.response.authenticatorData, 'base64url'))) {
+        throw new Error(WEBAUTHN_ERRORS.invalidAttestation);
+      }
+
+      const authenticatorData = this.checkAuthenticatorData(credential.response.authenticatorData);
+      const credentialId = Buffer.from(credential.rawId || credential.id, 'base64url');
+      if (!authenticatorData.credentialId || !authenticatorData.credentialId.equals(credentialId)) {
+        throw new Error(WEBAUTHN_ERRORS.credentialMismatch);
+      }
+
+      if (!(Object.values(WEBAUTHN_ALGORITHMS) as number[]).includes(attestation.algorithm)) {
+        throw new Error(WEBAUTHN_ERRORS.unsupportedAlgorithm);
+      }
+      const publicKey = attestation.publicKey.export({ format: 'der', type: 'spki' });
+      if (
+        credential.response.publicKeyAlgorithm !== attestation.algorithm ||
+        !publicKey.equals(Buffer.from(credential.response.publicKey, 'base64url'))
+      ) {
+        throw new Error(WEBAUTHN_ERRORS.publicKeyMismatch);
+      }
+
+      const encodedCredentialId = credentialId.toString('base64url');
+      if (await WebAuthnCredential.exists({ credentialId: encodedCredentialId })) {
+        throw new Error(WEBAUTHN_ERRORS.credentialExists);
+      }
+
+      const saved = await WebAuthnCredential.create({
+        userId,
+        name,
+        credentialId: encodedCredentialId,
+        publicKey: publicKey.toString('base64url'),
+        algorithm: attestation.algorithm,
+        signCount: authenticatorData.signCount,
+        transports: credential.response.transports || [],
+        aaguid: authenticatorData.aaguid,
+        backedUp: authenticatorData.backedUp
+      });
+
+      await User.updateOne({ _id: userId }, { $set: { mfaEnabled: true } });
+
+      logger.info(`WebAuthn authenticator "${name}" registered for user: ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('WebAuthn registration failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Options for navigator.credentials.get(), limited to the user's registered authenticators
+   */
+  static async generateAuthenticationOptions(userId: string) {
+    const credentials = await WebAuthnCredential.find({ userId });
+    if (credentials.length === 0) {
+      throw new Error(WEBAUTHN_ERRORS.credentialNotFound);
+    }
+
+    const challenge = await this.createChallenge(userId, 'authentication');
+
+    return {
+      challenge,
+      rpId: getRelyingParty().id,
+      timeout: CEREMONY_TIMEOUT_MS,
+      userVerification: 'preferred',
+      allowCredentials: credentials.map(credential => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports
+      }))
+    };
+  }
+
+  /**
+   * Verify an assertion from one of the user's authenticators. The challenge is consumed even when
+   * verification fails, so every attempt needs fresh options.
+   */
+  static async verifyAuthentication(userId: string, assertion: AuthenticationCredentialJSON): Promise<IWebAuthnCredential> {
+    await this.consumeChallenge(userId, 'authentication', 'webauthn.get', assertion.response.clientDataJSON);
+
+    const credential = await WebAuthnCredential.findOne({
+      userId,
+      credentialId: Buffer.from(assertion.rawId || assertion.id, 'base64url').toString('base64url')
+    });
+    if (!credential) {
+      throw new Error(WEBAUTHN_ERRORS.credentialNotFound);
+    }
+
+    const authenticatorDataBuffer = Buffer.from(assertion.response.authenticatorData, 'base64url');
+    const authenticatorData = this.checkAuthenticatorData(assertion.response.authenticatorData);
+
+    const isValid = verifyAssertionSignature(
+      credential.publicKey,
+      credential.algorithm,
+      authenticatorDataBuffer,
+      Buffer.from(assertion.response.clientDataJSON, 'base64url'),
+      Buffer.from(assertion.response.signature, 'base64url')
+    );
+    if (!isValid) {
+      throw new Error(WEBAUTHN_ERRORS.invalidSignature);
+    }
+
+    // Counters only ever increase; authenticators without one always report 0
+    if ((authenticatorData.signCount > 0 || credential.signCount > 0) && authenticatorData.signCount <= credential.signCount) {
+      logger.warn(`WebAuthn counter regression for credential ${credential._id} of user ${userId}`);
+      throw new Error(WEBAUTHN_ERRORS.counterRegression);
+    }
+
+    credential.signCount = authenticatorData.signCount;
+    credential.backedUp = authenticatorData.backedUp;
+    credential.lastUsedAt = new Date();
+    await credential.save();
+
+    return credential;
+  }
+
+  static async listCredentials(userId: string): Promise<IWebAuthnCredential[]> {
+    return WebAuthnCredential.find({ userId }).sort({ createdAt: 1 });
+  }
+
+  static async renameCredential(userId: string, credentialId: string, name: string): Promise<IWebAuthnCredential> {
+    if (!mongoose.isValidObjectId(credentialId)) {
+      throw new Error(WEBAUTHN_ERRORS.credentialNotFound);
+    }
+
+    const credential = await WebAuthnCredential.findOneAndUpdate(
+      { _id: credentialId, userId },
+      { $set: { name } },
+      { new: true, runValidators: true }
+    );
+    if (!credential) {
+      throw new Error(WEBAUTHN_ERRORS.credentialNotFound);
+    }
+    return credential;
+  }
+
+  /**
+   * Remove an authenticator. MFA stays on while TOTP or another authenticator remains.
+   */
+  static async deleteCredential(userId: string, credentialId: string): Promise<void> {
+    if (!mongoose.isValidObjectId(credentialId)) {
+      throw new Error(WEBAUTHN_ERRORS.credentialNotFound);
+    }
+
+    const deleted = await WebAuthnCredential.findOneAndDelete({ _id: credentialId, userId });
+    if (!deleted) {
+      throw new Error(WEBAUTHN_ERRORS.credentialNotFound);
+    }
+
+    const [user, remaining] = await Promise.all([
+      User.findById(userId),
+      WebAuthnCredential.countDocuments({ userId })
+    ]);
+    if (user && remaining === 0 && !user.mfaSetupCompleted) {
+      user.mfaEnabled = false;
+      await user.save();
+    }
+
+    logger.info(`WebAuthn authenticator "${deleted.name}" removed for user: ${userId}`);
+  }
+
+  static async countCredentials(userId: string): Promise<number> {
+    return WebAuthnCredential.countDocuments({ userId });
+  }
+
+  private static async createChallenge(userId: string, type: 'registration' | 'authentication'): Promise<string> {
+    const challenge = crypto.randomBytes(32).toString('base64url');
+    await WebAuthnChallenge.create({
+      userId,
+      challenge,
+      type,
+      expiresAt: new Date(Date.now() + CEREMONY_TIMEOUT_MS)
+    });
+    return challenge;
+  }
+
+  private static async consumeChallenge(
+    userId: string,
+    type: 'registration' | 'authentication',
+    expectedClientDataType: string,
+    clientDataJSON: string
+  ): Promise<void> {
+    let clientData: any;
+    try {
+      clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error(WEBAUTHN_ERRORS.invalidClientData);
+    }
+
+    if (clientData?.type !== expectedClientDataType || typeof clientData.challenge !== 'string') {
+      throw new Error(WEBAUTHN_ERRORS.invalidClientData);
+    }
+
+    const issued = await WebAuthnChallenge.findOneAndDelete({
+      userId,
+      type,
+      challenge: clientData.challenge,
+      expiresAt: { $gt: new Date() }
+    });
+    if (!issued) {
+      throw new Error(WEBAUTHN_ERRORS.challengeExpired);
+    }
+
+    if (!getRelyingParty().origins.includes(clientData.origin)) {
+      throw new Error(WEBAUTHN_ERRORS.originNotAllowed);
+    }
+  }
+
+  private static checkAuthenticatorData(encoded: string): ParsedAuthenticatorData {
+    const authenticatorData = parseAuthenticatorData(Buffer.from(encoded || '', 'base64url'));
+
+    const expectedRpIdHash = crypto.createHash('sha256').update(getRelyingParty().id).digest();
+    if (!authenticatorData.rpIdHash.equals(expectedRpIdHash)) {
+      throw new Error(WEBAUTHN_ERRORS.rpIdMismatch);
+    }
+    if (!authenticatorData.userPresent) {
+      throw new Error(WEBAUTHN_ERRORS.userNotPresent);
+    }
+
+    return authenticatorData;
+  }
+}
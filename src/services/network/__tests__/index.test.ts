@@ -0,0 +1,156 @@
+import { NetworkService } from '../index';
+import { CommissionService } from '../../commission';
+import { Commission } from '../../../models/Commission';
+import { CommissionAdjustment } from '../../../models/CommissionAdjustment';
+import { User } from '../../../models/User';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('NetworkService', () => {
+  let mongoServer: MongoMemoryServer;
+  let topMarketer: any;
+  let midMarketer: any;
+  let subMarketer: any;
+  const adminId = new mongoose.Types.ObjectId().toString();
+
+  const createMarketer = (email: string, recruitedBy?: string) => User.create({
+    email,
+    password: 'password123',
+    firstName: 'Test',
+    lastName: 'Marketer',
+    role: 'marketer',
+    status: 'active',
+    emailVerified: true,
+    recruitedBy
+  });
+
+  const createCommission = (marketerId: string, overrides: any = {}) => Commission.create({
+    marketerId,
+    customerId: 'customer123',
+    productId: new mongoose.Types.ObjectId().toString(),
+    trackingCode: 'track123',
+    initialSpendAmount: 2000,
+    commissionRate: 0.05,
+    commissionAmount: 100,
+    status: 'approved',
+    conversionDate: new Date(),
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    process.env.NETWORK_OVERRIDE_RATES = '0.1,0.05';
+    delete process.env.NETWORK_MAX_LEVELS;
+
+    await Commission.deleteMany({});
+    await CommissionAdjustment.deleteMany({});
+    await User.deleteMany({});
+
+    topMarketer = await createMarketer('top@test.com');
+    midMarketer = await createMarketer('mid@test.com', topMarketer._id.toString());
+    subMarketer = await createMarketer('sub@test.com', midMarketer._id.toString());
+  });
+
+  describe('getNetworkSettings', () => {
+    it('should cap level rates at the configured maximum depth', () => {
+      process.env.NETWORK_OVERRIDE_RATES = '0.1,0.05,0.02';
+      process.env.NETWORK_MAX_LEVELS = '2';
+
+      expect(NetworkService.getNetworkSettings()).toEqual({ maxLevels: 2, levelRates: [0.1, 0.05] });
+    });
+  });
+
+  describe('createUplineCommissions', () => {
+    it('should create one override per upline level linked to the source commission', async () => {
+      const source = await createCommission(subMarketer._id.toString());
+
+      const overrides = await NetworkService.createUplineCommissions(source);
+
+      expect(overrides).toHaveLength(2);
+      expect(overrides[0]).toMatchObject({
+        marketerId: midMarketer._id.toString(),
+        commissionAmount: 10,
+        networkLevel: 1,
+        sourceCommissionId: source._id.toString()
+      });
+      expect(overrides[1]).toMatchObject({
+        marketerId: topMarketer._id.toString(),
+        commissionAmount: 5,
+        networkLevel: 2
+      });
+    });
+
+    it('should not create overrides twice for the same source commission', async () => {
+      const source = await createCommission(subMarketer._id.toString());
+
+      await NetworkService.createUplineCommissions(source);
+      const repeated = await NetworkService.createUplineCommissions(source);
+
+      expect(repeated).toHaveLength(0);
+      expect(await Commission.countDocuments({ sourceCommissionId: source._id.toString() })).toBe(2);
+    });
+
+    it('should create overrides when a commission is approved', async () => {
+      const source = await createCommission(subMarketer._id.toString(), { status: 'pending' });
+
+      await CommissionService.updateCommissionStatus(source._id.toString(), 'approved', adminId);
+
+      expect(await Commission.countDocuments({ sourceCommissionId: source._id.toString() })).toBe(2);
+    });
+  });
+
+  describe('clawback cascade', () => {
+    it('should claw back upline overrides with the source commission', async () => {
+      const source = await createCommission(subMarketer._id.toString());
+      await NetworkService.createUplineCommissions(source);
+
+      await CommissionService.processClawback(source._id.toString(), 100, 'Customer refund', adminId, 'refund');
+
+      const overrides = await Commission.find({ sourceCommissionId: source._id.toString() });
+      expect(overrides.every(override => override.status === 'clawed_back')).toBe(true);
+
+      const adjustment = await CommissionAdjustment.findOne({ commissionId: overrides[0]._id });
+      expect(adjustment?.reason).toContain(`Cascaded from commission ${source._id}`);
+    });
+
+    it('should cascade partial clawbacks proportionally', async () => {
+      const source = await createCommission(subMarketer._id.toString());
+      await NetworkService.createUplineCommissions(source);
+
+      await CommissionService.processPartialClawback(source._id.toString(), 50, 'Partial refund', adminId, 'refund');
+
+      const levelOne = await Commission.findOne({ sourceCommissionId: source._id.toString(), networkLevel: 1 });
+      const adjustment = await CommissionAdjustment.findOne({ commissionId: levelOne!._id });
+      expect(levelOne!.status).toBe('approved');
+      expect(adjustment?.amount).toBe(-5); // Half of the 10 override
+    });
+  });
+
+  describe('getNetwork', () => {
+    it('should return the downline tree with override earnings', async () => {
+      const source = await createCommission(subMarketer._id.toString());
+      await NetworkService.createUplineCommissions(source);
+
+      const network = await NetworkService.getNetwork(topMarketer._id.toString());
+
+      expect(network.recruitmentLink).toContain(network.recruitmentCode);
+      expect(network.downline).toHaveLength(1);
+      expect(network.downline[0].id).toBe(midMarketer._id.toString());
+      expect(network.downline[0].children[0]).toMatchObject({
+        id: subMarketer._id.toString(),
+        level: 2,
+        overrideEarnings: 5
+      });
+      expect(network.earnings.approved).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import crypto from 'crypto';
+import { User, IUser } from '../../models/User';
+import { Commission, ICommission } from '../../models/Commission';
+import { WebhookService } from '../webhook';
+import { LedgerService } from '../ledger';
+import { logger } from '../../utils/logger';
+
+export interface NetworkSettings {
+  maxLevels: number;
+  levelRates: number[]; // Share of the sub-affiliate's commission paid at each upline level, level 1 first
+}
+
+export interface NetworkMember {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  status: string;
+  level: number;
+  joinedAt: Date;
+  overrideEarnings: number; // Earned by the viewing marketer from this member's commissions
+  children: NetworkMember[];
+}
+
+export interface NetworkOverview {
+  recruitmentCode: string;
+  recruitmentLink: string;
+  recruiter: { id: string; email: string; firstName: string; lastName: string } | null;
+  settings: NetworkSettings;
+  downline: NetworkMember[];
+  levels: Array<{ level: number; members: number; overrideEarnings: number }>;
+  earnings: {
+    pending: number;
+    approved: number;
+    paid: number;
+    clawedBack: number;
+    total: number;
+  };
+}
+
+const DEFAULT_LEVEL_RATES = [0.1, 0.05];
+
+export class NetworkService {
+  /**
+   * Get override rates per level from NETWORK_OVERRIDE_RATES (e.g. "0.1,0.05,0.02"),
+   * capped at NETWORK_MAX_LEVELS levels
+   */
+  static getNetworkSettings(): NetworkSettings {
+    const configuredRates = process.env.NETWORK_OVERRIDE_RATES
+      ? process.env.NETWORK_OVERRIDE_RATES.split(',').map(rate => parseFloat(rate.trim()))
+      : DEFAULT_LEVEL_RATES;
+    const levelRates = configuredRates.filter(rate => !isNaN(rate) && rate >= 0 && rate <= 1);
+
+    const configuredMaxLevels = parseInt(process.env.NETWORK_MAX_LEVELS || '', 10);
+    const maxLevels = isNaN(configuredMaxLevels)
+      ? levelRates.length
+      : Math.max(0, Math.min(configuredMaxLevels, levelRates.length));
+
+    return { maxLevels, levelRates: levelRates.slice(0, maxLevels) };
+  }
+
+  /**
+   * Get a marketer's recruitment code, generating one on first use
+   */
+  static async ensureRecruitmentCode(marketerId: string): Promise<string> {
+    const marketer = await User.findById(marketerId);
+    if (!marketer) {
+      throw new Error('Marketer not found');
+    }
+
+    if (marketer.recruitmentCode) {
+      return marketer.recruitmentCode;
+    }
+
+    marketer.recruitmentCode = crypto.randomBytes(6).toString('hex').toUpperCase();
+    await marketer.save();
+
+    return marketer.recruitmentCode;
+  }
+
+  /**
+   * Build the sign-up link a marketer shares to recruit sub-affiliates
+   */
+  static getRecruitmentLink(recruitmentCode: string): string {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    return `${frontendUrl}/register?recruiter=${encodeURIComponent(recruitmentCode)}`;
+  }
+
+  /**
+   * Find the active marketer that owns a recruitment code
+   */
+  static async resolveRecruiter(recruitmentCode: string): Promise<IUser | null> {
+    return User.findOne({
+      recruitmentCode: recruitmentCode.trim().toUpperCase(),
+      role: 'marketer',
+      status: 'active'
+    });
+  }
+
+  /**
+   * Walk up the recruitment chain from a marketer, nearest recruiter first
+   */
+  static async getUplineChain(marketerId: string, maxLevels: number): Promise<IUser[]> {
+    const chain: IUser[] = [];
+    const visited = new Set<string>([marketerId.toString()]);
+
+    let current = await User.findById(marketerId);
+    while (current?.recruitedBy && chain.length < maxLevels) {
+      const recruiterId = current.recruitedBy.toString();
+      if (visited.has(recruiterId)) {
+        logger.warn(`Recruitment cycle detected at marketer ${recruiterId}`);
+        break;
+      }
+      visited.add(recruiterId);
+
+      current = await User.findById(recruiterId);
+      if (current) {
+        chain.push(current);
+      }
+    }
+
+    return chain;
+  }
+
+  /**
+   * Create override commissions for the upline of an approved sub-affiliate commission.
+   * Overrides are only earned on direct commissions and are created at most once per upline marketer.
+   */
+  static async createUplineCommissions(source: ICommission): Promise<ICommission[]> {
+    try {
+      if (source.sourceCommissionId || source.status !== 'approved') {
+        return [];
+      }
+
+      const { levelRates } = this.getNetworkSettings();
+      if (levelRates.length === 0) {
+        return [];
+      }
+
+      const upline = await this.getUplineChain(source.marketerId, levelRates.length);
+      const overrides: ICommission[] = [];
+
+      for (let i = 0; i < upline.length; i++) {
+        const recruiter = upline[i];
+        const rate = levelRates[i];
+        if (recruiter.status !== 'active' || recruiter.role !== 'marketer' || rate <= 0) {
+          continue;
+        }
+
+        const existing = await Commission.findOne({
+          sourceCommissionId: source._id.toString(),
+          marketerId: recruiter._id.toString()
+        });
+        if (existing) {
+          continue;
+        }
+
+        const commissionAmount = Math.round(source.commissionAmount * rate * 100) / 100;
+        if (commissionAmount <= 0) {
+          continue;
+        }
+
+        const override = new Commission({
+          marketerId: recruiter._id.toString(),
+          customerId: source.customerId,
+          productId: source.productId,
+          trackingCode: source.trackingCode,
+          initialSpendAmount: source.initialSpendAmount,
+          commissionRate: rate, // Applied to the sub-affiliate's commission, not the customer spend
+          commissionAmount,
+          currency: source.currency,
+          exchangeRate: source.exchangeRate,
+          status: 'approved', // The source commission has already cleared
+          approvalDate: new Date(),
+          conversionDate: source.conversionDate,
+          clearancePeriodDays: source.clearancePeriodDays,
+          conversionEventId: source.conversionEventId,
+          sourceCommissionId: source._id.toString(),
+          networkLevel: i + 1
+        });
+
+        const savedOverride = await override.save();
+        overrides.push(savedOverride);
+        await LedgerService.recordCommissions([savedOverride._id]);
+        await WebhookService.publishCommissionEvent('commission.approved', savedOverride);
+      }
+
+      if (overrides.length > 0) {
+        logger.info(`Created ${overrides.length} upline override commission(s) for commission ${source._id}`);
+      }
+
+      return overrides;
+    } catch (error) {
+      logger.error('Error creating upline commissions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a marketer's recruitment link, recruiter, downline tree and override earnings
+   */
+  static async getNetwork(marketerId: string): Promise<NetworkOverview> {
+    try {
+      const marketer = await User.findById(marketerId);
+      if (!marketer) {
+        throw new Error('Marketer not found');
+      }
+
+      const settings = this.getNetworkSettings();
+      const recruitmentCode = await this.ensureRecruitmentCode(marketerId);
+      const recruiter = marketer.recruitedBy ? await User.findById(marketer.recruitedBy) : null;
+
+      // Override commissions earned by this marketer, keyed by the downline member who earned the source commission
+      const overrideCommissions = await Commission.find({
+        marketerId,
+        sourceCommissionId: { $ne: null }
+      }).select('sourceCommissionId commissionAmount status networkLevel');
+
+      const sourceCommissions = await Commission.find({
+        _id: { $in: overrideCommissions.map(commission => commission.sourceCommissionId) }
+      }).select('marketerId');
+      const sourceMarketers = new Map(sourceCommissions.map(commission => [commission._id.toString(), commission.marketerId.toString()]));
+
+      const earnings = { pending: 0, approved: 0, paid: 0, clawedBack: 0, total: 0 };
+      const earningsByMember = new Map<string, number>();
+      for (const commission of overrideCommissions) {
+        switch (commission.status) {
+          case 'pending':
+            earnings.pending += commission.commissionAmount;
+            break;
+          case 'approved':
+            earnings.approved += commission.commissionAmount;
+            break;
+          case 'paid':
+            earnings.paid += commission.commissionAmount;
+            break;
+          case 'clawed_back':
+            earnings.clawedBack += commission.commissionAmount;
+            break;
+        }
+
+        if (['pending', 'approved', 'paid'].includes(commission.status)) {
+          const memberId = sourceMarketers.get(commission.sourceCommissionId!.toString());
+          if (memberId) {
+            earningsByMember.set(memberId, (earningsByMember.get(memberId) || 0) + commission.commissionAmount);
+          }
+        }
+      }
+      earnings.total = earnings.pending + earnings.approved + earnings.paid;
+
+      // Build the downline breadth-first, one level per query
+      const depth = Math.max(1, settings.maxLevels);
+      const downline: NetworkMember[] = [];
+      const levels: NetworkOverview['levels'] = [];
+      let parents = new Map<string, NetworkMember[]>([[marketerId.toString(), downline]]);
+      const seen = new Set<string>([marketerId.toString()]);
+
+      for (let level = 1; level <= depth && parents.size > 0; level++) {
+        const recruits = await User.find({
+          recruitedBy: { $in: Array.from(parents.keys()) },
+          role: 'marketer'
+        }).select('email firstName lastName status recruitedBy createdAt');
+
+        const nextParents = new Map<string, NetworkMember[]>();
+        let levelEarnings = 0;
+        let levelMembers = 0;
+
+        for (const recruit of recruits) {
+          const recruitId = recruit._id.toString();
+          if (seen.has(recruitId)) continue;
+          seen.add(recruitId);
+
+          const member: NetworkMember = {
+            id: recruitId,
+            email: recruit.email,
+            firstName: recruit.firstName,
+            lastName: recruit.lastName,
+            status: recruit.status,
+            level,
+            joinedAt: recruit.createdAt,
+            overrideEarnings: Math.round((earningsByMember.get(recruitId) || 0) * 100) / 100,
+            children: []
+          };
+
+          parents.get(recruit.recruitedBy!.toString())?.push(member);
+          nextParents.set(recruitId, member.children);
+          levelMembers++;
+          levelEarnings += member.overrideEarnings;
+        }
+
+        if (levelMembers > 0) {
+          levels.push({ level, members: levelMembers, overrideEarnings: Math.round(levelEarnings * 100) / 100 });
+        }
+        parents = nextParents;
+      }
+
+      return {
+        recruitmentCode,
+        recruitmentLink: this.getRecruitmentLink(recruitmentCode),
+        recruiter: recruiter ? {
+          id: recruiter._id.toString(),
+          email: recruiter.email,
+          firstName: recruiter.firstName,
+          lastName: recruiter.lastName
+        } : null,
+        settings,
+        downline,
+        levels,
+        earnings
+      };
+    } catch (error) {
+      logger.error('Error getting marketer network:', error);
+      throw error;
+    }
+  }
+}
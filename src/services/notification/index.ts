@@ -302,6 +302,45 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Tell a marketer that their payout schedule created a payout, or why it could not
+   */
+  static async sendAutomaticPayoutNotification(data: {
+    marketerEmail: string;
+    marketerName: string;
+    outcome: 'created' | 'blocked';
+    amount: number;
+    reason?: string;
+  }): Promise<void> {
+    try {
+      const { marketerEmail, marketerName, outcome, amount, reason } = data;
+
+      const formattedAmount = amount.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD'
+      });
+
+      await this.sendEmail({
+        to: marketerEmail,
+        subject: outcome === 'created'
+          ? `Automatic Payout Requested - ${formattedAmount}`
+          : 'Automatic Payout Could Not Be Created',
+        template: outcome === 'created' ? 'marketer-automatic-payout-created' : 'marketer-automatic-payout-blocked',
+        data: {
+          marketerName,
+          amount: formattedAmount,
+          reason,
+          payoutsUrl: `${process.env.FRONTEND_URL}/payouts`
+        }
+      });
+
+      logger.info(`Sent automatic payout ${outcome} notification to marketer: ${marketerEmail}`);
+
+    } catch (error) {
+      logger.error('Error sending automatic payout notification:', error);
+    }
+  }
+
   /**
    * Send email using configured email service
    */
@@ -97,7 +97,7 @@ export class OnboardingService {
         attributionMethod: 'portal' as const
       };
 
-      await TrackingService.recordConversionWithDeduplication(conversionData);
+      const { conversionEvent } = await TrackingService.recordConversionWithDeduplication(conversionData);
 
       // Create commission for the marketer if customer has a marketer
       if (customer.marketerId) {
@@ -110,7 +110,9 @@ export class OnboardingService {
             productId: data.productId,
             trackingCode: data.trackingCode,
             initialSpendAmount: data.initialSpendAmount,
-            conversionDate: new Date()
+            conversionDate: new Date(),
+            // Split the commission across every marketer credited by the attribution model
+            conversionEventId: conversionEvent.commissionEligible ? conversionEvent._id.toString() : undefined
           };
 
           const commission = await CommissionService.calculateCommission(commissionData);
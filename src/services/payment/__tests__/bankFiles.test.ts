@@ -0,0 +1,116 @@
+import {
+  buildNachaFile,
+  buildSepaCreditTransfer,
+  validateNachaFile,
+  isValidIban,
+  isSepaIban,
+  isValidRoutingNumber,
+  NachaFileOptions
+} from '../bankFiles';
+
+describe('bank files', () => {
+  const nachaOptions: NachaFileOptions = {
+    immediateDestination: '021000021',
+    immediateDestinationName: 'JPMorgan Chase',
+    immediateOrigin: '1234567890',
+    immediateOriginName: 'PartnerIQ',
+    companyName: 'PartnerIQ',
+    companyId: '1234567890',
+    entryDescription: 'PAYOUT',
+    secCode: 'PPD',
+    effectiveDate: new Date('2024-03-04T00:00:00Z'),
+    fileIdModifier: 'A',
+    batchNumber: 7,
+    firstTraceSequence: 7001,
+    createdAt: new Date('2024-03-01T10:15:00Z')
+  };
+
+  const nachaEntries = [
+    { routingNumber: '011000015', accountNumber: '123456789', accountType: 'checking' as const, amountCents: 12345, name: 'Jöhn Doe', individualId: 'PAYOUT1' },
+    { routingNumber: '021000021', accountNumber: '987654', accountType: 'savings' as const, amountCents: 5000, name: 'Jane Roe', individualId: 'PAYOUT2' }
+  ];
+
+  describe('account validation', () => {
+    it('should check ABA routing number check digits', () => {
+      expect(isValidRoutingNumber('021000021')).toBe(true);
+      expect(isValidRoutingNumber('021000022')).toBe(false);
+      expect(isValidRoutingNumber('02100002')).toBe(false);
+    });
+
+    it('should check IBAN check digits and SEPA membership', () => {
+      expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true);
+      expect(isValidIban('DE89370400440532013001')).toBe(false);
+      expect(isSepaIban('FR1420041010050500013M02606')).toBe(true);
+      expect(isSepaIban('BR1800360305000010009795493C1')).toBe(false);
+    });
+  });
+
+  describe('NACHA', () => {
+    it('should build fixed-width records padded to whole blocks', () => {
+      const file = buildNachaFile(nachaOptions, nachaEntries);
+      const records = file.content.trimEnd().split('\n');
+
+      expect(records).toHaveLength(10);
+      expect(records.every(record => record.length === 94)).toBe(true);
+      expect(records.map(record => record[0]).join('')).toBe('1566899999');
+      expect(records[2]).toBe(
+        '622011000015123456789        0000012345PAYOUT1        JOHN DOE                0021000020007001'
+      );
+      expect(records[3].slice(1, 3)).toBe('32');
+    });
+
+    it('should compute entry hash, totals and unique trace numbers', () => {
+      const file = buildNachaFile(nachaOptions, nachaEntries);
+
+      expect(file.entryHash).toBe('0003200003');
+      expect(file.totalCreditCents).toBe(17345);
+      expect(file.traceNumbers).toEqual(['021000020007001', '021000020007002']);
+      expect(validateNachaFile(file.content)).toEqual([]);
+    });
+
+    it('should detect files whose entries no longer match the controls', () => {
+      const file = buildNachaFile(nachaOptions, nachaEntries);
+      const tampered = file.content.replace('0000012345PAYOUT1', '0000099999PAYOUT1');
+
+      expect(validateNachaFile(tampered)).toContain('Control credit totals do not match the entries');
+    });
+
+    it('should reject entries with invalid routing numbers', () => {
+      expect(() => buildNachaFile(nachaOptions, [{ ...nachaEntries[0], routingNumber: '011000016' }]))
+        .toThrow('Invalid routing number for entry PAYOUT1');
+    });
+  });
+
+  describe('SEPA', () => {
+    const sepaOptions = {
+      messageId: 'SEPA-000001',
+      initiatingPartyName: 'PartnerIQ',
+      debtorName: 'PartnerIQ GmbH',
+      debtorIban: 'DE89370400440532013000',
+      debtorBic: 'COBADEFFXXX',
+      requestedExecutionDate: new Date('2024-03-04T00:00:00Z'),
+      createdAt: new Date('2024-03-01T10:00:00Z')
+    };
+
+    it('should build a pain.001 document with control sums', () => {
+      const file = buildSepaCreditTransfer(sepaOptions, [
+        { endToEndId: 'payout-1', amount: 10.5, name: 'Müller & Co', iban: 'FR14 2004 1010 0505 0001 3M02 606', remittanceInformation: 'Payout 1' },
+        { endToEndId: 'payout-2', amount: 20.25, name: 'Anna', iban: 'DE89370400440532013000', bic: 'COBADEFFXXX', remittanceInformation: 'Payout 2' }
+      ]);
+
+      expect(file.controlSum).toBe('30.75');
+      expect(file.content).toContain('urn:iso:std:iso:20022:tech:xsd:pain.001.001.03');
+      expect(file.content.match(/<CtrlSum>30.75<\/CtrlSum>/g)).toHaveLength(2);
+      expect(file.content).toContain('<InstdAmt Ccy="EUR">10.50</InstdAmt>');
+      expect(file.content).toContain('<Nm>Muller Co</Nm>');
+      expect(file.content).toContain('<IBAN>FR1420041010050500013M02606</IBAN>');
+      expect(file.content).toContain('<ReqdExctnDt>2024-03-04</ReqdExctnDt>');
+    });
+
+    it('should reject non-SEPA IBANs', () => {
+      expect(() => buildSepaCreditTransfer(sepaOptions, [
+        { endToEndId: 'payout-1', amount: 10, name: 'Ana', iban: 'BR1800360305000010009795493C1', remittanceInformation: 'Payout' }
+      ])).toThrow('Invalid SEPA IBAN for transfer payout-1');
+    });
+  });
+});
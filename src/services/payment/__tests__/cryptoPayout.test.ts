@@ -0,0 +1,185 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { CryptoPayoutService, FixedRateSource, MockCryptoProvider } from '../cryptoPayout';
+import { PaymentService } from '../index';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+import { PaymentMethod } from '../../../models/PaymentMethod';
+import { WebhookService } from '../../webhook';
+
+jest.mock('../../webhook', () => ({
+  WebhookService: {
+    publishPayoutReturned: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+const mockPublishReturned = WebhookService.publishPayoutReturned as jest.MockedFunction<
+  typeof WebhookService.publishPayoutReturned
+>;
+
+const BTC_ADDRESS = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+const EVM_ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+const TRON_ADDRESS = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+
+describe('CryptoPayoutService', () => {
+  beforeEach(() => {
+    CryptoPayoutService.setRateSource(new FixedRateSource({ BTC: 60000, ETH: 3000 }));
+  });
+
+  describe('address validation', () => {
+    it('should validate addresses for each network', () => {
+      expect(CryptoPayoutService.validateAddress('bitcoin', BTC_ADDRESS)).toBeNull();
+      expect(CryptoPayoutService.validateAddress('bitcoin', '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'mainnet')).toBeNull();
+      expect(CryptoPayoutService.validateAddress('usdc', EVM_ADDRESS, 'polygon')).toBeNull();
+      expect(CryptoPayoutService.validateAddress('usdt', TRON_ADDRESS, 'TRC20')).toBeNull();
+    });
+
+    it('should reject addresses with bad checksums or for the wrong network', () => {
+      expect(CryptoPayoutService.validateAddress('bitcoin', 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdr'))
+        .toBe('Invalid BTC wallet address for the bitcoin network');
+      expect(CryptoPayoutService.validateAddress('usdt', EVM_ADDRESS, 'tron'))
+        .toBe('Invalid USDT wallet address for the tron network');
+      expect(CryptoPayoutService.validateAddress('usdc', EVM_ADDRESS, 'tron'))
+        .toContain('USDC payouts are not supported on tron');
+    });
+  });
+
+  describe('conversion', () => {
+    it('should convert USD to tokens rounding down to the asset precision', async () => {
+      const btc = await CryptoPayoutService.convertToToken(100, 'bitcoin');
+      const usdc = await CryptoPayoutService.convertToToken(99.99, 'usdc');
+
+      expect(btc).toMatchObject({ tokenAmount: '0.00166666', exchangeRate: 60000, rateSource: 'fixed' });
+      expect(usdc.tokenAmount).toBe('99.990000');
+    });
+
+    it('should refuse to convert depegged stablecoins', async () => {
+      CryptoPayoutService.setRateSource(new FixedRateSource({ USDT: 0.9 }));
+
+      await expect(CryptoPayoutService.convertToToken(100, 'usdt')).rejects.toThrow('payouts are paused');
+    });
+
+    it('should require a rate for non-stablecoins', async () => {
+      CryptoPayoutService.setRateSource(new FixedRateSource({}));
+
+      await expect(CryptoPayoutService.convertToToken(100, 'ethereum')).rejects.toThrow('No fixed rate configured for ETH');
+    });
+  });
+
+  describe('payouts and confirmations', () => {
+    let mongoServer: MongoMemoryServer;
+    let clock: number;
+    let provider: MockCryptoProvider;
+
+    const createPayout = async (methodType: string, accountDetails: any) => {
+      const paymentMethod = await PaymentMethod.create({
+        userId: new mongoose.Types.ObjectId().toString(),
+        methodType,
+        accountDetails
+      });
+
+      return PayoutRequest.create({
+        marketerId: paymentMethod.userId,
+        paymentMethodId: paymentMethod._id.toString(),
+        amount: 120,
+        processingFee: 0,
+        status: 'processing'
+      });
+    };
+
+    const completePayout = async (payoutId: any) => {
+      const payout = await PayoutRequest.findById(payoutId);
+      const result = await PaymentService.processPayout(payout);
+      await PayoutRequest.updateOne(
+        { _id: payoutId },
+        { $set: { status: 'completed', transactionId: result.transactionId, gateway: result.gateway, settlementStatus: 'pending' } }
+      );
+      return result;
+    };
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await Promise.all([
+        PayoutRequest.deleteMany({}),
+        PaymentMethod.deleteMany({})
+      ]);
+      clock = Date.UTC(2024, 2, 1);
+      provider = new MockCryptoProvider({ blockIntervalSeconds: 60, now: () => clock });
+      CryptoPayoutService.registerProvider(provider);
+      mockPublishReturned.mockClear();
+    });
+
+    it('should send wallet payouts through the crypto provider', async () => {
+      const payout = await createPayout('bitcoin', { walletAddress: BTC_ADDRESS });
+
+      const result = await completePayout(payout._id);
+
+      expect(result).toMatchObject({ success: true, gateway: 'crypto' });
+      expect(result.transactionId).toMatch(/^mock_/);
+
+      const updated = await PayoutRequest.findById(payout._id);
+      expect(updated!.cryptoDetails).toMatchObject({
+        asset: 'bitcoin',
+        network: 'bitcoin',
+        walletAddress: BTC_ADDRESS,
+        tokenAmount: '0.00200000',
+        exchangeRate: 60000,
+        provider: 'mock',
+        confirmations: 0,
+        requiredConfirmations: 3
+      });
+    });
+
+    it('should fail payouts to unsupported networks without sending', async () => {
+      const payout = await createPayout('usdc', { walletAddress: EVM_ADDRESS, network: 'bsc' });
+      const sendTransfer = jest.spyOn(provider, 'sendTransfer');
+
+      const result = await PaymentService.processPayout(payout);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('USDC payouts are not supported on bsc');
+      expect(sendTransfer).not.toHaveBeenCalled();
+    });
+
+    it('should settle payouts once they reach the required confirmations', async () => {
+      const payout = await createPayout('usdt', { walletAddress: TRON_ADDRESS, network: 'trc20' });
+      await completePayout(payout._id);
+
+      clock += 5 * 60 * 1000;
+      let summary = await CryptoPayoutService.trackConfirmations();
+      expect(summary).toMatchObject({ checked: 1, pending: 1, confirmed: 0 });
+      expect((await PayoutRequest.findById(payout._id))!.cryptoDetails!.confirmations).toBe(5);
+
+      clock += 20 * 60 * 1000;
+      summary = await CryptoPayoutService.trackConfirmations();
+      expect(summary.confirmed).toBe(1);
+
+      const settled = await PayoutRequest.findById(payout._id);
+      expect(settled!.settlementStatus).toBe('settled');
+      expect(settled!.cryptoDetails!.confirmedAt).toBeDefined();
+    });
+
+    it('should fail payouts whose transfer is dropped', async () => {
+      const payout = await createPayout('ethereum', { walletAddress: EVM_ADDRESS });
+      const { transactionId } = await completePayout(payout._id);
+      provider.failTransfer(transactionId!);
+
+      const summary = await CryptoPayoutService.trackConfirmations();
+
+      expect(summary.failed).toBe(1);
+      const failed = await PayoutRequest.findById(payout._id);
+      expect(failed!.status).toBe('failed');
+      expect(failed!.settlementStatus).toBe('failed');
+      expect(failed!.failureReason).toBe('Crypto transfer failed: Transaction dropped');
+      expect(mockPublishReturned).toHaveBeenCalledTimes(1);
+    });
+  });
+});
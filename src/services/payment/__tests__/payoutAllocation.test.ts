@@ -0,0 +1,163 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { PayoutAllocationService, INSUFFICIENT_COMMISSIONS } from '../payoutAllocation';
+import { PayoutAllocation } from '../../../models/PayoutAllocation';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+import { Commission } from '../../../models/Commission';
+import { CommissionAdjustment } from '../../../models/CommissionAdjustment';
+import { LedgerTransaction } from '../../../models/LedgerTransaction';
+import { CommissionService } from '../../commission';
+import { LedgerService } from '../../ledger';
+
+describe('PayoutAllocationService', () => {
+  let mongoServer: MongoMemoryServer;
+  const marketerId = new mongoose.Types.ObjectId().toString();
+  const paymentMethodId = new mongoose.Types.ObjectId().toString();
+
+  const createCommission = async (commissionAmount: number, conversionDate: string) => {
+    const commission = await Commission.create({
+      marketerId,
+      customerId: new mongoose.Types.ObjectId().toString(),
+      productId: new mongoose.Types.ObjectId().toString(),
+      trackingCode: 'TRACK123',
+      initialSpendAmount: commissionAmount * 10,
+      commissionRate: 0.1,
+      commissionAmount,
+      status: 'approved',
+      conversionDate: new Date(conversionDate),
+      clearancePeriodDays: 30
+    });
+    await LedgerService.recordCommissions([commission._id]);
+    return commission;
+  };
+
+  const createPayout = async (amount: number) => {
+    const payout = await PayoutRequest.create({ marketerId, paymentMethodId, amount });
+    await LedgerService.recordPayouts([payout._id]);
+    return payout;
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([
+      PayoutAllocation.deleteMany({}),
+      PayoutRequest.deleteMany({}),
+      Commission.deleteMany({}),
+      CommissionAdjustment.deleteMany({}),
+      LedgerTransaction.collection.deleteMany({})
+    ]);
+  });
+
+  it('should reserve the oldest commissions first and split the last one', async () => {
+    const older = await createCommission(60, '2024-01-01');
+    const newer = await createCommission(50, '2024-02-01');
+    const payout = await createPayout(80);
+
+    const allocations = await PayoutAllocationService.reserveCommissions(payout);
+
+    expect(allocations.map(allocation => [allocation.commissionId, allocation.amount])).toEqual([
+      [older._id.toString(), 60],
+      [newer._id.toString(), 20]
+    ]);
+    expect((await PayoutRequest.findById(payout._id))!.allocatedAmount).toBe(80);
+    expect(await CommissionService.getAvailableBalance(marketerId)).toBe(30);
+  });
+
+  it('should refuse payouts larger than the unallocated commissions', async () => {
+    await createCommission(60, '2024-01-01');
+    await PayoutAllocationService.reserveCommissions(await createPayout(50));
+
+    await expect(PayoutAllocationService.reserveCommissions(await createPayout(20)))
+      .rejects.toThrow(INSUFFICIENT_COMMISSIONS);
+    expect(await PayoutAllocation.countDocuments()).toBe(1);
+  });
+
+  it('should value commissions including their bonuses and clawbacks', async () => {
+    const clawedBack = await createCommission(60, '2024-01-01');
+    const boosted = await createCommission(50, '2024-02-01');
+    await CommissionAdjustment.create([
+      { commissionId: clawedBack._id.toString(), adjustmentType: 'clawback', amount: -20, reason: 'Partial refund', adminId: marketerId },
+      { commissionId: boosted._id.toString(), adjustmentType: 'bonus', amount: 10, reason: 'Promotion', adminId: marketerId }
+    ]);
+    await LedgerService.recordCommissions([clawedBack._id, boosted._id]);
+    const payout = await createPayout(100);
+
+    const allocations = await PayoutAllocationService.reserveCommissions(payout);
+    await PayoutAllocationService.markPaid(payout);
+
+    expect(allocations.map(allocation => allocation.amount)).toEqual([40, 60]);
+    expect((await Commission.findById(clawedBack._id))!.status).toBe('paid');
+    expect((await Commission.findById(boosted._id))!.status).toBe('paid');
+    await expect(PayoutAllocationService.reserveCommissions(await createPayout(1)))
+      .rejects.toThrow(INSUFFICIENT_COMMISSIONS);
+  });
+
+  it('should mark only fully paid commissions as paid on completion', async () => {
+    const older = await createCommission(60, '2024-01-01');
+    const newer = await createCommission(50, '2024-02-01');
+    const payout = await createPayout(80);
+    await PayoutAllocationService.reserveCommissions(payout);
+
+    await PayoutAllocationService.markPaid(payout);
+
+    expect((await Commission.findById(older._id))!.status).toBe('paid');
+    expect((await Commission.findById(newer._id))!.status).toBe('approved');
+
+    const remainder = await createPayout(30);
+    await PayoutAllocationService.reserveCommissions(remainder);
+    await PayoutAllocationService.markPaid(remainder);
+
+    expect((await Commission.findById(newer._id))!.status).toBe('paid');
+    expect(await CommissionService.getAvailableBalance(marketerId)).toBe(0);
+  });
+
+  it('should release a returned payout back to the available balance', async () => {
+    const commission = await createCommission(60, '2024-01-01');
+    const payout = await createPayout(60);
+    await PayoutAllocationService.reserveCommissions(payout);
+    await PayoutAllocationService.markPaid(payout);
+    await PayoutRequest.updateOne({ _id: payout._id }, { $set: { status: 'failed' } });
+    await LedgerService.recordPayouts([payout._id]);
+
+    const released = await PayoutAllocationService.release(payout._id.toString(), 'Returned by bank');
+
+    expect(released).toBe(1);
+    expect((await Commission.findById(commission._id))!.status).toBe('approved');
+    expect(await PayoutAllocation.findOne({ payoutId: payout._id.toString() }))
+      .toMatchObject({ status: 'released', releaseReason: 'Returned by bank' });
+    expect(await CommissionService.getAvailableBalance(marketerId)).toBe(60);
+  });
+
+  it('should leave commissions reserved by other payouts alone when completing a legacy payout', async () => {
+    const reserved = await createCommission(60, '2024-01-01');
+    const free = await createCommission(40, '2024-02-01');
+    await PayoutAllocationService.reserveCommissions(await createPayout(60));
+    const legacy = await createPayout(40);
+
+    await PayoutAllocationService.markPaid(legacy);
+
+    expect((await Commission.findById(reserved._id))!.status).toBe('approved');
+    expect((await Commission.findById(free._id))!.status).toBe('paid');
+  });
+
+  it('should break a payout down by commission', async () => {
+    await createCommission(60, '2024-01-01');
+    const payout = await createPayout(45);
+    await PayoutAllocationService.reserveCommissions(payout);
+
+    const breakdown = await PayoutAllocationService.getBreakdown(payout);
+
+    expect(breakdown).toMatchObject({ payoutId: payout._id.toString(), amount: 45, allocatedAmount: 45 });
+    expect(breakdown.allocations).toHaveLength(1);
+    expect(breakdown.allocations[0].commissionId).toMatchObject({ commissionAmount: 60 });
+  });
+});
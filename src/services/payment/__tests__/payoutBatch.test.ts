@@ -0,0 +1,173 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { PayoutBatchService } from '../payoutBatch';
+import { validateNachaFile } from '../bankFiles';
+import { PayoutBatch } from '../../../models/PayoutBatch';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+import { PaymentMethod } from '../../../models/PaymentMethod';
+import { WebhookService } from '../../webhook';
+
+jest.mock('../../webhook', () => ({
+  WebhookService: {
+    publishPayoutCompleted: jest.fn().mockResolvedValue(undefined),
+    publishPayoutReturned: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+describe('PayoutBatchService', () => {
+  let mongoServer: MongoMemoryServer;
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const originalEnv = process.env;
+
+  const createPayout = async (accountDetails: any, amount = 100) => {
+    const paymentMethod = await PaymentMethod.create({
+      userId: new mongoose.Types.ObjectId().toString(),
+      methodType: 'bank_transfer',
+      accountDetails: { accountHolderName: 'Jane Roe', ...accountDetails }
+    });
+
+    return PayoutRequest.create({
+      marketerId: paymentMethod.userId,
+      paymentMethodId: paymentMethod._id.toString(),
+      amount,
+      status: 'approved'
+    });
+  };
+
+  const usAccount = { accountNumber: '123456789', routingNumber: '011000015' };
+  const sepaAccount = { iban: 'DE89370400440532013000', bic: 'COBADEFFXXX' };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    process.env = originalEnv;
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      NACHA_ODFI_ROUTING: '021000021',
+      NACHA_ODFI_NAME: 'JPMorgan Chase',
+      NACHA_COMPANY_ID: '1234567890',
+      NACHA_COMPANY_NAME: 'PartnerIQ',
+      SEPA_DEBTOR_NAME: 'PartnerIQ GmbH',
+      SEPA_DEBTOR_IBAN: 'FR1420041010050500013M02606',
+      SEPA_DEBTOR_BIC: 'BNPAFRPPXXX'
+    };
+    await Promise.all([
+      PayoutBatch.deleteMany({}),
+      PayoutRequest.deleteMany({}),
+      PaymentMethod.deleteMany({})
+    ]);
+    jest.clearAllMocks();
+  });
+
+  it('should batch US accounts into a NACHA file and move payouts to processing', async () => {
+    const payout = await createPayout(usAccount, 150);
+    await createPayout(sepaAccount);
+
+    const { batch, skipped } = await PayoutBatchService.generateBatch({ format: 'nacha', adminId });
+
+    expect(skipped).toEqual([]);
+    expect(batch).toMatchObject({ batchNumber: 'NACHA-000001', status: 'generated', entryCount: 1, totalAmount: 150, currency: 'USD' });
+
+    const file = await PayoutBatchService.getBatchFile(batch._id.toString());
+    expect(file.fileName).toBe('NACHA-000001.ach');
+    expect(validateNachaFile(file.content)).toEqual([]);
+
+    const updated = await PayoutRequest.findById(payout._id);
+    expect(updated).toMatchObject({
+      status: 'processing',
+      batchId: batch._id.toString(),
+      gateway: 'bank_transfer',
+      transactionId: batch.entries[0].reference
+    });
+  });
+
+  it('should convert SEPA batches to EUR at the given rate', async () => {
+    await createPayout(sepaAccount, 100);
+
+    const { batch } = await PayoutBatchService.generateBatch({ format: 'sepa', exchangeRate: 0.92, adminId });
+    const file = await PayoutBatchService.getBatchFile(batch._id.toString());
+
+    expect(batch).toMatchObject({ currency: 'EUR', fileAmount: 92, totalAmount: 100, controlTotal: '92.00' });
+    expect(file.content).toContain('<InstdAmt Ccy="EUR">92.00</InstdAmt>');
+  });
+
+  it('should report requested payouts that cannot be batched', async () => {
+    const valid = await createPayout(usAccount);
+    const sepa = await createPayout(sepaAccount);
+
+    const { batch, skipped } = await PayoutBatchService.generateBatch({
+      format: 'nacha',
+      payoutIds: [valid._id.toString(), sepa._id.toString()],
+      adminId
+    });
+
+    expect(batch.entryCount).toBe(1);
+    expect(skipped).toEqual([{ payoutId: sepa._id.toString(), reason: 'IBAN accounts are paid through SEPA batches' }]);
+  });
+
+  it('should drive payout status through submission and settlement', async () => {
+    const payout = await createPayout(usAccount);
+    const { batch } = await PayoutBatchService.generateBatch({ format: 'nacha', adminId });
+
+    await PayoutBatchService.submitBatch(batch._id.toString(), adminId);
+    let updated = await PayoutRequest.findById(payout._id);
+    expect(updated).toMatchObject({ status: 'completed', settlementStatus: 'pending' });
+    expect(WebhookService.publishPayoutCompleted).toHaveBeenCalledTimes(1);
+
+    const settled = await PayoutBatchService.settleBatch(batch._id.toString(), adminId);
+    expect(settled.status).toBe('settled');
+    updated = await PayoutRequest.findById(payout._id);
+    expect(updated!.settlementStatus).toBe('settled');
+
+    await expect(PayoutBatchService.cancelBatch(batch._id.toString(), adminId))
+      .rejects.toThrow('Cannot mark a settled batch as cancelled');
+  });
+
+  it('should fail payouts when the bank rejects a batch', async () => {
+    const payout = await createPayout(usAccount);
+    const { batch } = await PayoutBatchService.generateBatch({ format: 'nacha', adminId });
+    await PayoutBatchService.submitBatch(batch._id.toString(), adminId);
+
+    await PayoutBatchService.rejectBatch(batch._id.toString(), adminId, 'Invalid file header');
+
+    const updated = await PayoutRequest.findById(payout._id);
+    expect(updated).toMatchObject({
+      status: 'failed',
+      settlementStatus: 'failed',
+      failureReason: 'Bank rejected batch NACHA-000001: Invalid file header'
+    });
+    expect(WebhookService.publishPayoutReturned).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return payouts to approved when a batch is cancelled', async () => {
+    const payout = await createPayout(usAccount);
+    const { batch } = await PayoutBatchService.generateBatch({ format: 'nacha', adminId });
+
+    await PayoutBatchService.cancelBatch(batch._id.toString(), adminId);
+
+    const updated = await PayoutRequest.findById(payout._id);
+    expect(updated!.status).toBe('approved');
+    expect(updated!.batchId).toBeUndefined();
+    expect(updated!.transactionId).toBeUndefined();
+
+    const next = await PayoutBatchService.generateBatch({ format: 'nacha', adminId });
+    expect(next.batch.batchNumber).toBe('NACHA-000002');
+  });
+
+  it('should refuse to serve a batch file that changed after generation', async () => {
+    await createPayout(usAccount);
+    const { batch } = await PayoutBatchService.generateBatch({ format: 'nacha', adminId });
+    await PayoutBatch.updateOne({ _id: batch._id }, { $set: { fileContent: 'tampered' } });
+
+    await expect(PayoutBatchService.getBatchFile(batch._id.toString()))
+      .rejects.toThrow('Batch file failed its integrity check');
+  });
+});
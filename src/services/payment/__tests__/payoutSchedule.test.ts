@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { PayoutScheduleService, computeNextRunAt } from '../payoutSchedule';
+import { PayoutSchedule } from '../../../models/PayoutSchedule';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+import { PaymentMethod } from '../../../models/PaymentMethod';
+import { Commission } from '../../../models/Commission';
+import { User } from '../../../models/User';
+import { NotificationService } from '../../notification';
+import { LedgerService } from '../../ledger';
+
+jest.mock('../../notification', () => ({
+  NotificationService: {
+    sendAutomaticPayoutNotification: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+describe('PayoutScheduleService', () => {
+  describe('computeNextRunAt', () => {
+    it('should pick the next matching weekday at midnight UTC', () => {
+      // Wednesday
+      const from = new Date('2024-03-06T10:00:00Z');
+
+      expect(computeNextRunAt({ cadence: 'weekly', dayOfWeek: 1 }, from)).toEqual(new Date('2024-03-11T00:00:00Z'));
+      expect(computeNextRunAt({ cadence: 'weekly', dayOfWeek: 5 }, from)).toEqual(new Date('2024-03-08T00:00:00Z'));
+      expect(computeNextRunAt({ cadence: 'weekly', dayOfWeek: 3 }, from)).toEqual(new Date('2024-03-13T00:00:00Z'));
+    });
+
+    it('should pick the next matching day of the month', () => {
+      expect(computeNextRunAt({ cadence: 'monthly', dayOfMonth: 15 }, new Date('2024-03-06T10:00:00Z')))
+        .toEqual(new Date('2024-03-15T00:00:00Z'));
+      expect(computeNextRunAt({ cadence: 'monthly', dayOfMonth: 1 }, new Date('2024-12-01T00:00:00Z')))
+        .toEqual(new Date('2025-01-01T00:00:00Z'));
+    });
+  });
+
+  describe('processDueSchedules', () => {
+    let mongoServer: MongoMemoryServer;
+    let marketerId: string;
+    let paymentMethodId: string;
+    const now = new Date('2024-03-11T00:30:00Z');
+
+    const addApprovedCommission = async (amount: number) => {
+      const commission = await Commission.create({
+        marketerId,
+        customerId: new mongoose.Types.ObjectId().toString(),
+        productId: new mongoose.Types.ObjectId().toString(),
+        trackingCode: 'TRACK123',
+        initialSpendAmount: amount * 10,
+        commissionRate: 0.1,
+        commissionAmount: amount,
+        status: 'approved',
+        conversionDate: new Date('2024-01-01T00:00:00Z'),
+        clearancePeriodDays: 30
+      });
+      await LedgerService.recordCommissions([commission._id]);
+      return commission;
+    };
+
+    const createSchedule = (overrides: any = {}) =>
+      PayoutSchedule.create({
+        marketerId,
+        paymentMethodId,
+        cadence: 'weekly',
+        dayOfWeek: 1,
+        threshold: 100,
+        nextRunAt: new Date('2024-03-11T00:00:00Z'),
+        ...overrides
+      });
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await Promise.all([
+        PayoutSchedule.deleteMany({}),
+        PayoutRequest.deleteMany({}),
+        PaymentMethod.deleteMany({}),
+        Commission.deleteMany({}),
+        User.deleteMany({})
+      ]);
+      jest.clearAllMocks();
+
+      const marketer = await User.create({
+        email: 'marketer@example.com',
+        password: 'password123',
+        firstName: 'Jane',
+        lastName: 'Roe',
+        role: 'marketer',
+        status: 'active',
+        kycCompleted: true
+      });
+      marketerId = marketer._id.toString();
+
+      const paymentMethod = await PaymentMethod.create({
+        userId: marketerId,
+        methodType: 'paypal',
+        accountDetails: { paypalEmail: 'marketer@example.com' }
+      });
+      paymentMethodId = paymentMethod._id.toString();
+    });
+
+    it('should create an automatic payout once the balance reaches the threshold', async () => {
+      await addApprovedCommission(80);
+      await addApprovedCommission(45.555);
+      await createSchedule();
+
+      const summary = await PayoutScheduleService.processDueSchedules(now);
+
+      expect(summary).toMatchObject({ due: 1, created: 1, skipped: 0, failed: 0 });
+      const payout = await PayoutRequest.findOne({ marketerId });
+      expect(payout).toMatchObject({ amount: 125.55, source: 'automatic', status: 'requested' });
+      expect(NotificationService.sendAutomaticPayoutNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'created', amount: 125.55 })
+      );
+
+      const schedule = await PayoutSchedule.findOne({ marketerId });
+      expect(schedule!.nextRunAt).toEqual(new Date('2024-03-18T00:00:00Z'));
+      expect(schedule!.lastRun).toMatchObject({ outcome: 'created', payoutRequestId: payout!._id.toString() });
+    });
+
+    it('should skip quietly when the balance is below the threshold', async () => {
+      await addApprovedCommission(60);
+      await createSchedule();
+
+      const summary = await PayoutScheduleService.processDueSchedules(now);
+
+      expect(summary).toMatchObject({ due: 1, created: 0, skipped: 1 });
+      expect(await PayoutRequest.countDocuments()).toBe(0);
+      expect(NotificationService.sendAutomaticPayoutNotification).not.toHaveBeenCalled();
+    });
+
+    it('should respect an active hold and resume after it expires', async () => {
+      await addApprovedCommission(200);
+      await createSchedule({
+        hold: { reason: 'Fraud review', placedBy: new mongoose.Types.ObjectId().toString(), placedAt: now, until: new Date('2024-03-15T00:00:00Z') }
+      });
+
+      await PayoutScheduleService.processDueSchedules(now);
+      let schedule = await PayoutSchedule.findOne({ marketerId });
+      expect(schedule!.lastRun).toMatchObject({ outcome: 'skipped', reason: 'Payouts are on hold: Fraud review' });
+
+      await PayoutScheduleService.processDueSchedules(new Date('2024-03-18T00:30:00Z'));
+      schedule = await PayoutSchedule.findOne({ marketerId });
+      expect(schedule!.lastRun!.outcome).toBe('created');
+    });
+
+    it('should notify the marketer when KYC is not approved', async () => {
+      await User.updateOne({ _id: marketerId }, { $set: { kycCompleted: false } });
+      await addApprovedCommission(200);
+      await createSchedule();
+
+      const summary = await PayoutScheduleService.processDueSchedules(now);
+
+      expect(summary.skipped).toBe(1);
+      expect(await PayoutRequest.countDocuments()).toBe(0);
+      expect(NotificationService.sendAutomaticPayoutNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'blocked' })
+      );
+    });
+
+    it('should not create a second payout while one is pending', async () => {
+      await addApprovedCommission(200);
+      await PayoutRequest.create({ marketerId, paymentMethodId, amount: 50 });
+      await createSchedule();
+
+      const summary = await PayoutScheduleService.processDueSchedules(now);
+
+      expect(summary.skipped).toBe(1);
+      expect(await PayoutRequest.countDocuments()).toBe(1);
+    });
+
+    it('should reject thresholds outside the withdrawal limits', async () => {
+      await expect(PayoutScheduleService.upsertSchedule(marketerId, {
+        paymentMethodId,
+        cadence: 'monthly',
+        threshold: 10
+      })).rejects.toThrow('Threshold must be between $50 and $10000');
+    });
+  });
+});
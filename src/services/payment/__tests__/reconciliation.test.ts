@@ -0,0 +1,226 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { PayoutReconciliationService } from '../reconciliation';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+import { SettlementRecord } from '../../../models/SettlementRecord';
+import { WebhookService } from '../../webhook';
+
+jest.mock('../../webhook', () => ({
+  WebhookService: {
+    publishPayoutReturned: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+const mockPublishReturned = WebhookService.publishPayoutReturned as jest.MockedFunction<
+  typeof WebhookService.publishPayoutReturned
+>;
+
+describe('PayoutReconciliationService', () => {
+  describe('parsing', () => {
+    it('should map PayPal payout item statuses', () => {
+      const entries = PayoutReconciliationService.parsePayPalBatch({
+        batch_header: { payout_batch_id: 'BATCH1' },
+        items: [
+          {
+            payout_item_id: 'ITEM1',
+            transaction_status: 'SUCCESS',
+            payout_item: { amount: { value: '95.00', currency: 'USD' }, sender_item_id: 'payout-1' },
+            time_processed: '2024-03-01T10:00:00Z'
+          },
+          {
+            payout_item_id: 'ITEM2',
+            transaction_status: 'RETURNED',
+            payout_item: { amount: { value: '40.00', currency: 'USD' }, sender_item_id: 'payout-2' }
+          },
+          {
+            payout_item_id: 'ITEM3',
+            transaction_status: 'UNCLAIMED',
+            payout_item: { amount: { value: '10.00', currency: 'USD' }, sender_item_id: 'payout-3' }
+          }
+        ]
+      });
+
+      expect(entries.map(entry => [entry.externalId, entry.payoutId, entry.settlementStatus])).toEqual([
+        ['ITEM1', 'payout-1', 'settled'],
+        ['ITEM2', 'payout-2', 'returned'],
+        ['ITEM3', 'payout-3', 'pending']
+      ]);
+      expect(entries[0]).toMatchObject({ transactionId: 'BATCH1', amount: 95, currency: 'USD' });
+    });
+
+    it('should treat reversed Stripe transfers as returned and net out partial reversals', () => {
+      const reversed = PayoutReconciliationService.parseStripeTransfer({
+        id: 'tr_1', amount: 5000, amount_reversed: 5000, reversed: true, currency: 'usd'
+      });
+      const partial = PayoutReconciliationService.parseStripeTransfer({
+        id: 'tr_2', amount: 5000, amount_reversed: 1000, reversed: false, currency: 'usd',
+        balance_transaction: { status: 'available' }
+      });
+
+      expect(reversed).toMatchObject({ settlementStatus: 'returned', amount: 0 });
+      expect(partial).toMatchObject({ settlementStatus: 'settled', gatewayStatus: 'partially_reversed', amount: 40 });
+    });
+
+    it('should keep only transfer balance transactions', () => {
+      const entries = PayoutReconciliationService.parseStripeBalanceTransactions([
+        { id: 'txn_1', type: 'transfer', status: 'available', amount: -2500, currency: 'usd', source: 'tr_1' },
+        { id: 'txn_2', type: 'charge', status: 'available', amount: 9900, currency: 'usd', source: 'ch_1' },
+        { id: 'txn_3', type: 'transfer_refund', status: 'available', amount: 2500, currency: 'usd', source: { id: 'tr_2' } }
+      ]);
+
+      expect(entries.map(entry => [entry.transactionId, entry.settlementStatus, entry.amount])).toEqual([
+        ['tr_1', 'settled', 25],
+        ['tr_2', 'returned', 25]
+      ]);
+    });
+
+    it('should parse bank statements with quoted fields and header aliases', () => {
+      const csv = '\uFEFFBooking Date,Payment Reference,Amount,Status\r\n' +
+        '2024-03-01,BANK-1,"1,250.00",Booked\r\n' +
+        '2024-03-02,BANK-2,(75.50),Returned\r\n';
+
+      const entries = PayoutReconciliationService.parseBankStatement(csv);
+
+      expect(entries.map(entry => [entry.transactionId, entry.amount, entry.settlementStatus])).toEqual([
+        ['BANK-1', 1250, 'settled'],
+        ['BANK-2', 75.5, 'returned']
+      ]);
+      expect(entries[0].externalId).not.toBe(entries[1].externalId);
+      expect(PayoutReconciliationService.parseBankStatement(csv)[0].externalId).toBe(entries[0].externalId);
+    });
+
+    it('should reject bank statements with unknown statuses or missing columns', () => {
+      expect(() => PayoutReconciliationService.parseBankStatement('reference,amount,status\nBANK-1,10,weird\n'))
+        .toThrow('Unrecognized status "weird" on line 2');
+      expect(() => PayoutReconciliationService.parseBankStatement('reference,total\nBANK-1,10\n'))
+        .toThrow('Bank statement must have reference and amount columns');
+    });
+  });
+
+  describe('matching', () => {
+    let mongoServer: MongoMemoryServer;
+
+    const createPayout = (overrides: any = {}) => PayoutRequest.create({
+      marketerId: new mongoose.Types.ObjectId().toString(),
+      paymentMethodId: new mongoose.Types.ObjectId().toString(),
+      amount: 100,
+      netAmount: 100,
+      status: 'completed',
+      completedAt: new Date(),
+      transactionId: 'BANK-1',
+      gateway: 'bank_transfer',
+      settlementStatus: 'pending',
+      ...overrides
+    });
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await Promise.all([
+        PayoutRequest.deleteMany({}),
+        SettlementRecord.deleteMany({})
+      ]);
+      mockPublishReturned.mockClear();
+    });
+
+    it('should mark matching payouts as settled', async () => {
+      const payout = await createPayout();
+
+      const summary = await PayoutReconciliationService.reconcileBankStatement(
+        'date,reference,amount\n2024-03-01,BANK-1,100.00\n',
+        'march.csv'
+      );
+
+      expect(summary).toMatchObject({ processed: 1, settled: 1, discrepancies: 0, unmatched: 0 });
+      const updated = await PayoutRequest.findById(payout._id);
+      expect(updated!.settlementStatus).toBe('settled');
+      expect(updated!.settledAt).toEqual(new Date('2024-03-01'));
+
+      const record = await SettlementRecord.findOne({ transactionId: 'BANK-1' });
+      expect(record).toMatchObject({ matchStatus: 'matched', importReference: 'march.csv' });
+    });
+
+    it('should fail returned payouts and publish a webhook', async () => {
+      const payout = await createPayout();
+
+      const summary = await PayoutReconciliationService.reconcileBankStatement(
+        'reference,amount,status\nBANK-1,100.00,returned\n',
+        'returns.csv'
+      );
+
+      expect(summary.returned).toBe(1);
+      const updated = await PayoutRequest.findById(payout._id);
+      expect(updated!.status).toBe('failed');
+      expect(updated!.settlementStatus).toBe('returned');
+      expect(updated!.returnedAt).toBeDefined();
+      expect(mockPublishReturned).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flag amount mismatches without settling the payout', async () => {
+      const payout = await createPayout();
+
+      const summary = await PayoutReconciliationService.reconcileBankStatement(
+        'reference,amount\nBANK-1,90.00\n',
+        'short.csv'
+      );
+
+      expect(summary.discrepancies).toBe(1);
+      expect((await PayoutRequest.findById(payout._id))!.settlementStatus).toBe('pending');
+
+      const record = await SettlementRecord.findOne({ transactionId: 'BANK-1' });
+      expect(record!.matchStatus).toBe('discrepancy');
+      expect(record!.discrepancies.map(discrepancy => discrepancy.type)).toEqual(['amount_mismatch']);
+    });
+
+    it('should flag settlements for payouts that were not sent', async () => {
+      await createPayout({ status: 'cancelled', settlementStatus: undefined, completedAt: undefined });
+
+      const summary = await PayoutReconciliationService.reconcileBankStatement(
+        'reference,amount\nBANK-1,100.00\n',
+        'cancelled.csv'
+      );
+
+      expect(summary.discrepancies).toBe(1);
+      const record = await SettlementRecord.findOne({ transactionId: 'BANK-1' });
+      expect(record!.discrepancies[0].type).toBe('status_mismatch');
+    });
+
+    it('should record unmatched transactions and keep resolutions across re-imports', async () => {
+      const csv = 'id,reference,amount\nLINE-1,UNKNOWN,25.00\n';
+
+      const summary = await PayoutReconciliationService.reconcileBankStatement(csv, 'unknown.csv');
+      expect(summary.unmatched).toBe(1);
+
+      const report = await PayoutReconciliationService.getDiscrepancyReport();
+      expect(report.summary.unmatchedTransactions).toBe(1);
+
+      const adminId = new mongoose.Types.ObjectId().toString();
+      await PayoutReconciliationService.resolveDiscrepancy(report.discrepancies[0]._id.toString(), adminId, 'Vendor refund');
+      await PayoutReconciliationService.reconcileBankStatement(csv, 'unknown.csv');
+
+      expect(await SettlementRecord.countDocuments()).toBe(1);
+      expect((await PayoutReconciliationService.getDiscrepancyReport()).discrepancies).toHaveLength(0);
+      await expect(
+        PayoutReconciliationService.resolveDiscrepancy(report.discrepancies[0]._id.toString(), adminId, 'Again')
+      ).rejects.toThrow('Discrepancy already resolved');
+    });
+
+    it('should report payouts whose settlement is overdue', async () => {
+      await createPayout({ completedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) });
+      await createPayout({ transactionId: 'BANK-2' });
+
+      const report = await PayoutReconciliationService.getDiscrepancyReport();
+
+      expect(report.summary.overdueSettlements).toBe(1);
+      expect(report.overdueSettlements[0].transactionId).toBe('BANK-1');
+    });
+  });
+});
@@ -0,0 +1,388 @@
+export interface NachaFileOptions {
+  immediateDestination: string; // ODFI routing number (9 digits)
+  immediateDestinationName: string;
+  immediateOrigin: string; // Usually the company's 10-character ID
+  immediateOriginName: string;
+  companyName: string;
+  companyId: string; // 10 characters, e.g. "1" + EIN
+  entryDescription: string; // Shown on the recipient's statement
+  secCode: 'PPD' | 'CCD';
+  effectiveDate: Date;
+  fileIdModifier: string; // A-Z or 0-9; distinguishes files created on the same day
+  batchNumber: number;
+  firstTraceSequence?: number; // Trace numbers continue from here so they stay unique across files
+  createdAt: Date;
+}
+
+export interface NachaEntry {
+  routingNumber: string;
+  accountNumber: string;
+  accountType: 'checking' | 'savings';
+  amountCents: number;
+  name: string;
+  individualId: string; // Our reference for the entry, up to 15 characters
+}
+
+export interface NachaFile {
+  content: string;
+  traceNumbers: string[]; // In entry order
+  entryHash: string;
+  totalCreditCents: number;
+}
+
+export interface SepaFileOptions {
+  messageId: string;
+  initiatingPartyName: string;
+  debtorName: string;
+  debtorIban: string;
+  debtorBic: string;
+  requestedExecutionDate: Date;
+  createdAt: Date;
+}
+
+export interface SepaTransfer {
+  endToEndId: string;
+  amount: number; // EUR
+  name: string;
+  iban: string;
+  bic?: string;
+  remittanceInformation: string;
+}
+
+export interface SepaFile {
+  content: string;
+  controlSum: string;
+}
+
+const NACHA_RECORD_LENGTH = 94;
+const NACHA_BLOCKING_FACTOR = 10;
+const NACHA_CHECKING_CREDIT = '22';
+const NACHA_SAVINGS_CREDIT = '32';
+const NACHA_CREDITS_ONLY = '220';
+export const MAX_NACHA_ENTRY_CENTS = 9999999999; // 10-digit amount field
+
+// Countries and territories in the SEPA scheme
+const SEPA_COUNTRIES = new Set([
+  'AD', 'AT', 'BE', 'BG', 'CH', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GB', 'GI', 'GR', 'HR', 'HU',
+  'IE', 'IS', 'IT', 'LI', 'LT', 'LU', 'LV', 'MC', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK', 'SM', 'VA'
+]);
+
+const IBAN_LENGTHS: { [country: string]: number } = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20, ES: 24, FI: 18, FR: 27,
+  GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26, IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27,
+  MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, VA: 22
+};
+
+const pad = (value: string | number, length: number, align: 'left' | 'right' = 'left', fill = ' '): string => {
+  const text = String(value).slice(0, length);
+  return align === 'left' ? text.padEnd(length, fill) : text.padStart(length, fill);
+};
+
+const digits = (value: number, length: number) => pad(value, length, 'right', '0');
+
+// NACHA fields are uppercase ASCII
+const nachaText = (value: string) => value.normalize('NFD').replace(/[^\x20-\x7e]/g, '').toUpperCase();
+
+const yymmdd = (date: Date) => date.toISOString().slice(2, 10).replace(/-/g, '');
+
+/**
+ * ABA routing number check digit: 3, 7, 1 weighting across the nine digits
+ */
+export const isValidRoutingNumber = (routingNumber: string): boolean => {
+  if (!/^\d{9}$/.test(routingNumber)) return false;
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = weights.reduce((total, weight, index) => total + weight * parseInt(routingNumber[index]), 0);
+  return sum % 10 === 0;
+};
+
+export const normalizeIban = (iban: string): string => iban.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * IBAN length for its country plus the ISO 7064 mod 97-10 check digits
+ */
+export const isValidIban = (iban: string): boolean => {
+  const normalized = normalizeIban(iban);
+  const country = normalized.slice(0, 2);
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(normalized) || IBAN_LENGTHS[country] !== normalized.length) {
+    return false;
+  }
+
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4);
+  const numeric = rearranged.replace(/[A-Z]/g, char => String(char.charCodeAt(0) - 55));
+
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + parseInt(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+export const isSepaIban = (iban: string): boolean =>
+  isValidIban(iban) && SEPA_COUNTRIES.has(normalizeIban(iban).slice(0, 2));
+
+export const isValidBic = (bic: string): boolean => /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic.toUpperCase());
+
+/**
+ * Build a NACHA file with a single credits-only batch
+ */
+export const buildNachaFile = (options: NachaFileOptions, entries: NachaEntry[]): NachaFile => {
+  if (entries.length === 0) {
+    throw new Error('A NACHA file needs at least one entry');
+  }
+  if (!isValidRoutingNumber(options.immediateDestination)) {
+    throw new Error('Invalid ODFI routing number');
+  }
+
+  const odfi = options.immediateDestination.slice(0, 8);
+  const records: string[] = [];
+
+  records.push([
+    '1',
+    '01',
+    pad(` ${options.immediateDestination}`, 10),
+    pad(options.immediateOrigin, 10, 'right'),
+    yymmdd(options.createdAt),
+    options.createdAt.toISOString().slice(11, 16).replace(':', ''),
+    options.fileIdModifier,
+    '094',
+    digits(NACHA_BLOCKING_FACTOR, 2),
+    '1',
+    pad(nachaText(options.immediateDestinationName), 23),
+    pad(nachaText(options.immediateOriginName), 23),
+    pad('', 8)
+  ].join(''));
+
+  records.push([
+    '5',
+    NACHA_CREDITS_ONLY,
+    pad(nachaText(options.companyName), 16),
+    pad('', 20),
+    pad(options.companyId, 10),
+    options.secCode,
+    pad(nachaText(options.entryDescription), 10),
+    yymmdd(options.createdAt),
+    yymmdd(options.effectiveDate),
+    pad('', 3), // Settlement date is filled in by the ACH operator
+    '1',
+    odfi,
+    digits(options.batchNumber, 7)
+  ].join(''));
+
+  const traceNumbers: string[] = [];
+  let hash = 0;
+  let totalCreditCents = 0;
+
+  entries.forEach((entry, index) => {
+    if (!isValidRoutingNumber(entry.routingNumber)) {
+      throw new Error(`Invalid routing number for entry ${entry.individualId}`);
+    }
+    if (!/^[A-Za-z0-9-]{1,17}$/.test(entry.accountNumber)) {
+      throw new Error(`Invalid account number for entry ${entry.individualId}`);
+    }
+    if (!Number.isInteger(entry.amountCents) || entry.amountCents <= 0 || entry.amountCents > MAX_NACHA_ENTRY_CENTS) {
+      throw new Error(`Invalid amount for entry ${entry.individualId}`);
+    }
+
+    const traceNumber = odfi + digits((options.firstTraceSequence ?? 1) + index, 7);
+    traceNumbers.push(traceNumber);
+    hash += parseInt(entry.routingNumber.slice(0, 8));
+    totalCreditCents += entry.amountCents;
+
+    records.push([
+      '6',
+      entry.accountType === 'savings' ? NACHA_SAVINGS_CREDIT : NACHA_CHECKING_CREDIT,
+      entry.routingNumber,
+      pad(entry.accountNumber, 17),
+      digits(entry.amountCents, 10),
+      pad(nachaText(entry.individualId), 15),
+      pad(nachaText(entry.name), 22),
+      pad('', 2),
+      '0',
+      traceNumber
+    ].join(''));
+  });
+
+  // Entry hash is the sum of the receiving routing prefixes, truncated to its last ten digits
+  const entryHash = digits(hash % 10000000000, 10);
+
+  records.push([
+    '8',
+    NACHA_CREDITS_ONLY,
+    digits(entries.length, 6),
+    entryHash,
+    digits(0, 12),
+    digits(totalCreditCents, 12),
+    pad(options.companyId, 10),
+    pad('', 19),
+    pad('', 6),
+    odfi,
+    digits(options.batchNumber, 7)
+  ].join(''));
+
+  const recordCount = records.length + 1;
+  const blockCount = Math.ceil(recordCount / NACHA_BLOCKING_FACTOR);
+
+  records.push([
+    '9',
+    digits(1, 6),
+    digits(blockCount, 6),
+    digits(entries.length, 8),
+    entryHash,
+    digits(0, 12),
+    digits(totalCreditCents, 12),
+    pad('', 39)
+  ].join(''));
+
+  // Files are padded with filler records to a whole number of blocks
+  while (records.length % NACHA_BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(NACHA_RECORD_LENGTH));
+  }
+
+  return {
+    content: records.join('\n') + '\n',
+    traceNumbers,
+    entryHash,
+    totalCreditCents
+  };
+};
+
+/**
+ * Check a NACHA file's structure and recompute its batch and file control totals.
+ * Returns a list of problems; an empty list means the file is consistent.
+ */
+export const validateNachaFile = (content: string): string[] => {
+  const errors: string[] = [];
+  const records = content.split(/\r?\n/).filter(line => line.length > 0);
+
+  records.forEach((record, index) => {
+    if (record.length !== NACHA_RECORD_LENGTH) {
+      errors.push(`Record ${index + 1} is ${record.length} characters, expected ${NACHA_RECORD_LENGTH}`);
+    }
+  });
+  if (records.length % NACHA_BLOCKING_FACTOR !== 0) {
+    errors.push('Record count is not a multiple of the blocking factor');
+  }
+  if (records[0]?.[0] !== '1') {
+    errors.push('File does not start with a file header record');
+  }
+
+  const entries = records.filter(record => record[0] === '6');
+  const batchControls = records.filter(record => record[0] === '8');
+  const fileControl = records.find(record => record[0] === '9' && record !== '9'.repeat(NACHA_RECORD_LENGTH));
+
+  if (!fileControl) {
+    errors.push('Missing file control record');
+    return errors;
+  }
+
+  const hash = entries.reduce((total, entry) => total + parseInt(entry.slice(3, 11)), 0) % 10000000000;
+  const credits = entries.reduce((total, entry) => total + parseInt(entry.slice(29, 39)), 0);
+  const batchCredits = batchControls.reduce((total, control) => total + parseInt(control.slice(32, 44)), 0);
+
+  if (parseInt(fileControl.slice(13, 21)) !== entries.length) {
+    errors.push('File control entry count does not match the entries');
+  }
+  if (parseInt(fileControl.slice(21, 31)) !== hash) {
+    errors.push('File control entry hash does not match the entries');
+  }
+  if (parseInt(fileControl.slice(43, 55)) !== credits || batchCredits !== credits) {
+    errors.push('Control credit totals do not match the entries');
+  }
+  if (parseInt(fileControl.slice(7, 13)) !== records.length / NACHA_BLOCKING_FACTOR) {
+    errors.push('File control block count does not match the file');
+  }
+
+  return errors;
+};
+
+// SEPA permits a restricted Latin character set
+const sepaText = (value: string, maxLength: number): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+
+const xmlEscape = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const element = (name: string, value: string) => `<${name}>${xmlEscape(value)}</${name}>`;
+
+/**
+ * Build a SEPA credit transfer initiation (pain.001.001.03) with a single payment information block
+ */
+export const buildSepaCreditTransfer = (options: SepaFileOptions, transfers: SepaTransfer[]): SepaFile => {
+  if (transfers.length === 0) {
+    throw new Error('A SEPA file needs at least one transfer');
+  }
+  if (!isSepaIban(options.debtorIban)) {
+    throw new Error('Invalid debtor IBAN');
+  }
+  if (!isValidBic(options.debtorBic)) {
+    throw new Error('Invalid debtor BIC');
+  }
+
+  let controlCents = 0;
+  const transactions = transfers.map(transfer => {
+    if (!isSepaIban(transfer.iban)) {
+      throw new Error(`Invalid SEPA IBAN for transfer ${transfer.endToEndId}`);
+    }
+    if (transfer.bic && !isValidBic(transfer.bic)) {
+      throw new Error(`Invalid BIC for transfer ${transfer.endToEndId}`);
+    }
+
+    const cents = Math.round(transfer.amount * 100);
+    if (cents <= 0 || cents > 99999999999) {
+      throw new Error(`Invalid amount for transfer ${transfer.endToEndId}`);
+    }
+    controlCents += cents;
+
+    return [
+      '<CdtTrfTxInf>',
+      `<PmtId>${element('EndToEndId', sepaText(transfer.endToEndId, 35))}</PmtId>`,
+      `<Amt><InstdAmt Ccy="EUR">${(cents / 100).toFixed(2)}</InstdAmt></Amt>`,
+      transfer.bic ? `<CdtrAgt><FinInstnId>${element('BIC', transfer.bic.toUpperCase())}</FinInstnId></CdtrAgt>` : '',
+      `<Cdtr>${element('Nm', sepaText(transfer.name, 70))}</Cdtr>`,
+      `<CdtrAcct><Id>${element('IBAN', normalizeIban(transfer.iban))}</Id></CdtrAcct>`,
+      `<RmtInf>${element('Ustrd', sepaText(transfer.remittanceInformation, 140))}</RmtInf>`,
+      '</CdtTrfTxInf>'
+    ].join('');
+  });
+
+  const controlSum = (controlCents / 100).toFixed(2);
+  const messageId = sepaText(options.messageId, 35);
+
+  const content = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '<CstmrCdtTrfInitn>',
+    '<GrpHdr>',
+    element('MsgId', messageId),
+    element('CreDtTm', options.createdAt.toISOString().slice(0, 19)),
+    element('NbOfTxs', String(transfers.length)),
+    element('CtrlSum', controlSum),
+    `<InitgPty>${element('Nm', sepaText(options.initiatingPartyName, 70))}</InitgPty>`,
+    '</GrpHdr>',
+    '<PmtInf>',
+    element('PmtInfId', messageId),
+    element('PmtMtd', 'TRF'),
+    element('BtchBookg', 'true'),
+    element('NbOfTxs', String(transfers.length)),
+    element('CtrlSum', controlSum),
+    '<PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>',
+    element('ReqdExctnDt', options.requestedExecutionDate.toISOString().slice(0, 10)),
+    `<Dbtr>${element('Nm', sepaText(options.debtorName, 70))}</Dbtr>`,
+    `<DbtrAcct><Id>${element('IBAN', normalizeIban(options.debtorIban))}</Id></DbtrAcct>`,
+    `<DbtrAgt><FinInstnId>${element('BIC', options.debtorBic.toUpperCase())}</FinInstnId></DbtrAgt>`,
+    element('ChrgBr', 'SLEV'),
+    ...transactions,
+    '</PmtInf>',
+    '</CstmrCdtTrfInitn>',
+    '</Document>'
+  ].join('\n') + '\n';
+
+  return { content, controlSum };
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+
+export type AddressFormat = 'bitcoin' | 'evm' | 'tron';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+// Base58Check version bytes
+const BITCOIN_P2PKH_VERSION = 0x00;
+const BITCOIN_P2SH_VERSION = 0x05;
+const TRON_VERSION = 0x41;
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest();
+
+/**
+ * Decode a Base58Check string, returning the payload without its checksum
+ * or null when the string or checksum is invalid
+ */
+const decodeBase58Check = (address: string): Buffer | null => {
+  let value = BigInt(0);
+  for (const char of address) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) return null;
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  const hex = value.toString(16);
+  const body = value === BigInt(0) ? Buffer.alloc(0) : Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+  const leadingZeros = address.length - address.replace(/^1+/, '').length;
+  const bytes = Buffer.concat([Buffer.alloc(leadingZeros), body]);
+
+  if (bytes.length < 5) return null;
+
+  const payload = bytes.subarray(0, -4);
+  const checksum = bytes.subarray(-4);
+  return sha256(sha256(payload)).subarray(0, 4).equals(checksum) ? payload : null;
+};
+
+const bech32Polymod = (values: number[]): number => {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= BECH32_GENERATOR[i];
+    }
+  }
+  return checksum >>> 0;
+};
+
+const convertBits = (data: number[], fromBits: number, toBits: number): number[] | null => {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (const value of data) {
+    accumulator = (accumulator << fromBits) | value;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  // Leftover bits must be zero padding
+  if (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue)) return null;
+  return result;
+};
+
+/**
+ * Validate a native SegWit address (BIP-173 bech32 for v0, BIP-350 bech32m for v1+)
+ */
+const isValidSegwitAddress = (address: string, hrp: string): boolean => {
+  if (address.length > 90 || (address !== address.toLowerCase() && address !== address.toUpperCase())) {
+    return false;
+  }
+
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (lower.slice(0, separator) !== hrp || lower.length - separator - 1 < 7) return false;
+
+  const data: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const value = BECH32_CHARSET.indexOf(char);
+    if (value === -1) return false;
+    data.push(value);
+  }
+
+  const expandedHrp = [
+    ...Array.from(hrp, char => char.charCodeAt(0) >> 5),
+    0,
+    ...Array.from(hrp, char => char.charCodeAt(0) & 31)
+  ];
+  const checksum = bech32Polymod([...expandedHrp, ...data]);
+
+  const version = data[0];
+  if (version > 16) return false;
+  if (checksum !== (version === 0 ? BECH32_CONST : BECH32M_CONST)) return false;
+
+  const program = convertBits(data.slice(1, -6), 5, 8);
+  if (!program || program.length < 2 || program.length > 40) return false;
+  return version !== 0 || program.length === 20 || program.length === 32;
+};
+
+const isValidBitcoinAddress = (address: string): boolean => {
+  if (/^bc1/i.test(address)) {
+    return isValidSegwitAddress(address, 'bc');
+  }
+
+  const payload = decodeBase58Check(address);
+  return !!payload &&
+    payload.length === 21 &&
+    (payload[0] === BITCOIN_P2PKH_VERSION || payload[0] === BITCOIN_P2SH_VERSION);
+};
+
+// EIP-55 checksums need keccak-256, which Node's crypto does not provide, so only the format is checked
+const isValidEvmAddress = (address: string): boolean => /^0x[0-9a-fA-F]{40}$/.test(address);
+
+const isValidTronAddress = (address: string): boolean => {
+  const payload = decodeBase58Check(address);
+  return !!payload && payload.length === 21 && payload[0] === TRON_VERSION;
+};
+
+/**
+ * Check that an address is well formed for the given address format, including its checksum where
+ * the format has one (Base58Check and bech32)
+ */
+export const isValidCryptoAddress = (address: string, format: AddressFormat): boolean => {
+  switch (format) {
+    case 'bitcoin':
+      return isValidBitcoinAddress(address);
+    case 'evm':
+      return isValidEvmAddress(address);
+    case 'tron':
+      return isValidTronAddress(address);
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,516 @@
+import crypto from 'crypto';
+import { PayoutRequest, ICryptoPayoutDetails } from '../../models/PayoutRequest';
+import { PaymentMethod } from '../../models/PaymentMethod';
+import { WebhookService } from '../webhook';
+import { PayoutAllocationService } from './payoutAllocation';
+import { LedgerService } from '../ledger';
+import { CurrencyService } from '../currency';
+import { logger } from '../../utils/logger';
+import { AddressFormat, isValidCryptoAddress } from './cryptoAddress';
+import type { PaymentGatewayResult, BulkPayoutResult } from './index';
+
+export type CryptoAsset = 'bitcoin' | 'ethereum' | 'usdc' | 'usdt';
+export type CryptoNetwork = 'bitcoin' | 'ethereum' | 'polygon' | 'base' | 'bsc' | 'tron';
+
+export interface CryptoQuote {
+  asset: CryptoAsset;
+  usdAmount: number;
+  tokenAmount: string;
+  exchangeRate: number; // USD per token
+  rateSource: string;
+}
+
+export interface CryptoTransferRequest {
+  reference: string; // Payout request ID, used by providers for idempotency
+  asset: CryptoAsset;
+  network: CryptoNetwork;
+  address: string;
+  amount: string; // Whole tokens as a decimal string
+}
+
+export interface CryptoTransferResult {
+  success: boolean;
+  transactionId?: string; // Provider reference used to poll for confirmations
+  txHash?: string;
+  error?: string;
+  providerResponse?: any;
+}
+
+export interface CryptoTransferStatus {
+  state: 'pending' | 'confirmed' | 'failed';
+  txHash?: string;
+  confirmations: number;
+  error?: string;
+}
+
+/**
+ * Sends on-chain transfers for wallet payouts. Implementations wrap a custody or exchange API;
+ * register them with CryptoPayoutService.registerProvider and select one with CRYPTO_PAYOUT_PROVIDER.
+ */
+export interface CryptoPayoutProvider {
+  readonly name: string;
+  sendTransfer(request: CryptoTransferRequest): Promise<CryptoTransferResult>;
+  getTransferStatus(transactionId: string): Promise<CryptoTransferStatus>;
+}
+
+/**
+ * Supplies USD prices used to convert payout amounts into tokens
+ */
+export interface CryptoRateSource {
+  readonly name: string;
+  getUsdRate(asset: CryptoAsset): Promise<number>;
+}
+
+export interface ConfirmationTrackingSummary {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  pending: number;
+  errors: Array<{
+    payoutId: string;
+    error: string;
+  }>;
+}
+
+interface AssetConfig {
+  symbol: string;
+  precision: number; // Fractional digits paid out
+  networks: CryptoNetwork[]; // First entry is the default
+  coingeckoId: string;
+  stablecoin: boolean;
+}
+
+interface NetworkConfig {
+  addressFormat: AddressFormat;
+  requiredConfirmations: number;
+}
+
+export const CRYPTO_ASSETS: { [asset in CryptoAsset]: AssetConfig } = {
+  bitcoin: { symbol: 'BTC', precision: 8, networks: ['bitcoin'], coingeckoId: 'bitcoin', stablecoin: false },
+  ethereum: { symbol: 'ETH', precision: 9, networks: ['ethereum', 'base'], coingeckoId: 'ethereum', stablecoin: false },
+  usdc: { symbol: 'USDC', precision: 6, networks: ['ethereum', 'polygon', 'base'], coingeckoId: 'usd-coin', stablecoin: true },
+  usdt: { symbol: 'USDT', precision: 6, networks: ['ethereum', 'polygon', 'bsc', 'tron'], coingeckoId: 'tether', stablecoin: true }
+};
+
+const CRYPTO_NETWORKS: { [network in CryptoNetwork]: NetworkConfig } = {
+  bitcoin: { addressFormat: 'bitcoin', requiredConfirmations: 3 },
+  ethereum: { addressFormat: 'evm', requiredConfirmations: 12 },
+  polygon: { addressFormat: 'evm', requiredConfirmations: 128 },
+  base: { addressFormat: 'evm', requiredConfirmations: 12 },
+  bsc: { addressFormat: 'evm', requiredConfirmations: 15 },
+  tron: { addressFormat: 'tron', requiredConfirmations: 20 }
+};
+
+// Names marketers commonly enter for a network
+const NETWORK_ALIASES: { [alias: string]: CryptoNetwork } = {
+  erc20: 'ethereum',
+  eth: 'ethereum',
+  matic: 'polygon',
+  bep20: 'bsc',
+  'bnb smart chain': 'bsc',
+  trc20: 'tron',
+  btc: 'bitcoin'
+};
+
+const RATE_CACHE_SECONDS = parseInt(process.env.CRYPTO_RATE_CACHE_SECONDS || '60');
+// Stablecoin prices outside this band usually mean a depeg; refuse to convert rather than overpay
+const STABLECOIN_MAX_DEVIATION = 0.05;
+
+export const isCryptoMethod = (methodType: string): methodType is CryptoAsset =>
+  Object.prototype.hasOwnProperty.call(CRYPTO_ASSETS, methodType);
+
+/**
+ * Rates from the CRYPTO_FIXED_RATES environment variable, e.g. {"BTC": 65000, "ETH": 3200}.
+ * Stablecoins default to 1. Intended for development and offline tests.
+ */
+export class FixedRateSource implements CryptoRateSource {
+  readonly name = 'fixed';
+  private rates: { [symbol: string]: number };
+
+  constructor(rates?: { [symbol: string]: number }) {
+    this.rates = { USDC: 1, USDT: 1, ...(rates || JSON.parse(process.env.CRYPTO_FIXED_RATES || '{}')) };
+  }
+
+  async getUsdRate(asset: CryptoAsset): Promise<number> {
+    const rate = this.rates[CRYPTO_ASSETS[asset].symbol];
+    if (!rate) {
+      throw new Error(`No fixed rate configured for ${CRYPTO_ASSETS[asset].symbol}`);
+    }
+    return rate;
+  }
+}
+
+/**
+ * Spot prices from the CoinGecko simple price API
+ */
+export class CoinGeckoRateSource implements CryptoRateSource {
+  readonly name = 'coingecko';
+  private apiUrl: string;
+  private apiKey: string;
+  private cache = new Map<CryptoAsset, { rate: number; fetchedAt: number }>();
+
+  constructor() {
+    this.apiUrl = process.env.CRYPTO_RATE_API_URL || 'https://api.coingecko.com/api/v3';
+    this.apiKey = process.env.CRYPTO_RATE_API_KEY || '';
+  }
+
+  async getUsdRate(asset: CryptoAsset): Promise<number> {
+    const cached = this.cache.get(asset);
+    if (cached && Date.now() - cached.fetchedAt < RATE_CACHE_SECONDS * 1000) {
+      return cached.rate;
+    }
+
+    const coinId = CRYPTO_ASSETS[asset].coingeckoId;
+    const response = await fetch(`${this.apiUrl}/simple/price?ids=${coinId}&vs_currencies=usd`, {
+      headers: this.apiKey ? { 'x-cg-pro-api-key': this.apiKey } : {}
+    });
+
+    const result = await response.json() as any;
+    const rate = result?.[coinId]?.usd;
+
+    if (!response.ok || typeof rate !== 'number' || rate <= 0) {
+      throw new Error(`Failed to fetch ${CRYPTO_ASSETS[asset].symbol} exchange rate`);
+    }
+
+    this.cache.set(asset, { rate, fetchedAt: Date.now() });
+    return rate;
+  }
+}
+
+/**
+ * Offline provider for development and tests. Transfers always succeed and gain one confirmation
+ * every blockIntervalSeconds; the send time is encoded in the transaction ID so status survives restarts.
+ */
+export class MockCryptoProvider implements CryptoPayoutProvider {
+  readonly name = 'mock';
+  private blockIntervalSeconds: number;
+  private now: () => number;
+  private failedTransfers = new Map<string, string>();
+
+  constructor(options: { blockIntervalSeconds?: number; now?: () => number } = {}) {
+    this.blockIntervalSeconds = options.blockIntervalSeconds ?? parseInt(process.env.CRYPTO_MOCK_BLOCK_SECONDS || '60');
+    this.now = options.now || Date.now;
+  }
+
+  async sendTransfer(request: CryptoTransferRequest): Promise<CryptoTransferResult> {
+    const transactionId = `mock_${this.now()}_${crypto.randomBytes(6).toString('hex')}`;
+    const txHash = this.txHash(transactionId, request.network);
+
+    return {
+      success: true,
+      transactionId,
+      txHash,
+      providerResponse: { transactionId, txHash, ...request }
+    };
+  }
+
+  async getTransferStatus(transactionId: string): Promise<CryptoTransferStatus> {
+    const match = transactionId.match(/^mock_(\d+)_[0-9a-f]+$/);
+    if (!match) {
+      return { state: 'failed', confirmations: 0, error: 'Unknown transaction' };
+    }
+
+    const failure = this.failedTransfers.get(transactionId);
+    if (failure) {
+      return { state: 'failed', confirmations: 0, error: failure };
+    }
+
+    const elapsedSeconds = (this.now() - parseInt(match[1])) / 1000;
+    const confirmations = Math.max(0, Math.floor(elapsedSeconds / this.blockIntervalSeconds));
+
+    return {
+      state: confirmations > 0 ? 'confirmed' : 'pending',
+      txHash: this.txHash(transactionId),
+      confirmations
+    };
+  }
+
+  /**
+   * Make a transfer report as failed, e.g. to simulate a dropped transaction
+   */
+  failTransfer(transactionId: string, error: string = 'Transaction dropped'): void {
+    this.failedTransfers.set(transactionId, error);
+  }
+
+  private txHash(transactionId: string, network?: CryptoNetwork): string {
+    const hash = crypto.createHash('sha256').update(transactionId).digest('hex');
+    return network === 'bitcoin' ? hash : `0x${hash}`;
+  }
+}
+
+const providers = new Map<string, CryptoPayoutProvider>([['mock', new MockCryptoProvider()]]);
+let rateSource: CryptoRateSource | undefined;
+
+// Crypto wallet payout service
+export class CryptoPayoutService {
+  /**
+   * Register a provider so it can be selected with CRYPTO_PAYOUT_PROVIDER
+   */
+  static registerProvider(provider: CryptoPayoutProvider): void {
+    providers.set(provider.name, provider);
+  }
+
+  /**
+   * Override the rate source selected by CRYPTO_RATE_SOURCE
+   */
+  static setRateSource(source: CryptoRateSource | undefined): void {
+    rateSource = source;
+  }
+
+  static getProvider(name?: string): CryptoPayoutProvider {
+    // The mock provider is only a default outside production
+    const providerName = name ||
+      process.env.CRYPTO_PAYOUT_PROVIDER ||
+      (process.env.NODE_ENV === 'production' ? '' : 'mock');
+
+    const provider = providers.get(providerName);
+    if (!provider) {
+      throw new Error(providerName
+        ? `Crypto payout provider "${providerName}" is not registered`
+        : 'Crypto payout provider is not configured');
+    }
+    return provider;
+  }
+
+  static getRateSource(): CryptoRateSource {
+    if (!rateSource) {
+      rateSource = process.env.CRYPTO_RATE_SOURCE === 'fixed' ? new FixedRateSource() : new CoinGeckoRateSource();
+    }
+    return rateSource;
+  }
+
+  /**
+   * Resolve a payment method's network for an asset, accepting common aliases such as "erc20" or "trc20".
+   * An empty network, or "mainnet", means the asset's default network.
+   */
+  static resolveNetwork(asset: CryptoAsset, network?: string): CryptoNetwork {
+    const config = CRYPTO_ASSETS[asset];
+    const normalized = (network || '').trim().toLowerCase();
+
+    if (!normalized || normalized === 'mainnet') {
+      return config.networks[0];
+    }
+
+    const resolved = (NETWORK_ALIASES[normalized] || normalized) as CryptoNetwork;
+    if (!config.networks.includes(resolved)) {
+      throw new Error(`${config.symbol} payouts are not supported on ${network}. Supported networks: ${config.networks.join(', ')}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Validate a wallet address for an asset and network. Returns an error message, or null when valid.
+   */
+  static validateAddress(asset: CryptoAsset, address: string, network?: string): string | null {
+    let resolved: CryptoNetwork;
+    try {
+      resolved = this.resolveNetwork(asset, network);
+    } catch (error: any) {
+      return error.message;
+    }
+
+    if (!isValidCryptoAddress(address.trim(), CRYPTO_NETWORKS[resolved].addressFormat)) {
+      return `Invalid ${CRYPTO_ASSETS[asset].symbol} wallet address for the ${resolved} network`;
+    }
+    return null;
+  }
+
+  /**
+   * Convert a USD amount into tokens, rounding down to the asset's payout precision
+   */
+  static async convertToToken(usdAmount: number, asset: CryptoAsset): Promise<CryptoQuote> {
+    const config = CRYPTO_ASSETS[asset];
+    const source = this.getRateSource();
+    const rate = await source.getUsdRate(asset);
+
+    if (!(rate > 0)) {
+      throw new Error(`Invalid ${config.symbol} exchange rate`);
+    }
+    if (config.stablecoin && Math.abs(rate - 1) > STABLECOIN_MAX_DEVIATION) {
+      throw new Error(`${config.symbol} is trading at ${rate} USD; payouts are paused until it returns to its peg`);
+    }
+
+    const scale = BigInt(10) ** BigInt(config.precision);
+    const units = BigInt(Math.floor((usdAmount * 10 ** config.precision) / rate));
+    const whole = units / scale;
+    const fraction = (units % scale).toString().padStart(config.precision, '0');
+
+    return {
+      asset,
+      usdAmount,
+      tokenAmount: `${whole}.${fraction}`,
+      exchangeRate: rate,
+      rateSource: source.name
+    };
+  }
+
+  async processPayout(payoutRequest: any, paymentMethod: any): Promise<PaymentGatewayResult> {
+    try {
+      const asset = paymentMethod.methodType as CryptoAsset;
+      const accountDetails = paymentMethod.decryptAccountDetails();
+
+      if (!accountDetails?.walletAddress) {
+        return {
+          success: false,
+          error: 'Invalid wallet account details'
+        };
+      }
+
+      const addressError = CryptoPayoutService.validateAddress(asset, accountDetails.walletAddress, accountDetails.network);
+      if (addressError) {
+        return {
+          success: false,
+          error: addressError
+        };
+      }
+
+      const network = CryptoPayoutService.resolveNetwork(asset, accountDetails.network);
+      const walletAddress = accountDetails.walletAddress.trim();
+      const payment = CurrencyService.getPayoutAmount(payoutRequest);
+      if (payment.currency !== 'USD') {
+        return {
+          success: false,
+          error: `Wallet payouts are quoted in USD, not ${payment.currency}`
+        };
+      }
+      const quote = await CryptoPayoutService.convertToToken(payment.amount, asset);
+
+      if (parseFloat(quote.tokenAmount) <= 0) {
+        return {
+          success: false,
+          error: 'Payout amount is too small to send'
+        };
+      }
+
+      const provider = CryptoPayoutService.getProvider();
+      const transfer = await provider.sendTransfer({
+        reference: payoutRequest._id.toString(),
+        asset,
+        network,
+        address: walletAddress,
+        amount: quote.tokenAmount
+      });
+
+      if (!transfer.success || !transfer.transactionId) {
+        return {
+          success: false,
+          error: transfer.error || 'Crypto transfer failed',
+          gatewayResponse: transfer.providerResponse
+        };
+      }
+
+      const cryptoDetails: ICryptoPayoutDetails = {
+        asset,
+        network,
+        walletAddress,
+        tokenAmount: quote.tokenAmount,
+        exchangeRate: quote.exchangeRate,
+        rateSource: quote.rateSource,
+        provider: provider.name,
+        txHash: transfer.txHash,
+        confirmations: 0,
+        requiredConfirmations: CRYPTO_NETWORKS[network].requiredConfirmations
+      };
+
+      // Record the transfer immediately so confirmation tracking can pick it up
+      await PayoutRequest.updateOne({ _id: payoutRequest._id }, { $set: { cryptoDetails } });
+
+      return {
+        success: true,
+        transactionId: transfer.transactionId,
+        gatewayResponse: {
+          message: 'Crypto transfer submitted - settlement is confirmed on-chain',
+          ...cryptoDetails
+        }
+      };
+    } catch (error: any) {
+      logger.error('Crypto payout error:', error);
+      return {
+        success: false,
+        error: error.message || 'Crypto payout service error'
+      };
+    }
+  }
+
+  async processBulkPayouts(payoutRequests: any[]): Promise<BulkPayoutResult> {
+    const result: BulkPayoutResult = {
+      successful: [],
+      failed: [],
+      totalProcessed: payoutRequests.length,
+      transactionIds: {}
+    };
+
+    // On-chain transfers are sent one at a time; most providers have no batch endpoint for them
+    for (const payout of payoutRequests) {
+      const paymentMethod = await PaymentMethod.findById(payout.paymentMethodId).select('+encryptedAccountDetails');
+      if (!paymentMethod) {
+        result.failed.push({ payoutId: payout._id.toString(), error: 'Payment method not found' });
+        continue;
+      }
+
+      const payoutResult = await this.processPayout(payout, paymentMethod);
+      if (payoutResult.success) {
+        result.successful.push(payout._id.toString());
+        result.transactionIds![payout._id.toString()] = payoutResult.transactionId!;
+      } else {
+        result.failed.push({ payoutId: payout._id.toString(), error: payoutResult.error || 'Crypto payout failed' });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Poll providers for sent crypto payouts and settle them once they reach the network's
+   * required confirmations. Failed transfers put the payout back to failed.
+   */
+  static async trackConfirmations(limit: number = 200): Promise<ConfirmationTrackingSummary> {
+    const summary: ConfirmationTrackingSummary = { checked: 0, confirmed: 0, failed: 0, pending: 0, errors: [] };
+
+    const payouts = await PayoutRequest.find({
+      gateway: 'crypto',
+      status: 'completed',
+      settlementStatus: 'pending',
+      cryptoDetails: { $exists: true }
+    })
+      .sort({ 'cryptoDetails.lastCheckedAt': 1 })
+      .limit(limit);
+
+    for (const payout of payouts) {
+      try {
+        const details = payout.cryptoDetails!;
+        const status = await this.getProvider(details.provider).getTransferStatus(payout.transactionId!);
+        summary.checked++;
+
+        details.confirmations = status.confirmations;
+        details.lastCheckedAt = new Date();
+        if (status.txHash) details.txHash = status.txHash;
+
+        if (status.state === 'failed') {
+          payout.status = 'failed';
+          payout.settlementStatus = 'failed';
+          payout.failureReason = `Crypto transfer failed: ${status.error || 'rejected by the network'}`;
+          await payout.save();
+          await PayoutAllocationService.release(payout._id.toString(), payout.failureReason);
+          await LedgerService.recordPayouts([payout._id]);
+          await WebhookService.publishPayoutReturned(payout);
+          summary.failed++;
+        } else if (status.state === 'confirmed' && status.confirmations >= details.requiredConfirmations) {
+          details.confirmedAt = new Date();
+          payout.settlementStatus = 'settled';
+          payout.settledAt = details.confirmedAt;
+          await payout.save();
+          summary.confirmed++;
+        } else {
+          await payout.save();
+          summary.pending++;
+        }
+      } catch (error: any) {
+        logger.error(`Error tracking crypto payout ${payout._id}:`, error);
+        summary.errors.push({ payoutId: payout._id.toString(), error: error.message });
+      }
+    }
+
+    return summary;
+  }
+}
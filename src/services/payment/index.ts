@@ -1,9 +1,16 @@
 import { PaymentMethod } from '../../models/PaymentMethod';
 import { PayoutRequest } from '../../models/PayoutRequest';
+import { CryptoPayoutService, isCryptoMethod } from './cryptoPayout';
+import { TaxService } from '../tax';
+import { CurrencyService } from '../currency';
+import { formatCurrencyAmount, getBaseCurrency, toMinorUnits } from '../../utils/currency';
+
+export type PayoutGateway = 'paypal' | 'stripe' | 'bank_transfer' | 'crypto';
 
 export interface PaymentGatewayResult {
   success: boolean;
   transactionId?: string;
+  gateway?: PayoutGateway;
   error?: string;
   gatewayResponse?: any;
 }
@@ -15,6 +22,8 @@ export interface BulkPayoutResult {
     error: string;
   }>;
   totalProcessed: number;
+  transactionIds?: { [payoutId: string]: string }; // Gateway reference for each successful payout
+  gateways?: { [payoutId: string]: PayoutGateway };
 }
 
 // PayPal integration service
@@ -62,6 +71,7 @@ export class PayPalService {
         };
       }
 
+      const payment = CurrencyService.getPayoutAmount(payoutRequest);
       const payoutData = {
         sender_batch_header: {
           sender_batch_id: `payout_${payoutRequest._id}_${Date.now()}`,
@@ -71,8 +81,8 @@ export class PayPalService {
         items: [{
           recipient_type: 'EMAIL',
           amount: {
-            value: payoutRequest.netAmount.toFixed(2),
-            currency: 'USD'
+            value: formatCurrencyAmount(payment.amount, payment.currency),
+            currency: payment.currency
           },
           receiver: accountDetails.paypalEmail,
           note: `Affiliate commission payout - Request ID: ${payoutRequest._id}`,
@@ -123,7 +133,6 @@ export class PayPalService {
     try {
       const accessToken = await this.getAccessToken();
       
-      // Group payouts by currency for batch processing
       const items = [];
       const payoutMap = new Map();
 
@@ -146,11 +155,12 @@ export class PayPalService {
           continue;
         }
 
+        const payment = CurrencyService.getPayoutAmount(payout);
         const item = {
           recipient_type: 'EMAIL',
           amount: {
-            value: payout.netAmount.toFixed(2),
-            currency: 'USD'
+            value: formatCurrencyAmount(payment.amount, payment.currency),
+            currency: payment.currency
           },
           receiver: accountDetails.paypalEmail,
           note: `Affiliate commission payout - Request ID: ${payout._id}`,
@@ -186,9 +196,11 @@ export class PayPalService {
       const responseData = await response.json() as any;
 
       if (response.ok) {
-        // Mark all as successful for now - in production, you'd check individual item status
+        // Individual item status is confirmed later by settlement reconciliation
+        result.transactionIds = {};
         for (const item of items) {
           result.successful.push(item.sender_item_id);
+          result.transactionIds[item.sender_item_id] = responseData.batch_header.payout_batch_id;
         }
         result.totalProcessed = items.length;
       } else {
@@ -215,6 +227,28 @@ export class PayPalService {
     result.totalProcessed = result.successful.length + result.failed.length;
     return result;
   }
+
+  /**
+   * Get a payout batch with the status of each item, for settlement reconciliation
+   */
+  async getPayoutBatch(payoutBatchId: string): Promise<any> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(`${this.apiUrl}/v1/payments/payouts/${encodeURIComponent(payoutBatchId)}?page_size=1000`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    const result = await response.json() as any;
+
+    if (!response.ok) {
+      throw new Error(result.message || `Failed to fetch PayPal payout batch ${payoutBatchId}`);
+    }
+
+    return result;
+  }
 }
 
 // Stripe integration service
@@ -239,9 +273,10 @@ export class StripeService {
       }
 
       // Create a transfer to the connected account
+      const payment = CurrencyService.getPayoutAmount(payoutRequest);
       const transferData = {
-        amount: Math.round(payoutRequest.netAmount * 100), // Convert to cents
-        currency: 'usd',
+        amount: toMinorUnits(payment.amount, payment.currency),
+        currency: payment.currency.toLowerCase(),
         destination: accountDetails.stripeAccountId,
         description: `Affiliate commission payout - Request ID: ${payoutRequest._id}`,
         metadata: {
@@ -306,6 +341,7 @@ export class StripeService {
         
         if (payoutResult.success) {
           result.successful.push(payout._id.toString());
+          result.transactionIds = { ...result.transactionIds, [payout._id.toString()]: payoutResult.transactionId! };
         } else {
           result.failed.push({
             payoutId: payout._id.toString(),
@@ -323,35 +359,47 @@ export class StripeService {
     result.totalProcessed = result.successful.length + result.failed.length;
     return result;
   }
+
+  /**
+   * Get a transfer with its balance transaction, for settlement reconciliation
+   */
+  async getTransfer(transferId: string): Promise<any> {
+    const response = await fetch(`${this.apiUrl}/transfers/${encodeURIComponent(transferId)}?expand[]=balance_transaction`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`
+      }
+    });
+
+    const result = await response.json() as any;
+
+    if (!response.ok) {
+      throw new Error(result.error?.message || `Failed to fetch Stripe transfer ${transferId}`);
+    }
+
+    return result;
+  }
 }
 
-// Bank transfer service (placeholder - would integrate with banking APIs)
+// Bank transfers are paid through NACHA/SEPA payout batches (see PayoutBatchService)
+export const BANK_TRANSFER_BATCH_REQUIRED = 'Bank transfer payouts are paid through NACHA/SEPA payout batches';
+
 export class BankTransferService {
   async processPayout(payoutRequest: any, paymentMethod: any): Promise<PaymentGatewayResult> {
-    // This would integrate with banking APIs like ACH, wire transfer services
-    // For now, return a mock success response
     return {
-      success: true,
-      transactionId: `bank_${Date.now()}_${payoutRequest._id}`,
-      gatewayResponse: {
-        message: 'Bank transfer initiated - processing may take 1-3 business days'
-      }
+      success: false,
+      error: BANK_TRANSFER_BATCH_REQUIRED
     };
   }
 
   async processBulkPayouts(payoutRequests: any[]): Promise<BulkPayoutResult> {
-    const result: BulkPayoutResult = {
+    return {
       successful: [],
-      failed: [],
+      failed: payoutRequests.map(payout => ({
+        payoutId: payout._id.toString(),
+        error: BANK_TRANSFER_BATCH_REQUIRED
+      })),
       totalProcessed: payoutRequests.length
     };
-
-    // Mock bulk bank transfer processing
-    for (const payout of payoutRequests) {
-      result.successful.push(payout._id.toString());
-    }
-
-    return result;
   }
 }
 
@@ -365,13 +413,34 @@ export class PaymentService {
         return new StripeService();
       case 'bank_transfer':
         return new BankTransferService();
+      case 'bitcoin':
+      case 'ethereum':
+      case 'usdc':
+      case 'usdt':
+        return new CryptoPayoutService();
       default:
         throw new Error(`Unsupported payment method: ${methodType}`);
     }
   }
 
+  static getGateway(methodType: string): PayoutGateway {
+    return isCryptoMethod(methodType) ? 'crypto' : methodType as PayoutGateway;
+  }
+
+  /**
+   * Currency a payout to this payment method is sent in. Wallet payouts are quoted in US dollars;
+   * other methods use the account's currency, falling back to the payout's own currency.
+   */
+  static getPayoutCurrency(paymentMethod: any, payoutRequest: any): string {
+    if (isCryptoMethod(paymentMethod.methodType)) {
+      return 'USD';
+    }
+    const accountDetails = paymentMethod.decryptAccountDetails();
+    return (accountDetails?.currency || payoutRequest.currency || getBaseCurrency()).toUpperCase();
+  }
+
   static async processPayout(payoutRequest: any): Promise<PaymentGatewayResult> {
-    const paymentMethod = await PaymentMethod.findById(payoutRequest.paymentMethodId);
+    const paymentMethod = await PaymentMethod.findById(payoutRequest.paymentMethodId).select('+encryptedAccountDetails');
     
     if (!paymentMethod) {
       return {
@@ -380,17 +449,43 @@ export class PaymentService {
       };
     }
 
+    // Gateways send the net amount, so withholding has to be settled first
+    await TaxService.applyWithholding(payoutRequest);
+
+    try {
+      await CurrencyService.convertPayout(payoutRequest, this.getPayoutCurrency(paymentMethod, payoutRequest));
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Currency conversion failed'
+      };
+    }
+
     const service = this.getService(paymentMethod.methodType);
-    return await service.processPayout(payoutRequest, paymentMethod);
+    const result = await service.processPayout(payoutRequest, paymentMethod);
+    return { ...result, gateway: this.getGateway(paymentMethod.methodType) };
   }
 
   static async processBulkPayouts(payoutRequests: any[]): Promise<BulkPayoutResult> {
     // Group payouts by payment method type
     const groupedPayouts = new Map<string, any[]>();
+    const conversionFailures: BulkPayoutResult['failed'] = [];
     
     for (const payout of payoutRequests) {
-      const paymentMethod = await PaymentMethod.findById(payout.paymentMethodId);
+      const paymentMethod = await PaymentMethod.findById(payout.paymentMethodId).select('+encryptedAccountDetails');
       if (!paymentMethod) continue;
+
+      await TaxService.applyWithholding(payout);
+
+      try {
+        await CurrencyService.convertPayout(payout, this.getPayoutCurrency(paymentMethod, payout));
+      } catch (error: any) {
+        conversionFailures.push({
+          payoutId: payout._id.toString(),
+          error: error.message || 'Currency conversion failed'
+        });
+        continue;
+      }
       
       const methodType = paymentMethod.methodType;
       if (!groupedPayouts.has(methodType)) {
@@ -401,8 +496,10 @@ export class PaymentService {
 
     const combinedResult: BulkPayoutResult = {
       successful: [],
-      failed: [],
-      totalProcessed: 0
+      failed: [...conversionFailures],
+      totalProcessed: conversionFailures.length,
+      transactionIds: {},
+      gateways: {}
     };
 
     // Process each group with appropriate service
@@ -414,6 +511,10 @@ export class PaymentService {
         combinedResult.successful.push(...result.successful);
         combinedResult.failed.push(...result.failed);
         combinedResult.totalProcessed += result.totalProcessed;
+        Object.assign(combinedResult.transactionIds!, result.transactionIds);
+        for (const payoutId of result.successful) {
+          combinedResult.gateways![payoutId] = this.getGateway(methodType);
+        }
       } catch (error) {
         // Mark all payouts in this group as failed
         for (const payout of payouts) {
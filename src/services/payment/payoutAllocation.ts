@@ -0,0 +1,211 @@
+import { PayoutAllocation, IPayoutAllocation } from '../../models/PayoutAllocation';
+import { PayoutRequest, IPayoutRequest } from '../../models/PayoutRequest';
+import { Commission, ICommission } from '../../models/Commission';
+import { LedgerService, commissionValueCents } from '../ledger';
+import { logger } from '../../utils/logger';
+
+export const INSUFFICIENT_COMMISSIONS = 'Insufficient unallocated commissions for this payout';
+
+export interface PayoutBreakdown {
+  payoutId: string;
+  amount: number;
+  allocatedAmount: number;
+  allocations: IPayoutAllocation[];
+}
+
+const ACTIVE_STATUSES = ['reserved', 'paid'];
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export class PayoutAllocationService {
+  /**
+   * Reserve approved commissions to cover a payout, oldest first. A commission can be split across
+   * payouts; its unreserved remainder stays available for the next one. Reserving again while the
+   * payout already holds allocations is a no-op.
+   */
+  static async reserveCommissions(
+    payout: IPayoutRequest,
+    options: { allowPartial?: boolean } = {}
+  ): Promise<IPayoutAllocation[]> {
+    const payoutId = payout._id.toString();
+    const existing = await PayoutAllocation.find({ payoutId, status: { $in: ACTIVE_STATUSES } });
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    const commissions = await Commission.find({ marketerId: payout.marketerId, status: 'approved' })
+      .sort({ eligibleForPayoutDate: 1, conversionDate: 1, _id: 1 });
+    const [valueCents, allocatedCents] = await Promise.all([
+      this.getCommissionCents(commissions),
+      this.getAllocatedCents(commissions.map(commission => commission._id.toString()))
+    ]);
+
+    let remainingCents = toCents(payout.amount);
+    const allocations: Array<Pick<IPayoutAllocation, 'payoutId' | 'commissionId' | 'marketerId' | 'amount'>> = [];
+    for (const commission of commissions) {
+      if (remainingCents <= 0) break;
+
+      const commissionId = commission._id.toString();
+      const freeCents = valueCents.get(commissionId)! - (allocatedCents.get(commissionId) || 0);
+      if (freeCents <= 0) continue;
+
+      const cents = Math.min(freeCents, remainingCents);
+      allocations.push({
+        payoutId,
+        commissionId,
+        marketerId: payout.marketerId.toString(),
+        amount: cents / 100
+      });
+      remainingCents -= cents;
+    }
+
+    if (remainingCents > 0 && !options.allowPartial) {
+      throw new Error(INSUFFICIENT_COMMISSIONS);
+    }
+
+    const created = allocations.length > 0 ? await PayoutAllocation.insertMany(allocations) : [];
+
+    // A concurrent reservation may have claimed the same commissions; back out if any is now over-allocated
+    const afterCents = await this.getAllocatedCents(created.map(allocation => allocation.commissionId));
+    const overAllocated = commissions.some(commission =>
+      afterCents.has(commission._id.toString()) &&
+      afterCents.get(commission._id.toString())! > valueCents.get(commission._id.toString())!
+    );
+    if (overAllocated) {
+      await PayoutAllocation.deleteMany({ _id: { $in: created.map(allocation => allocation._id) } });
+      throw new Error(INSUFFICIENT_COMMISSIONS);
+    }
+
+    const allocatedAmount = (toCents(payout.amount) - Math.max(remainingCents, 0)) / 100;
+    await PayoutRequest.updateOne({ _id: payout._id }, { $set: { allocatedAmount } });
+    payout.allocatedAmount = allocatedAmount;
+
+    return created as IPayoutAllocation[];
+  }
+
+  /**
+   * Mark a completed payout's reserved allocations as paid, and each commission whose full amount
+   * has now been paid out as paid. Payouts created before allocations existed fall back to marking
+   * the marketer's unreserved approved commissions as paid.
+   */
+  static async markPaid(payout: IPayoutRequest): Promise<number> {
+    const payoutId = payout._id.toString();
+
+    if (payout.allocatedAmount === undefined) {
+      const reservedIds = await PayoutAllocation.distinct('commissionId', {
+        marketerId: payout.marketerId.toString(),
+        status: 'reserved'
+      });
+      const result = await Commission.updateMany(
+        { marketerId: payout.marketerId, status: 'approved', _id: { $nin: reservedIds } },
+        { $set: { status: 'paid' } }
+      );
+      return result.modifiedCount;
+    }
+
+    let allocations: IPayoutAllocation[] = await PayoutAllocation.find({ payoutId, status: 'reserved' });
+    if (allocations.length === 0 && !(await PayoutAllocation.exists({ payoutId, status: 'paid' }))) {
+      // Released by an earlier failure; the payout went through after all, so claim what is still available
+      allocations = await this.reserveCommissions(payout, { allowPartial: true });
+    }
+    if (allocations.length === 0) {
+      return 0;
+    }
+
+    await PayoutAllocation.updateMany(
+      { _id: { $in: allocations.map(allocation => allocation._id) }, status: 'reserved' },
+      { $set: { status: 'paid', paidAt: new Date() } }
+    );
+
+    const commissionIds = allocations.map(allocation => allocation.commissionId);
+    const paidCents = await this.getAllocatedCents(commissionIds, ['paid']);
+    const commissions = await Commission.find({ _id: { $in: commissionIds }, status: 'approved' });
+    const valueCents = await this.getCommissionCents(commissions);
+    const fullyPaidIds = commissions
+      .filter(commission => (paidCents.get(commission._id.toString()) || 0) >= valueCents.get(commission._id.toString())!)
+      .map(commission => commission._id);
+
+    if (fullyPaidIds.length === 0) {
+      return 0;
+    }
+
+    const result = await Commission.updateMany(
+      { _id: { $in: fullyPaidIds }, status: 'approved' },
+      { $set: { status: 'paid' } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Return a failed, cancelled or returned payout's commissions to the available balance.
+   * Commissions this payout had already marked paid go back to approved.
+   */
+  static async release(payoutId: string, reason: string): Promise<number> {
+    const allocations = await PayoutAllocation.find({ payoutId, status: { $in: ACTIVE_STATUSES } });
+    if (allocations.length === 0) {
+      return 0;
+    }
+
+    await PayoutAllocation.updateMany(
+      { _id: { $in: allocations.map(allocation => allocation._id) } },
+      { $set: { status: 'released', releasedAt: new Date(), releaseReason: reason.slice(0, 500) } }
+    );
+
+    const paidCommissionIds = allocations
+      .filter(allocation => allocation.status === 'paid')
+      .map(allocation => allocation.commissionId);
+    if (paidCommissionIds.length > 0) {
+      await Commission.updateMany(
+        { _id: { $in: paidCommissionIds }, status: 'paid' },
+        { $set: { status: 'approved' } }
+      );
+    }
+
+    logger.info(`Released ${allocations.length} commission allocations from payout ${payoutId}`);
+    return allocations.length;
+  }
+
+  /**
+   * Per-commission breakdown of what a payout covers
+   */
+  static async getBreakdown(payout: IPayoutRequest): Promise<PayoutBreakdown> {
+    const allocations = await PayoutAllocation.find({ payoutId: payout._id.toString() })
+      .populate('commissionId', 'trackingCode productId commissionAmount conversionDate status')
+      .sort({ reservedAt: 1, _id: 1 });
+
+    return {
+      payoutId: payout._id.toString(),
+      amount: payout.amount,
+      allocatedAmount: payout.allocatedAmount ?? 0,
+      allocations
+    };
+  }
+
+  /**
+   * What each commission can be paid out for, valued the same way as in the ledger. Allocations are in
+   * the base currency the payout is requested in.
+   */
+  private static async getCommissionCents(commissions: ICommission[]): Promise<Map<string, number>> {
+    const adjustments = await LedgerService.getAdjustmentTotals(commissions.map(commission => commission._id.toString()));
+    return new Map(commissions.map(commission => [
+      commission._id.toString(),
+      commissionValueCents(commission, adjustments.get(commission._id.toString())?.cents || 0)
+    ]));
+  }
+
+  private static async getAllocatedCents(
+    commissionIds: string[],
+    statuses: string[] = ACTIVE_STATUSES
+  ): Promise<Map<string, number>> {
+    if (commissionIds.length === 0) {
+      return new Map();
+    }
+
+    const totals = await PayoutAllocation.aggregate([
+      { $match: { commissionId: { $in: commissionIds }, status: { $in: statuses } } },
+      { $group: { _id: '$commissionId', total: { $sum: '$amount' } } }
+    ]);
+
+    return new Map(totals.map(total => [total._id, toCents(total.total)]));
+  }
+}
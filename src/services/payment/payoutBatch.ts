@@ -0,0 +1,532 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { PayoutBatch, IPayoutBatch, IPayoutBatchEntry, PayoutBatchFormat, PayoutBatchStatus } from '../../models/PayoutBatch';
+import { PayoutRequest, IPayoutRequest } from '../../models/PayoutRequest';
+import { PaymentMethod } from '../../models/PaymentMethod';
+import { WebhookService } from '../webhook';
+import { PayoutAllocationService } from './payoutAllocation';
+import { LedgerService } from '../ledger';
+import { TaxService } from '../tax';
+import { CurrencyService } from '../currency';
+import { toMinorUnits } from '../../utils/currency';
+import { logger } from '../../utils/logger';
+import {
+  buildNachaFile,
+  buildSepaCreditTransfer,
+  validateNachaFile,
+  isValidRoutingNumber,
+  isSepaIban,
+  isValidBic,
+  normalizeIban,
+  MAX_NACHA_ENTRY_CENTS
+} from './bankFiles';
+
+export interface GenerateBatchOptions {
+  format: PayoutBatchFormat;
+  payoutIds?: string[]; // Defaults to every approved bank transfer payout for the format
+  effectiveDate?: Date;
+  exchangeRate?: number; // File currency per unit of the payout currency; quoted from the rate source when omitted
+  adminId: string;
+}
+
+export interface GenerateBatchResult {
+  batch: IPayoutBatch;
+  skipped: Array<{
+    payoutId: string;
+    reason: string;
+  }>;
+}
+
+export interface BatchFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+// Seven-digit trace sequences are split into batch (4 digits) and entry (3 digits) parts
+const MAX_BATCH_ENTRIES = 999;
+const FILE_ID_MODIFIERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const MAX_SEQUENCE_RETRIES = 3;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const getNachaSettings = () => {
+  const settings = {
+    odfiRouting: process.env.NACHA_ODFI_ROUTING || '',
+    odfiName: process.env.NACHA_ODFI_NAME || '',
+    companyId: process.env.NACHA_COMPANY_ID || '',
+    companyName: process.env.NACHA_COMPANY_NAME || ''
+  };
+
+  if (!isValidRoutingNumber(settings.odfiRouting) || !settings.companyId || !settings.companyName) {
+    throw new Error('NACHA batches require NACHA_ODFI_ROUTING, NACHA_COMPANY_ID and NACHA_COMPANY_NAME to be configured');
+  }
+  return settings;
+};
+
+const getSepaSettings = () => {
+  const settings = {
+    debtorName: process.env.SEPA_DEBTOR_NAME || '',
+    debtorIban: process.env.SEPA_DEBTOR_IBAN || '',
+    debtorBic: process.env.SEPA_DEBTOR_BIC || ''
+  };
+
+  if (!settings.debtorName || !isSepaIban(settings.debtorIban) || !isValidBic(settings.debtorBic)) {
+    throw new Error('SEPA batches require SEPA_DEBTOR_NAME, SEPA_DEBTOR_IBAN and SEPA_DEBTOR_BIC to be configured');
+  }
+  return settings;
+};
+
+/**
+ * Next weekday after the given date, at midnight UTC
+ */
+const nextBusinessDay = (from: Date): Date => {
+  const date = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + 1));
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+};
+
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Why a bank account cannot be paid in a batch of the given format, or null when it can
+ */
+const ineligibilityReason = (format: PayoutBatchFormat, accountDetails: any): string | null => {
+  if (!accountDetails?.accountHolderName) {
+    return 'Account holder name is missing';
+  }
+
+  if (format === 'sepa') {
+    if (!accountDetails.iban) return 'Account has no IBAN';
+    if (!isSepaIban(accountDetails.iban)) return 'IBAN is invalid or outside the SEPA zone';
+    if (accountDetails.bic && !isValidBic(accountDetails.bic)) return 'BIC is invalid';
+    return null;
+  }
+
+  if (accountDetails.iban) return 'IBAN accounts are paid through SEPA batches';
+  if (!isValidRoutingNumber(accountDetails.routingNumber || '')) return 'Routing number is invalid';
+  if (!/^[A-Za-z0-9-]{1,17}$/.test(accountDetails.accountNumber || '')) return 'Account number is invalid';
+  return null;
+};
+
+const isDuplicateKeyError = (error: any) => error?.code === 11000;
+
+export class PayoutBatchService {
+  /**
+   * Collect approved bank transfer payouts into a NACHA or SEPA batch file. Payouts in the batch move to
+   * processing, and the entry reference becomes their transactionId for bank statement reconciliation.
+   */
+  static async generateBatch(options: GenerateBatchOptions): Promise<GenerateBatchResult> {
+    const { format, adminId } = options;
+    const settings = format === 'nacha' ? getNachaSettings() : getSepaSettings();
+
+    const query: any = { status: 'approved', batchId: { $exists: false } };
+    if (options.payoutIds) {
+      query._id = { $in: options.payoutIds };
+    }
+    const candidates = await PayoutRequest.find(query).sort({ approvedAt: 1 }).limit(MAX_BATCH_ENTRIES * 2);
+
+    const skipped: GenerateBatchResult['skipped'] = [];
+    const eligible: Array<{ payout: IPayoutRequest; accountDetails: any }> = [];
+
+    for (const payout of candidates) {
+      const paymentMethod = await PaymentMethod.findById(payout.paymentMethodId).select('+encryptedAccountDetails');
+      if (!paymentMethod || paymentMethod.methodType !== 'bank_transfer') {
+        // Only report payouts the admin asked for explicitly; others simply belong to another gateway
+        if (options.payoutIds) {
+          skipped.push({ payoutId: payout._id.toString(), reason: 'Payout is not a bank transfer' });
+        }
+        continue;
+      }
+
+      const accountDetails = paymentMethod.decryptAccountDetails();
+      const otherFormat = format === 'sepa' ? !accountDetails?.iban : !!accountDetails?.iban;
+      if (otherFormat && !options.payoutIds) {
+        continue;
+      }
+
+      const reason = ineligibilityReason(format, accountDetails);
+      if (reason) {
+        skipped.push({ payoutId: payout._id.toString(), reason });
+        continue;
+      }
+
+      if (eligible.length < MAX_BATCH_ENTRIES) {
+        eligible.push({ payout, accountDetails });
+      } else {
+        skipped.push({ payoutId: payout._id.toString(), reason: `Batch is limited to ${MAX_BATCH_ENTRIES} payouts` });
+      }
+    }
+
+    if (options.payoutIds) {
+      const found = new Set(candidates.map(payout => payout._id.toString()));
+      for (const payoutId of options.payoutIds) {
+        if (!found.has(payoutId)) {
+          skipped.push({ payoutId, reason: 'Payout is not approved or is already in a batch' });
+        }
+      }
+    }
+
+    if (eligible.length === 0) {
+      throw new Error(`No eligible bank transfer payouts for a ${format.toUpperCase()} batch`);
+    }
+
+    // Claim the payouts so a concurrent batch cannot include them too
+    const batchId = new mongoose.Types.ObjectId().toString();
+    const claimed: typeof eligible = [];
+    for (const item of eligible) {
+      const result = await PayoutRequest.updateOne(
+        { _id: item.payout._id, status: 'approved', batchId: { $exists: false } },
+        { $set: { batchId } }
+      );
+      if (result.modifiedCount === 1) {
+        claimed.push(item);
+      } else {
+        skipped.push({ payoutId: item.payout._id.toString(), reason: 'Payout was claimed by another batch' });
+      }
+    }
+
+    try {
+      if (claimed.length === 0) {
+        throw new Error(`No eligible bank transfer payouts for a ${format.toUpperCase()} batch`);
+      }
+
+      // Entries carry the net amount in the file currency, so withholding and conversion have to be settled first
+      for (const item of claimed) {
+        await TaxService.applyWithholding(item.payout);
+        await CurrencyService.convertPayout(item.payout, format === 'nacha' ? 'USD' : 'EUR', options.exchangeRate);
+      }
+
+      const batch = await this.createBatchRecord(batchId, claimed, options, settings);
+
+      const processedAt = new Date();
+      for (const entry of batch.entries) {
+        await PayoutRequest.updateOne(
+          { _id: entry.payoutId },
+          {
+            $set: {
+              status: 'processing',
+              processedAt,
+              adminId,
+              gateway: 'bank_transfer',
+              transactionId: entry.reference
+            }
+          }
+        );
+      }
+
+      logger.info(`Generated ${format.toUpperCase()} payout batch ${batch.batchNumber} with ${batch.entryCount} payouts`);
+      return { batch, skipped };
+    } catch (error) {
+      await PayoutRequest.updateMany({ batchId, status: 'approved' }, { $unset: { batchId: 1 } });
+      logger.error('Error generating payout batch:', error);
+      throw error;
+    }
+  }
+
+  static async listBatches(filters: {
+    status?: PayoutBatchStatus;
+    format?: PayoutBatchFormat;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{ batches: IPayoutBatch[]; total: number }> {
+    const { page = 1, limit = 20 } = filters;
+    const query: any = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.format) query.format = filters.format;
+
+    const [batches, total] = await Promise.all([
+      PayoutBatch.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PayoutBatch.countDocuments(query)
+    ]);
+
+    return { batches, total };
+  }
+
+  static async getBatch(batchId: string): Promise<IPayoutBatch> {
+    const batch = mongoose.Types.ObjectId.isValid(batchId) ? await PayoutBatch.findById(batchId) : null;
+    if (!batch) {
+      throw new Error('Payout batch not found');
+    }
+    return batch;
+  }
+
+  /**
+   * Load a batch file for download, verifying it has not changed since it was generated
+   */
+  static async getBatchFile(batchId: string): Promise<BatchFile> {
+    const batch = mongoose.Types.ObjectId.isValid(batchId)
+      ? await PayoutBatch.findById(batchId).select('+fileContent')
+      : null;
+    if (!batch) {
+      throw new Error('Payout batch not found');
+    }
+
+    const checksum = crypto.createHash('sha256').update(batch.fileContent).digest('hex');
+    if (checksum !== batch.checksum) {
+      logger.error(`Payout batch ${batch.batchNumber} failed its checksum verification`);
+      throw new Error('Batch file failed its integrity check');
+    }
+
+    return {
+      fileName: batch.fileName,
+      contentType: batch.format === 'nacha' ? 'text/plain' : 'application/xml',
+      content: batch.fileContent
+    };
+  }
+
+  /**
+   * Mark a batch as uploaded to the bank. Its payouts are completed and await settlement.
+   */
+  static async submitBatch(batchId: string, adminId: string): Promise<IPayoutBatch> {
+    const batch = await this.transition(batchId, 'generated', 'submitted', {
+      submittedAt: new Date(),
+      submittedBy: adminId
+    });
+
+    const completedAt = batch.submittedAt!;
+    await PayoutRequest.updateMany(
+      { batchId: batch._id.toString(), status: 'processing' },
+      { $set: { status: 'completed', completedAt, settlementStatus: 'pending' } }
+    );
+
+    const payouts = await PayoutRequest.find({ batchId: batch._id.toString(), status: 'completed' });
+    for (const payout of payouts) {
+      await PayoutAllocationService.markPaid(payout);
+      await LedgerService.recordPayouts([payout._id]);
+      await WebhookService.publishPayoutCompleted(payout);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Mark a submitted batch as settled by the bank
+   */
+  static async settleBatch(batchId: string, adminId: string): Promise<IPayoutBatch> {
+    const batch = await this.transition(batchId, 'submitted', 'settled', {
+      settledAt: new Date(),
+      settledBy: adminId
+    });
+
+    // Payouts already returned through reconciliation keep their status
+    await PayoutRequest.updateMany(
+      { batchId: batch._id.toString(), status: 'completed', settlementStatus: 'pending' },
+      { $set: { settlementStatus: 'settled', settledAt: batch.settledAt } }
+    );
+
+    return batch;
+  }
+
+  /**
+   * Record that the bank rejected a submitted batch. Its payouts fail and can be retried.
+   */
+  static async rejectBatch(batchId: string, adminId: string, reason: string): Promise<IPayoutBatch> {
+    const batch = await this.transition(batchId, 'submitted', 'rejected', {
+      rejectedAt: new Date(),
+      rejectedBy: adminId,
+      rejectionReason: reason
+    });
+
+    const payouts = await PayoutRequest.find({ batchId: batch._id.toString(), status: 'completed' });
+    for (const payout of payouts) {
+      payout.status = 'failed';
+      payout.settlementStatus = 'failed';
+      payout.failureReason = `Bank rejected batch ${batch.batchNumber}: ${reason}`.slice(0, 500);
+      await payout.save();
+      await PayoutAllocationService.release(payout._id.toString(), payout.failureReason);
+      await LedgerService.recordPayouts([payout._id]);
+      await WebhookService.publishPayoutReturned(payout);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Discard a batch that has not been submitted. Its payouts return to approved for the next batch.
+   */
+  static async cancelBatch(batchId: string, adminId: string): Promise<IPayoutBatch> {
+    const batch = await this.transition(batchId, 'generated', 'cancelled', {
+      cancelledAt: new Date(),
+      cancelledBy: adminId
+    });
+
+    await PayoutRequest.updateMany(
+      { batchId: batch._id.toString(), status: 'processing' },
+      {
+        $set: { status: 'approved' },
+        $unset: { batchId: 1, transactionId: 1, gateway: 1, processedAt: 1 }
+      }
+    );
+
+    return batch;
+  }
+
+  private static async transition(
+    batchId: string,
+    from: PayoutBatchStatus,
+    to: PayoutBatchStatus,
+    fields: Partial<IPayoutBatch>
+  ): Promise<IPayoutBatch> {
+    const current = await this.getBatch(batchId);
+
+    const batch = await PayoutBatch.findOneAndUpdate(
+      { _id: current._id, status: from },
+      { $set: { status: to, ...fields } },
+      { new: true }
+    );
+
+    if (!batch) {
+      throw new Error(`Cannot mark a ${current.status} batch as ${to}`);
+    }
+    return batch;
+  }
+
+  private static async createBatchRecord(
+    batchId: string,
+    items: Array<{ payout: IPayoutRequest; accountDetails: any }>,
+    options: GenerateBatchOptions,
+    settings: any
+  ): Promise<IPayoutBatch> {
+    const now = new Date();
+    const effectiveDate = startOfUtcDay(options.effectiveDate || nextBusinessDay(now));
+
+    for (let attempt = 1; ; attempt++) {
+      const last = await PayoutBatch.findOne().sort({ sequence: -1 }).select('sequence');
+      const sequence = (last?.sequence || 0) + 1;
+      const batchNumber = `${options.format.toUpperCase()}-${String(sequence).padStart(6, '0')}`;
+
+      const file = options.format === 'nacha'
+        ? await this.buildNacha(items, settings, sequence, batchNumber, effectiveDate, now)
+        : this.buildSepa(items, settings, batchNumber, effectiveDate, now);
+      const exchangeRate = items[0].payout.fxConversion?.rate;
+
+      try {
+        return await PayoutBatch.create({
+          _id: batchId,
+          batchNumber,
+          sequence,
+          format: options.format,
+          entries: file.entries,
+          entryCount: file.entries.length,
+          totalAmount: round2(items.reduce((total, item) => total + (item.payout.netAmount ?? item.payout.amount), 0)),
+          fileAmount: round2(file.entries.reduce((total, entry) => total + entry.amount, 0)),
+          currency: options.format === 'nacha' ? 'USD' : 'EUR',
+          exchangeRate: exchangeRate !== 1 ? exchangeRate : undefined,
+          effectiveDate,
+          fileName: file.fileName,
+          fileContent: file.content,
+          checksum: crypto.createHash('sha256').update(file.content).digest('hex'),
+          controlTotal: file.controlTotal,
+          createdBy: options.adminId
+        });
+      } catch (error) {
+        // Another batch took this sequence number; build the file again with the next one
+        if (!isDuplicateKeyError(error) || attempt >= MAX_SEQUENCE_RETRIES) throw error;
+      }
+    }
+  }
+
+  private static async buildNacha(
+    items: Array<{ payout: IPayoutRequest; accountDetails: any }>,
+    settings: ReturnType<typeof getNachaSettings>,
+    sequence: number,
+    batchNumber: string,
+    effectiveDate: Date,
+    now: Date
+  ) {
+    const filesToday = await PayoutBatch.countDocuments({ format: 'nacha', createdAt: { $gte: startOfUtcDay(now) } });
+
+    const entries = items.map(({ payout, accountDetails }) => {
+      const amountCents = toMinorUnits(CurrencyService.getPayoutAmount(payout).amount, 'USD');
+      if (amountCents > MAX_NACHA_ENTRY_CENTS) {
+        throw new Error(`Payout ${payout._id} exceeds the NACHA entry limit`);
+      }
+      return {
+        routingNumber: accountDetails.routingNumber,
+        accountNumber: accountDetails.accountNumber,
+        accountType: accountDetails.accountType === 'savings' ? 'savings' as const : 'checking' as const,
+        amountCents,
+        name: accountDetails.accountHolderName,
+        individualId: payout._id.toString().slice(-15)
+      };
+    });
+
+    const file = buildNachaFile({
+      immediateDestination: settings.odfiRouting,
+      immediateDestinationName: settings.odfiName,
+      immediateOrigin: settings.companyId,
+      immediateOriginName: settings.companyName,
+      companyName: settings.companyName,
+      companyId: settings.companyId,
+      entryDescription: 'PAYOUT',
+      secCode: 'PPD',
+      effectiveDate,
+      fileIdModifier: FILE_ID_MODIFIERS[filesToday % FILE_ID_MODIFIERS.length],
+      batchNumber: sequence % 10000000,
+      firstTraceSequence: (sequence % 10000) * 1000 + 1,
+      createdAt: now
+    }, entries);
+
+    const errors = validateNachaFile(file.content);
+    if (errors.length > 0) {
+      throw new Error(`Generated NACHA file is invalid: ${errors.join('; ')}`);
+    }
+
+    return {
+      fileName: `${batchNumber}.ach`,
+      content: file.content,
+      controlTotal: file.entryHash,
+      entries: items.map(({ payout, accountDetails }, index): IPayoutBatchEntry => ({
+        payoutId: payout._id.toString(),
+        reference: file.traceNumbers[index],
+        amount: entries[index].amountCents / 100,
+        accountHolderName: accountDetails.accountHolderName
+      }))
+    };
+  }
+
+  private static buildSepa(
+    items: Array<{ payout: IPayoutRequest; accountDetails: any }>,
+    settings: ReturnType<typeof getSepaSettings>,
+    batchNumber: string,
+    effectiveDate: Date,
+    now: Date
+  ) {
+    const transfers = items.map(({ payout, accountDetails }) => ({
+      endToEndId: payout._id.toString(),
+      amount: CurrencyService.getPayoutAmount(payout).amount,
+      name: accountDetails.accountHolderName,
+      iban: normalizeIban(accountDetails.iban),
+      bic: accountDetails.bic,
+      remittanceInformation: `Affiliate commission payout ${payout._id}`
+    }));
+
+    const file = buildSepaCreditTransfer({
+      messageId: batchNumber,
+      initiatingPartyName: settings.debtorName,
+      debtorName: settings.debtorName,
+      debtorIban: settings.debtorIban,
+      debtorBic: settings.debtorBic,
+      requestedExecutionDate: effectiveDate,
+      createdAt: now
+    }, transfers);
+
+    return {
+      fileName: `${batchNumber}.xml`,
+      content: file.content,
+      controlTotal: file.controlSum,
+      entries: items.map(({ payout, accountDetails }, index): IPayoutBatchEntry => ({
+        payoutId: payout._id.toString(),
+        reference: transfers[index].endToEndId,
+        amount: transfers[index].amount,
+        accountHolderName: accountDetails.accountHolderName
+      }))
+    };
+  }
+}
@@ -0,0 +1,272 @@
+import mongoose from 'mongoose';
+import { PayoutSchedule, IPayoutSchedule, IPayoutScheduleRun, PayoutCadence } from '../../models/PayoutSchedule';
+import { PayoutRequest } from '../../models/PayoutRequest';
+import { PaymentMethod } from '../../models/PaymentMethod';
+import { User } from '../../models/User';
+import { UserProfile } from '../../models/UserProfile';
+import { CommissionService } from '../commission';
+import { NotificationService } from '../notification';
+import { PayoutAllocationService } from './payoutAllocation';
+import { LedgerService } from '../ledger';
+import { logger } from '../../utils/logger';
+
+export interface PayoutScheduleInput {
+  paymentMethodId: string;
+  cadence: PayoutCadence;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  threshold: number;
+  enabled?: boolean;
+}
+
+export interface PayoutScheduleRunSummary {
+  due: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  errors: Array<{ scheduleId: string; error: string }>;
+}
+
+// Same limits as manual payout requests
+const MIN_WITHDRAWAL_AMOUNT = parseFloat(process.env.MIN_WITHDRAWAL_AMOUNT || '50');
+const MAX_WITHDRAWAL_AMOUNT = parseFloat(process.env.MAX_WITHDRAWAL_AMOUNT || '10000');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_PAYOUT_STATUSES = ['requested', 'approved', 'processing'];
+
+const floorCents = (value: number) => Math.floor(value * 100 + 1e-6) / 100;
+
+/**
+ * Midnight UTC of the next scheduled day strictly after `from`
+ */
+export const computeNextRunAt = (
+  schedule: Pick<IPayoutSchedule, 'cadence' | 'dayOfWeek' | 'dayOfMonth'>,
+  from: Date
+): Date => {
+  if (schedule.cadence === 'weekly') {
+    const dayOfWeek = schedule.dayOfWeek ?? 1;
+    const startOfDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+    const candidate = new Date(startOfDay + ((dayOfWeek - from.getUTCDay() + 7) % 7) * DAY_MS);
+    return candidate > from ? candidate : new Date(candidate.getTime() + 7 * DAY_MS);
+  }
+
+  const dayOfMonth = schedule.dayOfMonth ?? 1;
+  const candidate = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), dayOfMonth));
+  return candidate > from
+    ? candidate
+    : new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, dayOfMonth));
+};
+
+const isHoldActive = (schedule: IPayoutSchedule, now: Date) =>
+  !!schedule.hold && (!schedule.hold.until || schedule.hold.until > now);
+
+export class PayoutScheduleService {
+  static async getSchedule(marketerId: string): Promise<IPayoutSchedule | null> {
+    return PayoutSchedule.findOne({ marketerId });
+  }
+
+  /**
+   * Create or replace a marketer's automatic payout settings. The next run is recalculated from now.
+   */
+  static async upsertSchedule(marketerId: string, input: PayoutScheduleInput): Promise<IPayoutSchedule> {
+    if (input.threshold < MIN_WITHDRAWAL_AMOUNT || input.threshold > MAX_WITHDRAWAL_AMOUNT) {
+      throw new Error(`Threshold must be between $${MIN_WITHDRAWAL_AMOUNT} and $${MAX_WITHDRAWAL_AMOUNT}`);
+    }
+
+    const paymentMethod = mongoose.Types.ObjectId.isValid(input.paymentMethodId)
+      ? await PaymentMethod.findOne({ _id: input.paymentMethodId, userId: marketerId })
+      : null;
+    if (!paymentMethod) {
+      throw new Error('Payment method not found');
+    }
+
+    const schedule = await PayoutSchedule.findOne({ marketerId }) || new PayoutSchedule({ marketerId });
+    schedule.set({
+      paymentMethodId: input.paymentMethodId,
+      cadence: input.cadence,
+      dayOfWeek: input.cadence === 'weekly' ? input.dayOfWeek ?? 1 : undefined,
+      dayOfMonth: input.cadence === 'monthly' ? input.dayOfMonth ?? 1 : undefined,
+      threshold: input.threshold,
+      enabled: input.enabled ?? true
+    });
+    schedule.nextRunAt = schedule.enabled ? computeNextRunAt(schedule, new Date()) : undefined;
+
+    return schedule.save();
+  }
+
+  static async disableSchedule(marketerId: string): Promise<IPayoutSchedule> {
+    const schedule = await PayoutSchedule.findOneAndUpdate(
+      { marketerId },
+      { $set: { enabled: false }, $unset: { nextRunAt: 1 } },
+      { new: true }
+    );
+    if (!schedule) {
+      throw new Error('Payout schedule not found');
+    }
+    return schedule;
+  }
+
+  static async listSchedules(filters: {
+    enabled?: boolean;
+    onHold?: boolean;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{ schedules: IPayoutSchedule[]; total: number }> {
+    const { page = 1, limit = 20 } = filters;
+    const query: any = {};
+    if (filters.enabled !== undefined) query.enabled = filters.enabled;
+    if (filters.onHold !== undefined) query.hold = { $exists: filters.onHold };
+
+    const [schedules, total] = await Promise.all([
+      PayoutSchedule.find(query)
+        .populate('marketerId', 'email firstName lastName')
+        .sort({ nextRunAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PayoutSchedule.countDocuments(query)
+    ]);
+
+    return { schedules, total };
+  }
+
+  /**
+   * Pause a marketer's automatic payouts, optionally until a given date
+   */
+  static async placeHold(marketerId: string, adminId: string, reason: string, until?: Date): Promise<IPayoutSchedule> {
+    const schedule = await PayoutSchedule.findOneAndUpdate(
+      { marketerId },
+      { $set: { hold: { reason, placedBy: adminId, placedAt: new Date(), until } } },
+      { new: true }
+    );
+    if (!schedule) {
+      throw new Error('Payout schedule not found');
+    }
+    return schedule;
+  }
+
+  static async releaseHold(marketerId: string): Promise<IPayoutSchedule> {
+    const schedule = await PayoutSchedule.findOneAndUpdate(
+      { marketerId, hold: { $exists: true } },
+      { $unset: { hold: 1 } },
+      { new: true }
+    );
+    if (!schedule) {
+      throw new Error('No payout hold found for this marketer');
+    }
+    return schedule;
+  }
+
+  /**
+   * Run every enabled schedule whose next run has arrived. Each schedule is claimed by moving its
+   * nextRunAt forward first, so overlapping runs never create two payouts for the same period.
+   */
+  static async processDueSchedules(now: Date = new Date(), limit: number = 500): Promise<PayoutScheduleRunSummary> {
+    const summary: PayoutScheduleRunSummary = { due: 0, created: 0, skipped: 0, failed: 0, errors: [] };
+
+    const schedules = await PayoutSchedule.find({ enabled: true, nextRunAt: { $lte: now } })
+      .sort({ nextRunAt: 1 })
+      .limit(limit);
+
+    for (const schedule of schedules) {
+      const claimed = await PayoutSchedule.findOneAndUpdate(
+        { _id: schedule._id, enabled: true, nextRunAt: schedule.nextRunAt },
+        { $set: { nextRunAt: computeNextRunAt(schedule, now) } },
+        { new: true }
+      );
+      if (!claimed) continue;
+      summary.due++;
+
+      let run: IPayoutScheduleRun;
+      try {
+        run = await this.runSchedule(claimed, now);
+      } catch (error: any) {
+        logger.error(`Error running payout schedule ${claimed._id}:`, error);
+        summary.errors.push({ scheduleId: claimed._id.toString(), error: error.message });
+        run = { runAt: now, outcome: 'failed', reason: error.message };
+      }
+
+      summary[run.outcome]++;
+      await PayoutSchedule.updateOne({ _id: claimed._id }, { $set: { lastRun: run } });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Decide whether a schedule should pay out now and create the payout request if so.
+   * Holds, inactive accounts and balances under the threshold are skipped quietly; problems the
+   * marketer can fix (KYC, a missing payment method) are skipped with a notification.
+   */
+  private static async runSchedule(schedule: IPayoutSchedule, now: Date): Promise<IPayoutScheduleRun> {
+    const skip = (reason: string): IPayoutScheduleRun => ({ runAt: now, outcome: 'skipped', reason });
+
+    if (isHoldActive(schedule, now)) {
+      return skip(`Payouts are on hold: ${schedule.hold!.reason}`);
+    }
+
+    const marketer = await User.findById(schedule.marketerId);
+    if (!marketer || marketer.status !== 'active') {
+      return skip('Marketer account is not active');
+    }
+
+    const openPayout = await PayoutRequest.exists({
+      marketerId: schedule.marketerId,
+      status: { $in: OPEN_PAYOUT_STATUSES }
+    });
+    if (openPayout) {
+      return skip('A payout request is already pending');
+    }
+
+    const balance = await CommissionService.getAvailableBalance(schedule.marketerId);
+    if (balance < schedule.threshold) {
+      return skip(`Available balance $${balance.toFixed(2)} is below the $${schedule.threshold.toFixed(2)} threshold`);
+    }
+
+    const amount = floorCents(Math.min(balance, MAX_WITHDRAWAL_AMOUNT));
+    const notify = (outcome: 'created' | 'blocked', reason?: string) =>
+      NotificationService.sendAutomaticPayoutNotification({
+        marketerEmail: marketer.email,
+        marketerName: `${marketer.firstName} ${marketer.lastName}`,
+        outcome,
+        amount,
+        reason
+      });
+
+    const profile = await UserProfile.findOne({ userId: schedule.marketerId }).select('kycStatus');
+    if (!marketer.kycCompleted && profile?.kycStatus !== 'approved') {
+      const reason = 'Identity verification (KYC) must be approved before automatic payouts can be made';
+      await notify('blocked', reason);
+      return skip(reason);
+    }
+
+    const paymentMethod = mongoose.Types.ObjectId.isValid(schedule.paymentMethodId)
+      ? await PaymentMethod.findOne({ _id: schedule.paymentMethodId, userId: schedule.marketerId })
+      : null;
+    if (!paymentMethod) {
+      const reason = 'The payment method chosen for automatic payouts no longer exists';
+      await notify('blocked', reason);
+      return skip(reason);
+    }
+
+    const payoutRequest = await PayoutRequest.create({
+      marketerId: schedule.marketerId,
+      paymentMethodId: schedule.paymentMethodId,
+      amount,
+      source: 'automatic'
+    });
+
+    try {
+      await PayoutAllocationService.reserveCommissions(payoutRequest, { allowPartial: true });
+    } catch (error) {
+      await PayoutRequest.deleteOne({ _id: payoutRequest._id });
+      throw error;
+    }
+    await LedgerService.recordPayouts([payoutRequest._id]);
+
+    logger.info(`Created automatic payout ${payoutRequest._id} of $${amount.toFixed(2)} for marketer ${schedule.marketerId}`);
+    await notify('created');
+
+    return { runAt: now, outcome: 'created', amount, payoutRequestId: payoutRequest._id.toString() };
+  }
+}
@@ -0,0 +1,730 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { PayoutRequest, IPayoutRequest } from '../../models/PayoutRequest';
+import { PaymentMethod } from '../../models/PaymentMethod';
+import {
+  SettlementRecord,
+  ISettlementRecord,
+  ISettlementDiscrepancy,
+  SettlementSource,
+  SettlementStatus
+} from '../../models/SettlementRecord';
+import { PayPalService, StripeService } from './index';
+import { WebhookService } from '../webhook';
+import { PayoutAllocationService } from './payoutAllocation';
+import { LedgerService } from '../ledger';
+import { CurrencyService } from '../currency';
+import { logger } from '../../utils/logger';
+import { fromMinorUnits } from '../../utils/currency';
+
+export interface SettlementEntry {
+  source: SettlementSource;
+  externalId: string;
+  transactionId?: string;
+  payoutId?: string; // Set when the gateway echoes our payout ID (PayPal sender_item_id)
+  gatewayStatus: string;
+  settlementStatus: SettlementStatus;
+  amount: number;
+  currency: string;
+  occurredAt?: Date;
+}
+
+export interface ReconciliationSummary {
+  processed: number;
+  settled: number;
+  returned: number;
+  failed: number;
+  pending: number;
+  unmatched: number;
+  discrepancies: number;
+  errors: Array<{
+    reference: string;
+    error: string;
+  }>;
+}
+
+export interface DiscrepancyReport {
+  summary: {
+    amountMismatches: number;
+    statusMismatches: number;
+    unmatchedTransactions: number;
+    overdueSettlements: number;
+  };
+  discrepancies: ISettlementRecord[];
+  overdueSettlements: IPayoutRequest[];
+  generatedAt: Date;
+}
+
+// Assumed when a settlement source does not report a currency
+const PAYOUT_CURRENCY = 'USD';
+const AMOUNT_TOLERANCE = 0.005;
+// Gateway payouts still unconfirmed after this many days are reported as overdue
+const SETTLEMENT_OVERDUE_DAYS = parseInt(process.env.SETTLEMENT_OVERDUE_DAYS || '7');
+const MAX_REPORT_ITEMS = 500;
+
+// Payouts the gateway can legitimately report on
+const SENT_STATUSES = ['processing', 'completed', 'failed'];
+
+// PayPal payout item transaction_status values
+const PAYPAL_STATUSES: { [status: string]: SettlementStatus } = {
+  SUCCESS: 'settled',
+  NEW: 'pending',
+  PENDING: 'pending',
+  ONHOLD: 'pending',
+  UNCLAIMED: 'pending', // Returned automatically if not claimed within 30 days
+  RETURNED: 'returned',
+  REFUNDED: 'returned',
+  REVERSED: 'returned',
+  FAILED: 'failed',
+  DENIED: 'failed',
+  BLOCKED: 'failed'
+};
+
+// Stripe balance transaction types for transfers
+const STRIPE_BALANCE_TYPES: { [type: string]: SettlementStatus } = {
+  transfer: 'settled',
+  transfer_refund: 'returned',
+  transfer_cancel: 'failed',
+  transfer_failure: 'failed'
+};
+
+const BANK_STATUSES: { [status: string]: SettlementStatus } = {
+  settled: 'settled',
+  completed: 'settled',
+  paid: 'settled',
+  posted: 'settled',
+  booked: 'settled',
+  cleared: 'settled',
+  success: 'settled',
+  pending: 'pending',
+  processing: 'pending',
+  scheduled: 'pending',
+  returned: 'returned',
+  reversed: 'returned',
+  refunded: 'returned',
+  failed: 'failed',
+  rejected: 'failed',
+  declined: 'failed',
+  cancelled: 'failed',
+  canceled: 'failed'
+};
+
+// Accepted bank statement headers, compared lowercase without punctuation
+const BANK_COLUMNS: { [field: string]: string[] } = {
+  reference: ['reference', 'paymentreference', 'customerreference', 'transactionreference', 'endtoendid'],
+  amount: ['amount', 'debitamount', 'value'],
+  status: ['status', 'transactionstatus'],
+  currency: ['currency'],
+  date: ['date', 'valuedate', 'bookingdate', 'transactiondate'],
+  id: ['id', 'lineid', 'entryid', 'bankreference']
+};
+
+const SOURCE_LABELS: { [source in SettlementSource]: string } = {
+  paypal: 'PayPal',
+  stripe: 'Stripe',
+  bank_statement: 'bank'
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(values => values.some(value => value.trim() !== ''));
+};
+
+const parseAmount = (value: string): number => {
+  const negative = /^\(.*\)$/.test(value.trim());
+  const amount = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return negative ? -amount : amount;
+};
+
+const emptySummary = (): ReconciliationSummary => ({
+  processed: 0,
+  settled: 0,
+  returned: 0,
+  failed: 0,
+  pending: 0,
+  unmatched: 0,
+  discrepancies: 0,
+  errors: []
+});
+
+const mergeSummaries = (target: ReconciliationSummary, source: ReconciliationSummary): ReconciliationSummary => {
+  target.processed += source.processed;
+  target.settled += source.settled;
+  target.returned += source.returned;
+  target.failed += source.failed;
+  target.pending += source.pending;
+  target.unmatched += source.unmatched;
+  target.discrepancies += source.discrepancies;
+  target.errors.push(...source.errors);
+  return target;
+};
+
+export class PayoutReconciliationService {
+  /**
+   * Parse a PayPal payout batch (GET /v1/payments/payouts/:id)
+   */
+  static parsePayPalBatch(batch: any): SettlementEntry[] {
+    const batchId = batch?.batch_header?.payout_batch_id;
+
+    return (batch?.items || []).map((item: any) => {
+      const status = String(item.transaction_status || 'PENDING').toUpperCase();
+      return {
+        source: 'paypal',
+        externalId: item.payout_item_id,
+        transactionId: batchId,
+        payoutId: item.payout_item?.sender_item_id,
+        gatewayStatus: status,
+        settlementStatus: PAYPAL_STATUSES[status] || 'pending',
+        amount: parseFloat(item.payout_item?.amount?.value || '0'),
+        currency: (item.payout_item?.amount?.currency || PAYOUT_CURRENCY).toUpperCase(),
+        occurredAt: item.time_processed ? new Date(item.time_processed) : undefined
+      };
+    });
+  }
+
+  /**
+   * Parse a Stripe transfer (GET /v1/transfers/:id with the balance transaction expanded)
+   */
+  static parseStripeTransfer(transfer: any): SettlementEntry {
+    const reversedAmount = transfer.amount_reversed || 0;
+    const balanceStatus = typeof transfer.balance_transaction === 'object'
+      ? transfer.balance_transaction?.status
+      : undefined;
+
+    let settlementStatus: SettlementStatus;
+    let gatewayStatus: string;
+    if (transfer.reversed || (reversedAmount > 0 && reversedAmount >= transfer.amount)) {
+      settlementStatus = 'returned';
+      gatewayStatus = 'reversed';
+    } else if (balanceStatus === 'pending') {
+      settlementStatus = 'pending';
+      gatewayStatus = 'pending';
+    } else {
+      settlementStatus = 'settled';
+      gatewayStatus = reversedAmount > 0 ? 'partially_reversed' : 'paid';
+    }
+
+    return {
+      source: 'stripe',
+      externalId: transfer.id,
+      transactionId: transfer.id,
+      payoutId: transfer.metadata?.payout_request_id,
+      gatewayStatus,
+      settlementStatus,
+      // A partial reversal leaves less with the marketer than we recorded, which shows as an amount mismatch
+      amount: fromMinorUnits(transfer.amount - reversedAmount, String(transfer.currency || PAYOUT_CURRENCY).toUpperCase()),
+      currency: String(transfer.currency || PAYOUT_CURRENCY).toUpperCase(),
+      occurredAt: transfer.created ? new Date(transfer.created * 1000) : undefined
+    };
+  }
+
+  /**
+   * Parse Stripe balance transactions (GET /v1/balance_transactions). Non-transfer entries are ignored.
+   */
+  static parseStripeBalanceTransactions(transactions: any[]): SettlementEntry[] {
+    return transactions
+      .filter(transaction => STRIPE_BALANCE_TYPES[transaction.type])
+      .map(transaction => {
+        const transferId = typeof transaction.source === 'object' ? transaction.source?.id : transaction.source;
+        const settlementStatus = transaction.type === 'transfer' && transaction.status === 'pending'
+          ? 'pending'
+          : STRIPE_BALANCE_TYPES[transaction.type];
+
+        return {
+          source: 'stripe' as SettlementSource,
+          externalId: transaction.id,
+          transactionId: transferId,
+          gatewayStatus: `${transaction.type}:${transaction.status}`,
+          settlementStatus,
+          amount: fromMinorUnits(Math.abs(transaction.amount), String(transaction.currency || PAYOUT_CURRENCY).toUpperCase()),
+          currency: String(transaction.currency || PAYOUT_CURRENCY).toUpperCase(),
+          occurredAt: transaction.created ? new Date(transaction.created * 1000) : undefined
+        };
+      });
+  }
+
+  /**
+   * Parse a CSV bank statement. The reference column must hold the payout transaction ID
+   * quoted on the transfer; lines without a status are treated as settled.
+   */
+  static parseBankStatement(csv: string): SettlementEntry[] {
+    const [header, ...lines] = parseCSV(csv.replace(/^\uFEFF/, ''));
+    if (!header) {
+      throw new Error('Bank statement is empty');
+    }
+
+    const normalizedHeader = header.map(column => column.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    const columnIndex = (field: string) => normalizedHeader.findIndex(column => BANK_COLUMNS[field].includes(column));
+    const columns = {
+      reference: columnIndex('reference'),
+      amount: columnIndex('amount'),
+      status: columnIndex('status'),
+      currency: columnIndex('currency'),
+      date: columnIndex('date'),
+      id: columnIndex('id')
+    };
+
+    if (columns.reference === -1 || columns.amount === -1) {
+      throw new Error('Bank statement must have reference and amount columns');
+    }
+
+    return lines.map((values, index) => {
+      const lineNumber = index + 2;
+      const value = (column: number) => (column === -1 ? '' : (values[column] || '').trim());
+
+      const reference = value(columns.reference);
+      if (!reference) {
+        throw new Error(`Missing reference on line ${lineNumber}`);
+      }
+
+      const amount = parseAmount(value(columns.amount));
+      if (isNaN(amount)) {
+        throw new Error(`Invalid amount on line ${lineNumber}`);
+      }
+
+      const rawStatus = value(columns.status);
+      const settlementStatus = rawStatus ? BANK_STATUSES[rawStatus.toLowerCase()] : 'settled';
+      if (!settlementStatus) {
+        throw new Error(`Unrecognized status "${rawStatus}" on line ${lineNumber}`);
+      }
+
+      const date = value(columns.date);
+      const occurredAt = date ? new Date(date) : undefined;
+      if (occurredAt && isNaN(occurredAt.getTime())) {
+        throw new Error(`Invalid date on line ${lineNumber}`);
+      }
+
+      // Statements without line IDs are keyed by content so re-imports do not duplicate lines
+      const externalId = value(columns.id) || crypto
+        .createHash('sha256')
+        .update([reference, amount, rawStatus.toLowerCase(), date].join('|'))
+        .digest('hex');
+
+      return {
+        source: 'bank_statement' as SettlementSource,
+        externalId,
+        transactionId: reference,
+        gatewayStatus: rawStatus || 'settled',
+        settlementStatus,
+        amount: round2(Math.abs(amount)),
+        currency: (value(columns.currency) || PAYOUT_CURRENCY).toUpperCase(),
+        occurredAt
+      };
+    });
+  }
+
+  /**
+   * Match settlement entries to payouts, move matched payouts to their settled state
+   * and record every entry with any discrepancies found
+   */
+  static async reconcileEntries(
+    entries: SettlementEntry[],
+    options: { importReference?: string; importedBy?: string } = {}
+  ): Promise<ReconciliationSummary> {
+    const summary = emptySummary();
+
+    for (const entry of entries) {
+      try {
+        const record = await this.reconcileEntry(entry, options);
+        summary.processed++;
+
+        if (record.matchStatus === 'unmatched') {
+          summary.unmatched++;
+        } else if (record.matchStatus === 'discrepancy') {
+          summary.discrepancies++;
+        } else {
+          summary[record.settlementStatus]++;
+        }
+      } catch (error: any) {
+        logger.error(`Error reconciling settlement entry ${entry.externalId}:`, error);
+        summary.errors.push({ reference: entry.externalId, error: error.message });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Fetch and reconcile PayPal payout batches
+   */
+  static async reconcilePayPalBatches(batchIds: string[], importedBy?: string): Promise<ReconciliationSummary> {
+    const summary = emptySummary();
+    const paypal = new PayPalService();
+
+    for (const batchId of batchIds) {
+      try {
+        const batch = await paypal.getPayoutBatch(batchId);
+        mergeSummaries(summary, await this.reconcileEntries(this.parsePayPalBatch(batch), {
+          importReference: batchId,
+          importedBy
+        }));
+      } catch (error: any) {
+        logger.error(`Error reconciling PayPal batch ${batchId}:`, error);
+        summary.errors.push({ reference: batchId, error: error.message });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Fetch and reconcile Stripe transfers
+   */
+  static async reconcileStripeTransfers(transferIds: string[], importedBy?: string): Promise<ReconciliationSummary> {
+    const summary = emptySummary();
+    const stripe = new StripeService();
+
+    for (const transferId of transferIds) {
+      try {
+        const transfer = await stripe.getTransfer(transferId);
+        mergeSummaries(summary, await this.reconcileEntries([this.parseStripeTransfer(transfer)], {
+          importReference: transferId,
+          importedBy
+        }));
+      } catch (error: any) {
+        logger.error(`Error reconciling Stripe transfer ${transferId}:`, error);
+        summary.errors.push({ reference: transferId, error: error.message });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Reconcile an exported list of Stripe balance transactions
+   */
+  static async reconcileStripeBalanceTransactions(transactions: any[], importedBy?: string): Promise<ReconciliationSummary> {
+    return this.reconcileEntries(this.parseStripeBalanceTransactions(transactions), {
+      importReference: 'stripe_balance_transactions',
+      importedBy
+    });
+  }
+
+  /**
+   * Reconcile a CSV bank statement
+   */
+  static async reconcileBankStatement(csv: string, fileName: string, importedBy?: string): Promise<ReconciliationSummary> {
+    return this.reconcileEntries(this.parseBankStatement(csv), {
+      importReference: fileName,
+      importedBy
+    });
+  }
+
+  /**
+   * Poll PayPal and Stripe for payouts still awaiting settlement.
+   * Bank transfers are only confirmed from imported statements.
+   */
+  static async reconcilePendingPayouts(limit: number = 200): Promise<ReconciliationSummary> {
+    const payouts = await PayoutRequest.find({
+      status: 'completed',
+      settlementStatus: 'pending',
+      transactionId: { $exists: true }
+    })
+      .sort({ completedAt: 1 })
+      .limit(limit);
+
+    const paypalBatches = new Set<string>();
+    const stripeTransfers = new Set<string>();
+
+    for (const payout of payouts) {
+      const gateway = payout.gateway || (await PaymentMethod.findById(payout.paymentMethodId))?.methodType;
+
+      if (gateway === 'paypal') {
+        paypalBatches.add(payout.transactionId!);
+      } else if (gateway === 'stripe') {
+        stripeTransfers.add(payout.transactionId!);
+      }
+    }
+
+    const summary = emptySummary();
+    mergeSummaries(summary, await this.reconcilePayPalBatches(Array.from(paypalBatches)));
+    mergeSummaries(summary, await this.reconcileStripeTransfers(Array.from(stripeTransfers)));
+
+    return summary;
+  }
+
+  /**
+   * Unresolved mismatches between gateway reports and payouts, plus payouts whose
+   * settlement is overdue
+   */
+  static async getDiscrepancyReport(options: {
+    startDate?: Date;
+    endDate?: Date;
+    includeResolved?: boolean;
+  } = {}): Promise<DiscrepancyReport> {
+    try {
+      const query: any = { matchStatus: { $in: ['unmatched', 'discrepancy'] } };
+      if (!options.includeResolved) {
+        query.resolvedAt = { $exists: false };
+      }
+      if (options.startDate || options.endDate) {
+        query.createdAt = {};
+        if (options.startDate) query.createdAt.$gte = options.startDate;
+        if (options.endDate) query.createdAt.$lte = options.endDate;
+      }
+
+      const overdueBefore = new Date(Date.now() - SETTLEMENT_OVERDUE_DAYS * 24 * 60 * 60 * 1000);
+
+      const [discrepancies, overdueSettlements] = await Promise.all([
+        SettlementRecord.find(query).sort({ createdAt: -1 }).limit(MAX_REPORT_ITEMS),
+        PayoutRequest.find({
+          status: 'completed',
+          settlementStatus: 'pending',
+          completedAt: { $lte: overdueBefore }
+        })
+          .sort({ completedAt: 1 })
+          .limit(MAX_REPORT_ITEMS)
+      ]);
+
+      const countType = (type: string) =>
+        discrepancies.filter(record => record.discrepancies.some(discrepancy => discrepancy.type === type)).length;
+
+      return {
+        summary: {
+          amountMismatches: countType('amount_mismatch'),
+          statusMismatches: countType('status_mismatch'),
+          unmatchedTransactions: countType('unmatched_transaction'),
+          overdueSettlements: overdueSettlements.length
+        },
+        discrepancies,
+        overdueSettlements,
+        generatedAt: new Date()
+      };
+    } catch (error) {
+      logger.error('Error generating settlement discrepancy report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a discrepancy as reviewed
+   */
+  static async resolveDiscrepancy(recordId: string, adminId: string, note: string): Promise<ISettlementRecord> {
+    const record = await SettlementRecord.findOne({
+      _id: recordId,
+      matchStatus: { $in: ['unmatched', 'discrepancy'] }
+    });
+
+    if (!record) {
+      throw new Error('Discrepancy not found');
+    }
+    if (record.resolvedAt) {
+      throw new Error('Discrepancy already resolved');
+    }
+
+    record.resolvedAt = new Date();
+    record.resolvedBy = adminId;
+    record.resolutionNote = note;
+    return record.save();
+  }
+
+  private static async reconcileEntry(
+    entry: SettlementEntry,
+    options: { importReference?: string; importedBy?: string }
+  ): Promise<ISettlementRecord> {
+    const match = await this.findPayout(entry);
+
+    let discrepancies: ISettlementDiscrepancy[];
+    if (match.payout) {
+      discrepancies = this.checkDiscrepancies(match.payout, entry);
+      if (discrepancies.length === 0) {
+        await this.applySettlement(match.payout, entry);
+      }
+    } else {
+      discrepancies = [{
+        type: 'unmatched_transaction',
+        message: match.reason,
+        actual: { transactionId: entry.transactionId, amount: entry.amount, currency: entry.currency }
+      }];
+    }
+
+    const matchStatus = !match.payout ? 'unmatched' : discrepancies.length > 0 ? 'discrepancy' : 'matched';
+
+    // A resolved discrepancy stays resolved on re-import unless the findings change
+    const existing = await SettlementRecord.findOne({ source: entry.source, externalId: entry.externalId });
+    const findingsChanged = !existing ||
+      existing.discrepancies.map(discrepancy => discrepancy.type).sort().join() !==
+      discrepancies.map(discrepancy => discrepancy.type).sort().join();
+
+    const fields: any = {
+      gatewayStatus: entry.gatewayStatus,
+      settlementStatus: entry.settlementStatus,
+      amount: entry.amount,
+      currency: entry.currency,
+      matchStatus,
+      discrepancies
+    };
+    if (entry.transactionId) fields.transactionId = entry.transactionId;
+    if (match.payout) fields.payoutId = match.payout._id.toString();
+    if (entry.occurredAt) fields.occurredAt = entry.occurredAt;
+    if (options.importReference) fields.importReference = options.importReference;
+    if (options.importedBy) fields.importedBy = options.importedBy;
+
+    const update: any = { $set: fields };
+    if (findingsChanged) {
+      update.$unset = { resolvedAt: 1, resolvedBy: 1, resolutionNote: 1 };
+    }
+
+    return (await SettlementRecord.findOneAndUpdate(
+      { source: entry.source, externalId: entry.externalId },
+      update,
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ))!;
+  }
+
+  private static async findPayout(entry: SettlementEntry): Promise<{ payout?: IPayoutRequest; reason: string }> {
+    if (entry.payoutId && mongoose.Types.ObjectId.isValid(entry.payoutId)) {
+      const payout = await PayoutRequest.findById(entry.payoutId);
+      if (payout) return { payout, reason: '' };
+    }
+
+    if (entry.transactionId) {
+      const payouts = await PayoutRequest.find({ transactionId: entry.transactionId }).limit(2);
+      if (payouts.length === 1) return { payout: payouts[0], reason: '' };
+      if (payouts.length > 1) {
+        return { reason: `Transaction ${entry.transactionId} matches more than one payout` };
+      }
+    }
+
+    return { reason: `No payout found for transaction ${entry.transactionId || entry.externalId}` };
+  }
+
+  private static checkDiscrepancies(payout: IPayoutRequest, entry: SettlementEntry): ISettlementDiscrepancy[] {
+    const discrepancies: ISettlementDiscrepancy[] = [];
+
+    // Gateways report the amount sent, which is in the payment method's currency for converted payouts
+    const expected = CurrencyService.getPayoutAmount(payout);
+    const expectedAmount = round2(expected.amount);
+    if (Math.abs(expectedAmount - entry.amount) > AMOUNT_TOLERANCE || entry.currency !== expected.currency) {
+      discrepancies.push({
+        type: 'amount_mismatch',
+        message: `${SOURCE_LABELS[entry.source]} reported ${entry.amount.toFixed(2)} ${entry.currency}, expected ${expectedAmount.toFixed(2)} ${expected.currency}`,
+        expected: { amount: expectedAmount, currency: expected.currency },
+        actual: { amount: entry.amount, currency: entry.currency }
+      });
+    }
+
+    if (!this.isCurrentAttempt(payout, entry)) {
+      // Reports on an earlier attempt only matter if that attempt also paid out
+      if (entry.settlementStatus === 'settled') {
+        discrepancies.push({
+          type: 'status_mismatch',
+          message: `Earlier attempt ${entry.transactionId} settled but the payout was resent as ${payout.transactionId}`,
+          expected: { transactionId: payout.transactionId },
+          actual: { transactionId: entry.transactionId, status: entry.settlementStatus }
+        });
+      }
+      return discrepancies;
+    }
+
+    if (!SENT_STATUSES.includes(payout.status)) {
+      discrepancies.push({
+        type: 'status_mismatch',
+        message: `${SOURCE_LABELS[entry.source]} reported ${entry.gatewayStatus} for a payout that is ${payout.status}`,
+        expected: { status: payout.status },
+        actual: { status: entry.settlementStatus, gatewayStatus: entry.gatewayStatus }
+      });
+    } else if (entry.settlementStatus === 'settled' && payout.status !== 'completed') {
+      discrepancies.push({
+        type: 'status_mismatch',
+        message: `${SOURCE_LABELS[entry.source]} settled a payout recorded as ${payout.status}`,
+        expected: { status: payout.status, settlementStatus: payout.settlementStatus },
+        actual: { status: entry.settlementStatus, gatewayStatus: entry.gatewayStatus }
+      });
+    }
+
+    return discrepancies;
+  }
+
+  private static isCurrentAttempt(payout: IPayoutRequest, entry: SettlementEntry): boolean {
+    return !payout.transactionId || !entry.transactionId || payout.transactionId === entry.transactionId;
+  }
+
+  private static async applySettlement(payout: IPayoutRequest, entry: SettlementEntry): Promise<void> {
+    if (!this.isCurrentAttempt(payout, entry)) return;
+
+    if (!payout.transactionId && entry.transactionId) {
+      payout.transactionId = entry.transactionId;
+    }
+
+    switch (entry.settlementStatus) {
+      case 'settled':
+        if (payout.settlementStatus !== 'settled') {
+          payout.settlementStatus = 'settled';
+          payout.settledAt = entry.occurredAt || new Date();
+        }
+        break;
+
+      case 'pending':
+        if (payout.status === 'completed' && !payout.settlementStatus) {
+          payout.settlementStatus = 'pending';
+        }
+        break;
+
+      case 'returned':
+      case 'failed': {
+        if (payout.settlementStatus === entry.settlementStatus) break;
+
+        // Failing the payout releases the amount back to the marketer's available balance
+        const wasCompleted = payout.status === 'completed';
+        payout.status = 'failed';
+        payout.settlementStatus = entry.settlementStatus;
+        payout.failureReason = `Payout ${entry.settlementStatus} by ${SOURCE_LABELS[entry.source]} (${entry.gatewayStatus})`;
+        if (entry.settlementStatus === 'returned') {
+          payout.returnedAt = entry.occurredAt || new Date();
+        }
+        await payout.save();
+        await PayoutAllocationService.release(payout._id.toString(), payout.failureReason);
+        await LedgerService.recordPayouts([payout._id]);
+
+        if (wasCompleted) {
+          await WebhookService.publishPayoutReturned(payout);
+        }
+        return;
+      }
+    }
+
+    if (payout.isModified()) {
+      await payout.save();
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { PostbackService } from '../index';
+import { PostbackCredential } from '../../../models/PostbackCredential';
+import { PostbackNonce, POSTBACK_NONCE_TTL_SECONDS } from '../../../models/PostbackNonce';
+import { RejectedPostback } from '../../../models/RejectedPostback';
+import { Product } from '../../../models/Product';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('PostbackService', () => {
+  let mongoServer: MongoMemoryServer;
+  let productId: string;
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const body = JSON.stringify({ customerId: 'customer123', initialSpendAmount: 500 });
+
+  const signedRequest = (keyId: string, secret: string, overrides: any = {}) => {
+    const timestamp = overrides.timestamp || Math.floor(Date.now() / 1000).toString();
+    const nonce = overrides.nonce || new mongoose.Types.ObjectId().toString();
+    return {
+      keyId,
+      timestamp,
+      nonce,
+      signature: PostbackService.computeSignature(secret, timestamp, nonce, body),
+      rawBody: body,
+      ...overrides
+    };
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    delete process.env.POSTBACK_TIMESTAMP_TOLERANCE_SECONDS;
+
+    await PostbackCredential.deleteMany({});
+    await PostbackNonce.deleteMany({});
+    await RejectedPostback.deleteMany({});
+    await Product.deleteMany({});
+
+    const product = await Product.create({
+      name: 'Test Product',
+      description: 'Test product description',
+      category: 'investment',
+      commissionType: 'percentage',
+      commissionRate: 0.05,
+      minInitialSpend: 100,
+      status: 'active',
+      landingPageUrl: 'https://example.com'
+    });
+    productId = product._id.toString();
+  });
+
+  describe('createCredential', () => {
+    it('should store the secret encrypted and return it once', async () => {
+      const { credential, secret } = await PostbackService.createCredential('Advertiser', [productId], adminId);
+
+      const stored = await PostbackCredential.findById(credential._id).select('+encryptedSecret');
+      expect(stored!.encryptedSecret).not.toContain(secret);
+      expect(stored!.getSecret()).toBe(secret);
+      expect(credential.toJSON()).not.toHaveProperty('encryptedSecret');
+    });
+
+    it('should reject unknown products', async () => {
+      await expect(
+        PostbackService.createCredential('Advertiser', [new mongoose.Types.ObjectId().toString()], adminId)
+      ).rejects.toThrow('One or more products not found');
+    });
+  });
+
+  describe('verifySignature', () => {
+    it('should accept a correctly signed postback', async () => {
+      const { credential, secret } = await PostbackService.createCredential('Advertiser', [productId], adminId);
+
+      const verified = await PostbackService.verifySignature(signedRequest(credential.keyId, secret));
+
+      expect(verified.keyId).toBe(credential.keyId);
+      expect(verified.lastUsedAt).toBeDefined();
+    });
+
+    it('should reject a tampered body', async () => {
+      const { credential, secret } = await PostbackService.createCredential('Advertiser', [productId], adminId);
+
+      await expect(
+        PostbackService.verifySignature(signedRequest(credential.keyId, secret, { rawBody: '{"initialSpendAmount":5000}' }))
+      ).rejects.toThrow('Invalid postback signature');
+    });
+
+    it('should reject stale timestamps', async () => {
+      const { credential, secret } = await PostbackService.createCredential('Advertiser', [productId], adminId);
+      const stale = (Math.floor(Date.now() / 1000) - 600).toString();
+
+      await expect(
+        PostbackService.verifySignature(signedRequest(credential.keyId, secret, { timestamp: stale }))
+      ).rejects.toThrow('Postback timestamp outside the accepted window');
+    });
+
+    it('should keep the timestamp tolerance within the nonce retention', () => {
+      process.env.POSTBACK_TIMESTAMP_TOLERANCE_SECONDS = '600';
+      expect(PostbackService.getTimestampToleranceSeconds()).toBe(600);
+
+      process.env.POSTBACK_TIMESTAMP_TOLERANCE_SECONDS = (7 * 24 * 60 * 60).toString();
+      expect(PostbackService.getTimestampToleranceSeconds() * 2).toBeLessThanOrEqual(POSTBACK_NONCE_TTL_SECONDS);
+    });
+
+    it('should reject a replayed nonce', async () => {
+      const { credential, secret } = await PostbackService.createCredential('Advertiser', [productId], adminId);
+      const postback = signedRequest(credential.keyId, secret);
+
+      await PostbackService.verifySignature(postback);
+
+      await expect(PostbackService.verifySignature(postback)).rejects.toThrow('Postback nonce has already been used');
+    });
+
+    it('should reject revoked credentials and rotated secrets', async () => {
+      const { credential, secret } = await PostbackService.createCredential('Advertiser', [productId], adminId);
+
+      await PostbackService.rotateSecret(credential._id.toString());
+      await expect(
+        PostbackService.verifySignature(signedRequest(credential.keyId, secret))
+      ).rejects.toThrow('Invalid postback signature');
+
+      await PostbackService.revokeCredential(credential._id.toString(), adminId);
+      await expect(
+        PostbackService.verifySignature(signedRequest(credential.keyId, secret))
+      ).rejects.toThrow('Unknown or revoked postback credential');
+    });
+  });
+
+  describe('rejected postbacks', () => {
+    it('should log rejections for review', async () => {
+      await PostbackService.logRejection({
+        keyId: 'pk_test',
+        reason: 'Invalid postback signature',
+        endpoint: '/api/v1/tracking/postbacks'
+      });
+
+      const { rejections, total } = await PostbackService.getRejectedPostbacks({ reviewed: false });
+      expect(total).toBe(1);
+
+      const reviewed = await PostbackService.markRejectionReviewed(rejections[0]._id.toString(), adminId);
+      expect(reviewed!.reviewed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import { PostbackCredential, IPostbackCredential } from '../../models/PostbackCredential';
+import { PostbackNonce, POSTBACK_NONCE_TTL_SECONDS } from '../../models/PostbackNonce';
+import { RejectedPostback, IRejectedPostback } from '../../models/RejectedPostback';
+import { Product } from '../../models/Product';
+import { logger } from '../../utils/logger';
+
+export interface PostbackSignatureData {
+  keyId?: string;
+  timestamp?: string; // Unix time in seconds
+  nonce?: string;
+  signature?: string; // Hex HMAC-SHA256 of `${timestamp}.${nonce}.${rawBody}`
+  rawBody: string;
+}
+
+export interface PostbackRejectionData {
+  keyId?: string;
+  reason: string;
+  endpoint: string;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp?: string;
+  nonce?: string;
+  idempotencyKey?: string;
+  payload?: any;
+}
+
+const DEFAULT_TIMESTAMP_TOLERANCE_SECONDS = 300;
+
+// A signed postback is accepted from tolerance before its timestamp until tolerance after it, so its nonce
+// must be remembered for twice the tolerance or the postback could be replayed once the nonce expires
+const MAX_TIMESTAMP_TOLERANCE_SECONDS = Math.floor(POSTBACK_NONCE_TTL_SECONDS / 2);
+
+export class PostbackService {
+  /**
+   * Compute the signature a client must send for a postback
+   */
+  static computeSignature(secret: string, timestamp: string, nonce: string, rawBody: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${nonce}.${rawBody}`).digest('hex');
+  }
+
+  /**
+   * Maximum accepted clock skew between the advertiser and this server
+   */
+  static getTimestampToleranceSeconds(): number {
+    const configured = parseInt(process.env.POSTBACK_TIMESTAMP_TOLERANCE_SECONDS || '', 10);
+    if (isNaN(configured) || configured <= 0) {
+      return DEFAULT_TIMESTAMP_TOLERANCE_SECONDS;
+    }
+    return Math.min(configured, MAX_TIMESTAMP_TOLERANCE_SECONDS);
+  }
+
+  /**
+   * Create API credentials for an advertiser. The secret is only returned here.
+   */
+  static async createCredential(
+    name: string,
+    productIds: string[],
+    createdBy: string
+  ): Promise<{ credential: IPostbackCredential; secret: string }> {
+    try {
+      const productCount = await Product.countDocuments({ _id: { $in: productIds } });
+      if (productCount !== new Set(productIds).size) {
+        throw new Error('One or more products not found');
+      }
+
+      const secret = crypto.randomBytes(32).toString('hex');
+      const credential = new PostbackCredential({
+        name,
+        keyId: `pk_${crypto.randomBytes(12).toString('hex')}`,
+        productIds: Array.from(new Set(productIds)),
+        createdBy
+      });
+      credential.setSecret(secret);
+      await credential.save();
+
+      logger.info(`Postback credential ${credential.keyId} created for ${name}`);
+      return { credential, secret };
+    } catch (error) {
+      logger.error('Error creating postback credential:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List credentials, optionally filtered by product
+   */
+  static async getCredentials(filters: { productId?: string; status?: string } = {}): Promise<IPostbackCredential[]> {
+    try {
+      const query: any = {};
+      if (filters.productId) query.productIds = filters.productId;
+      if (filters.status) query.status = filters.status;
+
+      return await PostbackCredential.find(query).sort({ createdAt: -1 });
+    } catch (error) {
+      logger.error('Error getting postback credentials:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a credential's secret. The old secret stops working immediately.
+   */
+  static async rotateSecret(credentialId: string): Promise<{ credential: IPostbackCredential; secret: string }> {
+    try {
+      const credential = await PostbackCredential.findById(credentialId);
+      if (!credential) {
+        throw new Error('Postback credential not found');
+      }
+
+      if (credential.status !== 'active') {
+        throw new Error('Cannot rotate a revoked postback credential');
+      }
+
+      const secret = crypto.randomBytes(32).toString('hex');
+      credential.setSecret(secret);
+      await credential.save();
+
+      logger.info(`Postback credential ${credential.keyId} secret rotated`);
+      return { credential, secret };
+    } catch (error) {
+      logger.error('Error rotating postback credential:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a credential so postbacks signed with it are rejected
+   */
+  static async revokeCredential(credentialId: string, revokedBy: string): Promise<IPostbackCredential> {
+    try {
+      const credential = await PostbackCredential.findById(credentialId);
+      if (!credential) {
+        throw new Error('Postback credential not found');
+      }
+
+      if (credential.status === 'revoked') {
+        throw new Error('Postback credential is already revoked');
+      }
+
+      credential.status = 'revoked';
+      credential.revokedBy = revokedBy;
+      credential.revokedAt = new Date();
+      await credential.save();
+
+      logger.info(`Postback credential ${credential.keyId} revoked`);
+      return credential;
+    } catch (error) {
+      logger.error('Error revoking postback credential:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a postback's credential, timestamp, signature and nonce.
+   * The nonce is only consumed once the signature is valid, so forged requests cannot burn nonces.
+   */
+  static async verifySignature(data: PostbackSignatureData): Promise<IPostbackCredential> {
+    if (!data.keyId || !data.timestamp || !data.nonce || !data.signature) {
+      throw new Error('Missing postback authentication headers');
+    }
+
+    const credential = await PostbackCredential.findOne({ keyId: data.keyId }).select('+encryptedSecret');
+    if (!credential || credential.status !== 'active') {
+      throw new Error('Unknown or revoked postback credential');
+    }
+
+    const timestampSeconds = Number(data.timestamp);
+    const skewSeconds = Math.abs(Date.now() / 1000 - timestampSeconds);
+    if (!Number.isFinite(timestampSeconds) || skewSeconds > this.getTimestampToleranceSeconds()) {
+      throw new Error('Postback timestamp outside the accepted window');
+    }
+
+    const expected = Buffer.from(this.computeSignature(credential.getSecret(), data.timestamp, data.nonce, data.rawBody), 'hex');
+    const received = Buffer.from(data.signature, 'hex');
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new Error('Invalid postback signature');
+    }
+
+    try {
+      await PostbackNonce.create({ keyId: data.keyId, nonce: data.nonce });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error('Postback nonce has already been used');
+      }
+      throw error;
+    }
+
+    credential.lastUsedAt = new Date();
+    await credential.save();
+
+    return credential;
+  }
+
+  /**
+   * Map an advertiser idempotency key onto the conversion deduplication key
+   */
+  static getDeduplicationKey(keyId: string, idempotencyKey: string): string {
+    return crypto.createHash('sha256').update(`s2s|${keyId}|${idempotencyKey}`).digest('hex');
+  }
+
+  /**
+   * Record a rejected postback for review. Never throws, so logging cannot mask the rejection.
+   */
+  static async logRejection(data: PostbackRejectionData): Promise<void> {
+    try {
+      await RejectedPostback.create(data);
+      logger.warn(`Rejected postback${data.keyId ? ` for key ${data.keyId}` : ''}: ${data.reason}`);
+    } catch (error) {
+      logger.error('Error logging rejected postback:', error);
+    }
+  }
+
+  /**
+   * Get rejected postbacks for review, most recent first
+   */
+  static async getRejectedPostbacks(
+    filters: { keyId?: string; reviewed?: boolean } = {},
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ rejections: IRejectedPostback[]; total: number }> {
+    try {
+      const query: any = {};
+      if (filters.keyId) query.keyId = filters.keyId;
+      if (filters.reviewed !== undefined) query.reviewed = filters.reviewed;
+
+      const [rejections, total] = await Promise.all([
+        RejectedPostback.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        RejectedPostback.countDocuments(query)
+      ]);
+
+      return { rejections, total };
+    } catch (error) {
+      logger.error('Error getting rejected postbacks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a rejected postback as reviewed
+   */
+  static async markRejectionReviewed(rejectionId: string, reviewedBy: string): Promise<IRejectedPostback | null> {
+    try {
+      return await RejectedPostback.findByIdAndUpdate(
+        rejectionId,
+        { reviewed: true, reviewedBy, reviewedAt: new Date() },
+        { new: true }
+      );
+    } catch (error) {
+      logger.error('Error reviewing rejected postback:', error);
+      throw error;
+    }
+  }
+}
@@ -1,11 +1,13 @@
-import { Product, IProduct } from '../../models/Product';
+import { Product, IProduct, IRecurringCommissionSettings } from '../../models/Product';
 import { PaginationOptions, PaginatedResponse } from '../../types';
 import { logger } from '../../utils/logger';
+import { AttributionModel } from '../tracking/attributionModels';
 
 export interface CreateProductData {
   name: string;
   description: string;
   category: string;
+  currency?: string;
   commissionType: 'percentage' | 'flat';
   commissionRate?: number;
   commissionFlatAmount?: number;
@@ -13,6 +15,11 @@ export interface CreateProductData {
   status?: 'active' | 'inactive';
   landingPageUrl: string;
   tags?: string[];
+  attributionModel?: AttributionModel;
+  attributionWindowDays?: number;
+  cookieDurationDays?: number;
+  attributionPriority?: Array<'portal' | 'cookie' | 's2s'>;
+  recurringCommission?: IRecurringCommissionSettings;
 }
 
 export interface UpdateProductData extends Partial<CreateProductData> {}
@@ -27,6 +34,7 @@ export interface ProductSearchOptions extends Partial<PaginationOptions> {
   minInitialSpend?: number;
   maxInitialSpend?: number;
   commissionType?: 'percentage' | 'flat';
+  currency?: string;
 }
 
 export class ProductService {
@@ -136,7 +144,8 @@ export class ProductService {
         maxCommissionRate,
         minInitialSpend,
         maxInitialSpend,
-        commissionType
+        commissionType,
+        currency
       } = options;
 
       // Build query
@@ -145,6 +154,10 @@ export class ProductService {
       if (category) {
         query.category = category;
       }
+
+      if (currency) {
+        query.currency = currency;
+      }
       
       if (status) {
         query.status = status;
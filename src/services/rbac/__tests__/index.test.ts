@@ -0,0 +1,113 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { RBACService, RBAC_ERRORS, PERMISSIONS } from '../index';
+import { AdminRoleMigration } from '../migration';
+import { User, IUser } from '../../../models/User';
+
+describe('RBACService', () => {
+  describe('permissions', () => {
+    const asUser = (fields: Partial<IUser>) => ({ role: 'admin', adminRoles: [], ...fields }) as IUser;
+
+    it('should give super admins full access and admins without assigned roles none', () => {
+      const superAdmin = asUser({ adminRoles: ['super_admin'] });
+      const unassigned = asUser({});
+
+      expect(RBACService.getPermissions(superAdmin)).toEqual([...PERMISSIONS]);
+      expect(RBACService.getRoles(unassigned)).toEqual([]);
+      expect(RBACService.getPermissions(unassigned)).toEqual([]);
+      expect(RBACService.hasPermission(unassigned, 'reports:read')).toBe(false);
+    });
+
+    it('should grant marketers no admin permissions', () => {
+      const marketer = asUser({ role: 'marketer', adminRoles: ['finance'] });
+
+      expect(RBACService.getPermissions(marketer)).toEqual([]);
+      expect(RBACService.hasPermission(marketer, 'users:read')).toBe(false);
+    });
+
+    it('should combine the permissions of every assigned role', () => {
+      const support = asUser({ adminRoles: ['support'] });
+      const financeAndCompliance = asUser({ adminRoles: ['finance', 'compliance'] });
+
+      expect(RBACService.hasPermission(support, 'users:read', 'customers:read')).toBe(true);
+      expect(RBACService.hasPermission(support, 'users:manage')).toBe(false);
+      expect(RBACService.hasPermission(financeAndCompliance, 'payouts:manage', 'kyc:review')).toBe(true);
+      expect(RBACService.hasPermission(financeAndCompliance, 'roles:manage')).toBe(false);
+    });
+
+    it('should limit financial and compliance reports to the matching roles', () => {
+      expect(RBACService.getReportTypes(asUser({ adminRoles: ['super_admin'] }))).toEqual(['platform_performance', 'financial', 'compliance']);
+      expect(RBACService.getReportTypes(asUser({ adminRoles: ['finance'] }))).toEqual(['platform_performance', 'financial']);
+      expect(RBACService.getReportTypes(asUser({ adminRoles: ['compliance'] }))).toEqual(['platform_performance', 'compliance']);
+      expect(RBACService.getReportTypes(asUser({ adminRoles: ['product_manager'] }))).toEqual(['platform_performance']);
+      expect(RBACService.getReportTypes(asUser({ adminRoles: ['support'] }))).toEqual([]);
+      expect(RBACService.hasPermission(asUser({ adminRoles: ['product_manager'] }), 'reports:manage')).toBe(false);
+    });
+  });
+
+  describe('with a database', () => {
+    let mongoServer: MongoMemoryServer;
+    let superAdminId: string;
+
+    const createUser = async (email: string, role: 'marketer' | 'admin') => {
+      const user = await User.create({
+        email,
+        password: 'Password123!',
+        firstName: 'Test',
+        lastName: 'User',
+        role,
+        status: 'active',
+        emailVerified: true
+      });
+      return user._id.toString();
+    };
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await User.deleteMany({});
+      superAdminId = await createUser('root@example.com', 'admin');
+    });
+
+    it('should replace the roles of an admin account', async () => {
+      const adminId = await createUser('finance@example.com', 'admin');
+
+      const { user, previousRoles } = await RBACService.assignRoles(adminId, ['finance', 'finance'], superAdminId);
+
+      expect(previousRoles).toEqual([]);
+      expect(user.adminRoles).toEqual(['finance']);
+      expect(RBACService.hasPermission((await User.findById(adminId))!, 'payouts:manage')).toBe(true);
+      expect(RBACService.hasPermission((await User.findById(adminId))!, 'users:manage')).toBe(false);
+    });
+
+    it('should refuse assignments that would grant or strip access unexpectedly', async () => {
+      const adminId = await createUser('ops@example.com', 'admin');
+      const marketerId = await createUser('marketer@example.com', 'marketer');
+
+      await expect(RBACService.assignRoles(marketerId, ['support'], superAdminId)).rejects.toThrow(RBAC_ERRORS.notAdmin);
+      await expect(RBACService.assignRoles(adminId, [], superAdminId)).rejects.toThrow(RBAC_ERRORS.noRoles);
+      await expect(RBACService.assignRoles(adminId, ['owner'], superAdminId)).rejects.toThrow(RBAC_ERRORS.unknownRole);
+      await expect(RBACService.assignRoles(superAdminId, ['support'], superAdminId)).rejects.toThrow(RBAC_ERRORS.ownRoles);
+    });
+
+    it('should give admins that existed before RBAC the super_admin role once migrated', async () => {
+      const financeId = await createUser('finance@example.com', 'admin');
+      const marketerId = await createUser('marketer@example.com', 'marketer');
+      await RBACService.assignRoles(financeId, ['finance'], superAdminId);
+
+      expect(await AdminRoleMigration.assignLegacyAdminRoles()).toBe(1);
+
+      expect((await User.findById(superAdminId))!.adminRoles).toEqual(['super_admin']);
+      expect((await User.findById(financeId))!.adminRoles).toEqual(['finance']);
+      expect((await User.findById(marketerId))!.adminRoles).toEqual([]);
+    });
+  });
+});
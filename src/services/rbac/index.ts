@@ -0,0 +1,186 @@
+import { User, IUser, AdminRole, ADMIN_ROLES } from '../../models/User';
+import { ReportType, REPORT_TYPES } from '../../models/ScheduledReport';
+import { logger } from '../../utils/logger';
+
+export const PERMISSIONS = [
+  'users:read',
+  'users:manage',
+  'roles:manage',
+  'customers:read',
+  'customers:manage',
+  'kyc:read',
+  'kyc:review',
+  'gdpr:manage',
+  'products:read',
+  'products:manage',
+  'materials:manage',
+  'commissions:read',
+  'commissions:manage',
+  'payouts:read',
+  'payouts:manage',
+  'tax:read',
+  'tax:manage',
+  'reports:read',
+  'reports:manage', // Scheduled reports and exports
+  'reports:financial',
+  'reports:compliance',
+  'audit:read',
+  'system:manage' // Postback credentials, scheduled jobs and realtime analytics
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const RBAC_ERRORS = {
+  userNotFound: 'User not found',
+  notAdmin: 'Roles can only be assigned to admin accounts',
+  noRoles: 'At least one role is required',
+  unknownRole: 'Unknown role',
+  ownRoles: 'You cannot change your own roles'
+};
+
+export interface RoleDefinition {
+  name: AdminRole;
+  description: string;
+  permissions: readonly Permission[];
+}
+
+export const ROLE_DEFINITIONS: Record<AdminRole, RoleDefinition> = {
+  super_admin: {
+    name: 'super_admin',
+    description: 'Full access, including role assignment',
+    permissions: PERMISSIONS
+  },
+  finance: {
+    name: 'finance',
+    description: 'Payouts, commissions and tax',
+    permissions: [
+      'users:read',
+      'products:read',
+      'commissions:read',
+      'commissions:manage',
+      'payouts:read',
+      'payouts:manage',
+      'tax:read',
+      'tax:manage',
+      'reports:read',
+      'reports:manage',
+      'reports:financial'
+    ]
+  },
+  compliance: {
+    name: 'compliance',
+    description: 'KYC review, GDPR requests and data retention',
+    permissions: [
+      'users:read',
+      'customers:read',
+      'kyc:read',
+      'kyc:review',
+      'gdpr:manage',
+      'tax:read',
+      'reports:read',
+      'reports:manage',
+      'reports:compliance',
+      'audit:read'
+    ]
+  },
+  support: {
+    name: 'support',
+    description: 'Read-only access to users and customers',
+    permissions: ['users:read', 'customers:read']
+  },
+  product_manager: {
+    name: 'product_manager',
+    description: 'Products and marketing materials',
+    permissions: ['products:read', 'products:manage', 'materials:manage', 'reports:read']
+  }
+};
+
+// Report types beyond platform performance need their own permission on top of reports:read
+export const REPORT_TYPE_PERMISSIONS: Partial<Record<ReportType, Permission>> = {
+  financial: 'reports:financial',
+  compliance: 'reports:compliance'
+};
+
+// Permission-based access control for admin accounts
+export class RBACService {
+  /**
+   * Roles in effect for a user. Admins without an assigned role have no admin permissions.
+   */
+  static getRoles(user: IUser): AdminRole[] {
+    if (user.role !== 'admin') {
+      return [];
+    }
+    return user.adminRoles ?? [];
+  }
+
+  static getPermissions(user: IUser): Permission[] {
+    const permissions = new Set<Permission>();
+    for (const role of this.getRoles(user)) {
+      ROLE_DEFINITIONS[role]?.permissions.forEach(permission => permissions.add(permission));
+    }
+    return PERMISSIONS.filter(permission => permissions.has(permission));
+  }
+
+  /**
+   * Whether the user holds every one of the permissions
+   */
+  static hasPermission(user: IUser, ...required: Permission[]): boolean {
+    const granted = this.getPermissions(user);
+    return required.every(permission => granted.includes(permission));
+  }
+
+  /**
+   * Report types the user may view, export or schedule
+   */
+  static getReportTypes(user: IUser): ReportType[] {
+    if (!this.hasPermission(user, 'reports:read')) {
+      return [];
+    }
+    return REPORT_TYPES.filter(type => {
+      const permission = REPORT_TYPE_PERMISSIONS[type];
+      return !permission || this.hasPermission(user, permission);
+    });
+  }
+
+  static listRoles(): RoleDefinition[] {
+    return ADMIN_ROLES.map(role => ROLE_DEFINITIONS[role]);
+  }
+
+  /**
+   * Replace an admin's roles. Returns the updated user and the roles it held before.
+   */
+  static async assignRoles(
+    userId: string,
+    roles: string[],
+    assignedBy: string
+  ): Promise<{ user: IUser; previousRoles: AdminRole[] }> {
+    if (userId === assignedBy) {
+      throw new Error(RBAC_ERRORS.ownRoles);
+    }
+
+    // Suspend the account to remove an admin's access; an admin left without roles could do nothing
+    if (roles.length === 0) {
+      throw new Error(RBAC_ERRORS.noRoles);
+    }
+
+    const unknown = roles.filter(role => !(ADMIN_ROLES as readonly string[]).includes(role));
+    if (unknown.length > 0) {
+      throw new Error(`${RBAC_ERRORS.unknownRole}: ${unknown.join(', ')}`);
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error(RBAC_ERRORS.userNotFound);
+    }
+    if (user.role !== 'admin') {
+      throw new Error(RBAC_ERRORS.notAdmin);
+    }
+
+    const previousRoles = this.getRoles(user);
+    user.adminRoles = Array.from(new Set(roles)) as AdminRole[];
+    await user.save();
+
+    logger.info(`Admin roles of user ${userId} changed from [${previousRoles.join(', ')}] to [${user.adminRoles.join(', ')}] by ${assignedBy}`);
+    return { user, previousRoles };
+  }
+}
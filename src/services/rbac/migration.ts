@@ -0,0 +1,51 @@
+import dotenv from 'dotenv';
+import { User } from '../../models/User';
+import { connectDatabase, disconnectDatabase } from '../../config/database';
+import { logger } from '../../utils/logger';
+
+export class AdminRoleMigration {
+  /**
+   * Give admins created before role assignment existed the super_admin role, so they keep the full
+   * access they had. Run once when deploying RBAC: admins created afterwards start without permissions
+   * until a super admin assigns their roles.
+   */
+  public static async assignLegacyAdminRoles(): Promise<number> {
+    try {
+      const result = await User.updateMany(
+        {
+          role: 'admin',
+          $or: [{ adminRoles: { $exists: false } }, { adminRoles: { $size: 0 } }]
+        },
+        { $set: { adminRoles: ['super_admin'] } }
+      );
+
+      logger.info(`Assigned the super_admin role to ${result.modifiedCount} existing admins`);
+      return result.modifiedCount;
+    } catch (error) {
+      logger.error('Error assigning roles to existing admins:', error);
+      throw error;
+    }
+  }
+}
+
+// CLI script for running migration
+if (require.main === module) {
+  async function runAdminRoleMigration() {
+    try {
+      console.log('Assigning the super_admin role to existing admins...');
+
+      dotenv.config();
+      await connectDatabase();
+      const migrated = await AdminRoleMigration.assignLegacyAdminRoles();
+      await disconnectDatabase();
+
+      console.log(`Admin role migration completed! ${migrated} admins updated.`);
+      process.exit(0);
+    } catch (error) {
+      console.error('Admin role migration failed:', error);
+      process.exit(1);
+    }
+  }
+
+  runAdminRoleMigration();
+}
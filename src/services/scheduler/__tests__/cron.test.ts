@@ -0,0 +1,38 @@
+import { CronSchedule } from '../cron';
+
+describe('CronSchedule', () => {
+  const from = new Date('2026-10-18T10:07:30Z'); // A Sunday
+
+  it.each([
+    ['* * * * *', '2026-10-18T10:08:00.000Z'],
+    ['*/15 * * * *', '2026-10-18T10:15:00.000Z'],
+    ['0 2 * * *', '2026-10-19T02:00:00.000Z'],
+    ['0 8 * * 1-5', '2026-10-19T08:00:00.000Z'],
+    ['0 0 1 * *', '2026-11-01T00:00:00.000Z'],
+    ['0 0 29 2 *', '2028-02-29T00:00:00.000Z']
+  ])('should schedule %s after the given time', (expression, expected) => {
+    expect(new CronSchedule(expression).next(from).toISOString()).toBe(expected);
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 1st of the month or any Friday, whichever comes first
+    expect(new CronSchedule('30 4 1 * 5').next(from).toISOString()).toBe('2026-10-23T04:30:00.000Z');
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect(new CronSchedule('0 9 * * 7').next(from).toISOString()).toBe('2026-10-25T09:00:00.000Z');
+  });
+
+  it('should never return the current minute', () => {
+    const onTheMinute = new Date('2026-10-18T10:15:00Z');
+    expect(new CronSchedule('*/15 * * * *').next(onTheMinute).toISOString()).toBe('2026-10-18T10:30:00.000Z');
+  });
+
+  it.each(['* * * *', '60 * * * *', '*/0 * * * *', '5-1 * * * *', 'a * * * *'])('should reject %s', expression => {
+    expect(CronSchedule.isValid(expression)).toBe(false);
+  });
+
+  it('should reject expressions that can never run', () => {
+    expect(() => new CronSchedule('0 0 31 2 *').next(from)).toThrow('has no upcoming run time');
+  });
+});
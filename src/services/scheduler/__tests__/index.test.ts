@@ -0,0 +1,122 @@
+import { SchedulerService } from '../index';
+import { ScheduledJob } from '../../../models/ScheduledJob';
+import { JobRun } from '../../../models/JobRun';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('SchedulerService', () => {
+  let mongoServer: MongoMemoryServer;
+  const adminId = new mongoose.Types.ObjectId().toString();
+  const handler = jest.fn();
+  const failingHandler = jest.fn();
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+
+    SchedulerService.registerJob({ name: 'test.job', cronExpression: '0 * * * *', handler });
+    SchedulerService.registerJob({ name: 'test.failing', cronExpression: '0 * * * *', handler: failingHandler });
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await ScheduledJob.deleteMany({});
+    await JobRun.deleteMany({});
+    handler.mockReset().mockResolvedValue({ processed: 3 });
+    failingHandler.mockReset().mockRejectedValue(new Error('Boom'));
+
+    await SchedulerService.syncJobs();
+  });
+
+  const makeDue = (name: string) =>
+    ScheduledJob.updateOne({ name }, { $set: { nextRunAt: new Date(Date.now() - 1000) } });
+
+  describe('syncJobs', () => {
+    it('should keep admin changes to existing jobs', async () => {
+      await SchedulerService.updateSchedule('test.job', '*/5 * * * *', adminId);
+
+      await SchedulerService.syncJobs();
+
+      const job = await ScheduledJob.findOne({ name: 'test.job' });
+      expect(job!.cronExpression).toBe('*/5 * * * *');
+    });
+  });
+
+  describe('runDueJobs', () => {
+    it('should only run due jobs and record their history', async () => {
+      await makeDue('test.job');
+
+      const runs = await SchedulerService.runDueJobs();
+
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({ jobName: 'test.job', trigger: 'schedule', status: 'succeeded', result: { processed: 3 } });
+
+      const job = await ScheduledJob.findOne({ name: 'test.job' });
+      expect(job!.lastRunStatus).toBe('succeeded');
+      expect(job!.lockedBy).toBeUndefined();
+      expect(job!.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should record failures without stopping other jobs', async () => {
+      await makeDue('test.job');
+      await makeDue('test.failing');
+
+      const runs = await SchedulerService.runDueJobs();
+
+      expect(runs.map(run => run.status).sort()).toEqual(['failed', 'succeeded']);
+      const job = await ScheduledJob.findOne({ name: 'test.failing' });
+      expect(job!.lastError).toBe('Boom');
+    });
+
+    it('should skip jobs locked by another instance', async () => {
+      await makeDue('test.job');
+      await ScheduledJob.updateOne(
+        { name: 'test.job' },
+        { $set: { lockedBy: 'other-instance', lockedUntil: new Date(Date.now() + 60000) } }
+      );
+
+      expect(await SchedulerService.runDueJobs()).toHaveLength(0);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should take over expired locks', async () => {
+      await makeDue('test.job');
+      await ScheduledJob.updateOne(
+        { name: 'test.job' },
+        { $set: { lockedBy: 'crashed-instance', lockedUntil: new Date(Date.now() - 1000) } }
+      );
+
+      expect(await SchedulerService.runDueJobs()).toHaveLength(1);
+    });
+
+    it('should skip paused jobs', async () => {
+      await makeDue('test.job');
+      await SchedulerService.pauseJob('test.job', adminId);
+
+      expect(await SchedulerService.runDueJobs()).toHaveLength(0);
+    });
+  });
+
+  describe('triggerJob', () => {
+    it('should run a paused job on demand', async () => {
+      await SchedulerService.pauseJob('test.job', adminId);
+
+      const run = await SchedulerService.triggerJob('test.job', adminId);
+
+      expect(run).toMatchObject({ trigger: 'manual', triggeredBy: adminId, status: 'succeeded' });
+    });
+
+    it('should refuse to run a job that is already running', async () => {
+      await ScheduledJob.updateOne(
+        { name: 'test.job' },
+        { $set: { lockedBy: 'other-instance', lockedUntil: new Date(Date.now() + 60000) } }
+      );
+
+      await expect(SchedulerService.triggerJob('test.job', adminId)).rejects.toThrow('Job is already running');
+    });
+  });
+});
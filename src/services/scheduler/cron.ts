@@ -0,0 +1,155 @@
+/**
+ * Minimal five-field cron expression support (minute hour day-of-month month day-of-week), evaluated in UTC.
+ * Each field accepts `*`, single values, ranges (`1-5`), steps (`0-30/10`, or `*` followed by `/15`) and comma-separated lists.
+ */
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 } // day of week (0 and 7 are both Sunday)
+];
+
+// Give up on expressions that can never match (e.g. 30 February) after this many years
+const MAX_SEARCH_YEARS = 5;
+
+export class CronSchedule {
+  readonly expression: string;
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly daysOfMonth: Set<number>;
+  private readonly months: Set<number>;
+  private readonly daysOfWeek: Set<number>;
+  private readonly dayOfMonthRestricted: boolean;
+  private readonly dayOfWeekRestricted: boolean;
+
+  constructor(expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+      CronSchedule.parseField(part, FIELDS[index], expression)
+    );
+
+    // Sunday may be written as 0 or 7
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+
+    this.expression = parts.join(' ');
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = daysOfWeek;
+    this.dayOfMonthRestricted = parts[2] !== '*';
+    this.dayOfWeekRestricted = parts[4] !== '*';
+  }
+
+  /**
+   * Check whether an expression parses
+   */
+  static isValid(expression: string): boolean {
+    try {
+      new CronSchedule(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static parseField(part: string, field: CronField, expression: string): Set<number> {
+    const values = new Set<number>();
+    const invalid = () => new Error(`Invalid cron expression "${expression}": bad field "${part}"`);
+
+    for (const item of part.split(',')) {
+      const [rangePart, stepPart] = item.split('/');
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+      if (!Number.isInteger(step) || step <= 0) {
+        throw invalid();
+      }
+
+      let start: number;
+      let end: number;
+      if (rangePart === '*') {
+        start = field.min;
+        end = field.max;
+      } else if (rangePart.includes('-')) {
+        [start, end] = rangePart.split('-').map(Number);
+      } else {
+        start = Number(rangePart);
+        // `5/15` means every 15 starting at 5
+        end = stepPart === undefined ? start : field.max;
+      }
+
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+        throw invalid();
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonthMatch = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeekMatch = this.daysOfWeek.has(date.getUTCDay());
+
+    // Standard cron semantics: when both day fields are restricted, either may match
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonthMatch || dayOfWeekMatch;
+    }
+    return dayOfMonthMatch && dayOfWeekMatch;
+  }
+
+  /**
+   * First matching minute strictly after the given date
+   */
+  next(after: Date = new Date()): Date {
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+    while (date.getTime() <= limit) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return date;
+    }
+
+    throw new Error(`Cron expression "${this.expression}" has no upcoming run time`);
+  }
+}
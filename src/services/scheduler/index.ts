@@ -0,0 +1,331 @@
+import os from 'os';
+import crypto from 'crypto';
+import { ScheduledJob, IScheduledJob } from '../../models/ScheduledJob';
+import { JobRun, IJobRun } from '../../models/JobRun';
+import { CronSchedule } from './cron';
+import { logger } from '../../utils/logger';
+
+export interface JobDefinition {
+  name: string;
+  description?: string;
+  cronExpression: string; // Default schedule; admins may change it afterwards
+  lockTimeoutSeconds?: number;
+  handler: () => Promise<any>;
+}
+
+export interface ScheduledJobSummary {
+  job: IScheduledJob;
+  registered: boolean; // False when no handler exists on this instance (e.g. a removed job)
+}
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 30;
+const DEFAULT_LOCK_TIMEOUT_SECONDS = 30 * 60;
+
+// Keep stored error messages readable in run history
+const MAX_ERROR_LENGTH = 2000;
+
+export class SchedulerService {
+  private static definitions = new Map<string, JobDefinition>();
+  private static pollTimer?: NodeJS.Timeout;
+  private static ticking = false;
+  static readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+  /**
+   * Register a job handler. Registration is per process; schedules live in MongoDB.
+   */
+  static registerJob(definition: JobDefinition): void {
+    new CronSchedule(definition.cronExpression); // Fail fast on invalid defaults
+    this.definitions.set(definition.name, definition);
+  }
+
+  /**
+   * Names of jobs registered on this instance
+   */
+  static getRegisteredJobNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Create schedule records for newly registered jobs. Existing records keep any admin changes.
+   */
+  static async syncJobs(): Promise<void> {
+    try {
+      for (const definition of this.definitions.values()) {
+        await ScheduledJob.updateOne(
+          { name: definition.name },
+          {
+            $set: { description: definition.description },
+            $setOnInsert: {
+              cronExpression: definition.cronExpression,
+              status: 'active',
+              lockTimeoutSeconds: definition.lockTimeoutSeconds || DEFAULT_LOCK_TIMEOUT_SECONDS,
+              nextRunAt: new CronSchedule(definition.cronExpression).next()
+            }
+          },
+          { upsert: true }
+        );
+      }
+    } catch (error) {
+      logger.error('Error syncing scheduled jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync job records and start polling for due jobs
+   */
+  static async start(): Promise<void> {
+    if (this.pollTimer) return;
+
+    await this.syncJobs();
+
+    const configured = parseInt(process.env.SCHEDULER_POLL_INTERVAL_SECONDS || '', 10);
+    const intervalSeconds = isNaN(configured) || configured <= 0 ? DEFAULT_POLL_INTERVAL_SECONDS : configured;
+
+    this.pollTimer = setInterval(() => {
+      this.runDueJobs().catch(error => logger.error('Scheduler tick failed:', error));
+    }, intervalSeconds * 1000);
+    this.pollTimer.unref();
+
+    logger.info(`Job scheduler started on ${this.instanceId} with ${this.definitions.size} job(s)`);
+  }
+
+  /**
+   * Stop polling. Jobs already running finish normally.
+   */
+  static stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Acquire the lock on a job. Only one instance can hold it until it is released or expires.
+   * When `dueOnly` is set the job must also be active and due, and its next run is scheduled.
+   */
+  private static async acquireLock(name: string, dueOnly: boolean): Promise<IScheduledJob | null> {
+    const now = new Date();
+    const job = await ScheduledJob.findOne({ name });
+    if (!job) {
+      return null;
+    }
+
+    const query: any = {
+      name,
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+    };
+    const update: any = {
+      lockedBy: this.instanceId,
+      lockedUntil: new Date(now.getTime() + job.lockTimeoutSeconds * 1000)
+    };
+
+    if (dueOnly) {
+      query.status = 'active';
+      query.nextRunAt = { $lte: now };
+      update.nextRunAt = new CronSchedule(job.cronExpression).next(now);
+    }
+
+    return ScheduledJob.findOneAndUpdate(query, { $set: update }, { new: true });
+  }
+
+  /**
+   * Run every registered job that is due and not locked by another instance
+   */
+  static async runDueJobs(): Promise<IJobRun[]> {
+    // Skip overlapping ticks when a job outlasts the poll interval
+    if (this.ticking) return [];
+    this.ticking = true;
+
+    const runs: IJobRun[] = [];
+    try {
+      for (const name of this.definitions.keys()) {
+        const job = await this.acquireLock(name, true);
+        if (job) {
+          runs.push(await this.execute(job, 'schedule'));
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+
+    return runs;
+  }
+
+  /**
+   * Run a job now, regardless of its schedule or paused status
+   */
+  static async triggerJob(name: string, triggeredBy: string): Promise<IJobRun> {
+    if (!this.definitions.has(name)) {
+      throw new Error('Scheduled job not found');
+    }
+
+    const job = await this.acquireLock(name, false);
+    if (!job) {
+      const exists = await ScheduledJob.exists({ name });
+      throw new Error(exists ? 'Job is already running' : 'Scheduled job not found');
+    }
+
+    return this.execute(job, 'manual', triggeredBy);
+  }
+
+  /**
+   * Run a locked job, record the outcome and release the lock
+   */
+  private static async execute(job: IScheduledJob, trigger: 'schedule' | 'manual', triggeredBy?: string): Promise<IJobRun> {
+    const definition = this.definitions.get(job.name)!;
+    const startedAt = new Date();
+
+    const run = await JobRun.create({
+      jobName: job.name,
+      trigger,
+      triggeredBy,
+      instanceId: this.instanceId,
+      status: 'running',
+      startedAt
+    });
+
+    try {
+      run.result = await definition.handler();
+      run.status = 'succeeded';
+    } catch (error: any) {
+      run.status = 'failed';
+      run.error = (error?.message || String(error)).slice(0, MAX_ERROR_LENGTH);
+      logger.error(`Scheduled job ${job.name} failed:`, error);
+    }
+
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - startedAt.getTime();
+    await run.save();
+
+    await ScheduledJob.updateOne(
+      { _id: job._id, lockedBy: this.instanceId },
+      {
+        $set: {
+          lastRunAt: startedAt,
+          lastRunStatus: run.status,
+          lastRunDurationMs: run.durationMs,
+          lastError: run.error
+        },
+        $unset: { lockedBy: 1, lockedUntil: 1 }
+      }
+    );
+
+    logger.info(`Scheduled job ${job.name} ${run.status} in ${run.durationMs}ms (${trigger})`);
+    return run;
+  }
+
+  /**
+   * List all scheduled jobs
+   */
+  static async getJobs(): Promise<ScheduledJobSummary[]> {
+    try {
+      const jobs = await ScheduledJob.find().sort({ name: 1 });
+      return jobs.map(job => ({ job, registered: this.definitions.has(job.name) }));
+    } catch (error) {
+      logger.error('Error getting scheduled jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single scheduled job
+   */
+  static async getJob(name: string): Promise<IScheduledJob | null> {
+    try {
+      return await ScheduledJob.findOne({ name });
+    } catch (error) {
+      logger.error('Error getting scheduled job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pause a job so it is skipped until resumed
+   */
+  static async pauseJob(name: string, adminId: string): Promise<IScheduledJob> {
+    try {
+      const job = await ScheduledJob.findOneAndUpdate(
+        { name },
+        { $set: { status: 'paused', updatedBy: adminId } },
+        { new: true }
+      );
+      if (!job) {
+        throw new Error('Scheduled job not found');
+      }
+      return job;
+    } catch (error) {
+      logger.error('Error pausing scheduled job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a paused job from its next scheduled time; missed runs are not replayed
+   */
+  static async resumeJob(name: string, adminId: string): Promise<IScheduledJob> {
+    try {
+      const job = await ScheduledJob.findOne({ name });
+      if (!job) {
+        throw new Error('Scheduled job not found');
+      }
+
+      job.status = 'active';
+      job.nextRunAt = new CronSchedule(job.cronExpression).next();
+      job.updatedBy = adminId;
+      await job.save();
+      return job;
+    } catch (error) {
+      logger.error('Error resuming scheduled job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a job's cron expression
+   */
+  static async updateSchedule(name: string, cronExpression: string, adminId: string): Promise<IScheduledJob> {
+    try {
+      const schedule = new CronSchedule(cronExpression);
+
+      const job = await ScheduledJob.findOne({ name });
+      if (!job) {
+        throw new Error('Scheduled job not found');
+      }
+
+      job.cronExpression = schedule.expression;
+      job.nextRunAt = schedule.next();
+      job.updatedBy = adminId;
+      await job.save();
+      return job;
+    } catch (error) {
+      logger.error('Error updating job schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run history for a job, most recent first
+   */
+  static async getJobRuns(
+    name: string,
+    filters: { status?: string } = {},
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ runs: IJobRun[]; total: number }> {
+    try {
+      const query: any = { jobName: name };
+      if (filters.status) query.status = filters.status;
+
+      const [runs, total] = await Promise.all([
+        JobRun.find(query).sort({ startedAt: -1 }).skip((page - 1) * limit).limit(limit),
+        JobRun.countDocuments(query)
+      ]);
+
+      return { runs, total };
+    } catch (error) {
+      logger.error('Error getting job runs:', error);
+      throw error;
+    }
+  }
+}
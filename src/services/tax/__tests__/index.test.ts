@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { TaxService, selectWithholdingRule, TAX_PROFILE_ERRORS } from '../index';
+import { TaxProfile } from '../../../models/TaxProfile';
+import { WithholdingRule, IWithholdingRule } from '../../../models/WithholdingRule';
+import { TaxYearSummary } from '../../../models/TaxYearSummary';
+import { LedgerTransaction } from '../../../models/LedgerTransaction';
+import { PayoutRequest } from '../../../models/PayoutRequest';
+import { Commission } from '../../../models/Commission';
+import { User } from '../../../models/User';
+
+describe('TaxService', () => {
+  describe('selectWithholdingRule', () => {
+    const rule = (overrides: Partial<IWithholdingRule>) => new WithholdingRule({
+      name: 'Rule',
+      rate: 0.24,
+      createdBy: 'admin',
+      ...overrides
+    });
+
+    const rules = [
+      rule({ name: 'No form on file', formTypes: ['none'], rate: 0.24, priority: 10 }),
+      rule({ name: 'Backup withholding', formTypes: ['W-9'], backupWithholdingOnly: true, rate: 0.24, priority: 20 }),
+      rule({ name: 'Foreign persons', formTypes: ['W-8BEN', 'W-8BEN-E'], rate: 0.3, applyTreatyRate: true, priority: 5 }),
+      rule({ name: 'Disabled', rate: 0.5, priority: 100, enabled: false })
+    ];
+
+    it('should withhold when no accepted tax form is on file', () => {
+      expect(selectWithholdingRule(rules, null)).toMatchObject({ rate: 0.24, rule: { name: 'No form on file' } });
+      expect(selectWithholdingRule(rules, {
+        formType: 'W-9', country: 'US', taxClassification: 'individual', backupWithholding: false, status: 'rejected'
+      })?.rule.name).toBe('No form on file');
+    });
+
+    it('should only apply backup withholding to flagged profiles', () => {
+      const profile = { formType: 'W-9' as const, country: 'US', taxClassification: 'individual' as const, status: 'verified' as const };
+
+      expect(selectWithholdingRule(rules, { ...profile, backupWithholding: false })).toBeNull();
+      expect(selectWithholdingRule(rules, { ...profile, backupWithholding: true })?.rule.name).toBe('Backup withholding');
+    });
+
+    it('should reduce the rate to a claimed treaty rate', () => {
+      const profile = {
+        formType: 'W-8BEN' as const,
+        country: 'GB',
+        taxClassification: 'foreign_individual' as const,
+        backupWithholding: false,
+        status: 'submitted' as const
+      };
+
+      expect(selectWithholdingRule(rules, profile)?.rate).toBe(0.3);
+      expect(selectWithholdingRule(rules, { ...profile, treatyRate: 0 })?.rate).toBe(0);
+    });
+  });
+
+  describe('with a database', () => {
+    let mongoServer: MongoMemoryServer;
+    let marketerId: string;
+    const paymentMethodId = new mongoose.Types.ObjectId().toString();
+    const adminId = new mongoose.Types.ObjectId().toString();
+
+    const w9 = {
+      formType: 'W-9' as const,
+      legalName: 'Jane Roe',
+      taxClassification: 'individual' as const,
+      country: 'US',
+      address: { line1: '1 Main St', city: 'Austin', state: 'TX', postalCode: '78701', country: 'US' },
+      taxId: '123-45-6789',
+      certifiedName: 'Jane Roe'
+    };
+
+    const sendPayout = async (amount: number, completedAt: string) => {
+      const payout = await PayoutRequest.create({ marketerId, paymentMethodId, amount, status: 'processing' });
+      await TaxService.applyWithholding(payout);
+      payout.status = 'completed';
+      payout.completedAt = new Date(completedAt);
+      await payout.save();
+      return payout;
+    };
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      await Promise.all([
+        TaxProfile.deleteMany({}),
+        WithholdingRule.deleteMany({}),
+        TaxYearSummary.deleteMany({}),
+        PayoutRequest.deleteMany({}),
+        Commission.deleteMany({}),
+        User.deleteMany({}),
+        LedgerTransaction.collection.deleteMany({})
+      ]);
+
+      const marketer = await User.create({
+        email: 'marketer@example.com',
+        password: 'password123',
+        firstName: 'Jane',
+        lastName: 'Roe',
+        role: 'marketer',
+        status: 'active'
+      });
+      marketerId = marketer._id.toString();
+
+      await Commission.create({
+        marketerId,
+        customerId: new mongoose.Types.ObjectId().toString(),
+        productId: new mongoose.Types.ObjectId().toString(),
+        trackingCode: 'TRACK123',
+        initialSpendAmount: 20000,
+        commissionRate: 0.1,
+        commissionAmount: 2000,
+        status: 'approved',
+        conversionDate: new Date('2024-01-01T00:00:00Z'),
+        clearancePeriodDays: 30
+      });
+    });
+
+    it('should store the taxpayer ID encrypted and reject impossible forms', async () => {
+      const profile = await TaxService.submitTaxProfile(marketerId, w9);
+
+      expect(profile.taxIdLast4).toBe('6789');
+      expect(profile.toJSON()).not.toHaveProperty('encryptedTaxId');
+      const stored = await TaxProfile.findOne({ userId: marketerId }).select('+encryptedTaxId');
+      expect(stored!.encryptedTaxId).not.toContain('123456789');
+      expect(stored!.getTaxId()).toBe('123456789');
+
+      await expect(TaxService.submitTaxProfile(marketerId, { ...w9, country: 'CA' }))
+        .rejects.toThrow(TAX_PROFILE_ERRORS.w9NotUsPerson);
+      await expect(TaxService.submitTaxProfile(marketerId, { ...w9, formType: 'W-8BEN', country: 'GB', address: { ...w9.address, country: 'GB' } }))
+        .rejects.toThrow(TAX_PROFILE_ERRORS.w8benClassification);
+    });
+
+    it('should withhold from payouts once and send the net amount', async () => {
+      await WithholdingRule.create({ name: 'No form on file', formTypes: ['none'], rate: 0.24, createdBy: adminId });
+      const payout = await PayoutRequest.create({ marketerId, paymentMethodId, amount: 100, processingFee: 1, status: 'processing' });
+
+      expect(await TaxService.applyWithholding(payout)).toBe(24);
+      await TaxService.submitTaxProfile(marketerId, w9);
+      expect(await TaxService.applyWithholding(payout)).toBe(24);
+
+      const saved = await PayoutRequest.findById(payout._id);
+      expect(saved).toMatchObject({ withholdingAmount: 24, withholdingRate: 0.24, netAmount: 75 });
+    });
+
+    it('should summarize a tax year from sent payouts and export reportable marketers', async () => {
+      await TaxService.submitTaxProfile(marketerId, w9);
+      await WithholdingRule.create({ name: 'Backup withholding', backupWithholdingOnly: true, rate: 0.24, createdBy: adminId });
+      await TaxService.reviewTaxProfile(marketerId, { status: 'verified', backupWithholding: true }, adminId);
+
+      await sendPayout(500, '2024-03-01T00:00:00Z');
+      await sendPayout(300, '2024-09-01T00:00:00Z');
+      await sendPayout(200, '2025-01-05T00:00:00Z');
+
+      const result = await TaxService.generateYearEndSummaries(2024);
+
+      expect(result).toEqual({ taxYear: 2024, marketers: 1, reportable: 1 });
+      expect(await TaxService.getSummary(marketerId, 2024)).toMatchObject({
+        formType: '1099-NEC',
+        grossPaid: 800,
+        taxWithheld: 192,
+        payoutCount: 2,
+        reportable: true,
+        recipient: { legalName: 'Jane Roe', taxIdLast4: '6789' }
+      });
+
+      const reportable = await TaxService.getReportableMarketers(2024, 600);
+      expect(reportable).toHaveLength(1);
+      expect(reportable[0]).toMatchObject({ email: 'marketer@example.com', taxId: '123456789', grossPaid: 800 });
+      expect(await TaxService.getReportableMarketers(2024, 1000)).toHaveLength(0);
+    });
+  });
+});
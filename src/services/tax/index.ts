@@ -0,0 +1,467 @@
+import { TaxProfile, ITaxProfile, TaxFormType, DOMESTIC_TAX_CLASSIFICATIONS } from '../../models/TaxProfile';
+import { WithholdingRule, IWithholdingRule } from '../../models/WithholdingRule';
+import { TaxYearSummary, ITaxYearSummary } from '../../models/TaxYearSummary';
+import { LedgerTransaction } from '../../models/LedgerTransaction';
+import { IPayoutRequest } from '../../models/PayoutRequest';
+import { User } from '../../models/User';
+import { LedgerService } from '../ledger';
+import { logger } from '../../utils/logger';
+
+export interface TaxProfileData {
+  formType: TaxFormType;
+  legalName: string;
+  businessName?: string;
+  taxClassification: ITaxProfile['taxClassification'];
+  country: string;
+  address: ITaxProfile['address'];
+  taxId: string;
+  treatyCountry?: string;
+  treatyRate?: number;
+  certifiedName: string;
+}
+
+export interface WithholdingRuleData {
+  name: string;
+  description?: string;
+  rate: number;
+  priority?: number;
+  enabled?: boolean;
+  formTypes?: IWithholdingRule['formTypes'];
+  countries?: string[];
+  taxClassifications?: string[];
+  backupWithholdingOnly?: boolean;
+  applyTreatyRate?: boolean;
+}
+
+export interface WithholdingDecision {
+  rule: IWithholdingRule;
+  rate: number;
+}
+
+export interface YearEndSummaryResult {
+  taxYear: number;
+  marketers: number;
+  reportable: number;
+}
+
+export interface ReportableMarketer {
+  marketerId: string;
+  email: string;
+  formType: ITaxYearSummary['formType'];
+  legalName: string;
+  businessName: string;
+  taxClassification: string;
+  taxId: string;
+  country: string;
+  address: string;
+  grossPaid: number;
+  taxWithheld: number;
+  payoutCount: number;
+  hasTaxProfile: boolean;
+}
+
+type WithholdingProfile = Pick<ITaxProfile, 'formType' | 'country' | 'taxClassification' | 'backupWithholding' | 'treatyRate' | 'status'>;
+
+// Payments below this in a calendar year are not reported
+export const TAX_REPORTING_THRESHOLD = parseFloat(process.env.TAX_REPORTING_THRESHOLD || '600');
+
+export const TAX_PROFILE_NOT_FOUND = 'Tax profile not found';
+export const WITHHOLDING_RULE_NOT_FOUND = 'Withholding rule not found';
+export const TAX_SUMMARY_NOT_FOUND = 'Tax summary not found';
+
+const toCents = (value: number) => Math.round((value || 0) * 100);
+
+/**
+ * Pick the withholding rule for a marketer: the highest priority enabled rule whose criteria all
+ * match. Rejected tax profiles are treated as missing.
+ */
+export const selectWithholdingRule = (
+  rules: IWithholdingRule[],
+  profile: WithholdingProfile | null
+): WithholdingDecision | null => {
+  const accepted = profile && profile.status !== 'rejected' ? profile : null;
+  const formType = accepted ? accepted.formType : 'none';
+
+  const matching = rules
+    .filter(rule => rule.enabled)
+    .filter(rule => rule.formTypes.length === 0 || rule.formTypes.includes(formType))
+    .filter(rule => rule.countries.length === 0 || (accepted !== null && rule.countries.includes(accepted.country)))
+    .filter(rule => rule.taxClassifications.length === 0 ||
+      (accepted !== null && rule.taxClassifications.includes(accepted.taxClassification)))
+    .filter(rule => !rule.backupWithholdingOnly || accepted?.backupWithholding === true)
+    .sort((a, b) => b.priority - a.priority);
+
+  const rule = matching[0];
+  if (!rule) {
+    return null;
+  }
+
+  const treatyRate = accepted?.treatyRate;
+  const rate = rule.applyTreatyRate && treatyRate !== undefined && treatyRate !== null
+    ? Math.min(rule.rate, treatyRate)
+    : rule.rate;
+
+  return { rule, rate };
+};
+
+export const TAX_PROFILE_ERRORS = {
+  w9NotUsPerson: 'A W-9 can only be submitted by US persons',
+  w9Classification: 'A W-9 requires a US tax classification',
+  w9TaxId: 'A W-9 requires a 9-digit SSN or EIN',
+  w9Treaty: 'Treaty benefits can only be claimed on a W-8 form',
+  w8UsPerson: 'US persons must submit a W-9',
+  w8benClassification: 'A W-8BEN requires the foreign_individual tax classification',
+  w8beneClassification: 'A W-8BEN-E requires the foreign_entity tax classification',
+  treatyIncomplete: 'A treaty claim requires both the treaty country and rate'
+};
+
+/**
+ * Reject form, country and classification combinations that cannot appear on a real form
+ */
+const validateTaxProfile = (data: TaxProfileData): void => {
+  const country = data.country.toUpperCase();
+  const domestic = (DOMESTIC_TAX_CLASSIFICATIONS as readonly string[]).includes(data.taxClassification);
+
+  if (data.formType === 'W-9') {
+    if (country !== 'US') {
+      throw new Error(TAX_PROFILE_ERRORS.w9NotUsPerson);
+    }
+    if (!domestic) {
+      throw new Error(TAX_PROFILE_ERRORS.w9Classification);
+    }
+    if (data.treatyCountry || data.treatyRate !== undefined) {
+      throw new Error(TAX_PROFILE_ERRORS.w9Treaty);
+    }
+    if (!/^\d{9}$/.test(data.taxId.replace(/[\s-]/g, ''))) {
+      throw new Error(TAX_PROFILE_ERRORS.w9TaxId);
+    }
+    return;
+  }
+
+  if (country === 'US') {
+    throw new Error(TAX_PROFILE_ERRORS.w8UsPerson);
+  }
+  if (data.formType === 'W-8BEN' && data.taxClassification !== 'foreign_individual') {
+    throw new Error(TAX_PROFILE_ERRORS.w8benClassification);
+  }
+  if (data.formType === 'W-8BEN-E' && data.taxClassification !== 'foreign_entity') {
+    throw new Error(TAX_PROFILE_ERRORS.w8beneClassification);
+  }
+  if ((data.treatyRate !== undefined) !== Boolean(data.treatyCountry)) {
+    throw new Error(TAX_PROFILE_ERRORS.treatyIncomplete);
+  }
+};
+
+const formatAddress = (address?: ITaxYearSummary['recipient']['address']): string =>
+  address
+    ? [address.line1, address.line2, address.city, address.state, address.postalCode, address.country].filter(Boolean).join(', ')
+    : '';
+
+export class TaxService {
+  /**
+   * Get a marketer's tax profile
+   */
+  static async getTaxProfile(userId: string): Promise<ITaxProfile | null> {
+    return TaxProfile.findOne({ userId });
+  }
+
+  /**
+   * Submit or replace a marketer's W-9/W-8 details. A new submission goes back to review.
+   */
+  static async submitTaxProfile(userId: string, data: TaxProfileData): Promise<ITaxProfile> {
+    validateTaxProfile(data);
+
+    const profile = (await TaxProfile.findOne({ userId }).select('+encryptedTaxId')) || new TaxProfile({ userId });
+    profile.set({
+      formType: data.formType,
+      legalName: data.legalName,
+      businessName: data.businessName,
+      taxClassification: data.taxClassification,
+      country: data.country,
+      address: data.address,
+      treatyCountry: data.treatyCountry,
+      treatyRate: data.treatyRate,
+      certifiedName: data.certifiedName,
+      certifiedAt: new Date(),
+      status: 'submitted',
+      reviewedBy: undefined,
+      reviewedAt: undefined,
+      rejectionReason: undefined
+    });
+    profile.setTaxId(data.taxId);
+
+    await profile.save();
+    logger.info(`Tax profile (${data.formType}) submitted for user ${userId}`);
+    return profile;
+  }
+
+  /**
+   * Verify or reject a submitted tax profile, optionally flagging it for backup withholding
+   */
+  static async reviewTaxProfile(
+    userId: string,
+    review: { status?: 'verified' | 'rejected'; rejectionReason?: string; backupWithholding?: boolean },
+    adminId: string
+  ): Promise<ITaxProfile> {
+    const profile = await TaxProfile.findOne({ userId });
+    if (!profile) {
+      throw new Error(TAX_PROFILE_NOT_FOUND);
+    }
+
+    if (review.status) {
+      profile.status = review.status;
+      profile.reviewedBy = adminId;
+      profile.reviewedAt = new Date();
+      profile.rejectionReason = review.status === 'rejected' ? review.rejectionReason : undefined;
+    }
+    if (review.backupWithholding !== undefined) {
+      profile.backupWithholding = review.backupWithholding;
+    }
+
+    await profile.save();
+    return profile;
+  }
+
+  static async listTaxProfiles(filters: {
+    status?: ITaxProfile['status'];
+    formType?: TaxFormType;
+    page: number;
+    limit: number;
+  }): Promise<{ profiles: ITaxProfile[]; total: number }> {
+    const query: any = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.formType) query.formType = filters.formType;
+
+    const [profiles, total] = await Promise.all([
+      TaxProfile.find(query)
+        .populate('userId', 'email firstName lastName')
+        .sort({ updatedAt: -1 })
+        .skip((filters.page - 1) * filters.limit)
+        .limit(filters.limit),
+      TaxProfile.countDocuments(query)
+    ]);
+
+    return { profiles, total };
+  }
+
+  static async listWithholdingRules(): Promise<IWithholdingRule[]> {
+    return WithholdingRule.find().sort({ priority: -1, createdAt: 1 });
+  }
+
+  static async createWithholdingRule(data: WithholdingRuleData, adminId: string): Promise<IWithholdingRule> {
+    return WithholdingRule.create({ ...data, createdBy: adminId });
+  }
+
+  static async updateWithholdingRule(
+    ruleId: string,
+    data: Partial<WithholdingRuleData>,
+    adminId: string
+  ): Promise<IWithholdingRule> {
+    const rule = await WithholdingRule.findById(ruleId);
+    if (!rule) {
+      throw new Error(WITHHOLDING_RULE_NOT_FOUND);
+    }
+
+    rule.set({ ...data, updatedBy: adminId });
+    await rule.save();
+    return rule;
+  }
+
+  static async deleteWithholdingRule(ruleId: string): Promise<IWithholdingRule> {
+    const rule = await WithholdingRule.findByIdAndDelete(ruleId);
+    if (!rule) {
+      throw new Error(WITHHOLDING_RULE_NOT_FOUND);
+    }
+    return rule;
+  }
+
+  /**
+   * Assess withholding on a payout before it is sent. The rate is fixed the first time a payout is
+   * assessed, so retries and re-batching withhold the same amount. Returns the amount withheld.
+   */
+  static async applyWithholding(payout: IPayoutRequest): Promise<number> {
+    if (payout.withholdingRate !== undefined && payout.withholdingRate !== null) {
+      return payout.withholdingAmount || 0;
+    }
+
+    const [rules, profile] = await Promise.all([
+      WithholdingRule.find({ enabled: true }),
+      TaxProfile.findOne({ userId: payout.marketerId.toString() })
+    ]);
+    const decision = selectWithholdingRule(rules, profile);
+    const rate = decision?.rate ?? 0;
+
+    const availableCents = toCents(payout.amount) - toCents(payout.processingFee || 0);
+    const withheldCents = Math.min(Math.round(toCents(payout.amount) * rate), Math.max(availableCents, 0));
+
+    payout.withholdingRate = rate;
+    payout.withholdingAmount = withheldCents / 100;
+    if (decision) {
+      payout.withholdingRuleId = decision.rule._id.toString();
+    }
+    await payout.save();
+
+    if (withheldCents > 0) {
+      logger.info(`Withheld $${(withheldCents / 100).toFixed(2)} (${(rate * 100).toFixed(2)}%) from payout ${payout._id} under rule "${decision!.rule.name}"`);
+    }
+    return withheldCents / 100;
+  }
+
+  /**
+   * Build 1099-NEC/1042-S style summaries of what each marketer was paid during a calendar year.
+   * Amounts come from payouts posted to the ledger, net of any that were returned. Regenerating a
+   * year replaces its summaries.
+   */
+  static async generateYearEndSummaries(
+    taxYear: number,
+    threshold: number = TAX_REPORTING_THRESHOLD
+  ): Promise<YearEndSummaryResult> {
+    await LedgerService.syncAll();
+
+    const start = new Date(Date.UTC(taxYear, 0, 1));
+    const end = new Date(Date.UTC(taxYear + 1, 0, 1));
+
+    const [totals, counts] = await Promise.all([
+      LedgerTransaction.aggregate([
+        { $match: { referenceType: 'payout', occurredAt: { $gte: start, $lt: end } } },
+        { $unwind: '$entries' },
+        { $match: { 'entries.account': { $in: ['cash', 'fee_revenue', 'tax_withholding'] } } },
+        {
+          $group: {
+            _id: { marketerId: '$marketerId', account: '$entries.account' },
+            credit: { $sum: '$entries.credit' },
+            debit: { $sum: '$entries.debit' }
+          }
+        }
+      ]),
+      LedgerTransaction.aggregate([
+        { $match: { referenceType: 'payout', type: { $in: ['payout_sent', 'payout_reversed'] }, occurredAt: { $gte: start, $lt: end } } },
+        {
+          $group: {
+            _id: '$marketerId',
+            count: { $sum: { $cond: [{ $eq: ['$type', 'payout_sent'] }, 1, -1] } }
+          }
+        }
+      ])
+    ]);
+
+    const byMarketer = new Map<string, { grossCents: number; withheldCents: number }>();
+    for (const total of totals) {
+      const marketer = byMarketer.get(total._id.marketerId) || { grossCents: 0, withheldCents: 0 };
+      const cents = toCents(total.credit) - toCents(total.debit);
+      marketer.grossCents += cents;
+      if (total._id.account === 'tax_withholding') {
+        marketer.withheldCents += cents;
+      }
+      byMarketer.set(total._id.marketerId, marketer);
+    }
+    const payoutCounts = new Map(counts.map(count => [count._id, count.count]));
+
+    const marketerIds = [...byMarketer.keys()];
+    const profiles = await TaxProfile.find({ userId: { $in: marketerIds } });
+    const profilesByUser = new Map(profiles.map(profile => [profile.userId.toString(), profile]));
+
+    const generatedAt = new Date();
+    let reportable = 0;
+    for (const marketerId of marketerIds) {
+      const { grossCents, withheldCents } = byMarketer.get(marketerId)!;
+      const profile = profilesByUser.get(marketerId);
+      const accepted = profile && profile.status !== 'rejected' ? profile : undefined;
+      const isReportable = grossCents > 0 && grossCents >= toCents(threshold);
+      if (isReportable) reportable++;
+
+      await TaxYearSummary.findOneAndUpdate(
+        { marketerId, taxYear },
+        {
+          $set: {
+            formType: accepted?.formType.startsWith('W-8') ? '1042-S' : '1099-NEC',
+            grossPaid: grossCents / 100,
+            taxWithheld: withheldCents / 100,
+            payoutCount: Math.max(0, payoutCounts.get(marketerId) || 0),
+            reportable: isReportable,
+            recipient: accepted
+              ? {
+                legalName: accepted.legalName,
+                businessName: accepted.businessName,
+                taxClassification: accepted.taxClassification,
+                taxIdLast4: accepted.taxIdLast4,
+                country: accepted.country,
+                address: accepted.address
+              }
+              : {},
+            hasTaxProfile: Boolean(accepted),
+            generatedAt
+          }
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      );
+    }
+
+    logger.info(`Generated ${marketerIds.length} tax year summaries for ${taxYear}; ${reportable} reportable`);
+    return { taxYear, marketers: marketerIds.length, reportable };
+  }
+
+  static async getSummaries(marketerId: string): Promise<ITaxYearSummary[]> {
+    return TaxYearSummary.find({ marketerId }).sort({ taxYear: -1 });
+  }
+
+  static async getSummary(marketerId: string, taxYear: number): Promise<ITaxYearSummary> {
+    const summary = await TaxYearSummary.findOne({ marketerId, taxYear });
+    if (!summary) {
+      throw new Error(TAX_SUMMARY_NOT_FOUND);
+    }
+    return summary;
+  }
+
+  /**
+   * Marketers paid at least the threshold during a tax year, with the full taxpayer ID for filing.
+   * Summaries are generated first if the year has none yet.
+   */
+  static async getReportableMarketers(
+    taxYear: number,
+    threshold: number = TAX_REPORTING_THRESHOLD
+  ): Promise<ReportableMarketer[]> {
+    if (!(await TaxYearSummary.exists({ taxYear }))) {
+      await this.generateYearEndSummaries(taxYear, threshold);
+    }
+
+    const summaries = await TaxYearSummary.find({ taxYear, grossPaid: { $gte: threshold, $gt: 0 } })
+      .sort({ grossPaid: -1 });
+    const marketerIds = summaries.map(summary => summary.marketerId);
+
+    const [profiles, users] = await Promise.all([
+      TaxProfile.find({ userId: { $in: marketerIds } }).select('+encryptedTaxId'),
+      User.find({ _id: { $in: marketerIds } }).select('email')
+    ]);
+    const profilesByUser = new Map(profiles.map(profile => [profile.userId.toString(), profile]));
+    const emailsByUser = new Map(users.map(user => [user._id.toString(), user.email]));
+
+    return summaries.map(summary => {
+      const profile = profilesByUser.get(summary.marketerId);
+      let taxId = '';
+      if (profile && summary.hasTaxProfile) {
+        try {
+          taxId = profile.getTaxId();
+        } catch (error) {
+          logger.error(`Failed to decrypt tax ID for marketer ${summary.marketerId}:`, error);
+        }
+      }
+
+      return {
+        marketerId: summary.marketerId,
+        email: emailsByUser.get(summary.marketerId) || '',
+        formType: summary.formType,
+        legalName: summary.recipient?.legalName || '',
+        businessName: summary.recipient?.businessName || '',
+        taxClassification: summary.recipient?.taxClassification || '',
+        taxId,
+        country: summary.recipient?.country || '',
+        address: formatAddress(summary.recipient?.address),
+        grossPaid: summary.grossPaid,
+        taxWithheld: summary.taxWithheld,
+        payoutCount: summary.payoutCount,
+        hasTaxProfile: summary.hasTaxProfile
+      };
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { AttributionModelService, AttributionTouchpoint } from '../attributionModels';
+
+describe('AttributionModelService', () => {
+  const conversionTime = new Date('2024-03-31T12:00:00Z');
+  const daysBefore = (days: number) => new Date(conversionTime.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const touchpoints: AttributionTouchpoint[] = [
+    { trackingCode: 'CODE_B', marketerId: 'marketer-b', timestamp: daysBefore(10), clickEventId: 'click-2' },
+    { trackingCode: 'CODE_A', marketerId: 'marketer-a', timestamp: daysBefore(20), clickEventId: 'click-1' },
+    { trackingCode: 'CODE_C', marketerId: 'marketer-c', timestamp: daysBefore(5), clickEventId: 'click-3' },
+    { trackingCode: 'CODE_D', marketerId: 'marketer-d', timestamp: daysBefore(1), clickEventId: 'click-4' }
+  ];
+
+  const weightOf = (credits: { trackingCode: string; weight: number }[], trackingCode: string) =>
+    credits.find(credit => credit.trackingCode === trackingCode)?.weight || 0;
+
+  it('should return no credits when there are no touchpoints', () => {
+    expect(AttributionModelService.calculateCredits('linear', [], conversionTime)).toEqual([]);
+  });
+
+  it('should credit the most recent click for last_click', () => {
+    const credits = AttributionModelService.calculateCredits('last_click', touchpoints, conversionTime);
+
+    expect(credits).toHaveLength(1);
+    expect(credits[0]).toMatchObject({ trackingCode: 'CODE_D', marketerId: 'marketer-d', weight: 1 });
+  });
+
+  it('should credit the oldest click for first_click', () => {
+    const credits = AttributionModelService.calculateCredits('first_click', touchpoints, conversionTime);
+
+    expect(credits).toHaveLength(1);
+    expect(credits[0]).toMatchObject({ trackingCode: 'CODE_A', clickEventId: 'click-1', weight: 1 });
+  });
+
+  it('should split credit evenly for linear', () => {
+    const credits = AttributionModelService.calculateCredits('linear', touchpoints, conversionTime);
+
+    expect(credits).toHaveLength(4);
+    credits.forEach(credit => expect(credit.weight).toBeCloseTo(0.25));
+  });
+
+  it('should give more credit to recent clicks for time_decay', () => {
+    const credits = AttributionModelService.calculateCredits('time_decay', touchpoints, conversionTime, { halfLifeDays: 7 });
+    const total = credits.reduce((sum, credit) => sum + credit.weight, 0);
+
+    expect(total).toBeCloseTo(1);
+    expect(weightOf(credits, 'CODE_D')).toBeGreaterThan(weightOf(credits, 'CODE_C'));
+    expect(weightOf(credits, 'CODE_C')).toBeGreaterThan(weightOf(credits, 'CODE_B'));
+    expect(weightOf(credits, 'CODE_B')).toBeGreaterThan(weightOf(credits, 'CODE_A'));
+    // 7 day half-life: a click 5 days older keeps 0.5^(5/7) of the weight
+    expect(weightOf(credits, 'CODE_B') / weightOf(credits, 'CODE_C')).toBeCloseTo(Math.pow(0.5, 5 / 7));
+  });
+
+  it('should weight first and last clicks 40% each for position_based', () => {
+    const credits = AttributionModelService.calculateCredits('position_based', touchpoints, conversionTime);
+
+    expect(weightOf(credits, 'CODE_A')).toBeCloseTo(0.4);
+    expect(weightOf(credits, 'CODE_D')).toBeCloseTo(0.4);
+    expect(weightOf(credits, 'CODE_B')).toBeCloseTo(0.1);
+    expect(weightOf(credits, 'CODE_C')).toBeCloseTo(0.1);
+  });
+
+  it('should split position_based credit evenly with two touchpoints', () => {
+    const credits = AttributionModelService.calculateCredits('position_based', touchpoints.slice(0, 2), conversionTime);
+
+    expect(weightOf(credits, 'CODE_A')).toBeCloseTo(0.5);
+    expect(weightOf(credits, 'CODE_B')).toBeCloseTo(0.5);
+  });
+
+  it('should merge repeated clicks on the same tracking code', () => {
+    const repeated: AttributionTouchpoint[] = [
+      ...touchpoints,
+      { trackingCode: 'CODE_A', marketerId: 'marketer-a', timestamp: daysBefore(3), clickEventId: 'click-5' }
+    ];
+
+    const credits = AttributionModelService.calculateCredits('linear', repeated, conversionTime);
+
+    expect(credits).toHaveLength(4);
+    expect(weightOf(credits, 'CODE_A')).toBeCloseTo(0.4);
+    expect(credits[0]).toMatchObject({ trackingCode: 'CODE_A', clickEventId: 'click-5' });
+  });
+});
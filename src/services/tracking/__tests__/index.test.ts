@@ -458,6 +458,34 @@ describe('TrackingService', () => {
     });
   });
 
+  describe('getAttributionSettings', () => {
+    it('should return platform defaults for products without custom settings', async () => {
+      const settings = await TrackingService.getAttributionSettings(testProduct._id.toString());
+
+      expect(settings.attributionWindowDays).toBe(30);
+      expect(settings.cookieDurationDays).toBe(30);
+      expect(settings.attributionPriority).toEqual(['portal', 's2s', 'cookie']);
+    });
+
+    it('should return the windows configured on the product', async () => {
+      testProduct.attributionWindowDays = 90;
+      testProduct.cookieDurationDays = 7;
+      testProduct.attributionPriority = ['cookie', 'portal'];
+      await testProduct.save();
+
+      const settings = await TrackingService.getAttributionSettings(testProduct._id.toString());
+
+      expect(settings.attributionWindowDays).toBe(90);
+      expect(settings.cookieDurationDays).toBe(7);
+      expect(settings.attributionPriority).toEqual(['cookie', 'portal']);
+    });
+
+    it('should convert cookie duration to milliseconds', () => {
+      expect(TrackingService.getTrackingCookieMaxAge(7)).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(TrackingService.getTrackingCookieMaxAge()).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+  });
+
   describe('ReferralLink model methods', () => {
     let testLink: any;
 
@@ -0,0 +1,130 @@
+export type AttributionModel = 'last_click' | 'first_click' | 'linear' | 'time_decay' | 'position_based';
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = [
+  'last_click',
+  'first_click',
+  'linear',
+  'time_decay',
+  'position_based'
+];
+
+export interface AttributionTouchpoint {
+  trackingCode: string;
+  marketerId: string;
+  timestamp: Date;
+  clickEventId?: string;
+}
+
+export interface AttributionCredit {
+  trackingCode: string;
+  marketerId: string;
+  weight: number;
+  clickEventId?: string;
+}
+
+export interface AttributionModelOptions {
+  // Time-decay: a touchpoint loses half of its weight every `halfLifeDays` before conversion
+  halfLifeDays?: number;
+  // Position-based: share given to each of the first and last touchpoints
+  positionEndpointWeight?: number;
+}
+
+const DEFAULT_HALF_LIFE_DAYS = 7;
+const DEFAULT_POSITION_ENDPOINT_WEIGHT = 0.4;
+
+export class AttributionModelService {
+  /**
+   * Distribute conversion credit across touchpoints according to the given model.
+   * Returns one credit per tracking code, with weights summing to 1.
+   */
+  static calculateCredits(
+    model: AttributionModel,
+    touchpoints: AttributionTouchpoint[],
+    conversionTimestamp: Date = new Date(),
+    options: AttributionModelOptions = {}
+  ): AttributionCredit[] {
+    if (touchpoints.length === 0) {
+      return [];
+    }
+
+    // Oldest touchpoint first
+    const sorted = [...touchpoints].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const rawWeights = this.getTouchpointWeights(model, sorted, conversionTimestamp, options);
+
+    // Collapse multiple clicks on the same tracking code into a single credit
+    const credits = new Map<string, AttributionCredit>();
+    sorted.forEach((touchpoint, index) => {
+      const existing = credits.get(touchpoint.trackingCode);
+      if (existing) {
+        existing.weight += rawWeights[index];
+        // Keep a reference to the most recent click on this tracking code
+        existing.clickEventId = touchpoint.clickEventId || existing.clickEventId;
+      } else {
+        credits.set(touchpoint.trackingCode, {
+          trackingCode: touchpoint.trackingCode,
+          marketerId: touchpoint.marketerId,
+          weight: rawWeights[index],
+          clickEventId: touchpoint.clickEventId
+        });
+      }
+    });
+
+    const totalWeight = Array.from(credits.values()).reduce((sum, credit) => sum + credit.weight, 0);
+
+    return Array.from(credits.values())
+      .filter(credit => credit.weight > 0)
+      .map(credit => ({
+        ...credit,
+        weight: totalWeight > 0 ? credit.weight / totalWeight : 0
+      }))
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * Private method: Un-normalized weight of each touchpoint (touchpoints sorted oldest first)
+   */
+  private static getTouchpointWeights(
+    model: AttributionModel,
+    touchpoints: AttributionTouchpoint[],
+    conversionTimestamp: Date,
+    options: AttributionModelOptions
+  ): number[] {
+    const count = touchpoints.length;
+
+    switch (model) {
+      case 'first_click':
+        return touchpoints.map((_, index) => (index === 0 ? 1 : 0));
+
+      case 'last_click':
+        return touchpoints.map((_, index) => (index === count - 1 ? 1 : 0));
+
+      case 'linear':
+        return touchpoints.map(() => 1 / count);
+
+      case 'time_decay': {
+        const halfLifeDays = options.halfLifeDays || DEFAULT_HALF_LIFE_DAYS;
+        return touchpoints.map(touchpoint => {
+          const ageDays = Math.max(0, conversionTimestamp.getTime() - touchpoint.timestamp.getTime()) / (1000 * 60 * 60 * 24);
+          return Math.pow(0.5, ageDays / halfLifeDays);
+        });
+      }
+
+      case 'position_based': {
+        if (count === 1) {
+          return [1];
+        }
+        if (count === 2) {
+          return [0.5, 0.5];
+        }
+        const endpointWeight = options.positionEndpointWeight ?? DEFAULT_POSITION_ENDPOINT_WEIGHT;
+        const middleWeight = (1 - endpointWeight * 2) / (count - 2);
+        return touchpoints.map((_, index) =>
+          index === 0 || index === count - 1 ? endpointWeight : middleWeight
+        );
+      }
+
+      default:
+        throw new Error(`Unsupported attribution model: ${model}`);
+    }
+  }
+}
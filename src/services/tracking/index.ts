@@ -4,8 +4,12 @@ import { ConversionEvent, IConversionEvent } from '../../models/ConversionEvent'
 import { Product } from '../../models/Product';
 import { User } from '../../models/User';
 import { logger } from '../../utils/logger';
+import { WebhookService } from '../webhook';
+import { CurrencyService } from '../currency';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
+import { AttributionModel, AttributionModelService, AttributionCredit, AttributionTouchpoint } from './attributionModels';
 import crypto from 'crypto';
-import mongoose from 'mongoose';
+import mongoose, { FilterQuery } from 'mongoose';
 import { EventEmitter } from 'events';
 import {config} from "dotenv"
 
@@ -38,10 +42,12 @@ export interface ConversionTrackingData {
   customerId: string;
   productId: string;
   initialSpendAmount: number;
+  currency?: string; // Defaults to the product currency
   sessionId?: string;
   ipAddress?: string;
   userAgent?: string;
   attributionMethod?: 'cookie' | 'portal' | 's2s';
+  deduplicationKey?: string; // Caller-supplied key, e.g. derived from a postback idempotency key
 }
 
 export interface AttributionResult {
@@ -51,8 +57,24 @@ export interface AttributionResult {
   attributionMethod: 'cookie' | 'portal' | 's2s' | 'none';
   clickEventId?: string;
   attributionWindowDays?: number;
+  attributionModel?: AttributionModel;
+  credits?: AttributionCredit[];
 }
 
+export interface AttributionSettings {
+  attributionModel: AttributionModel;
+  attributionWindowDays: number;
+  cookieDurationDays: number;
+  attributionPriority: Array<'portal' | 'cookie' | 's2s'>;
+}
+
+export const DEFAULT_ATTRIBUTION_SETTINGS: AttributionSettings = {
+  attributionModel: 'last_click',
+  attributionWindowDays: 30,
+  cookieDurationDays: 30,
+  attributionPriority: ['portal', 's2s', 'cookie']
+};
+
 export interface ConversionAnalytics {
   totalConversions: number;
   totalRevenue: number;
@@ -221,7 +243,7 @@ export class TrackingService {
     try {
       const link = await ReferralLink.findOne({ trackingCode })
         .populate('marketerId', 'email status')
-        .populate('productId', 'name landingPageUrl status');
+        .populate('productId', 'name landingPageUrl status cookieDurationDays attributionWindowDays');
 
       return link;
 
@@ -472,38 +494,97 @@ export class TrackingService {
   }
 
   /**
-   * Perform attribution for a conversion event
+   * Get the attribution settings configured on a product, falling back to platform defaults
+   */
+  static async getAttributionSettings(productId: string): Promise<AttributionSettings> {
+    try {
+      const product = await Product.findById(productId)
+        .select('attributionModel attributionWindowDays cookieDurationDays attributionPriority');
+
+      if (!product) {
+        return { ...DEFAULT_ATTRIBUTION_SETTINGS };
+      }
+
+      return {
+        attributionModel: product.attributionModel || DEFAULT_ATTRIBUTION_SETTINGS.attributionModel,
+        attributionWindowDays: product.attributionWindowDays || DEFAULT_ATTRIBUTION_SETTINGS.attributionWindowDays,
+        cookieDurationDays: product.cookieDurationDays || DEFAULT_ATTRIBUTION_SETTINGS.cookieDurationDays,
+        attributionPriority: product.attributionPriority && product.attributionPriority.length > 0
+          ? product.attributionPriority
+          : DEFAULT_ATTRIBUTION_SETTINGS.attributionPriority
+      };
+
+    } catch (error) {
+      logger.error('Error fetching attribution settings:', error);
+      return { ...DEFAULT_ATTRIBUTION_SETTINGS };
+    }
+  }
+
+  /**
+   * Get the max age (in milliseconds) for affiliate tracking cookies
+   */
+  static getTrackingCookieMaxAge(cookieDurationDays?: number): number {
+    return (cookieDurationDays || DEFAULT_ATTRIBUTION_SETTINGS.cookieDurationDays) * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Perform attribution for a conversion event.
+   * Attribution methods are tried in the order configured on the product; methods
+   * missing from the product's priority list are not used.
    */
   static async performAttribution(data: ConversionTrackingData): Promise<AttributionResult> {
     try {
+      const settings = await this.getAttributionSettings(data.productId);
+
       let attributionResult: AttributionResult = {
         success: false,
-        attributionMethod: 'none'
+        attributionMethod: 'none',
+        attributionWindowDays: settings.attributionWindowDays
       };
 
-      // Method 1: Direct tracking code attribution (portal-based or server-to-server)
-      if (data.trackingCode) {
-        const directAttribution = await this.performDirectAttribution(data.trackingCode, data.customerId);
-        if (directAttribution.success) {
-          attributionResult = directAttribution;
-          attributionResult.attributionMethod = data.attributionMethod || 'portal';
+      for (const method of settings.attributionPriority) {
+        // Direct tracking code attribution (portal-based or server-to-server)
+        if (method === 'portal' || method === 's2s') {
+          const requestedMethod = data.attributionMethod === 's2s' ? 's2s' : 'portal';
+          if (!data.trackingCode || requestedMethod !== method) {
+            continue;
+          }
+
+          const directAttribution = await this.performDirectAttribution(
+            data.trackingCode,
+            data.customerId,
+            settings.attributionWindowDays
+          );
+          if (directAttribution.success) {
+            attributionResult = directAttribution;
+            attributionResult.attributionMethod = method;
+            break;
+          }
         }
-      }
 
-      // Method 2: Cookie-based attribution (session and fingerprint matching)
-      if (!attributionResult.success && (data.sessionId || data.ipAddress)) {
-        const cookieAttribution = await this.performCookieAttribution({
-          customerId: data.customerId,
-          sessionId: data.sessionId,
-          ipAddress: data.ipAddress,
-          userAgent: data.userAgent
-        });
-        if (cookieAttribution.success) {
-          attributionResult = cookieAttribution;
-          attributionResult.attributionMethod = 'cookie';
+        // Cookie-based attribution (session and fingerprint matching)
+        if (method === 'cookie' && (data.sessionId || data.ipAddress)) {
+          const cookieAttribution = await this.performCookieAttribution({
+            customerId: data.customerId,
+            sessionId: data.sessionId,
+            ipAddress: data.ipAddress,
+            userAgent: data.userAgent
+          }, settings.attributionWindowDays);
+          if (cookieAttribution.success) {
+            attributionResult = cookieAttribution;
+            attributionResult.attributionMethod = 'cookie';
+            break;
+          }
         }
       }
 
+      // Distribute credit across every touchpoint in the window using the product's attribution model
+      if (attributionResult.success) {
+        const { attributionModel, credits } = await this.resolveAttributionCredits(data, attributionResult, settings);
+        attributionResult.attributionModel = attributionModel;
+        attributionResult.credits = credits;
+      }
+
       logger.info(`Attribution result for customer ${data.customerId}: ${JSON.stringify(attributionResult)}`);
       return attributionResult;
 
@@ -521,13 +602,18 @@ export class TrackingService {
    */
   static async recordConversion(data: ConversionTrackingData): Promise<IConversionEvent> {
     try {
+      // Snapshot the spend currency's rate so revenue can be reported in the base currency
+      const product = await Product.findById(data.productId).select('currency');
+      const currency = (data.currency || product?.currency || DEFAULT_CURRENCY).toUpperCase();
+      const exchangeRate = await CurrencyService.getBaseRate(currency);
+
       // Perform attribution first
       const attribution = await this.performAttribution(data);
 
-      // Generate deduplication key
+      // Generate deduplication key unless the caller supplied one
       const crypto = require('crypto');
       const deduplicationData = `${data.customerId}|${data.productId}|${new Date().toISOString().split('T')[0]}`;
-      const deduplicationKey = crypto.createHash('sha256').update(deduplicationData).digest('hex');
+      const deduplicationKey = data.deduplicationKey || crypto.createHash('sha256').update(deduplicationData).digest('hex');
 
       // Create conversion event
       const conversionEvent = new ConversionEvent({
@@ -535,13 +621,17 @@ export class TrackingService {
         customerId: data.customerId,
         productId: data.productId,
         initialSpendAmount: data.initialSpendAmount,
+        currency,
+        exchangeRate,
         attributionMethod: attribution.attributionMethod,
         commissionEligible: attribution.success,
         sessionId: data.sessionId,
         ipAddress: data.ipAddress,
         userAgent: data.userAgent,
         clickEventId: attribution.clickEventId,
-        attributionWindowDays: attribution.attributionWindowDays || 30,
+        attributionWindowDays: attribution.attributionWindowDays || DEFAULT_ATTRIBUTION_SETTINGS.attributionWindowDays,
+        attributionModel: attribution.attributionModel || 'last_click',
+        attributionCredits: attribution.credits || [],
         deduplicationKey
       });
 
@@ -555,7 +645,26 @@ export class TrackingService {
         }
       }
 
-      logger.info(`Recorded conversion for customer ${data.customerId}, amount: ${data.initialSpendAmount}, eligible: ${attribution.success}`);
+      const creditedMarketerIds = conversionEvent.attributionCredits.map(credit => credit.marketerId);
+      await WebhookService.publish('conversion.created', {
+        conversionId: conversionEvent._id.toString(),
+        customerId: conversionEvent.customerId,
+        productId: conversionEvent.productId.toString(),
+        trackingCode: conversionEvent.trackingCode,
+        initialSpendAmount: conversionEvent.initialSpendAmount,
+        currency: conversionEvent.currency,
+        attributionMethod: conversionEvent.attributionMethod,
+        attributionModel: conversionEvent.attributionModel,
+        attributionCredits: conversionEvent.attributionCredits.map(credit => ({
+          marketerId: credit.marketerId,
+          trackingCode: credit.trackingCode,
+          weight: credit.weight
+        })),
+        commissionEligible: conversionEvent.commissionEligible,
+        conversionTimestamp: conversionEvent.conversionTimestamp
+      }, attribution.marketerId ? [...creditedMarketerIds, attribution.marketerId] : creditedMarketerIds);
+
+      logger.info(`Recorded conversion for customer ${data.customerId}, amount: ${data.initialSpendAmount} ${currency}, eligible: ${attribution.success}`);
       return conversionEvent;
 
     } catch (error) {
@@ -663,7 +772,11 @@ export class TrackingService {
   /**
    * Private method: Perform direct attribution using tracking code
    */
-  private static async performDirectAttribution(trackingCode: string, customerId: string): Promise<AttributionResult> {
+  private static async performDirectAttribution(
+    trackingCode: string,
+    customerId: string,
+    attributionWindowDays: number = DEFAULT_ATTRIBUTION_SETTINGS.attributionWindowDays
+  ): Promise<AttributionResult> {
     try {
       const referralLink = await ReferralLink.findOne({ 
         trackingCode,
@@ -679,7 +792,7 @@ export class TrackingService {
         trackingCode,
         marketerId: referralLink.marketerId.toString(),
         attributionMethod: 'portal',
-        attributionWindowDays: 30
+        attributionWindowDays
       };
 
     } catch (error) {
@@ -696,9 +809,8 @@ export class TrackingService {
     sessionId?: string;
     ipAddress?: string;
     userAgent?: string;
-  }): Promise<AttributionResult> {
+  }, attributionWindow: number = DEFAULT_ATTRIBUTION_SETTINGS.attributionWindowDays): Promise<AttributionResult> {
     try {
-      const attributionWindow = 30; // days
       const cutoffDate = new Date(Date.now() - (attributionWindow * 24 * 60 * 60 * 1000));
 
       let clickEvent: IClickEvent | null = null;
@@ -713,10 +825,7 @@ export class TrackingService {
 
       // If no session match, try fingerprint-based attribution
       if (!clickEvent && data.ipAddress && data.userAgent) {
-        const fingerprint = crypto.createHash('sha256')
-          .update(`${data.ipAddress}|${data.userAgent}|${data.sessionId || ''}`)
-          .digest('hex')
-          .substring(0, 16);
+        const fingerprint = this.generateFingerprint(data.ipAddress, data.userAgent, data.sessionId);
 
         clickEvent = await ClickEvent.findOne({
           fingerprint,
@@ -760,6 +869,120 @@ export class TrackingService {
     }
   }
 
+  /**
+   * Private method: Resolve weighted attribution credits for a successful attribution
+   */
+  private static async resolveAttributionCredits(
+    data: ConversionTrackingData,
+    attribution: AttributionResult,
+    settings: AttributionSettings
+  ): Promise<{ attributionModel: AttributionModel; credits: AttributionCredit[] }> {
+    const primaryCredit: AttributionCredit = {
+      trackingCode: attribution.trackingCode!,
+      marketerId: attribution.marketerId!,
+      weight: 1,
+      clickEventId: attribution.clickEventId
+    };
+
+    try {
+      const attributionModel = settings.attributionModel;
+
+      // Last-click keeps the single-winner attribution chosen above
+      if (attributionModel === 'last_click') {
+        return { attributionModel, credits: [primaryCredit] };
+      }
+
+      const touchpoints = await this.collectAttributionTouchpoints(data, settings.attributionWindowDays);
+
+      // Direct (portal / s2s) attributions have no click, so they count as a touchpoint at conversion time
+      if (!attribution.clickEventId) {
+        touchpoints.push({
+          trackingCode: primaryCredit.trackingCode,
+          marketerId: primaryCredit.marketerId,
+          timestamp: new Date()
+        });
+      } else if (!touchpoints.some(touchpoint => touchpoint.clickEventId === attribution.clickEventId)) {
+        const clickEvent = await ClickEvent.findById(attribution.clickEventId);
+        if (clickEvent) {
+          touchpoints.push({
+            trackingCode: primaryCredit.trackingCode,
+            marketerId: primaryCredit.marketerId,
+            timestamp: clickEvent.timestamp,
+            clickEventId: clickEvent._id.toString()
+          });
+        }
+      }
+
+      const credits = AttributionModelService.calculateCredits(attributionModel, touchpoints, new Date());
+
+      return {
+        attributionModel,
+        credits: credits.length > 0 ? credits : [primaryCredit]
+      };
+
+    } catch (error) {
+      logger.error('Error resolving attribution credits:', error);
+      return { attributionModel: 'last_click', credits: [primaryCredit] };
+    }
+  }
+
+  /**
+   * Private method: Collect every click in the attribution window that belongs to the converting visitor
+   */
+  private static async collectAttributionTouchpoints(
+    data: ConversionTrackingData,
+    attributionWindowDays: number
+  ): Promise<AttributionTouchpoint[]> {
+    const cutoffDate = new Date(Date.now() - (attributionWindowDays * 24 * 60 * 60 * 1000));
+
+    // IP address alone is never used here: everyone behind the same NAT or carrier IP would share credit
+    const identifiers: FilterQuery<IClickEvent>[] = [{ customerId: data.customerId }];
+    if (data.sessionId) {
+      identifiers.push({ sessionId: data.sessionId });
+    }
+    if (data.ipAddress && data.userAgent) {
+      identifiers.push({ fingerprint: this.generateFingerprint(data.ipAddress, data.userAgent, data.sessionId) });
+    }
+
+    const clickEvents = await ClickEvent.find({
+      $or: identifiers,
+      timestamp: { $gte: cutoffDate }
+    }).sort({ timestamp: 1 });
+
+    if (clickEvents.length === 0) {
+      return [];
+    }
+
+    // Only clicks on referral links for the converted product are eligible for credit
+    const trackingCodes = Array.from(new Set(clickEvents.map(click => click.trackingCode)));
+    const referralLinks = await ReferralLink.find({
+      trackingCode: { $in: trackingCodes },
+      productId: data.productId
+    });
+    const marketerByTrackingCode = new Map(
+      referralLinks.map(link => [link.trackingCode, link.marketerId.toString()])
+    );
+
+    return clickEvents
+      .filter(click => marketerByTrackingCode.has(click.trackingCode))
+      .map(click => ({
+        trackingCode: click.trackingCode,
+        marketerId: marketerByTrackingCode.get(click.trackingCode)!,
+        timestamp: click.timestamp,
+        clickEventId: click._id.toString()
+      }));
+  }
+
+  /**
+   * Private method: Generate the device fingerprint used for click matching
+   */
+  private static generateFingerprint(ipAddress: string, userAgent: string, sessionId?: string): string {
+    return crypto.createHash('sha256')
+      .update(`${ipAddress}|${userAgent}|${sessionId || ''}`)
+      .digest('hex')
+      .substring(0, 16);
+  }
+
   /**
    * Enhanced conversion recording with MongoDB aggregation-based deduplication
    */
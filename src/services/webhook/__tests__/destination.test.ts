@@ -0,0 +1,38 @@
+import { assertSafeDestination, isPublicAddress, WEBHOOK_DESTINATION_ERRORS } from '../destination';
+
+describe('webhook destinations', () => {
+  beforeEach(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_DESTINATIONS;
+  });
+
+  it('should only treat internet-routable addresses as public', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', 'not-an-ip']
+      .forEach(address => expect(isPublicAddress(address)).toBe(false));
+  });
+
+  it('should reject plain http and private or reserved hosts', async () => {
+    await expect(assertSafeDestination('http://93.184.216.34/hook')).rejects.toThrow(WEBHOOK_DESTINATION_ERRORS.insecureScheme);
+    await expect(assertSafeDestination('https://169.254.169.254/latest/meta-data')).rejects.toThrow(WEBHOOK_DESTINATION_ERRORS.privateAddress);
+    await expect(assertSafeDestination('https://10.0.0.5/hook')).rejects.toThrow(WEBHOOK_DESTINATION_ERRORS.privateAddress);
+    await expect(assertSafeDestination('https://[::1]:8443/hook')).rejects.toThrow(WEBHOOK_DESTINATION_ERRORS.privateAddress);
+    await expect(assertSafeDestination('https://localhost/hook')).rejects.toThrow(WEBHOOK_DESTINATION_ERRORS.privateAddress);
+    await expect(assertSafeDestination('https://93.184.216.34/hook')).resolves.toBeUndefined();
+  });
+
+  it('should only allow private destinations outside production', async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_DESTINATIONS = 'true';
+    await expect(assertSafeDestination('http://127.0.0.1:8080/hook')).resolves.toBeUndefined();
+
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      await expect(assertSafeDestination('http://127.0.0.1:8080/hook')).rejects.toThrow(WEBHOOK_DESTINATION_ERRORS.insecureScheme);
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+});
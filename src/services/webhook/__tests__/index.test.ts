@@ -0,0 +1,151 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService, WebhookOwner } from '../index';
+import { WebhookEndpoint } from '../../../models/WebhookEndpoint';
+import { WebhookDelivery } from '../../../models/WebhookDelivery';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('WebhookService', () => {
+  let mongoServer: MongoMemoryServer;
+  let server: http.Server;
+  let baseUrl: string;
+  let responseStatus: number;
+  let received: Array<{ headers: http.IncomingHttpHeaders; body: string }>;
+
+  const marketer: WebhookOwner = { id: new mongoose.Types.ObjectId().toString(), role: 'marketer', permissions: [] };
+  const otherMarketer: WebhookOwner = { id: new mongoose.Types.ObjectId().toString(), role: 'marketer', permissions: [] };
+  const admin: WebhookOwner = { id: new mongoose.Types.ObjectId().toString(), role: 'admin', permissions: ['system:manage'] };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+
+    // Local stand-in for a subscriber's endpoint
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    process.env.WEBHOOK_RETRY_BASE_SECONDS = '60';
+    process.env.WEBHOOK_ALLOW_PRIVATE_DESTINATIONS = 'true';
+    responseStatus = 200;
+    received = [];
+
+    await WebhookEndpoint.deleteMany({});
+    await WebhookDelivery.deleteMany({});
+  });
+
+  const makeDue = (deliveryId: string) =>
+    WebhookDelivery.updateOne({ _id: deliveryId }, { $set: { nextAttemptAt: new Date(Date.now() - 1000) } });
+
+  describe('publish', () => {
+    it('should only queue deliveries for subscribed owners and admins', async () => {
+      await WebhookService.createEndpoint(marketer, { url: `${baseUrl}/mine`, events: ['commission.approved'] });
+      await WebhookService.createEndpoint(otherMarketer, { url: `${baseUrl}/other`, events: ['commission.approved'] });
+      await WebhookService.createEndpoint(admin, { url: `${baseUrl}/admin`, events: ['commission.approved'] });
+      await WebhookService.createEndpoint(marketer, { url: `${baseUrl}/payouts`, events: ['payout.completed'] });
+
+      const deliveries = await WebhookService.publish('commission.approved', { commissionId: 'c1' }, [marketer.id]);
+
+      expect(deliveries).toHaveLength(2);
+      expect(new Set(deliveries.map(delivery => delivery.ownerId))).toEqual(new Set([marketer.id, admin.id]));
+      expect(deliveries[0].eventId).toBe(deliveries[1].eventId);
+    });
+  });
+
+  describe('deliver', () => {
+    it('should sign the payload so receivers can verify it', async () => {
+      const { secret } = await WebhookService.createEndpoint(marketer, { url: baseUrl, events: ['payout.completed'] });
+      const [delivery] = await WebhookService.publish('payout.completed', { payoutId: 'p1' }, [marketer.id]);
+
+      const result = await WebhookService.deliver(delivery._id.toString());
+
+      expect(result!.status).toBe('succeeded');
+      expect(received).toHaveLength(1);
+
+      const { headers, body } = received[0];
+      const expected = WebhookService.computeSignature(secret, headers['x-webhook-timestamp'] as string, body);
+      expect(headers['x-webhook-signature']).toBe(expected);
+      expect(headers['x-webhook-event']).toBe('payout.completed');
+      expect(JSON.parse(body)).toMatchObject({ type: 'payout.completed', data: { payoutId: 'p1' } });
+    });
+
+    it('should retry failed deliveries with exponential backoff', async () => {
+      responseStatus = 500;
+      await WebhookService.createEndpoint(marketer, { url: baseUrl, events: ['payout.completed'] });
+      const [delivery] = await WebhookService.publish('payout.completed', { payoutId: 'p1' }, [marketer.id]);
+
+      const first = await WebhookService.deliver(delivery._id.toString());
+      expect(first!.status).toBe('pending');
+      expect(first!.lastResponseStatus).toBe(500);
+      expect(first!.nextAttemptAt!.getTime() - Date.now()).toBeGreaterThan(55 * 1000);
+
+      // Not due yet, so the worker leaves it alone
+      expect((await WebhookService.processDueDeliveries()).attempted).toBe(0);
+
+      await makeDue(delivery._id.toString());
+      const second = await WebhookService.deliver(delivery._id.toString());
+      expect(second!.nextAttemptAt!.getTime() - Date.now()).toBeGreaterThan(115 * 1000);
+
+      await makeDue(delivery._id.toString());
+      const result = await WebhookService.processDueDeliveries();
+      expect(result).toEqual({ attempted: 1, succeeded: 0, failed: 1 });
+
+      const final = await WebhookDelivery.findById(delivery._id);
+      expect(final!.attempts).toHaveLength(3);
+      expect(final!.nextAttemptAt).toBeUndefined();
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should send a failed event again as a new delivery', async () => {
+      responseStatus = 500;
+      process.env.WEBHOOK_MAX_ATTEMPTS = '1';
+      await WebhookService.createEndpoint(marketer, { url: baseUrl, events: ['conversion.created'] });
+      const [delivery] = await WebhookService.publish('conversion.created', { conversionId: 'v1' }, [marketer.id]);
+      await WebhookService.deliver(delivery._id.toString());
+
+      responseStatus = 200;
+      const redelivery = await WebhookService.redeliver(delivery._id.toString(), marketer);
+
+      expect(redelivery.status).toBe('succeeded');
+      expect(redelivery.redeliveryOf).toBe(delivery._id.toString());
+      expect(redelivery.eventId).toBe(delivery.eventId);
+    });
+
+    it('should not let marketers redeliver other owners\' events', async () => {
+      await WebhookService.createEndpoint(marketer, { url: baseUrl, events: ['conversion.created'] });
+      const [delivery] = await WebhookService.publish('conversion.created', { conversionId: 'v1' }, [marketer.id]);
+
+      await expect(WebhookService.redeliver(delivery._id.toString(), otherMarketer)).rejects.toThrow('Webhook delivery not found');
+    });
+
+    it('should keep admins without system:manage to their own endpoints', async () => {
+      const reportsAdmin: WebhookOwner = { id: new mongoose.Types.ObjectId().toString(), role: 'admin', permissions: ['reports:read'] };
+      await WebhookService.createEndpoint(marketer, { url: baseUrl, events: ['conversion.created'] });
+      const { endpoint } = await WebhookService.createEndpoint(reportsAdmin, { url: `${baseUrl}/admin`, events: ['conversion.created'] });
+      const [delivery] = await WebhookService.publish('conversion.created', { conversionId: 'v1' }, [marketer.id]);
+
+      expect(endpoint.ownerRole).toBe('marketer');
+      expect(await WebhookService.getEndpoints(reportsAdmin)).toHaveLength(1);
+      await expect(WebhookService.redeliver(delivery._id.toString(), reportsAdmin)).rejects.toThrow('Webhook delivery not found');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import dns from 'dns';
+import net from 'net';
+import https from 'https';
+
+export const WEBHOOK_DESTINATION_ERRORS = {
+  invalidUrl: 'Invalid webhook URL',
+  insecureScheme: 'Webhook URLs must use https',
+  privateAddress: 'Webhook URLs must resolve to public internet addresses',
+  unresolvable: 'Webhook URL host could not be resolved'
+};
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast, documentation and other reserved ranges
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+const BLOCKED_IPV6_RANGES: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['100::', 64],
+  ['2001::', 32],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8]
+];
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges
+const blockedRanges = new net.BlockList();
+BLOCKED_IPV4_RANGES.forEach(([network, prefix]) => blockedRanges.addSubnet(network, prefix, 'ipv4'));
+BLOCKED_IPV6_RANGES.forEach(([network, prefix]) => blockedRanges.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is routable on the public internet
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !blockedRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Local development and tests may deliver to plain-http and private hosts; never honoured in production
+ */
+const allowsPrivateDestinations = (): boolean =>
+  process.env.NODE_ENV !== 'production' && process.env.WEBHOOK_ALLOW_PRIVATE_DESTINATIONS === 'true';
+
+/**
+ * Reject webhook URLs that are not https or whose host resolves to a non-public address
+ */
+export const assertSafeDestination = async (url: string): Promise<void> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(WEBHOOK_DESTINATION_ERRORS.invalidUrl);
+  }
+
+  const allowPrivate = allowsPrivateDestinations();
+  if (parsed.protocol !== 'https:' && !(allowPrivate && parsed.protocol === 'http:')) {
+    throw new Error(WEBHOOK_DESTINATION_ERRORS.insecureScheme);
+  }
+  if (allowPrivate) {
+    return;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch {
+      throw new Error(WEBHOOK_DESTINATION_ERRORS.unresolvable);
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(WEBHOOK_DESTINATION_ERRORS.privateAddress);
+  }
+};
+
+// Resolves for the connection itself, so a host cannot pass the check and then rebind to a private address
+const publicOnlyLookup = (
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address?: any, family?: number) => void
+): void => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error);
+    }
+    if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address))) {
+      return callback(new Error(WEBHOOK_DESTINATION_ERRORS.privateAddress));
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * HTTPS agent for deliveries; undefined when private destinations are allowed
+ */
+export const createDestinationAgent = (): https.Agent | undefined =>
+  allowsPrivateDestinations() ? undefined : new https.Agent({ lookup: publicOnlyLookup as any });
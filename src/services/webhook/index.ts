@@ -0,0 +1,515 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEndpoint, IWebhookEndpoint, WebhookEvent } from '../../models/WebhookEndpoint';
+import { WebhookDelivery, IWebhookDelivery } from '../../models/WebhookDelivery';
+import { ICommission } from '../../models/Commission';
+import { Permission } from '../rbac';
+import { logger } from '../../utils/logger';
+import { assertSafeDestination, createDestinationAgent } from './destination';
+
+export interface WebhookOwner {
+  id: string;
+  role: string;
+  permissions: Permission[];
+}
+
+export interface WebhookEndpointData {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+}
+
+export interface WebhookEndpointUpdate {
+  url?: string;
+  description?: string;
+  events?: WebhookEvent[];
+  status?: 'active' | 'disabled';
+}
+
+export interface WebhookRetrySettings {
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  timeoutMs: number;
+}
+
+export interface WebhookProcessingResult {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+const DEFAULT_RETRY_SETTINGS: WebhookRetrySettings = {
+  maxAttempts: 6,
+  baseDelaySeconds: 30,
+  timeoutMs: 10000
+};
+
+// Keep stored error messages short; receivers sometimes return whole HTML pages
+const MAX_ERROR_LENGTH = 500;
+
+export class WebhookService {
+  private static initialized = false;
+
+  /**
+   * Subscribe to in-process platform events. Retries run as the webhooks.retry_deliveries scheduled job.
+   */
+  static async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    // Imported lazily: onboarding depends on tracking, which publishes webhooks
+    const { OnboardingService } = await import('../onboarding');
+    OnboardingService.onStatusChange((data: any) => {
+      void this.publish('customer.status_changed', {
+        customerId: data.customerId?.toString(),
+        productId: data.productId?.toString(),
+        trackingCode: data.trackingCode,
+        status: data.status,
+        step: data.step,
+        completedAt: data.completedAt,
+        rejectionReason: data.rejectionReason
+      }, data.marketerId ? [data.marketerId.toString()] : []);
+    });
+
+    this.initialized = true;
+    logger.info('Webhook service initialized');
+  }
+
+  /**
+   * Retry settings from environment, falling back to defaults
+   */
+  static getRetrySettings(): WebhookRetrySettings {
+    const parse = (value: string | undefined, fallback: number) => {
+      const parsed = parseInt(value || '', 10);
+      return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+    };
+
+    return {
+      maxAttempts: parse(process.env.WEBHOOK_MAX_ATTEMPTS, DEFAULT_RETRY_SETTINGS.maxAttempts),
+      baseDelaySeconds: parse(process.env.WEBHOOK_RETRY_BASE_SECONDS, DEFAULT_RETRY_SETTINGS.baseDelaySeconds),
+      timeoutMs: parse(process.env.WEBHOOK_TIMEOUT_MS, DEFAULT_RETRY_SETTINGS.timeoutMs)
+    };
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base, ... after each failed attempt
+   */
+  static getRetryDelayMs(attemptCount: number, settings: WebhookRetrySettings = this.getRetrySettings()): number {
+    return settings.baseDelaySeconds * 1000 * Math.pow(2, Math.max(0, attemptCount - 1));
+  }
+
+  /**
+   * Signature receivers verify: hex HMAC-SHA256 of `${timestamp}.${body}`
+   */
+  static computeSignature(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Admins with system:manage work across every endpoint and receive all events; everyone else only their own
+   */
+  private static hasAdminScope(owner: WebhookOwner): boolean {
+    return owner.role === 'admin' && owner.permissions.includes('system:manage');
+  }
+
+  private static ownerQuery(owner: WebhookOwner): any {
+    return this.hasAdminScope(owner) ? {} : { ownerId: owner.id };
+  }
+
+  /**
+   * Register an endpoint. The signing secret is only returned here.
+   */
+  static async createEndpoint(
+    owner: WebhookOwner,
+    data: WebhookEndpointData
+  ): Promise<{ endpoint: IWebhookEndpoint; secret: string }> {
+    try {
+      await assertSafeDestination(data.url);
+
+      const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+      const endpoint = new WebhookEndpoint({
+        ownerId: owner.id,
+        ownerRole: this.hasAdminScope(owner) ? 'admin' : 'marketer',
+        url: data.url,
+        description: data.description,
+        events: Array.from(new Set(data.events))
+      });
+      endpoint.setSecret(secret);
+      await endpoint.save();
+
+      logger.info(`Webhook endpoint ${endpoint._id} registered by ${owner.id}`);
+      return { endpoint, secret };
+    } catch (error) {
+      logger.error('Error creating webhook endpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List endpoints visible to the owner
+   */
+  static async getEndpoints(owner: WebhookOwner): Promise<IWebhookEndpoint[]> {
+    try {
+      return await WebhookEndpoint.find(this.ownerQuery(owner)).sort({ createdAt: -1 });
+    } catch (error) {
+      logger.error('Error getting webhook endpoints:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single endpoint visible to the owner
+   */
+  static async getEndpoint(endpointId: string, owner: WebhookOwner): Promise<IWebhookEndpoint | null> {
+    try {
+      return await WebhookEndpoint.findOne({ _id: endpointId, ...this.ownerQuery(owner) });
+    } catch (error) {
+      logger.error('Error getting webhook endpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an endpoint's URL, subscriptions or status
+   */
+  static async updateEndpoint(
+    endpointId: string,
+    owner: WebhookOwner,
+    updates: WebhookEndpointUpdate
+  ): Promise<IWebhookEndpoint> {
+    try {
+      const endpoint = await this.getEndpoint(endpointId, owner);
+      if (!endpoint) {
+        throw new Error('Webhook endpoint not found');
+      }
+
+      if (updates.url !== undefined && updates.url !== endpoint.url) {
+        await assertSafeDestination(updates.url);
+        endpoint.url = updates.url;
+      }
+      if (updates.description !== undefined) endpoint.description = updates.description;
+      if (updates.events !== undefined) endpoint.events = Array.from(new Set(updates.events));
+      if (updates.status !== undefined) endpoint.status = updates.status;
+
+      await endpoint.save();
+      return endpoint;
+    } catch (error) {
+      logger.error('Error updating webhook endpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an endpoint's signing secret
+   */
+  static async rotateSecret(endpointId: string, owner: WebhookOwner): Promise<{ endpoint: IWebhookEndpoint; secret: string }> {
+    try {
+      const endpoint = await this.getEndpoint(endpointId, owner);
+      if (!endpoint) {
+        throw new Error('Webhook endpoint not found');
+      }
+
+      const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+      endpoint.setSecret(secret);
+      await endpoint.save();
+
+      logger.info(`Webhook endpoint ${endpoint._id} secret rotated`);
+      return { endpoint, secret };
+    } catch (error) {
+      logger.error('Error rotating webhook secret:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an endpoint and cancel its pending deliveries
+   */
+  static async deleteEndpoint(endpointId: string, owner: WebhookOwner): Promise<void> {
+    try {
+      const endpoint = await this.getEndpoint(endpointId, owner);
+      if (!endpoint) {
+        throw new Error('Webhook endpoint not found');
+      }
+
+      await WebhookDelivery.updateMany(
+        { endpointId: endpoint._id.toString(), status: 'pending' },
+        { $set: { status: 'failed', lastError: 'Endpoint deleted' }, $unset: { nextAttemptAt: 1 } }
+      );
+      await endpoint.deleteOne();
+
+      logger.info(`Webhook endpoint ${endpointId} deleted`);
+    } catch (error) {
+      logger.error('Error deleting webhook endpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue an event for every subscribed endpoint. Admin endpoints receive all events;
+   * marketer endpoints only receive events concerning one of the given marketers.
+   * Never throws, so webhook problems cannot fail the operation that raised the event.
+   */
+  static async publish(event: WebhookEvent, data: any, marketerIds: string[] = []): Promise<IWebhookDelivery[]> {
+    try {
+      const endpoints = await WebhookEndpoint.find({
+        status: 'active',
+        events: event,
+        $or: [
+          { ownerRole: 'admin' },
+          { ownerRole: 'marketer', ownerId: { $in: marketerIds.map(id => id.toString()) } }
+        ]
+      });
+
+      if (endpoints.length === 0) {
+        return [];
+      }
+
+      const eventId = `evt_${uuidv4()}`;
+      const payload = { id: eventId, type: event, createdAt: new Date().toISOString(), data };
+
+      const deliveries = await WebhookDelivery.insertMany(endpoints.map(endpoint => ({
+        endpointId: endpoint._id.toString(),
+        ownerId: endpoint.ownerId,
+        eventId,
+        event,
+        payload,
+        nextAttemptAt: new Date()
+      })));
+
+      // Deliver right away outside tests; failures are picked up by the retry worker
+      if (process.env.NODE_ENV !== 'test') {
+        for (const delivery of deliveries) {
+          this.deliver(delivery._id.toString()).catch(error => logger.error('Error delivering webhook:', error));
+        }
+      }
+
+      return deliveries as unknown as IWebhookDelivery[];
+    } catch (error) {
+      logger.error(`Error publishing webhook event ${event}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Publish a commission event to the commission's marketer and admin subscribers
+   */
+  static async publishCommissionEvent(
+    event: 'commission.approved' | 'commission.clawed_back',
+    commission: ICommission,
+    extra: Record<string, any> = {}
+  ): Promise<void> {
+    await this.publish(event, {
+      commissionId: commission._id.toString(),
+      marketerId: commission.marketerId.toString(),
+      customerId: commission.customerId,
+      productId: commission.productId.toString(),
+      commissionAmount: commission.commissionAmount,
+      currency: commission.currency,
+      status: commission.status,
+      isRecurring: !!commission.isRecurring,
+      networkLevel: commission.networkLevel || 0,
+      approvalDate: commission.approvalDate,
+      ...extra
+    }, [commission.marketerId.toString()]);
+  }
+
+  /**
+   * Publish payout.completed for a completed payout request
+   */
+  static async publishPayoutCompleted(payout: any): Promise<void> {
+    const marketerId = (payout.marketerId?._id || payout.marketerId).toString();
+    await this.publish('payout.completed', {
+      payoutId: payout._id.toString(),
+      marketerId,
+      amount: payout.amount,
+      currency: payout.currency,
+      processingFee: payout.processingFee,
+      fxConversion: payout.fxConversion,
+      transactionId: payout.transactionId,
+      completedAt: payout.completedAt || new Date()
+    }, [marketerId]);
+  }
+
+  static async publishPayoutReturned(payout: any): Promise<void> {
+    const marketerId = (payout.marketerId?._id || payout.marketerId).toString();
+    await this.publish('payout.returned', {
+      payoutId: payout._id.toString(),
+      marketerId,
+      amount: payout.amount,
+      currency: payout.currency,
+      transactionId: payout.transactionId,
+      settlementStatus: payout.settlementStatus,
+      reason: payout.failureReason,
+      returnedAt: payout.returnedAt || new Date()
+    }, [marketerId]);
+  }
+
+  /**
+   * Make one delivery attempt and schedule the next retry on failure
+   */
+  static async deliver(deliveryId: string): Promise<IWebhookDelivery | null> {
+    const settings = this.getRetrySettings();
+
+    // Lease the delivery so concurrent workers do not send it twice; an expired lease is retried
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: deliveryId, status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      { $set: { nextAttemptAt: new Date(Date.now() + settings.timeoutMs + 60000) } },
+      { new: true }
+    );
+    if (!delivery) {
+      return null;
+    }
+
+    const endpoint = await WebhookEndpoint.findById(delivery.endpointId).select('+encryptedSecret');
+    if (!endpoint || endpoint.status !== 'active') {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      delivery.lastError = endpoint ? 'Endpoint disabled' : 'Endpoint deleted';
+      await delivery.save();
+      return delivery;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const startedAt = Date.now();
+    let responseStatus: number | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      // Checked again on every attempt; the agent re-validates the addresses it actually connects to
+      await assertSafeDestination(endpoint.url);
+
+      const response = await axios.post(endpoint.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'PartnerIQ-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': this.computeSignature(endpoint.getSecret(), timestamp, body)
+        },
+        timeout: settings.timeoutMs,
+        maxRedirects: 0,
+        httpsAgent: createDestinationAgent(),
+        validateStatus: () => true
+      });
+
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error: any) {
+      errorMessage = (error.message || 'Request failed').slice(0, MAX_ERROR_LENGTH);
+    }
+
+    delivery.attemptCount += 1;
+    delivery.attempts.push({
+      attemptedAt: new Date(startedAt),
+      responseStatus,
+      error: errorMessage,
+      durationMs: Date.now() - startedAt
+    });
+    delivery.lastResponseStatus = responseStatus;
+    delivery.lastError = errorMessage;
+
+    if (!errorMessage) {
+      delivery.status = 'succeeded';
+      delivery.deliveredAt = new Date();
+      delivery.nextAttemptAt = undefined;
+    } else if (delivery.attemptCount >= settings.maxAttempts) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      logger.warn(`Webhook delivery ${delivery._id} failed after ${delivery.attemptCount} attempts`);
+    } else {
+      delivery.nextAttemptAt = new Date(Date.now() + this.getRetryDelayMs(delivery.attemptCount, settings));
+    }
+
+    await delivery.save();
+
+    endpoint.lastDeliveryAt = new Date();
+    await endpoint.save();
+
+    return delivery;
+  }
+
+  /**
+   * Attempt every pending delivery whose retry time has come
+   */
+  static async processDueDeliveries(limit: number = 100): Promise<WebhookProcessingResult> {
+    const result: WebhookProcessingResult = { attempted: 0, succeeded: 0, failed: 0 };
+
+    const due = await WebhookDelivery.find({ status: 'pending', nextAttemptAt: { $lte: new Date() } })
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit)
+      .select('_id');
+
+    for (const { _id } of due) {
+      try {
+        const delivery = await this.deliver(_id.toString());
+        if (!delivery) continue;
+
+        result.attempted++;
+        if (delivery.status === 'succeeded') result.succeeded++;
+        if (delivery.status === 'failed') result.failed++;
+      } catch (error) {
+        logger.error(`Error processing webhook delivery ${_id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Manually redeliver an event as a new delivery and attempt it immediately
+   */
+  static async redeliver(deliveryId: string, owner: WebhookOwner): Promise<IWebhookDelivery> {
+    try {
+      const original = await WebhookDelivery.findOne({ _id: deliveryId, ...this.ownerQuery(owner) });
+      if (!original) {
+        throw new Error('Webhook delivery not found');
+      }
+
+      const redelivery = await WebhookDelivery.create({
+        endpointId: original.endpointId,
+        ownerId: original.ownerId,
+        eventId: original.eventId,
+        event: original.event,
+        payload: original.payload,
+        redeliveryOf: original._id.toString(),
+        nextAttemptAt: new Date()
+      });
+
+      return (await this.deliver(redelivery._id.toString())) || redelivery;
+    } catch (error) {
+      logger.error('Error redelivering webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delivery log, most recent first
+   */
+  static async getDeliveries(
+    owner: WebhookOwner,
+    filters: { endpointId?: string; event?: string; status?: string } = {},
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ deliveries: IWebhookDelivery[]; total: number }> {
+    try {
+      const query: any = { ...this.ownerQuery(owner) };
+      if (filters.endpointId) query.endpointId = filters.endpointId;
+      if (filters.event) query.event = filters.event;
+      if (filters.status) query.status = filters.status;
+
+      const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        WebhookDelivery.countDocuments(query)
+      ]);
+
+      return { deliveries, total };
+    } catch (error) {
+      logger.error('Error getting webhook deliveries:', error);
+      throw error;
+    }
+  }
+}
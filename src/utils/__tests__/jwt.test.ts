@@ -65,6 +65,16 @@ describe('JWT Utilities', () => {
       expect(refreshDecoded.iss).toBe('financial-affiliate-platform');
       expect(refreshDecoded.aud).toBe('financial-affiliate-users');
     });
+
+    it('should bind both tokens to a session and give the refresh token an ID', () => {
+      const tokens = generateTokenPair(mockUser, { sessionId: 'session-1', tokenId: 'token-1' });
+      const accessDecoded = jwt.verify(tokens.accessToken, 'test-jwt-secret') as JWTPayload;
+      const refreshDecoded = jwt.verify(tokens.refreshToken, 'test-refresh-secret') as JWTPayload;
+
+      expect(accessDecoded.sessionId).toBe('session-1');
+      expect(accessDecoded.jti).toBeUndefined();
+      expect(refreshDecoded).toMatchObject({ sessionId: 'session-1', jti: 'token-1' });
+    });
   });
 
   describe('verifyAccessToken', () => {
@@ -0,0 +1,58 @@
+// Fractional digits of each supported currency's minor unit
+export const CURRENCY_DECIMALS: { [currency: string]: number } = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CAD: 2,
+  AUD: 2,
+  NZD: 2,
+  CHF: 2,
+  SEK: 2,
+  NOK: 2,
+  DKK: 2,
+  PLN: 2,
+  CZK: 2,
+  JPY: 0,
+  SGD: 2,
+  HKD: 2,
+  INR: 2,
+  MXN: 2,
+  BRL: 2,
+  ZAR: 2
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_DECIMALS);
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const isSupportedCurrency = (currency: string): boolean =>
+  Object.prototype.hasOwnProperty.call(CURRENCY_DECIMALS, currency);
+
+/**
+ * Currency marketer balances, payout requests and reports are kept in. Commissions earned in other
+ * currencies are converted into it at the rate snapshotted when they were created.
+ */
+export const getBaseCurrency = (): string => {
+  const currency = (process.env.BASE_CURRENCY || DEFAULT_CURRENCY).toUpperCase();
+  return isSupportedCurrency(currency) ? currency : DEFAULT_CURRENCY;
+};
+
+/**
+ * Round an amount to the currency's minor unit
+ */
+export const roundCurrency = (amount: number, currency: string): number => {
+  const factor = 10 ** (CURRENCY_DECIMALS[currency] ?? 2);
+  return Math.round(amount * factor) / factor;
+};
+
+/**
+ * Amount in the currency's minor unit, e.g. cents for USD and yen for JPY, as gateways expect
+ */
+export const toMinorUnits = (amount: number, currency: string): number =>
+  Math.round(amount * 10 ** (CURRENCY_DECIMALS[currency] ?? 2));
+
+export const fromMinorUnits = (amount: number, currency: string): number =>
+  roundCurrency(amount / 10 ** (CURRENCY_DECIMALS[currency] ?? 2), currency);
+
+export const formatCurrencyAmount = (amount: number, currency: string): string =>
+  amount.toFixed(CURRENCY_DECIMALS[currency] ?? 2);
@@ -5,6 +5,8 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string; // Server-side session the token belongs to
+  jti?: string; // Refresh token ID, rotated on every refresh
   iat?: number;
   exp?: number;
 }
@@ -19,11 +21,17 @@ const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-super-secret-
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
 
-export const generateTokenPair = (user: IUser): TokenPair => {
+export interface TokenSession {
+  sessionId: string;
+  tokenId: string;
+}
+
+export const generateTokenPair = (user: IUser, session?: TokenSession): TokenPair => {
   const payload: JWTPayload = {
     userId: user._id,
     email: user.email,
-    role: user.role
+    role: user.role,
+    ...(session && { sessionId: session.sessionId })
   };
 
   const signOptions: SignOptions = {
@@ -35,7 +43,8 @@ export const generateTokenPair = (user: IUser): TokenPair => {
   const refreshSignOptions: SignOptions = {
     expiresIn: JWT_REFRESH_EXPIRES_IN as any,
     issuer: 'financial-affiliate-platform',
-    audience: 'financial-affiliate-users'
+    audience: 'financial-affiliate-users',
+    ...(session && { jwtid: session.tokenId })
   };
 
   const accessToken = jwt.sign(payload, JWT_SECRET as string, signOptions);